@@ -0,0 +1,111 @@
+-- Report lifecycle, versions, review comments and audit trail — Issue #157
+
+-- CreateEnum
+CREATE TYPE "ReportStatus" AS ENUM ('DRAFT', 'IN_REVIEW', 'REVISION', 'APPROVED', 'FINALIZED', 'SUBMITTED');
+
+-- CreateEnum
+CREATE TYPE "CommentPriority" AS ENUM ('MUST_FIX', 'SHOULD_FIX', 'SUGGESTION');
+
+-- CreateEnum
+CREATE TYPE "CommentStatus" AS ENUM ('OPEN', 'ADDRESSED', 'DISMISSED');
+
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('CREATED', 'SUBMITTED_FOR_REVIEW', 'COMMENT_ADDED', 'COMMENT_RESOLVED', 'COMMENT_DISMISSED', 'CHANGES_REQUESTED', 'APPROVED', 'FINALIZED', 'SUBMITTED', 'REVERTED');
+
+-- AlterTable: Report lifecycle fields
+ALTER TABLE "Report" ADD COLUMN "status" "ReportStatus" NOT NULL DEFAULT 'DRAFT';
+ALTER TABLE "Report" ADD COLUMN "version" INTEGER;
+ALTER TABLE "Report" ADD COLUMN "preparedById" TEXT;
+ALTER TABLE "Report" ADD COLUMN "reviewedById" TEXT;
+ALTER TABLE "Report" ADD COLUMN "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "Report_status_idx" ON "Report"("status");
+
+-- CreateTable
+CREATE TABLE "ReportVersion" (
+    "id" TEXT NOT NULL,
+    "reportId" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "versionNumber" INTEGER NOT NULL,
+    "pdfPath" TEXT,
+    "description" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReportVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReviewComment" (
+    "id" TEXT NOT NULL,
+    "reportId" TEXT NOT NULL,
+    "sectionId" TEXT,
+    "clauseId" TEXT,
+    "content" TEXT NOT NULL,
+    "priority" "CommentPriority" NOT NULL,
+    "status" "CommentStatus" NOT NULL DEFAULT 'OPEN',
+    "authorId" TEXT NOT NULL,
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolution" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReviewComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReportAuditLog" (
+    "id" TEXT NOT NULL,
+    "reportId" TEXT NOT NULL,
+    "action" "AuditAction" NOT NULL,
+    "fromStatus" "ReportStatus",
+    "toStatus" "ReportStatus",
+    "userId" TEXT NOT NULL,
+    "details" JSONB,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReportAuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportVersion_reportId_versionNumber_key" ON "ReportVersion"("reportId", "versionNumber");
+
+-- CreateIndex
+CREATE INDEX "ReportVersion_reportId_idx" ON "ReportVersion"("reportId");
+
+-- CreateIndex
+CREATE INDEX "ReviewComment_reportId_status_idx" ON "ReviewComment"("reportId", "status");
+
+-- CreateIndex
+CREATE INDEX "ReportAuditLog_reportId_createdAt_idx" ON "ReportAuditLog"("reportId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_preparedById_fkey" FOREIGN KEY ("preparedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportVersion" ADD CONSTRAINT "ReportVersion_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "Report"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportVersion" ADD CONSTRAINT "ReportVersion_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewComment" ADD CONSTRAINT "ReviewComment_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "Report"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewComment" ADD CONSTRAINT "ReviewComment_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewComment" ADD CONSTRAINT "ReviewComment_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportAuditLog" ADD CONSTRAINT "ReportAuditLog_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "Report"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportAuditLog" ADD CONSTRAINT "ReportAuditLog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
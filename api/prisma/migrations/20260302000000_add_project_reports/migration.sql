@@ -0,0 +1,12 @@
+-- Project-level reports (COA generation) — Issue #149
+
+-- AlterTable: reports may belong to a legacy inspection or a project
+ALTER TABLE "Report" ALTER COLUMN "inspectionId" DROP NOT NULL;
+ALTER TABLE "Report" ADD COLUMN "projectId" TEXT;
+ALTER TABLE "Report" ADD COLUMN "type" "ReportType";
+
+-- CreateIndex
+CREATE INDEX "Report_projectId_idx" ON "Report"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
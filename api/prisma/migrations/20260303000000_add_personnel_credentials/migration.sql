@@ -0,0 +1,95 @@
+-- Personnel & Credentials — Issue #155
+
+-- CreateEnum
+CREATE TYPE "PersonnelRole" AS ENUM ('REGISTERED_BUILDING_SURVEYOR', 'BUILDING_SURVEYOR', 'INSPECTOR', 'ADMIN');
+
+-- CreateEnum
+CREATE TYPE "CredentialType" AS ENUM ('NZIBS', 'LBP', 'ENG_NZ', 'ACADEMIC', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "Company" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "logoPath" TEXT,
+    "address" TEXT,
+    "phone" TEXT,
+    "email" TEXT,
+    "website" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Company_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Personnel" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "role" "PersonnelRole" NOT NULL,
+    "email" TEXT NOT NULL,
+    "phone" TEXT,
+    "mobile" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "companyId" TEXT NOT NULL,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Personnel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Credential" (
+    "id" TEXT NOT NULL,
+    "personnelId" TEXT NOT NULL,
+    "type" "CredentialType" NOT NULL,
+    "membershipCode" TEXT,
+    "membershipFull" TEXT,
+    "registration" TEXT,
+    "licenseNumber" TEXT,
+    "qualifications" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "issuedDate" TIMESTAMP(3),
+    "expiryDate" TIMESTAMP(3),
+    "verified" BOOLEAN NOT NULL DEFAULT false,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Credential_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "SiteInspection" ADD COLUMN "inspectorId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Personnel_email_key" ON "Personnel"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Personnel_userId_key" ON "Personnel"("userId");
+
+-- CreateIndex
+CREATE INDEX "Personnel_companyId_idx" ON "Personnel"("companyId");
+
+-- CreateIndex
+CREATE INDEX "Personnel_role_idx" ON "Personnel"("role");
+
+-- CreateIndex
+CREATE INDEX "Credential_personnelId_idx" ON "Credential"("personnelId");
+
+-- CreateIndex
+CREATE INDEX "Credential_expiryDate_idx" ON "Credential"("expiryDate");
+
+-- CreateIndex
+CREATE INDEX "SiteInspection_inspectorId_idx" ON "SiteInspection"("inspectorId");
+
+-- AddForeignKey
+ALTER TABLE "Personnel" ADD CONSTRAINT "Personnel_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Personnel" ADD CONSTRAINT "Personnel_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Credential" ADD CONSTRAINT "Credential_personnelId_fkey" FOREIGN KEY ("personnelId") REFERENCES "Personnel"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SiteInspection" ADD CONSTRAINT "SiteInspection_inspectorId_fkey" FOREIGN KEY ("inspectorId") REFERENCES "Personnel"("id") ON DELETE SET NULL ON UPDATE CASCADE;
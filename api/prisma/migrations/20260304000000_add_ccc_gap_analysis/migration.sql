@@ -0,0 +1,137 @@
+-- CCC Gap Analysis — Issue #153
+
+-- CreateEnum
+CREATE TYPE "BuildingElement" AS ENUM ('ROOF', 'WALL', 'WINDOW', 'DECK', 'SUBFLOOR', 'INTERIOR', 'SERVICES', 'STRUCTURE', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "DefectPriority" AS ENUM ('CRITICAL', 'HIGH', 'MEDIUM', 'LOW');
+
+-- CreateEnum
+CREATE TYPE "CostCategory" AS ENUM ('PRELIMINARIES', 'DEMOLITION', 'STRUCTURE', 'CLADDING', 'ROOFING', 'WINDOWS', 'SERVICES', 'FINISHING', 'PROFESSIONAL', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "Defect" (
+    "id" TEXT NOT NULL,
+    "inspectionId" TEXT NOT NULL,
+    "defectNumber" TEXT NOT NULL,
+    "location" TEXT NOT NULL,
+    "buildingElement" "BuildingElement" NOT NULL,
+    "clauseId" TEXT,
+    "description" TEXT NOT NULL,
+    "cause" TEXT,
+    "remedialAction" TEXT,
+    "priority" "DefectPriority" NOT NULL,
+    "photoIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Defect_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MoistureReading" (
+    "id" TEXT NOT NULL,
+    "inspectionId" TEXT NOT NULL,
+    "defectId" TEXT,
+    "measurementId" TEXT,
+    "location" TEXT NOT NULL,
+    "substrate" TEXT NOT NULL,
+    "reading" DOUBLE PRECISION NOT NULL,
+    "depth" INTEGER,
+    "equipmentUsed" TEXT,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "notes" TEXT,
+    "photoId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MoistureReading_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CostEstimate" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'NZD',
+    "contingencyRate" DOUBLE PRECISION NOT NULL DEFAULT 0.15,
+    "subtotal" DOUBLE PRECISION,
+    "contingency" DOUBLE PRECISION,
+    "totalExGst" DOUBLE PRECISION,
+    "gst" DOUBLE PRECISION,
+    "totalIncGst" DOUBLE PRECISION,
+    "notes" TEXT,
+    "validUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CostEstimate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CostLineItem" (
+    "id" TEXT NOT NULL,
+    "estimateId" TEXT NOT NULL,
+    "defectId" TEXT,
+    "itemNumber" INTEGER NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "unit" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "total" DOUBLE PRECISION NOT NULL,
+    "category" "CostCategory",
+    "notes" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CostLineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Defect_inspectionId_idx" ON "Defect"("inspectionId");
+
+-- CreateIndex
+CREATE INDEX "Defect_clauseId_idx" ON "Defect"("clauseId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MoistureReading_measurementId_key" ON "MoistureReading"("measurementId");
+
+-- CreateIndex
+CREATE INDEX "MoistureReading_inspectionId_idx" ON "MoistureReading"("inspectionId");
+
+-- CreateIndex
+CREATE INDEX "MoistureReading_defectId_idx" ON "MoistureReading"("defectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CostEstimate_projectId_key" ON "CostEstimate"("projectId");
+
+-- CreateIndex
+CREATE INDEX "CostLineItem_estimateId_idx" ON "CostLineItem"("estimateId");
+
+-- CreateIndex
+CREATE INDEX "CostLineItem_defectId_idx" ON "CostLineItem"("defectId");
+
+-- AddForeignKey
+ALTER TABLE "Defect" ADD CONSTRAINT "Defect_inspectionId_fkey" FOREIGN KEY ("inspectionId") REFERENCES "SiteInspection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Defect" ADD CONSTRAINT "Defect_clauseId_fkey" FOREIGN KEY ("clauseId") REFERENCES "BuildingCodeClause"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MoistureReading" ADD CONSTRAINT "MoistureReading_inspectionId_fkey" FOREIGN KEY ("inspectionId") REFERENCES "SiteInspection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MoistureReading" ADD CONSTRAINT "MoistureReading_defectId_fkey" FOREIGN KEY ("defectId") REFERENCES "Defect"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MoistureReading" ADD CONSTRAINT "MoistureReading_measurementId_fkey" FOREIGN KEY ("measurementId") REFERENCES "SiteMeasurement"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CostEstimate" ADD CONSTRAINT "CostEstimate_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CostLineItem" ADD CONSTRAINT "CostLineItem_estimateId_fkey" FOREIGN KEY ("estimateId") REFERENCES "CostEstimate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CostLineItem" ADD CONSTRAINT "CostLineItem_defectId_fkey" FOREIGN KEY ("defectId") REFERENCES "Defect"("id") ON DELETE SET NULL ON UPDATE CASCADE;
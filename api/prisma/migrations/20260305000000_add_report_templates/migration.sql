@@ -0,0 +1,106 @@
+-- Report Templates — Issue #156
+
+-- CreateEnum
+CREATE TYPE "TemplateCategory" AS ENUM ('SECTION', 'CLAUSE', 'NA_REASON', 'BLOCK');
+
+-- CreateTable
+CREATE TABLE "Template" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" "TemplateCategory" NOT NULL,
+    "reportType" "ReportType",
+    "section" TEXT,
+    "content" TEXT NOT NULL,
+    "variables" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "locked" BOOLEAN NOT NULL DEFAULT false,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "createdById" TEXT,
+    "changeNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Template_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TemplateVersion" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "variables" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "changeNotes" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TemplateVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Template_category_reportType_idx" ON "Template"("category", "reportType");
+
+-- CreateIndex
+CREATE INDEX "Template_active_idx" ON "Template"("active");
+
+-- CreateIndex
+CREATE INDEX "TemplateVersion_templateId_idx" ON "TemplateVersion"("templateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TemplateVersion_templateId_version_key" ON "TemplateVersion"("templateId", "version");
+
+-- AddForeignKey
+ALTER TABLE "Template" ADD CONSTRAINT "Template_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TemplateVersion" ADD CONSTRAINT "TemplateVersion_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "Template"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TemplateVersion" ADD CONSTRAINT "TemplateVersion_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed default section templates
+INSERT INTO "Template" ("id", "name", "category", "reportType", "section", "content", "variables", "updatedAt") VALUES
+(
+    gen_random_uuid()::text,
+    'Introduction - COA',
+    'SECTION',
+    'COA',
+    'introduction',
+    E'We have been engaged by {{client.name}} to carry out an independent assessment of the building works at {{project.address}} to meet the performance requirements of the New Zealand Building Code.\n\nThe purpose of this inspection is to independently inspect and report on the performance against relevant clauses of the New Zealand Building Code.',
+    ARRAY['client.name', 'project.address'],
+    CURRENT_TIMESTAMP
+),
+(
+    gen_random_uuid()::text,
+    'Introduction - CCC Gap Analysis',
+    'SECTION',
+    'CCC_GAP',
+    'introduction',
+    E'We have been engaged by {{client.name}} to identify the work required for the building at {{project.address}} to obtain a Code Compliance Certificate under building consent {{property.bcNumber}}.',
+    ARRAY['client.name', 'project.address', 'property.bcNumber'],
+    CURRENT_TIMESTAMP
+),
+(
+    gen_random_uuid()::text,
+    'Methodology - Standard',
+    'SECTION',
+    NULL,
+    'methodology',
+    E'In the process of the assessment, photographs were taken during the site inspection on {{inspection.date}}. Relevant documents provided by the client were used as references to assess the building works. The floor plans retrieved from the {{property.territorialAuthority}} property file are also used as a reference to assess the building works.',
+    ARRAY['inspection.date', 'property.territorialAuthority'],
+    CURRENT_TIMESTAMP
+),
+(
+    gen_random_uuid()::text,
+    'Limitations - Standard',
+    'SECTION',
+    NULL,
+    'limitations',
+    E'This report has been prepared for {{client.name}} under a specific scope and Terms of Engagement. The report is based on our observations from a visual survey of the building visible at the time of inspection.\n\nThe conclusions and recommendations are in general terms only and are intended to provide a guide to achieving a {{project.reportType}}.\n\nAll recommendations within the scope of works identified in this report must be completed strictly in accordance with the New Zealand Building Code and manufacturer''s technical instructions.',
+    ARRAY['client.name', 'project.reportType'],
+    CURRENT_TIMESTAMP
+);
+
+INSERT INTO "TemplateVersion" ("id", "templateId", "version", "content", "variables", "changeNotes")
+SELECT gen_random_uuid()::text, "id", 1, "content", "variables", 'Default template'
+FROM "Template";
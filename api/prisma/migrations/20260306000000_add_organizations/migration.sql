@@ -0,0 +1,77 @@
+-- Organisations and tenant scoping
+
+-- CreateEnum
+CREATE TYPE "OrganizationRole" AS ENUM ('ADMIN', 'MEMBER');
+
+-- CreateTable
+CREATE TABLE "Organization" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Organization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrganizationMembership" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "OrganizationRole" NOT NULL DEFAULT 'MEMBER',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrganizationMembership_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "organizationId" TEXT;
+ALTER TABLE "Property" ADD COLUMN "organizationId" TEXT;
+ALTER TABLE "Client" ADD COLUMN "organizationId" TEXT;
+
+-- Existing data moves into a default organisation with every existing user as an admin
+INSERT INTO "Organization" ("id", "name", "updatedAt")
+VALUES ('00000000-0000-0000-0000-000000000001', 'Default Organisation', CURRENT_TIMESTAMP);
+
+INSERT INTO "OrganizationMembership" ("id", "organizationId", "userId", "role", "updatedAt")
+SELECT gen_random_uuid()::TEXT, '00000000-0000-0000-0000-000000000001', "id", 'ADMIN', CURRENT_TIMESTAMP
+FROM "User";
+
+UPDATE "Project" SET "organizationId" = '00000000-0000-0000-0000-000000000001';
+UPDATE "Property" SET "organizationId" = '00000000-0000-0000-0000-000000000001';
+UPDATE "Client" SET "organizationId" = '00000000-0000-0000-0000-000000000001';
+
+ALTER TABLE "Project" ALTER COLUMN "organizationId" SET NOT NULL;
+ALTER TABLE "Property" ALTER COLUMN "organizationId" SET NOT NULL;
+ALTER TABLE "Client" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "OrganizationMembership_userId_idx" ON "OrganizationMembership"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrganizationMembership_organizationId_userId_key" ON "OrganizationMembership"("organizationId", "userId");
+
+-- CreateIndex
+CREATE INDEX "Project_organizationId_idx" ON "Project"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "Property_organizationId_idx" ON "Property"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "Client_organizationId_idx" ON "Client"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "OrganizationMembership" ADD CONSTRAINT "OrganizationMembership_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizationMembership" ADD CONSTRAINT "OrganizationMembership_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Project" ADD CONSTRAINT "Project_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Property" ADD CONSTRAINT "Property_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Client" ADD CONSTRAINT "Client_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
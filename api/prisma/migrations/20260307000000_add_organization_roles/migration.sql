@@ -0,0 +1,11 @@
+-- Organisation roles: ADMIN becomes ORG_ADMIN, MEMBER becomes INSPECTOR
+
+-- AlterEnum
+CREATE TYPE "OrganizationRole_new" AS ENUM ('INSPECTOR', 'REVIEWER', 'OFFICE_ADMIN', 'ORG_ADMIN');
+ALTER TABLE "OrganizationMembership" ALTER COLUMN "role" DROP DEFAULT;
+ALTER TABLE "OrganizationMembership" ALTER COLUMN "role" TYPE "OrganizationRole_new"
+    USING (CASE "role"::text WHEN 'ADMIN' THEN 'ORG_ADMIN' ELSE 'INSPECTOR' END)::"OrganizationRole_new";
+ALTER TYPE "OrganizationRole" RENAME TO "OrganizationRole_old";
+ALTER TYPE "OrganizationRole_new" RENAME TO "OrganizationRole";
+DROP TYPE "OrganizationRole_old";
+ALTER TABLE "OrganizationMembership" ALTER COLUMN "role" SET DEFAULT 'INSPECTOR';
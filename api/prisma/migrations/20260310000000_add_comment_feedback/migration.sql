@@ -0,0 +1,28 @@
+-- Inspector feedback on comment-library suggestions, per organisation
+
+-- CreateEnum
+CREATE TYPE "CommentFeedbackOutcome" AS ENUM ('ACCEPTED', 'EDITED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "CommentFeedback" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "userId" TEXT,
+    "findingId" TEXT,
+    "section" TEXT,
+    "findingText" TEXT NOT NULL,
+    "commentKey" TEXT,
+    "suggestedComment" TEXT,
+    "finalComment" TEXT,
+    "outcome" "CommentFeedbackOutcome" NOT NULL,
+    "rank" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CommentFeedback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CommentFeedback_organizationId_commentKey_idx" ON "CommentFeedback"("organizationId", "commentKey");
+
+-- AddForeignKey
+ALTER TABLE "CommentFeedback" ADD CONSTRAINT "CommentFeedback_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- Findings can name the checklist item they cover, so required items can be checked
+
+-- AlterTable
+ALTER TABLE "Finding" ADD COLUMN "item" TEXT;
@@ -0,0 +1,45 @@
+-- Database-backed checklists with immutable published versions.
+-- The API seeds version 1 of each checklist from config/checklists/*.yaml on startup.
+
+-- CreateTable
+CREATE TABLE "ChecklistDefinition" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "draft" JSONB,
+    "latestVersion" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChecklistDefinition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ChecklistVersion" (
+    "id" TEXT NOT NULL,
+    "definitionId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "content" JSONB NOT NULL,
+    "changeNotes" TEXT,
+    "publishedById" TEXT,
+    "publishedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChecklistVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Inspection" ADD COLUMN "checklistVersionId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChecklistDefinition_key_key" ON "ChecklistDefinition"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChecklistVersion_definitionId_version_key" ON "ChecklistVersion"("definitionId", "version");
+
+-- AddForeignKey
+ALTER TABLE "ChecklistVersion" ADD CONSTRAINT "ChecklistVersion_definitionId_fkey" FOREIGN KEY ("definitionId") REFERENCES "ChecklistDefinition"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Inspection" ADD CONSTRAINT "Inspection_checklistVersionId_fkey" FOREIGN KEY ("checklistVersionId") REFERENCES "ChecklistVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Inspection" ADD COLUMN "projectId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Inspection" ADD CONSTRAINT "Inspection_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
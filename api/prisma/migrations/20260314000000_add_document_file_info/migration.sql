@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "mimeType" TEXT,
+ADD COLUMN "fileSize" INTEGER;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "classification" JSONB,
+ADD COLUMN "needsConfirmation" BOOLEAN NOT NULL DEFAULT false;
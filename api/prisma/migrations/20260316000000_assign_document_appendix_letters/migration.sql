@@ -0,0 +1,32 @@
+-- Appendix letters are now assigned automatically: received documents are
+-- lettered from B (A is the photographs) by type group, then sort order.
+-- Reassign existing letters the same way.
+WITH ordered AS (
+  SELECT
+    "id",
+    ROW_NUMBER() OVER (
+      PARTITION BY "projectId"
+      ORDER BY
+        CASE
+          WHEN "documentType" = 'DRAWING' THEN 0
+          WHEN "documentType" IN ('REPORT', 'FLOOD_TEST') THEN 1
+          WHEN "documentType" IN ('COC', 'ESC') THEN 2
+          WHEN "documentType" IN ('PS1', 'PS2', 'PS3', 'PS4') THEN 3
+          WHEN "documentType" = 'WARRANTY' THEN 4
+          ELSE 5
+        END,
+        "sortOrder",
+        "createdAt"
+    ) - 1 AS "index"
+  FROM "Document"
+  WHERE "status" = 'RECEIVED'
+)
+UPDATE "Document" d
+SET "appendixLetter" = CASE
+  WHEN o."index" < 25 THEN CHR(66 + o."index"::int)
+  ELSE CHR(65 + ((o."index" - 25) / 26)::int) || CHR(65 + ((o."index" - 25) % 26)::int)
+END
+FROM ordered o
+WHERE d."id" = o."id";
+
+UPDATE "Document" SET "appendixLetter" = NULL WHERE "status" <> 'RECEIVED';
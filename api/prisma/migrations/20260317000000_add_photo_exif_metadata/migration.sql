@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN "latitude" DOUBLE PRECISION,
+ADD COLUMN "longitude" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "ProjectPhoto" ADD COLUMN "camera" TEXT,
+ADD COLUMN "warnings" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "ProjectPhoto_projectId_takenAt_idx" ON "ProjectPhoto"("projectId", "takenAt");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ProjectPhoto" ADD COLUMN "annotatedPath" TEXT,
+ADD COLUMN "annotations" JSONB;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "ProjectPhoto" ADD COLUMN "contentHash" TEXT,
+ADD COLUMN "perceptualHash" TEXT,
+ADD COLUMN "possibleDuplicateOfId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectPhoto_projectId_contentHash_key" ON "ProjectPhoto"("projectId", "contentHash");
+
+-- AddForeignKey
+ALTER TABLE "ProjectPhoto" ADD CONSTRAINT "ProjectPhoto_possibleDuplicateOfId_fkey" FOREIGN KEY ("possibleDuplicateOfId") REFERENCES "ProjectPhoto"("id") ON DELETE SET NULL ON UPDATE CASCADE;
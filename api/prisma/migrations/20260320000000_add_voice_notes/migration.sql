@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "VoiceNote" (
+    "id" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "transcript" TEXT,
+    "transcriber" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VoiceNote_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Finding" ADD COLUMN "voiceNoteId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ChecklistItem" ADD COLUMN "voiceNoteId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ClauseReview" ADD COLUMN "voiceNoteId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Finding" ADD CONSTRAINT "Finding_voiceNoteId_fkey" FOREIGN KEY ("voiceNoteId") REFERENCES "VoiceNote"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChecklistItem" ADD CONSTRAINT "ChecklistItem_voiceNoteId_fkey" FOREIGN KEY ("voiceNoteId") REFERENCES "VoiceNote"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClauseReview" ADD CONSTRAINT "ClauseReview_voiceNoteId_fkey" FOREIGN KEY ("voiceNoteId") REFERENCES "VoiceNote"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- Companies belong to an organisation; personnel and credentials are scoped through their company
+
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN "organizationId" TEXT;
+
+-- Existing companies move into the default organisation
+UPDATE "Company" SET "organizationId" = '00000000-0000-0000-0000-000000000001';
+
+ALTER TABLE "Company" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Company_organizationId_idx" ON "Company"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "Company" ADD CONSTRAINT "Company_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- Report templates belong to an organisation
+
+-- AlterTable
+ALTER TABLE "Template" ADD COLUMN "organizationId" TEXT;
+
+-- Existing templates move into the default organisation
+UPDATE "Template" SET "organizationId" = '00000000-0000-0000-0000-000000000001';
+
+ALTER TABLE "Template" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "Template_category_reportType_idx";
+
+-- CreateIndex
+CREATE INDEX "Template_organizationId_category_reportType_idx" ON "Template"("organizationId", "category", "reportType");
+
+-- AddForeignKey
+ALTER TABLE "Template" ADD CONSTRAINT "Template_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
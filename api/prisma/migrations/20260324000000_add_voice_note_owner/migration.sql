@@ -0,0 +1,32 @@
+-- Voice notes belong to an organisation and record who uploaded them
+
+-- AlterTable
+ALTER TABLE "VoiceNote" ADD COLUMN "organizationId" TEXT,
+ADD COLUMN "uploadedById" TEXT;
+
+-- Existing recordings take the organisation of the site inspection they are linked to
+UPDATE "VoiceNote" v SET "organizationId" = p."organizationId"
+FROM "ClauseReview" r
+JOIN "SiteInspection" i ON i."id" = r."inspectionId"
+JOIN "Project" p ON p."id" = i."projectId"
+WHERE r."voiceNoteId" = v."id" AND v."organizationId" IS NULL;
+
+UPDATE "VoiceNote" v SET "organizationId" = p."organizationId"
+FROM "ChecklistItem" c
+JOIN "SiteInspection" i ON i."id" = c."inspectionId"
+JOIN "Project" p ON p."id" = i."projectId"
+WHERE c."voiceNoteId" = v."id" AND v."organizationId" IS NULL;
+
+-- The rest move into the default organisation
+UPDATE "VoiceNote" SET "organizationId" = '00000000-0000-0000-0000-000000000001' WHERE "organizationId" IS NULL;
+
+ALTER TABLE "VoiceNote" ALTER COLUMN "organizationId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "VoiceNote_organizationId_idx" ON "VoiceNote"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "VoiceNote" ADD CONSTRAINT "VoiceNote_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VoiceNote" ADD CONSTRAINT "VoiceNote_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
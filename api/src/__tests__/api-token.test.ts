@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ApiTokenService,
+  ApiTokenAuthError,
+  ApiTokenScopeError,
+  ApiTokenNotFoundError,
+  ApiTokenValidationError,
+  ApiTokenPermissionError,
+  hashApiToken,
+  resourceScope,
+  scopesAllow,
+} from '../services/api-token.js';
+import type { IApiTokenRepository, ApiTokenSummary } from '../repositories/interfaces/api-token.js';
+import type { IOrganizationRepository, MembershipWithOrganization } from '../repositories/interfaces/organization.js';
+import type { ApiToken, OrganizationRole } from '@prisma/client';
+
+const createMockRepository = (): IApiTokenRepository => ({
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByHash: vi.fn(),
+  findByUserId: vi.fn(),
+  revoke: vi.fn(),
+  touch: vi.fn(),
+  findUserIdByVerifiedPhone: vi.fn(),
+});
+
+const createMockOrganizationRepository = (): IOrganizationRepository => ({
+  create: vi.fn(),
+  findById: vi.fn(),
+  update: vi.fn(),
+  findMembershipsForUser: vi.fn(),
+  findMembership: vi.fn(),
+  findMembers: vi.fn(),
+  addMember: vi.fn(),
+  updateMemberRole: vi.fn(),
+  removeMember: vi.fn(),
+  countAdmins: vi.fn(),
+  findUserIdByEmail: vi.fn(),
+});
+
+const now = new Date('2026-03-08T12:00:00Z');
+
+const apiToken = (overrides: Partial<ApiToken> = {}): ApiToken => ({
+  id: 'token-1',
+  userId: 'owner-1',
+  name: 'WhatsApp agent',
+  prefix: 'aik_abc123',
+  tokenHash: hashApiToken('aik_secret'),
+  scopes: ['READ', 'INSPECTIONS'],
+  expiresAt: null,
+  revokedAt: null,
+  lastUsedAt: null,
+  createdAt: now,
+  ...overrides,
+});
+
+const membershipIn = (organizationId: string, role: OrganizationRole = 'INSPECTOR') =>
+  ({ organizationId, role }) as MembershipWithOrganization;
+
+describe('scopes', () => {
+  it('maps request paths to resource scopes', () => {
+    expect(resourceScope('/api/site-inspections/insp-1/defects')).toBe('INSPECTIONS');
+    expect(resourceScope('/api/projects/proj-1/inspections')).toBe('INSPECTIONS');
+    expect(resourceScope('/api/projects/proj-1/reports/coa')).toBe('REPORTS');
+    expect(resourceScope('/api/projects/proj-1')).toBe('PROJECTS');
+    expect(resourceScope('/api/reports/rep-1/approve')).toBe('REPORTS');
+    expect(resourceScope('/api/comment-feedback')).toBe('INSPECTIONS');
+    expect(resourceScope('/api/voice-notes')).toBe('INSPECTIONS');
+    expect(resourceScope('/api/documents/doc-1/verify')).toBe('PROJECTS');
+    expect(resourceScope('/api/personnel')).toBe('FULL');
+  });
+
+  it('lets READ tokens read anything but write nothing', () => {
+    expect(scopesAllow(['READ'], 'GET', '/api/personnel')).toBe(true);
+    expect(scopesAllow(['READ'], 'POST', '/api/projects')).toBe(false);
+  });
+
+  it('limits resource scopes to their resource', () => {
+    expect(scopesAllow(['INSPECTIONS'], 'PUT', '/api/site-inspections/insp-1')).toBe(true);
+    expect(scopesAllow(['INSPECTIONS'], 'GET', '/api/site-inspections/insp-1')).toBe(true);
+    expect(scopesAllow(['INSPECTIONS'], 'POST', '/api/reports/rep-1/approve')).toBe(false);
+    expect(scopesAllow(['INSPECTIONS'], 'GET', '/api/clients')).toBe(false);
+  });
+
+  it('only lets FULL tokens write unlisted resources', () => {
+    expect(scopesAllow(['INSPECTIONS', 'PROJECTS', 'REPORTS'], 'POST', '/api/personnel')).toBe(false);
+    expect(scopesAllow(['FULL'], 'POST', '/api/personnel')).toBe(true);
+  });
+});
+
+describe('ApiTokenService', () => {
+  let repository: IApiTokenRepository;
+  let organizationRepository: IOrganizationRepository;
+  let service: ApiTokenService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    organizationRepository = createMockOrganizationRepository();
+    service = new ApiTokenService(repository, organizationRepository);
+  });
+
+  describe('create', () => {
+    it('stores only a hash and returns the token once', async () => {
+      vi.mocked(repository.create).mockImplementation(async (input) => ({ id: 'token-1', ...input }) as unknown as ApiTokenSummary);
+
+      const { token } = await service.create('owner-1', { name: 'Agent', scopes: ['READ', 'READ'] }, now);
+
+      expect(token).toMatch(/^aik_/);
+      expect(repository.create).toHaveBeenCalledWith({
+        userId: 'owner-1',
+        name: 'Agent',
+        prefix: token.slice(0, 10),
+        tokenHash: hashApiToken(token),
+        scopes: ['READ'],
+        expiresAt: undefined,
+      });
+    });
+
+    it('only lets organisation admins create AGENT tokens', async () => {
+      vi.mocked(repository.create).mockImplementation(async (input) => ({ id: 'token-1', ...input }) as unknown as ApiTokenSummary);
+      vi.mocked(organizationRepository.findMembershipsForUser).mockResolvedValue([membershipIn('org-1', 'INSPECTOR')]);
+
+      await expect(
+        service.create('owner-1', { name: 'Agent', scopes: ['FULL', 'AGENT'] }, now)
+      ).rejects.toThrow(ApiTokenPermissionError);
+      expect(repository.create).not.toHaveBeenCalled();
+
+      vi.mocked(organizationRepository.findMembershipsForUser).mockResolvedValue([membershipIn('org-1', 'ORG_ADMIN')]);
+      await expect(service.create('owner-1', { name: 'Agent', scopes: ['INSPECTIONS', 'AGENT'] }, now)).resolves.toBeDefined();
+    });
+
+    it('rejects an expiry in the past', async () => {
+      await expect(
+        service.create('owner-1', { name: 'Agent', scopes: ['READ'], expiresAt: new Date('2026-01-01') }, now)
+      ).rejects.toThrow(ApiTokenValidationError);
+    });
+  });
+
+  describe('revoke', () => {
+    it('does not reveal other users\' tokens', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(apiToken({ userId: 'someone-else' }));
+
+      await expect(service.revoke('owner-1', 'token-1')).rejects.toThrow(ApiTokenNotFoundError);
+      expect(repository.revoke).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    const context = { method: 'PUT', path: '/api/site-inspections/insp-1' };
+
+    it('acts as the token owner and records use', async () => {
+      vi.mocked(repository.findByHash).mockResolvedValue(apiToken());
+
+      const result = await service.authenticate('aik_secret', context, now);
+
+      expect(repository.findByHash).toHaveBeenCalledWith(hashApiToken('aik_secret'));
+      expect(result).toEqual({ userId: 'owner-1', tokenId: 'token-1', ownerId: 'owner-1' });
+      expect(repository.touch).toHaveBeenCalledWith('token-1', now);
+    });
+
+    it('does not record use again within a minute', async () => {
+      vi.mocked(repository.findByHash).mockResolvedValue(apiToken({ lastUsedAt: new Date(now.getTime() - 30_000) }));
+
+      await service.authenticate('aik_secret', context, now);
+
+      expect(repository.touch).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown, revoked and expired tokens', async () => {
+      vi.mocked(repository.findByHash).mockResolvedValueOnce(null);
+      await expect(service.authenticate('aik_secret', context, now)).rejects.toThrow(ApiTokenAuthError);
+
+      vi.mocked(repository.findByHash).mockResolvedValueOnce(apiToken({ revokedAt: now }));
+      await expect(service.authenticate('aik_secret', context, now)).rejects.toThrow(ApiTokenAuthError);
+
+      vi.mocked(repository.findByHash).mockResolvedValueOnce(apiToken({ expiresAt: now }));
+      await expect(service.authenticate('aik_secret', context, now)).rejects.toThrow('API token has expired');
+    });
+
+    it('rejects requests outside the token\'s scopes', async () => {
+      vi.mocked(repository.findByHash).mockResolvedValue(apiToken({ scopes: ['READ'] }));
+
+      await expect(service.authenticate('aik_secret', context, now)).rejects.toThrow(ApiTokenScopeError);
+      expect(repository.touch).not.toHaveBeenCalled();
+    });
+
+    describe('acting for an inspector', () => {
+      const agentContext = { ...context, inspectorPhone: '+64 21 123 4567' };
+
+      it('acts as a phone-verified inspector in the owner\'s organisation', async () => {
+        vi.mocked(repository.findByHash).mockResolvedValue(apiToken({ scopes: ['INSPECTIONS', 'AGENT'] }));
+        vi.mocked(repository.findUserIdByVerifiedPhone).mockResolvedValue('inspector-1');
+        vi.mocked(organizationRepository.findMembershipsForUser).mockImplementation(async (userId) =>
+          userId === 'owner-1' ? [membershipIn('org-1')] : [membershipIn('org-2'), membershipIn('org-1')]
+        );
+
+        const result = await service.authenticate('aik_secret', agentContext, now);
+
+        expect(repository.findUserIdByVerifiedPhone).toHaveBeenCalledWith('+64211234567');
+        expect(result).toEqual({ userId: 'inspector-1', tokenId: 'token-1', ownerId: 'owner-1' });
+      });
+
+      it('requires the AGENT scope', async () => {
+        vi.mocked(repository.findByHash).mockResolvedValue(apiToken());
+
+        await expect(service.authenticate('aik_secret', agentContext, now)).rejects.toThrow(
+          'Only AGENT tokens may act for an inspector'
+        );
+      });
+
+      it('refuses inspectors from other organisations', async () => {
+        vi.mocked(repository.findByHash).mockResolvedValue(apiToken({ scopes: ['INSPECTIONS', 'AGENT'] }));
+        vi.mocked(repository.findUserIdByVerifiedPhone).mockResolvedValue('inspector-1');
+        vi.mocked(organizationRepository.findMembershipsForUser).mockImplementation(async (userId) =>
+          userId === 'owner-1' ? [membershipIn('org-1')] : [membershipIn('org-2')]
+        );
+
+        await expect(service.authenticate('aik_secret', agentContext, now)).rejects.toThrow(ApiTokenScopeError);
+      });
+    });
+  });
+});
@@ -8,13 +8,14 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import crypto from 'crypto';
 
 // Use vi.hoisted to properly hoist mock variables
-const { mockUserFindUnique, mockUserUpdate, mockTokenCreate, mockTokenFindUnique, mockTokenUpdate, mockTokenUpdateMany, mockTransaction } = vi.hoisted(() => ({
+const { mockUserFindUnique, mockUserUpdate, mockTokenCreate, mockTokenFindUnique, mockTokenUpdate, mockTokenUpdateMany, mockSessionUpdateMany, mockTransaction } = vi.hoisted(() => ({
   mockUserFindUnique: vi.fn(),
   mockUserUpdate: vi.fn(),
   mockTokenCreate: vi.fn(),
   mockTokenFindUnique: vi.fn(),
   mockTokenUpdate: vi.fn(),
   mockTokenUpdateMany: vi.fn(),
+  mockSessionUpdateMany: vi.fn(),
   mockTransaction: vi.fn(),
 }));
 
@@ -32,6 +33,9 @@ vi.mock('@prisma/client', () => {
         update: mockTokenUpdate,
         updateMany: mockTokenUpdateMany,
       };
+      session = {
+        updateMany: mockSessionUpdateMany,
+      };
       $transaction = mockTransaction;
       $connect = vi.fn();
       $disconnect = vi.fn();
@@ -50,6 +54,8 @@ vi.mock('bcrypt', () => ({
 // Mock auth middleware
 vi.mock('../middleware/auth.js', () => ({
   generateToken: vi.fn().mockReturnValue('mock_jwt_token'),
+  authMiddleware: vi.fn(),
+  verifyAccessToken: vi.fn(),
 }));
 
 // Mock domain config
@@ -177,6 +183,28 @@ describe('Password Reset Endpoints', () => {
       expect(response.body.message).toBe('Password has been reset successfully');
     });
 
+    it('should revoke every session for the user', async () => {
+      mockTokenFindUnique.mockResolvedValue({
+        id: 'reset-123',
+        userId: 'user-123',
+        token: hashedToken,
+        expiresAt: new Date(Date.now() + 3600000),
+        usedAt: null,
+        user: { id: 'user-123', email: 'test@example.com' },
+      });
+      mockTransaction.mockResolvedValue([{}, {}, { count: 2 }]);
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: validToken, password: 'newpassword123' });
+
+      expect(mockSessionUpdateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-123', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(mockTransaction.mock.calls[0]?.[0]).toHaveLength(3);
+    });
+
     it('should reject invalid token', async () => {
       mockTokenFindUnique.mockResolvedValue(null);
 
@@ -8,6 +8,7 @@ function createMockRepository(): IBuildingHistoryRepository {
   return {
     create: vi.fn(),
     findById: vi.fn(),
+    findByIdInOrganization: vi.fn(),
     findByPropertyId: vi.fn(),
     update: vi.fn(),
     delete: vi.fn(),
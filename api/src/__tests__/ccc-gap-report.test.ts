@@ -0,0 +1,341 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CccGapReportService, generateExecutiveSummary } from '../services/ccc-gap-report.js';
+import { ProjectNotFoundError } from '../services/project.js';
+import { renderDocx } from '../services/docx-renderer.js';
+import type { DocumentService } from '../services/document.js';
+import type {
+  IProjectReportRepository,
+  CccGapReportData,
+} from '../repositories/interfaces/project-report.js';
+import type { Report } from '@prisma/client';
+
+// Mock puppeteer
+vi.mock('puppeteer', () => ({
+  default: {
+    launch: vi.fn().mockResolvedValue({
+      newPage: vi.fn().mockResolvedValue({
+        setContent: vi.fn().mockResolvedValue(undefined),
+        pdf: vi.fn().mockResolvedValue(Buffer.from('mock pdf')),
+      }),
+      close: vi.fn().mockResolvedValue(undefined),
+    }),
+  },
+}));
+
+// Mock fs
+vi.mock('node:fs', () => ({
+  existsSync: vi.fn().mockReturnValue(true),
+  mkdirSync: vi.fn(),
+  readFileSync: vi.fn().mockReturnValue('<html>{{project.address}}</html>'),
+  writeFileSync: vi.fn(),
+}));
+
+vi.mock('../services/docx-renderer.js', () => ({
+  renderDocx: vi.fn().mockResolvedValue(undefined),
+}));
+
+const createMockRepository = (): IProjectReportRepository => ({
+  loadProjectData: vi.fn(),
+  loadCccGapData: vi.fn(),
+  createReport: vi.fn(),
+  findReportById: vi.fn(),
+  findReportsByProject: vi.fn(),
+});
+
+const createMockDocumentService = () => ({
+  canFinalize: vi.fn().mockResolvedValue({ canFinalize: true, blockers: [] }),
+}) as unknown as DocumentService;
+
+type DefectData = CccGapReportData['siteInspections'][number]['defects'][number];
+
+const e2 = { id: 'clause-e2', code: 'E2', title: 'External Moisture' };
+const b2 = { id: 'clause-b2', code: 'B2', title: 'Durability' };
+
+const defect = (id: string, defectNumber: string, overrides: Partial<DefectData> = {}): DefectData => ({
+  id,
+  inspectionId: 'si-1',
+  defectNumber,
+  location: 'North elevation',
+  buildingElement: 'WALL',
+  clauseId: e2.id,
+  clause: e2,
+  description: 'Cladding cracked at window sill',
+  cause: 'No sill flashing',
+  remedialAction: 'Install sill flashing and replace cladding',
+  priority: 'HIGH',
+  photoIds: ['photo-1'],
+  sortOrder: 0,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  costLineItems: [{ id: 'item-1' }],
+  ...overrides,
+});
+
+const mockData = (overrides: Partial<CccGapReportData> = {}) => ({
+  id: 'proj-1',
+  jobNumber: 'J-2026-002',
+  activity: 'Leaky building assessment',
+  reportType: 'CCC_GAP',
+  status: 'IN_PROGRESS',
+  property: {
+    streetAddress: '8 Rimu Street',
+    suburb: 'Grey Lynn',
+    city: 'Auckland',
+    lotDp: null,
+    councilPropertyId: null,
+    territorialAuthority: 'AKL',
+    bcNumber: 'BC/2004/1234',
+    yearBuilt: 2004,
+    siteData: null,
+    buildingHistory: [],
+  },
+  client: { id: 'client-1', name: 'Body Corporate 1234' },
+  siteInspections: [
+    {
+      id: 'si-1',
+      date: new Date('2026-03-01'),
+      inspectorName: 'Alex Surveyor',
+      weather: 'Overcast',
+      methodology: null,
+      equipment: ['Trotec T660'],
+      areasNotAccessed: null,
+      defects: [
+        defect('defect-1', 'D-001'),
+        defect('defect-2', 'D-002', {
+          clauseId: b2.id,
+          clause: b2,
+          priority: 'CRITICAL',
+          buildingElement: 'DECK',
+          location: 'Deck',
+          photoIds: [],
+          costLineItems: [],
+        }),
+      ],
+      moistureReadings: [
+        {
+          id: 'reading-1',
+          inspectionId: 'si-1',
+          defectId: 'defect-1',
+          measurementId: 'measurement-1',
+          location: 'Below sill',
+          substrate: 'Timber framing',
+          reading: 28,
+          depth: 10,
+          equipmentUsed: 'Trotec T660',
+          timestamp: new Date('2026-03-01'),
+          notes: null,
+          photoId: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          defect: { defectNumber: 'D-001' },
+          measurement: { result: 'FAIL' },
+        },
+      ],
+    },
+  ],
+  documents: [],
+  photos: [
+    { id: 'photo-1', reportNumber: 1, filePath: 'photos/proj-1/a.jpg', caption: 'Sill junction', source: 'SITE', linkedClauses: ['E2'] },
+  ],
+  costEstimate: {
+    id: 'estimate-1',
+    projectId: 'proj-1',
+    currency: 'NZD',
+    contingencyRate: 0.15,
+    subtotal: 10000,
+    contingency: 1500,
+    totalExGst: 11500,
+    gst: 1725,
+    totalIncGst: 13225,
+    notes: null,
+    validUntil: null,
+    lineItems: [
+      {
+        id: 'item-1',
+        itemNumber: 1,
+        description: 'Replace cladding',
+        quantity: 20,
+        unit: 'm2',
+        rate: 500,
+        total: 10000,
+        defect: { id: 'defect-1', defectNumber: 'D-001' },
+      },
+    ],
+  },
+  ...overrides,
+}) as unknown as CccGapReportData;
+
+describe('generateExecutiveSummary', () => {
+  it('lists clause breaches, priority counts and estimated cost', () => {
+    const summary = generateExecutiveSummary(
+      [
+        { priority: 'HIGH', clause: e2 },
+        { priority: 'CRITICAL', clause: b2 },
+        { priority: 'LOW', clause: e2 },
+      ],
+      11500
+    );
+
+    expect(summary.breaches).toEqual([
+      { ...b2, defectCount: 1 },
+      { ...e2, defectCount: 2 },
+    ]);
+    expect(summary.priorityCounts).toEqual([
+      { priority: 'Critical', count: 1 },
+      { priority: 'High', count: 1 },
+      { priority: 'Medium', count: 0 },
+      { priority: 'Low', count: 1 },
+    ]);
+    expect(summary.paragraphs).toEqual([
+      'This assessment identified 3 defects affecting compliance with the New Zealand Building Code.',
+      'The defects represent breaches of Building Code clauses B2, E2.',
+      '1 defect is critical and requires immediate action.',
+      'The estimated remediation cost is $11,500.00 + GST (see Appendix A).',
+    ]);
+  });
+
+  it('reports when no defects were found', () => {
+    const summary = generateExecutiveSummary([], null);
+
+    expect(summary.estimatedCost).toBeNull();
+    expect(summary.paragraphs).toEqual([
+      'This assessment identified no defects affecting compliance with the New Zealand Building Code.',
+    ]);
+  });
+});
+
+describe('CccGapReportService', () => {
+  let repository: IProjectReportRepository;
+  let documentService: DocumentService;
+  let service: CccGapReportService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    documentService = createMockDocumentService();
+    service = new CccGapReportService(repository, documentService, {
+      templatePath: '/tmp/ccc-gap-report.html',
+      outputDir: '/tmp/reports',
+      resolvePhotoSrc: async (photo) => `https://cdn.test/${photo.filePath}`,
+    });
+  });
+
+  describe('buildContext', () => {
+    it('should throw ProjectNotFoundError for non-existent project', async () => {
+      vi.mocked(repository.loadCccGapData).mockResolvedValue(null);
+
+      await expect(service.buildContext('non-existent')).rejects.toThrow(ProjectNotFoundError);
+    });
+
+    it('should build defect rows, remedial scope and appendices', async () => {
+      vi.mocked(repository.loadCccGapData).mockResolvedValue(mockData());
+
+      const context = await service.buildContext('proj-1');
+
+      expect(context.defects.map((d) => [d.number, d.clauseCode, d.priority, d.photoRefs])).toEqual([
+        ['D-001', 'E2', 'High', 'Photograph 1'],
+        ['D-002', 'B2', 'Critical', ''],
+      ]);
+      expect(context.remedialScope.map((group) => group.priority)).toEqual(['Critical', 'High']);
+      expect(context.appendices.costEstimate?.totalIncGst).toBe('13,225.00');
+      expect(context.appendices.costEstimate?.lineItems[0]?.defectNumber).toBe('D-001');
+      expect(context.appendices.moistureReadings[0]).toMatchObject({
+        reading: '28%',
+        depth: '10 mm',
+        defectNumber: 'D-001',
+        result: 'FAIL',
+      });
+    });
+  });
+
+  describe('validate', () => {
+    it('should report unlinked and unremediated defects as errors', () => {
+      const data = mockData();
+      data.siteInspections[0]!.defects = [
+        defect('defect-1', 'D-001', { clauseId: null, clause: null }),
+        defect('defect-2', 'D-002', { priority: 'CRITICAL', remedialAction: ' ' }),
+        defect('defect-3', 'D-003', { priority: 'LOW', remedialAction: null }),
+      ];
+
+      const { errors } = service.validate(data);
+
+      expect(errors).toEqual([
+        'Defect D-001 is not linked to a Building Code clause',
+        'Defect D-002 (Critical) has no remedial action',
+      ]);
+    });
+
+    it('should warn about missing photos and cost line items', () => {
+      const { errors, warnings } = service.validate(mockData());
+
+      expect(errors).toEqual([]);
+      expect(warnings).toEqual([
+        'Defect D-002 has no photos',
+        'Critical defect D-002 has no cost estimate',
+        'Moisture reading at Below sill has no photo',
+      ]);
+    });
+
+    it('should warn when the project has no cost estimate', () => {
+      const { warnings } = service.validate(mockData({ costEstimate: null }));
+
+      expect(warnings).toContain('Project has no cost estimate');
+    });
+  });
+
+  describe('checkReadiness', () => {
+    it('should combine document blockers with defect errors', async () => {
+      const data = mockData();
+      data.siteInspections[0]!.defects[0]!.clauseId = null;
+      vi.mocked(repository.loadCccGapData).mockResolvedValue(data);
+      vi.mocked(documentService.canFinalize).mockResolvedValue({
+        canFinalize: false,
+        blockers: ['PS3: Cladding (OUTSTANDING)'],
+      });
+
+      const readiness = await service.checkReadiness('proj-1');
+
+      expect(readiness.canFinalize).toBe(false);
+      expect(readiness.blockers).toEqual([
+        'PS3: Cladding (OUTSTANDING)',
+        'Defect D-001 is not linked to a Building Code clause',
+      ]);
+    });
+  });
+
+  describe('generate', () => {
+    it('should render a PDF and create a CCC_GAP report record', async () => {
+      const report = { id: 'report-1', projectId: 'proj-1', type: 'CCC_GAP' } as Report;
+      vi.mocked(repository.loadCccGapData).mockResolvedValue(mockData());
+      vi.mocked(repository.createReport).mockResolvedValue(report);
+
+      const result = await service.generate('proj-1', 'user-1');
+
+      expect(result).toEqual(report);
+      expect(repository.createReport).toHaveBeenCalledWith(expect.objectContaining({
+        projectId: 'proj-1',
+        type: 'CCC_GAP',
+        format: 'pdf',
+        preparedById: 'user-1',
+        path: expect.stringMatching(/^\/tmp\/reports\/ccc-gap-proj-1-\d+\.pdf$/),
+      }));
+    });
+
+    it('should render the same sections to DOCX when requested', async () => {
+      vi.mocked(repository.loadCccGapData).mockResolvedValue(mockData());
+      vi.mocked(repository.createReport).mockResolvedValue({ id: 'report-2' } as Report);
+
+      await service.generate('proj-1', 'user-1', 'docx');
+
+      expect(renderDocx).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          expect.objectContaining({ type: 'heading', text: 'Executive Summary' }),
+          expect.objectContaining({ type: 'heading', text: '4. Defect Schedule' }),
+          expect.objectContaining({ type: 'heading', text: 'Appendix A — Cost Estimate' }),
+          expect.objectContaining({ type: 'heading', text: 'Appendix C — Moisture Readings' }),
+        ]),
+        expect.stringMatching(/\.docx$/),
+        { headerTitle: 'CCC Gap Analysis Report' }
+      );
+    });
+  });
+});
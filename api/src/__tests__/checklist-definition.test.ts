@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ChecklistDefinitionService,
+  ChecklistNotFoundError,
+  ChecklistValidationError,
+  ChecklistConflictError,
+} from '../services/checklist-definition.js';
+import type { IChecklistDefinitionRepository } from '../repositories/interfaces/checklist-definition.js';
+import type { Checklist, RawChecklist } from '../services/checklist.js';
+import type { ChecklistDefinition, ChecklistVersion } from '@prisma/client';
+
+const createMockRepository = (): IChecklistDefinitionRepository => ({
+  create: vi.fn(),
+  findByKey: vi.fn(),
+  findAll: vi.fn(),
+  update: vi.fn(),
+  publish: vi.fn(),
+  findVersions: vi.fn(),
+  findVersion: vi.fn(),
+  findVersionById: vi.fn(),
+});
+
+const content: RawChecklist = {
+  name: 'NZ Pre-Purchase Inspection',
+  sections: [
+    { id: 'exterior', name: 'Exterior', items: ['Roof', 'Cladding'], required_items: ['Roof'] },
+    { id: 'interior', name: 'Interior', subareas: [{ id: 'kitchen', name: 'Kitchen' }] },
+  ],
+};
+
+const definition = (overrides: Partial<ChecklistDefinition> = {}): ChecklistDefinition => ({
+  id: 'def-1',
+  key: 'nz-ppi',
+  name: 'NZ Pre-Purchase Inspection',
+  draft: null,
+  latestVersion: 0,
+  active: true,
+  createdById: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const published: Checklist = {
+  id: 'nz-ppi',
+  name: 'NZ Pre-Purchase Inspection',
+  version: '2',
+  sections: [{ id: 'exterior', name: 'Exterior', prompt: 'Check exterior.', items: [] }],
+};
+
+const version = (overrides: Partial<ChecklistVersion> = {}): ChecklistVersion => ({
+  id: 'version-2',
+  definitionId: 'def-1',
+  version: 2,
+  content: published as never,
+  changeNotes: null,
+  publishedById: null,
+  publishedAt: new Date(),
+  ...overrides,
+});
+
+describe('ChecklistDefinitionService', () => {
+  let repository: IChecklistDefinitionRepository;
+  let service: ChecklistDefinitionService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    service = new ChecklistDefinitionService(repository);
+  });
+
+  describe('create', () => {
+    it('stores the content as a draft', async () => {
+      vi.mocked(repository.findByKey).mockResolvedValue(null);
+      vi.mocked(repository.create).mockResolvedValue(definition({ draft: content as never }));
+
+      await service.create('user-1', { key: 'nz-ppi', content });
+
+      expect(repository.create).toHaveBeenCalledWith({
+        key: 'nz-ppi',
+        name: 'NZ Pre-Purchase Inspection',
+        draft: content,
+        createdById: 'user-1',
+      });
+      expect(repository.publish).not.toHaveBeenCalled();
+    });
+
+    it('rejects a duplicate key', async () => {
+      vi.mocked(repository.findByKey).mockResolvedValue(definition());
+
+      await expect(service.create('user-1', { key: 'nz-ppi', content })).rejects.toThrow(ChecklistConflictError);
+    });
+
+    it('rejects required items that are not checklist items', async () => {
+      vi.mocked(repository.findByKey).mockResolvedValue(null);
+      const invalid: RawChecklist = {
+        name: 'Broken',
+        sections: [
+          { id: 'exterior', name: 'Exterior', items: ['Roof'], required_items: ['Chimney'] },
+          { id: 'exterior', name: 'Exterior again' },
+        ],
+      };
+
+      const error = await service.create('user-1', { key: 'broken', content: invalid }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ChecklistValidationError);
+      expect(error.problems).toEqual([
+        'Duplicate section id: exterior',
+        'Section exterior: required items not in items: Chimney',
+      ]);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publish', () => {
+    it('freezes the draft as the next version', async () => {
+      vi.mocked(repository.findByKey).mockResolvedValue(definition({ draft: content as never, latestVersion: 1 }));
+
+      await service.publish('nz-ppi', 'user-1', 'Add cladding');
+
+      expect(repository.publish).toHaveBeenCalledWith('def-1', expect.objectContaining({
+        version: 2,
+        name: 'NZ Pre-Purchase Inspection',
+        changeNotes: 'Add cladding',
+        publishedById: 'user-1',
+      }));
+      const frozen = vi.mocked(repository.publish).mock.calls[0][1].content as unknown as Checklist;
+      expect(frozen.version).toBe('2');
+      expect(frozen.sections[1].subareas?.[0].prompt).toBe('Check kitchen.');
+    });
+
+    it('refuses to publish without a draft', async () => {
+      vi.mocked(repository.findByKey).mockResolvedValue(definition({ latestVersion: 1 }));
+
+      await expect(service.publish('nz-ppi', 'user-1')).rejects.toThrow(ChecklistValidationError);
+      expect(repository.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolve', () => {
+    it('returns the latest published version', async () => {
+      vi.mocked(repository.findByKey).mockResolvedValue(definition({ latestVersion: 2 }));
+      vi.mocked(repository.findVersion).mockResolvedValue(version());
+
+      const resolved = await service.resolve('nz-ppi');
+
+      expect(repository.findVersion).toHaveBeenCalledWith('def-1', 2);
+      expect(resolved).toEqual({ versionId: 'version-2', version: 2, checklist: published });
+    });
+
+    it('rejects unpublished and inactive checklists', async () => {
+      vi.mocked(repository.findByKey).mockResolvedValueOnce(definition({ latestVersion: 0 }));
+      await expect(service.resolve('nz-ppi')).rejects.toThrow(ChecklistNotFoundError);
+
+      vi.mocked(repository.findByKey).mockResolvedValueOnce(definition({ latestVersion: 2, active: false }));
+      await expect(service.resolve('nz-ppi')).rejects.toThrow(ChecklistNotFoundError);
+    });
+  });
+
+  describe('forInspection', () => {
+    it('uses the pinned version even after newer versions are published', async () => {
+      const pinned = { ...published, version: '1' };
+      vi.mocked(repository.findVersionById).mockResolvedValue(version({ id: 'version-1', version: 1, content: pinned as never }));
+
+      const checklist = await service.forInspection({ checklistId: 'nz-ppi', checklistVersionId: 'version-1' });
+
+      expect(checklist?.version).toBe('1');
+      expect(repository.findByKey).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the latest version for unpinned inspections', async () => {
+      vi.mocked(repository.findByKey).mockResolvedValue(definition({ latestVersion: 2 }));
+      vi.mocked(repository.findVersion).mockResolvedValue(version());
+
+      const checklist = await service.forInspection({ checklistId: 'nz-ppi', checklistVersionId: null });
+
+      expect(checklist?.version).toBe('2');
+    });
+
+    it('returns null for an unknown checklist', async () => {
+      vi.mocked(repository.findByKey).mockResolvedValue(null);
+
+      await expect(service.forInspection({ checklistId: 'gone', checklistVersionId: null })).resolves.toBeNull();
+    });
+  });
+
+  describe('seed', () => {
+    it('publishes checklists missing from the database and leaves the rest alone', async () => {
+      vi.mocked(repository.findByKey).mockImplementation(async (key) => {
+        if (key === 'existing') return definition({ key, latestVersion: 3 });
+        const created = vi.mocked(repository.create).mock.calls.length > 0;
+        return created ? definition({ key, draft: content as never }) : null;
+      });
+      vi.mocked(repository.create).mockResolvedValue(definition({ draft: content as never }));
+
+      const seeded = await service.seed([
+        { ...published, id: 'existing' },
+        { ...published, id: 'nz-ppi' },
+      ]);
+
+      expect(seeded).toEqual(['nz-ppi']);
+      expect(repository.create).toHaveBeenCalledTimes(1);
+      expect(repository.publish).toHaveBeenCalledWith('def-1', expect.objectContaining({
+        version: 1,
+        changeNotes: 'Seeded from config/checklists',
+      }));
+    });
+  });
+});
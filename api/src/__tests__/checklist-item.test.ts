@@ -10,6 +10,7 @@ import type { ChecklistItem } from '@prisma/client';
 const createMockRepository = (): IChecklistItemRepository => ({
   create: vi.fn(),
   findById: vi.fn(),
+  findByIdInOrganization: vi.fn(),
   findByInspectionId: vi.fn(),
   findAll: vi.fn(),
   update: vi.fn(),
@@ -26,6 +27,7 @@ const mockChecklistItem: ChecklistItem = {
   decision: 'PASS',
   notes: null,
   photoIds: [],
+  voiceNoteId: null,
   sortOrder: 0,
   createdAt: new Date(),
   updatedAt: new Date(),
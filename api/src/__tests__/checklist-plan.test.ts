@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeChecklist, checklistProblems, type RawChecklist } from '../services/checklist.js';
+import { inspectionFacts, resolvePlan, conditionMismatch, type ProjectWithProperty } from '../services/checklist-plan.js';
+import type { Inspection } from '@prisma/client';
+
+const raw: RawChecklist = {
+  name: 'NZ Pre-Purchase Inspection',
+  sections: [
+    {
+      id: 'exterior',
+      name: 'Exterior',
+      items: [
+        'Roof',
+        { name: 'Decks and balconies', when: { has_deck: true } },
+        { name: 'Lead paint and asbestos', when: { built_before: 1940 } },
+      ],
+      required_items: ['Roof', 'Decks and balconies'],
+    },
+    { id: 'subfloor', name: 'Subfloor', when: { has_subfloor: true }, required: true },
+    {
+      id: 'interior',
+      name: 'Interior',
+      subareas: [
+        { id: 'living', name: 'Living Areas' },
+        { id: 'attic', name: 'Roof Space', when: { construction: { roofType: ['PITCHED'] } } },
+      ],
+    },
+    { id: 'clauses', name: 'Code Clauses', when: { report_type: ['COA', 'CCC_GAP'] } },
+  ],
+};
+
+const checklist = normalizeChecklist('nz-ppi', raw);
+
+const inspection = (metadata: Inspection['metadata'] = null): Inspection => ({
+  id: 'insp-1',
+  address: '12 Kauri Road',
+  clientName: 'Test Client',
+  inspectorName: null,
+  checklistId: 'nz-ppi',
+  checklistVersionId: null,
+  projectId: 'proj-1',
+  status: 'IN_PROGRESS',
+  currentSection: 'exterior',
+  metadata,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  completedAt: null,
+});
+
+const project = (property: { yearBuilt?: number | null; construction?: object | null }): ProjectWithProperty => ({
+  reportType: 'PPI',
+  property: { yearBuilt: null, construction: null, ...property },
+}) as unknown as ProjectWithProperty;
+
+const sectionIds = (plan: ReturnType<typeof resolvePlan>) => plan.checklist.sections.map((s) => s.id);
+
+describe('normalizeChecklist conditions', () => {
+  it('splits conditional items into names and conditions', () => {
+    const exterior = checklist.sections[0];
+
+    expect(exterior.items).toEqual(['Roof', 'Decks and balconies', 'Lead paint and asbestos']);
+    expect(exterior.item_conditions).toEqual({
+      'Decks and balconies': { has_deck: true },
+      'Lead paint and asbestos': { built_before: 1940 },
+    });
+    expect(checklistProblems(checklist)).toEqual([]);
+  });
+
+  it('reports bad conditions', () => {
+    const invalid = normalizeChecklist('bad', {
+      sections: [{ id: 'exterior', name: 'Exterior', when: { report_type: ['HOUSE'], built_before: 19.4 } as never }],
+    });
+
+    expect(checklistProblems(invalid)).toEqual([
+      'Section exterior: built_before must be a year',
+      'Section exterior: unknown report types: HOUSE',
+    ]);
+  });
+});
+
+describe('inspectionFacts', () => {
+  it('derives the subfloor from the floor or foundation type', () => {
+    expect(inspectionFacts(inspection(), project({ construction: { foundationType: 'CONCRETE_SLAB' } })).hasSubfloor).toBe(false);
+    expect(inspectionFacts(inspection(), project({ construction: { floorType: 'SUSPENDED_TIMBER' } })).hasSubfloor).toBe(true);
+    expect(inspectionFacts(inspection(), project({ construction: {} })).hasSubfloor).toBeUndefined();
+  });
+
+  it('prefers what the inspector recorded on site', () => {
+    const facts = inspectionFacts(
+      inspection({ year_built: 1935, has_subfloor: true }),
+      project({ yearBuilt: 1975, construction: { foundationType: 'CONCRETE_SLAB' } })
+    );
+
+    expect(facts).toMatchObject({ yearBuilt: 1935, hasSubfloor: true, reportType: 'PPI' });
+  });
+
+  it('works without a project', () => {
+    expect(inspectionFacts(inspection({ year_built: 1990 }), null)).toEqual({
+      construction: {},
+      yearBuilt: 1990,
+      hasSubfloor: undefined,
+      hasDeck: undefined,
+      reportType: undefined,
+    });
+  });
+});
+
+describe('conditionMismatch', () => {
+  it('never excludes on unknown facts', () => {
+    expect(conditionMismatch({ has_subfloor: true, built_before: 1940, report_type: ['COA'] }, { construction: {} })).toBeNull();
+  });
+});
+
+describe('resolvePlan', () => {
+  it('skips the subfloor of a slab-on-grade house', () => {
+    const facts = inspectionFacts(inspection(), project({ yearBuilt: 1998, construction: { floorType: 'CONCRETE_SLAB' } }));
+
+    const plan = resolvePlan(checklist, facts);
+
+    expect(sectionIds(plan)).toEqual(['exterior', 'interior']);
+    expect(plan.skipped).toEqual([
+      { id: 'subfloor', name: 'Subfloor', reason: 'no subfloor' },
+      { id: 'clauses', name: 'Code Clauses', reason: 'PPI report' },
+    ]);
+  });
+
+  it('adds the lead paint and asbestos item for a pre-1940 house', () => {
+    const old = resolvePlan(checklist, inspectionFacts(inspection(), project({ yearBuilt: 1925 })));
+    const modern = resolvePlan(checklist, inspectionFacts(inspection(), project({ yearBuilt: 1985 })));
+
+    expect(old.checklist.sections[0].items).toContain('Lead paint and asbestos');
+    expect(modern.checklist.sections[0].items).not.toContain('Lead paint and asbestos');
+  });
+
+  it('drops requirements on items that do not apply', () => {
+    const plan = resolvePlan(checklist, inspectionFacts(inspection({ has_deck: false }), null));
+
+    expect(plan.checklist.sections[0].items).not.toContain('Decks and balconies');
+    expect(plan.checklist.sections[0].required_items).toEqual(['Roof']);
+  });
+
+  it('skips subareas by construction', () => {
+    const plan = resolvePlan(
+      checklist,
+      inspectionFacts(inspection(), project({ construction: { roofType: 'FLAT' } }))
+    );
+
+    const interior = plan.checklist.sections.find((s) => s.id === 'interior');
+    expect(interior?.subareas?.map((s) => s.id)).toEqual(['living']);
+    expect(plan.skipped).toContainEqual({ id: 'interior.attic', name: 'Interior - Roof Space', reason: 'roofType is FLAT' });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateInspection,
+  metadataValue,
+  type FindingWithPhotos,
+} from '../services/checklist-validation.js';
+import type { Checklist } from '../services/checklist.js';
+import type { Inspection, Photo } from '@prisma/client';
+
+const checklist: Checklist = {
+  id: 'nz-ppi',
+  name: 'NZ Pre-Purchase Inspection',
+  version: '1.0',
+  metadata: { required: ['job_number', 'inspector_name', 'weather'], optional: [] },
+  sections: [
+    {
+      id: 'exterior',
+      name: 'Exterior',
+      prompt: 'Check exterior.',
+      items: ['Roof condition', 'Cladding'],
+      required: true,
+      required_items: ['Roof condition'],
+      evidence: { min_photos: 1 },
+    },
+    {
+      id: 'interior',
+      name: 'Interior',
+      prompt: 'Check interior.',
+      items: [],
+      required: true,
+      subareas: [
+        { id: 'kitchen', name: 'Kitchen', prompt: 'Check kitchen.', items: [] },
+        { id: 'bathrooms', name: 'Bathrooms', prompt: 'Check bathrooms.', items: [], evidence: { min_findings: 2 } },
+      ],
+    },
+    { id: 'services', name: 'Services', prompt: 'Check services.', items: [] },
+  ],
+};
+
+const inspection = (overrides: Partial<Inspection> = {}): Inspection => ({
+  id: 'insp-1',
+  address: '123 Test St',
+  clientName: 'Test Client',
+  inspectorName: 'Test Inspector',
+  checklistId: 'nz-ppi',
+  checklistVersionId: null,
+  projectId: null,
+  status: 'IN_PROGRESS',
+  currentSection: 'exterior',
+  metadata: { job_number: 'J-1042', weather: 'Fine' },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  completedAt: null,
+  ...overrides,
+});
+
+const finding = (section: string, overrides: Partial<FindingWithPhotos> = {}): FindingWithPhotos => ({
+  id: `find-${section}`,
+  inspectionId: 'insp-1',
+  section,
+  text: 'No issues',
+  severity: 'INFO',
+  matchedComment: null,
+  item: null,
+  voiceNoteId: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  photos: [],
+  ...overrides,
+});
+
+const photo = { id: 'photo-1' } as Photo;
+
+const complete: FindingWithPhotos[] = [
+  finding('exterior', { item: 'Roof condition', photos: [photo] }),
+  finding('interior.bathrooms', { id: 'bath-1' }),
+  finding('interior.bathrooms', { id: 'bath-2' }),
+];
+
+describe('metadataValue', () => {
+  it('reads metadata first, then inspection fields', () => {
+    expect(metadataValue(inspection(), 'weather')).toBe('Fine');
+    expect(metadataValue(inspection(), 'inspector_name')).toBe('Test Inspector');
+    expect(metadataValue(inspection({ metadata: { inspector_name: 'Override' } }), 'inspector_name')).toBe('Override');
+    expect(metadataValue(inspection(), 'bedrooms')).toBeUndefined();
+  });
+});
+
+describe('validateInspection', () => {
+  it('is satisfied when every requirement is met', () => {
+    expect(validateInspection(checklist, inspection(), complete)).toEqual({ satisfied: true, missing: [] });
+  });
+
+  it('lists missing and blank metadata', () => {
+    const result = validateInspection(
+      checklist,
+      inspection({ inspectorName: null, metadata: { job_number: '  ' } }),
+      complete
+    );
+
+    expect(result.satisfied).toBe(false);
+    expect(result.missing.map((m) => m.field)).toEqual(['job_number', 'inspector_name', 'weather']);
+    expect(result.missing[0].message).toBe('Job number is required');
+  });
+
+  it('requires findings in required sections, counting subareas', () => {
+    const result = validateInspection(checklist, inspection(), [complete[0]]);
+
+    expect(result.missing).toEqual([
+      expect.objectContaining({ type: 'section', sectionId: 'interior' }),
+      expect.objectContaining({
+        type: 'evidence',
+        sectionId: 'interior.bathrooms',
+        message: 'Interior - Bathrooms: 2 finding(s) required, 0 recorded',
+      }),
+    ]);
+  });
+
+  it('requires required items and photos', () => {
+    const result = validateInspection(checklist, inspection(), [
+      finding('exterior', { item: 'Cladding' }),
+      ...complete.slice(1),
+    ]);
+
+    expect(result.missing).toEqual([
+      expect.objectContaining({ type: 'item', sectionId: 'exterior', item: 'Roof condition' }),
+      expect.objectContaining({ type: 'evidence', message: 'Exterior: 1 photo(s) required, 0 attached' }),
+    ]);
+  });
+});
@@ -9,6 +9,7 @@ import type { IClauseReviewRepository, ClauseReviewWithClause } from '../reposit
 const createMockRepository = (): IClauseReviewRepository => ({
   create: vi.fn(),
   findById: vi.fn(),
+  findByIdInOrganization: vi.fn(),
   findByInspectionId: vi.fn(),
   findByInspectionAndClause: vi.fn(),
   findAll: vi.fn(),
@@ -27,6 +28,7 @@ const mockClauseReview: ClauseReviewWithClause = {
   observations: 'Foundations look good',
   photoIds: ['photo-1'],
   docIds: [],
+  voiceNoteId: null,
   docsRequired: null,
   remedialWorks: null,
   sortOrder: 0,
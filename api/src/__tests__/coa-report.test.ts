@@ -0,0 +1,348 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CoaReportService } from '../services/coa-report.js';
+import { ProjectNotFoundError } from '../services/project.js';
+import { renderDocx } from '../services/docx-renderer.js';
+import { buildAppendixPdf, appendPdf } from '../services/document-appendix.js';
+import { writeFileSync } from 'node:fs';
+import type { DocumentService } from '../services/document.js';
+import type {
+  IProjectReportRepository,
+  ProjectReportData,
+} from '../repositories/interfaces/project-report.js';
+import type { Report } from '@prisma/client';
+
+// Mock puppeteer
+vi.mock('puppeteer', () => ({
+  default: {
+    launch: vi.fn().mockResolvedValue({
+      newPage: vi.fn().mockResolvedValue({
+        setContent: vi.fn().mockResolvedValue(undefined),
+        pdf: vi.fn().mockResolvedValue(Buffer.from('mock pdf')),
+      }),
+      close: vi.fn().mockResolvedValue(undefined),
+    }),
+  },
+}));
+
+// Mock fs
+vi.mock('node:fs', () => ({
+  existsSync: vi.fn().mockReturnValue(true),
+  mkdirSync: vi.fn(),
+  readFileSync: vi.fn().mockReturnValue('<html>{{project.address}}</html>'),
+  writeFileSync: vi.fn(),
+}));
+
+vi.mock('../services/docx-renderer.js', () => ({
+  renderDocx: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../services/document-appendix.js', () => ({
+  buildAppendixPdf: vi.fn().mockResolvedValue(new Uint8Array([2])),
+  appendPdf: vi.fn().mockResolvedValue(new Uint8Array([1, 2])),
+}));
+
+const createMockRepository = (): IProjectReportRepository => ({
+  loadProjectData: vi.fn(),
+  loadCccGapData: vi.fn(),
+  createReport: vi.fn(),
+  findReportById: vi.fn(),
+  findReportsByProject: vi.fn(),
+});
+
+const createMockDocumentService = () => ({
+  canFinalize: vi.fn().mockResolvedValue({ canFinalize: true, blockers: [] }),
+  findByProjectId: vi.fn().mockResolvedValue([]),
+}) as unknown as DocumentService;
+
+const clause = (id: string, code: string, category: string, sortOrder: number) => ({
+  id,
+  code,
+  title: `${code} title`,
+  category,
+  objective: null,
+  functionalReq: null,
+  performanceText: `${code} performance`,
+  durabilityPeriod: null,
+  typicalEvidence: [],
+  sortOrder,
+  parentId: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}) as ProjectReportData['siteInspections'][number]['clauseReviews'][number]['clause'];
+
+const review = (
+  id: string,
+  clauseData: ReturnType<typeof clause>,
+  overrides: Partial<ProjectReportData['siteInspections'][number]['clauseReviews'][number]> = {}
+) => ({
+  id,
+  inspectionId: 'si-1',
+  clauseId: clauseData.id,
+  clause: clauseData,
+  applicability: 'APPLICABLE' as const,
+  naReason: null,
+  observations: null,
+  photoIds: [],
+  docIds: [],
+  voiceNoteId: null,
+  docsRequired: null,
+  remedialWorks: null,
+  sortOrder: 0,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const e2 = clause('clause-e2', 'E2', 'E', 1);
+const b1 = clause('clause-b1', 'B1', 'B', 1);
+const g9 = clause('clause-g9', 'G9', 'G', 9);
+
+const mockProjectData = {
+  id: 'proj-1',
+  jobNumber: 'J-2026-001',
+  activity: 'Unconsented deck and bathroom',
+  reportType: 'COA',
+  status: 'IN_PROGRESS',
+  propertyId: 'prop-1',
+  clientId: 'client-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  property: {
+    id: 'prop-1',
+    streetAddress: '12 Kauri Road',
+    suburb: 'Titirangi',
+    city: 'Auckland',
+    postcode: null,
+    lotDp: 'Lot 1 DP 12345',
+    councilPropertyId: null,
+    territorialAuthority: 'AKL',
+    bcNumber: null,
+    yearBuilt: 1985,
+    siteData: { windZone: 'High' },
+    construction: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    buildingHistory: [],
+  },
+  client: {
+    id: 'client-1',
+    name: 'Jane Smith',
+    email: null,
+    phone: null,
+    mobile: null,
+    address: null,
+    contactPerson: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+  siteInspections: [
+    {
+      id: 'si-1',
+      date: new Date('2026-02-01'),
+      inspectorName: 'Alex Surveyor',
+      weather: 'Fine',
+      methodology: null,
+      equipment: ['Moisture meter'],
+      areasNotAccessed: null,
+      clauseReviews: [
+        review('cr-e2', e2, { observations: 'Membrane lapped correctly', photoIds: ['photo-2'], docIds: ['doc-1'] }),
+        review('cr-b1', b1, { observations: 'Piles in good condition', remedialWorks: 'Replace corroded fixings' }),
+        review('cr-g9', g9, { applicability: 'NA', naReason: 'No electrical work' }),
+      ],
+    },
+  ],
+  documents: [
+    {
+      id: 'doc-1',
+      appendixLetter: 'B',
+      filename: 'ps3-membrane.pdf',
+      documentType: 'PS3',
+      description: 'PS3 Waterproofing',
+      status: 'RECEIVED',
+      linkedClauses: ['E2'],
+      issuer: 'Dry Co',
+      issuedAt: null,
+      referenceNumber: null,
+    },
+    {
+      id: 'doc-2',
+      appendixLetter: 'C',
+      filename: 'coc.pdf',
+      documentType: 'COC',
+      description: 'Electrical COC',
+      status: 'OUTSTANDING',
+      linkedClauses: ['G9'],
+      issuer: null,
+      issuedAt: null,
+      referenceNumber: null,
+    },
+  ],
+  photos: [
+    { id: 'photo-1', reportNumber: 1, filePath: 'photos/proj-1/a.jpg', caption: 'Deck piles', source: 'SITE', linkedClauses: ['B1'] },
+    { id: 'photo-2', reportNumber: 2, filePath: 'photos/proj-1/b.jpg', caption: 'Shower membrane', source: 'OWNER', linkedClauses: ['E2'] },
+    { id: 'photo-3', reportNumber: 3, filePath: 'photos/proj-1/c.jpg', caption: '', source: 'SITE', linkedClauses: [] },
+  ],
+} as unknown as ProjectReportData;
+
+describe('CoaReportService', () => {
+  let repository: IProjectReportRepository;
+  let documentService: DocumentService;
+  let service: CoaReportService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    documentService = createMockDocumentService();
+    service = new CoaReportService(repository, documentService, {
+      templatePath: '/tmp/coa-report.html',
+      outputDir: '/tmp/reports',
+      resolvePhotoSrc: async (photo) => `https://cdn.test/${photo.filePath}`,
+    });
+  });
+
+  describe('buildContext', () => {
+    it('should throw ProjectNotFoundError for non-existent project', async () => {
+      vi.mocked(repository.loadProjectData).mockResolvedValue(null);
+
+      await expect(service.buildContext('non-existent')).rejects.toThrow(ProjectNotFoundError);
+    });
+
+    it('should order clause rows by category and cross-reference photos and documents', async () => {
+      vi.mocked(repository.loadProjectData).mockResolvedValue(mockProjectData);
+
+      const context = await service.buildContext('proj-1');
+
+      expect(context.clauseReviews.map((row) => row.code)).toEqual(['B1', 'E2', 'G9']);
+
+      const [b1Row, e2Row, g9Row] = context.clauseReviews;
+      expect(b1Row.photoRefs).toBe('Photograph 1');
+      expect(e2Row.photoRefs).toBe('Photograph 2');
+      expect(e2Row.docsProvided).toEqual(['Appendix B']);
+      expect(e2Row.complianceText).toBe('E2 performance');
+      expect(g9Row.applicability).toBe('N/A');
+      expect(g9Row.naReason).toBe('No electrical work');
+      expect(g9Row.rowClass).toBe('clause-na');
+      // Outstanding documents are not cited as provided
+      expect(g9Row.docsProvided).toEqual([]);
+    });
+
+    it('should collect remedial works, appendices and summary', async () => {
+      vi.mocked(repository.loadProjectData).mockResolvedValue(mockProjectData);
+
+      const context = await service.buildContext('proj-1');
+
+      expect(context.project.address).toBe('12 Kauri Road, Titirangi, Auckland');
+      expect(context.property.zones.wind).toBe('High');
+      expect(context.property.zones.earthquake).toBe('-');
+      expect(context.remedialItems).toEqual([
+        { item: 1, code: 'B1', description: 'Replace corroded fixings' },
+      ]);
+      expect(context.summary).toMatchObject({ applicable: 2, na: 1, remedialCount: 1 });
+      expect(context.appendices.photos[1]).toEqual({
+        number: 2,
+        caption: 'Shower membrane',
+        source: 'Owner provided',
+        src: 'https://cdn.test/photos/proj-1/b.jpg',
+      });
+      expect(context.appendices.documents.map((d) => d.letter)).toEqual(['B']);
+    });
+
+    it('should let a later inspection replace an earlier review of the same clause', async () => {
+      const laterInspection = {
+        ...mockProjectData.siteInspections[0],
+        id: 'si-2',
+        clauseReviews: [review('cr-e2-later', e2, { observations: 'Re-inspected, flood test passed' })],
+      };
+      vi.mocked(repository.loadProjectData).mockResolvedValue({
+        ...mockProjectData,
+        siteInspections: [...mockProjectData.siteInspections, laterInspection],
+      });
+
+      const context = await service.buildContext('proj-1');
+      const e2Row = context.clauseReviews.find((row) => row.code === 'E2');
+
+      expect(context.clauseReviews).toHaveLength(3);
+      expect(e2Row?.observations).toBe('Re-inspected, flood test passed');
+    });
+  });
+
+  describe('checkReadiness', () => {
+    it('should combine document blockers with content issues', async () => {
+      vi.mocked(repository.loadProjectData).mockResolvedValue(mockProjectData);
+      vi.mocked(documentService.canFinalize).mockResolvedValue({
+        canFinalize: false,
+        blockers: ['COC: Electrical COC (OUTSTANDING)'],
+      });
+
+      const readiness = await service.checkReadiness('proj-1');
+
+      expect(readiness.canFinalize).toBe(false);
+      expect(readiness.blockers).toEqual(['COC: Electrical COC (OUTSTANDING)']);
+      expect(readiness.issues).toEqual(['Photo 3 missing caption']);
+    });
+  });
+
+  describe('generate', () => {
+    it('should render a PDF and create a COA report record', async () => {
+      const report = { id: 'report-1', projectId: 'proj-1', type: 'COA' } as Report;
+      vi.mocked(repository.loadProjectData).mockResolvedValue(mockProjectData);
+      vi.mocked(repository.createReport).mockResolvedValue(report);
+
+      const result = await service.generate('proj-1', 'user-1');
+
+      expect(result).toEqual(report);
+      expect(repository.createReport).toHaveBeenCalledWith(expect.objectContaining({
+        projectId: 'proj-1',
+        type: 'COA',
+        format: 'pdf',
+        preparedById: 'user-1',
+        path: expect.stringMatching(/^\/tmp\/reports\/coa-proj-1-\d+\.pdf$/),
+      }));
+    });
+
+    it('should append the document appendices when asked', async () => {
+      vi.mocked(repository.loadProjectData).mockResolvedValue(mockProjectData);
+      vi.mocked(repository.createReport).mockResolvedValue({ id: 'report-1' } as Report);
+
+      await service.generate('proj-1', 'user-1', 'pdf', { attachAppendices: true });
+
+      expect(documentService.findByProjectId).toHaveBeenCalledWith('proj-1');
+      expect(buildAppendixPdf).toHaveBeenCalled();
+      expect(appendPdf).toHaveBeenCalledWith(expect.anything(), new Uint8Array([2]));
+      expect(writeFileSync).toHaveBeenCalledWith(
+        expect.stringMatching(/^\/tmp\/reports\/coa-proj-1-\d+\.pdf$/),
+        new Uint8Array([1, 2])
+      );
+    });
+
+    it('should render the same sections to DOCX when requested', async () => {
+      vi.mocked(repository.loadProjectData).mockResolvedValue(mockProjectData);
+      vi.mocked(repository.createReport).mockResolvedValue({ id: 'report-2' } as Report);
+
+      await service.generate('proj-1', 'user-1', 'docx');
+
+      expect(renderDocx).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          expect.objectContaining({ type: 'heading', text: '4. Building Code Clause Review' }),
+          expect.objectContaining({
+            type: 'table',
+            rows: expect.arrayContaining([
+              ['G9\nG9 title', 'N/A\nNo electrical work', '', '', '', 'G9 performance'],
+            ]),
+            shadedRows: [2],
+          }),
+          {
+            type: 'image',
+            src: 'https://cdn.test/photos/proj-1/b.jpg',
+            caption: 'Photograph 2: Shower membrane (Owner provided)',
+          },
+        ]),
+        expect.stringMatching(/\.docx$/),
+        { headerTitle: 'Certificate of Acceptance Report' }
+      );
+      expect(repository.createReport).toHaveBeenCalledWith(expect.objectContaining({
+        format: 'docx',
+        path: expect.stringMatching(/^\/tmp\/reports\/coa-proj-1-\d+\.docx$/),
+      }));
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CommentFeedbackService, FEEDBACK_WINDOW, feedbackOutcome } from '../services/comment-feedback.js';
+import type { ICommentFeedbackRepository } from '../repositories/interfaces/comment-feedback.js';
+import type { CommentFeedback } from '@prisma/client';
+
+const createMockRepository = (): ICommentFeedbackRepository => ({
+  create: vi.fn(),
+  findRecentByOrganization: vi.fn(),
+});
+
+const feedback = (overrides: Partial<CommentFeedback> = {}): CommentFeedback => ({
+  id: 'feedback-1',
+  organizationId: 'org-1',
+  userId: 'user-1',
+  findingId: null,
+  section: 'exterior',
+  findingText: 'rusty spouting',
+  commentKey: 'exterior.gutters.rust',
+  suggestedComment: 'Rust/corrosion observed in gutters.',
+  finalComment: 'Rust/corrosion observed in gutters.',
+  outcome: 'ACCEPTED',
+  rank: 1,
+  createdAt: new Date('2026-03-10T09:00:00Z'),
+  ...overrides,
+});
+
+describe('feedbackOutcome', () => {
+  it('accepts a suggestion kept as is', () => {
+    expect(feedbackOutcome('Rust observed.', ' Rust observed. ')).toBe('ACCEPTED');
+  });
+
+  it('treats reworded or new comments as edits', () => {
+    expect(feedbackOutcome('Rust observed.', 'Surface rust observed to spouting.')).toBe('EDITED');
+    expect(feedbackOutcome(undefined, 'Surface rust observed to spouting.')).toBe('EDITED');
+  });
+
+  it('rejects when nothing is kept', () => {
+    expect(feedbackOutcome('Rust observed.', undefined)).toBe('REJECTED');
+    expect(feedbackOutcome('Rust observed.', '  ')).toBe('REJECTED');
+  });
+});
+
+describe('CommentFeedbackService', () => {
+  let repository: ICommentFeedbackRepository;
+  let service: CommentFeedbackService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    service = new CommentFeedbackService(repository);
+  });
+
+  describe('record', () => {
+    it('stores the outcome in the caller\'s organisation', async () => {
+      vi.mocked(repository.create).mockResolvedValue(feedback());
+
+      await service.record('org-1', 'user-1', {
+        findingText: 'rusty spouting',
+        commentKey: 'exterior.gutters.rust',
+        suggestedComment: 'Rust observed.',
+        finalComment: ' Surface rust to spouting. ',
+        rank: 2,
+      });
+
+      expect(repository.create).toHaveBeenCalledWith({
+        organizationId: 'org-1',
+        userId: 'user-1',
+        findingText: 'rusty spouting',
+        commentKey: 'exterior.gutters.rust',
+        suggestedComment: 'Rust observed.',
+        finalComment: 'Surface rust to spouting.',
+        outcome: 'EDITED',
+        rank: 2,
+      });
+    });
+  });
+
+  describe('summarize', () => {
+    it('counts outcomes per comment and groups edited wording', async () => {
+      vi.mocked(repository.findRecentByOrganization).mockResolvedValue([
+        feedback(),
+        feedback({ outcome: 'REJECTED', finalComment: null }),
+        feedback({ outcome: 'EDITED', finalComment: 'Surface rust to spouting.' }),
+        feedback({ outcome: 'EDITED', finalComment: 'Surface rust to spouting.', findingText: 'gutter is rusting' }),
+        feedback({ outcome: 'EDITED', finalComment: 'Surface rust to spouting.' }),
+        feedback({ commentKey: null, outcome: 'EDITED', finalComment: 'Borer in subfloor.', findingText: 'borer' }),
+      ]);
+
+      const summary = await service.summarize('org-1');
+
+      expect(repository.findRecentByOrganization).toHaveBeenCalledWith('org-1', FEEDBACK_WINDOW);
+      expect(summary.comments).toEqual([
+        { commentKey: 'exterior.gutters.rust', accepted: 1, edited: 3, rejected: 1 },
+      ]);
+      expect(summary.edits).toEqual([
+        {
+          commentKey: 'exterior.gutters.rust',
+          section: 'exterior',
+          text: 'Surface rust to spouting.',
+          findingTexts: ['rusty spouting', 'gutter is rusting'],
+          count: 3,
+        },
+        { commentKey: null, section: 'exterior', text: 'Borer in subfloor.', findingTexts: ['borer'], count: 1 },
+      ]);
+    });
+  });
+});
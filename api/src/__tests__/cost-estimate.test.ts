@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  CostEstimateService,
+  CostEstimateExistsError,
+  CostEstimateValidationError,
+  CostLineItemNotFoundError,
+  calculateTotals,
+  lineItemTotal,
+} from '../services/cost-estimate.js';
+import { ProjectNotFoundError } from '../services/project.js';
+import type {
+  ICostEstimateRepository,
+  CostEstimateWithLineItems,
+} from '../repositories/interfaces/cost-estimate.js';
+import type { IProjectRepository } from '../repositories/interfaces/project.js';
+import type { IDefectRepository } from '../repositories/interfaces/defect.js';
+import type { CostLineItem } from '@prisma/client';
+
+const createMockRepository = (): ICostEstimateRepository => ({
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByIdInOrganization: vi.fn(),
+  findByProjectId: vi.fn(),
+  update: vi.fn(),
+  saveTotals: vi.fn(),
+  createLineItem: vi.fn(),
+  findLineItemById: vi.fn(),
+  findLineItemByIdInOrganization: vi.fn(),
+  updateLineItem: vi.fn(),
+  deleteLineItem: vi.fn(),
+});
+
+const createMockProjectRepository = () => ({
+  findById: vi.fn(),
+}) as unknown as IProjectRepository;
+
+const createMockDefectRepository = () => ({
+  findById: vi.fn(),
+}) as unknown as IDefectRepository;
+
+const lineItem = (overrides: Partial<CostLineItem> = {}): CostLineItem => ({
+  id: 'item-1',
+  estimateId: 'estimate-1',
+  defectId: null,
+  itemNumber: 1,
+  description: 'Remove and replace cladding',
+  quantity: 10,
+  unit: 'm2',
+  rate: 150,
+  total: 1500,
+  category: 'CLADDING',
+  notes: null,
+  sortOrder: 1,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const estimate = (overrides: Partial<CostEstimateWithLineItems> = {}): CostEstimateWithLineItems => ({
+  id: 'estimate-1',
+  projectId: 'proj-1',
+  currency: 'NZD',
+  contingencyRate: 0.15,
+  subtotal: 0,
+  contingency: 0,
+  totalExGst: 0,
+  gst: 0,
+  totalIncGst: 0,
+  notes: null,
+  validUntil: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lineItems: [],
+  ...overrides,
+});
+
+describe('calculateTotals', () => {
+  it('adds contingency then GST', () => {
+    const totals = calculateTotals([{ total: 1000 }, { total: 500 }], 0.1);
+
+    expect(totals).toEqual({
+      subtotal: 1500,
+      contingency: 150,
+      totalExGst: 1650,
+      gst: 247.5,
+      totalIncGst: 1897.5,
+    });
+  });
+
+  it('rounds to cents', () => {
+    const totals = calculateTotals([{ total: 33.33 }], 0.15);
+
+    expect(totals.contingency).toBe(5);
+    expect(totals.gst).toBe(5.75);
+  });
+});
+
+describe('lineItemTotal', () => {
+  it('multiplies quantity by rate', () => {
+    expect(lineItemTotal(2.5, 89.99)).toBe(224.98);
+  });
+});
+
+describe('CostEstimateService', () => {
+  let repository: ICostEstimateRepository;
+  let projectRepository: IProjectRepository;
+  let service: CostEstimateService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    projectRepository = createMockProjectRepository();
+    service = new CostEstimateService(repository, projectRepository, createMockDefectRepository());
+    vi.mocked(projectRepository.findById).mockResolvedValue({ id: 'proj-1' } as never);
+    vi.mocked(repository.saveTotals).mockImplementation(async () => estimate());
+  });
+
+  describe('create', () => {
+    it('throws when the project does not exist', async () => {
+      vi.mocked(projectRepository.findById).mockResolvedValue(null);
+
+      await expect(service.create('org-1', { projectId: 'missing' })).rejects.toThrow(ProjectNotFoundError);
+    });
+
+    it('rejects a second estimate for the project', async () => {
+      vi.mocked(repository.findByProjectId).mockResolvedValue(estimate());
+
+      await expect(service.create('org-1', { projectId: 'proj-1' })).rejects.toThrow(CostEstimateExistsError);
+    });
+
+    it('rejects a contingency above 30%', async () => {
+      vi.mocked(repository.findByProjectId).mockResolvedValue(null);
+
+      await expect(
+        service.create('org-1', { projectId: 'proj-1', contingencyRate: 0.35 })
+      ).rejects.toThrow(CostEstimateValidationError);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addLineItem', () => {
+    it('numbers items sequentially and recalculates totals', async () => {
+      const existing = estimate({ lineItems: [{ ...lineItem({ itemNumber: 2 }), defect: null }] });
+      vi.mocked(repository.findById).mockResolvedValue(existing);
+
+      await service.addLineItem('estimate-1', {
+        description: 'Scaffolding',
+        quantity: 3,
+        unit: 'week',
+        rate: 450,
+      });
+
+      expect(repository.createLineItem).toHaveBeenCalledWith(
+        expect.objectContaining({ estimateId: 'estimate-1', itemNumber: 3, sortOrder: 3, total: 1350 })
+      );
+      expect(repository.saveTotals).toHaveBeenCalledWith('estimate-1', calculateTotals(existing.lineItems, 0.15));
+    });
+  });
+
+  describe('updateLineItem', () => {
+    it('recomputes the total from existing values', async () => {
+      vi.mocked(repository.findLineItemById).mockResolvedValue(lineItem());
+      vi.mocked(repository.findById).mockResolvedValue(estimate());
+
+      await service.updateLineItem('item-1', { quantity: 4 });
+
+      expect(repository.updateLineItem).toHaveBeenCalledWith('item-1', { quantity: 4, total: 600 });
+    });
+
+    it('throws when the line item does not exist', async () => {
+      vi.mocked(repository.findLineItemById).mockResolvedValue(null);
+
+      await expect(service.updateLineItem('missing', { quantity: 1 })).rejects.toThrow(CostLineItemNotFoundError);
+    });
+  });
+});
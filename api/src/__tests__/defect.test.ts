@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DefectService,
+  DefectNotFoundError,
+  DefectValidationError,
+  formatDefectNumber,
+} from '../services/defect.js';
+import type { IDefectRepository, DefectWithRelations } from '../repositories/interfaces/defect.js';
+
+const createMockRepository = (): IDefectRepository => ({
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByIdInOrganization: vi.fn(),
+  findByInspectionId: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+  renumber: vi.fn(),
+});
+
+const defect = (overrides: Partial<DefectWithRelations> = {}): DefectWithRelations => ({
+  id: 'defect-1',
+  inspectionId: 'si-1',
+  defectNumber: 'D-001',
+  location: 'North elevation',
+  buildingElement: 'WALL',
+  clauseId: 'clause-e2',
+  description: 'Cracked cladding',
+  cause: null,
+  remedialAction: null,
+  priority: 'HIGH',
+  photoIds: [],
+  sortOrder: 0,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  clause: { id: 'clause-e2', code: 'E2', title: 'External moisture' },
+  moistureReadings: [],
+  costLineItems: [],
+  ...overrides,
+});
+
+describe('formatDefectNumber', () => {
+  it('pads to three digits', () => {
+    expect(formatDefectNumber(1)).toBe('D-001');
+    expect(formatDefectNumber(42)).toBe('D-042');
+    expect(formatDefectNumber(1234)).toBe('D-1234');
+  });
+});
+
+describe('DefectService', () => {
+  let repository: IDefectRepository;
+  let service: DefectService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    service = new DefectService(repository);
+  });
+
+  describe('create', () => {
+    it('assigns D-001 to the first defect', async () => {
+      vi.mocked(repository.findByInspectionId).mockResolvedValue([]);
+      vi.mocked(repository.create).mockResolvedValue(defect());
+
+      await service.create({
+        inspectionId: 'si-1',
+        location: 'North elevation',
+        buildingElement: 'WALL',
+        description: 'Cracked cladding',
+        priority: 'HIGH',
+      });
+
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ defectNumber: 'D-001', sortOrder: 0 })
+      );
+    });
+
+    it('continues numbering after the highest existing defect', async () => {
+      vi.mocked(repository.findByInspectionId).mockResolvedValue([
+        defect({ id: 'a', defectNumber: 'D-001', sortOrder: 0 }),
+        defect({ id: 'b', defectNumber: 'D-003', sortOrder: 1 }),
+      ]);
+      vi.mocked(repository.create).mockResolvedValue(defect());
+
+      await service.create({
+        inspectionId: 'si-1',
+        location: 'Deck',
+        buildingElement: 'DECK',
+        description: 'Rotten joists',
+        priority: 'CRITICAL',
+      });
+
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ defectNumber: 'D-004', sortOrder: 2 })
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('throws when the defect does not exist', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(null);
+
+      await expect(service.update('missing', { priority: 'LOW' })).rejects.toThrow(DefectNotFoundError);
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reorder', () => {
+    beforeEach(() => {
+      vi.mocked(repository.findByInspectionId).mockResolvedValue([
+        defect({ id: 'a', defectNumber: 'D-001' }),
+        defect({ id: 'b', defectNumber: 'D-002' }),
+      ]);
+    });
+
+    it('renumbers defects in the given order', async () => {
+      await service.reorder('si-1', ['b', 'a']);
+
+      expect(repository.renumber).toHaveBeenCalledWith('si-1', [
+        { id: 'b', sortOrder: 0, defectNumber: 'D-001' },
+        { id: 'a', sortOrder: 1, defectNumber: 'D-002' },
+      ]);
+    });
+
+    it('rejects a list missing a defect', async () => {
+      await expect(service.reorder('si-1', ['a'])).rejects.toThrow(DefectValidationError);
+      expect(repository.renumber).not.toHaveBeenCalled();
+    });
+
+    it('rejects duplicates and foreign defects', async () => {
+      await expect(service.reorder('si-1', ['a', 'a'])).rejects.toThrow(DefectValidationError);
+      await expect(service.reorder('si-1', ['a', 'other'])).rejects.toThrow(DefectValidationError);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import {
+  appendixLetter,
+  assignAppendixLetters,
+  buildAppendixPdf,
+  appendPdf,
+} from '../services/document-appendix.js';
+import type { Document } from '@prisma/client';
+
+const document = (overrides: Partial<Document>): Document => ({
+  id: 'doc-1',
+  projectId: 'proj-1',
+  appendixLetter: null,
+  filePath: 'documents/proj-1/0b6f0d7e-1c2a-4f8e-9d43-5a1e2b3c4d5e.pdf',
+  filename: 'ps3.pdf',
+  mimeType: 'application/pdf',
+  fileSize: 1024,
+  documentType: 'PS3',
+  description: 'PS3 Waterproofing',
+  issuer: 'Dry Co',
+  issuedAt: new Date('2026-03-12'),
+  referenceNumber: 'PS3-0042',
+  status: 'RECEIVED',
+  verified: true,
+  linkedClauses: ['E3'],
+  classification: null,
+  needsConfirmation: false,
+  sortOrder: 0,
+  createdAt: new Date('2026-03-01'),
+  updatedAt: new Date('2026-03-01'),
+  ...overrides,
+});
+
+async function pdfWithPages(count: number): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < count; i++) pdf.addPage();
+  return Buffer.from(await pdf.save());
+}
+
+async function pageCount(bytes: Uint8Array): Promise<number> {
+  return (await PDFDocument.load(bytes)).getPageCount();
+}
+
+describe('appendixLetter', () => {
+  it('starts at B and runs on to two letters', () => {
+    expect(appendixLetter(0)).toBe('B');
+    expect(appendixLetter(24)).toBe('Z');
+    expect(appendixLetter(25)).toBe('AA');
+    expect(appendixLetter(51)).toBe('BA');
+  });
+
+  it('refuses indexes that do not fit two letters', () => {
+    expect(() => appendixLetter(25 + 26 * 26)).toThrow(RangeError);
+  });
+});
+
+describe('assignAppendixLetters', () => {
+  it('letters received documents by type, then document order', () => {
+    const letters = assignAppendixLetters([
+      document({ id: 'ps3-b', sortOrder: 2 }),
+      document({ id: 'warranty', documentType: 'WARRANTY', sortOrder: 0 }),
+      document({ id: 'ps3-a', sortOrder: 1 }),
+      document({ id: 'coc', documentType: 'COC', sortOrder: 3 }),
+      document({ id: 'drawing', documentType: 'DRAWING', sortOrder: 4 }),
+      document({ id: 'ps1-required', documentType: 'PS1', status: 'REQUIRED' }),
+    ]);
+
+    expect(Object.fromEntries(letters)).toEqual({
+      drawing: 'B',
+      coc: 'C',
+      'ps3-a': 'D',
+      'ps3-b': 'E',
+      warranty: 'F',
+      'ps1-required': null,
+    });
+  });
+});
+
+describe('buildAppendixPdf', () => {
+  it('puts a cover page before each document', async () => {
+    const files: Record<string, Buffer> = {
+      'documents/proj-1/aaaa.pdf': await pdfWithPages(3),
+      'documents/proj-1/bbbb.pdf': await pdfWithPages(1),
+    };
+    const readFile = vi.fn(async (key: string) => files[key]);
+
+    const pdf = await buildAppendixPdf([
+      document({ id: 'ps3', appendixLetter: 'C', filePath: 'documents/proj-1/aaaa.pdf' }),
+      document({ id: 'coc', appendixLetter: 'B', documentType: 'COC', description: 'Electrical COC – Ōtaki', filePath: 'documents/proj-1/bbbb.pdf' }),
+    ], readFile);
+
+    expect(await pageCount(pdf)).toBe(2 + 3 + 1);
+    expect(readFile.mock.calls.map(([key]) => key)).toEqual(['documents/proj-1/bbbb.pdf', 'documents/proj-1/aaaa.pdf']);
+  });
+
+  it('keeps the cover when the file cannot be merged', async () => {
+    const readFile = vi.fn(async () => Buffer.from('%PDF-1.4 broken'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const pdf = await buildAppendixPdf([
+      document({ appendixLetter: 'B' }),
+      document({ id: 'docx', appendixLetter: 'C', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' }),
+      document({ id: 'legacy', appendixLetter: 'D', filePath: '/documents/proj-1/legacy.pdf' }),
+      document({ id: 'outstanding', status: 'OUTSTANDING' }),
+    ], readFile);
+
+    expect(await pageCount(pdf)).toBe(3);
+  });
+});
+
+describe('appendPdf', () => {
+  it('adds the appendix pages after the report', async () => {
+    const merged = await appendPdf(await pdfWithPages(4), await pdfWithPages(2));
+
+    expect(await pageCount(merged)).toBe(6);
+  });
+});
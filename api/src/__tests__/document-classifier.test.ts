@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyDocument,
+  classifyUpload,
+  parseDocumentDate,
+  CONFIRMATION_THRESHOLD,
+} from '../services/document-classifier.js';
+import { extractPdfText } from '../services/pdf-text.js';
+
+/** A one-page PDF with a Helvetica text layer, one line per entry */
+function textPdf(lines: string[]): Buffer {
+  const escape = (line: string) => line.replace(/([\\()])/g, '\\$1');
+  const content = ['BT', '/F1 12 Tf', '14 TL', '50 780 Td', ...lines.map((line) => `(${escape(line)}) '`), 'ET'].join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = Buffer.byteLength(pdf);
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = Buffer.byteLength(pdf);
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf);
+}
+
+const ps3 = [
+  'Dry Co Waterproofing Ltd',
+  'PRODUCER STATEMENT - PS3 - CONSTRUCTION',
+  'Issued by: Dry Co Waterproofing Ltd',
+  'Building work: Installation of liquid applied membrane to bathroom and shower',
+  'Date: 12/03/2026',
+  'Statement No: PS3-2026-0042',
+].join('\n');
+
+const coc = [
+  'ELECTRICAL CERTIFICATE OF COMPLIANCE',
+  'Prescribed electrical work: new switchboard and circuits',
+  'Name of electrical worker: Spark Electrical Ltd',
+  'Registration number: E 12345',
+  'Certificate No: COC-88213',
+  'Date of issue: 3 February 2026',
+].join('\n');
+
+describe('classifyDocument', () => {
+  it('recognises a PS3 and pre-fills it', () => {
+    const result = classifyDocument(ps3, 'upload.pdf');
+
+    expect(result).toMatchObject({
+      documentType: 'PS3',
+      needsConfirmation: false,
+      issuer: 'Dry Co Waterproofing Ltd',
+      issuedAt: new Date(Date.UTC(2026, 2, 12)),
+      referenceNumber: 'PS3-2026-0042',
+      description: 'Producer Statement PS3 - Construction (Dry Co Waterproofing Ltd)',
+      linkedClauses: ['E3'],
+    });
+    expect(result.confidence).toBeGreaterThanOrEqual(CONFIRMATION_THRESHOLD);
+  });
+
+  it('recognises an electrical COC and links G9', () => {
+    const result = classifyDocument(coc, 'scan.pdf');
+
+    expect(result).toMatchObject({
+      documentType: 'COC',
+      issuer: 'Spark Electrical Ltd',
+      issuedAt: new Date(Date.UTC(2026, 1, 3)),
+      referenceNumber: 'COC-88213',
+      linkedClauses: ['G9'],
+    });
+    expect(result.signals).toContain('certificate of compliance');
+  });
+
+  it('falls back to the type defaults when no work is named', () => {
+    expect(classifyDocument('PRODUCER STATEMENT - PS3 - CONSTRUCTION', '').linkedClauses)
+      .toEqual(['B1', 'E2', 'E3', 'G12', 'G13']);
+  });
+
+  it('flags a filename-only match for confirmation', () => {
+    const result = classifyDocument('', 'Warranty - roof membrane.jpg');
+
+    expect(result.documentType).toBe('WARRANTY');
+    expect(result.needsConfirmation).toBe(true);
+  });
+
+  it('flags documents that match two types equally', () => {
+    const result = classifyDocument('Tax invoice - warranty and guarantee on repairs', 'scan.pdf');
+
+    expect(result.needsConfirmation).toBe(true);
+  });
+
+  it('returns OTHER with no confidence when nothing matches', () => {
+    expect(classifyDocument('Meeting notes', 'notes.docx')).toMatchObject({
+      documentType: 'OTHER',
+      confidence: 0,
+      needsConfirmation: true,
+      linkedClauses: [],
+    });
+  });
+});
+
+describe('parseDocumentDate', () => {
+  it('reads NZ day-first and written dates', () => {
+    expect(parseDocumentDate('05/11/2025')).toEqual(new Date(Date.UTC(2025, 10, 5)));
+    expect(parseDocumentDate('5.11.25')).toEqual(new Date(Date.UTC(2025, 10, 5)));
+    expect(parseDocumentDate('21st Sept 2025')).toEqual(new Date(Date.UTC(2025, 8, 21)));
+    expect(parseDocumentDate('2025-11-05')).toEqual(new Date(Date.UTC(2025, 10, 5)));
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseDocumentDate('31/02/2026')).toBeUndefined();
+    expect(parseDocumentDate('12/13/2026')).toBeUndefined();
+  });
+});
+
+describe('classifyUpload', () => {
+  it('reads the text layer of a PDF', async () => {
+    const pdf = textPdf(ps3.split('\n'));
+
+    await expect(extractPdfText(pdf)).resolves.toContain('PRODUCER STATEMENT - PS3 - CONSTRUCTION');
+    await expect(classifyUpload(pdf, 'application/pdf', 'upload.pdf')).resolves.toMatchObject({
+      documentType: 'PS3',
+      referenceNumber: 'PS3-2026-0042',
+    });
+  });
+
+  it('treats an unreadable PDF as having no text', async () => {
+    await expect(extractPdfText(Buffer.from('%PDF-1.4 truncated'))).resolves.toBe('');
+  });
+});
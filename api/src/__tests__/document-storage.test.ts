@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  DocumentFileError,
+  MAX_DOCUMENT_SIZE,
+  validateDocumentFile,
+  isStoredDocument,
+  storeDocumentFile,
+  readDocumentFile,
+  deleteDocumentFile,
+  signDocumentDownload,
+  verifyDocumentDownload,
+  documentDownloadUrl,
+} from '../services/document-storage.js';
+
+const pdf = Buffer.from('%PDF-1.7\n%âãÏÓ\n1 0 obj\n<<>>\nendobj\n');
+const docx = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+
+describe('validateDocumentFile', () => {
+  it('accepts PDFs, images and Word documents', () => {
+    expect(() => validateDocumentFile(pdf, 'application/pdf')).not.toThrow();
+    expect(() => validateDocumentFile(Buffer.from([0xff, 0xd8, 0xff, 0xe0]), 'image/jpeg')).not.toThrow();
+    expect(() => validateDocumentFile(
+      docx,
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    )).not.toThrow();
+  });
+
+  it('rejects other file types', () => {
+    expect(() => validateDocumentFile(Buffer.from('MZ'), 'application/x-msdownload')).toThrow(DocumentFileError);
+  });
+
+  it('rejects content that does not match the declared type', () => {
+    expect(() => validateDocumentFile(docx, 'application/pdf')).toThrow('File content is not a valid PDF');
+  });
+
+  it('rejects empty and oversized files', () => {
+    expect(() => validateDocumentFile(Buffer.alloc(0), 'application/pdf')).toThrow('File is empty');
+
+    const large = Buffer.alloc(MAX_DOCUMENT_SIZE + 1);
+    pdf.copy(large);
+    expect(() => validateDocumentFile(large, 'application/pdf')).toThrow('larger than 25MB');
+  });
+});
+
+describe('local document storage', () => {
+  let dir: string;
+  const previous = process.env.UPLOAD_DIR;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'documents-'));
+    process.env.UPLOAD_DIR = dir;
+  });
+
+  afterEach(async () => {
+    process.env.UPLOAD_DIR = previous;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores, reads and deletes a document under its project', async () => {
+    const key = await storeDocumentFile('proj-1', pdf, 'application/pdf');
+
+    expect(key).toMatch(/^documents\/proj-1\/[a-f0-9-]+\.pdf$/);
+    expect(isStoredDocument(key)).toBe(true);
+    await expect(readDocumentFile(key)).resolves.toEqual(pdf);
+
+    await deleteDocumentFile(key);
+    await expect(fs.access(path.join(dir, key))).rejects.toThrow();
+    await expect(deleteDocumentFile(key)).resolves.toBeUndefined();
+  });
+
+  it('never touches paths it did not create', async () => {
+    expect(isStoredDocument('/documents/proj-1/doc-1.pdf')).toBe(false);
+    expect(isStoredDocument('documents/proj-1/../../secrets.pdf')).toBe(false);
+
+    await expect(deleteDocumentFile('../outside.pdf')).resolves.toBeUndefined();
+    await expect(readDocumentFile('../outside.pdf')).rejects.toThrow(DocumentFileError);
+  });
+});
+
+describe('signed download links', () => {
+  const now = Date.UTC(2026, 2, 14, 9, 0, 0);
+
+  it('verifies a link until it expires', () => {
+    const { expires, signature } = signDocumentDownload('doc-1', now);
+
+    expect(verifyDocumentDownload('doc-1', expires, signature, now)).toBe(true);
+    expect(verifyDocumentDownload('doc-1', expires, signature, now + 3601 * 1000)).toBe(false);
+  });
+
+  it('rejects a link for another document or a tampered expiry', () => {
+    const { expires, signature } = signDocumentDownload('doc-1', now);
+
+    expect(verifyDocumentDownload('doc-2', expires, signature, now)).toBe(false);
+    expect(verifyDocumentDownload('doc-1', expires + 3600, signature, now)).toBe(false);
+    expect(verifyDocumentDownload('doc-1', Number.NaN, signature, now)).toBe(false);
+  });
+
+  it('links to the signed download route for local storage', async () => {
+    const url = await documentDownloadUrl('doc-1', 'documents/proj-1/abc.pdf', 'http://localhost:3000');
+
+    expect(url).toMatch(/^http:\/\/localhost:3000\/api\/document-files\/doc-1\?expires=\d+&signature=[\w-]+$/);
+  });
+});
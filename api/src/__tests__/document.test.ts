@@ -4,26 +4,30 @@ import {
   DocumentNotFoundError,
 } from '../services/document.js';
 import type { IDocumentRepository } from '../repositories/interfaces/document.js';
+import type { DocumentClassification } from '../services/document-classifier.js';
 import type { Document } from '@prisma/client';
 
 // Mock repository
 const createMockRepository = (): IDocumentRepository => ({
   create: vi.fn(),
   findById: vi.fn(),
-  findByProjectId: vi.fn(),
+  findByIdInOrganization: vi.fn(),
+  findByProjectId: vi.fn().mockResolvedValue([]),
   findAll: vi.fn(),
   update: vi.fn(),
   delete: vi.fn(),
-  getNextAppendixLetter: vi.fn(),
+  setAppendixLetters: vi.fn(),
   reorder: vi.fn(),
 });
 
 const mockDocument: Document = {
   id: 'doc-1',
   projectId: 'proj-1',
-  appendixLetter: 'A',
+  appendixLetter: 'B',
   filePath: '/documents/proj-1/doc-1.pdf',
   filename: 'PS3-Plumbing.pdf',
+  mimeType: 'application/pdf',
+  fileSize: 102400,
   documentType: 'PS3',
   description: 'Producer Statement for plumbing work',
   issuer: 'ABC Plumbing Ltd',
@@ -32,6 +36,8 @@ const mockDocument: Document = {
   status: 'RECEIVED',
   verified: false,
   linkedClauses: ['G12', 'G13'],
+  classification: null,
+  needsConfirmation: false,
   sortOrder: 0,
   createdAt: new Date(),
   updatedAt: new Date(),
@@ -174,6 +180,37 @@ describe('DocumentService', () => {
     });
   });
 
+  describe('attachFile', () => {
+    it('should store the file details and mark the document received', async () => {
+      const required = { ...mockDocument, status: 'REQUIRED' as const, filePath: 'pending' };
+      const file = {
+        filePath: 'documents/proj-1/0f8fad5b-d9cb-469f-a165-70867728950e.jpg',
+        filename: 'ps3.jpg',
+        mimeType: 'image/jpeg',
+        fileSize: 2048,
+      };
+      vi.mocked(repository.findById).mockResolvedValue(required);
+      vi.mocked(repository.update).mockResolvedValue({ ...required, ...file, status: 'RECEIVED' });
+
+      const result = await service.attachFile('doc-1', file);
+
+      expect(repository.update).toHaveBeenCalledWith('doc-1', { ...file, status: 'RECEIVED' });
+      expect(result.status).toBe('RECEIVED');
+    });
+
+    it('should throw DocumentNotFoundError for non-existent document', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(null);
+
+      await expect(service.attachFile('missing', {
+        filePath: 'documents/proj-1/a.jpg',
+        filename: 'a.jpg',
+        mimeType: 'image/jpeg',
+        fileSize: 1,
+      })).rejects.toThrow(DocumentNotFoundError);
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+  });
+
   describe('markAsOutstanding', () => {
     it('should update status to OUTSTANDING', async () => {
       const outstandingDoc = { ...mockDocument, status: 'OUTSTANDING' as const };
@@ -278,7 +315,8 @@ describe('DocumentService', () => {
     it('should return true when no outstanding/required documents', async () => {
       vi.mocked(repository.findAll)
         .mockResolvedValueOnce([]) // outstanding
-        .mockResolvedValueOnce([]); // required
+        .mockResolvedValueOnce([]) // required
+        .mockResolvedValueOnce([]); // unconfirmed
 
       const result = await service.canFinalize('proj-1');
 
@@ -290,7 +328,8 @@ describe('DocumentService', () => {
       const outstandingDoc = { ...mockDocument, status: 'OUTSTANDING' as const };
       vi.mocked(repository.findAll)
         .mockResolvedValueOnce([outstandingDoc]) // outstanding
-        .mockResolvedValueOnce([]); // required
+        .mockResolvedValueOnce([]) // required
+        .mockResolvedValueOnce([]); // unconfirmed
 
       const result = await service.canFinalize('proj-1');
 
@@ -302,13 +341,90 @@ describe('DocumentService', () => {
       const requiredDoc = { ...mockDocument, status: 'REQUIRED' as const };
       vi.mocked(repository.findAll)
         .mockResolvedValueOnce([]) // outstanding
-        .mockResolvedValueOnce([requiredDoc]); // required
+        .mockResolvedValueOnce([requiredDoc]) // required
+        .mockResolvedValueOnce([]); // unconfirmed
 
       const result = await service.canFinalize('proj-1');
 
       expect(result.canFinalize).toBe(false);
       expect(result.blockers.length).toBeGreaterThan(0);
     });
+
+    it('should block on documents whose type is not confirmed', async () => {
+      const unconfirmedDoc = { ...mockDocument, needsConfirmation: true };
+      vi.mocked(repository.findAll)
+        .mockResolvedValueOnce([]) // outstanding
+        .mockResolvedValueOnce([]) // required
+        .mockResolvedValueOnce([unconfirmedDoc]); // unconfirmed
+
+      const result = await service.canFinalize('proj-1');
+
+      expect(repository.findAll).toHaveBeenLastCalledWith({ projectId: 'proj-1', needsConfirmation: true });
+      expect(result.blockers).toEqual(['PS3: Producer Statement for plumbing work (type not confirmed)']);
+    });
+  });
+
+  describe('createFromUpload', () => {
+    const upload = {
+      projectId: 'proj-1',
+      filePath: 'documents/proj-1/3f2b.pdf',
+      filename: 'scan-0042.pdf',
+      mimeType: 'application/pdf',
+      fileSize: 2048,
+    };
+
+    const classification: DocumentClassification = {
+      documentType: 'COC',
+      confidence: 0.45,
+      needsConfirmation: true,
+      signals: ['certificate of compliance'],
+      description: 'Certificate of Compliance (Spark Electrical Ltd)',
+      issuer: 'Spark Electrical Ltd',
+      issuedAt: new Date('2026-03-12'),
+      referenceNumber: 'COC-88213',
+      linkedClauses: ['G9'],
+    };
+
+    it('pre-fills detected fields and flags an unsure type', async () => {
+      vi.mocked(repository.create).mockResolvedValue(mockDocument);
+
+      await service.createFromUpload(upload, classification);
+
+      expect(repository.create).toHaveBeenCalledWith(expect.objectContaining({
+        documentType: 'COC',
+        description: 'Certificate of Compliance (Spark Electrical Ltd)',
+        issuer: 'Spark Electrical Ltd',
+        issuedAt: new Date('2026-03-12'),
+        referenceNumber: 'COC-88213',
+        linkedClauses: ['G9'],
+        classification: { documentType: 'COC', confidence: 0.45, signals: ['certificate of compliance'] },
+        needsConfirmation: true,
+      }));
+    });
+
+    it('keeps what the uploader entered', async () => {
+      vi.mocked(repository.create).mockResolvedValue(mockDocument);
+
+      await service.createFromUpload({ ...upload, documentType: 'ESC', issuer: 'Office entry' }, classification);
+
+      expect(repository.create).toHaveBeenCalledWith(expect.objectContaining({
+        documentType: 'ESC',
+        issuer: 'Office entry',
+        linkedClauses: ['G9'], // ESC defaults, not the COC suggestion
+        needsConfirmation: false,
+      }));
+    });
+  });
+
+  describe('confirmClassification', () => {
+    it('clears the flag and applies corrections', async () => {
+      vi.mocked(repository.findById).mockResolvedValue({ ...mockDocument, needsConfirmation: true });
+      vi.mocked(repository.update).mockResolvedValue(mockDocument);
+
+      await service.confirmClassification('doc-1', { documentType: 'PS4' });
+
+      expect(repository.update).toHaveBeenCalledWith('doc-1', { documentType: 'PS4', needsConfirmation: false });
+    });
   });
 
   describe('reorder', () => {
@@ -319,5 +435,47 @@ describe('DocumentService', () => {
 
       expect(repository.reorder).toHaveBeenCalledWith('proj-1', ['doc-2', 'doc-1', 'doc-3']);
     });
+
+    it('should reletter appendices in the new order', async () => {
+      vi.mocked(repository.findByProjectId).mockResolvedValue([
+        { ...mockDocument, id: 'doc-2', documentType: 'PS3', sortOrder: 0, appendixLetter: 'C' },
+        { ...mockDocument, id: 'doc-1', documentType: 'PS3', sortOrder: 1, appendixLetter: 'B' },
+        { ...mockDocument, id: 'doc-3', documentType: 'COC', sortOrder: 2, appendixLetter: 'D' },
+      ]);
+
+      await service.reorder('proj-1', ['doc-2', 'doc-1', 'doc-3']);
+
+      // Electrical certificates come before producer statements
+      expect(repository.setAppendixLetters).toHaveBeenCalledWith(new Map([
+        ['doc-1', 'D'],
+        ['doc-3', 'B'],
+      ]));
+    });
+  });
+
+  describe('reletter', () => {
+    it('should only letter received documents and skip unchanged letters', async () => {
+      vi.mocked(repository.findByProjectId).mockResolvedValue([
+        { ...mockDocument, id: 'doc-1', appendixLetter: 'B' },
+        { ...mockDocument, id: 'doc-2', status: 'OUTSTANDING', appendixLetter: 'C' },
+        { ...mockDocument, id: 'doc-3', documentType: 'WARRANTY', appendixLetter: null },
+      ]);
+
+      const documents = await service.reletter('proj-1');
+
+      expect(documents.map((d) => d.appendixLetter)).toEqual(['B', null, 'C']);
+      expect(repository.setAppendixLetters).toHaveBeenCalledWith(new Map([
+        ['doc-2', null],
+        ['doc-3', 'C'],
+      ]));
+    });
+
+    it('should not write when nothing changed', async () => {
+      vi.mocked(repository.findByProjectId).mockResolvedValue([mockDocument]);
+
+      await service.reletter('proj-1');
+
+      expect(repository.setAppendixLetters).not.toHaveBeenCalled();
+    });
   });
 });
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import sharp from 'sharp';
+import { renderDocx } from '../services/docx-renderer.js';
+
+describe('renderDocx', () => {
+  let dir: string;
+  let imagePath: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'docx-renderer-'));
+    imagePath = path.join(dir, 'photo.png');
+    const png = await sharp({
+      create: { width: 800, height: 600, channels: 3, background: { r: 200, g: 100, b: 50 } },
+    }).png().toBuffer();
+    await writeFile(imagePath, png);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should write a Word document with tables and embedded images', async () => {
+    const outputPath = path.join(dir, 'report.docx');
+
+    await renderDocx(
+      [
+        { type: 'cover', title: ['TEST REPORT'], subtitle: '1 Test St', details: [['Client', 'Jane']] },
+        { type: 'heading', text: '1. Summary' },
+        { type: 'fields', rows: [['Job Number', 'J-1']] },
+        { type: 'table', header: ['Clause', 'Observations'], rows: [['E2', 'Dry\nNo leaks']], shadedRows: [0] },
+        { type: 'image', src: `file://${imagePath}`, caption: 'Photograph 1: Deck' },
+      ],
+      outputPath,
+      { headerTitle: 'Test Report' }
+    );
+
+    const file = await readFile(outputPath);
+    // DOCX is a zip archive; entry names are stored uncompressed
+    expect(file.subarray(0, 2).toString()).toBe('PK');
+    expect(file.includes('word/document.xml')).toBe(true);
+    expect(file.includes('word/media/')).toBe(true);
+  });
+
+  it('should still render when an image cannot be loaded', async () => {
+    const outputPath = path.join(dir, 'missing-image.docx');
+
+    await renderDocx(
+      [{ type: 'image', src: path.join(dir, 'does-not-exist.jpg'), caption: 'Photograph 2' }],
+      outputPath,
+      { headerTitle: 'Test Report' }
+    );
+
+    const file = await readFile(outputPath);
+    expect(file.includes('word/document.xml')).toBe(true);
+    expect(file.includes('word/media/')).toBe(false);
+  });
+});
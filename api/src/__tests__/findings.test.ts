@@ -14,6 +14,7 @@ const createMockRepository = (): IInspectionRepository => ({
   findAll: vi.fn(),
   update: vi.fn(),
   delete: vi.fn(),
+  findProject: vi.fn(),
   createFinding: vi.fn(),
   findFindingById: vi.fn(),
   findFindingsByInspection: vi.fn(),
@@ -34,6 +35,8 @@ const mockInspection: Inspection = {
   clientName: 'Test Client',
   inspectorName: 'Test Inspector',
   checklistId: 'nz-ppi',
+  checklistVersionId: null,
+  projectId: null,
   status: 'IN_PROGRESS',
   currentSection: 'exterior',
   metadata: null,
@@ -49,6 +52,8 @@ const mockFinding: Finding = {
   text: 'Crack in foundation',
   severity: 'MAJOR',
   matchedComment: null,
+  item: null,
+  voiceNoteId: null,
   createdAt: new Date(),
   updatedAt: new Date(),
 };
@@ -0,0 +1,196 @@
+/**
+ * Idempotency Key Tests
+ *
+ * A retried create with the same Idempotency-Key must return the first
+ * response without repeating the write.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { type Express, type Request, type Response, type NextFunction } from 'express';
+import request from 'supertest';
+import type { IdempotencyRecord } from '@prisma/client';
+import {
+  IdempotencyService,
+  IdempotencyKeyReuseError,
+  IdempotencyInProgressError,
+  requestHash,
+} from '../services/idempotency.js';
+import { createIdempotencyMiddleware } from '../middleware/idempotency.js';
+import type { IIdempotencyRepository } from '../repositories/interfaces/idempotency.js';
+import type { AuthRequest } from '../middleware/auth.js';
+
+const HOUR = 60 * 60 * 1000;
+
+/** In-memory repository with the unique (userId, key) constraint */
+function createMemoryRepository(): IIdempotencyRepository & { records: IdempotencyRecord[] } {
+  const records: IdempotencyRecord[] = [];
+  return {
+    records,
+    create: vi.fn(async (input) => {
+      if (records.some((r) => r.userId === input.userId && r.key === input.key)) return null;
+      const record: IdempotencyRecord = {
+        id: `rec-${records.length + 1}-${input.key}`,
+        ...input,
+        statusCode: null,
+        body: null,
+        createdAt: new Date(),
+      };
+      records.push(record);
+      return record;
+    }),
+    findByKey: vi.fn(async (userId, key) => records.find((r) => r.userId === userId && r.key === key) ?? null),
+    complete: vi.fn(async (id, statusCode, body) => {
+      const record = records.find((r) => r.id === id)!;
+      record.statusCode = statusCode;
+      record.body = body as IdempotencyRecord['body'];
+    }),
+    delete: vi.fn(async (id) => {
+      const index = records.findIndex((r) => r.id === id);
+      if (index >= 0) records.splice(index, 1);
+    }),
+    deleteExpired: vi.fn(async (before) => {
+      const expired = records.filter((r) => r.expiresAt < before);
+      expired.forEach((r) => records.splice(records.indexOf(r), 1));
+      return expired.length;
+    }),
+  };
+}
+
+describe('IdempotencyService', () => {
+  let repository: ReturnType<typeof createMemoryRepository>;
+  let service: IdempotencyService;
+  const hash = requestHash('POST', '/api/inspections/insp-1/findings', { text: 'Cracked tile' });
+
+  beforeEach(() => {
+    repository = createMemoryRepository();
+    service = new IdempotencyService(repository, 24 * HOUR);
+  });
+
+  it('should claim a new key and replay the stored response', async () => {
+    const claim = await service.begin('user-1', 'msg-1', hash);
+    expect(claim).toEqual({ recordId: expect.any(String) });
+
+    await service.complete((claim as { recordId: string }).recordId, 201, { id: 'find-1', createdAt: new Date(0) });
+
+    expect(await service.begin('user-1', 'msg-1', hash)).toEqual({
+      replay: { statusCode: 201, body: { id: 'find-1', createdAt: '1970-01-01T00:00:00.000Z' } },
+    });
+  });
+
+  it('should keep keys separate per caller', async () => {
+    await service.begin('user-1', 'msg-1', hash);
+    expect(await service.begin('user-2', 'msg-1', hash)).toEqual({ recordId: expect.any(String) });
+  });
+
+  it('should refuse a key reused for a different request', async () => {
+    await service.begin('user-1', 'msg-1', hash);
+    const other = requestHash('POST', '/api/inspections/insp-1/findings', { text: 'Loose handrail' });
+
+    await expect(service.begin('user-1', 'msg-1', other)).rejects.toThrow(IdempotencyKeyReuseError);
+  });
+
+  it('should refuse a retry while the first request is running', async () => {
+    await service.begin('user-1', 'msg-1', hash);
+    await expect(service.begin('user-1', 'msg-1', hash)).rejects.toThrow(IdempotencyInProgressError);
+  });
+
+  it('should run the request again once the key is released or expired', async () => {
+    const now = new Date('2026-03-21T09:00:00Z');
+    const first = await service.begin('user-1', 'msg-1', hash, now);
+    await service.release((first as { recordId: string }).recordId);
+    const second = await service.begin('user-1', 'msg-1', hash, now);
+    await service.complete((second as { recordId: string }).recordId, 201, { id: 'find-1' });
+
+    const later = new Date(now.getTime() + 25 * HOUR);
+    expect(await service.begin('user-1', 'msg-1', hash, later)).toEqual({ recordId: expect.any(String) });
+  });
+
+  it('should purge expired records at most once an hour', async () => {
+    const now = new Date('2026-03-21T09:00:00Z');
+    await service.begin('user-1', 'msg-1', hash, now);
+    await service.begin('user-1', 'msg-2', hash, new Date(now.getTime() + 10 * 60 * 1000));
+    await service.begin('user-1', 'msg-3', hash, new Date(now.getTime() + 2 * HOUR));
+
+    expect(repository.deleteExpired).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('idempotency middleware', () => {
+  let repository: ReturnType<typeof createMemoryRepository>;
+  let app: Express;
+  let created: number;
+
+  beforeEach(() => {
+    repository = createMemoryRepository();
+    created = 0;
+    app = express();
+    app.use(express.json());
+    app.use((req: AuthRequest, _res: Response, next: NextFunction) => {
+      req.userId = (req.headers['x-test-user'] as string | undefined) ?? 'user-1';
+      next();
+    });
+    const idempotent = createIdempotencyMiddleware(new IdempotencyService(repository, 24 * HOUR));
+    app.post('/findings', idempotent, (req: Request, res: Response) => {
+      if (!req.body.text) {
+        res.status(400).json({ error: 'Validation failed' });
+        return;
+      }
+      if (req.body.text === 'boom') {
+        res.status(500).json({ error: 'Internal server error' });
+        return;
+      }
+      created++;
+      res.status(201).json({ id: `find-${created}`, text: req.body.text });
+    });
+  });
+
+  it('should create once and replay retries with the same key', async () => {
+    const first = await request(app).post('/findings').set('Idempotency-Key', 'msg-1').send({ text: 'Cracked tile' });
+    const retry = await request(app).post('/findings').set('Idempotency-Key', 'msg-1').send({ text: 'Cracked tile' });
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(created).toBe(1);
+  });
+
+  it('should leave requests without a key alone', async () => {
+    await request(app).post('/findings').send({ text: 'Cracked tile' });
+    await request(app).post('/findings').send({ text: 'Cracked tile' });
+
+    expect(created).toBe(2);
+    expect(repository.create).not.toHaveBeenCalled();
+  });
+
+  it('should replay client errors but not server errors', async () => {
+    await request(app).post('/findings').set('Idempotency-Key', 'msg-1').send({});
+    const replayed = await request(app).post('/findings').set('Idempotency-Key', 'msg-1').send({});
+    expect(replayed.status).toBe(400);
+    expect(replayed.headers['idempotent-replayed']).toBe('true');
+
+    await request(app).post('/findings').set('Idempotency-Key', 'msg-2').send({ text: 'boom' });
+    expect(repository.records.find((r) => r.key === 'msg-2')).toBeUndefined();
+  });
+
+  it('should reject a key reused for another request or a bad key', async () => {
+    await request(app).post('/findings').set('Idempotency-Key', 'msg-1').send({ text: 'Cracked tile' });
+    const reused = await request(app).post('/findings').set('Idempotency-Key', 'msg-1').send({ text: 'Loose handrail' });
+    const tooLong = await request(app).post('/findings').set('Idempotency-Key', 'x'.repeat(256)).send({ text: 'Cracked tile' });
+
+    expect(reused.status).toBe(422);
+    expect(tooLong.status).toBe(400);
+    expect(created).toBe(1);
+  });
+
+  it('should not replay another caller\'s response', async () => {
+    await request(app).post('/findings').set('Idempotency-Key', 'msg-1').send({ text: 'Cracked tile' });
+    const other = await request(app).post('/findings')
+      .set('Idempotency-Key', 'msg-1')
+      .set('X-Test-User', 'user-2')
+      .send({ text: 'Cracked tile' });
+
+    expect(other.headers['idempotent-replayed']).toBeUndefined();
+    expect(created).toBe(2);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  MoistureReadingService,
+  MoistureReadingNotFoundError,
+  MoistureReadingValidationError,
+} from '../services/moisture-reading.js';
+import { DefectNotFoundError } from '../services/defect.js';
+import type { SiteMeasurementService } from '../services/site-measurement.js';
+import type {
+  IMoistureReadingRepository,
+  MoistureReadingWithRelations,
+} from '../repositories/interfaces/moisture-reading.js';
+import type { IDefectRepository, DefectWithRelations } from '../repositories/interfaces/defect.js';
+
+const createMockRepository = (): IMoistureReadingRepository => ({
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByIdInOrganization: vi.fn(),
+  findByInspectionId: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+});
+
+const createMockDefectRepository = (): IDefectRepository => ({
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByIdInOrganization: vi.fn(),
+  findByInspectionId: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+  renumber: vi.fn(),
+});
+
+const createMockMeasurementService = () => ({
+  create: vi.fn().mockResolvedValue({ id: 'measurement-1' }),
+  update: vi.fn(),
+  delete: vi.fn(),
+}) as unknown as SiteMeasurementService;
+
+const reading = (overrides: Partial<MoistureReadingWithRelations> = {}): MoistureReadingWithRelations => ({
+  id: 'reading-1',
+  inspectionId: 'si-1',
+  defectId: null,
+  measurementId: 'measurement-1',
+  location: 'Bathroom wall',
+  substrate: 'Timber framing',
+  reading: 24,
+  depth: null,
+  equipmentUsed: null,
+  timestamp: new Date(),
+  notes: null,
+  photoId: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  defect: null,
+  measurement: { id: 'measurement-1', result: 'FAIL' },
+  ...overrides,
+});
+
+describe('MoistureReadingService', () => {
+  let repository: IMoistureReadingRepository;
+  let defectRepository: IDefectRepository;
+  let measurementService: SiteMeasurementService;
+  let service: MoistureReadingService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    defectRepository = createMockDefectRepository();
+    measurementService = createMockMeasurementService();
+    service = new MoistureReadingService(repository, defectRepository, measurementService);
+  });
+
+  describe('create', () => {
+    it('mirrors the reading as a moisture content measurement', async () => {
+      vi.mocked(defectRepository.findById).mockResolvedValue({
+        id: 'defect-1',
+        inspectionId: 'si-1',
+        defectNumber: 'D-001',
+        clauseId: 'clause-e2',
+      } as DefectWithRelations);
+      vi.mocked(repository.create).mockResolvedValue(reading());
+
+      await service.create({
+        inspectionId: 'si-1',
+        defectId: 'defect-1',
+        location: 'Bathroom wall',
+        substrate: 'Timber framing',
+        reading: 24,
+      });
+
+      expect(measurementService.create).toHaveBeenCalledWith({
+        inspectionId: 'si-1',
+        type: 'MOISTURE_CONTENT',
+        location: 'Bathroom wall (Timber framing)',
+        value: 24,
+        unit: 'PERCENT',
+        linkedClauseId: 'clause-e2',
+        notes: undefined,
+      });
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ measurementId: 'measurement-1', defectId: 'defect-1' })
+      );
+    });
+
+    it('rejects an unknown defect', async () => {
+      vi.mocked(defectRepository.findById).mockResolvedValue(null);
+
+      await expect(
+        service.create({ inspectionId: 'si-1', defectId: 'missing', location: 'Wall', substrate: 'Timber', reading: 12 })
+      ).rejects.toThrow(DefectNotFoundError);
+      expect(measurementService.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects a defect from another inspection', async () => {
+      vi.mocked(defectRepository.findById).mockResolvedValue({
+        id: 'defect-1',
+        inspectionId: 'si-2',
+        defectNumber: 'D-001',
+        clauseId: null,
+      } as DefectWithRelations);
+
+      await expect(
+        service.create({ inspectionId: 'si-1', defectId: 'defect-1', location: 'Wall', substrate: 'Timber', reading: 12 })
+      ).rejects.toThrow(MoistureReadingValidationError);
+    });
+  });
+
+  describe('update', () => {
+    it('keeps the mirrored measurement in step', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(reading());
+      vi.mocked(repository.update).mockResolvedValue(reading({ reading: 15 }));
+
+      await service.update('reading-1', { reading: 15 });
+
+      expect(measurementService.update).toHaveBeenCalledWith('measurement-1', {
+        value: 15,
+        location: 'Bathroom wall (Timber framing)',
+      });
+    });
+  });
+
+  describe('delete', () => {
+    it('removes the mirrored measurement', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(reading());
+
+      await service.delete('reading-1');
+
+      expect(repository.delete).toHaveBeenCalledWith('reading-1');
+      expect(measurementService.delete).toHaveBeenCalledWith('measurement-1');
+    });
+
+    it('throws when the reading does not exist', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(null);
+
+      await expect(service.delete('missing')).rejects.toThrow(MoistureReadingNotFoundError);
+    });
+  });
+});
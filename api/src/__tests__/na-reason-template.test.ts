@@ -10,6 +10,9 @@ import type { NAReasonTemplate } from '@prisma/client';
 const createMockRepository = (): INAReasonTemplateRepository => ({
   findAll: vi.fn(),
   findById: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
 });
 
 const mockTemplate: NAReasonTemplate = {
@@ -70,4 +73,36 @@ describe('NAReasonTemplateService', () => {
       );
     });
   });
+
+  describe('update', () => {
+    it('should update an existing template', async () => {
+      const updated = { ...mockTemplate, usage: 'Updated usage' };
+      vi.mocked(repository.findById).mockResolvedValue(mockTemplate);
+      vi.mocked(repository.update).mockResolvedValue(updated);
+
+      const result = await service.update('template-1', { usage: 'Updated usage' });
+
+      expect(result).toEqual(updated);
+      expect(repository.update).toHaveBeenCalledWith('template-1', { usage: 'Updated usage' });
+    });
+
+    it('should throw NAReasonTemplateNotFoundError for non-existent template', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(null);
+
+      await expect(service.update('non-existent', { usage: 'x' })).rejects.toThrow(
+        NAReasonTemplateNotFoundError
+      );
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete an existing template', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(mockTemplate);
+
+      await service.delete('template-1');
+
+      expect(repository.delete).toHaveBeenCalledWith('template-1');
+    });
+  });
 });
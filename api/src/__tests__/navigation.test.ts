@@ -3,30 +3,31 @@ import {
   NavigationService,
   InspectionNotFoundError,
   InvalidSectionError,
+  SectionNotApplicableError,
 } from '../services/navigation.js';
+import type { Checklist } from '../services/checklist.js';
+import type { ChecklistDefinitionService } from '../services/checklist-definition.js';
+import { InspectionService } from '../services/inspection.js';
+import { InspectionIncompleteError } from '../services/checklist-validation.js';
 import type { IInspectionRepository } from '../repositories/interfaces/inspection.js';
 import type { Inspection, Finding } from '@prisma/client';
 
-// Mock checklist service
-vi.mock('../services/checklist.js', () => ({
-  checklistService: {
-    getChecklist: vi.fn().mockReturnValue({
-      id: 'nz-ppi',
-      name: 'NZ Pre-Purchase Inspection',
-      version: '1.0',
-      sections: [
-        { id: 'exterior', name: 'Exterior', prompt: 'Check exterior.', items: ['walls', 'roof'] },
-        { id: 'interior', name: 'Interior', prompt: 'Check interior.', items: ['floors', 'ceilings'] },
-        { id: 'roof', name: 'Roof', prompt: 'Check roof.', items: ['tiles', 'gutters'] },
-      ],
-    }),
-    getAllSections: vi.fn().mockReturnValue([
-      { id: 'exterior', name: 'Exterior' },
-      { id: 'interior', name: 'Interior' },
-      { id: 'roof', name: 'Roof' },
-    ]),
-  },
-}));
+const mockChecklist: Checklist = {
+  id: 'nz-ppi',
+  name: 'NZ Pre-Purchase Inspection',
+  version: '1',
+  sections: [
+    { id: 'exterior', name: 'Exterior', prompt: 'Check exterior.', items: ['walls', 'roof'] },
+    { id: 'interior', name: 'Interior', prompt: 'Check interior.', items: ['floors', 'ceilings'] },
+    { id: 'roof', name: 'Roof', prompt: 'Check roof.', items: ['tiles', 'gutters'] },
+  ],
+};
+
+// Mock checklist definitions
+const createMockChecklists = (): ChecklistDefinitionService => ({
+  resolve: vi.fn().mockResolvedValue({ versionId: 'version-1', version: 1, checklist: mockChecklist }),
+  forInspection: vi.fn().mockResolvedValue(mockChecklist),
+}) as unknown as ChecklistDefinitionService;
 
 // Mock repository
 const createMockRepository = (): IInspectionRepository => ({
@@ -35,6 +36,7 @@ const createMockRepository = (): IInspectionRepository => ({
   findAll: vi.fn(),
   update: vi.fn(),
   delete: vi.fn(),
+  findProject: vi.fn(),
   createFinding: vi.fn(),
   findFindingById: vi.fn(),
   findFindingsByInspection: vi.fn(),
@@ -55,6 +57,8 @@ const mockInspection: Inspection = {
   clientName: 'Test Client',
   inspectorName: 'Test Inspector',
   checklistId: 'nz-ppi',
+  checklistVersionId: null,
+  projectId: null,
   status: 'IN_PROGRESS',
   currentSection: 'exterior',
   metadata: null,
@@ -70,17 +74,21 @@ const mockFinding: Finding = {
   text: 'Crack in wall',
   severity: 'MAJOR',
   matchedComment: null,
+  item: null,
+  voiceNoteId: null,
   createdAt: new Date(),
   updatedAt: new Date(),
 };
 
 describe('NavigationService', () => {
   let repository: IInspectionRepository;
+  let checklists: ChecklistDefinitionService;
   let service: NavigationService;
 
   beforeEach(() => {
     repository = createMockRepository();
-    service = new NavigationService(repository);
+    checklists = createMockChecklists();
+    service = new NavigationService(repository, checklists);
     vi.clearAllMocks();
   });
 
@@ -153,6 +161,30 @@ describe('NavigationService', () => {
       expect(result.progress.total).toBe(3);
       expect(result.progress.percentage).toBe(67);
     });
+
+    it('should block completion while checklist requirements are missing', async () => {
+      vi.mocked(checklists.forInspection).mockResolvedValueOnce({
+        id: 'nz-ppi',
+        name: 'NZ Pre-Purchase Inspection',
+        version: '1.0',
+        sections: [
+          { id: 'exterior', name: 'Exterior', prompt: 'Check exterior.', items: [] },
+          { id: 'interior', name: 'Interior', prompt: 'Check interior.', items: [], required: true },
+        ],
+      });
+      vi.mocked(repository.findById).mockResolvedValue(mockInspection);
+      vi.mocked(repository.findFindingsByInspection).mockResolvedValue([
+        mockFinding,
+        { ...mockFinding, id: 'find-2', section: 'roof' },
+      ]);
+
+      const result = await service.getStatus('insp-1');
+
+      expect(result.canComplete).toBe(false);
+      expect(result.missing).toEqual([
+        expect.objectContaining({ type: 'section', sectionId: 'interior' }),
+      ]);
+    });
   });
 
   describe('suggest', () => {
@@ -188,5 +220,144 @@ describe('NavigationService', () => {
       // 2 of 3 sections = 67% > 50%
       expect(result.canComplete).toBe(true);
     });
+
+    it('should skip sections that do not apply to the property', async () => {
+      vi.mocked(checklists.forInspection).mockResolvedValueOnce({
+        ...mockChecklist,
+        sections: [
+          { id: 'exterior', name: 'Exterior', prompt: 'Check exterior.', items: [] },
+          { id: 'subfloor', name: 'Subfloor', prompt: 'Check subfloor.', items: [], when: { has_subfloor: true } },
+          {
+            id: 'interior',
+            name: 'Interior',
+            prompt: 'Check interior.',
+            items: ['Floors', 'Lead paint'],
+            item_conditions: { 'Lead paint': { built_before: 1940 } },
+          },
+        ],
+      });
+      vi.mocked(repository.findById).mockResolvedValue(mockInspection);
+      vi.mocked(repository.findFindingsByInspection).mockResolvedValue([mockFinding]);
+      vi.mocked(repository.findProject).mockResolvedValue({
+        reportType: 'PPI',
+        property: { yearBuilt: 1962, construction: { floorType: 'CONCRETE_SLAB' } },
+      } as never);
+
+      const result = await service.suggest('insp-1');
+
+      expect(result.nextSection).toEqual({ id: 'interior', name: 'Interior', prompt: 'Check interior.', items: ['Floors'] });
+      expect(result.remainingSections).toBe(1);
+      expect(result.skipped).toEqual([{ id: 'subfloor', name: 'Subfloor', reason: 'no subfloor' }]);
+      expect(result.suggestion).toContain('Subfloor (no subfloor)');
+    });
+
+    it('should refuse to navigate to a section that does not apply', async () => {
+      vi.mocked(checklists.forInspection).mockResolvedValueOnce({
+        ...mockChecklist,
+        sections: [
+          { id: 'exterior', name: 'Exterior', prompt: 'Check exterior.', items: [] },
+          { id: 'subfloor', name: 'Subfloor', prompt: 'Check subfloor.', items: [], when: { has_subfloor: true } },
+        ],
+      });
+      vi.mocked(repository.findById).mockResolvedValue({ ...mockInspection, metadata: { has_subfloor: false } });
+
+      await expect(service.navigate('insp-1', 'subfloor')).rejects.toThrow(SectionNotApplicableError);
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('should list outstanding requirements once every section is visited', async () => {
+      vi.mocked(checklists.forInspection).mockResolvedValueOnce({
+        id: 'nz-ppi',
+        name: 'NZ Pre-Purchase Inspection',
+        version: '1.0',
+        metadata: { required: ['weather'], optional: [] },
+        sections: [],
+      });
+      vi.mocked(repository.findById).mockResolvedValue(mockInspection);
+      vi.mocked(repository.findFindingsByInspection).mockResolvedValue([
+        mockFinding,
+        { ...mockFinding, id: 'find-2', section: 'interior' },
+        { ...mockFinding, id: 'find-3', section: 'roof' },
+      ]);
+
+      const result = await service.suggest('insp-1');
+
+      expect(result.canComplete).toBe(false);
+      expect(result.missing).toEqual([{ type: 'metadata', field: 'weather', message: 'Weather is required' }]);
+      expect(result.suggestion).toContain('Weather is required');
+    });
+  });
+});
+
+describe('InspectionService checklist pinning', () => {
+  it('should pin a new inspection to the latest published checklist version', async () => {
+    const repository = createMockRepository();
+    const service = new InspectionService(repository, createMockChecklists());
+
+    await service.create({
+      address: '123 Test St',
+      clientName: 'Test Client',
+      checklistId: 'nz-ppi',
+      currentSection: 'exterior',
+    });
+
+    expect(repository.create).toHaveBeenCalledWith(expect.objectContaining({
+      checklistId: 'nz-ppi',
+      checklistVersionId: 'version-1',
+    }));
+  });
+
+  it('should resolve the checklist from the pinned version', async () => {
+    const repository = createMockRepository();
+    const checklists = createMockChecklists();
+    const service = new NavigationService(repository, checklists);
+    vi.mocked(repository.findById).mockResolvedValue({ ...mockInspection, checklistVersionId: 'version-1' });
+    vi.mocked(repository.findFindingsByInspection).mockResolvedValue([]);
+
+    await service.getStatus('insp-1');
+
+    expect(checklists.forInspection).toHaveBeenCalledWith(
+      expect.objectContaining({ checklistId: 'nz-ppi', checklistVersionId: 'version-1' })
+    );
+  });
+});
+
+describe('InspectionService completion', () => {
+  let repository: IInspectionRepository;
+  let checklists: ChecklistDefinitionService;
+  let service: InspectionService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    checklists = createMockChecklists();
+    service = new InspectionService(repository, checklists);
+    vi.clearAllMocks();
+    vi.mocked(checklists.forInspection).mockResolvedValueOnce({
+      id: 'nz-ppi',
+      name: 'NZ Pre-Purchase Inspection',
+      version: '1.0',
+      metadata: { required: ['weather'], optional: [] },
+      sections: [],
+    });
+  });
+
+  it('should refuse to complete while requirements are missing', async () => {
+    vi.mocked(repository.findById).mockResolvedValue(mockInspection);
+    vi.mocked(repository.findFindingsByInspection).mockResolvedValue([]);
+
+    const error = await service.complete('insp-1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(InspectionIncompleteError);
+    expect(error.missing).toEqual([{ type: 'metadata', field: 'weather', message: 'Weather is required' }]);
+    expect(repository.update).not.toHaveBeenCalled();
+  });
+
+  it('should count metadata sent with the completing update', async () => {
+    vi.mocked(repository.findById).mockResolvedValue(mockInspection);
+    vi.mocked(repository.findFindingsByInspection).mockResolvedValue([]);
+
+    await service.update('insp-1', { status: 'COMPLETED', metadata: { weather: 'Fine' } });
+
+    expect(repository.update).toHaveBeenCalled();
   });
 });
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  OrganizationService,
+  OrganizationAccessError,
+  MembershipConflictError,
+  MembershipNotFoundError,
+  MemberUserNotFoundError,
+} from '../services/organization.js';
+import type { IOrganizationRepository, MembershipWithOrganization } from '../repositories/interfaces/organization.js';
+import type { OrganizationMembership } from '@prisma/client';
+
+const createMockRepository = (): IOrganizationRepository => ({
+  create: vi.fn(),
+  findById: vi.fn(),
+  update: vi.fn(),
+  findMembershipsForUser: vi.fn(),
+  findMembership: vi.fn(),
+  findMembers: vi.fn(),
+  addMember: vi.fn(),
+  updateMemberRole: vi.fn(),
+  removeMember: vi.fn(),
+  countAdmins: vi.fn(),
+  findUserIdByEmail: vi.fn(),
+});
+
+const membership = (overrides: Partial<OrganizationMembership> = {}): OrganizationMembership => ({
+  id: 'membership-1',
+  organizationId: 'org-1',
+  userId: 'user-1',
+  role: 'INSPECTOR',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('OrganizationService', () => {
+  let repository: IOrganizationRepository;
+  let service: OrganizationService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    service = new OrganizationService(repository);
+  });
+
+  describe('resolveMembership', () => {
+    it('uses the requested organisation when the user belongs to it', async () => {
+      vi.mocked(repository.findMembership).mockResolvedValue(membership({ organizationId: 'org-2' }));
+
+      const result = await service.resolveMembership('user-1', 'org-2');
+
+      expect(result.organizationId).toBe('org-2');
+      expect(repository.findMembership).toHaveBeenCalledWith('org-2', 'user-1');
+    });
+
+    it('rejects an organisation the user does not belong to', async () => {
+      vi.mocked(repository.findMembership).mockResolvedValue(null);
+
+      await expect(service.resolveMembership('user-1', 'org-2')).rejects.toThrow(OrganizationAccessError);
+    });
+
+    it('falls back to the first membership', async () => {
+      vi.mocked(repository.findMembershipsForUser).mockResolvedValue([
+        membership() as MembershipWithOrganization,
+        membership({ id: 'membership-2', organizationId: 'org-2' }) as MembershipWithOrganization,
+      ]);
+
+      const result = await service.resolveMembership('user-1');
+
+      expect(result.organizationId).toBe('org-1');
+    });
+
+    it('rejects users without any membership', async () => {
+      vi.mocked(repository.findMembershipsForUser).mockResolvedValue([]);
+
+      await expect(service.resolveMembership('user-1')).rejects.toThrow(OrganizationAccessError);
+    });
+  });
+
+  describe('addMember', () => {
+    it('adds a registered user', async () => {
+      vi.mocked(repository.findUserIdByEmail).mockResolvedValue('user-2');
+      vi.mocked(repository.findMembership).mockResolvedValue(null);
+
+      await service.addMember('org-1', 'new@example.com', 'INSPECTOR');
+
+      expect(repository.addMember).toHaveBeenCalledWith('org-1', 'user-2', 'INSPECTOR');
+    });
+
+    it('rejects an unknown email', async () => {
+      vi.mocked(repository.findUserIdByEmail).mockResolvedValue(null);
+
+      await expect(service.addMember('org-1', 'nobody@example.com', 'INSPECTOR')).rejects.toThrow(MemberUserNotFoundError);
+    });
+
+    it('rejects an existing member', async () => {
+      vi.mocked(repository.findUserIdByEmail).mockResolvedValue('user-1');
+      vi.mocked(repository.findMembership).mockResolvedValue(membership());
+
+      await expect(service.addMember('org-1', 'jane@example.com', 'ORG_ADMIN')).rejects.toThrow(MembershipConflictError);
+      expect(repository.addMember).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateMemberRole', () => {
+    it('refuses to demote the last admin', async () => {
+      vi.mocked(repository.findMembership).mockResolvedValue(membership({ role: 'ORG_ADMIN' }));
+      vi.mocked(repository.countAdmins).mockResolvedValue(1);
+
+      await expect(service.updateMemberRole('org-1', 'user-1', 'INSPECTOR')).rejects.toThrow(MembershipConflictError);
+      expect(repository.updateMemberRole).not.toHaveBeenCalled();
+    });
+
+    it('demotes an admin when another admin remains', async () => {
+      vi.mocked(repository.findMembership).mockResolvedValue(membership({ role: 'ORG_ADMIN' }));
+      vi.mocked(repository.countAdmins).mockResolvedValue(2);
+
+      await service.updateMemberRole('org-1', 'user-1', 'INSPECTOR');
+
+      expect(repository.updateMemberRole).toHaveBeenCalledWith('org-1', 'user-1', 'INSPECTOR');
+    });
+  });
+
+  describe('removeMember', () => {
+    it('throws for a user who is not a member', async () => {
+      vi.mocked(repository.findMembership).mockResolvedValue(null);
+
+      await expect(service.removeMember('org-1', 'user-9')).rejects.toThrow(MembershipNotFoundError);
+    });
+
+    it('refuses to remove the last admin', async () => {
+      vi.mocked(repository.findMembership).mockResolvedValue(membership({ role: 'ORG_ADMIN' }));
+      vi.mocked(repository.countAdmins).mockResolvedValue(1);
+
+      await expect(service.removeMember('org-1', 'user-1')).rejects.toThrow(MembershipConflictError);
+      expect(repository.removeMember).not.toHaveBeenCalled();
+    });
+
+    it('removes a member', async () => {
+      vi.mocked(repository.findMembership).mockResolvedValue(membership());
+
+      await service.removeMember('org-1', 'user-1');
+
+      expect(repository.removeMember).toHaveBeenCalledWith('org-1', 'user-1');
+      expect(repository.countAdmins).not.toHaveBeenCalled();
+    });
+  });
+});
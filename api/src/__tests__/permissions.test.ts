@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { PERMISSIONS, ROLE_PERMISSIONS, hasPermission, permissionsFor, roleWithin } from '../services/permissions.js';
+
+describe('permission table', () => {
+  it('gives organisation admins every permission', () => {
+    expect(permissionsFor('ORG_ADMIN')).toEqual([...PERMISSIONS]);
+  });
+
+  it('only lets reviewers and admins review', () => {
+    const reviewers = Object.entries(ROLE_PERMISSIONS)
+      .filter(([, permissions]) => permissions.includes('projects:review'))
+      .map(([role]) => role);
+
+    expect(reviewers).toEqual(['REVIEWER', 'ORG_ADMIN']);
+  });
+
+  it('limits inspectors to their own inspections', () => {
+    expect(hasPermission('INSPECTOR', 'inspections:write')).toBe(true);
+    expect(hasPermission('INSPECTOR', 'inspections:write:any')).toBe(false);
+  });
+
+  it('lets office admins manage clients but not inspections', () => {
+    expect(hasPermission('OFFICE_ADMIN', 'clients:write')).toBe(true);
+    expect(hasPermission('OFFICE_ADMIN', 'inspections:write')).toBe(false);
+  });
+
+  it('compares roles by the permissions they grant', () => {
+    expect(roleWithin('INSPECTOR', 'REVIEWER')).toBe(true);
+    expect(roleWithin('INSPECTOR', 'INSPECTOR')).toBe(true);
+    expect(roleWithin('ORG_ADMIN', 'INSPECTOR')).toBe(false);
+    expect(roleWithin('OFFICE_ADMIN', 'INSPECTOR')).toBe(false);
+  });
+
+  it('grants nothing without a role', () => {
+    expect(permissionsFor(undefined)).toEqual([]);
+    expect(hasPermission(undefined, 'projects:write')).toBe(false);
+  });
+});
@@ -0,0 +1,366 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  CompanyService,
+  PersonnelService,
+  CompanyInUseError,
+  CompanyNotFoundError,
+  PersonnelNotFoundError,
+  PersonnelConflictError,
+  PersonnelCapabilityError,
+  CredentialValidationError,
+  formatCredentials,
+  validateLBPLicense,
+} from '../services/personnel.js';
+import type {
+  ICompanyRepository,
+  IPersonnelRepository,
+  PersonnelWithCredentials,
+  CredentialWithPersonnel,
+} from '../repositories/interfaces/personnel.js';
+import type { Company, Credential, Report } from '@prisma/client';
+
+const createMockCompanyRepository = (): ICompanyRepository => ({
+  create: vi.fn(),
+  findById: vi.fn(),
+  findAll: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+  countPersonnel: vi.fn(),
+});
+
+const createMockPersonnelRepository = (): IPersonnelRepository => ({
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByUserId: vi.fn(),
+  findByEmail: vi.fn(),
+  findAll: vi.fn(),
+  update: vi.fn(),
+  createCredential: vi.fn(),
+  findCredentialById: vi.fn(),
+  updateCredential: vi.fn(),
+  deleteCredential: vi.fn(),
+  findExpiringCredentials: vi.fn(),
+});
+
+const mockCompany: Company = {
+  id: 'company-1',
+  name: 'Test Surveyors Ltd',
+  logoPath: null,
+  address: null,
+  phone: null,
+  email: null,
+  website: null,
+  organizationId: 'org-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const credential = (overrides: Partial<Credential>): Credential => ({
+  id: 'cred-1',
+  personnelId: 'person-1',
+  type: 'OTHER',
+  membershipCode: null,
+  membershipFull: null,
+  registration: null,
+  licenseNumber: null,
+  qualifications: [],
+  issuedDate: null,
+  expiryDate: null,
+  verified: false,
+  sortOrder: 0,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const personnel = (overrides: Partial<PersonnelWithCredentials> = {}): PersonnelWithCredentials => ({
+  id: 'person-1',
+  name: 'Jane Surveyor',
+  role: 'REGISTERED_BUILDING_SURVEYOR',
+  email: 'jane@example.com',
+  phone: null,
+  mobile: null,
+  active: true,
+  companyId: 'company-1',
+  userId: 'user-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  company: mockCompany,
+  credentials: [],
+  ...overrides,
+});
+
+const report = (overrides: Partial<Report> = {}): Report => ({
+  id: 'report-1',
+  inspectionId: null,
+  projectId: 'proj-1',
+  type: 'COA',
+  format: 'pdf',
+  path: '/tmp/report.pdf',
+  status: 'DRAFT',
+  version: null,
+  preparedById: 'user-1',
+  reviewedById: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('formatCredentials', () => {
+  it('orders registration, memberships by priority, then qualifications', () => {
+    const result = formatCredentials([
+      credential({ type: 'ACADEMIC', qualifications: ['BE(Hons)', 'NZCE'] }),
+      credential({ type: 'ENG_NZ', membershipCode: 'MEngNZ' }),
+      credential({ type: 'NZIBS', membershipCode: 'MNZIBS', registration: 'Registered Building Surveyor' }),
+    ]);
+
+    expect(result).toBe('Registered Building Surveyor, MNZIBS, MEngNZ, BE(Hons), NZCE');
+  });
+
+  it('omits expired credentials', () => {
+    const now = new Date('2026-06-01');
+    const result = formatCredentials([
+      credential({ type: 'NZIBS', membershipCode: 'MNZIBS', expiryDate: new Date('2026-05-01') }),
+      credential({ type: 'ENG_NZ', membershipCode: 'MEngNZ', expiryDate: new Date('2027-01-01') }),
+    ], now);
+
+    expect(result).toBe('MEngNZ');
+  });
+});
+
+describe('validateLBPLicense', () => {
+  it('accepts BP followed by six digits', () => {
+    expect(validateLBPLicense('BP123456')).toBe(true);
+  });
+
+  it('rejects other formats', () => {
+    expect(validateLBPLicense('BP12345')).toBe(false);
+    expect(validateLBPLicense('123456')).toBe(false);
+    expect(validateLBPLicense('bp123456')).toBe(false);
+  });
+});
+
+describe('CompanyService', () => {
+  let repository: ICompanyRepository;
+  let service: CompanyService;
+
+  beforeEach(() => {
+    repository = createMockCompanyRepository();
+    service = new CompanyService(repository);
+  });
+
+  it('refuses to delete a company with personnel', async () => {
+    vi.mocked(repository.findById).mockResolvedValue(mockCompany);
+    vi.mocked(repository.countPersonnel).mockResolvedValue(2);
+
+    await expect(service.delete('org-1', 'company-1')).rejects.toThrow(CompanyInUseError);
+    expect(repository.delete).not.toHaveBeenCalled();
+  });
+
+  it('deletes a company without personnel', async () => {
+    vi.mocked(repository.findById).mockResolvedValue(mockCompany);
+    vi.mocked(repository.countPersonnel).mockResolvedValue(0);
+
+    await service.delete('org-1', 'company-1');
+
+    expect(repository.findById).toHaveBeenCalledWith('org-1', 'company-1');
+    expect(repository.delete).toHaveBeenCalledWith('org-1', 'company-1');
+  });
+
+  it('treats another organisation\'s company as missing', async () => {
+    vi.mocked(repository.findById).mockResolvedValue(null);
+
+    await expect(service.update('org-2', 'company-1', { name: 'Renamed' })).rejects.toThrow(CompanyNotFoundError);
+    expect(repository.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('PersonnelService', () => {
+  let repository: IPersonnelRepository;
+  let companyRepository: ICompanyRepository;
+  let service: PersonnelService;
+
+  beforeEach(() => {
+    repository = createMockPersonnelRepository();
+    companyRepository = createMockCompanyRepository();
+    service = new PersonnelService(repository, companyRepository);
+    vi.mocked(companyRepository.findById).mockResolvedValue(mockCompany);
+  });
+
+  describe('create', () => {
+    it('rejects a duplicate email', async () => {
+      vi.mocked(repository.findByEmail).mockResolvedValue(personnel({ id: 'other' }));
+
+      await expect(
+        service.create('org-1', { name: 'New', role: 'INSPECTOR', email: 'jane@example.com', companyId: 'company-1' })
+      ).rejects.toThrow(PersonnelConflictError);
+    });
+
+    it('rejects a company from another organisation', async () => {
+      vi.mocked(companyRepository.findById).mockResolvedValue(null);
+
+      await expect(
+        service.create('org-2', { name: 'New', role: 'INSPECTOR', email: 'new@example.com', companyId: 'company-1' })
+      ).rejects.toThrow(CompanyNotFoundError);
+      expect(companyRepository.findById).toHaveBeenCalledWith('org-2', 'company-1');
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addCredential', () => {
+    beforeEach(() => {
+      vi.mocked(repository.findById).mockResolvedValue(personnel());
+    });
+
+    it('rejects an invalid LBP license number', async () => {
+      await expect(
+        service.addCredential('org-1', 'person-1', { type: 'LBP', licenseNumber: 'LBP-1' })
+      ).rejects.toThrow(CredentialValidationError);
+      expect(repository.createCredential).not.toHaveBeenCalled();
+    });
+
+    it('requires qualifications for academic credentials', async () => {
+      await expect(
+        service.addCredential('org-1', 'person-1', { type: 'ACADEMIC' })
+      ).rejects.toThrow(CredentialValidationError);
+    });
+
+    it('creates a valid credential', async () => {
+      const created = credential({ type: 'LBP', licenseNumber: 'BP123456' });
+      vi.mocked(repository.createCredential).mockResolvedValue(created);
+
+      const result = await service.addCredential('org-1', 'person-1', { type: 'LBP', licenseNumber: 'BP123456' });
+
+      expect(result).toEqual(created);
+      expect(repository.createCredential).toHaveBeenCalledWith({
+        type: 'LBP',
+        licenseNumber: 'BP123456',
+        personnelId: 'person-1',
+      });
+    });
+
+    it('throws when personnel does not exist', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(null);
+
+      await expect(
+        service.addCredential('org-1', 'missing', { type: 'ACADEMIC', qualifications: ['BSc'] })
+      ).rejects.toThrow(PersonnelNotFoundError);
+    });
+  });
+
+  describe('getExpiringCredentials', () => {
+    it('assigns alert levels by threshold', async () => {
+      const now = new Date('2026-06-01T00:00:00Z');
+      const inDays = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+      const expiring = (id: string, days: number): CredentialWithPersonnel => ({
+        ...credential({ id, expiryDate: inDays(days) }),
+        personnel: { id: 'person-1', name: 'Jane', email: 'jane@example.com', role: 'BUILDING_SURVEYOR', company: { name: 'Test' } },
+      });
+      vi.mocked(repository.findExpiringCredentials).mockResolvedValue([
+        expiring('expired', -3),
+        expiring('urgent', 10),
+        expiring('warning', 45),
+        expiring('info', 80),
+      ]);
+
+      const result = await service.getExpiringCredentials('org-1', [90, 60, 30], now);
+
+      expect(repository.findExpiringCredentials).toHaveBeenCalledWith('org-1', inDays(90));
+      expect(result.map((c) => [c.id, c.level, c.threshold])).toEqual([
+        ['expired', 'EXPIRED', 0],
+        ['urgent', 'URGENT', 30],
+        ['warning', 'WARNING', 60],
+        ['info', 'INFO', 90],
+      ]);
+    });
+  });
+
+  describe('assertCanInspect', () => {
+    it('returns an active inspector', async () => {
+      const inspector = personnel({ role: 'INSPECTOR' });
+      vi.mocked(repository.findById).mockResolvedValue(inspector);
+
+      await expect(service.assertCanInspect('org-1', 'person-1')).resolves.toEqual(inspector);
+    });
+
+    it('rejects admin personnel', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(personnel({ role: 'ADMIN' }));
+
+      await expect(service.assertCanInspect('org-1', 'person-1')).rejects.toThrow(PersonnelCapabilityError);
+    });
+
+    it('rejects inactive personnel', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(personnel({ active: false }));
+
+      await expect(service.assertCanInspect('org-1', 'person-1')).rejects.toThrow(PersonnelCapabilityError);
+    });
+  });
+
+  describe('getSignatureBlock', () => {
+    it('builds author and reviewer blocks with credentials', async () => {
+      const author = personnel({
+        credentials: [credential({ type: 'NZIBS', membershipCode: 'MNZIBS', registration: 'Registered Building Surveyor' })],
+      });
+      const reviewer = personnel({ id: 'person-2', name: 'Rob Reviewer', userId: 'user-2' });
+      vi.mocked(repository.findByUserId).mockImplementation(async (userId) =>
+        userId === 'user-1' ? author : reviewer
+      );
+
+      const block = await service.getSignatureBlock(report({ reviewedById: 'user-2' }));
+
+      expect(block.issues).toEqual([]);
+      expect(block.author?.lines).toEqual([
+        'Report prepared by:',
+        '_________________________',
+        'Jane Surveyor',
+        'Registered Building Surveyor, MNZIBS',
+        'For and on behalf of',
+        'Test Surveyors Ltd',
+      ]);
+      expect(block.reviewer?.lines[0]).toBe('Peer reviewed by:');
+    });
+
+    it('reports a building surveyor authoring a COA as an error', async () => {
+      vi.mocked(repository.findByUserId).mockResolvedValue(personnel({ role: 'BUILDING_SURVEYOR' }));
+
+      const issues = await service.validateReportAssignment(report());
+
+      expect(issues).toEqual([
+        {
+          field: 'preparedById',
+          message: 'Building Surveyor cannot sign COA reports as author',
+          severity: 'error',
+        },
+      ]);
+    });
+
+    it('allows a building surveyor to author a CCC gap report', async () => {
+      vi.mocked(repository.findByUserId).mockResolvedValue(personnel({ role: 'BUILDING_SURVEYOR' }));
+
+      const issues = await service.validateReportAssignment(report({ type: 'CCC_GAP' }));
+
+      expect(issues).toEqual([]);
+    });
+
+    it('reports authors without a personnel record', async () => {
+      vi.mocked(repository.findByUserId).mockResolvedValue(null);
+
+      const issues = await service.validateReportAssignment(report());
+
+      expect(issues).toEqual([
+        { field: 'preparedById', message: 'Author has no personnel record', severity: 'error' },
+      ]);
+    });
+
+    it('warns about expired credentials', async () => {
+      vi.mocked(repository.findByUserId).mockResolvedValue(personnel({
+        credentials: [credential({ type: 'NZIBS', membershipCode: 'MNZIBS', expiryDate: new Date('2020-01-01') })],
+      }));
+
+      const issues = await service.validateReportAssignment(report());
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]?.severity).toBe('warning');
+    });
+  });
+});
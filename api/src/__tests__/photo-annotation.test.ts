@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { annotationSvg, renderAnnotatedPhoto, type PhotoAnnotation } from '../services/photo-annotation.js';
+
+const grey = () => sharp({ create: { width: 400, height: 200, channels: 3, background: '#808080' } }).jpeg().toBuffer();
+
+async function pixel(buffer: Buffer, x: number, y: number): Promise<number[]> {
+  const { data, info } = await sharp(buffer).raw().toBuffer({ resolveWithObject: true });
+  const at = (y * info.width + x) * info.channels;
+  return [data[at], data[at + 1], data[at + 2]];
+}
+
+describe('annotationSvg', () => {
+  it('scales shapes to the image', () => {
+    const svg = annotationSvg([
+      { type: 'ellipse', x: 0.25, y: 0.25, width: 0.5, height: 0.5 },
+      { type: 'rectangle', x: 0.1, y: 0.1, width: 0.2, height: 0.2, color: '#2563eb' },
+      { type: 'arrow', x1: 0, y1: 0, x2: 0.5, y2: 0.5 },
+    ], 1000, 500);
+
+    expect(svg).toContain('width="1000" height="500"');
+    expect(svg).toContain('<ellipse cx="500.0" cy="250.0" rx="250.0" ry="125.0"');
+    expect(svg).toContain('<rect x="100.0" y="50.0" width="200.0" height="100.0" fill="none" stroke="#2563eb"');
+    expect(svg).toContain('<line x1="0.0" y1="0.0" x2="500.0" y2="250.0" stroke="#e11d48"');
+    expect(svg).toContain('<polygon points="500.0,250.0');
+  });
+
+  it('escapes label text', () => {
+    const svg = annotationSvg([{ type: 'label', x: 0.1, y: 0.1, text: 'Gap <5mm & "open"' }], 400, 200);
+
+    expect(svg).toContain('>Gap &lt;5mm &amp; &quot;open&quot;</text>');
+  });
+});
+
+describe('renderAnnotatedPhoto', () => {
+  it('draws the markup onto a copy and leaves the original alone', async () => {
+    const original = await grey();
+    const before = Buffer.from(original);
+    const annotations: PhotoAnnotation[] = [{ type: 'rectangle', x: 0.25, y: 0.25, width: 0.5, height: 0.5 }];
+
+    const annotated = await renderAnnotatedPhoto(original, annotations);
+
+    expect(original.equals(before)).toBe(true);
+    expect(await sharp(annotated).metadata()).toMatchObject({ format: 'jpeg', width: 400, height: 200 });
+    const [r, g, b] = await pixel(annotated, 100, 100);
+    expect(r).toBeGreaterThan(180);
+    expect(g).toBeLessThan(80);
+    expect(b).toBeLessThan(120);
+    expect(await pixel(annotated, 200, 100)).toEqual(await pixel(original, 200, 100));
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import {
+  photoFingerprint,
+  perceptualHash,
+  hammingDistance,
+  NEAR_DUPLICATE_DISTANCE,
+} from '../services/photo-hash.js';
+
+/** A 320×240 left-to-right gradient with a dark block, as JPEG */
+async function scene(block: { left: number; top: number }): Promise<Buffer> {
+  const width = 320;
+  const height = 240;
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inBlock = x >= block.left && x < block.left + 80 && y >= block.top && y < block.top + 80;
+      pixels.fill(inBlock ? 20 : Math.round((x / width) * 200 + 40), (y * width + x) * 3, (y * width + x + 1) * 3);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).jpeg({ quality: 90 }).toBuffer();
+}
+
+describe('perceptualHash', () => {
+  it('survives the re-compression and resizing of a forwarded photo', async () => {
+    const original = await scene({ left: 40, top: 40 });
+    const forwarded = await sharp(original).resize(160).jpeg({ quality: 50 }).toBuffer();
+
+    const distance = hammingDistance(await perceptualHash(original), await perceptualHash(forwarded));
+
+    expect(distance).toBeLessThanOrEqual(NEAR_DUPLICATE_DISTANCE);
+  });
+
+  it('tells different pictures apart', async () => {
+    const distance = hammingDistance(
+      await perceptualHash(await scene({ left: 40, top: 40 })),
+      await perceptualHash(await scene({ left: 200, top: 140 }))
+    );
+
+    expect(distance).toBeGreaterThan(NEAR_DUPLICATE_DISTANCE);
+  });
+});
+
+describe('photoFingerprint', () => {
+  it('hashes the file and the picture', async () => {
+    const fingerprint = await photoFingerprint(await scene({ left: 40, top: 40 }));
+
+    expect(fingerprint.contentHash).toMatch(/^[a-f0-9]{64}$/);
+    expect(fingerprint.perceptualHash).toMatch(/^[a-f0-9]{16}$/);
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', '0000000000000007')).toBe(3);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+  });
+});
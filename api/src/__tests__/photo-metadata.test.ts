@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import {
+  readPhotoMetadata,
+  exifCaptureTime,
+  distanceMetres,
+  photoWarnings,
+} from '../services/photo-metadata.js';
+
+type Entry = [tag: number, type: 'ascii' | 'short' | 'long' | 'rational', value: string | number | number[]];
+
+const TYPE_CODES = { ascii: 2, short: 3, long: 4, rational: 5 };
+
+/** A little-endian TIFF block with IFD0, an Exif IFD and a GPS IFD */
+function exifBlock(image: Entry[], photo: Entry[], gps: Entry[]): Buffer {
+  const ifds = [
+    [...image, [0x8769, 'long', 0], [0x8825, 'long', 0]] as Entry[],
+    photo,
+    gps,
+  ].map((entries) => [...entries].sort((a, b) => a[0] - b[0]));
+  const ifdOffsets: number[] = [];
+  let offset = 8;
+  for (const entries of ifds) {
+    ifdOffsets.push(offset);
+    offset += 2 + entries.length * 12 + 4;
+  }
+  ifds[0].find(([tag]) => tag === 0x8769)![2] = ifdOffsets[1];
+  ifds[0].find(([tag]) => tag === 0x8825)![2] = ifdOffsets[2];
+
+  const data: Buffer[] = [];
+  let dataOffset = offset;
+  const header = Buffer.from([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00]);
+  const tables = ifds.map((entries) => {
+    const table = Buffer.alloc(2 + entries.length * 12 + 4);
+    table.writeUInt16LE(entries.length, 0);
+    entries.forEach(([tag, type, value], i) => {
+      const at = 2 + i * 12;
+      let bytes: Buffer;
+      let count: number;
+      if (type === 'ascii') {
+        bytes = Buffer.from(`${value}\0`, 'latin1');
+        count = bytes.length;
+      } else if (type === 'rational') {
+        const values = value as number[];
+        bytes = Buffer.alloc(values.length * 8);
+        values.forEach((v, j) => {
+          bytes.writeUInt32LE(Math.round(v * 1000), j * 8);
+          bytes.writeUInt32LE(1000, j * 8 + 4);
+        });
+        count = values.length;
+      } else {
+        bytes = Buffer.alloc(4);
+        if (type === 'short') bytes.writeUInt16LE(value as number, 0);
+        else bytes.writeUInt32LE(value as number, 0);
+        count = 1;
+      }
+      table.writeUInt16LE(tag, at);
+      table.writeUInt16LE(TYPE_CODES[type], at + 2);
+      table.writeUInt32LE(count, at + 4);
+      if (bytes.length <= 4) {
+        bytes.copy(table, at + 8);
+      } else {
+        table.writeUInt32LE(dataOffset, at + 8);
+        data.push(bytes);
+        dataOffset += bytes.length;
+      }
+    });
+    return table;
+  });
+
+  return Buffer.concat([header, ...tables, ...data]);
+}
+
+/** A small JPEG carrying the given EXIF block in an APP1 segment */
+async function jpegWithExif(tiff?: Buffer): Promise<Buffer> {
+  const jpeg = await sharp({ create: { width: 4, height: 2, channels: 3, background: '#888888' } }).jpeg().toBuffer();
+  if (!tiff) return jpeg;
+
+  const payload = Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]);
+  const marker = Buffer.from([0xff, 0xe1, 0, 0]);
+  marker.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([jpeg.subarray(0, 2), marker, payload, jpeg.subarray(2)]);
+}
+
+const iphonePhoto = () => jpegWithExif(exifBlock(
+  [
+    [0x010f, 'ascii', 'Apple'],
+    [0x0110, 'ascii', 'iPhone 14 Pro'],
+    [0x0112, 'short', 6],
+  ],
+  [
+    [0x9003, 'ascii', '2026:03:12 10:30:00'],
+    [0x9011, 'ascii', '+13:00'],
+  ],
+  [
+    [0x0001, 'ascii', 'S'],
+    [0x0002, 'rational', [41, 17, 24]],
+    [0x0003, 'ascii', 'E'],
+    [0x0004, 'rational', [174, 46, 33.6]],
+    [0x0006, 'rational', [25.5]],
+  ]
+));
+
+const wellington = { latitude: -41.29, longitude: 174.776 };
+const auckland = { latitude: -36.8485, longitude: 174.7633 };
+
+describe('readPhotoMetadata', () => {
+  it('reads capture time, position, orientation and camera', async () => {
+    const metadata = await readPhotoMetadata(await iphonePhoto());
+
+    expect(metadata).toEqual({
+      takenAt: new Date('2026-03-11T21:30:00Z'),
+      location: { latitude: -41.29, longitude: 174.776, altitude: 25.5 },
+      orientation: 6,
+      camera: 'Apple iPhone 14 Pro',
+    });
+  });
+
+  it('returns nothing for photos without EXIF', async () => {
+    expect(await readPhotoMetadata(await jpegWithExif())).toEqual({ orientation: undefined });
+  });
+});
+
+describe('exifCaptureTime', () => {
+  it('uses the recorded offset', () => {
+    expect(exifCaptureTime(new Date('2026-07-01T10:00:00Z'), '-05:00')).toEqual(new Date('2026-07-01T15:00:00Z'));
+  });
+
+  it('falls back to New Zealand time, including daylight saving', () => {
+    expect(exifCaptureTime(new Date('2026-03-12T10:30:00Z'))).toEqual(new Date('2026-03-11T21:30:00Z'));
+    expect(exifCaptureTime(new Date('2026-07-01T10:00:00Z'))).toEqual(new Date('2026-06-30T22:00:00Z'));
+  });
+});
+
+describe('distanceMetres', () => {
+  it('measures the great-circle distance', () => {
+    expect(distanceMetres(wellington, auckland) / 1000).toBeCloseTo(494, 0);
+    expect(distanceMetres(wellington, wellington)).toBe(0);
+  });
+});
+
+describe('photoWarnings', () => {
+  const inspected = { property: wellington, inspectionDates: [new Date('2026-03-12T00:00:00Z')] };
+
+  it('accepts a photo taken at the property on the inspection day', () => {
+    const metadata = { takenAt: new Date('2026-03-11T21:30:00Z'), location: { latitude: -41.2905, longitude: 174.7762 } };
+
+    expect(photoWarnings(metadata, inspected)).toEqual([]);
+  });
+
+  it('flags photos taken elsewhere or on another day', () => {
+    const metadata = { takenAt: new Date('2026-03-09T21:30:00Z'), location: auckland };
+
+    expect(photoWarnings(metadata, inspected)).toEqual([
+      'Photo location is 493.9 km from the property',
+      'Photo was taken on 2026-03-10, not on the inspection date (2026-03-12)',
+    ]);
+  });
+
+  it('only checks the position of owner photos', () => {
+    const metadata = { takenAt: new Date('2025-01-01T00:00:00Z'), location: wellington };
+
+    expect(photoWarnings(metadata, inspected, 'OWNER')).toEqual([]);
+  });
+
+  it('skips checks it has nothing to compare against', () => {
+    const metadata = { takenAt: new Date('2025-01-01T00:00:00Z'), location: auckland };
+
+    expect(photoWarnings(metadata, { property: { latitude: null, longitude: null }, inspectionDates: [] })).toEqual([]);
+  });
+});
@@ -25,6 +25,7 @@ const createMockRepository = (): IInspectionRepository => ({
   findAll: vi.fn(),
   update: vi.fn(),
   delete: vi.fn(),
+  findProject: vi.fn(),
   createFinding: vi.fn(),
   findFindingById: vi.fn(),
   findFindingsByInspection: vi.fn(),
@@ -46,6 +47,8 @@ const mockFinding: Finding = {
   text: 'Crack in foundation',
   severity: 'MAJOR',
   matchedComment: null,
+  item: null,
+  voiceNoteId: null,
   createdAt: new Date(),
   updatedAt: new Date(),
 };
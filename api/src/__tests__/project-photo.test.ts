@@ -0,0 +1,301 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ProjectPhotoService,
+  ProjectPhotoNotFoundError,
+  DuplicatePhotoError,
+  PhotoMergeError,
+} from '../services/project-photo.js';
+import type { IProjectPhotoRepository } from '../repositories/prisma/project-photo.js';
+import { Prisma, type ProjectPhoto } from '@prisma/client';
+
+const createMockRepository = (): IProjectPhotoRepository => ({
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByIdInOrganization: vi.fn(),
+  findByProjectId: vi.fn(),
+  findUploadContext: vi.fn().mockResolvedValue({ property: null, inspectionDates: [] }),
+  findByContentHash: vi.fn().mockResolvedValue(null),
+  findPerceptualHashes: vi.fn().mockResolvedValue([]),
+  update: vi.fn(),
+  delete: vi.fn(),
+  merge: vi.fn(),
+  reorder: vi.fn(),
+  getNextReportNumber: vi.fn(),
+  renumber: vi.fn(),
+});
+
+const mockPhoto: ProjectPhoto = {
+  id: 'photo-1',
+  projectId: 'proj-1',
+  inspectionId: null,
+  reportNumber: 1,
+  filePath: 'photos/proj-1/photo-1.jpg',
+  thumbnailPath: 'photos/proj-1/photo-1_thumb.jpg',
+  annotatedPath: null,
+  mimeType: 'image/jpeg',
+  fileSize: 2048,
+  caption: 'Crack above lintel',
+  source: 'SITE',
+  takenAt: null,
+  location: null,
+  camera: null,
+  warnings: [],
+  annotations: null,
+  contentHash: null,
+  perceptualHash: null,
+  possibleDuplicateOfId: null,
+  linkedClauses: [],
+  sortOrder: 1,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const upload = {
+  projectId: 'proj-1',
+  inspectionId: 'insp-1',
+  filePath: mockPhoto.filePath,
+  thumbnailPath: 'photos/proj-1/photo-1_thumb.jpg',
+  fileSize: 2048,
+  caption: 'Crack above lintel',
+  source: 'SITE' as const,
+};
+
+describe('ProjectPhotoService', () => {
+  let repository: IProjectPhotoRepository;
+  let service: ProjectPhotoService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    service = new ProjectPhotoService(repository);
+  });
+
+  describe('createFromUpload', () => {
+    it('stores the EXIF capture time, position and camera', async () => {
+      vi.mocked(repository.create).mockResolvedValue(mockPhoto);
+      const takenAt = new Date('2026-03-11T21:30:00Z');
+
+      await service.createFromUpload(upload, {
+        takenAt,
+        location: { latitude: -41.29, longitude: 174.776 },
+        orientation: 6,
+        camera: 'Apple iPhone 14 Pro',
+      });
+
+      expect(repository.findUploadContext).toHaveBeenCalledWith('proj-1', 'insp-1');
+      expect(repository.create).toHaveBeenCalledWith({
+        ...upload,
+        takenAt,
+        location: { latitude: -41.29, longitude: 174.776 },
+        camera: 'Apple iPhone 14 Pro',
+        warnings: [],
+        possibleDuplicateOfId: undefined,
+      });
+    });
+
+    it('records warnings for photos from another site or day', async () => {
+      vi.mocked(repository.findUploadContext).mockResolvedValue({
+        property: { latitude: -41.29, longitude: 174.776 },
+        inspectionDates: [new Date('2026-03-12T00:00:00Z')],
+      });
+      vi.mocked(repository.create).mockResolvedValue(mockPhoto);
+
+      await service.createFromUpload(upload, {
+        takenAt: new Date('2026-02-01T00:00:00Z'),
+        location: { latitude: -36.8485, longitude: 174.7633 },
+      });
+
+      expect(vi.mocked(repository.create).mock.calls[0][0].warnings).toHaveLength(2);
+    });
+
+    it('leaves the fields empty for photos without EXIF', async () => {
+      vi.mocked(repository.create).mockResolvedValue(mockPhoto);
+
+      await service.createFromUpload(upload, {});
+
+      expect(repository.create).toHaveBeenCalledWith(expect.objectContaining({
+        takenAt: undefined,
+        location: undefined,
+        camera: undefined,
+        warnings: [],
+      }));
+    });
+  });
+
+  describe('duplicates', () => {
+    const fingerprinted = { ...upload, contentHash: 'a'.repeat(64), perceptualHash: 'f0f0f0f0f0f0f0f0' };
+
+    it('refuses a file the project already has', async () => {
+      vi.mocked(repository.findByContentHash).mockResolvedValue({ ...mockPhoto, reportNumber: 4 });
+
+      const error = await service.createFromUpload(fingerprinted, {}).catch((e) => e);
+
+      expect(error).toBeInstanceOf(DuplicatePhotoError);
+      expect(error.existing).toMatchObject({ id: 'photo-1', reportNumber: 4 });
+      expect(repository.findByContentHash).toHaveBeenCalledWith('proj-1', 'a'.repeat(64));
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses a file a concurrent upload added first', async () => {
+      vi.mocked(repository.findByContentHash)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ ...mockPhoto, reportNumber: 5 });
+      vi.mocked(repository.create).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+      );
+
+      const error = await service.createFromUpload(fingerprinted, {}).catch((e) => e);
+
+      expect(error).toBeInstanceOf(DuplicatePhotoError);
+      expect(error.existing).toMatchObject({ id: 'photo-1', reportNumber: 5 });
+    });
+
+    it('flags the closest lookalike for review', async () => {
+      vi.mocked(repository.findPerceptualHashes).mockResolvedValue([
+        { id: 'different', reportNumber: 1, perceptualHash: '0f0f0f0f0f0f0f0f' },
+        { id: 'close', reportNumber: 2, perceptualHash: 'f0f0f0f0f0f0f0f3' },
+        { id: 'closest', reportNumber: 3, perceptualHash: 'f0f0f0f0f0f0f0f1' },
+      ]);
+      vi.mocked(repository.create).mockResolvedValue(mockPhoto);
+
+      await service.createFromUpload(fingerprinted, {});
+
+      expect(repository.create).toHaveBeenCalledWith(expect.objectContaining({
+        contentHash: 'a'.repeat(64),
+        perceptualHash: 'f0f0f0f0f0f0f0f0',
+        possibleDuplicateOfId: 'closest',
+      }));
+    });
+
+    it('does not flag photos that only share a few features', async () => {
+      vi.mocked(repository.findPerceptualHashes).mockResolvedValue([
+        { id: 'other', reportNumber: 1, perceptualHash: 'f0f0f0f0f0f0ffff' },
+      ]);
+      vi.mocked(repository.create).mockResolvedValue(mockPhoto);
+
+      await service.createFromUpload(fingerprinted, {});
+
+      expect(vi.mocked(repository.create).mock.calls[0][0].possibleDuplicateOfId).toBeUndefined();
+    });
+  });
+
+  describe('mergeDuplicate', () => {
+    const kept = { ...mockPhoto, id: 'kept', caption: 'Cracked tile at shower base', linkedClauses: ['E3'] };
+    const duplicate = {
+      ...mockPhoto,
+      id: 'duplicate',
+      reportNumber: 5,
+      caption: 'Shower tray from owner',
+      linkedClauses: ['E3', 'G12'],
+      takenAt: new Date('2026-03-12T01:00:00Z'),
+      possibleDuplicateOfId: 'kept',
+    };
+
+    beforeEach(() => {
+      vi.mocked(repository.findById).mockImplementation(async (id) =>
+        ({ kept, duplicate } as Record<string, ProjectPhoto>)[id] ?? null);
+      vi.mocked(repository.merge).mockResolvedValue(kept);
+    });
+
+    it('keeps both captions and all clause links', async () => {
+      const result = await service.mergeDuplicate('duplicate', 'kept');
+
+      expect(repository.merge).toHaveBeenCalledWith('kept', 'duplicate', {
+        caption: 'Cracked tile at shower base; Shower tray from owner',
+        linkedClauses: ['E3', 'G12'],
+        takenAt: new Date('2026-03-12T01:00:00Z'),
+        location: undefined,
+        camera: undefined,
+      });
+      expect(result).toEqual({ photo: kept, removed: duplicate });
+    });
+
+    it('drops the placeholder caption and clears a flag pointing at the removed photo', async () => {
+      await service.mergeDuplicate('kept', 'duplicate');
+
+      expect(repository.merge).toHaveBeenCalledWith('duplicate', 'kept', expect.objectContaining({
+        caption: 'Shower tray from owner; Cracked tile at shower base',
+      }));
+
+      vi.mocked(repository.findById).mockImplementation(async (id) =>
+        ({ kept: { ...kept, caption: 'Photo', possibleDuplicateOfId: 'duplicate' }, duplicate } as Record<string, ProjectPhoto>)[id] ?? null);
+      await service.mergeDuplicate('duplicate', 'kept');
+
+      expect(repository.merge).toHaveBeenLastCalledWith('kept', 'duplicate', expect.objectContaining({
+        caption: 'Shower tray from owner',
+        possibleDuplicateOfId: null,
+      }));
+    });
+
+    it('refuses to merge across projects or into itself', async () => {
+      vi.mocked(repository.findById).mockImplementation(async (id) =>
+        ({ kept: { ...kept, projectId: 'proj-2' }, duplicate } as Record<string, ProjectPhoto>)[id] ?? null);
+
+      await expect(service.mergeDuplicate('duplicate', 'kept')).rejects.toThrow(PhotoMergeError);
+      await expect(service.mergeDuplicate('duplicate', 'duplicate')).rejects.toThrow(PhotoMergeError);
+      expect(repository.merge).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dismissDuplicate', () => {
+    it('clears the flag', async () => {
+      vi.mocked(repository.findById).mockResolvedValue({ ...mockPhoto, possibleDuplicateOfId: 'photo-0' });
+      vi.mocked(repository.update).mockResolvedValue(mockPhoto);
+
+      await service.dismissDuplicate('photo-1');
+
+      expect(repository.update).toHaveBeenCalledWith('photo-1', { possibleDuplicateOfId: null });
+    });
+  });
+
+  describe('findByProjectId', () => {
+    it('passes filters to the repository', async () => {
+      vi.mocked(repository.findByProjectId).mockResolvedValue([mockPhoto]);
+      const filters = { takenFrom: new Date('2026-03-12'), hasLocation: true, flagged: false };
+
+      const result = await service.findByProjectId('proj-1', filters);
+
+      expect(result).toEqual([mockPhoto]);
+      expect(repository.findByProjectId).toHaveBeenCalledWith('proj-1', filters);
+    });
+  });
+
+  describe('saveAnnotations', () => {
+    const annotations = [{ type: 'arrow' as const, x1: 0.1, y1: 0.1, x2: 0.4, y2: 0.5 }];
+
+    it('stores the shapes with the rendered copy', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(mockPhoto);
+      vi.mocked(repository.update).mockResolvedValue(mockPhoto);
+
+      await service.saveAnnotations('photo-1', annotations, 'photos/proj-1/a_annotated.jpg');
+
+      expect(repository.update).toHaveBeenCalledWith('photo-1', {
+        annotations,
+        annotatedPath: 'photos/proj-1/a_annotated.jpg',
+      });
+    });
+
+    it('clears both when there is nothing left to draw', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(mockPhoto);
+      vi.mocked(repository.update).mockResolvedValue(mockPhoto);
+
+      await service.saveAnnotations('photo-1', [], null);
+
+      expect(repository.update).toHaveBeenCalledWith('photo-1', { annotations: null, annotatedPath: null });
+    });
+
+    it('throws when the photo does not exist', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(null);
+
+      await expect(service.saveAnnotations('missing', annotations, null)).rejects.toThrow(ProjectPhotoNotFoundError);
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findById', () => {
+    it('throws when the photo does not exist', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(null);
+
+      await expect(service.findById('missing')).rejects.toThrow(ProjectPhotoNotFoundError);
+    });
+  });
+});
@@ -50,8 +50,11 @@ const mockProperty: Property = {
   territorialAuthority: 'AKL',
   bcNumber: null,
   yearBuilt: 2000,
+  latitude: null,
+  longitude: null,
   siteData: null,
   construction: null,
+  organizationId: 'org-1',
   createdAt: new Date(),
   updatedAt: new Date(),
 };
@@ -64,6 +67,7 @@ const mockClient: Client = {
   mobile: '021 123 4567',
   address: '456 Other St',
   contactPerson: null,
+  organizationId: 'org-1',
   createdAt: new Date(),
   updatedAt: new Date(),
 };
@@ -74,6 +78,7 @@ const mockProject: Project = {
   activity: 'Bathroom renovation',
   reportType: 'COA',
   status: 'DRAFT',
+  organizationId: 'org-1',
   propertyId: 'prop-1',
   clientId: 'client-1',
   createdAt: new Date(),
@@ -82,11 +87,17 @@ const mockProject: Project = {
 
 describe('ProjectService', () => {
   let repository: IProjectRepository;
+  let propertyRepository: IPropertyRepository;
+  let clientRepository: IClientRepository;
   let service: ProjectService;
 
   beforeEach(() => {
     repository = createMockProjectRepository();
-    service = new ProjectService(repository);
+    propertyRepository = createMockPropertyRepository();
+    clientRepository = createMockClientRepository();
+    service = new ProjectService(repository, propertyRepository, clientRepository);
+    vi.mocked(propertyRepository.findById).mockResolvedValue(mockProperty);
+    vi.mocked(clientRepository.findById).mockResolvedValue(mockClient);
   });
 
   describe('create', () => {
@@ -94,7 +105,7 @@ describe('ProjectService', () => {
       vi.mocked(repository.generateJobNumber).mockResolvedValue('260219-001');
       vi.mocked(repository.create).mockResolvedValue(mockProject);
 
-      const result = await service.create({
+      const result = await service.create('org-1', {
         activity: 'Bathroom renovation',
         reportType: 'COA',
         propertyId: 'prop-1',
@@ -102,7 +113,7 @@ describe('ProjectService', () => {
       });
 
       expect(repository.generateJobNumber).toHaveBeenCalled();
-      expect(repository.create).toHaveBeenCalledWith({
+      expect(repository.create).toHaveBeenCalledWith('org-1', {
         activity: 'Bathroom renovation',
         reportType: 'COA',
         propertyId: 'prop-1',
@@ -115,7 +126,7 @@ describe('ProjectService', () => {
     it('should create a project with manual job number', async () => {
       vi.mocked(repository.create).mockResolvedValue(mockProject);
 
-      const result = await service.create({
+      const result = await service.create('org-1', {
         jobNumber: 'MANUAL-001',
         activity: 'Bathroom renovation',
         reportType: 'COA',
@@ -124,7 +135,7 @@ describe('ProjectService', () => {
       });
 
       expect(repository.generateJobNumber).not.toHaveBeenCalled();
-      expect(repository.create).toHaveBeenCalledWith({
+      expect(repository.create).toHaveBeenCalledWith('org-1', {
         jobNumber: 'MANUAL-001',
         activity: 'Bathroom renovation',
         reportType: 'COA',
@@ -133,20 +144,46 @@ describe('ProjectService', () => {
       });
       expect(result).toEqual(mockProject);
     });
+
+    it('should reject a property from another organisation', async () => {
+      vi.mocked(propertyRepository.findById).mockResolvedValue(null);
+
+      await expect(service.create('org-2', {
+        activity: 'Bathroom renovation',
+        reportType: 'COA',
+        propertyId: 'prop-1',
+        clientId: 'client-1',
+      })).rejects.toThrow(PropertyNotFoundError);
+      expect(propertyRepository.findById).toHaveBeenCalledWith('org-2', 'prop-1');
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a client from another organisation', async () => {
+      vi.mocked(clientRepository.findById).mockResolvedValue(null);
+
+      await expect(service.create('org-2', {
+        activity: 'Bathroom renovation',
+        reportType: 'COA',
+        propertyId: 'prop-1',
+        clientId: 'client-1',
+      })).rejects.toThrow(ClientNotFoundError);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
   });
 
   describe('findById', () => {
     it('should return project by id', async () => {
       vi.mocked(repository.findById).mockResolvedValue(mockProject);
 
-      const result = await service.findById('proj-1');
+      const result = await service.findById('org-1', 'proj-1');
       expect(result).toEqual(mockProject);
+      expect(repository.findById).toHaveBeenCalledWith('org-1', 'proj-1');
     });
 
     it('should throw ProjectNotFoundError for non-existent project', async () => {
       vi.mocked(repository.findById).mockResolvedValue(null);
 
-      await expect(service.findById('non-existent')).rejects.toThrow(
+      await expect(service.findById('org-1', 'non-existent')).rejects.toThrow(
         ProjectNotFoundError
       );
     });
@@ -156,14 +193,14 @@ describe('ProjectService', () => {
     it('should return project by job number', async () => {
       vi.mocked(repository.findByJobNumber).mockResolvedValue(mockProject);
 
-      const result = await service.findByJobNumber('260219-001');
+      const result = await service.findByJobNumber('org-1', '260219-001');
       expect(result).toEqual(mockProject);
     });
 
     it('should throw ProjectNotFoundError for non-existent job number', async () => {
       vi.mocked(repository.findByJobNumber).mockResolvedValue(null);
 
-      await expect(service.findByJobNumber('non-existent')).rejects.toThrow(
+      await expect(service.findByJobNumber('org-1', 'non-existent')).rejects.toThrow(
         ProjectNotFoundError
       );
     });
@@ -173,15 +210,16 @@ describe('ProjectService', () => {
     it('should return all projects', async () => {
       vi.mocked(repository.findAll).mockResolvedValue([mockProject]);
 
-      const result = await service.findAll();
+      const result = await service.findAll('org-1');
       expect(result).toEqual([mockProject]);
+      expect(repository.findAll).toHaveBeenCalledWith('org-1', undefined);
     });
 
     it('should filter projects by status', async () => {
       vi.mocked(repository.findAll).mockResolvedValue([mockProject]);
 
-      await service.findAll({ status: 'DRAFT' });
-      expect(repository.findAll).toHaveBeenCalledWith({ status: 'DRAFT' });
+      await service.findAll('org-1', { status: 'DRAFT' });
+      expect(repository.findAll).toHaveBeenCalledWith('org-1', { status: 'DRAFT' });
     });
   });
 
@@ -191,16 +229,28 @@ describe('ProjectService', () => {
       vi.mocked(repository.findById).mockResolvedValue(mockProject);
       vi.mocked(repository.update).mockResolvedValue(updatedProject);
 
-      const result = await service.update('proj-1', { status: 'IN_PROGRESS' });
+      const result = await service.update('org-1', 'proj-1', { status: 'IN_PROGRESS' });
       expect(result.status).toBe('IN_PROGRESS');
+      expect(repository.update).toHaveBeenCalledWith('org-1', 'proj-1', { status: 'IN_PROGRESS' });
     });
 
     it('should throw ProjectNotFoundError for non-existent project', async () => {
       vi.mocked(repository.findById).mockResolvedValue(null);
 
       await expect(
-        service.update('non-existent', { status: 'IN_PROGRESS' })
+        service.update('org-1', 'non-existent', { status: 'IN_PROGRESS' })
+      ).rejects.toThrow(ProjectNotFoundError);
+    });
+
+    it('should not update a project from another organisation', async () => {
+      vi.mocked(repository.findById).mockImplementation(async (organizationId, id) =>
+        organizationId === 'org-1' && id === 'proj-1' ? mockProject : null
+      );
+
+      await expect(
+        service.update('org-2', 'proj-1', { status: 'IN_PROGRESS' })
       ).rejects.toThrow(ProjectNotFoundError);
+      expect(repository.update).not.toHaveBeenCalled();
     });
   });
 
@@ -209,17 +259,26 @@ describe('ProjectService', () => {
       vi.mocked(repository.findById).mockResolvedValue(mockProject);
       vi.mocked(repository.delete).mockResolvedValue();
 
-      await expect(service.delete('proj-1')).resolves.toBeUndefined();
-      expect(repository.delete).toHaveBeenCalledWith('proj-1');
+      await expect(service.delete('org-1', 'proj-1')).resolves.toBeUndefined();
+      expect(repository.delete).toHaveBeenCalledWith('org-1', 'proj-1');
     });
 
     it('should throw ProjectNotFoundError for non-existent project', async () => {
       vi.mocked(repository.findById).mockResolvedValue(null);
 
-      await expect(service.delete('non-existent')).rejects.toThrow(
+      await expect(service.delete('org-1', 'non-existent')).rejects.toThrow(
         ProjectNotFoundError
       );
     });
+
+    it('should not delete a project from another organisation', async () => {
+      vi.mocked(repository.findById).mockImplementation(async (organizationId, id) =>
+        organizationId === 'org-1' && id === 'proj-1' ? mockProject : null
+      );
+
+      await expect(service.delete('org-2', 'proj-1')).rejects.toThrow(ProjectNotFoundError);
+      expect(repository.delete).not.toHaveBeenCalled();
+    });
   });
 });
 
@@ -236,12 +295,15 @@ describe('PropertyService', () => {
     it('should create a property', async () => {
       vi.mocked(repository.create).mockResolvedValue(mockProperty);
 
-      const result = await service.create({
+      const result = await service.create('org-1', {
         streetAddress: '123 Test St',
         territorialAuthority: 'AKL',
       });
 
-      expect(repository.create).toHaveBeenCalled();
+      expect(repository.create).toHaveBeenCalledWith('org-1', {
+        streetAddress: '123 Test St',
+        territorialAuthority: 'AKL',
+      });
       expect(result).toEqual(mockProperty);
     });
   });
@@ -250,14 +312,14 @@ describe('PropertyService', () => {
     it('should return property by id', async () => {
       vi.mocked(repository.findById).mockResolvedValue(mockProperty);
 
-      const result = await service.findById('prop-1');
+      const result = await service.findById('org-1', 'prop-1');
       expect(result).toEqual(mockProperty);
     });
 
     it('should throw PropertyNotFoundError for non-existent property', async () => {
       vi.mocked(repository.findById).mockResolvedValue(null);
 
-      await expect(service.findById('non-existent')).rejects.toThrow(
+      await expect(service.findById('org-1', 'non-existent')).rejects.toThrow(
         PropertyNotFoundError
       );
     });
@@ -267,15 +329,15 @@ describe('PropertyService', () => {
     it('should return all properties', async () => {
       vi.mocked(repository.findAll).mockResolvedValue([mockProperty]);
 
-      const result = await service.findAll();
+      const result = await service.findAll('org-1');
       expect(result).toEqual([mockProperty]);
     });
 
     it('should filter properties by address', async () => {
       vi.mocked(repository.findAll).mockResolvedValue([mockProperty]);
 
-      await service.findAll({ address: 'Test' });
-      expect(repository.findAll).toHaveBeenCalledWith({ address: 'Test' });
+      await service.findAll('org-1', { address: 'Test' });
+      expect(repository.findAll).toHaveBeenCalledWith('org-1', { address: 'Test' });
     });
   });
 
@@ -285,7 +347,7 @@ describe('PropertyService', () => {
       vi.mocked(repository.findById).mockResolvedValue(mockProperty);
       vi.mocked(repository.update).mockResolvedValue(updatedProperty);
 
-      const result = await service.update('prop-1', { suburb: 'Te Atatu' });
+      const result = await service.update('org-1', 'prop-1', { suburb: 'Te Atatu' });
       expect(result.suburb).toBe('Te Atatu');
     });
 
@@ -293,9 +355,20 @@ describe('PropertyService', () => {
       vi.mocked(repository.findById).mockResolvedValue(null);
 
       await expect(
-        service.update('non-existent', { suburb: 'Te Atatu' })
+        service.update('org-1', 'non-existent', { suburb: 'Te Atatu' })
       ).rejects.toThrow(PropertyNotFoundError);
     });
+
+    it('should not update a property from another organisation', async () => {
+      vi.mocked(repository.findById).mockImplementation(async (organizationId) =>
+        organizationId === 'org-1' ? mockProperty : null
+      );
+
+      await expect(
+        service.update('org-2', 'prop-1', { suburb: 'Te Atatu' })
+      ).rejects.toThrow(PropertyNotFoundError);
+      expect(repository.update).not.toHaveBeenCalled();
+    });
   });
 });
 
@@ -312,12 +385,15 @@ describe('ClientService', () => {
     it('should create a client', async () => {
       vi.mocked(repository.create).mockResolvedValue(mockClient);
 
-      const result = await service.create({
+      const result = await service.create('org-1', {
         name: 'John Smith',
         email: 'john@example.com',
       });
 
-      expect(repository.create).toHaveBeenCalled();
+      expect(repository.create).toHaveBeenCalledWith('org-1', {
+        name: 'John Smith',
+        email: 'john@example.com',
+      });
       expect(result).toEqual(mockClient);
     });
   });
@@ -326,14 +402,14 @@ describe('ClientService', () => {
     it('should return client by id', async () => {
       vi.mocked(repository.findById).mockResolvedValue(mockClient);
 
-      const result = await service.findById('client-1');
+      const result = await service.findById('org-1', 'client-1');
       expect(result).toEqual(mockClient);
     });
 
     it('should throw ClientNotFoundError for non-existent client', async () => {
       vi.mocked(repository.findById).mockResolvedValue(null);
 
-      await expect(service.findById('non-existent')).rejects.toThrow(
+      await expect(service.findById('org-1', 'non-existent')).rejects.toThrow(
         ClientNotFoundError
       );
     });
@@ -343,15 +419,15 @@ describe('ClientService', () => {
     it('should return all clients', async () => {
       vi.mocked(repository.findAll).mockResolvedValue([mockClient]);
 
-      const result = await service.findAll();
+      const result = await service.findAll('org-1');
       expect(result).toEqual([mockClient]);
     });
 
     it('should filter clients by name', async () => {
       vi.mocked(repository.findAll).mockResolvedValue([mockClient]);
 
-      await service.findAll({ name: 'John' });
-      expect(repository.findAll).toHaveBeenCalledWith({ name: 'John' });
+      await service.findAll('org-1', { name: 'John' });
+      expect(repository.findAll).toHaveBeenCalledWith('org-1', { name: 'John' });
     });
   });
 
@@ -361,7 +437,7 @@ describe('ClientService', () => {
       vi.mocked(repository.findById).mockResolvedValue(mockClient);
       vi.mocked(repository.update).mockResolvedValue(updatedClient);
 
-      const result = await service.update('client-1', { phone: '09 987 6543' });
+      const result = await service.update('org-1', 'client-1', { phone: '09 987 6543' });
       expect(result.phone).toBe('09 987 6543');
     });
 
@@ -369,8 +445,19 @@ describe('ClientService', () => {
       vi.mocked(repository.findById).mockResolvedValue(null);
 
       await expect(
-        service.update('non-existent', { phone: '09 987 6543' })
+        service.update('org-1', 'non-existent', { phone: '09 987 6543' })
+      ).rejects.toThrow(ClientNotFoundError);
+    });
+
+    it('should not update a client from another organisation', async () => {
+      vi.mocked(repository.findById).mockImplementation(async (organizationId) =>
+        organizationId === 'org-1' ? mockClient : null
+      );
+
+      await expect(
+        service.update('org-2', 'client-1', { phone: '09 987 6543' })
       ).rejects.toThrow(ClientNotFoundError);
+      expect(repository.update).not.toHaveBeenCalled();
     });
   });
 });
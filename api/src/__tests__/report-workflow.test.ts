@@ -0,0 +1,319 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ReportWorkflowService,
+  InvalidTransitionError,
+  TransitionConditionError,
+  ReviewCommentNotFoundError,
+  ReviewCommentStateError,
+  ReportVersionNotFoundError,
+} from '../services/report-workflow.js';
+import { ReportNotFoundError } from '../services/report.js';
+import type { IReportWorkflowRepository } from '../repositories/interfaces/report-workflow.js';
+import type { Report, ReportVersion, ReviewComment } from '@prisma/client';
+
+// Mock repository
+const createMockRepository = (): IReportWorkflowRepository => ({
+  findReportById: vi.fn(),
+  findReportByIdInOrganization: vi.fn(),
+  updateStatus: vi.fn(),
+  findVersions: vi.fn(),
+  findVersion: vi.fn(),
+  findLatestVersion: vi.fn(),
+  createComment: vi.fn(),
+  findCommentById: vi.fn(),
+  findCommentByIdInOrganization: vi.fn(),
+  findComments: vi.fn(),
+  updateComment: vi.fn(),
+  createAuditLog: vi.fn(),
+  findAuditLogs: vi.fn(),
+});
+
+const mockReport: Report = {
+  id: 'report-1',
+  inspectionId: 'insp-1',
+  projectId: null,
+  type: null,
+  format: 'pdf',
+  path: '/tmp/reports/insp-1.pdf',
+  status: 'DRAFT',
+  version: null,
+  preparedById: 'author-1',
+  reviewedById: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const mockVersion: ReportVersion = {
+  id: 'version-1',
+  reportId: 'report-1',
+  version: 'R0',
+  versionNumber: 0,
+  pdfPath: '/tmp/reports/insp-1.pdf',
+  description: 'Initial draft',
+  createdById: 'author-1',
+  createdAt: new Date(),
+};
+
+const mockComment: ReviewComment = {
+  id: 'comment-1',
+  reportId: 'report-1',
+  sectionId: 'exterior',
+  clauseId: null,
+  content: 'Missing photo reference for E2 observation',
+  priority: 'MUST_FIX',
+  status: 'OPEN',
+  authorId: 'reviewer-1',
+  resolvedById: null,
+  resolvedAt: null,
+  resolution: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const author = { userId: 'author-1', ipAddress: '127.0.0.1', userAgent: 'vitest' };
+const reviewer = { userId: 'reviewer-1' };
+
+describe('ReportWorkflowService', () => {
+  let repository: IReportWorkflowRepository;
+  let service: ReportWorkflowService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    service = new ReportWorkflowService(repository);
+    vi.mocked(repository.findComments).mockResolvedValue([]);
+    vi.mocked(repository.updateStatus).mockImplementation(async (id, input) => ({
+      ...mockReport,
+      id,
+      ...input,
+      version: input.version ?? mockReport.version,
+      reviewedById: input.reviewedById ?? null,
+    }));
+  });
+
+  describe('transition', () => {
+    it('should throw ReportNotFoundError for non-existent report', async () => {
+      vi.mocked(repository.findReportById).mockResolvedValue(null);
+
+      await expect(service.transition('non-existent', 'submit', author)).rejects.toThrow(
+        ReportNotFoundError
+      );
+    });
+
+    it('should submit a draft and create version R0', async () => {
+      vi.mocked(repository.findReportById).mockResolvedValue(mockReport);
+      vi.mocked(repository.findLatestVersion).mockResolvedValue(null);
+
+      const result = await service.transition('report-1', 'submit', author);
+
+      expect(result.status).toBe('IN_REVIEW');
+      expect(repository.updateStatus).toHaveBeenCalledWith('report-1', expect.objectContaining({
+        status: 'IN_REVIEW',
+        version: 0,
+      }), {
+        reportId: 'report-1',
+        versionNumber: 0,
+        createdById: 'author-1',
+        pdfPath: '/tmp/reports/insp-1.pdf',
+        description: 'Initial draft',
+      });
+      expect(repository.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'SUBMITTED_FOR_REVIEW',
+        fromStatus: 'DRAFT',
+        toStatus: 'IN_REVIEW',
+        userId: 'author-1',
+        ipAddress: '127.0.0.1',
+        details: { version: 'R0' },
+      }));
+    });
+
+    it('should auto-increment version on resubmit', async () => {
+      vi.mocked(repository.findReportById).mockResolvedValue({ ...mockReport, status: 'REVISION', version: 0 });
+      vi.mocked(repository.findLatestVersion).mockResolvedValue(mockVersion);
+
+      await service.transition('report-1', 'resubmit', author);
+
+      expect(repository.updateStatus).toHaveBeenCalledWith('report-1', expect.objectContaining({
+        version: 1,
+      }), expect.objectContaining({
+        versionNumber: 1,
+        description: 'Review comments addressed',
+      }));
+    });
+
+    it('should reject actions not valid for the current status', async () => {
+      vi.mocked(repository.findReportById).mockResolvedValue(mockReport);
+
+      await expect(service.transition('report-1', 'approve', reviewer)).rejects.toThrow(
+        InvalidTransitionError
+      );
+      expect(repository.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not allow the author to approve their own report', async () => {
+      vi.mocked(repository.findReportById).mockResolvedValue({ ...mockReport, status: 'IN_REVIEW' });
+
+      await expect(service.transition('report-1', 'approve', author)).rejects.toThrow(
+        'Cannot approve own report'
+      );
+    });
+
+    it('should block approval while must-fix comments are open', async () => {
+      vi.mocked(repository.findReportById).mockResolvedValue({ ...mockReport, status: 'IN_REVIEW' });
+      vi.mocked(repository.findComments).mockResolvedValue([mockComment]);
+
+      await expect(service.transition('report-1', 'approve', reviewer)).rejects.toThrow(
+        TransitionConditionError
+      );
+    });
+
+    it('should approve and record the reviewer', async () => {
+      vi.mocked(repository.findReportById).mockResolvedValue({ ...mockReport, status: 'IN_REVIEW' });
+      vi.mocked(repository.findComments).mockResolvedValue([{ ...mockComment, priority: 'SUGGESTION' }]);
+
+      const result = await service.transition('report-1', 'approve', reviewer);
+
+      expect(result.status).toBe('APPROVED');
+      expect(result.reviewedById).toBe('reviewer-1');
+      expect(repository.updateStatus).toHaveBeenCalledWith('report-1', expect.anything(), undefined);
+    });
+
+    it('should require open comments before requesting changes', async () => {
+      vi.mocked(repository.findReportById).mockResolvedValue({ ...mockReport, status: 'IN_REVIEW' });
+
+      await expect(service.transition('report-1', 'requestChanges', reviewer)).rejects.toThrow(
+        TransitionConditionError
+      );
+    });
+
+    it('should require a reason to revert a finalized report', async () => {
+      vi.mocked(repository.findReportById).mockResolvedValue({ ...mockReport, status: 'FINALIZED' });
+
+      await expect(service.transition('report-1', 'revert', author)).rejects.toThrow(
+        TransitionConditionError
+      );
+
+      const result = await service.transition('report-1', 'revert', author, { reason: 'Wrong address' });
+      expect(result.status).toBe('REVISION');
+      expect(repository.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'REVERTED',
+        details: { reason: 'Wrong address' },
+      }));
+    });
+  });
+
+  describe('finalize', () => {
+    it('should refuse to finalize while the finalize check reports blockers', async () => {
+      const finalizeCheck = vi.fn().mockResolvedValue(['PS3: Plumbing PS3 (OUTSTANDING)']);
+      service = new ReportWorkflowService(repository, finalizeCheck);
+      vi.mocked(repository.findReportById).mockResolvedValue({ ...mockReport, status: 'APPROVED' });
+
+      await expect(service.transition('report-1', 'finalize', author)).rejects.toThrow(
+        'Cannot finalize report: PS3: Plumbing PS3 (OUTSTANDING)'
+      );
+      expect(repository.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should finalize when there are no blockers', async () => {
+      service = new ReportWorkflowService(repository, vi.fn().mockResolvedValue([]));
+      vi.mocked(repository.findReportById).mockResolvedValue({ ...mockReport, status: 'APPROVED' });
+
+      const result = await service.transition('report-1', 'finalize', author);
+      expect(result.status).toBe('FINALIZED');
+    });
+  });
+
+  describe('getAvailableActions', () => {
+    it('should list actions for the current status', async () => {
+      vi.mocked(repository.findReportById).mockResolvedValue({ ...mockReport, status: 'FINALIZED' });
+
+      const actions = await service.getAvailableActions('report-1');
+      expect(actions).toEqual(['submitToCouncil', 'revert']);
+    });
+  });
+
+  describe('getVersion', () => {
+    it('should accept version labels and numbers', async () => {
+      vi.mocked(repository.findReportById).mockResolvedValue(mockReport);
+      vi.mocked(repository.findVersion).mockResolvedValue(mockVersion);
+
+      await service.getVersion('report-1', 'R0');
+      await service.getVersion('report-1', '0');
+
+      expect(repository.findVersion).toHaveBeenNthCalledWith(1, 'report-1', 0);
+      expect(repository.findVersion).toHaveBeenNthCalledWith(2, 'report-1', 0);
+    });
+
+    it('should throw ReportVersionNotFoundError for unknown version', async () => {
+      vi.mocked(repository.findReportById).mockResolvedValue(mockReport);
+      vi.mocked(repository.findVersion).mockResolvedValue(null);
+
+      await expect(service.getVersion('report-1', 'R9')).rejects.toThrow(ReportVersionNotFoundError);
+      await expect(service.getVersion('report-1', 'latest')).rejects.toThrow(ReportVersionNotFoundError);
+    });
+  });
+
+  describe('comments', () => {
+    it('should only allow comments on reports in review', async () => {
+      vi.mocked(repository.findReportById).mockResolvedValue(mockReport);
+
+      await expect(
+        service.addComment('report-1', reviewer, { content: 'Note', priority: 'SUGGESTION' })
+      ).rejects.toThrow(ReviewCommentStateError);
+    });
+
+    it('should add a comment and audit it', async () => {
+      vi.mocked(repository.findReportById).mockResolvedValue({ ...mockReport, status: 'IN_REVIEW' });
+      vi.mocked(repository.createComment).mockResolvedValue(mockComment);
+
+      const result = await service.addComment('report-1', reviewer, {
+        content: mockComment.content,
+        priority: 'MUST_FIX',
+        sectionId: 'exterior',
+      });
+
+      expect(result).toEqual(mockComment);
+      expect(repository.createComment).toHaveBeenCalledWith(expect.objectContaining({
+        reportId: 'report-1',
+        authorId: 'reviewer-1',
+      }));
+      expect(repository.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'COMMENT_ADDED',
+        details: { commentId: 'comment-1', priority: 'MUST_FIX' },
+      }));
+    });
+
+    it('should resolve an open comment', async () => {
+      vi.mocked(repository.findCommentById).mockResolvedValue(mockComment);
+      vi.mocked(repository.updateComment).mockResolvedValue({ ...mockComment, status: 'ADDRESSED' });
+
+      const result = await service.resolveComment('comment-1', author, 'Photo 4 referenced');
+
+      expect(result.status).toBe('ADDRESSED');
+      expect(repository.updateComment).toHaveBeenCalledWith('comment-1', expect.objectContaining({
+        status: 'ADDRESSED',
+        resolvedById: 'author-1',
+        resolution: 'Photo 4 referenced',
+      }));
+      expect(repository.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+        reportId: 'report-1',
+        action: 'COMMENT_RESOLVED',
+      }));
+    });
+
+    it('should not close a comment twice', async () => {
+      vi.mocked(repository.findCommentById).mockResolvedValue({ ...mockComment, status: 'DISMISSED' });
+
+      await expect(service.resolveComment('comment-1', author, 'Done')).rejects.toThrow(
+        ReviewCommentStateError
+      );
+    });
+
+    it('should throw ReviewCommentNotFoundError for non-existent comment', async () => {
+      vi.mocked(repository.findCommentById).mockResolvedValue(null);
+
+      await expect(service.dismissComment('non-existent', reviewer)).rejects.toThrow(
+        ReviewCommentNotFoundError
+      );
+    });
+  });
+});
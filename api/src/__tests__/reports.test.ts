@@ -4,6 +4,7 @@ import {
   ReportNotFoundError,
   InspectionNotFoundError,
 } from '../services/report.js';
+import { renderDocx } from '../services/docx-renderer.js';
 import type { IInspectionRepository } from '../repositories/interfaces/inspection.js';
 import type { Report, Inspection, Finding } from '@prisma/client';
 
@@ -33,6 +34,10 @@ vi.mock('node:fs/promises', () => ({
   readFile: vi.fn().mockResolvedValue(Buffer.from('mock pdf')),
 }));
 
+vi.mock('../services/docx-renderer.js', () => ({
+  renderDocx: vi.fn().mockResolvedValue(undefined),
+}));
+
 // Mock repository
 const createMockRepository = (): IInspectionRepository => ({
   create: vi.fn(),
@@ -40,6 +45,7 @@ const createMockRepository = (): IInspectionRepository => ({
   findAll: vi.fn(),
   update: vi.fn(),
   delete: vi.fn(),
+  findProject: vi.fn(),
   createFinding: vi.fn(),
   findFindingById: vi.fn(),
   findFindingsByInspection: vi.fn(),
@@ -60,6 +66,8 @@ const mockInspection: Inspection = {
   clientName: 'Test Client',
   inspectorName: 'Test Inspector',
   checklistId: 'nz-ppi',
+  checklistVersionId: null,
+  projectId: null,
   status: 'COMPLETED',
   currentSection: 'exterior',
   metadata: null,
@@ -75,6 +83,8 @@ const mockFinding: Finding = {
   text: 'Crack in foundation',
   severity: 'MAJOR',
   matchedComment: null,
+  item: null,
+  voiceNoteId: null,
   createdAt: new Date(),
   updatedAt: new Date(),
 };
@@ -82,9 +92,16 @@ const mockFinding: Finding = {
 const mockReport: Report = {
   id: 'report-1',
   inspectionId: 'insp-1',
+  projectId: null,
+  type: null,
   format: 'pdf',
   path: '/tmp/reports/insp-1.pdf',
+  status: 'DRAFT',
+  version: null,
+  preparedById: null,
+  reviewedById: null,
   createdAt: new Date(),
+  updatedAt: new Date(),
 };
 
 describe('ReportService', () => {
@@ -112,6 +129,34 @@ describe('ReportService', () => {
       expect(result).toEqual(mockReport);
     });
 
+    it('should generate a DOCX report when requested', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(mockInspection);
+      vi.mocked(repository.findFindingsByInspection).mockResolvedValue([mockFinding]);
+      vi.mocked(repository.findPhotosByFinding).mockResolvedValue([]);
+      vi.mocked(repository.createReport).mockResolvedValue({ ...mockReport, format: 'docx' });
+
+      await service.generate('insp-1', 'user-1', 'docx');
+
+      expect(renderDocx).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          expect.objectContaining({ type: 'heading', text: '4. Exterior' }),
+          expect.objectContaining({
+            type: 'table',
+            header: ['Finding', 'Severity'],
+            rows: [['Crack in foundation', 'MAJOR']],
+          }),
+        ]),
+        '/tmp/reports/insp-1.docx',
+        { headerTitle: 'Pre-Purchase Inspection Report' }
+      );
+      expect(repository.createReport).toHaveBeenCalledWith({
+        inspectionId: 'insp-1',
+        format: 'docx',
+        path: '/tmp/reports/insp-1.docx',
+        preparedById: 'user-1',
+      });
+    });
+
     it('should throw InspectionNotFoundError for non-existent inspection', async () => {
       vi.mocked(repository.findById).mockResolvedValue(null);
 
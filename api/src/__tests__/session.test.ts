@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  SessionService,
+  SessionAuthError,
+  SessionNotFoundError,
+  SESSION_TTL_MS,
+  REFRESH_GRACE_MS,
+  describeUserAgent,
+  hashRefreshToken,
+} from '../services/session.js';
+import type { ISessionRepository } from '../repositories/interfaces/session.js';
+import type { Session } from '@prisma/client';
+
+const createMockRepository = (): ISessionRepository => ({
+  create: vi.fn(),
+  findById: vi.fn(),
+  findByRefreshTokenHash: vi.fn(),
+  findByPreviousRefreshTokenHash: vi.fn(),
+  findActiveByUserId: vi.fn(),
+  rotate: vi.fn(),
+  revoke: vi.fn(),
+  revokeAllForUser: vi.fn(),
+});
+
+const now = new Date('2026-03-09T09:00:00Z');
+
+const session = (overrides: Partial<Session> = {}): Session => ({
+  id: 'session-1',
+  userId: 'user-1',
+  refreshTokenHash: hashRefreshToken('refresh-1'),
+  previousRefreshTokenHash: null,
+  userAgent: null,
+  ipAddress: null,
+  createdAt: now,
+  lastUsedAt: now,
+  expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+  revokedAt: null,
+  ...overrides,
+});
+
+describe('describeUserAgent', () => {
+  it('names the device and browser', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (iPad; CPU OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1'
+    )).toBe('iPad, Safari');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36'
+    )).toBe('Windows, Chrome');
+  });
+
+  it('falls back for unknown clients', () => {
+    expect(describeUserAgent(undefined)).toBe('Unknown device');
+    expect(describeUserAgent('curl/8.4.0')).toBe('Unknown device');
+  });
+});
+
+describe('SessionService', () => {
+  let repository: ISessionRepository;
+  let service: SessionService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    service = new SessionService(repository);
+  });
+
+  describe('create', () => {
+    it('stores a hash of the refresh token', async () => {
+      vi.mocked(repository.create).mockResolvedValue(session());
+
+      const { refreshToken } = await service.create('user-1', { userAgent: 'Safari', ipAddress: '10.0.0.1' }, now);
+
+      expect(repository.create).toHaveBeenCalledWith({
+        userId: 'user-1',
+        refreshTokenHash: hashRefreshToken(refreshToken),
+        userAgent: 'Safari',
+        ipAddress: '10.0.0.1',
+        expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+      });
+    });
+  });
+
+  describe('refresh', () => {
+    it('rotates the refresh token and extends the session', async () => {
+      vi.mocked(repository.findByRefreshTokenHash).mockResolvedValue(session());
+      vi.mocked(repository.rotate).mockImplementation(async (id, input) => session({ id, ...input }));
+
+      const result = await service.refresh('refresh-1', now);
+
+      expect(result.refreshToken).not.toBe('refresh-1');
+      expect(repository.rotate).toHaveBeenCalledWith('session-1', {
+        refreshTokenHash: hashRefreshToken(result.refreshToken),
+        previousRefreshTokenHash: hashRefreshToken('refresh-1'),
+        lastUsedAt: now,
+        expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+      });
+    });
+
+    it('revokes the session when a rotated token is replayed', async () => {
+      const rotatedAt = new Date(now.getTime() - 5 * 60 * 1000);
+      vi.mocked(repository.findByRefreshTokenHash).mockResolvedValue(null);
+      vi.mocked(repository.findByPreviousRefreshTokenHash).mockResolvedValue(session({ lastUsedAt: rotatedAt }));
+
+      await expect(service.refresh('refresh-1', now)).rejects.toThrow(SessionAuthError);
+      expect(repository.revoke).toHaveBeenCalledWith('session-1', now);
+    });
+
+    it('shares one rotation between concurrent and repeated refreshes with the same token', async () => {
+      vi.mocked(repository.findByRefreshTokenHash).mockResolvedValue(session());
+      vi.mocked(repository.rotate).mockImplementation(async (id, input) => session({ id, ...input }));
+
+      const [first, second] = await Promise.all([service.refresh('refresh-1', now), service.refresh('refresh-1', now)]);
+      const later = await service.refresh('refresh-1', new Date(now.getTime() + REFRESH_GRACE_MS - 1));
+
+      expect(second.refreshToken).toBe(first.refreshToken);
+      expect(later.refreshToken).toBe(first.refreshToken);
+      expect(repository.rotate).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not revoke the session for a token rotated within the grace window', async () => {
+      vi.mocked(repository.findByRefreshTokenHash).mockResolvedValue(null);
+      vi.mocked(repository.findByPreviousRefreshTokenHash).mockResolvedValue(session({ lastUsedAt: now }));
+
+      await expect(service.refresh('refresh-1', new Date(now.getTime() + 1000))).rejects.toThrow(SessionAuthError);
+      expect(repository.revoke).not.toHaveBeenCalled();
+    });
+
+    it('rejects a refresh whose token was rotated by another request meanwhile', async () => {
+      vi.mocked(repository.findByRefreshTokenHash).mockResolvedValue(session());
+      vi.mocked(repository.rotate).mockResolvedValue(null);
+
+      await expect(service.refresh('refresh-1', now)).rejects.toThrow('Invalid refresh token');
+      expect(repository.revoke).not.toHaveBeenCalled();
+    });
+
+    it('rejects revoked and expired sessions', async () => {
+      vi.mocked(repository.findByRefreshTokenHash).mockResolvedValueOnce(session({ revokedAt: now }));
+      await expect(service.refresh('refresh-1', now)).rejects.toThrow('Session has ended');
+
+      vi.mocked(repository.findByRefreshTokenHash).mockResolvedValueOnce(session({ expiresAt: now }));
+      await expect(service.refresh('refresh-1', now)).rejects.toThrow('Session has ended');
+
+      expect(repository.rotate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertActive', () => {
+    it('rejects a session belonging to another user', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(session({ userId: 'user-2' }));
+
+      await expect(service.assertActive('session-1', 'user-1', now)).rejects.toThrow(SessionAuthError);
+    });
+
+    it('rejects a revoked session', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(session({ revokedAt: now }));
+
+      await expect(service.assertActive('session-1', 'user-1', now)).rejects.toThrow(SessionAuthError);
+    });
+  });
+
+  describe('findForUser', () => {
+    it('describes each device and marks the current session', async () => {
+      vi.mocked(repository.findActiveByUserId).mockResolvedValue([
+        session({ id: 'session-1', userAgent: 'Mozilla/5.0 (iPad; CPU OS 17_2 like Mac OS X) Safari/604.1' }),
+        session({ id: 'session-2' }),
+      ]);
+
+      const sessions = await service.findForUser('user-1', 'session-2', now);
+
+      expect(sessions.map((s) => [s.id, s.device, s.current])).toEqual([
+        ['session-1', 'iPad, Safari', false],
+        ['session-2', 'Unknown device', true],
+      ]);
+    });
+  });
+
+  describe('revoke', () => {
+    it('does not revoke another user\'s session', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(session({ userId: 'user-2' }));
+
+      await expect(service.revoke('user-1', 'session-1', now)).rejects.toThrow(SessionNotFoundError);
+      expect(repository.revoke).not.toHaveBeenCalled();
+    });
+
+    it('revokes every session for a user', async () => {
+      vi.mocked(repository.revokeAllForUser).mockResolvedValue(3);
+
+      await expect(service.revokeAll('user-1', now)).resolves.toBe(3);
+      expect(repository.revokeAllForUser).toHaveBeenCalledWith('user-1', now);
+    });
+  });
+});
@@ -2,8 +2,12 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
   SiteInspectionService,
   SiteInspectionNotFoundError,
+  InspectorRequiredError,
 } from '../services/site-inspection.js';
+import { PersonnelCapabilityError, type PersonnelService } from '../services/personnel.js';
+import { ProjectNotFoundError } from '../services/project.js';
 import type { ISiteInspectionRepository } from '../repositories/interfaces/site-inspection.js';
+import type { IProjectRepository } from '../repositories/interfaces/project.js';
 import type { SiteInspection } from '@prisma/client';
 
 // Mock repository
@@ -18,6 +22,10 @@ const createMockRepository = (): ISiteInspectionRepository => ({
   hardDelete: vi.fn(),
 });
 
+const createMockProjectRepository = () => ({
+  findById: vi.fn(),
+}) as unknown as IProjectRepository;
+
 const mockSiteInspection: SiteInspection = {
   id: 'insp-1',
   projectId: 'proj-1',
@@ -31,6 +39,7 @@ const mockSiteInspection: SiteInspection = {
   methodology: null,
   areasNotAccessed: null,
   inspectorName: 'Test Inspector',
+  inspectorId: null,
   lbpOnSite: null,
   lbpLicenseSighted: null,
   lbpLicenseNumber: null,
@@ -47,18 +56,21 @@ const mockSiteInspection: SiteInspection = {
 
 describe('SiteInspectionService', () => {
   let repository: ISiteInspectionRepository;
+  let projectRepository: IProjectRepository;
   let service: SiteInspectionService;
 
   beforeEach(() => {
     repository = createMockRepository();
-    service = new SiteInspectionService(repository);
+    projectRepository = createMockProjectRepository();
+    service = new SiteInspectionService(repository, projectRepository);
+    vi.mocked(projectRepository.findById).mockResolvedValue({ id: 'proj-1' } as never);
   });
 
   describe('create', () => {
     it('should create a site inspection', async () => {
       vi.mocked(repository.create).mockResolvedValue(mockSiteInspection);
 
-      const result = await service.create({
+      const result = await service.create('org-1', {
         projectId: 'proj-1',
         type: 'SIMPLE',
         stage: 'INS_05',
@@ -66,23 +78,84 @@ describe('SiteInspectionService', () => {
         inspectorName: 'Test Inspector',
       });
 
+      expect(projectRepository.findById).toHaveBeenCalledWith('org-1', 'proj-1');
       expect(repository.create).toHaveBeenCalled();
       expect(result).toEqual(mockSiteInspection);
     });
+
+    it('should reject a project from another organisation', async () => {
+      vi.mocked(projectRepository.findById).mockResolvedValue(null);
+
+      await expect(service.create('org-2', {
+        projectId: 'proj-1',
+        type: 'SIMPLE',
+        stage: 'INS_05',
+        date: new Date('2026-02-19'),
+        inspectorName: 'Test Inspector',
+      })).rejects.toThrow(ProjectNotFoundError);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should default inspectorName from the assigned personnel', async () => {
+      const personnelService = {
+        assertCanInspect: vi.fn().mockResolvedValue({ id: 'person-1', name: 'Jane Surveyor' }),
+      } as unknown as PersonnelService;
+      service = new SiteInspectionService(repository, projectRepository, personnelService);
+      vi.mocked(repository.create).mockResolvedValue(mockSiteInspection);
+
+      await service.create('org-1', {
+        projectId: 'proj-1',
+        type: 'SIMPLE',
+        stage: 'INS_05',
+        date: new Date('2026-02-19'),
+        inspectorId: 'person-1',
+      });
+
+      expect(personnelService.assertCanInspect).toHaveBeenCalledWith('org-1', 'person-1');
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ inspectorId: 'person-1', inspectorName: 'Jane Surveyor' })
+      );
+    });
+
+    it('should reject personnel who cannot inspect', async () => {
+      const personnelService = {
+        assertCanInspect: vi.fn().mockRejectedValue(new PersonnelCapabilityError('Admin cannot carry out inspections')),
+      } as unknown as PersonnelService;
+      service = new SiteInspectionService(repository, projectRepository, personnelService);
+
+      await expect(service.create('org-1', {
+        projectId: 'proj-1',
+        type: 'SIMPLE',
+        stage: 'INS_05',
+        date: new Date('2026-02-19'),
+        inspectorId: 'person-1',
+      })).rejects.toThrow(PersonnelCapabilityError);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should require an inspector', async () => {
+      await expect(service.create('org-1', {
+        projectId: 'proj-1',
+        type: 'SIMPLE',
+        stage: 'INS_05',
+        date: new Date('2026-02-19'),
+      })).rejects.toThrow(InspectorRequiredError);
+    });
   });
 
   describe('findById', () => {
     it('should return inspection by id', async () => {
       vi.mocked(repository.findById).mockResolvedValue(mockSiteInspection);
 
-      const result = await service.findById('insp-1');
+      const result = await service.findById('org-1', 'insp-1');
       expect(result).toEqual(mockSiteInspection);
+      expect(repository.findById).toHaveBeenCalledWith('org-1', 'insp-1');
     });
 
     it('should throw SiteInspectionNotFoundError for non-existent inspection', async () => {
       vi.mocked(repository.findById).mockResolvedValue(null);
 
-      await expect(service.findById('non-existent')).rejects.toThrow(
+      await expect(service.findById('org-1', 'non-existent')).rejects.toThrow(
         SiteInspectionNotFoundError
       );
     });
@@ -92,8 +165,9 @@ describe('SiteInspectionService', () => {
     it('should return all inspections for project', async () => {
       vi.mocked(repository.findByProjectId).mockResolvedValue([mockSiteInspection]);
 
-      const result = await service.findByProjectId('proj-1');
+      const result = await service.findByProjectId('org-1', 'proj-1');
       expect(result).toEqual([mockSiteInspection]);
+      expect(repository.findByProjectId).toHaveBeenCalledWith('org-1', 'proj-1');
     });
   });
 
@@ -101,22 +175,22 @@ describe('SiteInspectionService', () => {
     it('should return all inspections', async () => {
       vi.mocked(repository.findAll).mockResolvedValue([mockSiteInspection]);
 
-      const result = await service.findAll();
+      const result = await service.findAll('org-1');
       expect(result).toEqual([mockSiteInspection]);
     });
 
     it('should filter by status', async () => {
       vi.mocked(repository.findAll).mockResolvedValue([mockSiteInspection]);
 
-      await service.findAll({ status: 'DRAFT' });
-      expect(repository.findAll).toHaveBeenCalledWith({ status: 'DRAFT' });
+      await service.findAll('org-1', { status: 'DRAFT' });
+      expect(repository.findAll).toHaveBeenCalledWith('org-1', { status: 'DRAFT' });
     });
 
     it('should filter by type', async () => {
       vi.mocked(repository.findAll).mockResolvedValue([mockSiteInspection]);
 
-      await service.findAll({ type: 'SIMPLE' });
-      expect(repository.findAll).toHaveBeenCalledWith({ type: 'SIMPLE' });
+      await service.findAll('org-1', { type: 'SIMPLE' });
+      expect(repository.findAll).toHaveBeenCalledWith('org-1', { type: 'SIMPLE' });
     });
   });
 
@@ -126,7 +200,7 @@ describe('SiteInspectionService', () => {
       vi.mocked(repository.findById).mockResolvedValue(mockSiteInspection);
       vi.mocked(repository.update).mockResolvedValue(updatedInspection);
 
-      const result = await service.update('insp-1', { status: 'IN_PROGRESS' });
+      const result = await service.update('org-1', 'insp-1', { status: 'IN_PROGRESS' });
       expect(result.status).toBe('IN_PROGRESS');
     });
 
@@ -134,8 +208,19 @@ describe('SiteInspectionService', () => {
       vi.mocked(repository.findById).mockResolvedValue(null);
 
       await expect(
-        service.update('non-existent', { status: 'IN_PROGRESS' })
+        service.update('org-1', 'non-existent', { status: 'IN_PROGRESS' })
+      ).rejects.toThrow(SiteInspectionNotFoundError);
+    });
+
+    it('should not update an inspection from another organisation', async () => {
+      vi.mocked(repository.findById).mockImplementation(async (organizationId) =>
+        organizationId === 'org-1' ? mockSiteInspection : null
+      );
+
+      await expect(
+        service.update('org-2', 'insp-1', { status: 'IN_PROGRESS' })
       ).rejects.toThrow(SiteInspectionNotFoundError);
+      expect(repository.update).not.toHaveBeenCalled();
     });
   });
 
@@ -145,15 +230,15 @@ describe('SiteInspectionService', () => {
       vi.mocked(repository.findById).mockResolvedValue(mockSiteInspection);
       vi.mocked(repository.softDelete).mockResolvedValue(deletedInspection);
 
-      const result = await service.softDelete('insp-1');
+      const result = await service.softDelete('org-1', 'insp-1');
       expect(result.deletedAt).not.toBeNull();
-      expect(repository.softDelete).toHaveBeenCalledWith('insp-1');
+      expect(repository.softDelete).toHaveBeenCalledWith('org-1', 'insp-1');
     });
 
     it('should throw SiteInspectionNotFoundError for non-existent inspection', async () => {
       vi.mocked(repository.findById).mockResolvedValue(null);
 
-      await expect(service.softDelete('non-existent')).rejects.toThrow(
+      await expect(service.softDelete('org-1', 'non-existent')).rejects.toThrow(
         SiteInspectionNotFoundError
       );
     });
@@ -166,14 +251,14 @@ describe('SiteInspectionService', () => {
       vi.mocked(repository.findById).mockResolvedValue(deletedInspection);
       vi.mocked(repository.restore).mockResolvedValue(restoredInspection);
 
-      const result = await service.restore('insp-1');
+      const result = await service.restore('org-1', 'insp-1');
       expect(result.deletedAt).toBeNull();
     });
 
     it('should throw error when inspection is not deleted', async () => {
       vi.mocked(repository.findById).mockResolvedValue(mockSiteInspection);
 
-      await expect(service.restore('insp-1')).rejects.toThrow(
+      await expect(service.restore('org-1', 'insp-1')).rejects.toThrow(
         'Site inspection insp-1 is not deleted'
       );
     });
@@ -181,7 +266,7 @@ describe('SiteInspectionService', () => {
     it('should throw SiteInspectionNotFoundError for non-existent inspection', async () => {
       vi.mocked(repository.findById).mockResolvedValue(null);
 
-      await expect(service.restore('non-existent')).rejects.toThrow(
+      await expect(service.restore('org-1', 'non-existent')).rejects.toThrow(
         SiteInspectionNotFoundError
       );
     });
@@ -193,7 +278,7 @@ describe('SiteInspectionService', () => {
       vi.mocked(repository.findById).mockResolvedValue(mockSiteInspection);
       vi.mocked(repository.update).mockResolvedValue(completedInspection);
 
-      const result = await service.complete('insp-1');
+      const result = await service.complete('org-1', 'insp-1');
       expect(result.status).toBe('COMPLETED');
     });
   });
@@ -208,7 +293,7 @@ describe('SiteInspectionService', () => {
       vi.mocked(repository.findById).mockResolvedValue(mockSiteInspection);
       vi.mocked(repository.update).mockResolvedValue(navigatedInspection);
 
-      const result = await service.navigate('insp-1', 'interior');
+      const result = await service.navigate('org-1', 'insp-1', 'interior');
       expect(result.currentSection).toBe('interior');
       expect(result.status).toBe('IN_PROGRESS');
     });
@@ -224,7 +309,7 @@ describe('SiteInspectionService', () => {
       vi.mocked(repository.findById).mockResolvedValue(mockSiteInspection);
       vi.mocked(repository.update).mockResolvedValue(navigatedInspection);
 
-      const result = await service.navigate('insp-1', 'B1', 'clause-b1');
+      const result = await service.navigate('org-1', 'insp-1', 'B1', 'clause-b1');
       expect(result.currentSection).toBe('B1');
       expect(result.currentClauseId).toBe('clause-b1');
     });
@@ -7,6 +7,7 @@ function createMockRepository(): ISiteMeasurementRepository {
   return {
     create: vi.fn(),
     findById: vi.fn(),
+    findByIdInOrganization: vi.fn(),
     findByInspectionId: vi.fn(),
     update: vi.fn(),
     delete: vi.fn(),
@@ -0,0 +1,254 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  TemplateService,
+  TemplateLockedError,
+  TemplateNotFoundError,
+  TemplateValidationError,
+  TemplateVersionNotFoundError,
+  extractVariables,
+  renderContent,
+} from '../services/template.js';
+import { ProjectNotFoundError } from '../services/project.js';
+import type {
+  ITemplateRepository,
+  TemplateVariableData,
+} from '../repositories/interfaces/template.js';
+import type { Template, TemplateVersion } from '@prisma/client';
+
+const createMockRepository = (): ITemplateRepository => ({
+  create: vi.fn(),
+  findById: vi.fn(),
+  findAll: vi.fn(),
+  update: vi.fn(),
+  saveVersion: vi.fn(),
+  findVersions: vi.fn(),
+  findVersion: vi.fn(),
+  loadVariableData: vi.fn(),
+});
+
+const template = (overrides: Partial<Template> = {}): Template => ({
+  id: 'template-1',
+  name: 'Introduction - COA',
+  category: 'SECTION',
+  reportType: 'COA',
+  section: 'introduction',
+  content: 'Assessment of the building works at {{project.address}}.',
+  variables: ['project.address'],
+  active: true,
+  locked: false,
+  version: 2,
+  createdById: null,
+  changeNotes: null,
+  organizationId: 'org-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const variableData = {
+  id: 'proj-1',
+  jobNumber: 'J-2026-001',
+  activity: 'Unconsented deck',
+  reportType: 'COA',
+  property: {
+    streetAddress: '12 Kauri Road',
+    suburb: 'Titirangi',
+    city: 'Auckland',
+    lotDp: null,
+    territorialAuthority: 'AKL',
+    yearBuilt: null,
+  },
+  client: { name: 'Jane Smith', email: null },
+  siteInspections: [{ date: new Date('2026-02-01'), inspectorName: 'Alex Surveyor', weather: null }],
+} as unknown as TemplateVariableData;
+
+describe('extractVariables', () => {
+  it('returns each variable once in order of appearance', () => {
+    expect(extractVariables('{{client.name}} at {{ project.address }} for {{client.name}}')).toEqual([
+      'client.name',
+      'project.address',
+    ]);
+  });
+
+  it('ignores single-brace placeholders', () => {
+    expect(extractVariables('The CoA works do not affect {element}.')).toEqual([]);
+  });
+});
+
+describe('renderContent', () => {
+  it('substitutes known variables', () => {
+    const result = renderContent('Works at {{project.address}}.', { 'project.address': '12 Kauri Road' });
+
+    expect(result).toEqual({ content: 'Works at 12 Kauri Road.', warnings: [] });
+  });
+
+  it('leaves unknown and empty variables in place with warnings', () => {
+    const result = renderContent('{{property.lotDp}} / {{company.name}}', { 'property.lotDp': null });
+
+    expect(result.content).toBe('{{property.lotDp}} / {{company.name}}');
+    expect(result.warnings).toEqual([
+      'Variable "property.lotDp" has no value',
+      'Unknown variable: "company.name"',
+    ]);
+  });
+
+  it('does not treat inherited object properties as variables', () => {
+    const result = renderContent('A {{constructor}} B {{toString}}', {});
+
+    expect(result.content).toBe('A {{constructor}} B {{toString}}');
+    expect(result.warnings).toEqual(['Unknown variable: "constructor"', 'Unknown variable: "toString"']);
+  });
+});
+
+describe('TemplateService', () => {
+  let repository: ITemplateRepository;
+  let service: TemplateService;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    service = new TemplateService(repository);
+  });
+
+  describe('create', () => {
+    it('stores the extracted variables', async () => {
+      vi.mocked(repository.create).mockResolvedValue(template());
+
+      await service.create('org-1', {
+        name: 'Limitations',
+        category: 'SECTION',
+        content: 'Prepared for {{client.name}} ({{project.reportType}}).',
+      });
+
+      expect(repository.create).toHaveBeenCalledWith('org-1', expect.objectContaining({
+        variables: ['client.name', 'project.reportType'],
+      }));
+    });
+
+    it('rejects unknown variables', async () => {
+      await expect(
+        service.create('org-1', { name: 'Bad', category: 'BLOCK', content: 'Signed by {{author.name}}' })
+      ).rejects.toThrow(TemplateValidationError);
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects inherited object property names', async () => {
+      await expect(
+        service.create('org-1', { name: 'Bad', category: 'BLOCK', content: '{{constructor}} {{__proto__}} {{hasOwnProperty}}' })
+      ).rejects.toThrow('Unknown template variables: constructor, __proto__, hasOwnProperty');
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('creates a new version when content changes', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(template());
+      vi.mocked(repository.saveVersion).mockResolvedValue(template({ version: 3 }));
+
+      await service.update('org-1', 'template-1', { content: 'Works at {{project.address}} for {{client.name}}.', changeNotes: 'Add client' }, 'user-1');
+
+      expect(repository.saveVersion).toHaveBeenCalledWith('org-1', 'template-1', {
+        version: 3,
+        content: 'Works at {{project.address}} for {{client.name}}.',
+        variables: ['project.address', 'client.name'],
+        changeNotes: 'Add client',
+        createdById: 'user-1',
+      });
+    });
+
+    it('updates metadata in place without a new version', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(template());
+
+      await service.update('org-1', 'template-1', { name: 'Introduction' });
+
+      expect(repository.update).toHaveBeenCalledWith('org-1', 'template-1', { name: 'Introduction' });
+      expect(repository.saveVersion).not.toHaveBeenCalled();
+    });
+
+    it('refuses to edit a locked template', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(template({ locked: true }));
+
+      await expect(service.update('org-1', 'template-1', { content: 'New' })).rejects.toThrow(TemplateLockedError);
+    });
+
+    it('treats another organisation\'s template as missing', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(null);
+
+      await expect(service.update('org-2', 'template-1', { name: 'Mine now' })).rejects.toThrow(TemplateNotFoundError);
+      expect(repository.findById).toHaveBeenCalledWith('org-2', 'template-1');
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rollback', () => {
+    it('restores an earlier version as a new version', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(template());
+      vi.mocked(repository.findVersion).mockResolvedValue({
+        id: 'version-1',
+        templateId: 'template-1',
+        version: 1,
+        content: 'Original {{project.address}}',
+        variables: ['project.address'],
+        changeNotes: null,
+        createdById: null,
+        createdAt: new Date(),
+      } as TemplateVersion);
+
+      await service.rollback('org-1', 'template-1', 1, 'user-1');
+
+      expect(repository.saveVersion).toHaveBeenCalledWith('org-1', 'template-1', {
+        version: 3,
+        content: 'Original {{project.address}}',
+        variables: ['project.address'],
+        changeNotes: 'Rolled back to version 1',
+        createdById: 'user-1',
+      });
+    });
+
+    it('throws when the version does not exist', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(template());
+      vi.mocked(repository.findVersion).mockResolvedValue(null);
+
+      await expect(service.rollback('org-1', 'template-1', 9)).rejects.toThrow(TemplateVersionNotFoundError);
+    });
+  });
+
+  describe('findDefaults', () => {
+    it('prefers report-specific templates over generic ones per section', async () => {
+      vi.mocked(repository.findAll).mockResolvedValue([
+        template({ id: 'generic-intro', reportType: null, section: 'introduction' }),
+        template({ id: 'coa-intro', reportType: 'COA', section: 'introduction' }),
+        template({ id: 'ccc-intro', reportType: 'CCC_GAP', section: 'introduction' }),
+        template({ id: 'methodology', reportType: null, section: 'methodology' }),
+      ]);
+
+      const defaults = await service.findDefaults('org-1', 'COA');
+
+      expect(repository.findAll).toHaveBeenCalledWith('org-1', { category: 'SECTION' });
+      expect(defaults.map((t) => t.id)).toEqual(['coa-intro', 'methodology']);
+    });
+  });
+
+  describe('render', () => {
+    it('resolves variables from project data', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(template({
+        content: '{{project.address}}, inspected {{inspection.date}} for {{client.name}} ({{project.reportType}})',
+      }));
+      vi.mocked(repository.loadVariableData).mockResolvedValue(variableData);
+
+      const result = await service.render('org-1', 'template-1', 'proj-1');
+
+      expect(result.content).toBe(
+        '12 Kauri Road, Titirangi, Auckland, inspected 01 February 2026 for Jane Smith (Certificate of Acceptance)'
+      );
+      expect(result.warnings).toEqual([]);
+      expect(repository.loadVariableData).toHaveBeenCalledWith('org-1', 'proj-1');
+    });
+
+    it('throws when the project does not exist', async () => {
+      vi.mocked(repository.findById).mockResolvedValue(template());
+      vi.mocked(repository.loadVariableData).mockResolvedValue(null);
+
+      await expect(service.render('org-1', 'template-1', 'missing')).rejects.toThrow(ProjectNotFoundError);
+    });
+  });
+});
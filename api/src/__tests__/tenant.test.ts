@@ -0,0 +1,802 @@
+/**
+ * Tenant Isolation Tests
+ *
+ * Projects, site inspections and the records under them owned by another
+ * organisation must be indistinguishable from missing ones, and
+ * organisation roles limit what members may change.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+type Where = Record<string, unknown> & { project?: { organizationId?: string } };
+
+const {
+  projects,
+  inspections,
+  companies,
+  templates,
+  memberships,
+  personnel,
+  mockProject,
+  mockSiteInspection,
+  mockCompany,
+  mockTemplate,
+  voiceNotes,
+  mockVoiceNote,
+  records,
+  recordModels,
+} = vi.hoisted(() => {
+  const projects = [
+    { id: 'proj-a', organizationId: 'org-a', jobNumber: '260301-001' },
+    { id: 'proj-b', organizationId: 'org-b', jobNumber: '260301-002' },
+  ];
+  const inspections = [
+    { id: 'insp-a', projectId: 'proj-a', inspectorId: 'person-inspector', deletedAt: null },
+  ];
+  const companies = [
+    { id: 'company-a', organizationId: 'org-a', name: 'A Surveyors' },
+  ];
+  const templates = [
+    { id: 'template-a', organizationId: 'org-a', name: 'Introduction', content: 'Intro', version: 1, locked: false },
+  ];
+  const voiceNotes = [
+    { id: 'voice-a', organizationId: 'org-a', uploadedById: 'user-inspector', path: '/tmp/voice-notes/voice-a.ogg' },
+    // Linked by ID from findings, checklist items and clause reviews, which take UUIDs
+    { id: '5b0e8f3c-1d2a-4c6b-9e7f-0a1b2c3d4e5f', organizationId: 'org-a', uploadedById: 'user-inspector', path: '' },
+  ];
+  const memberships = [
+    { organizationId: 'org-a', userId: 'user-a', role: 'ORG_ADMIN' },
+    { organizationId: 'org-b', userId: 'user-b', role: 'ORG_ADMIN' },
+    { organizationId: 'org-a', userId: 'user-inspector', role: 'INSPECTOR' },
+    { organizationId: 'org-a', userId: 'user-other-inspector', role: 'INSPECTOR' },
+    { organizationId: 'org-a', userId: 'user-reviewer', role: 'REVIEWER' },
+    { organizationId: 'org-a', userId: 'user-office', role: 'OFFICE_ADMIN' },
+  ];
+  const personnel = [
+    { id: 'person-inspector', userId: 'user-inspector' },
+    { id: 'person-other-inspector', userId: 'user-other-inspector' },
+  ];
+  // Records addressed by their own ID, all in org-a
+  const records: Record<string, Array<Record<string, string>>> = {
+    document: [{ id: 'doc-a', projectId: 'proj-a' }],
+    projectPhoto: [{ id: 'photo-a', projectId: 'proj-a' }],
+    clauseReview: [{ id: 'review-a', inspectionId: 'insp-a' }],
+    checklistItem: [{ id: 'item-a', inspectionId: 'insp-a' }],
+    siteMeasurement: [{ id: 'measurement-a', inspectionId: 'insp-a' }],
+    defect: [{ id: 'defect-a', inspectionId: 'insp-a' }],
+    moistureReading: [{ id: 'reading-a', inspectionId: 'insp-a' }],
+    costEstimate: [{ id: 'estimate-a', projectId: 'proj-a' }],
+    costLineItem: [{ id: 'line-a', estimateId: 'estimate-a' }],
+    buildingHistory: [{ id: 'history-a', propertyId: 'prop-a' }],
+    report: [
+      { id: 'report-a', projectId: 'proj-a' },
+      // Generated from an original /inspections inspection with no project
+      { id: 'report-legacy', inspectionId: 'legacy-insp', preparedById: 'user-inspector' },
+    ],
+    reviewComment: [{ id: 'comment-a', reportId: 'report-a' }],
+  };
+  const recordModels = Object.fromEntries(
+    Object.keys(records).map((model) => [model, {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    }])
+  );
+  return {
+    projects,
+    inspections,
+    companies,
+    templates,
+    voiceNotes,
+    memberships,
+    personnel,
+    mockProject: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    mockSiteInspection: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    mockCompany: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    mockTemplate: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    mockVoiceNote: {
+      findFirst: vi.fn(),
+      delete: vi.fn(),
+    },
+    records,
+    recordModels,
+  };
+});
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: class {
+    project = mockProject;
+    siteInspection = mockSiteInspection;
+    company = mockCompany;
+    template = mockTemplate;
+    voiceNote = mockVoiceNote;
+    document = recordModels.document;
+    projectPhoto = recordModels.projectPhoto;
+    clauseReview = recordModels.clauseReview;
+    checklistItem = recordModels.checklistItem;
+    siteMeasurement = recordModels.siteMeasurement;
+    defect = recordModels.defect;
+    moistureReading = recordModels.moistureReading;
+    costEstimate = recordModels.costEstimate;
+    costLineItem = recordModels.costLineItem;
+    buildingHistory = recordModels.buildingHistory;
+    report = recordModels.report;
+    reviewComment = recordModels.reviewComment;
+    personnel = {
+      findUnique: vi.fn(async ({ where }: { where: { userId: string } }) =>
+        personnel.find((p) => p.userId === where.userId) ?? null
+      ),
+    };
+    organizationMembership = {
+      findUnique: vi.fn(async ({ where }: { where: { organizationId_userId: { organizationId: string; userId: string } } }) =>
+        memberships.find((m) =>
+          m.organizationId === where.organizationId_userId.organizationId &&
+          m.userId === where.organizationId_userId.userId
+        ) ?? null
+      ),
+      findMany: vi.fn(async ({ where }: { where: { userId: string } }) =>
+        memberships.filter((m) => m.userId === where.userId)
+      ),
+    };
+  },
+}));
+
+import express, { type Express, type Request, type Response, type NextFunction } from 'express';
+import request from 'supertest';
+import type { AuthRequest } from '../middleware/auth.js';
+import { tenantMiddleware, requireProjectAccess, requireSiteInspectionAccess } from '../middleware/tenant.js';
+import { projectsRouter } from '../routes/projects.js';
+import { siteInspectionsRouter } from '../routes/site-inspections.js';
+import { companiesRouter } from '../routes/companies.js';
+import { templatesRouter } from '../routes/templates.js';
+import { voiceNotesRouter } from '../routes/voice-notes.js';
+import { documentsRouter } from '../routes/documents.js';
+import { projectPhotosRouter } from '../routes/project-photos.js';
+import { clauseReviewsRouter } from '../routes/clause-reviews.js';
+import { checklistItemsRouter } from '../routes/checklist-items.js';
+import { siteMeasurementsRouter } from '../routes/site-measurements.js';
+import { defectsRouter } from '../routes/defects.js';
+import { moistureReadingsRouter } from '../routes/moisture-readings.js';
+import { costEstimatesRouter } from '../routes/cost-estimates.js';
+import { buildingHistoryRouter } from '../routes/building-history.js';
+import { reportsRouter } from '../routes/reports.js';
+import { reportWorkflowRouter } from '../routes/report-workflow.js';
+import { projectReportsRouter } from '../routes/project-reports.js';
+import { personnelRouter } from '../routes/personnel.js';
+import { findingsRouter } from '../routes/findings.js';
+
+// Stand-in for authMiddleware: the test names the caller, and the owner of an AGENT token acting for them
+function testAuth(req: Request, _res: Response, next: NextFunction): void {
+  (req as AuthRequest).userId = req.header('x-test-user');
+  (req as AuthRequest).apiTokenOwnerId = req.header('x-test-token-owner');
+  next();
+}
+
+function projectOrganization(projectId: string): string | undefined {
+  return projects.find((p) => p.id === projectId)?.organizationId;
+}
+
+function matchesProject(project: (typeof projects)[number], where: Where): boolean {
+  return (where.id === undefined || where.id === project.id) &&
+    (where.organizationId === undefined || where.organizationId === project.organizationId);
+}
+
+function matchesInspection(inspection: (typeof inspections)[number], where: Where): boolean {
+  return (where.id === undefined || where.id === inspection.id) &&
+    (where.projectId === undefined || where.projectId === inspection.projectId) &&
+    (where.project?.organizationId === undefined ||
+      where.project.organizationId === projectOrganization(inspection.projectId));
+}
+
+// Organisation a record belongs to, following its project, property, inspection, preparer or parent record
+function recordOrganization(record: Record<string, string>): string | undefined {
+  if (record.projectId) return projectOrganization(record.projectId);
+  if (record.preparedById) return memberships.find((m) => m.userId === record.preparedById)?.organizationId;
+  if (record.propertyId) return record.propertyId === 'prop-a' ? 'org-a' : undefined;
+  if (record.inspectionId) {
+    const inspection = inspections.find((i) => i.id === record.inspectionId);
+    return inspection && projectOrganization(inspection.projectId);
+  }
+  const parent = record.estimateId
+    ? records.costEstimate.find((e) => e.id === record.estimateId)
+    : records.report.find((r) => r.id === record.reportId);
+  return parent && recordOrganization(parent);
+}
+
+// The organisation a scoped where clause asks for, however deeply it is nested
+function whereOrganization(where: unknown): string | undefined {
+  if (!where || typeof where !== 'object') return undefined;
+  const clause = where as Record<string, unknown>;
+  if (typeof clause.organizationId === 'string') return clause.organizationId;
+  for (const value of Object.values(clause)) {
+    const found = Array.isArray(value) ? value.map(whereOrganization).find(Boolean) : whereOrganization(value);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+describe('Tenant isolation', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockProject.findFirst.mockImplementation(async ({ where }: { where: Where }) =>
+      projects.find((p) => matchesProject(p, where)) ?? null
+    );
+    mockProject.findMany.mockImplementation(async ({ where }: { where: Where }) =>
+      projects.filter((p) => matchesProject(p, where))
+    );
+    mockSiteInspection.findFirst.mockImplementation(async ({ where }: { where: Where }) =>
+      inspections.find((i) => matchesInspection(i, where)) ?? null
+    );
+    mockSiteInspection.findMany.mockImplementation(async ({ where }: { where: Where }) =>
+      inspections.filter((i) => matchesInspection(i, where))
+    );
+    mockProject.update.mockImplementation(async ({ where, data }: { where: Where; data: object }) => ({
+      ...projects.find((p) => p.id === where.id),
+      ...data,
+    }));
+    mockSiteInspection.update.mockImplementation(async ({ where, data }: { where: Where; data: object }) => ({
+      ...inspections.find((i) => i.id === where.id),
+      ...data,
+    }));
+    mockCompany.findFirst.mockImplementation(async ({ where }: { where: Where }) =>
+      companies.find((c) => c.id === where.id && c.organizationId === where.organizationId) ?? null
+    );
+    mockCompany.create.mockImplementation(async ({ data }: { data: object }) => ({ id: 'company-new', ...data }));
+    mockTemplate.findFirst.mockImplementation(async ({ where }: { where: Where }) =>
+      templates.find((t) => t.id === where.id && t.organizationId === where.organizationId) ?? null
+    );
+    mockTemplate.update.mockImplementation(async ({ where, data }: { where: Where; data: object }) => ({
+      ...templates.find((t) => t.id === where.id),
+      ...data,
+    }));
+    mockVoiceNote.findFirst.mockImplementation(async ({ where }: { where: Where }) =>
+      voiceNotes.find((v) => v.id === where.id && v.organizationId === where.organizationId) ?? null
+    );
+
+    for (const [model, mock] of Object.entries(recordModels)) {
+      mock.findFirst.mockImplementation(async ({ where }: { where: { id: string } }) =>
+        records[model].find((r) => r.id === where.id && recordOrganization(r) === whereOrganization(where)) ?? null
+      );
+      mock.findUnique.mockImplementation(async ({ where }: { where: { id: string } }) =>
+        records[model].find((r) => r.id === where.id) ?? null
+      );
+      mock.findMany.mockResolvedValue([]);
+      mock.create.mockImplementation(async ({ data }: { data: object }) => ({ id: `${model}-new`, ...data }));
+    }
+
+    app = express();
+    app.use(express.json());
+    app.use(testAuth);
+    app.use(['/api/projects', '/api/site-inspections', '/api/companies', '/api/templates', '/api/voice-notes'], tenantMiddleware);
+    app.use('/api/projects/:projectId', requireProjectAccess);
+    app.use('/api/site-inspections/:inspectionId', requireSiteInspectionAccess);
+    app.use('/api/projects', projectsRouter);
+    app.use('/api', siteInspectionsRouter);
+    app.use('/api/companies', companiesRouter);
+    app.use('/api/templates', templatesRouter);
+    app.use('/api/voice-notes', voiceNotesRouter);
+    app.use('/api', documentsRouter);
+    app.use('/api', projectPhotosRouter);
+    app.use('/api', clauseReviewsRouter);
+    app.use('/api', checklistItemsRouter);
+    app.use('/api', siteMeasurementsRouter);
+    app.use('/api', defectsRouter);
+    app.use('/api', moistureReadingsRouter);
+    app.use('/api', costEstimatesRouter);
+    app.use('/api', buildingHistoryRouter);
+    app.use('/api', reportsRouter);
+    app.use('/api', reportWorkflowRouter);
+    app.use('/api', projectReportsRouter);
+    app.use('/api', personnelRouter);
+    app.use('/api', findingsRouter);
+  });
+
+  describe('projects', () => {
+    it('returns a project to its own organisation', async () => {
+      const res = await request(app).get('/api/projects/proj-a').set('x-test-user', 'user-a');
+
+      expect(res.status).toBe(200);
+      expect(res.body.id).toBe('proj-a');
+    });
+
+    it('returns 404 for another organisation\'s project', async () => {
+      const res = await request(app).get('/api/projects/proj-a').set('x-test-user', 'user-b');
+
+      expect(res.status).toBe(404);
+      expect(res.body.error).toBe('Project not found: proj-a');
+    });
+
+    it('returns 404 when updating another organisation\'s project', async () => {
+      const res = await request(app)
+        .put('/api/projects/proj-a')
+        .set('x-test-user', 'user-b')
+        .send({ status: 'COMPLETED' });
+
+      expect(res.status).toBe(404);
+      expect(mockProject.update).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 when deleting another organisation\'s project', async () => {
+      const res = await request(app).delete('/api/projects/proj-a').set('x-test-user', 'user-b');
+
+      expect(res.status).toBe(404);
+      expect(mockProject.delete).not.toHaveBeenCalled();
+    });
+
+    it('lists only the caller\'s projects', async () => {
+      const res = await request(app).get('/api/projects').set('x-test-user', 'user-b');
+
+      expect(res.status).toBe(200);
+      expect(res.body.map((p: { id: string }) => p.id)).toEqual(['proj-b']);
+    });
+  });
+
+  describe('site inspections', () => {
+    it('returns an inspection to its own organisation', async () => {
+      const res = await request(app).get('/api/site-inspections/insp-a').set('x-test-user', 'user-a');
+
+      expect(res.status).toBe(200);
+    });
+
+    it('returns 404 for another organisation\'s inspection', async () => {
+      const res = await request(app).get('/api/site-inspections/insp-a').set('x-test-user', 'user-b');
+
+      expect(res.status).toBe(404);
+    });
+
+    it('returns 404 for routes nested under another organisation\'s inspection', async () => {
+      const res = await request(app)
+        .get('/api/site-inspections/insp-a/checklist-items')
+        .set('x-test-user', 'user-b');
+
+      expect(res.status).toBe(404);
+      expect(res.body.error).toBe('Site inspection not found: insp-a');
+    });
+
+    it('returns 404 when listing inspections of another organisation\'s project', async () => {
+      const res = await request(app).get('/api/projects/proj-a/inspections').set('x-test-user', 'user-b');
+
+      expect(res.status).toBe(404);
+      expect(mockSiteInspection.findMany).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 when creating an inspection on another organisation\'s project', async () => {
+      const res = await request(app)
+        .post('/api/projects/proj-a/inspections')
+        .set('x-test-user', 'user-b')
+        .send({ type: 'SIMPLE', stage: 'INS_05', date: '2026-03-01', inspectorName: 'Alex' });
+
+      expect(res.status).toBe(404);
+      expect(mockSiteInspection.create).not.toHaveBeenCalled();
+    });
+
+    it('lists only the caller\'s inspections', async () => {
+      const res = await request(app).get('/api/site-inspections').set('x-test-user', 'user-b');
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual([]);
+    });
+  });
+
+  describe('permissions', () => {
+    it('does not let an inspector move a project to review', async () => {
+      const res = await request(app)
+        .put('/api/projects/proj-a')
+        .set('x-test-user', 'user-inspector')
+        .send({ status: 'REVIEW' });
+
+      expect(res.status).toBe(403);
+      expect(mockProject.update).not.toHaveBeenCalled();
+    });
+
+    it('lets an inspector make other project changes', async () => {
+      const res = await request(app)
+        .put('/api/projects/proj-a')
+        .set('x-test-user', 'user-inspector')
+        .send({ status: 'IN_PROGRESS' });
+
+      expect(res.status).toBe(200);
+    });
+
+    it('lets a reviewer complete a project', async () => {
+      const res = await request(app)
+        .put('/api/projects/proj-a')
+        .set('x-test-user', 'user-reviewer')
+        .send({ status: 'COMPLETED' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.status).toBe('COMPLETED');
+    });
+
+    it('does not let an inspector delete a project', async () => {
+      const res = await request(app).delete('/api/projects/proj-a').set('x-test-user', 'user-inspector');
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('Permission required: projects:delete');
+    });
+
+    it('lets an inspector edit their own site inspection', async () => {
+      const res = await request(app)
+        .put('/api/site-inspections/insp-a')
+        .set('x-test-user', 'user-inspector')
+        .send({ weather: 'Fine' });
+
+      expect(res.status).toBe(200);
+    });
+
+    it('does not let an inspector edit another inspector\'s site inspection', async () => {
+      const res = await request(app)
+        .put('/api/site-inspections/insp-a')
+        .set('x-test-user', 'user-other-inspector')
+        .send({ weather: 'Fine' });
+
+      expect(res.status).toBe(403);
+      expect(mockSiteInspection.update).not.toHaveBeenCalled();
+    });
+
+    it('lets an inspector read another inspector\'s site inspection', async () => {
+      const res = await request(app)
+        .get('/api/site-inspections/insp-a')
+        .set('x-test-user', 'user-other-inspector');
+
+      expect(res.status).toBe(200);
+    });
+
+    it('lets a reviewer edit any site inspection', async () => {
+      const res = await request(app)
+        .put('/api/site-inspections/insp-a')
+        .set('x-test-user', 'user-reviewer')
+        .send({ weather: 'Fine' });
+
+      expect(res.status).toBe(200);
+    });
+
+    it('lets an inspector delete a measurement on their own site inspection', async () => {
+      const res = await request(app).delete('/api/measurements/measurement-a').set('x-test-user', 'user-inspector');
+
+      expect(res.status).toBe(204);
+      expect(recordModels.siteMeasurement.delete).toHaveBeenCalled();
+    });
+
+    it.each([
+      ['put', '/api/clause-reviews/review-a'],
+      ['delete', '/api/checklist-items/item-a'],
+      ['put', '/api/measurements/measurement-a'],
+      ['delete', '/api/defects/defect-a'],
+    ] as const)('does not let an inspector %s %s on another inspector\'s site inspection', async (method, path) => {
+      const res = await request(app)[method](path).set('x-test-user', 'user-other-inspector').send({});
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('You can only edit site inspections assigned to you');
+    });
+
+    it('lets an inspector read records on another inspector\'s site inspection', async () => {
+      const res = await request(app).get('/api/clause-reviews/review-a').set('x-test-user', 'user-other-inspector');
+
+      expect(res.status).toBe(200);
+    });
+
+    it('does not let an office admin submit a report', async () => {
+      const res = await request(app).post('/api/reports/report-a/submit').set('x-test-user', 'user-office');
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('Permission required: reports:write');
+    });
+
+    it.each(['coa', 'ccc-gap'])('does not let an office admin generate a %s report', async (type) => {
+      const res = await request(app)
+        .post(`/api/projects/proj-a/reports/${type}`)
+        .set('x-test-user', 'user-office')
+        .send({ format: 'pdf' });
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('Permission required: reports:write');
+    });
+
+    it.each([
+      ['post', '/api/reports/report-a/comments'],
+      ['put', '/api/comments/comment-a'],
+      ['post', '/api/comments/comment-a/dismiss'],
+    ] as const)('does not let an inspector %s %s', async (method, path) => {
+      const res = await request(app)[method](path).set('x-test-user', 'user-inspector').send({ content: 'Looks fine' });
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('Permission required: reports:review');
+    });
+  });
+
+  describe('companies', () => {
+    it('returns 404 for another organisation\'s company', async () => {
+      const res = await request(app).get('/api/companies/company-a').set('x-test-user', 'user-b');
+
+      expect(res.status).toBe(404);
+    });
+
+    it('returns 404 when deleting another organisation\'s company', async () => {
+      const res = await request(app).delete('/api/companies/company-a').set('x-test-user', 'user-b');
+
+      expect(res.status).toBe(404);
+      expect(mockCompany.delete).not.toHaveBeenCalled();
+    });
+
+    it('does not let an inspector create a company', async () => {
+      const res = await request(app)
+        .post('/api/companies')
+        .set('x-test-user', 'user-inspector')
+        .send({ name: 'Side Business Ltd' });
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('Permission required: personnel:manage');
+      expect(mockCompany.create).not.toHaveBeenCalled();
+    });
+
+    it('lets an office admin create a company in their organisation', async () => {
+      const res = await request(app)
+        .post('/api/companies')
+        .set('x-test-user', 'user-office')
+        .send({ name: 'A Surveyors North' });
+
+      expect(res.status).toBe(201);
+      expect(mockCompany.create).toHaveBeenCalledWith({
+        data: { name: 'A Surveyors North', organizationId: 'org-a' },
+      });
+    });
+  });
+
+  describe('records addressed by their own ID', () => {
+    it('returns a document to its own organisation', async () => {
+      const res = await request(app).get('/api/documents/doc-a').set('x-test-user', 'user-a');
+
+      expect(res.status).toBe(200);
+      expect(res.body.id).toBe('doc-a');
+    });
+
+    it.each([
+      ['get', '/api/documents/doc-a', 'Document not found: doc-a'],
+      ['put', '/api/documents/doc-a', 'Document not found: doc-a'],
+      ['delete', '/api/documents/doc-a', 'Document not found: doc-a'],
+      ['get', '/api/documents/doc-a/file', 'Document not found: doc-a'],
+      ['get', '/api/documents/doc-a/url', 'Document not found: doc-a'],
+      ['post', '/api/documents/doc-a/verify', 'Document not found: doc-a'],
+      ['post', '/api/documents/doc-a/status/RECEIVED', 'Document not found: doc-a'],
+      ['put', '/api/photos/photo-a', 'ProjectPhoto not found: photo-a'],
+      ['put', '/api/photos/photo-a/annotations', 'ProjectPhoto not found: photo-a'],
+      ['post', '/api/photos/photo-a/merge', 'ProjectPhoto not found: photo-a'],
+      ['get', '/api/clause-reviews/review-a', 'Clause review not found: review-a'],
+      ['put', '/api/clause-reviews/review-a', 'Clause review not found: review-a'],
+      ['delete', '/api/checklist-items/item-a', 'Checklist item not found: item-a'],
+      ['put', '/api/measurements/measurement-a', 'Site measurement not found: measurement-a'],
+      ['delete', '/api/defects/defect-a', 'Defect not found: defect-a'],
+      ['put', '/api/moisture-readings/reading-a', 'Moisture reading not found: reading-a'],
+      ['put', '/api/cost-estimates/estimate-a', 'Cost estimate not found: estimate-a'],
+      ['delete', '/api/cost-line-items/line-a', 'Cost line item not found: line-a'],
+      ['delete', '/api/building-history/history-a', 'Building history not found: history-a'],
+      ['get', '/api/reports/report-a/download', 'Report not found: report-a'],
+      ['post', '/api/reports/report-a/submit', 'Report not found: report-a'],
+      ['get', '/api/reports/report-a/signature-block', 'Report not found: report-a'],
+      ['get', '/api/reports/report-a/comments', 'Report not found: report-a'],
+      ['put', '/api/comments/comment-a', 'Review comment not found: comment-a'],
+      ['post', '/api/comments/comment-a/resolve', 'Review comment not found: comment-a'],
+    ] as const)('%s %s returns 404 to another organisation', async (method, path, error) => {
+      const res = await request(app)[method](path).set('x-test-user', 'user-b').send({});
+
+      expect(res.status).toBe(404);
+      expect(res.body.error).toBe(error);
+      for (const mock of Object.values(recordModels)) {
+        expect(mock.update).not.toHaveBeenCalled();
+        expect(mock.delete).not.toHaveBeenCalled();
+      }
+    });
+  });
+
+  describe('reports on inspections without a project', () => {
+    it('are reachable in the organisation of the user who generated them', async () => {
+      const res = await request(app).get('/api/reports/report-legacy/comments').set('x-test-user', 'user-reviewer');
+
+      expect(res.status).toBe(200);
+      expect(recordModels.report.findFirst).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          OR: expect.arrayContaining([
+            { inspection: { projectId: null }, preparedBy: { memberships: { some: { organizationId: 'org-a' } } } },
+          ]),
+        }),
+      });
+    });
+
+    it('return 404 to another organisation', async () => {
+      const res = await request(app).get('/api/reports/report-legacy/comments').set('x-test-user', 'user-b');
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('templates', () => {
+    it('lets an org admin lock their organisation\'s template', async () => {
+      const res = await request(app).post('/api/templates/template-a/lock').set('x-test-user', 'user-a');
+
+      expect(res.status).toBe(200);
+      expect(res.body.locked).toBe(true);
+    });
+
+    it('returns 404 when another organisation\'s admin edits a template', async () => {
+      const res = await request(app)
+        .put('/api/templates/template-a')
+        .set('x-test-user', 'user-b')
+        .send({ name: 'Ours now' });
+
+      expect(res.status).toBe(404);
+      expect(mockTemplate.update).not.toHaveBeenCalled();
+    });
+
+    it('does not let a reviewer change templates', async () => {
+      const res = await request(app)
+        .post('/api/templates')
+        .set('x-test-user', 'user-reviewer')
+        .send({ name: 'Limitations', category: 'SECTION', content: 'Limited inspection.' });
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('Permission required: templates:manage');
+      expect(mockTemplate.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('voice notes', () => {
+    it.each([
+      ['get', '/api/voice-notes/voice-a'],
+      ['get', '/api/voice-notes/voice-a/audio'],
+      ['delete', '/api/voice-notes/voice-a'],
+    ] as const)('returns 404 for %s %s from another organisation', async (method, path) => {
+      const res = await request(app)[method](path).set('x-test-user', 'user-b');
+
+      expect(res.status).toBe(404);
+      expect(res.body.error).toBe('Voice note not found: voice-a');
+      expect(mockVoiceNote.delete).not.toHaveBeenCalled();
+    });
+
+    it('lets a colleague in the organisation fetch a voice note', async () => {
+      const res = await request(app).get('/api/voice-notes/voice-a').set('x-test-user', 'user-reviewer');
+
+      expect(res.status).toBe(200);
+      expect(res.body.id).toBe('voice-a');
+    });
+
+    it('does not let another inspector delete a voice note', async () => {
+      const res = await request(app).delete('/api/voice-notes/voice-a').set('x-test-user', 'user-other-inspector');
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('You can only delete voice notes you recorded');
+      expect(mockVoiceNote.delete).not.toHaveBeenCalled();
+    });
+
+    it.each(['user-inspector', 'user-a'])('lets %s delete a voice note', async (user) => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const res = await request(app).delete('/api/voice-notes/voice-a').set('x-test-user', user);
+
+      expect(res.status).toBe(204);
+      expect(mockVoiceNote.delete).toHaveBeenCalledWith({ where: { id: 'voice-a' } });
+    });
+  });
+
+  describe('linking voice notes', () => {
+    const VOICE_NOTE_ID = '5b0e8f3c-1d2a-4c6b-9e7f-0a1b2c3d4e5f';
+    const UNKNOWN_ID = '9d8c7b6a-5f4e-4d3c-8b2a-1f0e9d8c7b6a';
+    const item = { category: 'EXTERIOR', item: 'Gutters', decision: 'PASS' };
+
+    it('links a voice note from the caller\'s organisation', async () => {
+      const res = await request(app)
+        .post('/api/site-inspections/insp-a/checklist-items')
+        .set('x-test-user', 'user-inspector')
+        .send({ ...item, voiceNoteId: VOICE_NOTE_ID });
+
+      expect(res.status).toBe(201);
+      expect(res.body.voiceNoteId).toBe(VOICE_NOTE_ID);
+    });
+
+    it('rejects an unknown voice note', async () => {
+      const res = await request(app)
+        .post('/api/site-inspections/insp-a/checklist-items')
+        .set('x-test-user', 'user-inspector')
+        .send({ ...item, voiceNoteId: UNKNOWN_ID });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe(`Voice note not found: ${UNKNOWN_ID}`);
+      expect(recordModels.checklistItem.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects an unknown voice note in a bulk request', async () => {
+      const res = await request(app)
+        .post('/api/site-inspections/insp-a/clause-reviews/bulk')
+        .set('x-test-user', 'user-inspector')
+        .send({ reviews: [{ clauseId: UNKNOWN_ID, applicability: 'APPLICABLE', voiceNoteId: UNKNOWN_ID }] });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe(`Voice note not found: ${UNKNOWN_ID}`);
+    });
+
+    it('rejects another organisation\'s voice note on a finding', async () => {
+      const res = await request(app)
+        .post('/api/inspections/legacy-insp/findings')
+        .set('x-test-user', 'user-b')
+        .send({ section: 'exterior', text: 'Cracked tile', voiceNoteId: VOICE_NOTE_ID });
+
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe(`Voice note not found: ${VOICE_NOTE_ID}`);
+    });
+  });
+
+  describe('agent tokens', () => {
+    it('does not let an inspector\'s token act as an admin', async () => {
+      const res = await request(app)
+        .delete('/api/projects/proj-a')
+        .set('x-test-user', 'user-a')
+        .set('x-test-token-owner', 'user-inspector');
+
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe('API token owner\'s role does not allow acting as this member');
+      expect(mockProject.delete).not.toHaveBeenCalled();
+    });
+
+    it('refuses a token whose owner is not in the organisation', async () => {
+      const res = await request(app)
+        .get('/api/projects/proj-a')
+        .set('x-test-user', 'user-inspector')
+        .set('x-test-token-owner', 'user-b');
+
+      expect(res.status).toBe(403);
+    });
+
+    it('lets an admin\'s token act as an inspector', async () => {
+      const res = await request(app)
+        .put('/api/site-inspections/insp-a')
+        .set('x-test-user', 'user-inspector')
+        .set('x-test-token-owner', 'user-a')
+        .send({ weather: 'Fine' });
+
+      expect(res.status).toBe(200);
+    });
+  });
+
+  describe('organisation selection', () => {
+    it('rejects an organisation the caller does not belong to', async () => {
+      const res = await request(app)
+        .get('/api/projects')
+        .set('x-test-user', 'user-b')
+        .set('x-organization-id', 'org-a');
+
+      expect(res.status).toBe(403);
+      expect(mockProject.findMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects callers without a membership', async () => {
+      const res = await request(app).get('/api/projects').set('x-test-user', 'user-c');
+
+      expect(res.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CommandTranscriptionBackend,
+  StubTranscriptionBackend,
+  TranscriptionError,
+  createTranscriptionBackend,
+} from '../services/transcription.js';
+
+describe('createTranscriptionBackend', () => {
+  it('should be off when nothing is configured', () => {
+    expect(createTranscriptionBackend({})).toBeNull();
+    expect(createTranscriptionBackend({ TRANSCRIPTION_BACKEND: 'none', TRANSCRIPTION_COMMAND: 'whisper' })).toBeNull();
+  });
+
+  it('should use the command backend when a command is configured', () => {
+    const backend = createTranscriptionBackend({ TRANSCRIPTION_COMMAND: '/opt/whisper/transcribe --model base.en' });
+    expect(backend).toBeInstanceOf(CommandTranscriptionBackend);
+    expect(backend?.name).toBe('command:transcribe');
+  });
+
+  it('should use the stub with its configured text', async () => {
+    const backend = createTranscriptionBackend({ TRANSCRIPTION_BACKEND: 'stub', TRANSCRIPTION_STUB_TEXT: 'Gutter is rusted' });
+    expect(backend).toBeInstanceOf(StubTranscriptionBackend);
+    expect(await backend?.transcribe(Buffer.from('OggS'), 'ogg')).toBe('Gutter is rusted');
+  });
+
+  it('should reject unknown or incomplete configuration', () => {
+    expect(() => createTranscriptionBackend({ TRANSCRIPTION_BACKEND: 'cloud' })).toThrow(TranscriptionError);
+    expect(() => createTranscriptionBackend({ TRANSCRIPTION_BACKEND: 'command' })).toThrow('TRANSCRIPTION_COMMAND');
+  });
+});
+
+describe('CommandTranscriptionBackend', () => {
+  it('should pass the recording path and read the transcript from stdout', async () => {
+    const script = 'const fs = require("fs"); const file = process.argv[1]; ' +
+      'console.log(`  ${fs.readFileSync(file, "latin1")} from ${file.split(".").pop()}  `)';
+    const backend = new CommandTranscriptionBackend(process.execPath, ['-e', script]);
+
+    expect(await backend.transcribe(Buffer.from('Gutter is rusted'), 'ogg')).toBe('Gutter is rusted from ogg');
+  });
+
+  it('should fail with the command error output', async () => {
+    const backend = new CommandTranscriptionBackend(process.execPath, ['-e', 'console.error("model missing"); process.exit(1)']);
+
+    await expect(backend.transcribe(Buffer.from('OggS'), 'ogg')).rejects.toThrow('model missing');
+  });
+});
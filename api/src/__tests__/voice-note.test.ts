@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import {
+  VoiceNoteService,
+  VoiceNoteNotFoundError,
+  VoiceNoteFileError,
+  VoiceNoteAccessError,
+  decodeVoiceNote,
+  splitIssues,
+} from '../services/voice-note.js';
+import { StubTranscriptionBackend, type TranscriptionBackend } from '../services/transcription.js';
+import type { IVoiceNoteRepository } from '../repositories/interfaces/voice-note.js';
+import type { VoiceNote } from '@prisma/client';
+
+// Mock fs module
+vi.mock('node:fs/promises', () => ({
+  mkdir: vi.fn().mockResolvedValue(undefined),
+  writeFile: vi.fn().mockResolvedValue(undefined),
+  unlink: vi.fn().mockResolvedValue(undefined),
+}));
+
+const createMockRepository = (): IVoiceNoteRepository => ({
+  create: vi.fn(),
+  findById: vi.fn(),
+  delete: vi.fn(),
+});
+
+const mockVoiceNote: VoiceNote = {
+  id: 'voice-1',
+  filename: 'note.ogg',
+  path: '/tmp/voice-notes/note.ogg',
+  mimeType: 'audio/ogg',
+  fileSize: 32,
+  transcript: 'Downpipe disconnected at the north-east corner.',
+  transcriber: 'stub',
+  organizationId: 'org-1',
+  uploadedById: 'user-1',
+  createdAt: new Date(),
+};
+
+// Container headers are enough for the content checks
+const oggBase64 = Buffer.concat([Buffer.from('OggS'), Buffer.alloc(28)]).toString('base64');
+const m4aBase64 = Buffer.concat([Buffer.from([0, 0, 0, 0x20]), Buffer.from('ftypM4A '), Buffer.alloc(20)]).toString('base64');
+
+describe('decodeVoiceNote', () => {
+  it('should accept WhatsApp OGG/Opus with codec parameters', () => {
+    const { type } = decodeVoiceNote({ base64Data: oggBase64, mimeType: 'audio/ogg; codecs=opus' });
+    expect(type).toMatchObject({ mimeType: 'audio/ogg', ext: 'ogg' });
+  });
+
+  it('should read the type from a data URL', () => {
+    const { type } = decodeVoiceNote({ base64Data: `data:audio/x-m4a;base64,${m4aBase64}` });
+    expect(type).toMatchObject({ mimeType: 'audio/mp4', ext: 'm4a' });
+  });
+
+  it('should detect the container when no type is given', () => {
+    expect(decodeVoiceNote({ base64Data: oggBase64 }).type.ext).toBe('ogg');
+    expect(decodeVoiceNote({ base64Data: m4aBase64 }).type.ext).toBe('m4a');
+  });
+
+  it('should reject other types and mismatched content', () => {
+    expect(() => decodeVoiceNote({ base64Data: oggBase64, mimeType: 'audio/mpeg' })).toThrow(VoiceNoteFileError);
+    expect(() => decodeVoiceNote({ base64Data: oggBase64, mimeType: 'audio/mp4' })).toThrow('not valid M4A');
+    expect(() => decodeVoiceNote({ base64Data: Buffer.from('RIFF1234WAVE').toString('base64') }))
+      .toThrow('Unrecognised audio format');
+    expect(() => decodeVoiceNote({ base64Data: '!!!invalid!!!' })).toThrow('Invalid base64');
+  });
+});
+
+describe('splitIssues', () => {
+  it('should keep a note without markers as one issue', () => {
+    expect(splitIssues('Cracked tile in the ensuite by the shower. Silicone is mouldy too.')).toEqual([
+      'Cracked tile in the ensuite by the shower. Silicone is mouldy too',
+    ]);
+  });
+
+  it('should split on sentences starting with a marker', () => {
+    expect(splitIssues(
+      'First, the downpipe at the north-east corner is disconnected. Second issue is the gutter over the deck ' +
+      'is sagging. Also the front door sticks.'
+    )).toEqual([
+      'The downpipe at the north-east corner is disconnected',
+      'The gutter over the deck is sagging',
+      'The front door sticks',
+    ]);
+  });
+
+  it('should split ordinals after a comma and drop a count preamble', () => {
+    expect(splitIssues(
+      'Three things on the deck. First the balustrade is loose, second there is no fall to the outlet, ' +
+      'and finally the boards are split near the steps.'
+    )).toEqual([
+      'The balustrade is loose',
+      'There is no fall to the outlet',
+      'The boards are split near the steps',
+    ]);
+  });
+
+  it('should not split ordinals used as words', () => {
+    expect(splitIssues('The second bedroom window is cracked')).toEqual(['The second bedroom window is cracked']);
+  });
+
+  it('should return nothing for an empty transcript', () => {
+    expect(splitIssues('  ')).toEqual([]);
+  });
+});
+
+describe('VoiceNoteService', () => {
+  let repository: IVoiceNoteRepository;
+
+  beforeEach(() => {
+    repository = createMockRepository();
+    vi.clearAllMocks();
+  });
+
+  describe('upload', () => {
+    it('should store, transcribe and split the recording', async () => {
+      const service = new VoiceNoteService(
+        repository,
+        new StubTranscriptionBackend('Gutter is rusted. Next, the downpipe is loose.'),
+        '/tmp/test-voice-notes'
+      );
+      vi.mocked(repository.create).mockResolvedValue(mockVoiceNote);
+
+      const result = await service.upload('org-1', { base64Data: oggBase64, mimeType: 'audio/ogg' }, 'user-1');
+
+      expect(fs.writeFile).toHaveBeenCalledWith(expect.stringMatching(/^\/tmp\/test-voice-notes\/.+\.ogg$/), expect.any(Buffer));
+      expect(repository.create).toHaveBeenCalledWith('org-1', expect.objectContaining({
+        mimeType: 'audio/ogg',
+        fileSize: 32,
+        transcript: 'Gutter is rusted. Next, the downpipe is loose.',
+        transcriber: 'stub',
+        uploadedById: 'user-1',
+      }));
+      expect(result.voiceNote).toEqual(mockVoiceNote);
+      expect(result.issues).toEqual(['Gutter is rusted', 'The downpipe is loose']);
+    });
+
+    it('should keep the recording when transcription fails', async () => {
+      const failing: TranscriptionBackend = {
+        name: 'failing',
+        transcribe: vi.fn().mockRejectedValue(new Error('model not found')),
+      };
+      const service = new VoiceNoteService(repository, failing, '/tmp/test-voice-notes');
+      vi.mocked(repository.create).mockResolvedValue({ ...mockVoiceNote, transcript: null, transcriber: null });
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await service.upload('org-1', { base64Data: m4aBase64 });
+
+      expect(fs.writeFile).toHaveBeenCalled();
+      expect(repository.create).toHaveBeenCalledWith('org-1', expect.objectContaining({
+        mimeType: 'audio/mp4',
+        transcript: undefined,
+        transcriber: undefined,
+      }));
+      expect(result.issues).toEqual([]);
+    });
+
+    it('should store without transcribing when no backend is configured', async () => {
+      const service = new VoiceNoteService(repository, null, '/tmp/test-voice-notes');
+      vi.mocked(repository.create).mockResolvedValue(mockVoiceNote);
+
+      const result = await service.upload('org-1', { base64Data: oggBase64 });
+
+      expect(repository.create).toHaveBeenCalledWith('org-1', expect.objectContaining({ transcript: undefined }));
+      expect(result.issues).toEqual([]);
+    });
+
+    it('should not store invalid audio', async () => {
+      const service = new VoiceNoteService(repository, new StubTranscriptionBackend(), '/tmp/test-voice-notes');
+
+      await expect(service.upload('org-1', { base64Data: oggBase64, mimeType: 'image/jpeg' })).rejects.toThrow(VoiceNoteFileError);
+      expect(fs.writeFile).not.toHaveBeenCalled();
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete the file and the record', async () => {
+      const service = new VoiceNoteService(repository, null, '/tmp/test-voice-notes');
+      vi.mocked(repository.findById).mockResolvedValue(mockVoiceNote);
+
+      await service.delete('org-1', 'voice-1', 'user-1', false);
+
+      expect(repository.findById).toHaveBeenCalledWith('org-1', 'voice-1');
+      expect(fs.unlink).toHaveBeenCalledWith(mockVoiceNote.path);
+      expect(repository.delete).toHaveBeenCalledWith('voice-1');
+    });
+
+    it('should only let the uploader delete without canDeleteAny', async () => {
+      const service = new VoiceNoteService(repository, null, '/tmp/test-voice-notes');
+      vi.mocked(repository.findById).mockResolvedValue({ ...mockVoiceNote, uploadedById: null });
+
+      await expect(service.delete('org-1', 'voice-1', 'user-1', false)).rejects.toThrow(VoiceNoteAccessError);
+      expect(repository.delete).not.toHaveBeenCalled();
+
+      await service.delete('org-1', 'voice-1', 'user-2', true);
+      expect(repository.delete).toHaveBeenCalledWith('voice-1');
+    });
+
+    it('should throw VoiceNoteNotFoundError for a missing voice note', async () => {
+      const service = new VoiceNoteService(repository, null, '/tmp/test-voice-notes');
+      vi.mocked(repository.findById).mockResolvedValue(null);
+
+      await expect(service.delete('org-1', 'missing', 'user-1', true)).rejects.toThrow(VoiceNoteNotFoundError);
+    });
+  });
+});
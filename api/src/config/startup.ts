@@ -5,6 +5,9 @@
  */
 
 import { PrismaClient } from '@prisma/client';
+import { PrismaChecklistDefinitionRepository } from '../repositories/prisma/checklist-definition.js';
+import { ChecklistDefinitionService } from '../services/checklist-definition.js';
+import { checklistService } from '../services/checklist.js';
 
 interface ValidationResult {
   valid: boolean;
@@ -101,3 +104,25 @@ export async function logStartupDiagnostics(): Promise<void> {
 
   console.log('===============================');
 }
+
+/**
+ * Seed checklist definitions from config/checklists. Only checklists missing
+ * from the database are created, so published edits are never overwritten.
+ */
+export async function seedChecklists(): Promise<void> {
+  if (!process.env.DATABASE_URL) return;
+
+  const prisma = new PrismaClient();
+  try {
+    const service = new ChecklistDefinitionService(new PrismaChecklistDefinitionRepository(prisma));
+    const seeded = await service.seed(checklistService.getAll());
+    if (seeded.length > 0) {
+      console.log(`✅ Seeded checklists: ${seeded.join(', ')}`);
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error(`❌ Checklist seeding failed: ${message}`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
@@ -7,7 +7,10 @@ import { authRouter } from './routes/auth.js';
 import { inspectionsRouter } from './routes/inspections.js';
 import { findingsRouter } from './routes/findings.js';
 import { photosRouter } from './routes/photos.js';
+import { voiceNotesRouter } from './routes/voice-notes.js';
 import { reportsRouter } from './routes/reports.js';
+import { reportWorkflowRouter } from './routes/report-workflow.js';
+import { projectReportsRouter } from './routes/project-reports.js';
 import { navigationRouter } from './routes/navigation.js';
 import { projectsRouter } from './routes/projects.js';
 import { propertiesRouter } from './routes/properties.js';
@@ -16,16 +19,32 @@ import { siteInspectionsRouter } from './routes/site-inspections.js';
 import { checklistItemsRouter } from './routes/checklist-items.js';
 import { buildingCodeRouter } from './routes/building-code.js';
 import { clauseReviewsRouter } from './routes/clause-reviews.js';
-import { documentsRouter } from './routes/documents.js';
+import { documentsRouter, documentFilesRouter } from './routes/documents.js';
 import { naReasonTemplatesRouter } from './routes/na-reason-templates.js';
 import { projectPhotosRouter } from './routes/project-photos.js';
 import { buildingHistoryRouter } from './routes/building-history.js';
 import { siteMeasurementsRouter } from './routes/site-measurements.js';
 import { inspectorsRouter } from './routes/inspectors.js';
+import { companiesRouter } from './routes/companies.js';
+import { personnelRouter } from './routes/personnel.js';
+import { defectsRouter } from './routes/defects.js';
+import { moistureReadingsRouter } from './routes/moisture-readings.js';
+import { costEstimatesRouter } from './routes/cost-estimates.js';
+import { templatesRouter } from './routes/templates.js';
+import { organizationsRouter } from './routes/organizations.js';
+import { apiTokensRouter } from './routes/api-tokens.js';
+import { commentFeedbackRouter } from './routes/comment-feedback.js';
+import { checklistsRouter } from './routes/checklists.js';
 import { openApiRouter } from './openapi/index.js';
-import { authMiddleware, serviceAuthMiddleware } from './middleware/auth.js';
+import { authMiddleware } from './middleware/auth.js';
+import {
+  tenantMiddleware,
+  requireProjectAccess,
+  requirePropertyAccess,
+  requireSiteInspectionAccess,
+} from './middleware/tenant.js';
 import { getAllowedOrigins } from './config/domain.js';
-import { logStartupDiagnostics } from './config/startup.js';
+import { logStartupDiagnostics, seedChecklists } from './config/startup.js';
 
 const app: Application = express();
 const PORT = process.env.PORT || 3000;
@@ -64,15 +83,31 @@ app.use(express.json({ limit: '10mb' })); // Increased limit for base64 photos
 app.use('/health', healthRouter);
 app.use('/api', openApiRouter);  // OpenAPI docs (no auth required)
 app.use('/api/auth', authRouter);
+app.use('/api/document-files', documentFilesRouter);  // Signed download links (no auth required)
+app.use('/api/auth/tokens', authMiddleware, apiTokensRouter);
 
-// Service routes (JWT or API key auth)
-app.use('/api/inspectors', serviceAuthMiddleware, inspectorsRouter);
+// Inspector lookup for the WhatsApp agent (JWT or API token)
+app.use('/api/inspectors', authMiddleware, inspectorsRouter);
+
+// Tenant scoping: resolve the caller's organisation, then 404 on anything nested
+// under a project, property or site inspection from another organisation
+app.use(
+  ['/api/projects', '/api/properties', '/api/clients', '/api/site-inspections', '/api/companies', '/api/personnel', '/api/credentials'],
+  authMiddleware,
+  tenantMiddleware
+);
+app.use('/api/projects/:projectId', requireProjectAccess);
+app.use('/api/properties/:propertyId', requirePropertyAccess);
+app.use('/api/site-inspections/:inspectionId', requireSiteInspectionAccess);
 
 // Protected routes (auth required)
+app.use('/api/organizations', authMiddleware, organizationsRouter);
 app.use('/api/inspections', authMiddleware, inspectionsRouter);
 app.use('/api', authMiddleware, findingsRouter);
 app.use('/api', authMiddleware, photosRouter);
 app.use('/api', authMiddleware, reportsRouter);
+app.use('/api', authMiddleware, reportWorkflowRouter);
+app.use('/api', authMiddleware, projectReportsRouter);
 app.use('/api', authMiddleware, navigationRouter);
 app.use('/api/projects', authMiddleware, projectsRouter);
 app.use('/api/properties', authMiddleware, propertiesRouter);
@@ -83,9 +118,18 @@ app.use('/api/building-code', authMiddleware, buildingCodeRouter);
 app.use('/api', authMiddleware, clauseReviewsRouter);
 app.use('/api', authMiddleware, documentsRouter);
 app.use('/api/na-reason-templates', authMiddleware, naReasonTemplatesRouter);
+app.use('/api/templates', authMiddleware, tenantMiddleware, templatesRouter);
+app.use('/api/voice-notes', authMiddleware, tenantMiddleware, voiceNotesRouter);
+app.use('/api/comment-feedback', authMiddleware, tenantMiddleware, commentFeedbackRouter);
+app.use('/api/checklists', authMiddleware, checklistsRouter);
 app.use('/api', authMiddleware, projectPhotosRouter);
 app.use('/api', authMiddleware, buildingHistoryRouter);
 app.use('/api', authMiddleware, siteMeasurementsRouter);
+app.use('/api/companies', authMiddleware, companiesRouter);
+app.use('/api', authMiddleware, personnelRouter);
+app.use('/api', authMiddleware, defectsRouter);
+app.use('/api', authMiddleware, moistureReadingsRouter);
+app.use('/api', authMiddleware, costEstimatesRouter);
 
 // Error handling with detailed logging
 app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
@@ -109,6 +153,7 @@ app.use((err: Error, req: express.Request, res: express.Response, _next: express
 // Start server with diagnostics
 async function start(): Promise<void> {
   await logStartupDiagnostics();
+  await seedChecklists();
   
   app.listen(PORT, () => {
     console.log(`API server running on port ${PORT}`);
@@ -1,29 +1,79 @@
 /**
  * Auth Middleware — Issue #41
  *
- * JWT-based authentication middleware.
+ * JWT and API token authentication middleware.
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { PrismaClient, type OrganizationRole } from '@prisma/client';
 import jwt from 'jsonwebtoken';
-
-const JWT_SECRET = process.env.JWT_SECRET || 'development-secret-min-32-chars!!';
+import { PrismaApiTokenRepository } from '../repositories/prisma/api-token.js';
+import { PrismaOrganizationRepository } from '../repositories/prisma/organization.js';
+import { PrismaSessionRepository } from '../repositories/prisma/session.js';
+import {
+  ApiTokenService,
+  ApiTokenAuthError,
+  ApiTokenScopeError,
+  isApiToken,
+} from '../services/api-token.js';
+import { SessionService, SessionAuthError, ACCESS_TOKEN_TTL_SECONDS } from '../services/session.js';
+
+const JWT_SECRET = process.env.JWT_SECRET || (
+  process.env.NODE_ENV === 'production'
+    ? (() => { throw new Error('JWT_SECRET must be set in production'); })()
+    : 'development-secret-min-32-chars!!'
+);
+
+const prisma = new PrismaClient();
+const apiTokenService = new ApiTokenService(
+  new PrismaApiTokenRepository(prisma),
+  new PrismaOrganizationRepository(prisma)
+);
+const sessionService = new SessionService(new PrismaSessionRepository(prisma));
 
 export interface AuthRequest extends Request {
   userId?: string;
+  /** Set by tenantMiddleware */
+  organizationId?: string;
+  organizationRole?: OrganizationRole;
+  /** Set when the request authenticated with an API token */
+  apiTokenId?: string;
+  /** The API token's owner; differs from userId when an agent acts for an inspector */
+  apiTokenOwnerId?: string;
+  /** Set when the request authenticated with a session access token */
+  sessionId?: string;
 }
 
 /**
- * Verify JWT token from cookie or Authorization header
+ * Authenticate with a JWT (cookie or Authorization header) or an API token
+ * (X-API-Key header, or an Authorization bearer starting with aik_).
+ * API tokens are checked against their scopes for this request; AGENT
+ * tokens may add X-Inspector-Phone to act as that inspector.
  */
-export function authMiddleware(
+export async function authMiddleware(
   req: AuthRequest,
   res: Response,
   next: NextFunction
-): void {
+): Promise<void> {
+  // Already authenticated by an earlier mount for this request
+  if (req.userId) {
+    next();
+    return;
+  }
+
   // Get token from cookie or Authorization header
   const cookieToken = req.cookies?.token;
   const headerToken = req.headers.authorization?.replace('Bearer ', '');
+  const apiKey = req.headers['x-api-key'];
+
+  const apiToken = typeof apiKey === 'string' && apiKey
+    ? apiKey
+    : headerToken && isApiToken(headerToken) ? headerToken : undefined;
+  if (apiToken) {
+    await authenticateApiToken(apiToken, req, res, next);
+    return;
+  }
+
   const token = cookieToken || headerToken;
 
   if (!token) {
@@ -32,64 +82,82 @@ export function authMiddleware(
   }
 
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { sub: string };
-    req.userId = decoded.sub;
+    const { userId, sessionId } = await verifyAccessToken(token);
+    req.userId = userId;
+    req.sessionId = sessionId;
     next();
-  } catch {
-    res.status(401).json({ error: 'Invalid or expired token' });
+  } catch (error) {
+    if (error instanceof SessionAuthError) {
+      res.status(401).json({ error: 'Invalid or expired token' });
+      return;
+    }
+    next(error);
   }
 }
 
 /**
- * Generate JWT token
+ * Verify an access token and that its session has not been revoked.
+ * Throws SessionAuthError otherwise.
  */
-export function generateToken(userId: string): string {
-  return jwt.sign({ sub: userId }, JWT_SECRET, { expiresIn: '24h' });
+export async function verifyAccessToken(token: string): Promise<{ userId: string; sessionId: string }> {
+  let decoded: { sub: string; sid?: string };
+  try {
+    decoded = jwt.verify(token, JWT_SECRET) as { sub: string; sid?: string };
+  } catch {
+    throw new SessionAuthError('Invalid or expired token');
+  }
+  // Tokens issued before sessions existed name no session
+  if (!decoded.sid) {
+    throw new SessionAuthError('Invalid or expired token');
+  }
+  await sessionService.assertActive(decoded.sid, decoded.sub);
+  return { userId: decoded.sub, sessionId: decoded.sid };
 }
 
-/**
- * Service authentication middleware — Issue #351
- * Allows either JWT token OR X-API-Key header for service-to-service auth.
- * Used for endpoints that OpenClaw agent needs to call.
- */
-export function serviceAuthMiddleware(
+async function authenticateApiToken(
+  token: string,
   req: AuthRequest,
   res: Response,
   next: NextFunction
-): void {
-  // Check for API key first (service-to-service auth)
-  const apiKey = req.headers['x-api-key'];
-  const expectedApiKey = process.env.SERVICE_API_KEY;
-
-  if (apiKey && expectedApiKey && apiKey === expectedApiKey) {
-    // Service auth successful - no userId needed
-    req.userId = 'service';
-    next();
-    return;
-  }
-
-  // Fall back to JWT auth
-  const cookieToken = req.cookies?.token;
-  const headerToken = req.headers.authorization?.replace('Bearer ', '');
-  const token = cookieToken || headerToken;
-
-  if (!token) {
-    res.status(401).json({ error: 'Authentication required' });
-    return;
-  }
-
+): Promise<void> {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { sub: string };
-    req.userId = decoded.sub;
+    const inspectorPhone = req.headers['x-inspector-phone'];
+    const result = await apiTokenService.authenticate(token, {
+      method: req.method,
+      path: req.originalUrl.split('?')[0] as string,
+      inspectorPhone: typeof inspectorPhone === 'string' && inspectorPhone ? inspectorPhone : undefined,
+    });
+    req.userId = result.userId;
+    req.apiTokenId = result.tokenId;
+    req.apiTokenOwnerId = result.ownerId;
     next();
-  } catch {
-    res.status(401).json({ error: 'Invalid or expired token' });
+  } catch (error) {
+    if (error instanceof ApiTokenAuthError) {
+      res.status(401).json({ error: error.message });
+      return;
+    }
+    if (error instanceof ApiTokenScopeError) {
+      res.status(403).json({ error: error.message });
+      return;
+    }
+    next(error);
   }
 }
 
+/**
+ * Generate a short-lived access token for a session
+ */
+export function generateToken(userId: string, sessionId: string): string {
+  return jwt.sign({ sub: userId, sid: sessionId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+}
+
 /**
  * Require admin role for protected endpoints
  * For now, admins are identified by checking personnel role
+ *
+ * This is a platform-level check for reference data shared by every
+ * organisation (building code, checklists, N/A reasons). Organisation roles
+ * are checked with requirePermission in tenant.ts.
  */
 export function requireAdmin(
   req: AuthRequest,
@@ -0,0 +1,96 @@
+/**
+ * Idempotency Middleware
+ *
+ * Honours an Idempotency-Key header on create routes, so a retried request
+ * (WhatsApp redelivering a message, an MCP call repeated after a timeout)
+ * gets the first response back rather than creating a second record.
+ * Runs after authMiddleware; requests without the header are unaffected.
+ *
+ * - Replayed responses carry Idempotent-Replayed: true
+ * - 409 while the first request with the key is still running
+ * - 422 when the key was used for a different request
+ * - Server errors are not stored, so a retry runs the request again
+ */
+
+import type { Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { PrismaIdempotencyRepository } from '../repositories/prisma/idempotency.js';
+import {
+  IdempotencyService,
+  IdempotencyKeyReuseError,
+  IdempotencyInProgressError,
+  requestHash,
+} from '../services/idempotency.js';
+import type { AuthRequest } from './auth.js';
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * Middleware storing and replaying responses through the given service
+ */
+export function createIdempotencyMiddleware(service: IdempotencyService) {
+  return async function idempotent(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    const header = req.headers['idempotency-key'];
+    if (header === undefined || !req.userId) {
+      next();
+      return;
+    }
+
+    const key = typeof header === 'string' ? header.trim() : '';
+    if (!key || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      res.status(400).json({ error: `Idempotency-Key must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters` });
+      return;
+    }
+
+    try {
+      const claim = await service.begin(req.userId, key, requestHash(req.method, req.originalUrl, req.body));
+
+      if ('replay' in claim) {
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(claim.replay.statusCode).json(claim.replay.body);
+        return;
+      }
+
+      // Store the response before sending it, so a retry arriving straight
+      // after sees it rather than a request in progress
+      const send = res.json.bind(res);
+      let settled = false;
+      res.json = ((body: unknown) => {
+        settled = true;
+        const store = res.statusCode >= 500
+          ? service.release(claim.recordId)
+          : service.complete(claim.recordId, res.statusCode, body);
+        store
+          .catch((error) => console.error(`Failed to store response for Idempotency-Key ${key}`, error))
+          .finally(() => send(body));
+        return res;
+      }) as Response['json'];
+
+      // Anything other than a JSON response (or a dropped connection) is not replayable
+      res.on('close', () => {
+        if (!settled) {
+          service.release(claim.recordId)
+            .catch((error) => console.error(`Failed to release Idempotency-Key ${key}`, error));
+        }
+      });
+
+      next();
+    } catch (error) {
+      if (error instanceof IdempotencyInProgressError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      if (error instanceof IdempotencyKeyReuseError) {
+        res.status(422).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  };
+}
+
+const prisma = new PrismaClient();
+
+export const idempotent = createIdempotencyMiddleware(
+  new IdempotencyService(new PrismaIdempotencyRepository(prisma))
+);
@@ -0,0 +1,328 @@
+/**
+ * Tenant Middleware
+ *
+ * Resolves the organisation a request acts in and keeps callers inside it.
+ * Runs after authMiddleware. Clients belonging to several organisations pick
+ * one with the X-Organization-Id header; otherwise their first membership
+ * is used.
+ */
+
+import type { Response, NextFunction } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { PrismaOrganizationRepository } from '../repositories/prisma/organization.js';
+import { PrismaProjectRepository, PrismaPropertyRepository } from '../repositories/prisma/project.js';
+import { PrismaSiteInspectionRepository } from '../repositories/prisma/site-inspection.js';
+import { PrismaPersonnelRepository } from '../repositories/prisma/personnel.js';
+import { PrismaDocumentRepository } from '../repositories/prisma/document.js';
+import { PrismaProjectPhotoRepository } from '../repositories/prisma/project-photo.js';
+import { PrismaClauseReviewRepository } from '../repositories/prisma/clause-review.js';
+import { PrismaChecklistItemRepository } from '../repositories/prisma/checklist-item.js';
+import { PrismaSiteMeasurementRepository } from '../repositories/prisma/site-measurement.js';
+import { PrismaDefectRepository } from '../repositories/prisma/defect.js';
+import { PrismaMoistureReadingRepository } from '../repositories/prisma/moisture-reading.js';
+import { PrismaCostEstimateRepository } from '../repositories/prisma/cost-estimate.js';
+import { PrismaBuildingHistoryRepository } from '../repositories/prisma/building-history.js';
+import { PrismaReportWorkflowRepository } from '../repositories/prisma/report-workflow.js';
+import { PrismaVoiceNoteRepository } from '../repositories/prisma/voice-note.js';
+import { OrganizationService, OrganizationAccessError } from '../services/organization.js';
+import { VoiceNoteService, VoiceNoteNotFoundError } from '../services/voice-note.js';
+import { hasPermission, roleWithin, type Permission } from '../services/permissions.js';
+import type { AuthRequest } from './auth.js';
+
+const prisma = new PrismaClient();
+const organizationService = new OrganizationService(new PrismaOrganizationRepository(prisma));
+const projectRepository = new PrismaProjectRepository(prisma);
+const propertyRepository = new PrismaPropertyRepository(prisma);
+const siteInspectionRepository = new PrismaSiteInspectionRepository(prisma);
+const personnelRepository = new PrismaPersonnelRepository(prisma);
+const documentRepository = new PrismaDocumentRepository(prisma);
+const projectPhotoRepository = new PrismaProjectPhotoRepository(prisma);
+const clauseReviewRepository = new PrismaClauseReviewRepository(prisma);
+const checklistItemRepository = new PrismaChecklistItemRepository(prisma);
+const siteMeasurementRepository = new PrismaSiteMeasurementRepository(prisma);
+const defectRepository = new PrismaDefectRepository(prisma);
+const moistureReadingRepository = new PrismaMoistureReadingRepository(prisma);
+const costEstimateRepository = new PrismaCostEstimateRepository(prisma);
+const buildingHistoryRepository = new PrismaBuildingHistoryRepository(prisma);
+const reportWorkflowRepository = new PrismaReportWorkflowRepository(prisma);
+const voiceNoteService = new VoiceNoteService(new PrismaVoiceNoteRepository(prisma), null);
+
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * Set req.organizationId and req.organizationRole from the caller's membership.
+ * Responds 403 when the caller has no membership in the requested organisation,
+ * or acts for it through an AGENT token whose owner's role there is lesser.
+ */
+export async function tenantMiddleware(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  // Already resolved by an earlier mount for this request
+  if (req.organizationId) {
+    next();
+    return;
+  }
+
+  if (!req.userId) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+
+  try {
+    const requested = req.headers['x-organization-id'];
+    const membership = await organizationService.resolveMembership(
+      req.userId,
+      typeof requested === 'string' && requested ? requested : undefined
+    );
+
+    // An agent acting for an inspector gets no more than its owner's own role allows
+    if (req.apiTokenOwnerId && req.apiTokenOwnerId !== req.userId) {
+      const owner = await organizationService.resolveMembership(req.apiTokenOwnerId, membership.organizationId);
+      if (!roleWithin(membership.role, owner.role)) {
+        res.status(403).json({ error: 'API token owner\'s role does not allow acting as this member' });
+        return;
+      }
+    }
+
+    req.organizationId = membership.organizationId;
+    req.organizationRole = membership.role;
+    next();
+  } catch (error) {
+    if (error instanceof OrganizationAccessError) {
+      res.status(403).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * Require a permission from the caller's role in the current organisation.
+ * Resolves the organisation first when no earlier middleware has.
+ */
+export function requirePermission(permission: Permission) {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    withOrganization(req, res, () => {
+      if (!hasPermission(req.organizationRole, permission)) {
+        res.status(403).json({ error: `Permission required: ${permission}` });
+        return;
+      }
+      next();
+    });
+  };
+}
+
+function withOrganization(req: AuthRequest, res: Response, then: () => void): void {
+  if (req.organizationId) {
+    then();
+    return;
+  }
+  void tenantMiddleware(req, res, then);
+}
+
+// Routes nested under a project, property or inspection are spread across
+// many routers. These guards are mounted on the parent path so a record from
+// another organisation returns 404 before any of those routers run.
+
+export async function requireProjectAccess(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const projectId = req.params.projectId as string;
+    if (!(await projectRepository.findById(req.organizationId as string, projectId))) {
+      res.status(404).json({ error: `Project not found: ${projectId}` });
+      return;
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function requirePropertyAccess(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const propertyId = req.params.propertyId as string;
+    if (!(await propertyRepository.findById(req.organizationId as string, propertyId))) {
+      res.status(404).json({ error: `Property not found: ${propertyId}` });
+      return;
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function requireSiteInspectionAccess(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const inspectionId = req.params.inspectionId as string;
+    // Deleted inspections stay reachable so they can be restored
+    const inspection = await siteInspectionRepository.findById(req.organizationId as string, inspectionId, true);
+    if (!inspection) {
+      res.status(404).json({ error: `Site inspection not found: ${inspectionId}` });
+      return;
+    }
+
+    if (!READ_METHODS.has(req.method) && !(await canEditInspection(req, inspection))) {
+      res.status(403).json({ error: INSPECTION_OWNER_ERROR });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+const INSPECTION_OWNER_ERROR = 'You can only edit site inspections assigned to you';
+
+/**
+ * Writes to an inspection, or anything under it, need inspections:write:any
+ * or inspections:write on an inspection assigned to the caller
+ */
+async function canEditInspection(req: AuthRequest, inspection: { inspectorId: string | null }): Promise<boolean> {
+  if (hasPermission(req.organizationRole, 'inspections:write:any')) return true;
+  if (!hasPermission(req.organizationRole, 'inspections:write')) return false;
+  const personnel = req.userId ? await personnelRepository.findByUserId(req.userId) : null;
+  return !!personnel && inspection.inspectorId === personnel.id;
+}
+
+// Records addressed only by their own ID (/api/documents/:id, /api/defects/:id,
+// ...) sit beside other routes on routers mounted at /api, so these guards
+// are added to each route. The lookup finds the record only through its
+// project, property or inspection in the caller's organisation, and records
+// under a site inspection also apply its ownership rule to writes.
+
+type RecordLookup<T> = (organizationId: string, id: string) => Promise<T | null>;
+
+function requireRecordAccess<T>(
+  label: string,
+  find: RecordLookup<T>,
+  canEdit?: (req: AuthRequest, record: T) => Promise<boolean>
+) {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    withOrganization(req, res, async () => {
+      try {
+        const id = req.params.id as string;
+        const record = await find(req.organizationId as string, id);
+        if (!record) {
+          res.status(404).json({ error: `${label} not found: ${id}` });
+          return;
+        }
+        if (canEdit && !(await canEdit(req, record))) {
+          res.status(403).json({ error: INSPECTION_OWNER_ERROR });
+          return;
+        }
+        next();
+      } catch (error) {
+        next(error);
+      }
+    });
+  };
+}
+
+/** Records under a site inspection follow the inspection's ownership rule for writes */
+async function canEditInspectionRecord(req: AuthRequest, record: { inspectionId: string }): Promise<boolean> {
+  if (READ_METHODS.has(req.method)) return true;
+  const inspection = await siteInspectionRepository.findById(req.organizationId as string, record.inspectionId, true);
+  return !!inspection && (await canEditInspection(req, inspection));
+}
+
+export const requireDocumentAccess = requireRecordAccess('Document', (organizationId, id) =>
+  documentRepository.findByIdInOrganization(organizationId, id)
+);
+
+export const requireProjectPhotoAccess = requireRecordAccess('ProjectPhoto', (organizationId, id) =>
+  projectPhotoRepository.findByIdInOrganization(organizationId, id)
+);
+
+export const requireClauseReviewAccess = requireRecordAccess('Clause review', (organizationId, id) =>
+  clauseReviewRepository.findByIdInOrganization(organizationId, id),
+  canEditInspectionRecord
+);
+
+export const requireChecklistItemAccess = requireRecordAccess('Checklist item', (organizationId, id) =>
+  checklistItemRepository.findByIdInOrganization(organizationId, id),
+  canEditInspectionRecord
+);
+
+export const requireMeasurementAccess = requireRecordAccess('Site measurement', (organizationId, id) =>
+  siteMeasurementRepository.findByIdInOrganization(organizationId, id),
+  canEditInspectionRecord
+);
+
+export const requireDefectAccess = requireRecordAccess('Defect', (organizationId, id) =>
+  defectRepository.findByIdInOrganization(organizationId, id),
+  canEditInspectionRecord
+);
+
+export const requireMoistureReadingAccess = requireRecordAccess('Moisture reading', (organizationId, id) =>
+  moistureReadingRepository.findByIdInOrganization(organizationId, id),
+  canEditInspectionRecord
+);
+
+export const requireCostEstimateAccess = requireRecordAccess('Cost estimate', (organizationId, id) =>
+  costEstimateRepository.findByIdInOrganization(organizationId, id)
+);
+
+export const requireCostLineItemAccess = requireRecordAccess('Cost line item', (organizationId, id) =>
+  costEstimateRepository.findLineItemByIdInOrganization(organizationId, id)
+);
+
+export const requireBuildingHistoryAccess = requireRecordAccess('Building history', (organizationId, id) =>
+  buildingHistoryRepository.findByIdInOrganization(organizationId, id)
+);
+
+export const requireReportAccess = requireRecordAccess('Report', (organizationId, id) =>
+  reportWorkflowRepository.findReportByIdInOrganization(organizationId, id)
+);
+
+export const requireReviewCommentAccess = requireRecordAccess('Review comment', (organizationId, id) =>
+  reportWorkflowRepository.findCommentByIdInOrganization(organizationId, id)
+);
+
+/** voiceNoteId of a create request, and of each item of a bulk request */
+function linkedVoiceNoteIds(body: unknown): string[] {
+  if (!body || typeof body !== 'object') return [];
+  const items = [body, ...Object.values(body).flatMap((value) => (Array.isArray(value) ? value : []))];
+  const ids = items.map((item) => (item && typeof item === 'object' ? (item as { voiceNoteId?: unknown }).voiceNoteId : undefined));
+  return [...new Set(ids.filter((id): id is string => typeof id === 'string'))];
+}
+
+/**
+ * Voice notes linked from a finding, checklist item or clause review must be
+ * in the caller's organisation. Responds 400 for a missing or foreign note.
+ */
+export function requireLinkedVoiceNotes(req: AuthRequest, res: Response, next: NextFunction): void {
+  const ids = linkedVoiceNoteIds(req.body);
+  if (ids.length === 0) {
+    next();
+    return;
+  }
+
+  withOrganization(req, res, async () => {
+    try {
+      for (const id of ids) {
+        await voiceNoteService.findById(req.organizationId as string, id);
+      }
+      next();
+    } catch (error) {
+      if (error instanceof VoiceNoteNotFoundError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  });
+}
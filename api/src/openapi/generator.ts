@@ -20,7 +20,11 @@ This API powers the AI-assisted building inspection workflow:
 
 ## Authentication
 Most endpoints require JWT authentication via cookie or Bearer token.
-Service endpoints (e.g., inspector lookup) accept \`X-API-Key\` header.
+Agents and integrations use a personal API token (\`/api/auth/tokens\`) in the \`X-API-Key\` header.
+
+## Retries
+Create routes for findings, photos, voice notes, checklist items and clause reviews accept an \`Idempotency-Key\` header.
+A retry with the same key and body returns the first response (marked \`Idempotent-Replayed: true\`) without writing again.
 
 ## Workflow
 1. Create inspection with address and client info
@@ -78,7 +82,7 @@ Service endpoints (e.g., inspector lookup) accept \`X-API-Key\` header.
           type: 'apiKey',
           in: 'header',
           name: 'X-API-Key',
-          description: 'Service API key for service-to-service auth',
+          description: 'Personal API token from /api/auth/tokens',
         },
         cookieAuth: {
           type: 'apiKey',
@@ -91,6 +95,7 @@ Service endpoints (e.g., inspector lookup) accept \`X-API-Key\` header.
     security: [
       { bearerAuth: [] },
       { cookieAuth: [] },
+      { apiKey: [] },
     ],
   };
 }
@@ -52,7 +52,7 @@ registry.registerPath({
   summary: 'Look up inspector by phone number',
   description: `Used by WhatsApp agent to identify which inspector is messaging.
 
-**Authentication:** Requires X-API-Key header (service auth) or JWT token.
+**Authentication:** Requires an API token in the X-API-Key header, or a JWT token.
 
 **Phone format:** E.164 format with + prefix (URL encoded as %2B).`,
   tags: ['Inspectors'],
@@ -36,6 +36,13 @@ export const CreateFindingSchema = z.object({
   matchedComment: z.string().optional().openapi({
     description: 'Matched template comment if any',
   }),
+  item: z.string().optional().openapi({
+    description: 'Checklist item the finding covers',
+    example: 'Roof condition and installation',
+  }),
+  voiceNoteId: z.string().uuid().optional().openapi({
+    description: 'Voice note the finding was transcribed from (POST /api/voice-notes)',
+  }),
 }).openapi('CreateFindingRequest');
 
 export const UpdateFindingSchema = z.object({
@@ -49,6 +56,9 @@ export const UpdateFindingSchema = z.object({
   matchedComment: z.string().optional().openapi({
     description: 'Updated matched comment',
   }),
+  item: z.string().optional().openapi({
+    description: 'Updated checklist item',
+  }),
 }).openapi('UpdateFindingRequest');
 
 // ============================================
@@ -92,6 +102,12 @@ export const FindingResponseSchema = z.object({
   matchedComment: z.string().nullable().openapi({
     description: 'Matched template comment',
   }),
+  item: z.string().nullable().openapi({
+    description: 'Checklist item the finding covers',
+  }),
+  voiceNoteId: z.string().uuid().nullable().openapi({
+    description: 'Voice note the finding was transcribed from; play it at /api/voice-notes/{id}/audio',
+  }),
   createdAt: z.string().datetime().openapi({
     description: 'Creation timestamp',
   }),
@@ -36,6 +36,9 @@ export const CreateInspectionSchema = z.object({
     description: 'ID of the checklist template to use',
     example: 'nz-ppi',
   }),
+  projectId: z.string().uuid().optional().openapi({
+    description: 'Project whose property and report type decide which checklist sections apply',
+  }),
   currentSection: z.string().default('exterior').openapi({
     description: 'Current section of the inspection',
     example: 'exterior',
@@ -93,6 +96,12 @@ export const InspectionResponseSchema = z.object({
     description: 'Checklist template ID',
     example: 'nz-ppi',
   }),
+  checklistVersionId: z.string().uuid().nullable().openapi({
+    description: 'Published checklist version the inspection is pinned to',
+  }),
+  projectId: z.string().uuid().nullable().openapi({
+    description: 'Project the inspection belongs to',
+  }),
   status: InspectionStatusSchema,
   currentSection: z.string().openapi({
     description: 'Current section',
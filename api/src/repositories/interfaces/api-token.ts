@@ -0,0 +1,37 @@
+import type { ApiToken, ApiTokenScope, Prisma } from '@prisma/client';
+
+/**
+ * Every field except the hash; used whenever tokens are returned to callers
+ */
+export const apiTokenSummarySelect = {
+  id: true,
+  userId: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  revokedAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+} satisfies Prisma.ApiTokenSelect;
+
+export type ApiTokenSummary = Prisma.ApiTokenGetPayload<{ select: typeof apiTokenSummarySelect }>;
+
+export interface CreateApiTokenInput {
+  userId: string;
+  name: string;
+  prefix: string;
+  tokenHash: string;
+  scopes: ApiTokenScope[];
+  expiresAt?: Date;
+}
+
+export interface IApiTokenRepository {
+  create(input: CreateApiTokenInput): Promise<ApiTokenSummary>;
+  findById(id: string): Promise<ApiTokenSummary | null>;
+  findByHash(tokenHash: string): Promise<ApiToken | null>;
+  findByUserId(userId: string): Promise<ApiTokenSummary[]>;
+  revoke(id: string, revokedAt: Date): Promise<ApiTokenSummary>;
+  touch(id: string, lastUsedAt: Date): Promise<void>;
+  findUserIdByVerifiedPhone(phoneNumber: string): Promise<string | null>;
+}
@@ -25,6 +25,7 @@ export interface UpdateBuildingHistoryInput {
 export interface IBuildingHistoryRepository {
   create(input: CreateBuildingHistoryInput): Promise<BuildingHistory>;
   findById(id: string): Promise<BuildingHistory | null>;
+  findByIdInOrganization(organizationId: string, id: string): Promise<BuildingHistory | null>;
   findByPropertyId(propertyId: string): Promise<BuildingHistory[]>;
   update(id: string, input: UpdateBuildingHistoryInput): Promise<BuildingHistory>;
   delete(id: string): Promise<void>;
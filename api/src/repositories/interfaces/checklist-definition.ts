@@ -0,0 +1,36 @@
+import type { Prisma, ChecklistDefinition, ChecklistVersion } from '@prisma/client';
+
+export interface CreateChecklistDefinitionInput {
+  key: string;
+  name: string;
+  draft?: Prisma.InputJsonValue;
+  createdById?: string;
+}
+
+export interface UpdateChecklistDefinitionInput {
+  name?: string;
+  /** null discards the draft */
+  draft?: Prisma.InputJsonValue | null;
+  active?: boolean;
+}
+
+export interface PublishChecklistVersionInput {
+  version: number;
+  name: string;
+  content: Prisma.InputJsonValue;
+  changeNotes?: string;
+  publishedById?: string;
+}
+
+export interface IChecklistDefinitionRepository {
+  create(input: CreateChecklistDefinitionInput): Promise<ChecklistDefinition>;
+  findByKey(key: string): Promise<ChecklistDefinition | null>;
+  findAll(includeInactive?: boolean): Promise<ChecklistDefinition[]>;
+  update(id: string, input: UpdateChecklistDefinitionInput): Promise<ChecklistDefinition>;
+
+  /** Record a new immutable version, advance latestVersion and clear the draft */
+  publish(id: string, input: PublishChecklistVersionInput): Promise<ChecklistVersion>;
+  findVersions(definitionId: string): Promise<ChecklistVersion[]>;
+  findVersion(definitionId: string, version: number): Promise<ChecklistVersion | null>;
+  findVersionById(id: string): Promise<ChecklistVersion | null>;
+}
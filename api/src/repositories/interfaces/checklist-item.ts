@@ -7,6 +7,8 @@ export interface CreateChecklistItemInput {
   decision: Decision;
   notes?: string;
   photoIds?: string[];
+  /** Voice note the item was transcribed from */
+  voiceNoteId?: string;
   sortOrder?: number;
 }
 
@@ -28,6 +30,7 @@ export interface ChecklistItemSearchParams {
 export interface IChecklistItemRepository {
   create(input: CreateChecklistItemInput): Promise<ChecklistItem>;
   findById(id: string): Promise<ChecklistItem | null>;
+  findByIdInOrganization(organizationId: string, id: string): Promise<ChecklistItem | null>;
   findByInspectionId(inspectionId: string): Promise<ChecklistItem[]>;
   findAll(params?: ChecklistItemSearchParams): Promise<ChecklistItem[]>;
   update(id: string, input: UpdateChecklistItemInput): Promise<ChecklistItem>;
@@ -8,6 +8,8 @@ export interface CreateClauseReviewInput {
   observations?: string;
   photoIds?: string[];
   docIds?: string[];
+  /** Voice note the observations were transcribed from */
+  voiceNoteId?: string;
   docsRequired?: string;
   remedialWorks?: string;
   sortOrder?: number;
@@ -44,6 +46,7 @@ export interface ClauseReviewWithClause extends ClauseReview {
 export interface IClauseReviewRepository {
   create(input: CreateClauseReviewInput): Promise<ClauseReviewWithClause>;
   findById(id: string): Promise<ClauseReviewWithClause | null>;
+  findByIdInOrganization(organizationId: string, id: string): Promise<ClauseReview | null>;
   findByInspectionId(inspectionId: string): Promise<ClauseReviewWithClause[]>;
   findByInspectionAndClause(inspectionId: string, clauseId: string): Promise<ClauseReviewWithClause | null>;
   findAll(params?: ClauseReviewSearchParams): Promise<ClauseReviewWithClause[]>;
@@ -0,0 +1,19 @@
+import type { CommentFeedback, CommentFeedbackOutcome } from '@prisma/client';
+
+export interface CreateCommentFeedbackInput {
+  organizationId: string;
+  userId?: string;
+  findingId?: string;
+  section?: string;
+  findingText: string;
+  commentKey?: string;
+  suggestedComment?: string;
+  finalComment?: string;
+  outcome: CommentFeedbackOutcome;
+  rank?: number;
+}
+
+export interface ICommentFeedbackRepository {
+  create(input: CreateCommentFeedbackInput): Promise<CommentFeedback>;
+  findRecentByOrganization(organizationId: string, limit: number): Promise<CommentFeedback[]>;
+}
@@ -0,0 +1,74 @@
+import type { CostEstimate, CostLineItem, CostCategory, Prisma } from '@prisma/client';
+
+export const costEstimateInclude = {
+  lineItems: {
+    include: { defect: { select: { id: true, defectNumber: true } } },
+    orderBy: [{ sortOrder: 'asc' }, { itemNumber: 'asc' }],
+  },
+} satisfies Prisma.CostEstimateInclude;
+
+export type CostEstimateWithLineItems = Prisma.CostEstimateGetPayload<{ include: typeof costEstimateInclude }>;
+
+export interface CreateCostEstimateInput {
+  projectId: string;
+  currency?: string;
+  contingencyRate?: number;
+  notes?: string;
+  validUntil?: Date;
+}
+
+export interface UpdateCostEstimateInput {
+  currency?: string;
+  contingencyRate?: number;
+  notes?: string | null;
+  validUntil?: Date | null;
+}
+
+export interface CostEstimateTotals {
+  subtotal: number;
+  contingency: number;
+  totalExGst: number;
+  gst: number;
+  totalIncGst: number;
+}
+
+export interface CreateCostLineItemInput {
+  estimateId: string;
+  defectId?: string;
+  itemNumber: number;
+  description: string;
+  quantity: number;
+  unit: string;
+  rate: number;
+  total: number;
+  category?: CostCategory;
+  notes?: string;
+  sortOrder?: number;
+}
+
+export interface UpdateCostLineItemInput {
+  defectId?: string | null;
+  description?: string;
+  quantity?: number;
+  unit?: string;
+  rate?: number;
+  total?: number;
+  category?: CostCategory | null;
+  notes?: string | null;
+  sortOrder?: number;
+}
+
+export interface ICostEstimateRepository {
+  create(input: CreateCostEstimateInput): Promise<CostEstimateWithLineItems>;
+  findById(id: string): Promise<CostEstimateWithLineItems | null>;
+  findByIdInOrganization(organizationId: string, id: string): Promise<CostEstimate | null>;
+  findByProjectId(projectId: string): Promise<CostEstimateWithLineItems | null>;
+  update(id: string, input: UpdateCostEstimateInput): Promise<CostEstimateWithLineItems>;
+  saveTotals(id: string, totals: CostEstimateTotals): Promise<CostEstimateWithLineItems>;
+
+  createLineItem(input: CreateCostLineItemInput): Promise<CostLineItem>;
+  findLineItemById(id: string): Promise<CostLineItem | null>;
+  findLineItemByIdInOrganization(organizationId: string, id: string): Promise<CostLineItem | null>;
+  updateLineItem(id: string, input: UpdateCostLineItemInput): Promise<CostLineItem>;
+  deleteLineItem(id: string): Promise<void>;
+}
@@ -0,0 +1,51 @@
+import type { Defect, BuildingElement, DefectPriority, Prisma } from '@prisma/client';
+
+export const defectInclude = {
+  clause: { select: { id: true, code: true, title: true } },
+  moistureReadings: { orderBy: { timestamp: 'asc' } },
+  costLineItems: { select: { id: true, estimateId: true, itemNumber: true, total: true } },
+} satisfies Prisma.DefectInclude;
+
+export type DefectWithRelations = Prisma.DefectGetPayload<{ include: typeof defectInclude }>;
+
+export interface CreateDefectInput {
+  inspectionId: string;
+  defectNumber: string;
+  location: string;
+  buildingElement: BuildingElement;
+  clauseId?: string;
+  description: string;
+  cause?: string;
+  remedialAction?: string;
+  priority: DefectPriority;
+  photoIds?: string[];
+  sortOrder?: number;
+}
+
+export interface UpdateDefectInput {
+  location?: string;
+  buildingElement?: BuildingElement;
+  clauseId?: string | null;
+  description?: string;
+  cause?: string | null;
+  remedialAction?: string | null;
+  priority?: DefectPriority;
+  photoIds?: string[];
+  sortOrder?: number;
+}
+
+export interface DefectSearchParams {
+  priority?: DefectPriority;
+  buildingElement?: BuildingElement;
+}
+
+export interface IDefectRepository {
+  create(input: CreateDefectInput): Promise<DefectWithRelations>;
+  findById(id: string): Promise<DefectWithRelations | null>;
+  findByIdInOrganization(organizationId: string, id: string): Promise<Defect | null>;
+  findByInspectionId(inspectionId: string, params?: DefectSearchParams): Promise<DefectWithRelations[]>;
+  update(id: string, input: UpdateDefectInput): Promise<DefectWithRelations>;
+  delete(id: string): Promise<void>;
+  /** Set sort order and defect number for each defect, in one transaction */
+  renumber(inspectionId: string, defects: Array<Pick<Defect, 'id' | 'defectNumber' | 'sortOrder'>>): Promise<void>;
+}
@@ -1,25 +1,29 @@
-import type { Document, DocumentType, DocumentStatus } from '@prisma/client';
+import type { Document, DocumentType, DocumentStatus, Prisma } from '@prisma/client';
 
 export interface CreateDocumentInput {
   projectId: string;
   filePath: string;
   filename: string;
+  mimeType?: string;
+  fileSize?: number;
   documentType: DocumentType;
   description: string;
-  appendixLetter?: string;
   issuer?: string;
   issuedAt?: Date;
   referenceNumber?: string;
   status?: DocumentStatus;
   verified?: boolean;
   linkedClauses?: string[];
+  classification?: Prisma.InputJsonValue;
+  needsConfirmation?: boolean;
   sortOrder?: number;
 }
 
 export interface UpdateDocumentInput {
-  appendixLetter?: string;
   filePath?: string;
   filename?: string;
+  mimeType?: string;
+  fileSize?: number;
   documentType?: DocumentType;
   description?: string;
   issuer?: string | null;
@@ -28,6 +32,7 @@ export interface UpdateDocumentInput {
   status?: DocumentStatus;
   verified?: boolean;
   linkedClauses?: string[];
+  needsConfirmation?: boolean;
   sortOrder?: number;
 }
 
@@ -35,15 +40,17 @@ export interface DocumentSearchParams {
   projectId?: string;
   documentType?: DocumentType;
   status?: DocumentStatus;
+  needsConfirmation?: boolean;
 }
 
 export interface IDocumentRepository {
   create(input: CreateDocumentInput): Promise<Document>;
   findById(id: string): Promise<Document | null>;
+  findByIdInOrganization(organizationId: string, id: string): Promise<Document | null>;
   findByProjectId(projectId: string): Promise<Document[]>;
   findAll(params?: DocumentSearchParams): Promise<Document[]>;
   update(id: string, input: UpdateDocumentInput): Promise<Document>;
   delete(id: string): Promise<void>;
-  getNextAppendixLetter(projectId: string): Promise<string>;
+  setAppendixLetters(letters: Map<string, string | null>): Promise<void>;
   reorder(projectId: string, documentIds: string[]): Promise<void>;
 }
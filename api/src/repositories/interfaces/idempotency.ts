@@ -0,0 +1,19 @@
+import type { IdempotencyRecord, Prisma } from '@prisma/client';
+
+export interface CreateIdempotencyRecordInput {
+  userId: string;
+  key: string;
+  requestHash: string;
+  expiresAt: Date;
+}
+
+export interface IIdempotencyRepository {
+  /** Claim a key; null when the caller already holds a record for it */
+  create(input: CreateIdempotencyRecordInput): Promise<IdempotencyRecord | null>;
+  findByKey(userId: string, key: string): Promise<IdempotencyRecord | null>;
+  /** Store the response of the request that claimed the key */
+  complete(id: string, statusCode: number, body: Prisma.InputJsonValue): Promise<void>;
+  delete(id: string): Promise<void>;
+  /** Remove records expired before the given time, returning how many */
+  deleteExpired(before: Date): Promise<number>;
+}
@@ -1,10 +1,13 @@
-import type { Inspection, Finding, Photo, Report, Status, Severity, Prisma } from '@prisma/client';
+import type { Inspection, Finding, Photo, Report, Status, Severity, Prisma, Project, Property } from '@prisma/client';
 
 export interface CreateInspectionInput {
   address: string;
   clientName: string;
   inspectorName?: string;
   checklistId: string;
+  /** The published checklist version the inspection is pinned to */
+  checklistVersionId?: string;
+  projectId?: string;
   currentSection: string;
   metadata?: Prisma.InputJsonValue;
 }
@@ -25,12 +28,16 @@ export interface CreateFindingInput {
   text: string;
   severity?: Severity;
   matchedComment?: string;
+  item?: string;
+  /** Voice note the finding was transcribed from */
+  voiceNoteId?: string;
 }
 
 export interface UpdateFindingInput {
   text?: string;
   severity?: Severity;
   matchedComment?: string;
+  item?: string;
 }
 
 export interface CreatePhotoInput {
@@ -44,6 +51,7 @@ export interface CreateReportInput {
   inspectionId: string;
   format?: string;
   path: string;
+  preparedById?: string;
 }
 
 export interface IInspectionRepository {
@@ -53,6 +61,8 @@ export interface IInspectionRepository {
   findAll(): Promise<Inspection[]>;
   update(id: string, input: UpdateInspectionInput): Promise<Inspection>;
   delete(id: string): Promise<void>;
+  /** The project the inspection belongs to, with its property */
+  findProject(inspectionId: string): Promise<(Project & { property: Property }) | null>;
   
   // Findings
   createFinding(input: CreateFindingInput): Promise<Finding>;
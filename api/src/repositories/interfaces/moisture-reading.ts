@@ -0,0 +1,44 @@
+import type { MoistureReading, Prisma } from '@prisma/client';
+
+export const moistureReadingInclude = {
+  defect: { select: { id: true, defectNumber: true } },
+  measurement: { select: { id: true, result: true } },
+} satisfies Prisma.MoistureReadingInclude;
+
+export type MoistureReadingWithRelations = Prisma.MoistureReadingGetPayload<{ include: typeof moistureReadingInclude }>;
+
+export interface CreateMoistureReadingInput {
+  inspectionId: string;
+  defectId?: string;
+  measurementId?: string;
+  location: string;
+  substrate: string;
+  reading: number;
+  depth?: number;
+  equipmentUsed?: string;
+  timestamp?: Date;
+  notes?: string;
+  photoId?: string;
+}
+
+export interface UpdateMoistureReadingInput {
+  defectId?: string | null;
+  measurementId?: string | null;
+  location?: string;
+  substrate?: string;
+  reading?: number;
+  depth?: number | null;
+  equipmentUsed?: string | null;
+  timestamp?: Date;
+  notes?: string | null;
+  photoId?: string | null;
+}
+
+export interface IMoistureReadingRepository {
+  create(input: CreateMoistureReadingInput): Promise<MoistureReadingWithRelations>;
+  findById(id: string): Promise<MoistureReadingWithRelations | null>;
+  findByIdInOrganization(organizationId: string, id: string): Promise<MoistureReading | null>;
+  findByInspectionId(inspectionId: string): Promise<MoistureReadingWithRelations[]>;
+  update(id: string, input: UpdateMoistureReadingInput): Promise<MoistureReadingWithRelations>;
+  delete(id: string): Promise<void>;
+}
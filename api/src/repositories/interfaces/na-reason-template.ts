@@ -1,6 +1,21 @@
 import type { NAReasonTemplate } from '@prisma/client';
 
+export interface CreateNAReasonTemplateInput {
+  template: string;
+  usage?: string;
+  sortOrder?: number;
+}
+
+export interface UpdateNAReasonTemplateInput {
+  template?: string;
+  usage?: string | null;
+  sortOrder?: number;
+}
+
 export interface INAReasonTemplateRepository {
   findAll(): Promise<NAReasonTemplate[]>;
   findById(id: string): Promise<NAReasonTemplate | null>;
+  create(input: CreateNAReasonTemplateInput): Promise<NAReasonTemplate>;
+  update(id: string, input: UpdateNAReasonTemplateInput): Promise<NAReasonTemplate>;
+  delete(id: string): Promise<void>;
 }
@@ -0,0 +1,38 @@
+import type { Organization, OrganizationMembership, OrganizationRole, Prisma } from '@prisma/client';
+
+export const membershipUserInclude = {
+  user: { select: { id: true, email: true, name: true } },
+} satisfies Prisma.OrganizationMembershipInclude;
+
+export type MembershipWithUser = Prisma.OrganizationMembershipGetPayload<{ include: typeof membershipUserInclude }>;
+
+export const membershipOrganizationInclude = {
+  organization: true,
+} satisfies Prisma.OrganizationMembershipInclude;
+
+export type MembershipWithOrganization = Prisma.OrganizationMembershipGetPayload<{
+  include: typeof membershipOrganizationInclude;
+}>;
+
+export interface CreateOrganizationInput {
+  name: string;
+}
+
+export interface UpdateOrganizationInput {
+  name?: string;
+}
+
+export interface IOrganizationRepository {
+  /** Create an organisation with the given user as its first admin */
+  create(input: CreateOrganizationInput, adminUserId: string): Promise<Organization>;
+  findById(id: string): Promise<Organization | null>;
+  update(id: string, input: UpdateOrganizationInput): Promise<Organization>;
+  findMembershipsForUser(userId: string): Promise<MembershipWithOrganization[]>;
+  findMembership(organizationId: string, userId: string): Promise<OrganizationMembership | null>;
+  findMembers(organizationId: string): Promise<MembershipWithUser[]>;
+  addMember(organizationId: string, userId: string, role: OrganizationRole): Promise<MembershipWithUser>;
+  updateMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<MembershipWithUser>;
+  removeMember(organizationId: string, userId: string): Promise<void>;
+  countAdmins(organizationId: string): Promise<number>;
+  findUserIdByEmail(email: string): Promise<string | null>;
+}
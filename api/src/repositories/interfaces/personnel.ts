@@ -0,0 +1,128 @@
+import type {
+  Company,
+  Personnel,
+  Credential,
+  PersonnelRole,
+  CredentialType,
+  Prisma,
+} from '@prisma/client';
+
+export const personnelInclude = {
+  company: true,
+  credentials: { orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }] },
+} satisfies Prisma.PersonnelInclude;
+
+export type PersonnelWithCredentials = Prisma.PersonnelGetPayload<{ include: typeof personnelInclude }>;
+
+export const expiringCredentialInclude = {
+  personnel: {
+    select: { id: true, name: true, email: true, role: true, company: { select: { name: true } } },
+  },
+} satisfies Prisma.CredentialInclude;
+
+export type CredentialWithPersonnel = Prisma.CredentialGetPayload<{ include: typeof expiringCredentialInclude }>;
+
+// Company interfaces
+export interface CreateCompanyInput {
+  name: string;
+  logoPath?: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+  website?: string;
+}
+
+export interface UpdateCompanyInput {
+  name?: string;
+  logoPath?: string | null;
+  address?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  website?: string | null;
+}
+
+// Personnel interfaces
+export interface CreatePersonnelInput {
+  name: string;
+  role: PersonnelRole;
+  email: string;
+  phone?: string;
+  mobile?: string;
+  companyId: string;
+  userId?: string;
+}
+
+export interface UpdatePersonnelInput {
+  name?: string;
+  role?: PersonnelRole;
+  email?: string;
+  phone?: string | null;
+  mobile?: string | null;
+  active?: boolean;
+  companyId?: string;
+  userId?: string | null;
+}
+
+export interface PersonnelSearchParams {
+  role?: PersonnelRole | PersonnelRole[];
+  active?: boolean;
+  companyId?: string;
+  name?: string;
+}
+
+// Credential interfaces
+export interface CreateCredentialInput {
+  personnelId: string;
+  type: CredentialType;
+  membershipCode?: string;
+  membershipFull?: string;
+  registration?: string;
+  licenseNumber?: string;
+  qualifications?: string[];
+  issuedDate?: Date;
+  expiryDate?: Date;
+  verified?: boolean;
+  sortOrder?: number;
+}
+
+export interface UpdateCredentialInput {
+  type?: CredentialType;
+  membershipCode?: string | null;
+  membershipFull?: string | null;
+  registration?: string | null;
+  licenseNumber?: string | null;
+  qualifications?: string[];
+  issuedDate?: Date | null;
+  expiryDate?: Date | null;
+  verified?: boolean;
+  sortOrder?: number;
+}
+
+// Companies belong to an organisation; personnel and credentials are scoped
+// through their company. Lookups by user or email are not scoped: both are
+// unique across organisations.
+
+export interface ICompanyRepository {
+  create(organizationId: string, input: CreateCompanyInput): Promise<Company>;
+  findById(organizationId: string, id: string): Promise<Company | null>;
+  findAll(organizationId: string): Promise<Company[]>;
+  update(organizationId: string, id: string, input: UpdateCompanyInput): Promise<Company>;
+  delete(organizationId: string, id: string): Promise<void>;
+  countPersonnel(id: string): Promise<number>;
+}
+
+export interface IPersonnelRepository {
+  create(input: CreatePersonnelInput): Promise<PersonnelWithCredentials>;
+  findById(organizationId: string, id: string): Promise<PersonnelWithCredentials | null>;
+  findByUserId(userId: string): Promise<PersonnelWithCredentials | null>;
+  findByEmail(email: string): Promise<Personnel | null>;
+  findAll(organizationId: string, params?: PersonnelSearchParams): Promise<PersonnelWithCredentials[]>;
+  update(organizationId: string, id: string, input: UpdatePersonnelInput): Promise<Personnel>;
+
+  createCredential(input: CreateCredentialInput): Promise<Credential>;
+  findCredentialById(organizationId: string, id: string): Promise<Credential | null>;
+  updateCredential(organizationId: string, id: string, input: UpdateCredentialInput): Promise<Credential>;
+  deleteCredential(organizationId: string, id: string): Promise<void>;
+  /** Credentials of active personnel expiring on or before the given date (including already expired) */
+  findExpiringCredentials(organizationId: string, before: Date): Promise<CredentialWithPersonnel[]>;
+}
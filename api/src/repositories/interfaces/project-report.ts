@@ -0,0 +1,77 @@
+import type { Prisma, Report, ReportType } from '@prisma/client';
+import { costEstimateInclude } from './cost-estimate.js';
+
+/**
+ * Relations loaded to assemble a project-level report.
+ */
+export const projectReportInclude = {
+  property: {
+    include: {
+      buildingHistory: { orderBy: [{ year: 'asc' }, { sortOrder: 'asc' }] },
+    },
+  },
+  client: true,
+  siteInspections: {
+    where: { deletedAt: null },
+    orderBy: { date: 'asc' },
+    include: {
+      clauseReviews: {
+        include: { clause: true },
+        orderBy: [{ clause: { category: 'asc' } }, { clause: { sortOrder: 'asc' } }],
+      },
+    },
+  },
+  documents: { orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }] },
+  photos: { orderBy: { reportNumber: 'asc' } },
+} satisfies Prisma.ProjectInclude;
+
+export type ProjectReportData = Prisma.ProjectGetPayload<{ include: typeof projectReportInclude }>;
+
+/**
+ * Relations loaded to assemble a CCC gap analysis report.
+ */
+export const cccGapReportInclude = {
+  property: projectReportInclude.property,
+  client: true,
+  siteInspections: {
+    where: { deletedAt: null },
+    orderBy: { date: 'asc' },
+    include: {
+      defects: {
+        include: {
+          clause: { select: { id: true, code: true, title: true } },
+          costLineItems: { select: { id: true } },
+        },
+        orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+      },
+      moistureReadings: {
+        include: {
+          defect: { select: { defectNumber: true } },
+          measurement: { select: { result: true } },
+        },
+        orderBy: { timestamp: 'asc' },
+      },
+    },
+  },
+  documents: projectReportInclude.documents,
+  photos: projectReportInclude.photos,
+  costEstimate: { include: costEstimateInclude },
+} satisfies Prisma.ProjectInclude;
+
+export type CccGapReportData = Prisma.ProjectGetPayload<{ include: typeof cccGapReportInclude }>;
+
+export interface CreateProjectReportInput {
+  projectId: string;
+  type: ReportType;
+  format?: string;
+  path: string;
+  preparedById?: string;
+}
+
+export interface IProjectReportRepository {
+  loadProjectData(projectId: string): Promise<ProjectReportData | null>;
+  loadCccGapData(projectId: string): Promise<CccGapReportData | null>;
+  createReport(input: CreateProjectReportInput): Promise<Report>;
+  findReportById(id: string): Promise<Report | null>;
+  findReportsByProject(projectId: string): Promise<Report[]>;
+}
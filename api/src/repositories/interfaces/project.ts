@@ -37,6 +37,8 @@ export interface CreatePropertyInput {
   territorialAuthority: TerritorialAuthority;
   bcNumber?: string;
   yearBuilt?: number;
+  latitude?: number;
+  longitude?: number;
   siteData?: Prisma.InputJsonValue;
   construction?: Prisma.InputJsonValue;
 }
@@ -51,6 +53,8 @@ export interface UpdatePropertyInput {
   territorialAuthority?: TerritorialAuthority;
   bcNumber?: string;
   yearBuilt?: number;
+  latitude?: number;
+  longitude?: number;
   siteData?: Prisma.InputJsonValue;
   construction?: Prisma.InputJsonValue;
 }
@@ -87,26 +91,28 @@ export interface ClientSearchParams {
 }
 
 // Repository interfaces
+// Every lookup and write is scoped to an organisation; records owned by
+// another organisation are treated as missing.
 export interface IProjectRepository {
-  create(input: CreateProjectInput & { jobNumber: string }): Promise<Project>;
-  findById(id: string): Promise<Project | null>;
-  findByJobNumber(jobNumber: string): Promise<Project | null>;
-  findAll(params?: ProjectSearchParams): Promise<Project[]>;
-  update(id: string, input: UpdateProjectInput): Promise<Project>;
-  delete(id: string): Promise<void>;
+  create(organizationId: string, input: CreateProjectInput & { jobNumber: string }): Promise<Project>;
+  findById(organizationId: string, id: string): Promise<Project | null>;
+  findByJobNumber(organizationId: string, jobNumber: string): Promise<Project | null>;
+  findAll(organizationId: string, params?: ProjectSearchParams): Promise<Project[]>;
+  update(organizationId: string, id: string, input: UpdateProjectInput): Promise<Project>;
+  delete(organizationId: string, id: string): Promise<void>;
   generateJobNumber(): Promise<string>;
 }
 
 export interface IPropertyRepository {
-  create(input: CreatePropertyInput): Promise<Property>;
-  findById(id: string): Promise<Property | null>;
-  findAll(params?: PropertySearchParams): Promise<Property[]>;
-  update(id: string, input: UpdatePropertyInput): Promise<Property>;
+  create(organizationId: string, input: CreatePropertyInput): Promise<Property>;
+  findById(organizationId: string, id: string): Promise<Property | null>;
+  findAll(organizationId: string, params?: PropertySearchParams): Promise<Property[]>;
+  update(organizationId: string, id: string, input: UpdatePropertyInput): Promise<Property>;
 }
 
 export interface IClientRepository {
-  create(input: CreateClientInput): Promise<Client>;
-  findById(id: string): Promise<Client | null>;
-  findAll(params?: ClientSearchParams): Promise<Client[]>;
-  update(id: string, input: UpdateClientInput): Promise<Client>;
+  create(organizationId: string, input: CreateClientInput): Promise<Client>;
+  findById(organizationId: string, id: string): Promise<Client | null>;
+  findAll(organizationId: string, params?: ClientSearchParams): Promise<Client[]>;
+  update(organizationId: string, id: string, input: UpdateClientInput): Promise<Client>;
 }
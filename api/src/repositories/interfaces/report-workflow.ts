@@ -0,0 +1,85 @@
+import type {
+  Report,
+  ReportStatus,
+  ReportVersion,
+  ReviewComment,
+  ReportAuditLog,
+  CommentPriority,
+  CommentStatus,
+  AuditAction,
+  Prisma,
+} from '@prisma/client';
+
+export interface UpdateReportStatusInput {
+  status: ReportStatus;
+  version?: number;
+  reviewedById?: string;
+}
+
+export interface CreateReportVersionInput {
+  reportId: string;
+  versionNumber: number;
+  createdById: string;
+  pdfPath?: string;
+  description?: string;
+}
+
+export interface CreateReviewCommentInput {
+  reportId: string;
+  authorId: string;
+  content: string;
+  priority: CommentPriority;
+  sectionId?: string;
+  clauseId?: string;
+}
+
+export interface UpdateReviewCommentInput {
+  content?: string;
+  priority?: CommentPriority;
+  sectionId?: string | null;
+  clauseId?: string | null;
+  status?: CommentStatus;
+  resolvedById?: string;
+  resolvedAt?: Date;
+  resolution?: string;
+}
+
+export interface ReviewCommentSearchParams {
+  status?: CommentStatus;
+  priority?: CommentPriority;
+}
+
+export interface CreateAuditLogInput {
+  reportId: string;
+  action: AuditAction;
+  userId: string;
+  fromStatus?: ReportStatus;
+  toStatus?: ReportStatus;
+  details?: Prisma.InputJsonValue;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface IReportWorkflowRepository {
+  // Reports
+  findReportById(id: string): Promise<Report | null>;
+  findReportByIdInOrganization(organizationId: string, id: string): Promise<Report | null>;
+  /** Update the status, creating the given version snapshot in the same transaction */
+  updateStatus(id: string, input: UpdateReportStatusInput, version?: CreateReportVersionInput): Promise<Report>;
+
+  // Versions
+  findVersions(reportId: string): Promise<ReportVersion[]>;
+  findVersion(reportId: string, versionNumber: number): Promise<ReportVersion | null>;
+  findLatestVersion(reportId: string): Promise<ReportVersion | null>;
+
+  // Review comments
+  createComment(input: CreateReviewCommentInput): Promise<ReviewComment>;
+  findCommentById(id: string): Promise<ReviewComment | null>;
+  findCommentByIdInOrganization(organizationId: string, id: string): Promise<ReviewComment | null>;
+  findComments(reportId: string, params?: ReviewCommentSearchParams): Promise<ReviewComment[]>;
+  updateComment(id: string, input: UpdateReviewCommentInput): Promise<ReviewComment>;
+
+  // Audit trail
+  createAuditLog(input: CreateAuditLogInput): Promise<ReportAuditLog>;
+  findAuditLogs(reportId: string): Promise<ReportAuditLog[]>;
+}
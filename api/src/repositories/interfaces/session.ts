@@ -0,0 +1,28 @@
+import type { Session } from '@prisma/client';
+
+export interface CreateSessionInput {
+  userId: string;
+  refreshTokenHash: string;
+  userAgent?: string;
+  ipAddress?: string;
+  expiresAt: Date;
+}
+
+export interface RotateSessionInput {
+  refreshTokenHash: string;
+  previousRefreshTokenHash: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+}
+
+export interface ISessionRepository {
+  create(input: CreateSessionInput): Promise<Session>;
+  findById(id: string): Promise<Session | null>;
+  findByRefreshTokenHash(refreshTokenHash: string): Promise<Session | null>;
+  findByPreviousRefreshTokenHash(refreshTokenHash: string): Promise<Session | null>;
+  findActiveByUserId(userId: string, now: Date): Promise<Session[]>;
+  /** Replace the refresh token if it is still previousRefreshTokenHash; null when it has moved on */
+  rotate(id: string, input: RotateSessionInput): Promise<Session | null>;
+  revoke(id: string, revokedAt: Date): Promise<void>;
+  revokeAllForUser(userId: string, revokedAt: Date): Promise<number>;
+}
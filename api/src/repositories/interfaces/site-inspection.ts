@@ -11,7 +11,9 @@ export interface CreateSiteInspectionInput {
   type: InspectionType;
   stage: InspectionStage;
   date: Date;
-  inspectorName: string;
+  /** Defaults to the inspector's name when inspectorId is given */
+  inspectorName?: string;
+  inspectorId?: string;
   weather?: string;
   personsPresent?: string;
   equipment?: string[];
@@ -30,6 +32,7 @@ export interface UpdateSiteInspectionInput {
   methodology?: string;
   areasNotAccessed?: string;
   inspectorName?: string;
+  inspectorId?: string | null;
   lbpOnSite?: boolean;
   lbpLicenseSighted?: boolean;
   lbpLicenseNumber?: string;
@@ -49,13 +52,18 @@ export interface SiteInspectionSearchParams {
   includeDeleted?: boolean;
 }
 
+/**
+ * Inspections belong to an organisation through their project. Lookups and
+ * writes are scoped to the caller's organisation; the project passed to
+ * create() must already have been checked against it.
+ */
 export interface ISiteInspectionRepository {
-  create(input: CreateSiteInspectionInput): Promise<SiteInspection>;
-  findById(id: string, includeDeleted?: boolean): Promise<SiteInspection | null>;
-  findByProjectId(projectId: string, includeDeleted?: boolean): Promise<SiteInspection[]>;
-  findAll(params?: SiteInspectionSearchParams): Promise<SiteInspection[]>;
-  update(id: string, input: UpdateSiteInspectionInput): Promise<SiteInspection>;
-  softDelete(id: string): Promise<SiteInspection>;
-  restore(id: string): Promise<SiteInspection>;
-  hardDelete(id: string): Promise<void>;
+  create(input: CreateSiteInspectionInput & { inspectorName: string }): Promise<SiteInspection>;
+  findById(organizationId: string, id: string, includeDeleted?: boolean): Promise<SiteInspection | null>;
+  findByProjectId(organizationId: string, projectId: string, includeDeleted?: boolean): Promise<SiteInspection[]>;
+  findAll(organizationId: string, params?: SiteInspectionSearchParams): Promise<SiteInspection[]>;
+  update(organizationId: string, id: string, input: UpdateSiteInspectionInput): Promise<SiteInspection>;
+  softDelete(organizationId: string, id: string): Promise<SiteInspection>;
+  restore(organizationId: string, id: string): Promise<SiteInspection>;
+  hardDelete(organizationId: string, id: string): Promise<void>;
 }
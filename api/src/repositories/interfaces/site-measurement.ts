@@ -32,6 +32,7 @@ export interface SiteMeasurementWithClause extends SiteMeasurement {
 export interface ISiteMeasurementRepository {
   create(input: CreateSiteMeasurementInput): Promise<SiteMeasurementWithClause>;
   findById(id: string): Promise<SiteMeasurementWithClause | null>;
+  findByIdInOrganization(organizationId: string, id: string): Promise<SiteMeasurement | null>;
   findByInspectionId(inspectionId: string): Promise<SiteMeasurementWithClause[]>;
   update(id: string, input: UpdateSiteMeasurementInput): Promise<SiteMeasurementWithClause>;
   delete(id: string): Promise<void>;
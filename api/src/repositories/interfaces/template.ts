@@ -0,0 +1,69 @@
+import type { Prisma, Template, TemplateVersion, TemplateCategory, ReportType } from '@prisma/client';
+
+/**
+ * Project data available to template variables: property, client and the
+ * most recent site inspection.
+ */
+export const templateVariableInclude = {
+  property: true,
+  client: true,
+  siteInspections: {
+    where: { deletedAt: null },
+    orderBy: { date: 'desc' },
+    take: 1,
+  },
+} satisfies Prisma.ProjectInclude;
+
+export type TemplateVariableData = Prisma.ProjectGetPayload<{ include: typeof templateVariableInclude }>;
+
+export interface CreateTemplateInput {
+  name: string;
+  category: TemplateCategory;
+  reportType?: ReportType;
+  section?: string;
+  content: string;
+  variables: string[];
+  locked?: boolean;
+  createdById?: string;
+  changeNotes?: string;
+}
+
+export interface UpdateTemplateInput {
+  name?: string;
+  reportType?: ReportType | null;
+  section?: string | null;
+  active?: boolean;
+  locked?: boolean;
+}
+
+export interface SaveTemplateVersionInput {
+  version: number;
+  content: string;
+  variables: string[];
+  changeNotes?: string;
+  createdById?: string;
+}
+
+export interface TemplateSearchParams {
+  category?: TemplateCategory;
+  reportType?: ReportType;
+  section?: string;
+  includeInactive?: boolean;
+}
+
+// Templates belong to an organisation; versions are reached through a
+// template already found in the caller's organisation.
+export interface ITemplateRepository {
+  /** Create a template and record its content as version 1 */
+  create(organizationId: string, input: CreateTemplateInput): Promise<Template>;
+  findById(organizationId: string, id: string): Promise<Template | null>;
+  findAll(organizationId: string, params?: TemplateSearchParams): Promise<Template[]>;
+  update(organizationId: string, id: string, input: UpdateTemplateInput): Promise<Template>;
+
+  /** Replace the template's content and record it as a new version */
+  saveVersion(organizationId: string, id: string, input: SaveTemplateVersionInput): Promise<Template>;
+  findVersions(templateId: string): Promise<TemplateVersion[]>;
+  findVersion(templateId: string, version: number): Promise<TemplateVersion | null>;
+
+  loadVariableData(organizationId: string, projectId: string): Promise<TemplateVariableData | null>;
+}
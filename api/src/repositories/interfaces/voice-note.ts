@@ -0,0 +1,17 @@
+import type { VoiceNote } from '@prisma/client';
+
+export interface CreateVoiceNoteInput {
+  filename: string;
+  path: string;
+  mimeType: string;
+  fileSize: number;
+  transcript?: string;
+  transcriber?: string;
+  uploadedById?: string;
+}
+
+export interface IVoiceNoteRepository {
+  create(organizationId: string, input: CreateVoiceNoteInput): Promise<VoiceNote>;
+  findById(organizationId: string, id: string): Promise<VoiceNote | null>;
+  delete(id: string): Promise<void>;
+}
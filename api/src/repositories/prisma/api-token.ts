@@ -0,0 +1,47 @@
+import { PrismaClient, type ApiToken } from '@prisma/client';
+import {
+  apiTokenSummarySelect,
+  type IApiTokenRepository,
+  type CreateApiTokenInput,
+  type ApiTokenSummary,
+} from '../interfaces/api-token.js';
+
+export class PrismaApiTokenRepository implements IApiTokenRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(input: CreateApiTokenInput): Promise<ApiTokenSummary> {
+    return this.prisma.apiToken.create({ data: input, select: apiTokenSummarySelect });
+  }
+
+  async findById(id: string): Promise<ApiTokenSummary | null> {
+    return this.prisma.apiToken.findUnique({ where: { id }, select: apiTokenSummarySelect });
+  }
+
+  async findByHash(tokenHash: string): Promise<ApiToken | null> {
+    return this.prisma.apiToken.findUnique({ where: { tokenHash } });
+  }
+
+  async findByUserId(userId: string): Promise<ApiTokenSummary[]> {
+    return this.prisma.apiToken.findMany({
+      where: { userId },
+      select: apiTokenSummarySelect,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revoke(id: string, revokedAt: Date): Promise<ApiTokenSummary> {
+    return this.prisma.apiToken.update({ where: { id }, data: { revokedAt }, select: apiTokenSummarySelect });
+  }
+
+  async touch(id: string, lastUsedAt: Date): Promise<void> {
+    await this.prisma.apiToken.update({ where: { id }, data: { lastUsedAt } });
+  }
+
+  async findUserIdByVerifiedPhone(phoneNumber: string): Promise<string | null> {
+    const user = await this.prisma.user.findFirst({
+      where: { phoneNumber, phoneVerified: true },
+      select: { id: true },
+    });
+    return user?.id ?? null;
+  }
+}
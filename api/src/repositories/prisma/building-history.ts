@@ -29,6 +29,12 @@ export class PrismaBuildingHistoryRepository implements IBuildingHistoryReposito
     });
   }
 
+  async findByIdInOrganization(organizationId: string, id: string): Promise<BuildingHistory | null> {
+    return this.prisma.buildingHistory.findFirst({
+      where: { id, property: { organizationId } },
+    });
+  }
+
   async findByPropertyId(propertyId: string): Promise<BuildingHistory[]> {
     return this.prisma.buildingHistory.findMany({
       where: { propertyId },
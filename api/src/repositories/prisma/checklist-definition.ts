@@ -0,0 +1,67 @@
+import { PrismaClient, Prisma, type ChecklistDefinition, type ChecklistVersion } from '@prisma/client';
+import type {
+  IChecklistDefinitionRepository,
+  CreateChecklistDefinitionInput,
+  UpdateChecklistDefinitionInput,
+  PublishChecklistVersionInput,
+} from '../interfaces/checklist-definition.js';
+
+export class PrismaChecklistDefinitionRepository implements IChecklistDefinitionRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(input: CreateChecklistDefinitionInput): Promise<ChecklistDefinition> {
+    return this.prisma.checklistDefinition.create({ data: input });
+  }
+
+  async findByKey(key: string): Promise<ChecklistDefinition | null> {
+    return this.prisma.checklistDefinition.findUnique({ where: { key } });
+  }
+
+  async findAll(includeInactive = false): Promise<ChecklistDefinition[]> {
+    return this.prisma.checklistDefinition.findMany({
+      where: includeInactive ? undefined : { active: true },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async update(id: string, input: UpdateChecklistDefinitionInput): Promise<ChecklistDefinition> {
+    return this.prisma.checklistDefinition.update({
+      where: { id },
+      data: {
+        ...input,
+        draft: input.draft === null ? Prisma.DbNull : input.draft,
+      },
+    });
+  }
+
+  async publish(id: string, input: PublishChecklistVersionInput): Promise<ChecklistVersion> {
+    const { name, ...version } = input;
+    const [, created] = await this.prisma.$transaction([
+      this.prisma.checklistDefinition.update({
+        where: { id },
+        data: { name, latestVersion: input.version, draft: Prisma.DbNull },
+      }),
+      this.prisma.checklistVersion.create({
+        data: { definitionId: id, ...version },
+      }),
+    ]);
+    return created;
+  }
+
+  async findVersions(definitionId: string): Promise<ChecklistVersion[]> {
+    return this.prisma.checklistVersion.findMany({
+      where: { definitionId },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  async findVersion(definitionId: string, version: number): Promise<ChecklistVersion | null> {
+    return this.prisma.checklistVersion.findUnique({
+      where: { definitionId_version: { definitionId, version } },
+    });
+  }
+
+  async findVersionById(id: string): Promise<ChecklistVersion | null> {
+    return this.prisma.checklistVersion.findUnique({ where: { id } });
+  }
+}
@@ -21,6 +21,12 @@ export class PrismaChecklistItemRepository implements IChecklistItemRepository {
     });
   }
 
+  async findByIdInOrganization(organizationId: string, id: string): Promise<ChecklistItem | null> {
+    return this.prisma.checklistItem.findFirst({
+      where: { id, inspection: { project: { organizationId } } },
+    });
+  }
+
   async findByInspectionId(inspectionId: string): Promise<ChecklistItem[]> {
     return this.prisma.checklistItem.findMany({
       where: { inspectionId },
@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, type ClauseReview } from '@prisma/client';
 import type {
   IClauseReviewRepository,
   CreateClauseReviewInput,
@@ -38,6 +38,12 @@ export class PrismaClauseReviewRepository implements IClauseReviewRepository {
     }) as Promise<ClauseReviewWithClause | null>;
   }
 
+  async findByIdInOrganization(organizationId: string, id: string): Promise<ClauseReview | null> {
+    return this.prisma.clauseReview.findFirst({
+      where: { id, inspection: { project: { organizationId } } },
+    });
+  }
+
   async findByInspectionId(inspectionId: string): Promise<ClauseReviewWithClause[]> {
     return this.prisma.clauseReview.findMany({
       where: { inspectionId },
@@ -0,0 +1,18 @@
+import { PrismaClient, type CommentFeedback } from '@prisma/client';
+import type { ICommentFeedbackRepository, CreateCommentFeedbackInput } from '../interfaces/comment-feedback.js';
+
+export class PrismaCommentFeedbackRepository implements ICommentFeedbackRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(input: CreateCommentFeedbackInput): Promise<CommentFeedback> {
+    return this.prisma.commentFeedback.create({ data: input });
+  }
+
+  async findRecentByOrganization(organizationId: string, limit: number): Promise<CommentFeedback[]> {
+    return this.prisma.commentFeedback.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+}
@@ -0,0 +1,80 @@
+import type { PrismaClient, CostEstimate, CostLineItem } from '@prisma/client';
+import {
+  costEstimateInclude,
+  type ICostEstimateRepository,
+  type CreateCostEstimateInput,
+  type UpdateCostEstimateInput,
+  type CostEstimateTotals,
+  type CostEstimateWithLineItems,
+  type CreateCostLineItemInput,
+  type UpdateCostLineItemInput,
+} from '../interfaces/cost-estimate.js';
+
+export class PrismaCostEstimateRepository implements ICostEstimateRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(input: CreateCostEstimateInput): Promise<CostEstimateWithLineItems> {
+    return this.prisma.costEstimate.create({
+      data: input,
+      include: costEstimateInclude,
+    });
+  }
+
+  async findById(id: string): Promise<CostEstimateWithLineItems | null> {
+    return this.prisma.costEstimate.findUnique({
+      where: { id },
+      include: costEstimateInclude,
+    });
+  }
+
+  async findByIdInOrganization(organizationId: string, id: string): Promise<CostEstimate | null> {
+    return this.prisma.costEstimate.findFirst({
+      where: { id, project: { organizationId } },
+    });
+  }
+
+  async findByProjectId(projectId: string): Promise<CostEstimateWithLineItems | null> {
+    return this.prisma.costEstimate.findUnique({
+      where: { projectId },
+      include: costEstimateInclude,
+    });
+  }
+
+  async update(id: string, input: UpdateCostEstimateInput): Promise<CostEstimateWithLineItems> {
+    return this.prisma.costEstimate.update({
+      where: { id },
+      data: input,
+      include: costEstimateInclude,
+    });
+  }
+
+  async saveTotals(id: string, totals: CostEstimateTotals): Promise<CostEstimateWithLineItems> {
+    return this.prisma.costEstimate.update({
+      where: { id },
+      data: totals,
+      include: costEstimateInclude,
+    });
+  }
+
+  async createLineItem(input: CreateCostLineItemInput): Promise<CostLineItem> {
+    return this.prisma.costLineItem.create({ data: input });
+  }
+
+  async findLineItemById(id: string): Promise<CostLineItem | null> {
+    return this.prisma.costLineItem.findUnique({ where: { id } });
+  }
+
+  async findLineItemByIdInOrganization(organizationId: string, id: string): Promise<CostLineItem | null> {
+    return this.prisma.costLineItem.findFirst({
+      where: { id, estimate: { project: { organizationId } } },
+    });
+  }
+
+  async updateLineItem(id: string, input: UpdateCostLineItemInput): Promise<CostLineItem> {
+    return this.prisma.costLineItem.update({ where: { id }, data: input });
+  }
+
+  async deleteLineItem(id: string): Promise<void> {
+    await this.prisma.costLineItem.delete({ where: { id } });
+  }
+}
@@ -0,0 +1,78 @@
+import type { PrismaClient, Prisma, Defect } from '@prisma/client';
+import {
+  defectInclude,
+  type IDefectRepository,
+  type CreateDefectInput,
+  type UpdateDefectInput,
+  type DefectSearchParams,
+  type DefectWithRelations,
+} from '../interfaces/defect.js';
+
+export class PrismaDefectRepository implements IDefectRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(input: CreateDefectInput): Promise<DefectWithRelations> {
+    return this.prisma.defect.create({
+      data: input,
+      include: defectInclude,
+    });
+  }
+
+  async findById(id: string): Promise<DefectWithRelations | null> {
+    return this.prisma.defect.findUnique({
+      where: { id },
+      include: defectInclude,
+    });
+  }
+
+  async findByIdInOrganization(organizationId: string, id: string): Promise<Defect | null> {
+    return this.prisma.defect.findFirst({
+      where: { id, inspection: { project: { organizationId } } },
+    });
+  }
+
+  async findByInspectionId(inspectionId: string, params?: DefectSearchParams): Promise<DefectWithRelations[]> {
+    const where: Prisma.DefectWhereInput = { inspectionId };
+
+    if (params?.priority) {
+      where.priority = params.priority;
+    }
+    if (params?.buildingElement) {
+      where.buildingElement = params.buildingElement;
+    }
+
+    return this.prisma.defect.findMany({
+      where,
+      include: defectInclude,
+      orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async update(id: string, input: UpdateDefectInput): Promise<DefectWithRelations> {
+    return this.prisma.defect.update({
+      where: { id },
+      data: input,
+      include: defectInclude,
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.defect.delete({
+      where: { id },
+    });
+  }
+
+  async renumber(
+    inspectionId: string,
+    defects: Array<{ id: string; defectNumber: string; sortOrder: number }>
+  ): Promise<void> {
+    await this.prisma.$transaction(
+      defects.map(({ id, defectNumber, sortOrder }) =>
+        this.prisma.defect.updateMany({
+          where: { id, inspectionId }, // Verify ownership
+          data: { defectNumber, sortOrder },
+        })
+      )
+    );
+  }
+}
@@ -10,17 +10,8 @@ export class PrismaDocumentRepository implements IDocumentRepository {
   constructor(private prisma: PrismaClient) {}
 
   async create(input: CreateDocumentInput): Promise<Document> {
-    // Auto-assign appendix letter if not provided
-    let appendixLetter = input.appendixLetter;
-    if (!appendixLetter) {
-      appendixLetter = await this.getNextAppendixLetter(input.projectId);
-    }
-
     return this.prisma.document.create({
-      data: {
-        ...input,
-        appendixLetter,
-      },
+      data: input,
     });
   }
 
@@ -30,6 +21,12 @@ export class PrismaDocumentRepository implements IDocumentRepository {
     });
   }
 
+  async findByIdInOrganization(organizationId: string, id: string): Promise<Document | null> {
+    return this.prisma.document.findFirst({
+      where: { id, project: { organizationId } },
+    });
+  }
+
   async findByProjectId(projectId: string): Promise<Document[]> {
     return this.prisma.document.findMany({
       where: { projectId },
@@ -52,6 +49,9 @@ export class PrismaDocumentRepository implements IDocumentRepository {
     if (params?.status) {
       where.status = params.status;
     }
+    if (params?.needsConfirmation !== undefined) {
+      where.needsConfirmation = params.needsConfirmation;
+    }
 
     return this.prisma.document.findMany({
       where,
@@ -75,38 +75,15 @@ export class PrismaDocumentRepository implements IDocumentRepository {
     });
   }
 
-  async getNextAppendixLetter(projectId: string): Promise<string> {
-    // Get all existing documents for this project
-    const documents = await this.prisma.document.findMany({
-      where: { projectId },
-      select: { appendixLetter: true },
-      orderBy: { appendixLetter: 'desc' },
-    });
-
-    if (documents.length === 0) {
-      return 'A';
-    }
-
-    // Find the highest letter used
-    const usedLetters = documents
-      .map(d => d.appendixLetter)
-      .filter((letter): letter is string => letter !== null);
-
-    if (usedLetters.length === 0) {
-      return 'A';
-    }
-
-    // Sort and get the highest
-    usedLetters.sort();
-    const highestLetter = usedLetters[usedLetters.length - 1];
-
-    // Get next letter (A -> B, B -> C, etc.)
-    if (highestLetter === 'Z') {
-      // Handle overflow - could extend to AA, AB, etc. if needed
-      throw new Error('Maximum appendix letters reached');
-    }
-
-    return String.fromCharCode(highestLetter.charCodeAt(0) + 1);
+  async setAppendixLetters(letters: Map<string, string | null>): Promise<void> {
+    await this.prisma.$transaction(
+      [...letters].map(([id, appendixLetter]) =>
+        this.prisma.document.update({
+          where: { id },
+          data: { appendixLetter },
+        })
+      )
+    );
   }
 
   async reorder(projectId: string, documentIds: string[]): Promise<void> {
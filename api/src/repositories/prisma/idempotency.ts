@@ -0,0 +1,49 @@
+import { Prisma, type PrismaClient, type IdempotencyRecord } from '@prisma/client';
+import type {
+  IIdempotencyRepository,
+  CreateIdempotencyRecordInput,
+} from '../interfaces/idempotency.js';
+
+export class PrismaIdempotencyRepository implements IIdempotencyRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(input: CreateIdempotencyRecordInput): Promise<IdempotencyRecord | null> {
+    try {
+      return await this.prisma.idempotencyRecord.create({
+        data: input,
+      });
+    } catch (error) {
+      // Unique (userId, key): a concurrent request claimed it first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async findByKey(userId: string, key: string): Promise<IdempotencyRecord | null> {
+    return this.prisma.idempotencyRecord.findUnique({
+      where: { userId_key: { userId, key } },
+    });
+  }
+
+  async complete(id: string, statusCode: number, body: Prisma.InputJsonValue): Promise<void> {
+    await this.prisma.idempotencyRecord.update({
+      where: { id },
+      data: { statusCode, body },
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.idempotencyRecord.deleteMany({
+      where: { id },
+    });
+  }
+
+  async deleteExpired(before: Date): Promise<number> {
+    const { count } = await this.prisma.idempotencyRecord.deleteMany({
+      where: { expiresAt: { lt: before } },
+    });
+    return count;
+  }
+}
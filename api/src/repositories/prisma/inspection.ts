@@ -1,4 +1,4 @@
-import { PrismaClient, type Inspection, type Finding, type Photo, type Report } from '@prisma/client';
+import { PrismaClient, type Inspection, type Finding, type Photo, type Report, type Project, type Property } from '@prisma/client';
 import type {
   IInspectionRepository,
   CreateInspectionInput,
@@ -50,6 +50,14 @@ export class PrismaInspectionRepository implements IInspectionRepository {
     });
   }
 
+  async findProject(inspectionId: string): Promise<(Project & { property: Property }) | null> {
+    const inspection = await this.prisma.inspection.findUnique({
+      where: { id: inspectionId },
+      select: { project: { include: { property: true } } },
+    });
+    return inspection?.project ?? null;
+  }
+
   // Findings
   async createFinding(input: CreateFindingInput): Promise<Finding> {
     return this.prisma.finding.create({
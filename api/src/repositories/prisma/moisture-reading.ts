@@ -0,0 +1,54 @@
+import type { PrismaClient, MoistureReading } from '@prisma/client';
+import {
+  moistureReadingInclude,
+  type IMoistureReadingRepository,
+  type CreateMoistureReadingInput,
+  type UpdateMoistureReadingInput,
+  type MoistureReadingWithRelations,
+} from '../interfaces/moisture-reading.js';
+
+export class PrismaMoistureReadingRepository implements IMoistureReadingRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(input: CreateMoistureReadingInput): Promise<MoistureReadingWithRelations> {
+    return this.prisma.moistureReading.create({
+      data: input,
+      include: moistureReadingInclude,
+    });
+  }
+
+  async findById(id: string): Promise<MoistureReadingWithRelations | null> {
+    return this.prisma.moistureReading.findUnique({
+      where: { id },
+      include: moistureReadingInclude,
+    });
+  }
+
+  async findByIdInOrganization(organizationId: string, id: string): Promise<MoistureReading | null> {
+    return this.prisma.moistureReading.findFirst({
+      where: { id, inspection: { project: { organizationId } } },
+    });
+  }
+
+  async findByInspectionId(inspectionId: string): Promise<MoistureReadingWithRelations[]> {
+    return this.prisma.moistureReading.findMany({
+      where: { inspectionId },
+      include: moistureReadingInclude,
+      orderBy: { timestamp: 'asc' },
+    });
+  }
+
+  async update(id: string, input: UpdateMoistureReadingInput): Promise<MoistureReadingWithRelations> {
+    return this.prisma.moistureReading.update({
+      where: { id },
+      data: input,
+      include: moistureReadingInclude,
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.moistureReading.delete({
+      where: { id },
+    });
+  }
+}
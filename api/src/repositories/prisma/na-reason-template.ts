@@ -1,5 +1,9 @@
 import { PrismaClient, type NAReasonTemplate } from '@prisma/client';
-import type { INAReasonTemplateRepository } from '../interfaces/na-reason-template.js';
+import type {
+  INAReasonTemplateRepository,
+  CreateNAReasonTemplateInput,
+  UpdateNAReasonTemplateInput,
+} from '../interfaces/na-reason-template.js';
 
 export class PrismaNAReasonTemplateRepository implements INAReasonTemplateRepository {
   constructor(private prisma: PrismaClient) {}
@@ -15,4 +19,23 @@ export class PrismaNAReasonTemplateRepository implements INAReasonTemplateReposi
       where: { id },
     });
   }
+
+  async create(input: CreateNAReasonTemplateInput): Promise<NAReasonTemplate> {
+    return this.prisma.nAReasonTemplate.create({
+      data: input,
+    });
+  }
+
+  async update(id: string, input: UpdateNAReasonTemplateInput): Promise<NAReasonTemplate> {
+    return this.prisma.nAReasonTemplate.update({
+      where: { id },
+      data: input,
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.nAReasonTemplate.delete({
+      where: { id },
+    });
+  }
 }
@@ -0,0 +1,86 @@
+import { PrismaClient, type Organization, type OrganizationMembership, type OrganizationRole } from '@prisma/client';
+import {
+  membershipUserInclude,
+  membershipOrganizationInclude,
+  type IOrganizationRepository,
+  type CreateOrganizationInput,
+  type UpdateOrganizationInput,
+  type MembershipWithUser,
+  type MembershipWithOrganization,
+} from '../interfaces/organization.js';
+
+export class PrismaOrganizationRepository implements IOrganizationRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(input: CreateOrganizationInput, adminUserId: string): Promise<Organization> {
+    return this.prisma.organization.create({
+      data: {
+        ...input,
+        memberships: { create: { userId: adminUserId, role: 'ORG_ADMIN' } },
+      },
+    });
+  }
+
+  async findById(id: string): Promise<Organization | null> {
+    return this.prisma.organization.findUnique({ where: { id } });
+  }
+
+  async update(id: string, input: UpdateOrganizationInput): Promise<Organization> {
+    return this.prisma.organization.update({ where: { id }, data: input });
+  }
+
+  async findMembershipsForUser(userId: string): Promise<MembershipWithOrganization[]> {
+    return this.prisma.organizationMembership.findMany({
+      where: { userId },
+      include: membershipOrganizationInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findMembership(organizationId: string, userId: string): Promise<OrganizationMembership | null> {
+    return this.prisma.organizationMembership.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+    });
+  }
+
+  async findMembers(organizationId: string): Promise<MembershipWithUser[]> {
+    return this.prisma.organizationMembership.findMany({
+      where: { organizationId },
+      include: membershipUserInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async addMember(organizationId: string, userId: string, role: OrganizationRole): Promise<MembershipWithUser> {
+    return this.prisma.organizationMembership.create({
+      data: { organizationId, userId, role },
+      include: membershipUserInclude,
+    });
+  }
+
+  async updateMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<MembershipWithUser> {
+    return this.prisma.organizationMembership.update({
+      where: { organizationId_userId: { organizationId, userId } },
+      data: { role },
+      include: membershipUserInclude,
+    });
+  }
+
+  async removeMember(organizationId: string, userId: string): Promise<void> {
+    await this.prisma.organizationMembership.delete({
+      where: { organizationId_userId: { organizationId, userId } },
+    });
+  }
+
+  async countAdmins(organizationId: string): Promise<number> {
+    return this.prisma.organizationMembership.count({ where: { organizationId, role: 'ORG_ADMIN' } });
+  }
+
+  async findUserIdByEmail(email: string): Promise<string | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { email: email.toLowerCase() },
+      select: { id: true },
+    });
+    return user?.id ?? null;
+  }
+}
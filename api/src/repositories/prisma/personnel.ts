@@ -0,0 +1,130 @@
+import { PrismaClient, type Company, type Personnel, type Credential, type Prisma } from '@prisma/client';
+import {
+  personnelInclude,
+  expiringCredentialInclude,
+  type ICompanyRepository,
+  type IPersonnelRepository,
+  type CreateCompanyInput,
+  type UpdateCompanyInput,
+  type CreatePersonnelInput,
+  type UpdatePersonnelInput,
+  type PersonnelSearchParams,
+  type PersonnelWithCredentials,
+  type CreateCredentialInput,
+  type UpdateCredentialInput,
+  type CredentialWithPersonnel,
+} from '../interfaces/personnel.js';
+
+export class PrismaCompanyRepository implements ICompanyRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(organizationId: string, input: CreateCompanyInput): Promise<Company> {
+    return this.prisma.company.create({ data: { ...input, organizationId } });
+  }
+
+  async findById(organizationId: string, id: string): Promise<Company | null> {
+    return this.prisma.company.findFirst({ where: { id, organizationId } });
+  }
+
+  async findAll(organizationId: string): Promise<Company[]> {
+    return this.prisma.company.findMany({ where: { organizationId }, orderBy: { name: 'asc' } });
+  }
+
+  async update(organizationId: string, id: string, input: UpdateCompanyInput): Promise<Company> {
+    return this.prisma.company.update({ where: { id, organizationId }, data: input });
+  }
+
+  async delete(organizationId: string, id: string): Promise<void> {
+    await this.prisma.company.delete({ where: { id, organizationId } });
+  }
+
+  async countPersonnel(id: string): Promise<number> {
+    return this.prisma.personnel.count({ where: { companyId: id } });
+  }
+}
+
+export class PrismaPersonnelRepository implements IPersonnelRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(input: CreatePersonnelInput): Promise<PersonnelWithCredentials> {
+    return this.prisma.personnel.create({
+      data: input,
+      include: personnelInclude,
+    });
+  }
+
+  async findById(organizationId: string, id: string): Promise<PersonnelWithCredentials | null> {
+    return this.prisma.personnel.findFirst({
+      where: { id, company: { organizationId } },
+      include: personnelInclude,
+    });
+  }
+
+  async findByUserId(userId: string): Promise<PersonnelWithCredentials | null> {
+    return this.prisma.personnel.findUnique({
+      where: { userId },
+      include: personnelInclude,
+    });
+  }
+
+  async findByEmail(email: string): Promise<Personnel | null> {
+    return this.prisma.personnel.findUnique({ where: { email } });
+  }
+
+  async findAll(organizationId: string, params?: PersonnelSearchParams): Promise<PersonnelWithCredentials[]> {
+    const where: Prisma.PersonnelWhereInput = { company: { organizationId } };
+
+    if (params?.role) {
+      where.role = Array.isArray(params.role) ? { in: params.role } : params.role;
+    }
+    if (params?.active !== undefined) {
+      where.active = params.active;
+    }
+    if (params?.companyId) {
+      where.companyId = params.companyId;
+    }
+    if (params?.name) {
+      where.name = { contains: params.name, mode: 'insensitive' };
+    }
+
+    return this.prisma.personnel.findMany({
+      where,
+      include: personnelInclude,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async update(organizationId: string, id: string, input: UpdatePersonnelInput): Promise<Personnel> {
+    return this.prisma.personnel.update({ where: { id, company: { organizationId } }, data: input });
+  }
+
+  async createCredential(input: CreateCredentialInput): Promise<Credential> {
+    return this.prisma.credential.create({ data: input });
+  }
+
+  async findCredentialById(organizationId: string, id: string): Promise<Credential | null> {
+    return this.prisma.credential.findFirst({ where: { id, personnel: { company: { organizationId } } } });
+  }
+
+  async updateCredential(organizationId: string, id: string, input: UpdateCredentialInput): Promise<Credential> {
+    return this.prisma.credential.update({
+      where: { id, personnel: { company: { organizationId } } },
+      data: input,
+    });
+  }
+
+  async deleteCredential(organizationId: string, id: string): Promise<void> {
+    await this.prisma.credential.delete({ where: { id, personnel: { company: { organizationId } } } });
+  }
+
+  async findExpiringCredentials(organizationId: string, before: Date): Promise<CredentialWithPersonnel[]> {
+    return this.prisma.credential.findMany({
+      where: {
+        expiryDate: { not: null, lte: before },
+        personnel: { active: true, company: { organizationId } },
+      },
+      include: expiringCredentialInclude,
+      orderBy: { expiryDate: 'asc' },
+    });
+  }
+}
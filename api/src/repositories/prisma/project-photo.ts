@@ -11,7 +11,12 @@ export interface CreateProjectPhotoInput {
   source?: PhotoSource;
   takenAt?: Date;
   location?: Prisma.InputJsonValue;
+  camera?: string;
+  warnings?: string[];
   linkedClauses?: string[];
+  contentHash?: string;
+  perceptualHash?: string;
+  possibleDuplicateOfId?: string;
 }
 
 export interface UpdateProjectPhotoInput {
@@ -19,14 +24,52 @@ export interface UpdateProjectPhotoInput {
   source?: PhotoSource;
   linkedClauses?: string[];
   sortOrder?: number;
+  /** null removes the annotations */
+  annotations?: Prisma.InputJsonValue | null;
+  annotatedPath?: string | null;
+  takenAt?: Date;
+  location?: Prisma.InputJsonValue;
+  camera?: string;
+  possibleDuplicateOfId?: string | null;
+}
+
+/** Enough of a photo to compare it against a new upload */
+export interface PhotoHash {
+  id: string;
+  reportNumber: number;
+  perceptualHash: string;
+}
+
+export interface ProjectPhotoSearchParams {
+  inspectionId?: string;
+  takenFrom?: Date;
+  takenTo?: Date;
+  hasLocation?: boolean;
+  /** Matches part of the make or model */
+  camera?: string;
+  /** Only photos with (true) or without (false) upload warnings */
+  flagged?: boolean;
+}
+
+/** What an upload's EXIF is checked against */
+export interface PhotoUploadContext {
+  property: { latitude: number | null; longitude: number | null } | null;
+  /** Date of the site inspection the photo is filed under, or of all the project's inspections */
+  inspectionDates: Date[];
 }
 
 export interface IProjectPhotoRepository {
   create(input: CreateProjectPhotoInput): Promise<ProjectPhoto>;
   findById(id: string): Promise<ProjectPhoto | null>;
-  findByProjectId(projectId: string): Promise<ProjectPhoto[]>;
+  findByIdInOrganization(organizationId: string, id: string): Promise<ProjectPhoto | null>;
+  findByProjectId(projectId: string, params?: ProjectPhotoSearchParams): Promise<ProjectPhoto[]>;
+  findUploadContext(projectId: string, inspectionId?: string): Promise<PhotoUploadContext>;
+  findByContentHash(projectId: string, contentHash: string): Promise<ProjectPhoto | null>;
+  findPerceptualHashes(projectId: string): Promise<PhotoHash[]>;
   update(id: string, input: UpdateProjectPhotoInput): Promise<ProjectPhoto>;
   delete(id: string): Promise<void>;
+  /** Fold one photo into another: update the kept photo, repoint evidence links, delete the other */
+  merge(keepId: string, removeId: string, input: UpdateProjectPhotoInput): Promise<ProjectPhoto>;
   reorder(projectId: string, photoIds: string[]): Promise<void>;
   getNextReportNumber(projectId: string): Promise<number>;
   renumber(projectId: string): Promise<void>;
@@ -53,9 +96,33 @@ export class PrismaProjectPhotoRepository implements IProjectPhotoRepository {
     });
   }
 
-  async findByProjectId(projectId: string): Promise<ProjectPhoto[]> {
+  async findByIdInOrganization(organizationId: string, id: string): Promise<ProjectPhoto | null> {
+    return this.prisma.projectPhoto.findFirst({
+      where: { id, project: { organizationId } },
+    });
+  }
+
+  async findByProjectId(projectId: string, params?: ProjectPhotoSearchParams): Promise<ProjectPhoto[]> {
+    const where: Prisma.ProjectPhotoWhereInput = { projectId };
+
+    if (params?.inspectionId) {
+      where.inspectionId = params.inspectionId;
+    }
+    if (params?.takenFrom || params?.takenTo) {
+      where.takenAt = { gte: params.takenFrom, lte: params.takenTo };
+    }
+    if (params?.hasLocation !== undefined) {
+      where.location = params.hasLocation ? { not: Prisma.AnyNull } : { equals: Prisma.AnyNull };
+    }
+    if (params?.camera) {
+      where.camera = { contains: params.camera, mode: 'insensitive' };
+    }
+    if (params?.flagged !== undefined) {
+      where.warnings = { isEmpty: !params.flagged };
+    }
+
     return this.prisma.projectPhoto.findMany({
-      where: { projectId },
+      where,
       orderBy: [
         { sortOrder: 'asc' },
         { reportNumber: 'asc' },
@@ -63,11 +130,85 @@ export class PrismaProjectPhotoRepository implements IProjectPhotoRepository {
     });
   }
 
+  async findUploadContext(projectId: string, inspectionId?: string): Promise<PhotoUploadContext> {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: {
+        property: { select: { latitude: true, longitude: true } },
+        siteInspections: {
+          where: { deletedAt: null, ...(inspectionId ? { id: inspectionId } : {}) },
+          select: { date: true },
+        },
+      },
+    });
+
+    return {
+      property: project?.property ?? null,
+      inspectionDates: project?.siteInspections.map((inspection) => inspection.date) ?? [],
+    };
+  }
+
+  async findByContentHash(projectId: string, contentHash: string): Promise<ProjectPhoto | null> {
+    return this.prisma.projectPhoto.findUnique({
+      where: { projectId_contentHash: { projectId, contentHash } },
+    });
+  }
+
+  async findPerceptualHashes(projectId: string): Promise<PhotoHash[]> {
+    const photos = await this.prisma.projectPhoto.findMany({
+      where: { projectId, perceptualHash: { not: null } },
+      orderBy: { reportNumber: 'asc' },
+      select: { id: true, reportNumber: true, perceptualHash: true },
+    });
+    return photos.map((photo) => ({ ...photo, perceptualHash: photo.perceptualHash as string }));
+  }
+
   async update(id: string, input: UpdateProjectPhotoInput): Promise<ProjectPhoto> {
     return this.prisma.projectPhoto.update({
       where: { id },
-      data: input,
+      data: this.updateData(input),
+    });
+  }
+
+  private updateData(input: UpdateProjectPhotoInput): Prisma.ProjectPhotoUncheckedUpdateInput {
+    const { annotations, ...data } = input;
+    return {
+      ...data,
+      ...(annotations !== undefined && { annotations: annotations ?? Prisma.DbNull }),
+    };
+  }
+
+  async merge(keepId: string, removeId: string, input: UpdateProjectPhotoInput): Promise<ProjectPhoto> {
+    const replace = (ids: string[]) => [...new Set(ids.map((id) => (id === removeId ? keepId : id)))];
+
+    const kept = await this.prisma.$transaction(async (tx) => {
+      // Evidence lists hold ProjectPhoto IDs
+      const items = await tx.checklistItem.findMany({ where: { photoIds: { has: removeId } }, select: { id: true, photoIds: true } });
+      for (const item of items) {
+        await tx.checklistItem.update({ where: { id: item.id }, data: { photoIds: replace(item.photoIds) } });
+      }
+      const reviews = await tx.clauseReview.findMany({ where: { photoIds: { has: removeId } }, select: { id: true, photoIds: true } });
+      for (const review of reviews) {
+        await tx.clauseReview.update({ where: { id: review.id }, data: { photoIds: replace(review.photoIds) } });
+      }
+      const defects = await tx.defect.findMany({ where: { photoIds: { has: removeId } }, select: { id: true, photoIds: true } });
+      for (const defect of defects) {
+        await tx.defect.update({ where: { id: defect.id }, data: { photoIds: replace(defect.photoIds) } });
+      }
+      await tx.moistureReading.updateMany({ where: { photoId: removeId }, data: { photoId: keepId } });
+
+      // Other photos flagged against the removed one now point at the kept one
+      await tx.projectPhoto.updateMany({
+        where: { possibleDuplicateOfId: removeId, id: { not: keepId } },
+        data: { possibleDuplicateOfId: keepId },
+      });
+
+      await tx.projectPhoto.delete({ where: { id: removeId } });
+      return tx.projectPhoto.update({ where: { id: keepId }, data: this.updateData(input) });
     });
+
+    await this.renumber(kept.projectId);
+    return (await this.findById(keepId)) ?? kept;
   }
 
   async delete(id: string): Promise<void> {
@@ -0,0 +1,46 @@
+import { PrismaClient, type Report } from '@prisma/client';
+import {
+  projectReportInclude,
+  cccGapReportInclude,
+  type IProjectReportRepository,
+  type ProjectReportData,
+  type CccGapReportData,
+  type CreateProjectReportInput,
+} from '../interfaces/project-report.js';
+
+export class PrismaProjectReportRepository implements IProjectReportRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async loadProjectData(projectId: string): Promise<ProjectReportData | null> {
+    return this.prisma.project.findUnique({
+      where: { id: projectId },
+      include: projectReportInclude,
+    });
+  }
+
+  async loadCccGapData(projectId: string): Promise<CccGapReportData | null> {
+    return this.prisma.project.findUnique({
+      where: { id: projectId },
+      include: cccGapReportInclude,
+    });
+  }
+
+  async createReport(input: CreateProjectReportInput): Promise<Report> {
+    return this.prisma.report.create({
+      data: input,
+    });
+  }
+
+  async findReportById(id: string): Promise<Report | null> {
+    return this.prisma.report.findUnique({
+      where: { id },
+    });
+  }
+
+  async findReportsByProject(projectId: string): Promise<Report[]> {
+    return this.prisma.report.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+}
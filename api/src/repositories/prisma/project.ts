@@ -17,9 +17,9 @@ import type {
 export class PrismaProjectRepository implements IProjectRepository {
   constructor(private prisma: PrismaClient) {}
 
-  async create(input: CreateProjectInput & { jobNumber: string }): Promise<Project> {
+  async create(organizationId: string, input: CreateProjectInput & { jobNumber: string }): Promise<Project> {
     return this.prisma.project.create({
-      data: input,
+      data: { ...input, organizationId },
       include: {
         property: true,
         client: true,
@@ -27,9 +27,9 @@ export class PrismaProjectRepository implements IProjectRepository {
     });
   }
 
-  async findById(id: string): Promise<Project | null> {
-    return this.prisma.project.findUnique({
-      where: { id },
+  async findById(organizationId: string, id: string): Promise<Project | null> {
+    return this.prisma.project.findFirst({
+      where: { id, organizationId },
       include: {
         property: true,
         client: true,
@@ -37,9 +37,9 @@ export class PrismaProjectRepository implements IProjectRepository {
     });
   }
 
-  async findByJobNumber(jobNumber: string): Promise<Project | null> {
-    return this.prisma.project.findUnique({
-      where: { jobNumber },
+  async findByJobNumber(organizationId: string, jobNumber: string): Promise<Project | null> {
+    return this.prisma.project.findFirst({
+      where: { jobNumber, organizationId },
       include: {
         property: true,
         client: true,
@@ -47,8 +47,8 @@ export class PrismaProjectRepository implements IProjectRepository {
     });
   }
 
-  async findAll(params?: ProjectSearchParams): Promise<Project[]> {
-    const where: Record<string, unknown> = {};
+  async findAll(organizationId: string, params?: ProjectSearchParams): Promise<Project[]> {
+    const where: Record<string, unknown> = { organizationId };
 
     if (params?.jobNumber) {
       where.jobNumber = { contains: params.jobNumber, mode: 'insensitive' };
@@ -80,9 +80,9 @@ export class PrismaProjectRepository implements IProjectRepository {
     });
   }
 
-  async update(id: string, input: UpdateProjectInput): Promise<Project> {
+  async update(organizationId: string, id: string, input: UpdateProjectInput): Promise<Project> {
     return this.prisma.project.update({
-      where: { id },
+      where: { id, organizationId },
       data: input,
       include: {
         property: true,
@@ -91,9 +91,9 @@ export class PrismaProjectRepository implements IProjectRepository {
     });
   }
 
-  async delete(id: string): Promise<void> {
+  async delete(organizationId: string, id: string): Promise<void> {
     await this.prisma.project.delete({
-      where: { id },
+      where: { id, organizationId },
     });
   }
 
@@ -126,23 +126,23 @@ export class PrismaProjectRepository implements IProjectRepository {
 export class PrismaPropertyRepository implements IPropertyRepository {
   constructor(private prisma: PrismaClient) {}
 
-  async create(input: CreatePropertyInput): Promise<Property> {
+  async create(organizationId: string, input: CreatePropertyInput): Promise<Property> {
     return this.prisma.property.create({
-      data: input,
+      data: { ...input, organizationId },
     });
   }
 
-  async findById(id: string): Promise<Property | null> {
-    return this.prisma.property.findUnique({
-      where: { id },
+  async findById(organizationId: string, id: string): Promise<Property | null> {
+    return this.prisma.property.findFirst({
+      where: { id, organizationId },
       include: {
         projects: true,
       },
     });
   }
 
-  async findAll(params?: PropertySearchParams): Promise<Property[]> {
-    const where: Record<string, unknown> = {};
+  async findAll(organizationId: string, params?: PropertySearchParams): Promise<Property[]> {
+    const where: Record<string, unknown> = { organizationId };
 
     if (params?.address) {
       where.streetAddress = { contains: params.address, mode: 'insensitive' };
@@ -163,9 +163,9 @@ export class PrismaPropertyRepository implements IPropertyRepository {
     });
   }
 
-  async update(id: string, input: UpdatePropertyInput): Promise<Property> {
+  async update(organizationId: string, id: string, input: UpdatePropertyInput): Promise<Property> {
     return this.prisma.property.update({
-      where: { id },
+      where: { id, organizationId },
       data: input,
     });
   }
@@ -174,23 +174,23 @@ export class PrismaPropertyRepository implements IPropertyRepository {
 export class PrismaClientRepository implements IClientRepository {
   constructor(private prisma: PrismaClient) {}
 
-  async create(input: CreateClientInput): Promise<Client> {
+  async create(organizationId: string, input: CreateClientInput): Promise<Client> {
     return this.prisma.client.create({
-      data: input,
+      data: { ...input, organizationId },
     });
   }
 
-  async findById(id: string): Promise<Client | null> {
-    return this.prisma.client.findUnique({
-      where: { id },
+  async findById(organizationId: string, id: string): Promise<Client | null> {
+    return this.prisma.client.findFirst({
+      where: { id, organizationId },
       include: {
         projects: true,
       },
     });
   }
 
-  async findAll(params?: ClientSearchParams): Promise<Client[]> {
-    const where: Record<string, unknown> = {};
+  async findAll(organizationId: string, params?: ClientSearchParams): Promise<Client[]> {
+    const where: Record<string, unknown> = { organizationId };
 
     if (params?.name) {
       where.name = { contains: params.name, mode: 'insensitive' };
@@ -205,9 +205,9 @@ export class PrismaClientRepository implements IClientRepository {
     });
   }
 
-  async update(id: string, input: UpdateClientInput): Promise<Client> {
+  async update(organizationId: string, id: string, input: UpdateClientInput): Promise<Client> {
     return this.prisma.client.update({
-      where: { id },
+      where: { id, organizationId },
       data: input,
     });
   }
@@ -0,0 +1,151 @@
+import { PrismaClient, type Prisma, type Report, type ReportVersion, type ReviewComment, type ReportAuditLog } from '@prisma/client';
+import type {
+  IReportWorkflowRepository,
+  UpdateReportStatusInput,
+  CreateReportVersionInput,
+  CreateReviewCommentInput,
+  UpdateReviewCommentInput,
+  ReviewCommentSearchParams,
+  CreateAuditLogInput,
+} from '../interfaces/report-workflow.js';
+
+/**
+ * Project reports belong to the project's organisation; inspection reports to
+ * their inspection's project, or, when the inspection has no project, to the
+ * organisations of the user who generated the report
+ */
+function reportInOrganization(organizationId: string): Prisma.ReportWhereInput {
+  return {
+    OR: [
+      { project: { organizationId } },
+      { inspection: { project: { organizationId } } },
+      { inspection: { projectId: null }, preparedBy: { memberships: { some: { organizationId } } } },
+    ],
+  };
+}
+
+export class PrismaReportWorkflowRepository implements IReportWorkflowRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // ============================================
+  // Reports
+  // ============================================
+
+  async findReportById(id: string): Promise<Report | null> {
+    return this.prisma.report.findUnique({
+      where: { id },
+    });
+  }
+
+  async findReportByIdInOrganization(organizationId: string, id: string): Promise<Report | null> {
+    return this.prisma.report.findFirst({
+      where: { id, ...reportInOrganization(organizationId) },
+    });
+  }
+
+  async updateStatus(
+    id: string,
+    input: UpdateReportStatusInput,
+    version?: CreateReportVersionInput
+  ): Promise<Report> {
+    const update = this.prisma.report.update({
+      where: { id },
+      data: input,
+    });
+    if (!version) {
+      return update;
+    }
+
+    const [, report] = await this.prisma.$transaction([
+      this.prisma.reportVersion.create({
+        data: {
+          ...version,
+          version: `R${version.versionNumber}`,
+        },
+      }),
+      update,
+    ]);
+    return report;
+  }
+
+  // ============================================
+  // Versions
+  // ============================================
+
+  async findVersions(reportId: string): Promise<ReportVersion[]> {
+    return this.prisma.reportVersion.findMany({
+      where: { reportId },
+      orderBy: { versionNumber: 'asc' },
+    });
+  }
+
+  async findVersion(reportId: string, versionNumber: number): Promise<ReportVersion | null> {
+    return this.prisma.reportVersion.findUnique({
+      where: { reportId_versionNumber: { reportId, versionNumber } },
+    });
+  }
+
+  async findLatestVersion(reportId: string): Promise<ReportVersion | null> {
+    return this.prisma.reportVersion.findFirst({
+      where: { reportId },
+      orderBy: { versionNumber: 'desc' },
+    });
+  }
+
+  // ============================================
+  // Review comments
+  // ============================================
+
+  async createComment(input: CreateReviewCommentInput): Promise<ReviewComment> {
+    return this.prisma.reviewComment.create({
+      data: input,
+    });
+  }
+
+  async findCommentById(id: string): Promise<ReviewComment | null> {
+    return this.prisma.reviewComment.findUnique({
+      where: { id },
+    });
+  }
+
+  async findCommentByIdInOrganization(organizationId: string, id: string): Promise<ReviewComment | null> {
+    return this.prisma.reviewComment.findFirst({
+      where: { id, report: reportInOrganization(organizationId) },
+    });
+  }
+
+  async findComments(reportId: string, params?: ReviewCommentSearchParams): Promise<ReviewComment[]> {
+    return this.prisma.reviewComment.findMany({
+      where: {
+        reportId,
+        ...(params?.status && { status: params.status }),
+        ...(params?.priority && { priority: params.priority }),
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async updateComment(id: string, input: UpdateReviewCommentInput): Promise<ReviewComment> {
+    return this.prisma.reviewComment.update({
+      where: { id },
+      data: input,
+    });
+  }
+
+  // ============================================
+  // Audit trail
+  // ============================================
+
+  async createAuditLog(input: CreateAuditLogInput): Promise<ReportAuditLog> {
+    return this.prisma.reportAuditLog.create({
+      data: input,
+    });
+  }
+
+  async findAuditLogs(reportId: string): Promise<ReportAuditLog[]> {
+    return this.prisma.reportAuditLog.findMany({
+      where: { reportId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import { PrismaClient, type Session } from '@prisma/client';
+import type { ISessionRepository, CreateSessionInput, RotateSessionInput } from '../interfaces/session.js';
+
+export class PrismaSessionRepository implements ISessionRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(input: CreateSessionInput): Promise<Session> {
+    return this.prisma.session.create({ data: input });
+  }
+
+  async findById(id: string): Promise<Session | null> {
+    return this.prisma.session.findUnique({ where: { id } });
+  }
+
+  async findByRefreshTokenHash(refreshTokenHash: string): Promise<Session | null> {
+    return this.prisma.session.findUnique({ where: { refreshTokenHash } });
+  }
+
+  async findByPreviousRefreshTokenHash(refreshTokenHash: string): Promise<Session | null> {
+    return this.prisma.session.findUnique({ where: { previousRefreshTokenHash: refreshTokenHash } });
+  }
+
+  async findActiveByUserId(userId: string, now: Date): Promise<Session[]> {
+    return this.prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: now } },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  async rotate(id: string, input: RotateSessionInput): Promise<Session | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.session.updateMany({
+        where: { id, refreshTokenHash: input.previousRefreshTokenHash, revokedAt: null },
+        data: input,
+      });
+      return count ? tx.session.findUnique({ where: { id } }) : null;
+    });
+  }
+
+  async revoke(id: string, revokedAt: Date): Promise<void> {
+    await this.prisma.session.updateMany({ where: { id, revokedAt: null }, data: { revokedAt } });
+  }
+
+  async revokeAllForUser(userId: string, revokedAt: Date): Promise<number> {
+    const result = await this.prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt },
+    });
+    return result.count;
+  }
+}
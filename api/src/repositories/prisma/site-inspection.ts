@@ -9,7 +9,7 @@ import type {
 export class PrismaSiteInspectionRepository implements ISiteInspectionRepository {
   constructor(private prisma: PrismaClient) {}
 
-  async create(input: CreateSiteInspectionInput): Promise<SiteInspection> {
+  async create(input: CreateSiteInspectionInput & { inspectorName: string }): Promise<SiteInspection> {
     return this.prisma.siteInspection.create({
       data: input,
       include: {
@@ -23,10 +23,11 @@ export class PrismaSiteInspectionRepository implements ISiteInspectionRepository
     });
   }
 
-  async findById(id: string, includeDeleted = false): Promise<SiteInspection | null> {
+  async findById(organizationId: string, id: string, includeDeleted = false): Promise<SiteInspection | null> {
     return this.prisma.siteInspection.findFirst({
       where: {
         id,
+        project: { organizationId },
         ...(includeDeleted ? {} : { deletedAt: null }),
       },
       include: {
@@ -40,10 +41,11 @@ export class PrismaSiteInspectionRepository implements ISiteInspectionRepository
     });
   }
 
-  async findByProjectId(projectId: string, includeDeleted = false): Promise<SiteInspection[]> {
+  async findByProjectId(organizationId: string, projectId: string, includeDeleted = false): Promise<SiteInspection[]> {
     return this.prisma.siteInspection.findMany({
       where: {
         projectId,
+        project: { organizationId },
         ...(includeDeleted ? {} : { deletedAt: null }),
       },
       include: {
@@ -58,8 +60,8 @@ export class PrismaSiteInspectionRepository implements ISiteInspectionRepository
     });
   }
 
-  async findAll(params?: SiteInspectionSearchParams): Promise<SiteInspection[]> {
-    const where: Record<string, unknown> = {};
+  async findAll(organizationId: string, params?: SiteInspectionSearchParams): Promise<SiteInspection[]> {
+    const where: Record<string, unknown> = { project: { organizationId } };
 
     if (!params?.includeDeleted) {
       where.deletedAt = null;
@@ -91,9 +93,9 @@ export class PrismaSiteInspectionRepository implements ISiteInspectionRepository
     });
   }
 
-  async update(id: string, input: UpdateSiteInspectionInput): Promise<SiteInspection> {
+  async update(organizationId: string, id: string, input: UpdateSiteInspectionInput): Promise<SiteInspection> {
     return this.prisma.siteInspection.update({
-      where: { id },
+      where: { id, project: { organizationId } },
       data: input,
       include: {
         project: {
@@ -106,23 +108,23 @@ export class PrismaSiteInspectionRepository implements ISiteInspectionRepository
     });
   }
 
-  async softDelete(id: string): Promise<SiteInspection> {
+  async softDelete(organizationId: string, id: string): Promise<SiteInspection> {
     return this.prisma.siteInspection.update({
-      where: { id },
+      where: { id, project: { organizationId } },
       data: { deletedAt: new Date() },
     });
   }
 
-  async restore(id: string): Promise<SiteInspection> {
+  async restore(organizationId: string, id: string): Promise<SiteInspection> {
     return this.prisma.siteInspection.update({
-      where: { id },
+      where: { id, project: { organizationId } },
       data: { deletedAt: null },
     });
   }
 
-  async hardDelete(id: string): Promise<void> {
+  async hardDelete(organizationId: string, id: string): Promise<void> {
     await this.prisma.siteInspection.delete({
-      where: { id },
+      where: { id, project: { organizationId } },
     });
   }
 }
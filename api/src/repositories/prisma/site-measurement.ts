@@ -1,4 +1,4 @@
-import type { PrismaClient } from '@prisma/client';
+import type { PrismaClient, SiteMeasurement } from '@prisma/client';
 import type {
   ISiteMeasurementRepository,
   CreateSiteMeasurementInput,
@@ -41,6 +41,12 @@ export class PrismaSiteMeasurementRepository implements ISiteMeasurementReposito
     });
   }
 
+  async findByIdInOrganization(organizationId: string, id: string): Promise<SiteMeasurement | null> {
+    return this.prisma.siteMeasurement.findFirst({
+      where: { id, inspection: { project: { organizationId } } },
+    });
+  }
+
   async findByInspectionId(inspectionId: string): Promise<SiteMeasurementWithClause[]> {
     return this.prisma.siteMeasurement.findMany({
       where: { inspectionId },
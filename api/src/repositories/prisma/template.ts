@@ -0,0 +1,96 @@
+import { PrismaClient, type Template, type TemplateVersion } from '@prisma/client';
+import {
+  templateVariableInclude,
+  type ITemplateRepository,
+  type CreateTemplateInput,
+  type UpdateTemplateInput,
+  type SaveTemplateVersionInput,
+  type TemplateSearchParams,
+  type TemplateVariableData,
+} from '../interfaces/template.js';
+
+export class PrismaTemplateRepository implements ITemplateRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(organizationId: string, input: CreateTemplateInput): Promise<Template> {
+    return this.prisma.template.create({
+      data: {
+        ...input,
+        organizationId,
+        versions: {
+          create: {
+            version: 1,
+            content: input.content,
+            variables: input.variables,
+            changeNotes: input.changeNotes,
+            createdById: input.createdById,
+          },
+        },
+      },
+    });
+  }
+
+  async findById(organizationId: string, id: string): Promise<Template | null> {
+    return this.prisma.template.findFirst({
+      where: { id, organizationId },
+    });
+  }
+
+  async findAll(organizationId: string, params: TemplateSearchParams = {}): Promise<Template[]> {
+    return this.prisma.template.findMany({
+      where: {
+        organizationId,
+        category: params.category,
+        reportType: params.reportType,
+        section: params.section,
+        active: params.includeInactive ? undefined : true,
+      },
+      orderBy: [{ category: 'asc' }, { section: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async update(organizationId: string, id: string, input: UpdateTemplateInput): Promise<Template> {
+    return this.prisma.template.update({
+      where: { id, organizationId },
+      data: input,
+    });
+  }
+
+  async saveVersion(organizationId: string, id: string, input: SaveTemplateVersionInput): Promise<Template> {
+    const [template] = await this.prisma.$transaction([
+      this.prisma.template.update({
+        where: { id, organizationId },
+        data: {
+          version: input.version,
+          content: input.content,
+          variables: input.variables,
+          changeNotes: input.changeNotes ?? null,
+        },
+      }),
+      this.prisma.templateVersion.create({
+        data: { templateId: id, ...input },
+      }),
+    ]);
+    return template;
+  }
+
+  async findVersions(templateId: string): Promise<TemplateVersion[]> {
+    return this.prisma.templateVersion.findMany({
+      where: { templateId },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  async findVersion(templateId: string, version: number): Promise<TemplateVersion | null> {
+    return this.prisma.templateVersion.findUnique({
+      where: { templateId_version: { templateId, version } },
+    });
+  }
+
+  async loadVariableData(organizationId: string, projectId: string): Promise<TemplateVariableData | null> {
+    return this.prisma.project.findFirst({
+      where: { id: projectId, organizationId },
+      include: templateVariableInclude,
+    });
+  }
+}
@@ -0,0 +1,24 @@
+import type { PrismaClient, VoiceNote } from '@prisma/client';
+import type { IVoiceNoteRepository, CreateVoiceNoteInput } from '../interfaces/voice-note.js';
+
+export class PrismaVoiceNoteRepository implements IVoiceNoteRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(organizationId: string, input: CreateVoiceNoteInput): Promise<VoiceNote> {
+    return this.prisma.voiceNote.create({
+      data: { ...input, organizationId },
+    });
+  }
+
+  async findById(organizationId: string, id: string): Promise<VoiceNote | null> {
+    return this.prisma.voiceNote.findFirst({
+      where: { id, organizationId },
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.voiceNote.delete({
+      where: { id },
+    });
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * API Token Routes
+ *
+ * The caller's personal API tokens. Tokens are managed from a logged-in
+ * session only, so a leaked token cannot mint or revoke tokens.
+ */
+
+import { Router, type Request, type Response, type NextFunction, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { PrismaApiTokenRepository } from '../repositories/prisma/api-token.js';
+import { PrismaOrganizationRepository } from '../repositories/prisma/organization.js';
+import {
+  ApiTokenService,
+  ApiTokenNotFoundError,
+  ApiTokenValidationError,
+  ApiTokenPermissionError,
+} from '../services/api-token.js';
+import type { AuthRequest } from '../middleware/auth.js';
+
+const prisma = new PrismaClient();
+const service = new ApiTokenService(new PrismaApiTokenRepository(prisma), new PrismaOrganizationRepository(prisma));
+
+export const apiTokensRouter: RouterType = Router();
+
+// Validation schemas
+const CreateApiTokenSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  scopes: z.array(z.enum(['READ', 'INSPECTIONS', 'PROJECTS', 'REPORTS', 'FULL', 'AGENT'])).min(1, 'At least one scope is required'),
+  expiresAt: z.string().datetime().optional(),
+});
+
+apiTokensRouter.use((req: Request, res: Response, next: NextFunction) => {
+  if ((req as AuthRequest).apiTokenId) {
+    res.status(403).json({ error: 'API tokens cannot manage API tokens; log in instead' });
+    return;
+  }
+  next();
+});
+
+// POST /api/auth/tokens - Create a token (the token is only returned here)
+apiTokensRouter.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = CreateApiTokenSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const { token, apiToken } = await service.create((req as AuthRequest).userId as string, {
+      ...parsed.data,
+      expiresAt: parsed.data.expiresAt ? new Date(parsed.data.expiresAt) : undefined,
+    });
+    res.status(201).json({ ...apiToken, token });
+  } catch (error) {
+    if (error instanceof ApiTokenValidationError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    if (error instanceof ApiTokenPermissionError) {
+      res.status(403).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+});
+
+// GET /api/auth/tokens - List the caller's tokens, with last use
+apiTokensRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tokens = await service.findForUser((req as AuthRequest).userId as string);
+    res.json(tokens);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/auth/tokens/:id - Revoke a token
+apiTokensRouter.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const apiToken = await service.revoke((req as AuthRequest).userId as string, req.params.id as string);
+    res.json(apiToken);
+  } catch (error) {
+    if (error instanceof ApiTokenNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+});
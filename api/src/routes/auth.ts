@@ -2,29 +2,43 @@
  * Auth Routes — Issue #181
  *
  * User authentication with email/password.
- * Supports registration, login, logout, and session check.
+ * Supports registration, login, logout, session check, refresh tokens
+ * and session management.
  */
 
 import { Router, Request, Response, type Router as RouterType } from 'express';
-import rateLimit from 'express-rate-limit';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
 import { z } from 'zod';
-import jwt from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
 import crypto from 'crypto';
 import { PrismaClient } from '@prisma/client';
-import { generateToken } from '../middleware/auth.js';
+import { generateToken, verifyAccessToken, authMiddleware, type AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/tenant.js';
 import { cookieDomain } from '../config/domain.js';
+import { PrismaOrganizationRepository } from '../repositories/prisma/organization.js';
+import { PrismaSessionRepository } from '../repositories/prisma/session.js';
+import {
+  OrganizationService,
+  MembershipNotFoundError,
+  MembershipConflictError,
+} from '../services/organization.js';
+import { ROLE_PERMISSIONS, permissionsFor } from '../services/permissions.js';
+import {
+  SessionService,
+  SessionAuthError,
+  SessionNotFoundError,
+  ACCESS_TOKEN_TTL_SECONDS,
+  SESSION_TTL_MS,
+  hashRefreshToken,
+} from '../services/session.js';
 
 const prisma = new PrismaClient();
+const organizationService = new OrganizationService(new PrismaOrganizationRepository(prisma));
+const sessionService = new SessionService(new PrismaSessionRepository(prisma));
 
 export const authRouter: RouterType = Router();
 
 const SALT_ROUNDS = 12;
-const JWT_SECRET = process.env.JWT_SECRET || (
-  process.env.NODE_ENV === 'production' 
-    ? (() => { throw new Error('JWT_SECRET must be set in production'); })()
-    : 'development-secret-min-32-chars!!'
-);
 
 // Rate limiting: stricter in production, relaxed for test environment
 const isTestEnv = process.env.NODE_ENV === 'test';
@@ -37,10 +51,25 @@ const authLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// The web app refreshes from its server, so every user shares one IP there.
+// Refresh is limited per refresh token, i.e. per session, instead.
+const refreshLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: isTestEnv ? 100 : 20,
+  keyGenerator: (req) => {
+    const token = req.cookies?.refresh_token || req.body?.refreshToken;
+    return typeof token === 'string' && token ? hashRefreshToken(token) : ipKeyGenerator(req.ip ?? '');
+  },
+  message: { error: 'Too many attempts, please try again later' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // Validation schemas
 const RegisterSchema = z.object({
   email: z.string().email('Invalid email format'),
   password: z.string().min(8, 'Password must be at least 8 characters'),
+  organizationName: z.string().min(1).optional(),
 });
 
 const LoginSchema = z.object({
@@ -50,7 +79,9 @@ const LoginSchema = z.object({
 
 /**
  * POST /api/auth/register
- * Create a new user account
+ * Create a new user account. With organizationName, also create that
+ * organisation with the user as its admin; otherwise an organisation admin
+ * must add the user before they can access any projects.
  */
 authRouter.post('/register', authLimiter, async (req: Request, res: Response) => {
   try {
@@ -64,7 +95,7 @@ authRouter.post('/register', authLimiter, async (req: Request, res: Response) =>
       return;
     }
 
-    const { email, password } = parsed.data;
+    const { email, password, organizationName } = parsed.data;
 
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
@@ -79,25 +110,27 @@ authRouter.post('/register', authLimiter, async (req: Request, res: Response) =>
     // Hash password
     const passwordHash = await bcrypt.hash(password, SALT_ROUNDS);
 
-    // Create user
+    // Create user (and their organisation, if requested)
     const user = await prisma.user.create({
       data: {
         email: email.toLowerCase(),
         passwordHash,
+        ...(organizationName && {
+          memberships: {
+            create: { role: 'ORG_ADMIN', organization: { create: { name: organizationName } } },
+          },
+        }),
       },
     });
 
-    // Generate token
-    const token = generateToken(user.id);
-
-    // Set HttpOnly cookie
-    setTokenCookie(res, token);
+    // Start a session and set the HttpOnly cookies
+    const tokens = await startSession(req, res, user.id);
 
-    // Return token in response for cross-origin clients (NextAuth)
+    // Return tokens in response for cross-origin clients (NextAuth)
     res.status(201).json({
       message: 'Registration successful',
       user: { id: user.id, email: user.email },
-      token,
+      ...tokens,
     });
   } catch (err) {
     console.error('Registration error:', err);
@@ -146,17 +179,14 @@ authRouter.post('/login', authLimiter, async (req: Request, res: Response) => {
       data: { lastLoginAt: new Date() },
     });
 
-    // Generate token
-    const token = generateToken(user.id);
+    // Start a session and set the HttpOnly cookies
+    const tokens = await startSession(req, res, user.id);
 
-    // Set HttpOnly cookie
-    setTokenCookie(res, token);
-
-    // Return token in response for cross-origin clients (NextAuth)
+    // Return tokens in response for cross-origin clients (NextAuth)
     res.json({
       message: 'Login successful',
       user: { id: user.id, email: user.email },
-      token,
+      ...tokens,
     });
   } catch (err) {
     console.error('Login error:', err);
@@ -164,32 +194,124 @@ authRouter.post('/login', authLimiter, async (req: Request, res: Response) => {
   }
 });
 
+const RefreshSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+});
+
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token (cookie or body) for a new access token and a
+ * new refresh token. Each refresh token works once.
+ */
+authRouter.post('/refresh', refreshLimiter, async (req: Request, res: Response) => {
+  try {
+    const parsed = RefreshSchema.safeParse(req.body ?? {});
+    const refreshToken = req.cookies?.refresh_token || (parsed.success ? parsed.data.refreshToken : undefined);
+
+    if (!refreshToken) {
+      res.status(401).json({ error: 'Refresh token required' });
+      return;
+    }
+
+    const { session, refreshToken: nextRefreshToken } = await sessionService.refresh(refreshToken);
+    const token = generateToken(session.userId, session.id);
+    setSessionCookies(res, token, nextRefreshToken);
+
+    res.json({ token, refreshToken: nextRefreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+  } catch (err) {
+    if (err instanceof SessionAuthError) {
+      clearSessionCookies(res);
+      res.status(401).json({ error: err.message });
+      return;
+    }
+    console.error('Refresh error:', err);
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
 /**
  * POST /api/auth/logout
- * Clear the auth cookie
+ * End the current session and clear the auth cookies
  */
-authRouter.post('/logout', (req: Request, res: Response) => {
-  const isProduction = process.env.NODE_ENV === 'production';
-  
-  const clearOptions: {
-    httpOnly: boolean;
-    secure: boolean;
-    sameSite: 'strict' | 'lax' | 'none';
-    domain?: string;
-  } = {
-    httpOnly: true,
-    secure: isProduction,
-    sameSite: 'strict',
-  };
+authRouter.post('/logout', async (req: Request, res: Response) => {
+  try {
+    const refreshToken = req.cookies?.refresh_token || req.body?.refreshToken;
+    const token = req.cookies?.token || req.headers.authorization?.replace('Bearer ', '');
 
-  if (cookieDomain) {
-    clearOptions.domain = cookieDomain;
+    if (typeof refreshToken === 'string' && refreshToken) {
+      await sessionService.revokeByRefreshToken(refreshToken);
+    } else if (token) {
+      const { userId, sessionId } = await verifyAccessToken(token);
+      await sessionService.revoke(userId, sessionId);
+    }
+  } catch (err) {
+    // Logging out always clears the cookies, even if the session has already ended
+    if (!(err instanceof SessionAuthError)) {
+      console.error('Logout error:', err);
+    }
   }
 
-  res.clearCookie('token', clearOptions);
+  clearSessionCookies(res);
   res.json({ message: 'Logged out' });
 });
 
+// ============================================
+// Sessions
+// ============================================
+
+/**
+ * GET /api/auth/sessions
+ * The caller's active sessions, most recently used first
+ */
+authRouter.get('/sessions', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { userId, sessionId } = req as AuthRequest;
+    const sessions = await sessionService.findForUser(userId as string, sessionId);
+    res.json(sessions);
+  } catch (err) {
+    console.error('List sessions error:', err);
+    res.status(500).json({ error: 'Failed to list sessions' });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Revoke one of the caller's sessions
+ */
+authRouter.delete('/sessions/:id', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { userId, sessionId } = req as AuthRequest;
+    const id = req.params.id as string;
+    await sessionService.revoke(userId as string, id);
+    if (id === sessionId) {
+      clearSessionCookies(res);
+    }
+    res.status(204).send();
+  } catch (err) {
+    if (err instanceof SessionNotFoundError) {
+      res.status(404).json({ error: err.message });
+      return;
+    }
+    console.error('Revoke session error:', err);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions
+ * Revoke all of the caller's sessions, including this one
+ */
+authRouter.delete('/sessions', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const revoked = await sessionService.revokeAll((req as AuthRequest).userId as string);
+    clearSessionCookies(res);
+    res.json({ revoked });
+  } catch (err) {
+    console.error('Revoke sessions error:', err);
+    res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+});
+
 /**
  * GET /api/auth/check
  * Check if current request is authenticated
@@ -203,11 +325,11 @@ authRouter.get('/check', async (req: Request, res: Response) => {
   }
 
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { sub: string };
+    const { userId } = await verifyAccessToken(token);
     
     // Verify user still exists
     const user = await prisma.user.findUnique({
-      where: { id: decoded.sub },
+      where: { id: userId },
       select: { id: true, email: true },
     });
 
@@ -224,7 +346,8 @@ authRouter.get('/check', async (req: Request, res: Response) => {
 
 /**
  * GET /api/auth/me
- * Get current user info
+ * Get current user info, with their role and permissions in the current
+ * organisation (X-Organization-Id header, else their first membership)
  */
 authRouter.get('/me', async (req: Request, res: Response) => {
   const token = req.cookies?.token || req.headers.authorization?.replace('Bearer ', '');
@@ -235,10 +358,10 @@ authRouter.get('/me', async (req: Request, res: Response) => {
   }
 
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { sub: string };
+    const { userId } = await verifyAccessToken(token);
     
     const user = await prisma.user.findUnique({
-      where: { id: decoded.sub },
+      where: { id: userId },
       select: { id: true, email: true, createdAt: true, lastLoginAt: true },
     });
 
@@ -247,12 +370,80 @@ authRouter.get('/me', async (req: Request, res: Response) => {
       return;
     }
 
-    res.json({ user });
+    const memberships = await organizationService.findForUser(user.id);
+    const requested = req.headers['x-organization-id'];
+    const membership = typeof requested === 'string' && requested
+      ? memberships.find((m) => m.organizationId === requested)
+      : memberships[0];
+
+    res.json({
+      user,
+      organization: membership
+        ? { id: membership.organization.id, name: membership.organization.name, role: membership.role }
+        : null,
+      permissions: permissionsFor(membership?.role),
+    });
   } catch {
     res.status(401).json({ error: 'Invalid token' });
   }
 });
 
+// ============================================
+// Roles & Permissions
+// ============================================
+
+const AssignRoleSchema = z.object({
+  role: z.enum(['INSPECTOR', 'REVIEWER', 'OFFICE_ADMIN', 'ORG_ADMIN']),
+});
+
+/**
+ * GET /api/auth/roles
+ * The permission table: what each organisation role may do
+ */
+authRouter.get('/roles', (_req: Request, res: Response) => {
+  res.json(ROLE_PERMISSIONS);
+});
+
+/**
+ * PUT /api/auth/users/:userId/role
+ * Assign a member's role in the current organisation (requires organization:manage)
+ */
+authRouter.put(
+  '/users/:userId/role',
+  authMiddleware,
+  requirePermission('organization:manage'),
+  async (req: Request, res: Response) => {
+    try {
+      const parsed = AssignRoleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const member = await organizationService.updateMemberRole(
+        (req as AuthRequest).organizationId as string,
+        req.params.userId as string,
+        parsed.data.role
+      );
+      res.json({ ...member, permissions: permissionsFor(member.role) });
+    } catch (err) {
+      if (err instanceof MembershipNotFoundError) {
+        res.status(404).json({ error: err.message });
+        return;
+      }
+      if (err instanceof MembershipConflictError) {
+        res.status(409).json({ error: err.message });
+        return;
+      }
+      console.error('Role assignment error:', err);
+      res.status(500).json({ error: 'Failed to assign role' });
+    }
+  }
+);
+
 // ============================================
 // Password Reset — Issue #182
 // ============================================
@@ -387,6 +578,11 @@ authRouter.post('/reset-password', authLimiter, async (req: Request, res: Respon
         where: { id: resetToken.id },
         data: { usedAt: new Date() },
       }),
+      // Sign out everywhere: whoever knew the old password may hold a session
+      prisma.session.updateMany({
+        where: { userId: resetToken.userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
     ]);
 
     res.json({ message: 'Password has been reset successfully' });
@@ -438,8 +634,7 @@ authRouter.post('/link-whatsapp', authLimiter, async (req: Request, res: Respons
 
     let userId: string;
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as { sub: string };
-      userId = decoded.sub;
+      ({ userId } = await verifyAccessToken(token));
     } catch {
       res.status(401).json({ error: 'Invalid token' });
       return;
@@ -517,8 +712,7 @@ authRouter.post('/verify-whatsapp', authLimiter, async (req: Request, res: Respo
 
     let userId: string;
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as { sub: string };
-      userId = decoded.sub;
+      ({ userId } = await verifyAccessToken(token));
     } catch {
       res.status(401).json({ error: 'Invalid token' });
       return;
@@ -591,8 +785,7 @@ authRouter.delete('/unlink-whatsapp', async (req: Request, res: Response) => {
 
     let userId: string;
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as { sub: string };
-      userId = decoded.sub;
+      ({ userId } = await verifyAccessToken(token));
     } catch {
       res.status(401).json({ error: 'Invalid token' });
       return;
@@ -629,8 +822,7 @@ authRouter.get('/whatsapp-status', async (req: Request, res: Response) => {
 
     let userId: string;
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as { sub: string };
-      userId = decoded.sub;
+      ({ userId } = await verifyAccessToken(token));
     } catch {
       res.status(401).json({ error: 'Invalid token' });
       return;
@@ -657,25 +849,48 @@ authRouter.get('/whatsapp-status', async (req: Request, res: Response) => {
   }
 });
 
-function setTokenCookie(res: Response, token: string): void {
+/**
+ * Start a session for a user who has just logged in or registered
+ */
+async function startSession(
+  req: Request,
+  res: Response,
+  userId: string
+): Promise<{ token: string; refreshToken: string; expiresIn: number }> {
+  const { session, refreshToken } = await sessionService.create(userId, {
+    userAgent: req.headers['user-agent'],
+    ipAddress: req.ip,
+  });
+  const token = generateToken(userId, session.id);
+  setSessionCookies(res, token, refreshToken);
+  return { token, refreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+}
+
+function cookieOptions(): {
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: 'strict' | 'lax' | 'none';
+  domain?: string;
+} {
   const isProduction = process.env.NODE_ENV === 'production';
-  
-  const cookieOptions: {
-    httpOnly: boolean;
-    secure: boolean;
-    sameSite: 'strict' | 'lax' | 'none';
-    maxAge: number;
-    domain?: string;
-  } = {
+
+  return {
     httpOnly: true,
     secure: isProduction,
     sameSite: 'strict',
-    maxAge: 24 * 60 * 60 * 1000, // 24 hours
+    ...(cookieDomain && { domain: cookieDomain }),
   };
+}
 
-  if (cookieDomain) {
-    cookieOptions.domain = cookieDomain;
-  }
+// The refresh token is only sent to the auth routes
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+function setSessionCookies(res: Response, token: string, refreshToken: string): void {
+  res.cookie('token', token, { ...cookieOptions(), maxAge: ACCESS_TOKEN_TTL_SECONDS * 1000 });
+  res.cookie('refresh_token', refreshToken, { ...cookieOptions(), path: REFRESH_COOKIE_PATH, maxAge: SESSION_TTL_MS });
+}
 
-  res.cookie('token', token, cookieOptions);
+function clearSessionCookies(res: Response): void {
+  res.clearCookie('token', cookieOptions());
+  res.clearCookie('refresh_token', { ...cookieOptions(), path: REFRESH_COOKIE_PATH });
 }
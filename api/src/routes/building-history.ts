@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
 import { PrismaBuildingHistoryRepository } from '../repositories/prisma/building-history.js';
 import { BuildingHistoryService, BuildingHistoryNotFoundError } from '../services/building-history.js';
+import { requireBuildingHistoryAccess } from '../middleware/tenant.js';
 
 const prisma = new PrismaClient();
 const repository = new PrismaBuildingHistoryRepository(prisma);
@@ -86,6 +87,7 @@ buildingHistoryRouter.get(
 // GET /api/building-history/:id - Get single history record
 buildingHistoryRouter.get(
   '/building-history/:id',
+  requireBuildingHistoryAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -104,6 +106,7 @@ buildingHistoryRouter.get(
 // PUT /api/building-history/:id - Update history record
 buildingHistoryRouter.put(
   '/building-history/:id',
+  requireBuildingHistoryAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -143,6 +146,7 @@ buildingHistoryRouter.put(
 // DELETE /api/building-history/:id - Delete history record
 buildingHistoryRouter.delete(
   '/building-history/:id',
+  requireBuildingHistoryAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -3,6 +3,8 @@ import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
 import { PrismaChecklistItemRepository } from '../repositories/prisma/checklist-item.js';
 import { ChecklistItemService, ChecklistItemNotFoundError } from '../services/checklist-item.js';
+import { idempotent } from '../middleware/idempotency.js';
+import { requireChecklistItemAccess, requireLinkedVoiceNotes } from '../middleware/tenant.js';
 
 const prisma = new PrismaClient();
 const repository = new PrismaChecklistItemRepository(prisma);
@@ -21,6 +23,7 @@ const CreateChecklistItemSchema = z.object({
   decision: z.enum(decisions),
   notes: z.string().max(2000).optional(),
   photoIds: z.array(z.string().uuid()).max(50).optional(),
+  voiceNoteId: z.string().uuid().optional(),
   sortOrder: z.number().int().optional(),
 });
 
@@ -44,6 +47,8 @@ const ReorderSchema = z.object({
 // POST /api/site-inspections/:inspectionId/checklist-items - Create item
 checklistItemsRouter.post(
   '/site-inspections/:inspectionId/checklist-items',
+  requireLinkedVoiceNotes,
+  idempotent,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const inspectionId = req.params.inspectionId as string;
@@ -71,6 +76,7 @@ checklistItemsRouter.post(
 // POST /api/site-inspections/:inspectionId/checklist-items/bulk - Bulk create
 checklistItemsRouter.post(
   '/site-inspections/:inspectionId/checklist-items/bulk',
+  requireLinkedVoiceNotes,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const inspectionId = req.params.inspectionId as string;
@@ -164,6 +170,7 @@ checklistItemsRouter.put(
 // GET /api/checklist-items/:id - Get item by ID
 checklistItemsRouter.get(
   '/checklist-items/:id',
+  requireChecklistItemAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -182,6 +189,7 @@ checklistItemsRouter.get(
 // PUT /api/checklist-items/:id - Update item
 checklistItemsRouter.put(
   '/checklist-items/:id',
+  requireChecklistItemAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -210,6 +218,7 @@ checklistItemsRouter.put(
 // DELETE /api/checklist-items/:id - Delete item
 checklistItemsRouter.delete(
   '/checklist-items/:id',
+  requireChecklistItemAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -0,0 +1,240 @@
+/**
+ * Checklist Routes
+ *
+ * Inspection checklists with drafts and immutable published versions.
+ * Inspections are pinned to the version they started on.
+ */
+
+import { Router, type Request, type Response, type NextFunction, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { PrismaChecklistDefinitionRepository } from '../repositories/prisma/checklist-definition.js';
+import {
+  ChecklistDefinitionService,
+  ChecklistNotFoundError,
+  ChecklistVersionNotFoundError,
+  ChecklistValidationError,
+  ChecklistConflictError,
+} from '../services/checklist-definition.js';
+import { requireAdmin, type AuthRequest } from '../middleware/auth.js';
+
+const prisma = new PrismaClient();
+const service = new ChecklistDefinitionService(new PrismaChecklistDefinitionRepository(prisma));
+
+export const checklistsRouter: RouterType = Router();
+
+// Enums
+const reportTypes = ['COA', 'CCC_GAP', 'PPI', 'SAFE_SANITARY', 'TFA'] as const;
+
+// Validation schemas
+const EvidenceSchema = z.object({
+  min_findings: z.number().int().nonnegative().optional(),
+  min_photos: z.number().int().nonnegative().optional(),
+});
+
+const ConditionSchema = z.object({
+  construction: z.record(z.array(z.string().min(1))).optional(),
+  built_before: z.number().int().optional(),
+  built_from: z.number().int().optional(),
+  has_subfloor: z.boolean().optional(),
+  has_deck: z.boolean().optional(),
+  report_type: z.array(z.enum(reportTypes)).optional(),
+}).strict();
+
+const ItemSchema = z.union([
+  z.string().min(1),
+  z.object({ name: z.string().min(1), when: ConditionSchema }),
+]);
+
+const SubareaSchema = z.object({
+  id: z.string().min(1, 'Subarea ID is required'),
+  name: z.string().min(1, 'Subarea name is required'),
+  prompt: z.string().optional(),
+  items: z.array(ItemSchema).optional(),
+  when: ConditionSchema.optional(),
+  required: z.boolean().optional(),
+  required_items: z.array(z.string().min(1)).optional(),
+  evidence: EvidenceSchema.optional(),
+});
+
+const SectionSchema = SubareaSchema.extend({
+  id: z.string().min(1, 'Section ID is required'),
+  name: z.string().min(1, 'Section name is required'),
+  subareas: z.array(SubareaSchema).optional(),
+  report_section: z.number().int().positive().optional(),
+});
+
+const ChecklistContentSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  standard: z.string().optional(),
+  metadata: z.object({
+    required: z.array(z.string().min(1)).optional(),
+    optional: z.array(z.string().min(1)).optional(),
+  }).optional(),
+  sections: z.array(SectionSchema).min(1, 'At least one section is required'),
+  conclusions: z.record(z.string()).optional(),
+});
+
+const CreateChecklistSchema = z.object({
+  key: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Key must be lower case letters, digits and hyphens'),
+  content: ChecklistContentSchema,
+  publish: z.boolean().optional(),
+  changeNotes: z.string().optional(),
+});
+
+const PublishSchema = z.object({
+  changeNotes: z.string().optional(),
+});
+
+function handleChecklistError(error: unknown, res: Response, next: NextFunction): void {
+  if (error instanceof ChecklistNotFoundError || error instanceof ChecklistVersionNotFoundError) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  if (error instanceof ChecklistValidationError) {
+    res.status(400).json({ error: 'Validation failed', problems: error.problems });
+    return;
+  }
+  if (error instanceof ChecklistConflictError) {
+    res.status(409).json({ error: error.message });
+    return;
+  }
+  next(error);
+}
+
+// GET /api/checklists - List active checklists
+checklistsRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const checklists = await service.findAll(req.query.includeInactive === 'true');
+    res.json(checklists);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/checklists/:key - Latest published version of a checklist
+checklistsRouter.get('/:key', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const resolved = await service.resolve(req.params.key as string);
+    res.json(resolved);
+  } catch (error) {
+    handleChecklistError(error, res, next);
+  }
+});
+
+// GET /api/checklists/:key/definition - Checklist definition with its draft
+checklistsRouter.get('/:key/definition', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const definition = await service.findByKey(req.params.key as string);
+    res.json(definition);
+  } catch (error) {
+    handleChecklistError(error, res, next);
+  }
+});
+
+// GET /api/checklists/:key/versions - Published versions (newest first)
+checklistsRouter.get('/:key/versions', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const versions = await service.findVersions(req.params.key as string);
+    res.json(versions);
+  } catch (error) {
+    handleChecklistError(error, res, next);
+  }
+});
+
+// GET /api/checklists/:key/versions/:version - A specific published version
+checklistsRouter.get('/:key/versions/:version', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = z.coerce.number().int().positive().safeParse(req.params.version);
+
+    if (!parsed.success) {
+      res.status(400).json({ error: `Invalid version: ${req.params.version}` });
+      return;
+    }
+
+    const version = await service.findVersion(req.params.key as string, parsed.data);
+    res.json(version);
+  } catch (error) {
+    handleChecklistError(error, res, next);
+  }
+});
+
+// POST /api/checklists - Create checklist as a draft, or publish version 1 (admin)
+checklistsRouter.post('/', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = CreateChecklistSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const definition = await service.create((req as AuthRequest).userId, parsed.data);
+    res.status(201).json(definition);
+  } catch (error) {
+    handleChecklistError(error, res, next);
+  }
+});
+
+// PUT /api/checklists/:key/draft - Replace the draft (admin)
+checklistsRouter.put('/:key/draft', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = ChecklistContentSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const definition = await service.saveDraft(req.params.key as string, parsed.data);
+    res.json(definition);
+  } catch (error) {
+    handleChecklistError(error, res, next);
+  }
+});
+
+// DELETE /api/checklists/:key/draft - Discard the draft (admin)
+checklistsRouter.delete('/:key/draft', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const definition = await service.discardDraft(req.params.key as string);
+    res.json(definition);
+  } catch (error) {
+    handleChecklistError(error, res, next);
+  }
+});
+
+// POST /api/checklists/:key/publish - Publish the draft as the next version (admin)
+checklistsRouter.post('/:key/publish', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = PublishSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const version = await service.publish(req.params.key as string, (req as AuthRequest).userId, parsed.data.changeNotes);
+    res.status(201).json(version);
+  } catch (error) {
+    handleChecklistError(error, res, next);
+  }
+});
+
+// DELETE /api/checklists/:key - Deactivate checklist; inspections already started keep their version (admin)
+checklistsRouter.delete('/:key', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await service.deactivate(req.params.key as string);
+    res.status(204).send();
+  } catch (error) {
+    handleChecklistError(error, res, next);
+  }
+});
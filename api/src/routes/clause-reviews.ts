@@ -3,6 +3,8 @@ import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
 import { PrismaClauseReviewRepository } from '../repositories/prisma/clause-review.js';
 import { ClauseReviewService, ClauseReviewNotFoundError } from '../services/clause-review.js';
+import { idempotent } from '../middleware/idempotency.js';
+import { requireClauseReviewAccess, requireLinkedVoiceNotes } from '../middleware/tenant.js';
 
 const prisma = new PrismaClient();
 const repository = new PrismaClauseReviewRepository(prisma);
@@ -21,6 +23,7 @@ const CreateClauseReviewSchema = z.object({
   observations: z.string().optional(),
   photoIds: z.array(z.string()).optional(),
   docIds: z.array(z.string()).optional(),
+  voiceNoteId: z.string().uuid().optional(),
   docsRequired: z.string().optional(),
   remedialWorks: z.string().optional(),
   sortOrder: z.number().int().optional(),
@@ -48,6 +51,8 @@ const InitializeSchema = z.object({
 // POST /api/site-inspections/:inspectionId/clause-reviews - Create review
 clauseReviewsRouter.post(
   '/site-inspections/:inspectionId/clause-reviews',
+  requireLinkedVoiceNotes,
+  idempotent,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const inspectionId = req.params.inspectionId as string;
@@ -75,6 +80,7 @@ clauseReviewsRouter.post(
 // POST /api/site-inspections/:inspectionId/clause-reviews/bulk - Bulk create
 clauseReviewsRouter.post(
   '/site-inspections/:inspectionId/clause-reviews/bulk',
+  requireLinkedVoiceNotes,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const inspectionId = req.params.inspectionId as string;
@@ -167,6 +173,7 @@ clauseReviewsRouter.get(
 // GET /api/clause-reviews/:id - Get review by ID
 clauseReviewsRouter.get(
   '/clause-reviews/:id',
+  requireClauseReviewAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -185,6 +192,7 @@ clauseReviewsRouter.get(
 // PUT /api/clause-reviews/:id - Update review
 clauseReviewsRouter.put(
   '/clause-reviews/:id',
+  requireClauseReviewAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -213,6 +221,7 @@ clauseReviewsRouter.put(
 // POST /api/clause-reviews/:id/mark-na - Mark as N/A with reason
 clauseReviewsRouter.post(
   '/clause-reviews/:id/mark-na',
+  requireClauseReviewAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -238,6 +247,7 @@ clauseReviewsRouter.post(
 // POST /api/clause-reviews/:id/mark-applicable - Mark as applicable
 clauseReviewsRouter.post(
   '/clause-reviews/:id/mark-applicable',
+  requireClauseReviewAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -256,6 +266,7 @@ clauseReviewsRouter.post(
 // DELETE /api/clause-reviews/:id - Delete review
 clauseReviewsRouter.delete(
   '/clause-reviews/:id',
+  requireClauseReviewAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -3,6 +3,8 @@ import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
 import { PrismaClientRepository } from '../repositories/prisma/project.js';
 import { ClientService, ClientNotFoundError } from '../services/project.js';
+import type { AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/tenant.js';
 
 const prisma = new PrismaClient();
 const repository = new PrismaClientRepository(prisma);
@@ -30,7 +32,7 @@ const UpdateClientSchema = z.object({
 });
 
 // POST /api/clients - Create client
-clientsRouter.post('/', async (req: Request, res: Response, next: NextFunction) => {
+clientsRouter.post('/', requirePermission('clients:write'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const parsed = CreateClientSchema.safeParse(req.body);
 
@@ -48,7 +50,7 @@ clientsRouter.post('/', async (req: Request, res: Response, next: NextFunction)
       email: parsed.data.email || undefined,
     };
 
-    const client = await service.create(data);
+    const client = await service.create((req as AuthRequest).organizationId as string, data);
     res.status(201).json(client);
   } catch (error) {
     next(error);
@@ -60,7 +62,7 @@ clientsRouter.get('/', async (req: Request, res: Response, next: NextFunction) =
   try {
     const { name, email } = req.query;
 
-    const clients = await service.findAll({
+    const clients = await service.findAll((req as AuthRequest).organizationId as string, {
       name: name as string | undefined,
       email: email as string | undefined,
     });
@@ -74,7 +76,7 @@ clientsRouter.get('/', async (req: Request, res: Response, next: NextFunction) =
 clientsRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = req.params.id as string;
-    const client = await service.findById(id);
+    const client = await service.findById((req as AuthRequest).organizationId as string, id);
     res.json(client);
   } catch (error) {
     if (error instanceof ClientNotFoundError) {
@@ -86,7 +88,7 @@ clientsRouter.get('/:id', async (req: Request, res: Response, next: NextFunction
 });
 
 // PUT /api/clients/:id - Update client
-clientsRouter.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+clientsRouter.put('/:id', requirePermission('clients:write'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = req.params.id as string;
     const parsed = UpdateClientSchema.safeParse(req.body);
@@ -105,7 +107,7 @@ clientsRouter.put('/:id', async (req: Request, res: Response, next: NextFunction
       email: parsed.data.email || undefined,
     };
 
-    const client = await service.update(id, data);
+    const client = await service.update((req as AuthRequest).organizationId as string, id, data);
     res.json(client);
   } catch (error) {
     if (error instanceof ClientNotFoundError) {
@@ -0,0 +1,65 @@
+/**
+ * Comment Feedback Routes
+ *
+ * Inspector feedback on comment-library suggestions, scoped to the caller's
+ * organisation. The MCP server reads the summary to rank suggestions.
+ */
+
+import { Router, type Request, type Response, type NextFunction, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { PrismaCommentFeedbackRepository } from '../repositories/prisma/comment-feedback.js';
+import { CommentFeedbackService } from '../services/comment-feedback.js';
+import { requirePermission } from '../middleware/tenant.js';
+import type { AuthRequest } from '../middleware/auth.js';
+
+const prisma = new PrismaClient();
+const service = new CommentFeedbackService(new PrismaCommentFeedbackRepository(prisma));
+
+export const commentFeedbackRouter: RouterType = Router();
+
+// Validation schemas
+const RecordCommentFeedbackSchema = z.object({
+  findingId: z.string().uuid().optional(),
+  section: z.string().min(1).optional(),
+  findingText: z.string().min(1, 'Finding text is required'),
+  commentKey: z.string().min(1).optional(),
+  suggestedComment: z.string().optional(),
+  finalComment: z.string().optional(),
+  rank: z.number().int().positive().optional(),
+});
+
+// POST /api/comment-feedback - Record the comment an inspector kept for a finding
+commentFeedbackRouter.post(
+  '/',
+  requirePermission('inspections:write'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = RecordCommentFeedbackSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const { organizationId, userId } = req as AuthRequest;
+      const feedback = await service.record(organizationId as string, userId, parsed.data);
+      res.status(201).json(feedback);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/comment-feedback/summary - Acceptance counts and edited wordings for the organisation
+commentFeedbackRouter.get('/summary', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const summary = await service.summarize((req as AuthRequest).organizationId as string);
+    res.json(summary);
+  } catch (error) {
+    next(error);
+  }
+});
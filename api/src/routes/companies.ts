@@ -0,0 +1,126 @@
+/**
+ * Company Routes — Issue #155
+ *
+ * Companies that personnel sign reports on behalf of.
+ */
+
+import { Router, type Request, type Response, type NextFunction, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { PrismaCompanyRepository } from '../repositories/prisma/personnel.js';
+import { CompanyService, CompanyNotFoundError, CompanyInUseError } from '../services/personnel.js';
+import type { AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/tenant.js';
+
+const prisma = new PrismaClient();
+const service = new CompanyService(new PrismaCompanyRepository(prisma));
+
+export const companiesRouter: RouterType = Router();
+
+// Validation schemas
+const CreateCompanySchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  logoPath: z.string().optional(),
+  address: z.string().optional(),
+  phone: z.string().optional(),
+  email: z.string().email('Invalid email').optional(),
+  website: z.string().url('Invalid URL').optional(),
+});
+
+const UpdateCompanySchema = z.object({
+  name: z.string().min(1).optional(),
+  logoPath: z.string().nullable().optional(),
+  address: z.string().nullable().optional(),
+  phone: z.string().nullable().optional(),
+  email: z.string().email('Invalid email').nullable().optional(),
+  website: z.string().url('Invalid URL').nullable().optional(),
+});
+
+// POST /api/companies - Create company
+companiesRouter.post('/', requirePermission('personnel:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = CreateCompanySchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const company = await service.create((req as AuthRequest).organizationId as string, parsed.data);
+    res.status(201).json(company);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/companies - List companies
+companiesRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const companies = await service.findAll((req as AuthRequest).organizationId as string);
+    res.json(companies);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/companies/:id - Get company by ID
+companiesRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const company = await service.findById((req as AuthRequest).organizationId as string, id);
+    res.json(company);
+  } catch (error) {
+    if (error instanceof CompanyNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+});
+
+// PUT /api/companies/:id - Update company
+companiesRouter.put('/:id', requirePermission('personnel:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const parsed = UpdateCompanySchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const company = await service.update((req as AuthRequest).organizationId as string, id, parsed.data);
+    res.json(company);
+  } catch (error) {
+    if (error instanceof CompanyNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+});
+
+// DELETE /api/companies/:id - Delete company (only when it has no personnel)
+companiesRouter.delete('/:id', requirePermission('personnel:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    await service.delete((req as AuthRequest).organizationId as string, id);
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof CompanyNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof CompanyInUseError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+});
@@ -0,0 +1,254 @@
+/**
+ * Cost Estimate Routes — Issue #153
+ *
+ * Remediation cost estimates for CCC gap analysis reports.
+ * See: docs/design/012-ccc-gap-analysis.md
+ */
+
+import { Router, type Request, type Response, type NextFunction, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { PrismaCostEstimateRepository } from '../repositories/prisma/cost-estimate.js';
+import { PrismaProjectRepository } from '../repositories/prisma/project.js';
+import { PrismaDefectRepository } from '../repositories/prisma/defect.js';
+import {
+  CostEstimateService,
+  CostEstimateNotFoundError,
+  CostEstimateExistsError,
+  CostEstimateValidationError,
+  CostLineItemNotFoundError,
+  MAX_CONTINGENCY_RATE,
+} from '../services/cost-estimate.js';
+import { ProjectNotFoundError } from '../services/project.js';
+import { DefectNotFoundError } from '../services/defect.js';
+import type { AuthRequest } from '../middleware/auth.js';
+import { requireCostEstimateAccess, requireCostLineItemAccess } from '../middleware/tenant.js';
+
+const prisma = new PrismaClient();
+const service = new CostEstimateService(
+  new PrismaCostEstimateRepository(prisma),
+  new PrismaProjectRepository(prisma),
+  new PrismaDefectRepository(prisma)
+);
+
+export const costEstimatesRouter: RouterType = Router();
+
+// Enums for validation
+const CostCategoryEnum = z.enum([
+  'PRELIMINARIES', 'DEMOLITION', 'STRUCTURE', 'CLADDING', 'ROOFING',
+  'WINDOWS', 'SERVICES', 'FINISHING', 'PROFESSIONAL', 'OTHER',
+]);
+
+// Validation schemas
+const ContingencyRateSchema = z.number().min(0).max(MAX_CONTINGENCY_RATE);
+
+const CreateCostEstimateSchema = z.object({
+  currency: z.string().length(3).optional(),
+  contingencyRate: ContingencyRateSchema.optional(),
+  notes: z.string().optional(),
+  validUntil: z.string().datetime().optional(),
+});
+
+const UpdateCostEstimateSchema = z.object({
+  currency: z.string().length(3).optional(),
+  contingencyRate: ContingencyRateSchema.optional(),
+  notes: z.string().nullable().optional(),
+  validUntil: z.string().datetime().nullable().optional(),
+});
+
+const CreateLineItemSchema = z.object({
+  defectId: z.string().uuid().optional(),
+  description: z.string().min(1, 'Description is required'),
+  quantity: z.number().positive(),
+  unit: z.string().min(1, 'Unit is required'),
+  rate: z.number().min(0),
+  category: CostCategoryEnum.optional(),
+  notes: z.string().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+const UpdateLineItemSchema = z.object({
+  defectId: z.string().uuid().nullable().optional(),
+  description: z.string().min(1).optional(),
+  quantity: z.number().positive().optional(),
+  unit: z.string().min(1).optional(),
+  rate: z.number().min(0).optional(),
+  category: CostCategoryEnum.nullable().optional(),
+  notes: z.string().nullable().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+function handleCostEstimateError(error: unknown, res: Response, next: NextFunction): void {
+  if (
+    error instanceof CostEstimateNotFoundError ||
+    error instanceof CostLineItemNotFoundError ||
+    error instanceof ProjectNotFoundError
+  ) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  if (error instanceof CostEstimateExistsError) {
+    res.status(409).json({ error: error.message });
+    return;
+  }
+  if (error instanceof CostEstimateValidationError || error instanceof DefectNotFoundError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  next(error);
+}
+
+function toDate(value: string | null | undefined): Date | null | undefined {
+  if (value === null || value === undefined) return value;
+  return new Date(value);
+}
+
+// POST /api/projects/:projectId/cost-estimate - Create the project's cost estimate
+costEstimatesRouter.post(
+  '/projects/:projectId/cost-estimate',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.projectId as string;
+      const parsed = CreateCostEstimateSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const estimate = await service.create((req as AuthRequest).organizationId as string, {
+        projectId,
+        ...parsed.data,
+        validUntil: parsed.data.validUntil ? new Date(parsed.data.validUntil) : undefined,
+      });
+      res.status(201).json(estimate);
+    } catch (error) {
+      handleCostEstimateError(error, res, next);
+    }
+  }
+);
+
+// GET /api/projects/:projectId/cost-estimate - Get the project's cost estimate
+costEstimatesRouter.get(
+  '/projects/:projectId/cost-estimate',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.projectId as string;
+      const estimate = await service.findByProjectId(projectId);
+      res.json(estimate);
+    } catch (error) {
+      handleCostEstimateError(error, res, next);
+    }
+  }
+);
+
+// PUT /api/cost-estimates/:id - Update estimate (contingency changes recalculate totals)
+costEstimatesRouter.put(
+  '/cost-estimates/:id',
+  requireCostEstimateAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const parsed = UpdateCostEstimateSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const estimate = await service.update(id, {
+        ...parsed.data,
+        validUntil: toDate(parsed.data.validUntil),
+      });
+      res.json(estimate);
+    } catch (error) {
+      handleCostEstimateError(error, res, next);
+    }
+  }
+);
+
+// POST /api/cost-estimates/:id/recalculate - Recalculate totals from line items
+costEstimatesRouter.post(
+  '/cost-estimates/:id/recalculate',
+  requireCostEstimateAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const estimate = await service.recalculate(id);
+      res.json(estimate);
+    } catch (error) {
+      handleCostEstimateError(error, res, next);
+    }
+  }
+);
+
+// POST /api/cost-estimates/:id/line-items - Add line item
+costEstimatesRouter.post(
+  '/cost-estimates/:id/line-items',
+  requireCostEstimateAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const parsed = CreateLineItemSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const estimate = await service.addLineItem(id, parsed.data);
+      res.status(201).json(estimate);
+    } catch (error) {
+      handleCostEstimateError(error, res, next);
+    }
+  }
+);
+
+// PUT /api/cost-line-items/:id - Update line item
+costEstimatesRouter.put(
+  '/cost-line-items/:id',
+  requireCostLineItemAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const parsed = UpdateLineItemSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const estimate = await service.updateLineItem(id, parsed.data);
+      res.json(estimate);
+    } catch (error) {
+      handleCostEstimateError(error, res, next);
+    }
+  }
+);
+
+// DELETE /api/cost-line-items/:id - Delete line item
+costEstimatesRouter.delete(
+  '/cost-line-items/:id',
+  requireCostLineItemAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const estimate = await service.deleteLineItem(id);
+      res.json(estimate);
+    } catch (error) {
+      handleCostEstimateError(error, res, next);
+    }
+  }
+);
@@ -0,0 +1,190 @@
+/**
+ * Defect Routes — Issue #153
+ *
+ * Defect records for CCC gap analysis site inspections.
+ * See: docs/design/012-ccc-gap-analysis.md
+ */
+
+import { Router, type Request, type Response, type NextFunction, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { PrismaClient, type BuildingElement, type DefectPriority } from '@prisma/client';
+import { PrismaDefectRepository } from '../repositories/prisma/defect.js';
+import { DefectService, DefectNotFoundError, DefectValidationError } from '../services/defect.js';
+import { requireDefectAccess } from '../middleware/tenant.js';
+
+const prisma = new PrismaClient();
+const repository = new PrismaDefectRepository(prisma);
+const service = new DefectService(repository);
+
+export const defectsRouter: RouterType = Router();
+
+// Enums for validation
+const BuildingElementEnum = z.enum([
+  'ROOF', 'WALL', 'WINDOW', 'DECK', 'SUBFLOOR', 'INTERIOR', 'SERVICES', 'STRUCTURE', 'OTHER',
+]);
+const DefectPriorityEnum = z.enum(['CRITICAL', 'HIGH', 'MEDIUM', 'LOW']);
+
+// Validation schemas
+const CreateDefectSchema = z.object({
+  location: z.string().min(1, 'Location is required'),
+  buildingElement: BuildingElementEnum,
+  clauseId: z.string().uuid().optional(),
+  description: z.string().min(1, 'Description is required'),
+  cause: z.string().optional(),
+  remedialAction: z.string().optional(),
+  priority: DefectPriorityEnum,
+  photoIds: z.array(z.string().uuid()).optional(),
+});
+
+const UpdateDefectSchema = z.object({
+  location: z.string().min(1).optional(),
+  buildingElement: BuildingElementEnum.optional(),
+  clauseId: z.string().uuid().nullable().optional(),
+  description: z.string().min(1).optional(),
+  cause: z.string().nullable().optional(),
+  remedialAction: z.string().nullable().optional(),
+  priority: DefectPriorityEnum.optional(),
+  photoIds: z.array(z.string().uuid()).optional(),
+});
+
+const ReorderDefectsSchema = z.object({
+  defectIds: z.array(z.string().uuid()).min(1),
+});
+
+// POST /api/site-inspections/:inspectionId/defects - Create defect
+defectsRouter.post(
+  '/site-inspections/:inspectionId/defects',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const inspectionId = req.params.inspectionId as string;
+      const parsed = CreateDefectSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const defect = await service.create({ inspectionId, ...parsed.data });
+      res.status(201).json(defect);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/site-inspections/:inspectionId/defects - List defects (filter by priority, buildingElement)
+defectsRouter.get(
+  '/site-inspections/:inspectionId/defects',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const inspectionId = req.params.inspectionId as string;
+      const { priority, buildingElement } = req.query;
+
+      const defects = await service.findByInspectionId(inspectionId, {
+        priority: priority as DefectPriority | undefined,
+        buildingElement: buildingElement as BuildingElement | undefined,
+      });
+      res.json(defects);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/site-inspections/:inspectionId/defects/reorder - Reorder and renumber defects
+defectsRouter.put(
+  '/site-inspections/:inspectionId/defects/reorder',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const inspectionId = req.params.inspectionId as string;
+      const parsed = ReorderDefectsSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const defects = await service.reorder(inspectionId, parsed.data.defectIds);
+      res.json(defects);
+    } catch (error) {
+      if (error instanceof DefectValidationError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/defects/:id - Get defect
+defectsRouter.get(
+  '/defects/:id',
+  requireDefectAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const defect = await service.findById(id);
+      res.json(defect);
+    } catch (error) {
+      if (error instanceof DefectNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// PUT /api/defects/:id - Update defect
+defectsRouter.put(
+  '/defects/:id',
+  requireDefectAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const parsed = UpdateDefectSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const defect = await service.update(id, parsed.data);
+      res.json(defect);
+    } catch (error) {
+      if (error instanceof DefectNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/defects/:id - Delete defect
+defectsRouter.delete(
+  '/defects/:id',
+  requireDefectAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      await service.delete(id);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof DefectNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
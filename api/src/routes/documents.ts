@@ -1,8 +1,25 @@
 import { Router, type Request, type Response, type NextFunction } from 'express';
 import { z } from 'zod';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, type Document } from '@prisma/client';
+import multer from 'multer';
 import { PrismaDocumentRepository } from '../repositories/prisma/document.js';
 import { DocumentService, DocumentNotFoundError } from '../services/document.js';
+import {
+  DocumentFileError,
+  MAX_DOCUMENT_SIZE,
+  SIGNED_URL_EXPIRY_SECONDS,
+  ALLOWED_DOCUMENT_TYPES,
+  storeDocumentFile,
+  deleteDocumentFile,
+  isStoredDocument,
+  localDocumentPath,
+  documentDownloadUrl,
+  verifyDocumentDownload,
+} from '../services/document-storage.js';
+import { getPresignedUrl } from '../services/r2-storage.js';
+import { classifyUpload } from '../services/document-classifier.js';
+import { buildAppendixPdf } from '../services/document-appendix.js';
+import { requireDocumentAccess } from '../middleware/tenant.js';
 
 const prisma = new PrismaClient();
 const repository = new PrismaDocumentRepository(prisma);
@@ -10,6 +27,56 @@ const service = new DocumentService(repository);
 
 export const documentsRouter = Router();
 
+// Signed download links, mounted without authentication
+export const documentFilesRouter = Router();
+
+// Multer configuration
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_DOCUMENT_SIZE },
+  fileFilter: (_req, file, cb) => {
+    if (ALLOWED_DOCUMENT_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new DocumentFileError('Invalid file type. Only PDF, JPEG, PNG and DOCX allowed.'));
+    }
+  },
+});
+
+// Run the multer upload and report rejected files as client errors
+function uploadDocumentFile(req: Request, res: Response, next: NextFunction): void {
+  upload.single('file')(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+      res.status(413).json({ error: `File is larger than ${MAX_DOCUMENT_SIZE / (1024 * 1024)}MB` });
+      return;
+    }
+    if (err instanceof multer.MulterError || err instanceof DocumentFileError) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    next(err);
+  });
+}
+
+// Send a stored document: redirect to R2, or stream from local storage
+async function sendDocumentFile(res: Response, document: Document): Promise<void> {
+  if (!isStoredDocument(document.filePath)) {
+    res.status(404).json({ error: 'Document has no uploaded file' });
+    return;
+  }
+
+  const absolutePath = localDocumentPath(document.filePath);
+  if (!absolutePath) {
+    res.redirect(await getPresignedUrl(document.filePath));
+    return;
+  }
+  res.download(absolutePath, document.filename, (err) => {
+    if (err && !res.headersSent) {
+      res.status(404).json({ error: 'File not found' });
+    }
+  });
+}
+
 // Validation schemas
 const DocumentTypeEnum = z.enum([
   'PS1', 'PS2', 'PS3', 'PS4', 'COC', 'ESC',
@@ -19,12 +86,13 @@ const DocumentTypeEnum = z.enum([
 
 const DocumentStatusEnum = z.enum(['REQUIRED', 'RECEIVED', 'OUTSTANDING', 'NA']);
 
+// filePath of an uploaded file is only ever set by the upload routes
 const CreateDocumentSchema = z.object({
-  filePath: z.string().min(1, 'File path is required'),
+  filePath: z.string().min(1, 'File path is required')
+    .refine((value) => !isStoredDocument(value), 'Upload files with /documents/upload or /documents/:id/file/base64'),
   filename: z.string().min(1, 'Filename is required'),
   documentType: DocumentTypeEnum,
   description: z.string().min(1, 'Description is required'),
-  appendixLetter: z.string().max(2).optional(),
   issuer: z.string().optional(),
   issuedAt: z.string().datetime().optional(),
   referenceNumber: z.string().optional(),
@@ -35,11 +103,9 @@ const CreateDocumentSchema = z.object({
 });
 
 const UpdateDocumentSchema = z.object({
-  filePath: z.string().min(1).optional(),
   filename: z.string().min(1).optional(),
   documentType: DocumentTypeEnum.optional(),
   description: z.string().min(1).optional(),
-  appendixLetter: z.string().max(2).optional(),
   issuer: z.string().nullable().optional(),
   issuedAt: z.string().datetime().nullable().optional(),
   referenceNumber: z.string().nullable().optional(),
@@ -49,6 +115,34 @@ const UpdateDocumentSchema = z.object({
   sortOrder: z.number().int().optional(),
 });
 
+// Multipart fields arrive as strings; anything left out is detected from the file
+const UploadDocumentSchema = z.object({
+  documentType: DocumentTypeEnum.optional(),
+  description: z.string().min(1).optional(),
+  issuer: z.string().optional(),
+  issuedAt: z.string().datetime().optional(),
+  referenceNumber: z.string().optional(),
+  status: DocumentStatusEnum.optional(),
+  linkedClauses: z.string().optional()
+    .transform((value) => value ? value.split(',').map((code) => code.trim()).filter(Boolean) : undefined),
+});
+
+const ConfirmClassificationSchema = UpdateDocumentSchema.pick({
+  documentType: true,
+  description: true,
+  issuer: true,
+  issuedAt: true,
+  referenceNumber: true,
+  linkedClauses: true,
+});
+
+// Files sent from the MCP server (e.g. a certificate photographed over WhatsApp)
+const AttachFileBase64Schema = z.object({
+  data: z.string().min(1, 'Base64 data is required'),
+  filename: z.string().min(1).optional(),
+  mimeType: z.string().optional(),
+});
+
 const ReorderDocumentsSchema = z.object({
   documentIds: z.array(z.string().uuid()),
 });
@@ -81,18 +175,82 @@ documentsRouter.post(
   }
 );
 
+// POST /api/projects/:projectId/documents/upload - Upload a document file (multipart, field "file");
+// type, issuer, date, reference and clauses are detected from the file unless given
+documentsRouter.post(
+  '/projects/:projectId/documents/upload',
+  uploadDocumentFile,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.projectId as string;
+      const file = req.file;
+
+      if (!file) {
+        res.status(400).json({ error: 'No document file provided' });
+        return;
+      }
+
+      const parsed = UploadDocumentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      // Ensure project exists
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: { id: true },
+      });
+      if (!project) {
+        res.status(404).json({ error: 'Project not found' });
+        return;
+      }
+
+      const filePath = await storeDocumentFile(projectId, file.buffer, file.mimetype);
+
+      try {
+        const classification = await classifyUpload(file.buffer, file.mimetype, file.originalname);
+        const document = await service.createFromUpload({
+          ...parsed.data,
+          projectId,
+          filePath,
+          filename: file.originalname,
+          mimeType: file.mimetype,
+          fileSize: file.size,
+          issuedAt: parsed.data.issuedAt ? new Date(parsed.data.issuedAt) : undefined,
+        }, classification);
+        res.status(201).json(document);
+      } catch (error) {
+        // Don't leave an orphaned file behind
+        await deleteDocumentFile(filePath).catch(() => undefined);
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof DocumentFileError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
 // GET /api/projects/:projectId/documents - List documents for a project
 documentsRouter.get(
   '/projects/:projectId/documents',
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const projectId = req.params.projectId as string;
-      const { documentType, status } = req.query;
+      const { documentType, status, needsConfirmation } = req.query;
 
       const documents = await service.findAll({
         projectId,
         documentType: documentType as typeof DocumentTypeEnum._type | undefined,
         status: status as typeof DocumentStatusEnum._type | undefined,
+        needsConfirmation: needsConfirmation === undefined ? undefined : needsConfirmation === 'true',
       });
       res.json(documents);
     } catch (error) {
@@ -115,7 +273,7 @@ documentsRouter.get(
   }
 );
 
-// PUT /api/projects/:projectId/documents/reorder - Reorder documents
+// PUT /api/projects/:projectId/documents/reorder - Reorder documents and reassign appendix letters
 documentsRouter.put(
   '/projects/:projectId/documents/reorder',
   async (req: Request, res: Response, next: NextFunction) => {
@@ -139,6 +297,24 @@ documentsRouter.put(
   }
 );
 
+// GET /api/projects/:projectId/documents/appendix.pdf - Merged appendix PDF (cover page per appendix + document pages)
+documentsRouter.get(
+  '/projects/:projectId/documents/appendix.pdf',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.projectId as string;
+      const documents = await service.findByProjectId(projectId);
+      const pdf = await buildAppendixPdf(documents);
+
+      res.type('application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="appendices-${projectId}.pdf"`);
+      res.send(Buffer.from(pdf));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // GET /api/projects/:projectId/documents/can-finalize - Check if ready to finalize
 documentsRouter.get(
   '/projects/:projectId/documents/can-finalize',
@@ -156,6 +332,7 @@ documentsRouter.get(
 // GET /api/documents/:id - Get document by ID
 documentsRouter.get(
   '/documents/:id',
+  requireDocumentAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -171,9 +348,54 @@ documentsRouter.get(
   }
 );
 
+// GET /api/documents/:id/file - Download the uploaded file
+documentsRouter.get(
+  '/documents/:id/file',
+  requireDocumentAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const document = await service.findById(req.params.id as string);
+      await sendDocumentFile(res, document);
+    } catch (error) {
+      if (error instanceof DocumentNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/documents/:id/url - Get a time-limited download URL that needs no session
+documentsRouter.get(
+  '/documents/:id/url',
+  requireDocumentAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const document = await service.findById(req.params.id as string);
+
+      if (!isStoredDocument(document.filePath)) {
+        res.status(404).json({ error: 'Document has no uploaded file' });
+        return;
+      }
+
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      const url = await documentDownloadUrl(document.id, document.filePath, baseUrl);
+      res.json({ url, expiresIn: SIGNED_URL_EXPIRY_SECONDS });
+    } catch (error) {
+      if (error instanceof DocumentNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
 // PUT /api/documents/:id - Update document
 documentsRouter.put(
   '/documents/:id',
+  requireDocumentAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -210,13 +432,20 @@ documentsRouter.put(
   }
 );
 
-// DELETE /api/documents/:id - Delete document
+// DELETE /api/documents/:id - Delete document and its stored file
 documentsRouter.delete(
   '/documents/:id',
+  requireDocumentAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
+      const document = await service.findById(id);
       await service.delete(id);
+
+      // The record is gone either way; a file left behind is only logged
+      await deleteDocumentFile(document.filePath).catch((error) => {
+        console.error(`Failed to delete file for document ${id}:`, error);
+      });
       res.status(204).send();
     } catch (error) {
       if (error instanceof DocumentNotFoundError) {
@@ -228,9 +457,68 @@ documentsRouter.delete(
   }
 );
 
+// POST /api/documents/:id/file/base64 - Attach a file from base64 (for MCP/WhatsApp) and mark the document received
+documentsRouter.post(
+  '/documents/:id/file/base64',
+  requireDocumentAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const parsed = AttachFileBase64Schema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const existing = await service.findById(id);
+
+      // A data URL carries its own type; bare base64 is taken as a JPEG photo
+      const dataUrl = parsed.data.data.match(/^data:([\w/.+-]+);base64,/);
+      const mimeType = parsed.data.mimeType ?? dataUrl?.[1] ?? 'image/jpeg';
+      const buffer = Buffer.from(parsed.data.data.slice(dataUrl?.[0].length ?? 0), 'base64');
+
+      const filePath = await storeDocumentFile(existing.projectId, buffer, mimeType);
+      const filename = parsed.data.filename ?? `${existing.documentType}${filePath.slice(filePath.lastIndexOf('.'))}`;
+
+      let document;
+      try {
+        document = await service.attachFile(id, { filePath, filename, mimeType, fileSize: buffer.length });
+      } catch (error) {
+        // Don't leave an orphaned file behind
+        await deleteDocumentFile(filePath).catch(() => undefined);
+        throw error;
+      }
+
+      // The file it replaces is no longer referenced
+      if (existing.filePath !== filePath) {
+        await deleteDocumentFile(existing.filePath).catch((error) => {
+          console.error(`Failed to delete replaced file for document ${id}:`, error);
+        });
+      }
+
+      res.json(document);
+    } catch (error) {
+      if (error instanceof DocumentNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error instanceof DocumentFileError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
 // POST /api/documents/:id/verify - Mark document as verified
 documentsRouter.post(
   '/documents/:id/verify',
+  requireDocumentAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -246,9 +534,46 @@ documentsRouter.post(
   }
 );
 
+// POST /api/documents/:id/confirm - Confirm the detected classification, with optional corrections
+documentsRouter.post(
+  '/documents/:id/confirm',
+  requireDocumentAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const parsed = ConfirmClassificationSchema.safeParse(req.body ?? {});
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const document = await service.confirmClassification(id, {
+        ...parsed.data,
+        issuedAt: parsed.data.issuedAt === null
+          ? null
+          : parsed.data.issuedAt
+            ? new Date(parsed.data.issuedAt)
+            : undefined,
+      });
+      res.json(document);
+    } catch (error) {
+      if (error instanceof DocumentNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
 // POST /api/documents/:id/unverify - Mark document as unverified
 documentsRouter.post(
   '/documents/:id/unverify',
+  requireDocumentAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -267,6 +592,7 @@ documentsRouter.post(
 // POST /api/documents/:id/status/:status - Update document status
 documentsRouter.post(
   '/documents/:id/status/:status',
+  requireDocumentAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -307,6 +633,7 @@ documentsRouter.post(
 // POST /api/documents/:id/link-clauses - Link document to clauses
 documentsRouter.post(
   '/documents/:id/link-clauses',
+  requireDocumentAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -328,3 +655,29 @@ documentsRouter.post(
     }
   }
 );
+
+// GET /api/document-files/:id?expires=&signature= - Download via a signed URL (no auth)
+documentFilesRouter.get(
+  '/:id',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const expires = Number(req.query.expires);
+      const signature = typeof req.query.signature === 'string' ? req.query.signature : '';
+
+      if (!verifyDocumentDownload(id, expires, signature)) {
+        res.status(403).json({ error: 'Invalid or expired download link' });
+        return;
+      }
+
+      const document = await service.findById(id);
+      await sendDocumentFile(res, document);
+    } catch (error) {
+      if (error instanceof DocumentNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
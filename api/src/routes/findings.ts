@@ -3,6 +3,8 @@ import { z } from 'zod';
 import { PrismaClient, type Severity } from '@prisma/client';
 import { PrismaInspectionRepository } from '../repositories/prisma/inspection.js';
 import { FindingService, FindingNotFoundError, InspectionNotFoundError } from '../services/finding.js';
+import { idempotent } from '../middleware/idempotency.js';
+import { requireLinkedVoiceNotes } from '../middleware/tenant.js';
 
 const prisma = new PrismaClient();
 const repository = new PrismaInspectionRepository(prisma);
@@ -16,17 +18,22 @@ const CreateFindingSchema = z.object({
   text: z.string().min(1, 'Text is required'),
   severity: z.enum(['INFO', 'MINOR', 'MAJOR', 'URGENT']).optional(),
   matchedComment: z.string().optional(),
+  item: z.string().min(1).optional(),
+  voiceNoteId: z.string().uuid().optional(),
 });
 
 const UpdateFindingSchema = z.object({
   text: z.string().min(1).optional(),
   severity: z.enum(['INFO', 'MINOR', 'MAJOR', 'URGENT']).optional(),
   matchedComment: z.string().optional(),
+  item: z.string().min(1).optional(),
 });
 
 // POST /api/inspections/:inspectionId/findings - Add finding to inspection
 findingsRouter.post(
   '/inspections/:inspectionId/findings',
+  requireLinkedVoiceNotes,
+  idempotent,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const inspectionId = req.params.inspectionId as string;
@@ -46,6 +53,8 @@ findingsRouter.post(
         text: parsed.data.text,
         severity: parsed.data.severity as Severity | undefined,
         matchedComment: parsed.data.matchedComment,
+        item: parsed.data.item,
+        voiceNoteId: parsed.data.voiceNoteId,
       });
 
       res.status(201).json(finding);
@@ -95,6 +104,7 @@ findingsRouter.put('/findings/:id', async (req: Request, res: Response, next: Ne
       text: parsed.data.text,
       severity: parsed.data.severity as Severity | undefined,
       matchedComment: parsed.data.matchedComment,
+      item: parsed.data.item,
     });
 
     res.json(finding);
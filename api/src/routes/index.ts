@@ -3,14 +3,26 @@ export * from './inspections.js';
 export * from './findings.js';
 export * from './photos.js';
 export * from './reports.js';
+export * from './report-workflow.js';
+export * from './project-reports.js';
 export * from './navigation.js';
 export * from './projects.js';
 export * from './properties.js';
 export * from './clients.js';
 export * from './site-inspections.js';
+export * from './companies.js';
+export * from './personnel.js';
+export * from './defects.js';
+export * from './moisture-readings.js';
+export * from './cost-estimates.js';
 export * from './checklist-items.js';
 export * from './building-code.js';
 export * from './clause-reviews.js';
 export * from './documents.js';
 export * from './na-reason-templates.js';
+export * from './templates.js';
 export * from './inspectors.js';
+export * from './organizations.js';
+export * from './api-tokens.js';
+export * from './comment-feedback.js';
+export * from './checklists.js';
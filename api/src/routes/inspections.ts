@@ -3,10 +3,14 @@ import { z } from 'zod';
 import { PrismaClient, type Prisma } from '@prisma/client';
 import { PrismaInspectionRepository } from '../repositories/prisma/inspection.js';
 import { InspectionService, InspectionNotFoundError } from '../services/inspection.js';
+import { PrismaChecklistDefinitionRepository } from '../repositories/prisma/checklist-definition.js';
+import { InspectionIncompleteError } from '../services/checklist-validation.js';
+import { ChecklistDefinitionService, ChecklistNotFoundError } from '../services/checklist-definition.js';
 
 const prisma = new PrismaClient();
 const repository = new PrismaInspectionRepository(prisma);
-const service = new InspectionService(repository);
+const checklists = new ChecklistDefinitionService(new PrismaChecklistDefinitionRepository(prisma));
+const service = new InspectionService(repository, checklists);
 
 export const inspectionsRouter: RouterType = Router();
 
@@ -16,6 +20,7 @@ const CreateInspectionSchema = z.object({
   clientName: z.string().min(1, 'Client name is required'),
   inspectorName: z.string().optional(),
   checklistId: z.string().min(1, 'Checklist ID is required'),
+  projectId: z.string().uuid().optional(),
   currentSection: z.string().default('exterior'),
   metadata: z.any().optional(),
 });
@@ -49,6 +54,10 @@ inspectionsRouter.post('/', async (req: Request, res: Response, next: NextFuncti
     });
     res.status(201).json(inspection);
   } catch (error) {
+    if (error instanceof ChecklistNotFoundError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     next(error);
   }
 });
@@ -106,6 +115,10 @@ inspectionsRouter.put('/:id', async (req: Request, res: Response, next: NextFunc
       res.status(404).json({ error: error.message });
       return;
     }
+    if (error instanceof InspectionIncompleteError) {
+      res.status(400).json({ error: error.message, missing: error.missing });
+      return;
+    }
     next(error);
   }
 });
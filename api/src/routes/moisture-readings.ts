@@ -0,0 +1,152 @@
+/**
+ * Moisture Reading Routes — Issue #153
+ *
+ * Moisture content evidence for CCC gap analysis site inspections.
+ * See: docs/design/012-ccc-gap-analysis.md
+ */
+
+import { Router, type Request, type Response, type NextFunction, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { PrismaMoistureReadingRepository } from '../repositories/prisma/moisture-reading.js';
+import { PrismaDefectRepository } from '../repositories/prisma/defect.js';
+import { PrismaSiteMeasurementRepository } from '../repositories/prisma/site-measurement.js';
+import {
+  MoistureReadingService,
+  MoistureReadingNotFoundError,
+  MoistureReadingValidationError,
+} from '../services/moisture-reading.js';
+import { DefectNotFoundError } from '../services/defect.js';
+import { SiteMeasurementService } from '../services/site-measurement.js';
+import { requireMoistureReadingAccess } from '../middleware/tenant.js';
+
+const prisma = new PrismaClient();
+const service = new MoistureReadingService(
+  new PrismaMoistureReadingRepository(prisma),
+  new PrismaDefectRepository(prisma),
+  new SiteMeasurementService(new PrismaSiteMeasurementRepository(prisma))
+);
+
+export const moistureReadingsRouter: RouterType = Router();
+
+// Validation schemas
+const CreateMoistureReadingSchema = z.object({
+  defectId: z.string().uuid().optional(),
+  location: z.string().min(1, 'Location is required'),
+  substrate: z.string().min(1, 'Substrate is required'),
+  reading: z.number().min(0).max(100),
+  depth: z.number().int().positive().optional(),
+  equipmentUsed: z.string().optional(),
+  timestamp: z.string().datetime().optional(),
+  notes: z.string().optional(),
+  photoId: z.string().uuid().optional(),
+});
+
+const UpdateMoistureReadingSchema = z.object({
+  defectId: z.string().uuid().nullable().optional(),
+  location: z.string().min(1).optional(),
+  substrate: z.string().min(1).optional(),
+  reading: z.number().min(0).max(100).optional(),
+  depth: z.number().int().positive().nullable().optional(),
+  equipmentUsed: z.string().nullable().optional(),
+  timestamp: z.string().datetime().optional(),
+  notes: z.string().nullable().optional(),
+  photoId: z.string().uuid().nullable().optional(),
+});
+
+function handleMoistureReadingError(error: unknown, res: Response, next: NextFunction): void {
+  if (error instanceof MoistureReadingNotFoundError) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  if (error instanceof DefectNotFoundError || error instanceof MoistureReadingValidationError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  next(error);
+}
+
+// POST /api/site-inspections/:inspectionId/moisture-readings - Add reading
+moistureReadingsRouter.post(
+  '/site-inspections/:inspectionId/moisture-readings',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const inspectionId = req.params.inspectionId as string;
+      const parsed = CreateMoistureReadingSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const reading = await service.create({
+        inspectionId,
+        ...parsed.data,
+        timestamp: parsed.data.timestamp ? new Date(parsed.data.timestamp) : undefined,
+      });
+      res.status(201).json(reading);
+    } catch (error) {
+      handleMoistureReadingError(error, res, next);
+    }
+  }
+);
+
+// GET /api/site-inspections/:inspectionId/moisture-readings - List readings
+moistureReadingsRouter.get(
+  '/site-inspections/:inspectionId/moisture-readings',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const inspectionId = req.params.inspectionId as string;
+      const readings = await service.findByInspectionId(inspectionId);
+      res.json(readings);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/moisture-readings/:id - Update reading
+moistureReadingsRouter.put(
+  '/moisture-readings/:id',
+  requireMoistureReadingAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const parsed = UpdateMoistureReadingSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const reading = await service.update(id, {
+        ...parsed.data,
+        timestamp: parsed.data.timestamp ? new Date(parsed.data.timestamp) : undefined,
+      });
+      res.json(reading);
+    } catch (error) {
+      handleMoistureReadingError(error, res, next);
+    }
+  }
+);
+
+// DELETE /api/moisture-readings/:id - Delete reading (and its mirrored measurement)
+moistureReadingsRouter.delete(
+  '/moisture-readings/:id',
+  requireMoistureReadingAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      await service.delete(id);
+      res.status(204).send();
+    } catch (error) {
+      handleMoistureReadingError(error, res, next);
+    }
+  }
+);
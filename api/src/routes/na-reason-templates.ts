@@ -1,7 +1,9 @@
 import { Router, type Request, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
 import { PrismaNAReasonTemplateRepository } from '../repositories/prisma/na-reason-template.js';
 import { NAReasonTemplateService, NAReasonTemplateNotFoundError } from '../services/na-reason-template.js';
+import { requireAdmin } from '../middleware/auth.js';
 
 const prisma = new PrismaClient();
 const repository = new PrismaNAReasonTemplateRepository(prisma);
@@ -9,6 +11,19 @@ const service = new NAReasonTemplateService(repository);
 
 export const naReasonTemplatesRouter: Router = Router();
 
+// Validation schemas
+const CreateNAReasonTemplateSchema = z.object({
+  template: z.string().min(1, 'Template text is required'),
+  usage: z.string().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+const UpdateNAReasonTemplateSchema = z.object({
+  template: z.string().min(1).optional(),
+  usage: z.string().nullable().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
 // GET /api/na-reason-templates - List all templates
 naReasonTemplatesRouter.get('/', async (_req: Request, res: Response, next: NextFunction) => {
   try {
@@ -33,3 +48,63 @@ naReasonTemplatesRouter.get('/:id', async (req: Request, res: Response, next: Ne
     next(error);
   }
 });
+
+// POST /api/na-reason-templates - Create template (admin)
+naReasonTemplatesRouter.post('/', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = CreateNAReasonTemplateSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const template = await service.create(parsed.data);
+    res.status(201).json(template);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/na-reason-templates/:id - Update template (admin)
+naReasonTemplatesRouter.put('/:id', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const parsed = UpdateNAReasonTemplateSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const template = await service.update(id, parsed.data);
+    res.json(template);
+  } catch (error) {
+    if (error instanceof NAReasonTemplateNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+});
+
+// DELETE /api/na-reason-templates/:id - Delete template (admin)
+naReasonTemplatesRouter.delete('/:id', requireAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    await service.delete(id);
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof NAReasonTemplateNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+});
@@ -6,11 +6,15 @@ import {
   NavigationService,
   InspectionNotFoundError,
   InvalidSectionError,
+  SectionNotApplicableError,
 } from '../services/navigation.js';
+import { PrismaChecklistDefinitionRepository } from '../repositories/prisma/checklist-definition.js';
+import { ChecklistDefinitionService } from '../services/checklist-definition.js';
 
 const prisma = new PrismaClient();
 const repository = new PrismaInspectionRepository(prisma);
-const service = new NavigationService(repository);
+const checklists = new ChecklistDefinitionService(new PrismaChecklistDefinitionRepository(prisma));
+const service = new NavigationService(repository, checklists);
 
 export const navigationRouter: RouterType = Router();
 
@@ -46,6 +50,10 @@ navigationRouter.post(
         res.status(400).json({ error: error.message });
         return;
       }
+      if (error instanceof SectionNotApplicableError) {
+        res.status(400).json({ error: error.message, skipped: error.section });
+        return;
+      }
       next(error);
     }
   }
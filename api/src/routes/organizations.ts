@@ -0,0 +1,179 @@
+/**
+ * Organisation Routes
+ *
+ * Organisations the caller belongs to, and member management for the
+ * current organisation (selected with the X-Organization-Id header).
+ */
+
+import { Router, type Request, type Response, type NextFunction, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { PrismaOrganizationRepository } from '../repositories/prisma/organization.js';
+import {
+  OrganizationService,
+  OrganizationNotFoundError,
+  MembershipNotFoundError,
+  MembershipConflictError,
+  MemberUserNotFoundError,
+} from '../services/organization.js';
+import type { AuthRequest } from '../middleware/auth.js';
+import { tenantMiddleware, requirePermission } from '../middleware/tenant.js';
+
+const prisma = new PrismaClient();
+const service = new OrganizationService(new PrismaOrganizationRepository(prisma));
+
+export const organizationsRouter: RouterType = Router();
+
+const OrganizationRoleEnum = z.enum(['INSPECTOR', 'REVIEWER', 'OFFICE_ADMIN', 'ORG_ADMIN']);
+
+// Validation schemas
+const CreateOrganizationSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+});
+
+const UpdateOrganizationSchema = z.object({
+  name: z.string().min(1).optional(),
+});
+
+const AddMemberSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  role: OrganizationRoleEnum.default('INSPECTOR'),
+});
+
+function handleOrganizationError(error: unknown, res: Response, next: NextFunction): void {
+  if (
+    error instanceof OrganizationNotFoundError ||
+    error instanceof MembershipNotFoundError ||
+    error instanceof MemberUserNotFoundError
+  ) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  if (error instanceof MembershipConflictError) {
+    res.status(409).json({ error: error.message });
+    return;
+  }
+  next(error);
+}
+
+// GET /api/organizations - List organisations the caller belongs to
+organizationsRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const memberships = await service.findForUser((req as AuthRequest).userId as string);
+    res.json(memberships.map((m) => ({ ...m.organization, role: m.role })));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/organizations - Create an organisation with the caller as admin
+organizationsRouter.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = CreateOrganizationSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const organization = await service.create(parsed.data, (req as AuthRequest).userId as string);
+    res.status(201).json(organization);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/organizations/current - Get the current organisation and the caller's role
+organizationsRouter.get('/current', tenantMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { organizationId, organizationRole } = req as AuthRequest;
+    const organization = await service.findById(organizationId as string);
+    res.json({ ...organization, role: organizationRole });
+  } catch (error) {
+    handleOrganizationError(error, res, next);
+  }
+});
+
+// PUT /api/organizations/current - Rename the current organisation (organization:manage)
+organizationsRouter.put(
+  '/current',
+  tenantMiddleware,
+  requirePermission('organization:manage'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = UpdateOrganizationSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const organization = await service.update((req as AuthRequest).organizationId as string, parsed.data);
+      res.json(organization);
+    } catch (error) {
+      handleOrganizationError(error, res, next);
+    }
+  }
+);
+
+// GET /api/organizations/current/members - List members of the current organisation
+organizationsRouter.get('/current/members', tenantMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const members = await service.findMembers((req as AuthRequest).organizationId as string);
+    res.json(members);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/organizations/current/members - Add a registered user by email (organization:manage)
+organizationsRouter.post(
+  '/current/members',
+  tenantMiddleware,
+  requirePermission('organization:manage'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = AddMemberSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const member = await service.addMember(
+        (req as AuthRequest).organizationId as string,
+        parsed.data.email,
+        parsed.data.role
+      );
+      res.status(201).json(member);
+    } catch (error) {
+      handleOrganizationError(error, res, next);
+    }
+  }
+);
+
+// Member roles are changed with PUT /api/auth/users/:userId/role
+
+// DELETE /api/organizations/current/members/:userId - Remove a member (organization:manage)
+organizationsRouter.delete(
+  '/current/members/:userId',
+  tenantMiddleware,
+  requirePermission('organization:manage'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await service.removeMember((req as AuthRequest).organizationId as string, req.params.userId as string);
+      res.status(204).send();
+    } catch (error) {
+      handleOrganizationError(error, res, next);
+    }
+  }
+);
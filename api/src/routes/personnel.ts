@@ -0,0 +1,371 @@
+/**
+ * Personnel & Credentials Routes — Issue #155
+ *
+ * Personnel records, credentials, expiry alerts, the signing capability
+ * matrix and report signature blocks.
+ * See: docs/design/009-personnel-credentials.md
+ */
+
+import { Router, type Request, type Response, type NextFunction, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { PrismaClient, type PersonnelRole, type ReportType } from '@prisma/client';
+import { PrismaCompanyRepository, PrismaPersonnelRepository } from '../repositories/prisma/personnel.js';
+import { PrismaReportWorkflowRepository } from '../repositories/prisma/report-workflow.js';
+import {
+  PersonnelService,
+  PersonnelNotFoundError,
+  PersonnelConflictError,
+  CompanyNotFoundError,
+  CredentialNotFoundError,
+  CredentialValidationError,
+  DEFAULT_EXPIRY_THRESHOLDS,
+  type SigningCapacity,
+} from '../services/personnel.js';
+import { ReportWorkflowService } from '../services/report-workflow.js';
+import { ReportNotFoundError } from '../services/report.js';
+import type { AuthRequest } from '../middleware/auth.js';
+import { requirePermission, requireReportAccess } from '../middleware/tenant.js';
+
+const prisma = new PrismaClient();
+const service = new PersonnelService(
+  new PrismaPersonnelRepository(prisma),
+  new PrismaCompanyRepository(prisma)
+);
+const workflowService = new ReportWorkflowService(new PrismaReportWorkflowRepository(prisma));
+
+export const personnelRouter: RouterType = Router();
+
+// Enums
+const personnelRoles = ['REGISTERED_BUILDING_SURVEYOR', 'BUILDING_SURVEYOR', 'INSPECTOR', 'ADMIN'] as const;
+const credentialTypes = ['NZIBS', 'LBP', 'ENG_NZ', 'ACADEMIC', 'OTHER'] as const;
+const reportTypes = ['COA', 'CCC_GAP', 'PPI', 'SAFE_SANITARY', 'TFA'] as const;
+
+// Validation schemas
+const CreatePersonnelSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  role: z.enum(personnelRoles),
+  email: z.string().email('Invalid email'),
+  phone: z.string().optional(),
+  mobile: z.string().optional(),
+  companyId: z.string().uuid('Invalid company ID'),
+  userId: z.string().uuid('Invalid user ID').optional(),
+});
+
+const UpdatePersonnelSchema = z.object({
+  name: z.string().min(1).optional(),
+  role: z.enum(personnelRoles).optional(),
+  email: z.string().email('Invalid email').optional(),
+  phone: z.string().nullable().optional(),
+  mobile: z.string().nullable().optional(),
+  active: z.boolean().optional(),
+  companyId: z.string().uuid('Invalid company ID').optional(),
+  userId: z.string().uuid('Invalid user ID').nullable().optional(),
+});
+
+const CreateCredentialSchema = z.object({
+  type: z.enum(credentialTypes),
+  membershipCode: z.string().optional(),
+  membershipFull: z.string().optional(),
+  registration: z.string().optional(),
+  licenseNumber: z.string().optional(),
+  qualifications: z.array(z.string().min(1)).optional(),
+  issuedDate: z.string().datetime().optional(),
+  expiryDate: z.string().datetime().optional(),
+  verified: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+const UpdateCredentialSchema = z.object({
+  type: z.enum(credentialTypes).optional(),
+  membershipCode: z.string().nullable().optional(),
+  membershipFull: z.string().nullable().optional(),
+  registration: z.string().nullable().optional(),
+  licenseNumber: z.string().nullable().optional(),
+  qualifications: z.array(z.string().min(1)).optional(),
+  issuedDate: z.string().datetime().nullable().optional(),
+  expiryDate: z.string().datetime().nullable().optional(),
+  verified: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+// Comma-separated day counts, e.g. ?thresholds=90,60,30
+const ThresholdsSchema = z
+  .string()
+  .regex(/^\d+(,\d+)*$/, 'Thresholds must be comma-separated day counts')
+  .transform((value) => value.split(',').map(Number));
+
+const ReportTypeQuerySchema = z.enum(reportTypes).optional();
+
+function toDate(value: string | null | undefined): Date | null | undefined {
+  if (value === undefined) return undefined;
+  return value === null ? null : new Date(value);
+}
+
+function handlePersonnelError(error: unknown, res: Response, next: NextFunction): void {
+  if (
+    error instanceof PersonnelNotFoundError ||
+    error instanceof CredentialNotFoundError ||
+    error instanceof ReportNotFoundError
+  ) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  if (error instanceof CompanyNotFoundError || error instanceof CredentialValidationError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  if (error instanceof PersonnelConflictError) {
+    res.status(409).json({ error: error.message });
+    return;
+  }
+  next(error);
+}
+
+// ============================================
+// Personnel
+// ============================================
+
+// POST /api/personnel - Create personnel
+personnelRouter.post('/personnel', requirePermission('personnel:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = CreatePersonnelSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const personnel = await service.create((req as AuthRequest).organizationId as string, parsed.data);
+    res.status(201).json(personnel);
+  } catch (error) {
+    handlePersonnelError(error, res, next);
+  }
+});
+
+// GET /api/personnel - List personnel (filter by role, active, companyId, name)
+personnelRouter.get('/personnel', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { role, active, companyId, name } = req.query;
+
+    const personnel = await service.findAll((req as AuthRequest).organizationId as string, {
+      role: role as PersonnelRole | undefined,
+      active: active === undefined ? undefined : active === 'true',
+      companyId: companyId as string | undefined,
+      name: name as string | undefined,
+    });
+    res.json(personnel);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/personnel/authors - Active personnel who can author (optionally ?reportType=COA)
+// GET /api/personnel/reviewers - Active personnel who can review
+for (const [path, capacity] of [['authors', 'author'], ['reviewers', 'reviewer']] as const) {
+  personnelRouter.get(`/personnel/${path}`, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const parsed = ReportTypeQuerySchema.safeParse(req.query.reportType);
+      if (!parsed.success) {
+        res.status(400).json({ error: 'Invalid reportType' });
+        return;
+      }
+
+      const personnel = await service.findSigners((req as AuthRequest).organizationId as string, capacity, parsed.data);
+      res.json(personnel);
+    } catch (error) {
+      next(error);
+    }
+  });
+}
+
+// GET /api/personnel/:id - Get personnel with credentials
+personnelRouter.get('/personnel/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const personnel = await service.findById((req as AuthRequest).organizationId as string, id);
+    res.json(personnel);
+  } catch (error) {
+    handlePersonnelError(error, res, next);
+  }
+});
+
+// PUT /api/personnel/:id - Update personnel
+personnelRouter.put('/personnel/:id', requirePermission('personnel:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const parsed = UpdatePersonnelSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const personnel = await service.update((req as AuthRequest).organizationId as string, id, parsed.data);
+    res.json(personnel);
+  } catch (error) {
+    handlePersonnelError(error, res, next);
+  }
+});
+
+// DELETE /api/personnel/:id - Deactivate personnel (soft delete)
+personnelRouter.delete('/personnel/:id', requirePermission('personnel:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const personnel = await service.deactivate((req as AuthRequest).organizationId as string, id);
+    res.json(personnel);
+  } catch (error) {
+    handlePersonnelError(error, res, next);
+  }
+});
+
+// GET /api/personnel/:id/credentials-string - Formatted credentials for reports
+personnelRouter.get('/personnel/:id/credentials-string', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const credentials = await service.getCredentialsString((req as AuthRequest).organizationId as string, id);
+    res.json({ credentials });
+  } catch (error) {
+    handlePersonnelError(error, res, next);
+  }
+});
+
+// GET /api/personnel/:id/capabilities - Role capabilities and report types the person may sign
+personnelRouter.get('/personnel/:id/capabilities', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const capabilities = await service.getCapabilities((req as AuthRequest).organizationId as string, id);
+    res.json(capabilities);
+  } catch (error) {
+    handlePersonnelError(error, res, next);
+  }
+});
+
+// GET /api/personnel/:id/can-sign?reportType=COA&as=reviewer - Validate against the capability matrix
+personnelRouter.get('/personnel/:id/can-sign', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const reportType = ReportTypeQuerySchema.safeParse(req.query.reportType);
+    const capacity = z.enum(['author', 'reviewer']).default('author').safeParse(req.query.as);
+    if (!reportType.success || !capacity.success) {
+      res.status(400).json({ error: 'Invalid reportType or as' });
+      return;
+    }
+
+    const reasons = await service.checkSigning(
+      (req as AuthRequest).organizationId as string,
+      id,
+      capacity.data as SigningCapacity,
+      reportType.data as ReportType | undefined
+    );
+    res.json({ allowed: reasons.length === 0, reasons });
+  } catch (error) {
+    handlePersonnelError(error, res, next);
+  }
+});
+
+// ============================================
+// Credentials
+// ============================================
+
+// POST /api/personnel/:id/credentials - Add credential
+personnelRouter.post('/personnel/:id/credentials', requirePermission('personnel:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const personnelId = req.params.id as string;
+    const parsed = CreateCredentialSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const credential = await service.addCredential((req as AuthRequest).organizationId as string, personnelId, {
+      ...parsed.data,
+      issuedDate: toDate(parsed.data.issuedDate) ?? undefined,
+      expiryDate: toDate(parsed.data.expiryDate) ?? undefined,
+    });
+    res.status(201).json(credential);
+  } catch (error) {
+    handlePersonnelError(error, res, next);
+  }
+});
+
+// GET /api/credentials/expiring - Credentials expiring within thresholds (default 90,60,30 days)
+personnelRouter.get('/credentials/expiring', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    let thresholds = DEFAULT_EXPIRY_THRESHOLDS;
+    if (req.query.thresholds !== undefined) {
+      const parsed = ThresholdsSchema.safeParse(req.query.thresholds);
+      if (!parsed.success) {
+        res.status(400).json({ error: parsed.error.issues[0]?.message });
+        return;
+      }
+      thresholds = parsed.data;
+    }
+
+    const credentials = await service.getExpiringCredentials((req as AuthRequest).organizationId as string, thresholds);
+    res.json({ thresholds, credentials });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/credentials/:id - Update credential
+personnelRouter.put('/credentials/:id', requirePermission('personnel:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const parsed = UpdateCredentialSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const credential = await service.updateCredential((req as AuthRequest).organizationId as string, id, {
+      ...parsed.data,
+      issuedDate: toDate(parsed.data.issuedDate),
+      expiryDate: toDate(parsed.data.expiryDate),
+    });
+    res.json(credential);
+  } catch (error) {
+    handlePersonnelError(error, res, next);
+  }
+});
+
+// DELETE /api/credentials/:id - Remove credential
+personnelRouter.delete('/credentials/:id', requirePermission('personnel:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    await service.deleteCredential((req as AuthRequest).organizationId as string, id);
+    res.status(204).send();
+  } catch (error) {
+    handlePersonnelError(error, res, next);
+  }
+});
+
+// ============================================
+// Report integration
+// ============================================
+
+// GET /api/reports/:id/signature-block - Author/reviewer signature block with capability issues
+personnelRouter.get('/reports/:id/signature-block', requireReportAccess, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const report = await workflowService.findReport(id);
+    const block = await service.getSignatureBlock(report);
+    res.json(block);
+  } catch (error) {
+    handlePersonnelError(error, res, next);
+  }
+});
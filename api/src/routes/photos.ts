@@ -9,6 +9,7 @@ import {
   FindingNotFoundError,
   InvalidBase64Error,
 } from '../services/photo.js';
+import { idempotent } from '../middleware/idempotency.js';
 
 const prisma = new PrismaClient();
 const repository = new PrismaInspectionRepository(prisma);
@@ -25,6 +26,7 @@ const UploadPhotoSchema = z.object({
 // POST /api/findings/:findingId/photos - Upload photo to finding
 photosRouter.post(
   '/findings/:findingId/photos',
+  idempotent,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const findingId = req.params.findingId as string;
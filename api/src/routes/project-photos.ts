@@ -1,19 +1,33 @@
 import { Router, type Request, type Response, type NextFunction } from 'express';
 import { z } from 'zod';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, type ProjectPhoto } from '@prisma/client';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs/promises';
 import sharp from 'sharp';
 import { randomUUID } from 'crypto';
-import { PrismaProjectPhotoRepository } from '../repositories/prisma/project-photo.js';
-import { ProjectPhotoService, ProjectPhotoNotFoundError } from '../services/project-photo.js';
+import { PrismaProjectPhotoRepository, type CreateProjectPhotoInput } from '../repositories/prisma/project-photo.js';
+import {
+  ProjectPhotoService,
+  ProjectPhotoNotFoundError,
+  DuplicatePhotoError,
+  PhotoMergeError,
+} from '../services/project-photo.js';
+import { photoFingerprint } from '../services/photo-hash.js';
+import { readPhotoMetadata, type PhotoMetadata } from '../services/photo-metadata.js';
+import { renderAnnotatedPhoto } from '../services/photo-annotation.js';
 import {
   isR2Configured,
   uploadPhotoWithThumbnail,
   getPresignedUrl,
   deletePhotoWithThumbnail,
+  generateAnnotatedKey,
+  uploadToR2,
+  downloadFromR2,
+  deleteFromR2,
 } from '../services/r2-storage.js';
+import { idempotent } from '../middleware/idempotency.js';
+import { requireProjectPhotoAccess } from '../middleware/tenant.js';
 
 const prisma = new PrismaClient();
 const repository = new PrismaProjectPhotoRepository(prisma);
@@ -66,9 +80,40 @@ const ReorderSchema = z.object({
   photoIds: z.array(z.string().uuid()),
 });
 
+// Annotation coordinates are fractions of the image width and height
+const fraction = z.number().min(0).max(1);
+const annotationColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a hex colour').optional();
+
+const AnnotationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('ellipse'), x: fraction, y: fraction, width: fraction, height: fraction, color: annotationColor }),
+  z.object({ type: z.literal('rectangle'), x: fraction, y: fraction, width: fraction, height: fraction, color: annotationColor }),
+  z.object({ type: z.literal('arrow'), x1: fraction, y1: fraction, x2: fraction, y2: fraction, color: annotationColor }),
+  z.object({ type: z.literal('label'), x: fraction, y: fraction, text: z.string().trim().min(1).max(100), color: annotationColor }),
+]);
+
+const AnnotationsSchema = z.object({
+  annotations: z.array(AnnotationSchema).max(50),
+});
+
+const MergePhotoSchema = z.object({
+  intoId: z.string().uuid(),
+});
+
+const booleanQuery = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+const ListPhotosQuerySchema = z.object({
+  inspectionId: z.string().uuid().optional(),
+  takenFrom: z.coerce.date().optional(),
+  takenTo: z.coerce.date().optional(),
+  hasLocation: booleanQuery.optional(),
+  camera: z.string().min(1).optional(),
+  flagged: booleanQuery.optional(),
+});
+
 // Generate thumbnail buffer
 async function generateThumbnailBuffer(buffer: Buffer): Promise<Buffer> {
   return sharp(buffer)
+    .rotate()
     .resize(THUMBNAIL_SIZE.width, THUMBNAIL_SIZE.height, {
       fit: 'inside',
       withoutEnlargement: true,
@@ -77,20 +122,23 @@ async function generateThumbnailBuffer(buffer: Buffer): Promise<Buffer> {
     .toBuffer();
 }
 
-// Process image buffer (resize, convert to JPEG)
+// Process image buffer (rotate upright from EXIF orientation, resize, convert to JPEG)
 async function processImageBuffer(buffer: Buffer): Promise<Buffer> {
   return sharp(buffer)
+    .rotate()
     .resize(1920, 1440, { fit: 'inside', withoutEnlargement: true })
     .jpeg({ quality: 85 })
     .toBuffer();
 }
 
 // Upload photo (handles both R2 and local storage)
+// EXIF is read from the original: re-encoding strips it
 async function uploadPhoto(
   projectId: string,
   buffer: Buffer,
   originalFilename: string
-): Promise<{ filePath: string; thumbnailPath: string; fileSize: number }> {
+): Promise<{ filePath: string; thumbnailPath: string; fileSize: number; metadata: PhotoMetadata }> {
+  const metadata = await readPhotoMetadata(buffer);
   const processedBuffer = await processImageBuffer(buffer);
   const thumbnailBuffer = await generateThumbnailBuffer(buffer);
 
@@ -107,6 +155,7 @@ async function uploadPhoto(
       filePath: photoKey,
       thumbnailPath: thumbnailKey,
       fileSize: processedBuffer.length,
+      metadata,
     };
   } else {
     // Save to local filesystem
@@ -125,12 +174,48 @@ async function uploadPhoto(
       filePath: path.relative(UPLOAD_DIR, filePath),
       thumbnailPath: path.relative(UPLOAD_DIR, thumbPath),
       fileSize: processedBuffer.length,
+      metadata,
     };
   }
 }
 
+// Read a stored photo into memory (handles both R2 and local storage)
+async function readPhotoFile(storagePath: string): Promise<Buffer> {
+  return useR2Storage
+    ? downloadFromR2(storagePath)
+    : fs.readFile(path.join(UPLOAD_DIR, storagePath));
+}
+
+// Store a rendered annotated copy; the original is left as uploaded
+async function storeAnnotatedPhoto(projectId: string, buffer: Buffer): Promise<string> {
+  if (useR2Storage) {
+    const key = generateAnnotatedKey(projectId);
+    await uploadToR2(key, buffer, 'image/jpeg');
+    return key;
+  }
+
+  const projectDir = await ensureDirectories(projectId);
+  const annotatedPath = path.join(projectDir, `${randomUUID()}_annotated.jpg`);
+  await fs.writeFile(annotatedPath, buffer);
+  return path.relative(UPLOAD_DIR, annotatedPath);
+}
+
+// Delete an annotated copy (handles both R2 and local storage)
+async function deleteAnnotatedPhoto(annotatedPath: string): Promise<void> {
+  if (useR2Storage) {
+    await deleteFromR2(annotatedPath);
+  } else {
+    await fs.unlink(path.join(UPLOAD_DIR, annotatedPath)).catch(() => {
+      // Ignore file deletion errors
+    });
+  }
+}
+
 // Delete photo files (handles both R2 and local storage)
-async function deletePhotoFiles(filePath: string, thumbnailPath: string | null): Promise<void> {
+async function deletePhotoFiles(filePath: string, thumbnailPath: string | null, annotatedPath: string | null): Promise<void> {
+  if (annotatedPath) {
+    await deleteAnnotatedPhoto(annotatedPath);
+  }
   if (useR2Storage) {
     await deletePhotoWithThumbnail(filePath, thumbnailPath);
   } else {
@@ -145,6 +230,56 @@ async function deletePhotoFiles(filePath: string, thumbnailPath: string | null):
   }
 }
 
+// Fingerprint, store and record an uploaded photo. The same file twice in a
+// project is refused before anything is stored; stored files are removed
+// again if the record cannot be created.
+async function createPhoto(
+  projectId: string,
+  buffer: Buffer,
+  originalFilename: string,
+  fields: Pick<CreateProjectPhotoInput, 'inspectionId' | 'caption' | 'source' | 'linkedClauses'>
+): Promise<ProjectPhoto> {
+  const fingerprint = await photoFingerprint(buffer);
+  await service.assertNotDuplicate(projectId, fingerprint.contentHash);
+
+  const { filePath, thumbnailPath, fileSize, metadata } = await uploadPhoto(projectId, buffer, originalFilename);
+  try {
+    return await service.createFromUpload({
+      projectId,
+      ...fields,
+      filePath,
+      thumbnailPath,
+      mimeType: 'image/jpeg',
+      fileSize,
+      ...fingerprint,
+    }, metadata);
+  } catch (error) {
+    await deletePhotoFiles(filePath, thumbnailPath, null).catch((cleanupError) => {
+      console.error(`Failed to delete files of unrecorded photo ${filePath}:`, cleanupError);
+    });
+    throw error;
+  }
+}
+
+// 409 naming the photo already uploaded, so callers can use it instead
+function sendDuplicate(res: Response, error: DuplicatePhotoError): void {
+  res.status(409).json({
+    error: error.message,
+    duplicateOf: { id: error.existing.id, reportNumber: error.existing.reportNumber },
+  });
+}
+
+// Which stored file a download asks for: ?thumbnail=true, ?annotated=true (falls back to the original)
+function requestedPath(req: Request, photo: { filePath: string; thumbnailPath: string | null; annotatedPath: string | null }): string {
+  if (req.query.thumbnail === 'true' && photo.thumbnailPath) {
+    return photo.thumbnailPath;
+  }
+  if (req.query.annotated === 'true' && photo.annotatedPath) {
+    return photo.annotatedPath;
+  }
+  return photo.filePath;
+}
+
 // POST /api/projects/:projectId/photos - Upload photo
 projectPhotosRouter.post(
   '/projects/:projectId/photos',
@@ -169,13 +304,6 @@ projectPhotosRouter.post(
         return;
       }
 
-      // Upload photo
-      const { filePath, thumbnailPath, fileSize } = await uploadPhoto(
-        projectId,
-        file.buffer,
-        file.originalname
-      );
-
       // Parse optional metadata from body
       const caption = req.body.caption || 'Photo';
       const source = req.body.source || 'SITE';
@@ -183,14 +311,9 @@ projectPhotosRouter.post(
         ? JSON.parse(req.body.linkedClauses)
         : [];
 
-      // Create database record
-      const photo = await service.create({
-        projectId,
+      // Upload photo and create database record
+      const photo = await createPhoto(projectId, file.buffer, file.originalname, {
         inspectionId: req.body.inspectionId,
-        filePath,
-        thumbnailPath,
-        mimeType: 'image/jpeg',
-        fileSize,
         caption,
         source: source as 'SITE' | 'OWNER' | 'CONTRACTOR',
         linkedClauses,
@@ -198,18 +321,32 @@ projectPhotosRouter.post(
 
       res.status(201).json(photo);
     } catch (error) {
+      if (error instanceof DuplicatePhotoError) {
+        sendDuplicate(res, error);
+        return;
+      }
       next(error);
     }
   }
 );
 
-// GET /api/projects/:projectId/photos - List photos
+// GET /api/projects/:projectId/photos - List photos, optionally filtered by inspection, capture time, GPS, camera or warnings
 projectPhotosRouter.get(
   '/projects/:projectId/photos',
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const projectId = req.params.projectId as string;
-      const photos = await service.findByProjectId(projectId);
+      const parsed = ListPhotosQuerySchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const photos = await service.findByProjectId(projectId, parsed.data);
       res.json(photos);
     } catch (error) {
       next(error);
@@ -220,6 +357,7 @@ projectPhotosRouter.get(
 // GET /api/photos/:id - Get photo by ID
 projectPhotosRouter.get(
   '/photos/:id',
+  requireProjectPhotoAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -235,18 +373,16 @@ projectPhotosRouter.get(
   }
 );
 
-// GET /api/photos/:id/file - Download photo file
+// GET /api/photos/:id/file - Download photo file (?thumbnail=true or ?annotated=true)
 projectPhotosRouter.get(
   '/photos/:id/file',
+  requireProjectPhotoAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
-      const thumbnail = req.query.thumbnail === 'true';
       
       const photo = await service.findById(id);
-      const storagePath = thumbnail && photo.thumbnailPath
-        ? photo.thumbnailPath
-        : photo.filePath;
+      const storagePath = requestedPath(req, photo);
 
       if (useR2Storage) {
         // Redirect to presigned URL
@@ -274,15 +410,13 @@ projectPhotosRouter.get(
 // GET /api/photos/:id/url - Get presigned URL for photo (R2 only)
 projectPhotosRouter.get(
   '/photos/:id/url',
+  requireProjectPhotoAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
-      const thumbnail = req.query.thumbnail === 'true';
       
       const photo = await service.findById(id);
-      const storagePath = thumbnail && photo.thumbnailPath
-        ? photo.thumbnailPath
-        : photo.filePath;
+      const storagePath = requestedPath(req, photo);
 
       if (useR2Storage) {
         const presignedUrl = await getPresignedUrl(storagePath);
@@ -290,7 +424,8 @@ projectPhotosRouter.get(
       } else {
         // For local storage, return the file endpoint URL
         const baseUrl = `${req.protocol}://${req.get('host')}`;
-        const url = `${baseUrl}/api/photos/${id}/file${thumbnail ? '?thumbnail=true' : ''}`;
+        const variant = ['thumbnail', 'annotated'].find((name) => req.query[name] === 'true');
+        const url = `${baseUrl}/api/photos/${id}/file${variant ? `?${variant}=true` : ''}`;
         res.json({ url, expiresIn: null });
       }
     } catch (error) {
@@ -306,6 +441,7 @@ projectPhotosRouter.get(
 // PUT /api/photos/:id - Update photo metadata
 projectPhotosRouter.put(
   '/photos/:id',
+  requireProjectPhotoAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -331,9 +467,120 @@ projectPhotosRouter.put(
   }
 );
 
+// PUT /api/photos/:id/annotations - Replace annotations and re-render the annotated copy
+projectPhotosRouter.put(
+  '/photos/:id/annotations',
+  requireProjectPhotoAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const parsed = AnnotationsSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const photo = await service.findById(id);
+      const { annotations } = parsed.data;
+
+      let annotatedPath: string | null = null;
+      if (annotations.length > 0) {
+        const rendered = await renderAnnotatedPhoto(await readPhotoFile(photo.filePath), annotations);
+        annotatedPath = await storeAnnotatedPhoto(photo.projectId, rendered);
+      }
+
+      let updated;
+      try {
+        updated = await service.saveAnnotations(id, annotations, annotatedPath);
+      } catch (error) {
+        if (annotatedPath) await deleteAnnotatedPhoto(annotatedPath);
+        throw error;
+      }
+
+      // The previous copy is no longer referenced
+      if (photo.annotatedPath) {
+        await deleteAnnotatedPhoto(photo.annotatedPath).catch((error) => {
+          console.error(`Failed to delete annotated copy ${photo.annotatedPath}:`, error);
+        });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ProjectPhotoNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/photos/:id/merge - Merge a duplicate into another photo, keeping both captions and clause links
+projectPhotosRouter.post(
+  '/photos/:id/merge',
+  requireProjectPhotoAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const parsed = MergePhotoSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const { photo, removed } = await service.mergeDuplicate(id, parsed.data.intoId);
+
+      // The merged-away photo's record is gone; its files go too
+      await deletePhotoFiles(removed.filePath, removed.thumbnailPath, removed.annotatedPath).catch((error) => {
+        console.error(`Failed to delete files of merged photo ${removed.id}:`, error);
+      });
+
+      res.json(photo);
+    } catch (error) {
+      if (error instanceof ProjectPhotoNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error instanceof PhotoMergeError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/photos/:id/not-duplicate - Dismiss a possible-duplicate flag after review
+projectPhotosRouter.post(
+  '/photos/:id/not-duplicate',
+  requireProjectPhotoAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const photo = await service.dismissDuplicate(id);
+      res.json(photo);
+    } catch (error) {
+      if (error instanceof ProjectPhotoNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
 // DELETE /api/photos/:id - Delete photo
 projectPhotosRouter.delete(
   '/photos/:id',
+  requireProjectPhotoAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -342,7 +589,7 @@ projectPhotosRouter.delete(
       const photo = await service.findById(id);
       
       // Delete files
-      await deletePhotoFiles(photo.filePath, photo.thumbnailPath);
+      await deletePhotoFiles(photo.filePath, photo.thumbnailPath, photo.annotatedPath);
       
       // Delete database record (will auto-renumber)
       await service.delete(id);
@@ -371,6 +618,7 @@ const Base64UploadSchema = z.object({
 
 projectPhotosRouter.post(
   '/projects/:projectId/photos/base64',
+  idempotent,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const projectId = req.params.projectId as string;
@@ -405,21 +653,9 @@ projectPhotosRouter.post(
         return;
       }
 
-      // Upload photo
-      const { filePath, thumbnailPath, fileSize } = await uploadPhoto(
-        projectId,
-        buffer,
-        filename || 'photo.jpg'
-      );
-
-      // Create database record
-      const photo = await service.create({
-        projectId,
+      // Upload photo and create database record
+      const photo = await createPhoto(projectId, buffer, filename || 'photo.jpg', {
         inspectionId,
-        filePath,
-        thumbnailPath,
-        mimeType: 'image/jpeg',
-        fileSize,
         caption: caption || 'Photo',
         source: (source || 'SITE') as 'SITE' | 'OWNER' | 'CONTRACTOR',
         linkedClauses: linkedClauses || [],
@@ -427,6 +663,10 @@ projectPhotosRouter.post(
 
       res.status(201).json(photo);
     } catch (error) {
+      if (error instanceof DuplicatePhotoError) {
+        sendDuplicate(res, error);
+        return;
+      }
       next(error);
     }
   }
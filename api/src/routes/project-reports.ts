@@ -0,0 +1,235 @@
+/**
+ * Project Report Routes — Issue #149
+ *
+ * COA report generation from site inspections, clause reviews, documents and photos.
+ */
+
+import { Router, type Request, type Response, type NextFunction, type Router as RouterType } from 'express';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { PrismaProjectReportRepository } from '../repositories/prisma/project-report.js';
+import { PrismaDocumentRepository } from '../repositories/prisma/document.js';
+import { PrismaReportWorkflowRepository } from '../repositories/prisma/report-workflow.js';
+import { CoaReportService } from '../services/coa-report.js';
+import { CccGapReportService } from '../services/ccc-gap-report.js';
+import { DocumentService } from '../services/document.js';
+import { ReportWorkflowService } from '../services/report-workflow.js';
+import { ProjectNotFoundError } from '../services/project.js';
+import { ReportGenerationError, REPORT_FORMATS } from '../services/report.js';
+import type { PhotoSrcResolver } from '../services/report-helpers.js';
+import { isR2Configured, getPresignedUrl } from '../services/r2-storage.js';
+import type { AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/tenant.js';
+
+const prisma = new PrismaClient();
+const UPLOAD_DIR = process.env.UPLOAD_DIR || './data/uploads';
+const useR2Storage = isR2Configured();
+
+const documentService = new DocumentService(new PrismaDocumentRepository(prisma));
+const reportRepository = new PrismaProjectReportRepository(prisma);
+// Puppeteer loads photos from R2 via presigned URL, or from local uploads;
+// annotated photos use the copy with the markup drawn on
+const resolvePhotoSrc: PhotoSrcResolver = async (photo) =>
+  useR2Storage
+    ? getPresignedUrl(photo.annotatedPath ?? photo.filePath)
+    : `file://${path.resolve(UPLOAD_DIR, photo.annotatedPath ?? photo.filePath)}`;
+const service = new CoaReportService(reportRepository, documentService, { resolvePhotoSrc });
+const cccGapService = new CccGapReportService(reportRepository, documentService, { resolvePhotoSrc });
+const workflowService = new ReportWorkflowService(new PrismaReportWorkflowRepository(prisma));
+
+const GenerateReportSchema = z.object({
+  format: z.enum(REPORT_FORMATS).default('pdf'),
+});
+
+const GenerateCoaReportSchema = GenerateReportSchema.extend({
+  attachAppendices: z.boolean().default(false),
+}).refine((data) => !data.attachAppendices || data.format === 'pdf', {
+  message: 'Appendices can only be attached to PDF reports',
+  path: ['attachAppendices'],
+});
+
+export const projectReportsRouter: RouterType = Router();
+
+// POST /api/projects/:projectId/reports/coa - Generate COA report (PDF or DOCX), optionally with document appendices attached
+projectReportsRouter.post(
+  '/projects/:projectId/reports/coa',
+  requirePermission('reports:write'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.projectId as string;
+      // Options may be given in the body or as query parameters
+      const parsed = GenerateCoaReportSchema.safeParse({
+        format: req.body?.format ?? req.query.format,
+        attachAppendices: req.body?.attachAppendices ?? (req.query.attachAppendices === 'true' || undefined),
+      });
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const userId = (req as AuthRequest).userId as string;
+      const report = await service.generate(projectId, userId, parsed.data.format, {
+        attachAppendices: parsed.data.attachAppendices,
+      });
+      await workflowService.recordCreated(report.id, {
+        userId,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      res.status(201).json(report);
+    } catch (error) {
+      if (error instanceof ProjectNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error instanceof ReportGenerationError) {
+        res.status(500).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/projects/:projectId/reports/coa/preview - HTML preview of COA report
+projectReportsRouter.get(
+  '/projects/:projectId/reports/coa/preview',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.projectId as string;
+      const html = await service.renderHtml(projectId);
+      res.type('html').send(html);
+    } catch (error) {
+      if (error instanceof ProjectNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error instanceof ReportGenerationError) {
+        res.status(500).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/projects/:projectId/reports/coa/readiness - Finalisation blockers and content issues
+projectReportsRouter.get(
+  '/projects/:projectId/reports/coa/readiness',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.projectId as string;
+      const readiness = await service.checkReadiness(projectId);
+      res.json(readiness);
+    } catch (error) {
+      if (error instanceof ProjectNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/projects/:projectId/reports/ccc-gap - Generate CCC gap analysis report (PDF or DOCX)
+projectReportsRouter.post(
+  '/projects/:projectId/reports/ccc-gap',
+  requirePermission('reports:write'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.projectId as string;
+      // Format may be given in the body or as ?format=
+      const parsed = GenerateReportSchema.safeParse({ format: req.body?.format ?? req.query.format });
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const userId = (req as AuthRequest).userId as string;
+      const report = await cccGapService.generate(projectId, userId, parsed.data.format);
+      await workflowService.recordCreated(report.id, {
+        userId,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      res.status(201).json(report);
+    } catch (error) {
+      if (error instanceof ProjectNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error instanceof ReportGenerationError) {
+        res.status(500).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/projects/:projectId/reports/ccc-gap/preview - HTML preview of CCC gap analysis report
+projectReportsRouter.get(
+  '/projects/:projectId/reports/ccc-gap/preview',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.projectId as string;
+      const html = await cccGapService.renderHtml(projectId);
+      res.type('html').send(html);
+    } catch (error) {
+      if (error instanceof ProjectNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      if (error instanceof ReportGenerationError) {
+        res.status(500).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/projects/:projectId/reports/ccc-gap/readiness - Finalisation blockers and content issues
+projectReportsRouter.get(
+  '/projects/:projectId/reports/ccc-gap/readiness',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.projectId as string;
+      const readiness = await cccGapService.checkReadiness(projectId);
+      res.json(readiness);
+    } catch (error) {
+      if (error instanceof ProjectNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/projects/:projectId/reports - List generated reports for a project
+projectReportsRouter.get(
+  '/projects/:projectId/reports',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const projectId = req.params.projectId as string;
+      const reports = await service.findByProjectId(projectId);
+      res.json(reports);
+    } catch (error) {
+      if (error instanceof ProjectNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
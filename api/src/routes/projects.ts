@@ -1,12 +1,28 @@
 import { Router, type Request, type Response, type NextFunction, type Router as RouterType } from 'express';
 import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
-import { PrismaProjectRepository } from '../repositories/prisma/project.js';
-import { ProjectService, ProjectNotFoundError } from '../services/project.js';
+import {
+  PrismaProjectRepository,
+  PrismaPropertyRepository,
+  PrismaClientRepository,
+} from '../repositories/prisma/project.js';
+import {
+  ProjectService,
+  ProjectNotFoundError,
+  PropertyNotFoundError,
+  ClientNotFoundError,
+} from '../services/project.js';
+import type { AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/tenant.js';
+import { hasPermission } from '../services/permissions.js';
 
 const prisma = new PrismaClient();
 const repository = new PrismaProjectRepository(prisma);
-const service = new ProjectService(repository);
+const service = new ProjectService(
+  repository,
+  new PrismaPropertyRepository(prisma),
+  new PrismaClientRepository(prisma)
+);
 
 export const projectsRouter: RouterType = Router();
 
@@ -28,8 +44,20 @@ const UpdateProjectSchema = z.object({
   clientId: z.string().uuid().optional(),
 });
 
+// Only reviewers may move a project into review or sign it off
+const REVIEW_STATUSES = new Set(['REVIEW', 'COMPLETED']);
+
+// Property and client IDs in the body must belong to the caller's organisation
+function handleRelationError(error: unknown, res: Response): boolean {
+  if (error instanceof PropertyNotFoundError || error instanceof ClientNotFoundError) {
+    res.status(400).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
 // POST /api/projects - Create project
-projectsRouter.post('/', async (req: Request, res: Response, next: NextFunction) => {
+projectsRouter.post('/', requirePermission('projects:write'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const parsed = CreateProjectSchema.safeParse(req.body);
 
@@ -41,9 +69,10 @@ projectsRouter.post('/', async (req: Request, res: Response, next: NextFunction)
       return;
     }
 
-    const project = await service.create(parsed.data);
+    const project = await service.create((req as AuthRequest).organizationId as string, parsed.data);
     res.status(201).json(project);
   } catch (error) {
+    if (handleRelationError(error, res)) return;
     next(error);
   }
 });
@@ -53,7 +82,7 @@ projectsRouter.get('/', async (req: Request, res: Response, next: NextFunction)
   try {
     const { jobNumber, address, clientName, status, reportType } = req.query;
 
-    const projects = await service.findAll({
+    const projects = await service.findAll((req as AuthRequest).organizationId as string, {
       jobNumber: jobNumber as string | undefined,
       address: address as string | undefined,
       clientName: clientName as string | undefined,
@@ -70,7 +99,7 @@ projectsRouter.get('/', async (req: Request, res: Response, next: NextFunction)
 projectsRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = req.params.id as string;
-    const project = await service.findById(id);
+    const project = await service.findById((req as AuthRequest).organizationId as string, id);
     res.json(project);
   } catch (error) {
     if (error instanceof ProjectNotFoundError) {
@@ -82,7 +111,7 @@ projectsRouter.get('/:id', async (req: Request, res: Response, next: NextFunctio
 });
 
 // PUT /api/projects/:id - Update project
-projectsRouter.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+projectsRouter.put('/:id', requirePermission('projects:write'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = req.params.id as string;
     const parsed = UpdateProjectSchema.safeParse(req.body);
@@ -95,22 +124,29 @@ projectsRouter.put('/:id', async (req: Request, res: Response, next: NextFunctio
       return;
     }
 
-    const project = await service.update(id, parsed.data);
+    const { organizationRole } = req as AuthRequest;
+    if (parsed.data.status && REVIEW_STATUSES.has(parsed.data.status) && !hasPermission(organizationRole, 'projects:review')) {
+      res.status(403).json({ error: `Permission required: projects:review to set status ${parsed.data.status}` });
+      return;
+    }
+
+    const project = await service.update((req as AuthRequest).organizationId as string, id, parsed.data);
     res.json(project);
   } catch (error) {
     if (error instanceof ProjectNotFoundError) {
       res.status(404).json({ error: error.message });
       return;
     }
+    if (handleRelationError(error, res)) return;
     next(error);
   }
 });
 
 // DELETE /api/projects/:id - Delete project
-projectsRouter.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+projectsRouter.delete('/:id', requirePermission('projects:delete'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = req.params.id as string;
-    await service.delete(id);
+    await service.delete((req as AuthRequest).organizationId as string, id);
     res.status(204).send();
   } catch (error) {
     if (error instanceof ProjectNotFoundError) {
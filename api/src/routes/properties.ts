@@ -3,6 +3,8 @@ import { z } from 'zod';
 import { PrismaClient, type Prisma } from '@prisma/client';
 import { PrismaPropertyRepository } from '../repositories/prisma/project.js';
 import { PropertyService, PropertyNotFoundError } from '../services/project.js';
+import type { AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/tenant.js';
 
 const prisma = new PrismaClient();
 const repository = new PrismaPropertyRepository(prisma);
@@ -26,6 +28,8 @@ const CreatePropertySchema = z.object({
   territorialAuthority: z.enum(territorialAuthorities),
   bcNumber: z.string().optional(),
   yearBuilt: z.number().int().min(1800).max(2100).optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
   siteData: z.any().optional(),
   construction: z.any().optional(),
 });
@@ -40,12 +44,14 @@ const UpdatePropertySchema = z.object({
   territorialAuthority: z.enum(territorialAuthorities).optional(),
   bcNumber: z.string().optional(),
   yearBuilt: z.number().int().min(1800).max(2100).optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
   siteData: z.any().optional(),
   construction: z.any().optional(),
 });
 
 // POST /api/properties - Create property
-propertiesRouter.post('/', async (req: Request, res: Response, next: NextFunction) => {
+propertiesRouter.post('/', requirePermission('properties:write'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const parsed = CreatePropertySchema.safeParse(req.body);
 
@@ -57,7 +63,7 @@ propertiesRouter.post('/', async (req: Request, res: Response, next: NextFunctio
       return;
     }
 
-    const property = await service.create({
+    const property = await service.create((req as AuthRequest).organizationId as string, {
       ...parsed.data,
       siteData: parsed.data.siteData as Prisma.InputJsonValue | undefined,
       construction: parsed.data.construction as Prisma.InputJsonValue | undefined,
@@ -73,7 +79,7 @@ propertiesRouter.get('/', async (req: Request, res: Response, next: NextFunction
   try {
     const { address, suburb, city, territorialAuthority } = req.query;
 
-    const properties = await service.findAll({
+    const properties = await service.findAll((req as AuthRequest).organizationId as string, {
       address: address as string | undefined,
       suburb: suburb as string | undefined,
       city: city as string | undefined,
@@ -89,7 +95,7 @@ propertiesRouter.get('/', async (req: Request, res: Response, next: NextFunction
 propertiesRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = req.params.id as string;
-    const property = await service.findById(id);
+    const property = await service.findById((req as AuthRequest).organizationId as string, id);
     res.json(property);
   } catch (error) {
     if (error instanceof PropertyNotFoundError) {
@@ -101,7 +107,7 @@ propertiesRouter.get('/:id', async (req: Request, res: Response, next: NextFunct
 });
 
 // PUT /api/properties/:id - Update property
-propertiesRouter.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+propertiesRouter.put('/:id', requirePermission('properties:write'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = req.params.id as string;
     const parsed = UpdatePropertySchema.safeParse(req.body);
@@ -114,7 +120,7 @@ propertiesRouter.put('/:id', async (req: Request, res: Response, next: NextFunct
       return;
     }
 
-    const property = await service.update(id, {
+    const property = await service.update((req as AuthRequest).organizationId as string, id, {
       ...parsed.data,
       siteData: parsed.data.siteData as Prisma.InputJsonValue | undefined,
       construction: parsed.data.construction as Prisma.InputJsonValue | undefined,
@@ -0,0 +1,359 @@
+/**
+ * Report Workflow Routes — Issue #157
+ *
+ * State transitions, versions, review comments and audit trail for reports.
+ * See: docs/design/016-report-workflow.md
+ */
+
+import { Router, type Request, type Response, type NextFunction, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { PrismaClient, type CommentStatus, type CommentPriority } from '@prisma/client';
+import { PrismaReportWorkflowRepository } from '../repositories/prisma/report-workflow.js';
+import { PrismaDocumentRepository } from '../repositories/prisma/document.js';
+import { PrismaCompanyRepository, PrismaPersonnelRepository } from '../repositories/prisma/personnel.js';
+import { PrismaProjectReportRepository } from '../repositories/prisma/project-report.js';
+import { DocumentService } from '../services/document.js';
+import { CccGapReportService } from '../services/ccc-gap-report.js';
+import { PersonnelService } from '../services/personnel.js';
+import { ReportNotFoundError } from '../services/report.js';
+import {
+  ReportWorkflowService,
+  InvalidTransitionError,
+  TransitionConditionError,
+  ReviewCommentNotFoundError,
+  ReviewCommentStateError,
+  ReportVersionNotFoundError,
+  type AuditContext,
+  type WorkflowAction,
+} from '../services/report-workflow.js';
+import type { AuthRequest } from '../middleware/auth.js';
+import { requirePermission, requireReportAccess, requireReviewCommentAccess } from '../middleware/tenant.js';
+
+const prisma = new PrismaClient();
+const repository = new PrismaReportWorkflowRepository(prisma);
+const documentService = new DocumentService(new PrismaDocumentRepository(prisma));
+const personnelService = new PersonnelService(
+  new PrismaPersonnelRepository(prisma),
+  new PrismaCompanyRepository(prisma)
+);
+const cccGapService = new CccGapReportService(new PrismaProjectReportRepository(prisma), documentService);
+
+// Project reports cannot be finalized while documents are outstanding
+// or while the author/reviewer are not qualified to sign the report type.
+// CCC gap reports are also blocked by unlinked or unremediated defects.
+const service = new ReportWorkflowService(repository, async (report) => {
+  if (!report.projectId) return [];
+  const { blockers } = report.type === 'CCC_GAP'
+    ? await cccGapService.checkReadiness(report.projectId)
+    : await documentService.canFinalize(report.projectId);
+  if (report.type) {
+    const issues = await personnelService.validateReportAssignment(report);
+    blockers.push(...issues.filter((i) => i.severity === 'error').map((i) => i.message));
+  }
+  return blockers;
+});
+
+export const reportWorkflowRouter: RouterType = Router();
+
+// Enums
+const commentPriorityValues = ['MUST_FIX', 'SHOULD_FIX', 'SUGGESTION'] as const;
+
+// Validation schemas
+const TransitionSchema = z.object({
+  description: z.string().optional(),
+  reason: z.string().optional(),
+});
+
+const CreateCommentSchema = z.object({
+  content: z.string().min(1, 'Content is required'),
+  priority: z.enum(commentPriorityValues),
+  sectionId: z.string().optional(),
+  clauseId: z.string().optional(),
+});
+
+const UpdateCommentSchema = z.object({
+  content: z.string().min(1).optional(),
+  priority: z.enum(commentPriorityValues).optional(),
+  sectionId: z.string().nullable().optional(),
+  clauseId: z.string().nullable().optional(),
+});
+
+const ResolveCommentSchema = z.object({
+  resolution: z.string().min(1, 'Resolution is required'),
+});
+
+const DismissCommentSchema = z.object({
+  resolution: z.string().optional(),
+});
+
+function auditContext(req: Request): AuditContext {
+  return {
+    userId: (req as AuthRequest).userId as string,
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent'),
+  };
+}
+
+function handleWorkflowError(error: unknown, res: Response, next: NextFunction): void {
+  if (
+    error instanceof ReportNotFoundError ||
+    error instanceof ReviewCommentNotFoundError ||
+    error instanceof ReportVersionNotFoundError
+  ) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  if (error instanceof InvalidTransitionError || error instanceof ReviewCommentStateError) {
+    res.status(409).json({ error: error.message });
+    return;
+  }
+  if (error instanceof TransitionConditionError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  next(error);
+}
+
+// ============================================
+// State Transitions
+// ============================================
+
+function transitionHandler(action: WorkflowAction) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const parsed = TransitionSchema.safeParse(req.body ?? {});
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const report = await service.transition(id, action, auditContext(req), parsed.data);
+      res.json(report);
+    } catch (error) {
+      handleWorkflowError(error, res, next);
+    }
+  };
+}
+
+// POST /api/reports/:id/submit - Submit for review
+reportWorkflowRouter.post('/reports/:id/submit', requireReportAccess, requirePermission('reports:write'), transitionHandler('submit'));
+
+// POST /api/reports/:id/approve - Approve report
+reportWorkflowRouter.post('/reports/:id/approve', requireReportAccess, requirePermission('reports:review'), transitionHandler('approve'));
+
+// POST /api/reports/:id/request-changes - Request revisions
+reportWorkflowRouter.post('/reports/:id/request-changes', requireReportAccess, requirePermission('reports:review'), transitionHandler('requestChanges'));
+
+// POST /api/reports/:id/resubmit - Resubmit after revision
+reportWorkflowRouter.post('/reports/:id/resubmit', requireReportAccess, requirePermission('reports:write'), transitionHandler('resubmit'));
+
+// POST /api/reports/:id/finalize - Finalize report
+reportWorkflowRouter.post('/reports/:id/finalize', requireReportAccess, requirePermission('reports:review'), transitionHandler('finalize'));
+
+// POST /api/reports/:id/submit-to-council - Mark as submitted
+reportWorkflowRouter.post('/reports/:id/submit-to-council', requireReportAccess, requirePermission('reports:review'), transitionHandler('submitToCouncil'));
+
+// POST /api/reports/:id/revert - Revert finalized report to revision
+reportWorkflowRouter.post('/reports/:id/revert', requireReportAccess, requirePermission('reports:revert'), transitionHandler('revert'));
+
+// GET /api/reports/:id/workflow - Current status and available actions
+reportWorkflowRouter.get(
+  '/reports/:id/workflow',
+  requireReportAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const report = await service.findReport(id);
+      const actions = await service.getAvailableActions(id);
+      res.json({ id: report.id, status: report.status, version: report.version, actions });
+    } catch (error) {
+      handleWorkflowError(error, res, next);
+    }
+  }
+);
+
+// ============================================
+// Versions
+// ============================================
+
+// GET /api/reports/:id/versions - List all versions
+reportWorkflowRouter.get(
+  '/reports/:id/versions',
+  requireReportAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const versions = await service.getVersions(id);
+      res.json(versions);
+    } catch (error) {
+      handleWorkflowError(error, res, next);
+    }
+  }
+);
+
+// GET /api/reports/:id/versions/:version - Get specific version (R1 or 1)
+reportWorkflowRouter.get(
+  '/reports/:id/versions/:version',
+  requireReportAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const version = await service.getVersion(id, req.params.version as string);
+      res.json(version);
+    } catch (error) {
+      handleWorkflowError(error, res, next);
+    }
+  }
+);
+
+// ============================================
+// Review Comments
+// ============================================
+
+// POST /api/reports/:id/comments - Add comment
+reportWorkflowRouter.post(
+  '/reports/:id/comments',
+  requireReportAccess,
+  requirePermission('reports:review'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const parsed = CreateCommentSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const comment = await service.addComment(id, auditContext(req), parsed.data);
+      res.status(201).json(comment);
+    } catch (error) {
+      handleWorkflowError(error, res, next);
+    }
+  }
+);
+
+// GET /api/reports/:id/comments - List comments
+reportWorkflowRouter.get(
+  '/reports/:id/comments',
+  requireReportAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const { status, priority } = req.query;
+
+      const comments = await service.getComments(id, {
+        status: status as CommentStatus | undefined,
+        priority: priority as CommentPriority | undefined,
+      });
+      res.json(comments);
+    } catch (error) {
+      handleWorkflowError(error, res, next);
+    }
+  }
+);
+
+// PUT /api/comments/:id - Update comment
+reportWorkflowRouter.put(
+  '/comments/:id',
+  requireReviewCommentAccess,
+  requirePermission('reports:review'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const parsed = UpdateCommentSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const comment = await service.updateComment(id, parsed.data);
+      res.json(comment);
+    } catch (error) {
+      handleWorkflowError(error, res, next);
+    }
+  }
+);
+
+// POST /api/comments/:id/resolve - Mark resolved
+reportWorkflowRouter.post(
+  '/comments/:id/resolve',
+  requireReviewCommentAccess,
+  requirePermission('reports:write'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const parsed = ResolveCommentSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const comment = await service.resolveComment(id, auditContext(req), parsed.data.resolution);
+      res.json(comment);
+    } catch (error) {
+      handleWorkflowError(error, res, next);
+    }
+  }
+);
+
+// POST /api/comments/:id/dismiss - Dismiss comment
+reportWorkflowRouter.post(
+  '/comments/:id/dismiss',
+  requireReviewCommentAccess,
+  requirePermission('reports:review'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const parsed = DismissCommentSchema.safeParse(req.body ?? {});
+
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const comment = await service.dismissComment(id, auditContext(req), parsed.data.resolution);
+      res.json(comment);
+    } catch (error) {
+      handleWorkflowError(error, res, next);
+    }
+  }
+);
+
+// ============================================
+// Audit
+// ============================================
+
+// GET /api/reports/:id/audit - Get audit trail
+reportWorkflowRouter.get(
+  '/reports/:id/audit',
+  requireReportAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const logs = await service.getAuditTrail(id);
+      res.json(logs);
+    } catch (error) {
+      handleWorkflowError(error, res, next);
+    }
+  }
+);
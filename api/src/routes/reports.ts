@@ -1,33 +1,72 @@
 import { Router, type Request, type Response, type NextFunction, type Router as RouterType } from 'express';
 import * as fs from 'node:fs/promises';
-import { PrismaClient } from '@prisma/client';
+import * as path from 'node:path';
+import { PrismaClient, type Report } from '@prisma/client';
+import { z } from 'zod';
 import { PrismaInspectionRepository } from '../repositories/prisma/inspection.js';
+import { PrismaReportWorkflowRepository } from '../repositories/prisma/report-workflow.js';
+import type { AuthRequest } from '../middleware/auth.js';
 import {
   ReportService,
   ReportNotFoundError,
   InspectionNotFoundError,
   ReportGenerationError,
+  REPORT_FORMATS,
+  REPORT_CONTENT_TYPES,
+  type ReportFormat,
 } from '../services/report.js';
+import { ReportWorkflowService } from '../services/report-workflow.js';
+import { requireReportAccess } from '../middleware/tenant.js';
 
 const prisma = new PrismaClient();
 const repository = new PrismaInspectionRepository(prisma);
 const service = new ReportService(repository);
+const workflowService = new ReportWorkflowService(new PrismaReportWorkflowRepository(prisma));
 
 export const reportsRouter: RouterType = Router();
 
-// POST /api/inspections/:inspectionId/report - Generate PDF report
+const GenerateReportSchema = z.object({
+  format: z.enum(REPORT_FORMATS).default('pdf'),
+});
+
+function sendReportFile(res: Response, report: Report, filename: string, file: Buffer): void {
+  const contentType = REPORT_CONTENT_TYPES[report.format as ReportFormat] ?? 'application/octet-stream';
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(file);
+}
+
+// POST /api/inspections/:inspectionId/report - Generate PDF or DOCX report
 reportsRouter.post(
   '/inspections/:inspectionId/report',
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const inspectionId = req.params.inspectionId as string;
-      const report = await service.generate(inspectionId);
+      // Format may be given in the body or as ?format=
+      const parsed = GenerateReportSchema.safeParse({ format: req.body?.format ?? req.query.format });
+      if (!parsed.success) {
+        res.status(400).json({
+          error: 'Validation failed',
+          details: parsed.error.flatten().fieldErrors,
+        });
+        return;
+      }
+
+      const userId = (req as AuthRequest).userId as string;
+      const report = await service.generate(inspectionId, userId, parsed.data.format);
+      await workflowService.recordCreated(report.id, {
+        userId,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
 
       res.status(201).json({
         id: report.id,
         inspectionId: report.inspectionId,
         format: report.format,
         path: report.path,
+        status: report.status,
+        version: report.version,
         createdAt: report.createdAt,
       });
     } catch (error) {
@@ -57,6 +96,8 @@ reportsRouter.get(
         inspectionId: report.inspectionId,
         format: report.format,
         path: report.path,
+        status: report.status,
+        version: report.version,
         createdAt: report.createdAt,
       });
     } catch (error) {
@@ -73,28 +114,24 @@ reportsRouter.get(
   }
 );
 
-// GET /api/inspections/:inspectionId/report/download - Download PDF file
+// GET /api/inspections/:inspectionId/report/download - Download latest report file
 reportsRouter.get(
   '/inspections/:inspectionId/report/download',
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const inspectionId = req.params.inspectionId as string;
-      const filePath = await service.getFilePath(inspectionId);
+      const report = await service.getLatest(inspectionId);
 
       // Check if file exists
       try {
-        await fs.access(filePath);
+        await fs.access(report.path);
       } catch {
         res.status(404).json({ error: 'Report file not found on disk' });
         return;
       }
 
-      // Serve the PDF file
-      res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="inspection-${inspectionId}.pdf"`);
-
-      const fileBuffer = await fs.readFile(filePath);
-      res.send(fileBuffer);
+      const fileBuffer = await fs.readFile(report.path);
+      sendReportFile(res, report, `inspection-${inspectionId}.${report.format}`, fileBuffer);
     } catch (error) {
       if (error instanceof InspectionNotFoundError) {
         res.status(404).json({ error: error.message });
@@ -108,3 +145,31 @@ reportsRouter.get(
     }
   }
 );
+
+// GET /api/reports/:id/download - Download a report file by report ID
+reportsRouter.get(
+  '/reports/:id/download',
+  requireReportAccess,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const report = await service.findById(id);
+
+      try {
+        await fs.access(report.path);
+      } catch {
+        res.status(404).json({ error: 'Report file not found on disk' });
+        return;
+      }
+
+      const fileBuffer = await fs.readFile(report.path);
+      sendReportFile(res, report, path.basename(report.path), fileBuffer);
+    } catch (error) {
+      if (error instanceof ReportNotFoundError) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+);
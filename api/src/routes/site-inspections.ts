@@ -2,11 +2,25 @@ import { Router, type Request, type Response, type NextFunction, type Router as
 import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
 import { PrismaSiteInspectionRepository } from '../repositories/prisma/site-inspection.js';
-import { SiteInspectionService, SiteInspectionNotFoundError } from '../services/site-inspection.js';
+import { PrismaProjectRepository } from '../repositories/prisma/project.js';
+import { PrismaCompanyRepository, PrismaPersonnelRepository } from '../repositories/prisma/personnel.js';
+import {
+  SiteInspectionService,
+  SiteInspectionNotFoundError,
+  InspectorRequiredError,
+} from '../services/site-inspection.js';
+import { PersonnelService, PersonnelNotFoundError, PersonnelCapabilityError } from '../services/personnel.js';
+import { ProjectNotFoundError } from '../services/project.js';
+import type { AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/tenant.js';
 
 const prisma = new PrismaClient();
 const repository = new PrismaSiteInspectionRepository(prisma);
-const service = new SiteInspectionService(repository);
+const personnelService = new PersonnelService(
+  new PrismaPersonnelRepository(prisma),
+  new PrismaCompanyRepository(prisma)
+);
+const service = new SiteInspectionService(repository, new PrismaProjectRepository(prisma), personnelService);
 
 export const siteInspectionsRouter: RouterType = Router();
 
@@ -26,12 +40,16 @@ const CreateSiteInspectionSchema = z.object({
   type: z.enum(inspectionTypes),
   stage: z.enum(inspectionStages),
   date: z.string().datetime().or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
-  inspectorName: z.string().min(1, 'Inspector name is required'),
+  inspectorName: z.string().min(1, 'Inspector name is required').optional(),
+  inspectorId: z.string().uuid('Invalid inspector ID').optional(),
   weather: z.string().optional(),
   personsPresent: z.string().optional(),
   equipment: z.array(z.string()).optional(),
   methodology: z.string().optional(),
   areasNotAccessed: z.string().optional(),
+}).refine((data) => data.inspectorName || data.inspectorId, {
+  message: 'Either inspectorId or inspectorName is required',
+  path: ['inspectorName'],
 });
 
 const UpdateSiteInspectionSchema = z.object({
@@ -45,6 +63,7 @@ const UpdateSiteInspectionSchema = z.object({
   methodology: z.string().optional(),
   areasNotAccessed: z.string().optional(),
   inspectorName: z.string().min(1).optional(),
+  inspectorId: z.string().uuid('Invalid inspector ID').nullable().optional(),
   lbpOnSite: z.boolean().optional(),
   lbpLicenseSighted: z.boolean().optional(),
   lbpLicenseNumber: z.string().optional(),
@@ -56,13 +75,26 @@ const UpdateSiteInspectionSchema = z.object({
   currentClauseId: z.string().optional(),
 });
 
+// Map inspector assignment errors to 400 responses
+function handleInspectorError(error: unknown, res: Response): boolean {
+  if (
+    error instanceof PersonnelNotFoundError ||
+    error instanceof PersonnelCapabilityError ||
+    error instanceof InspectorRequiredError
+  ) {
+    res.status(400).json({ error: error.message });
+    return true;
+  }
+  return false;
+}
+
 // Helper to parse date strings
 function parseDate(dateStr: string): Date {
   return new Date(dateStr);
 }
 
 // POST /api/projects/:projectId/inspections - Create inspection for project
-siteInspectionsRouter.post('/projects/:projectId/inspections', async (req: Request, res: Response, next: NextFunction) => {
+siteInspectionsRouter.post('/projects/:projectId/inspections', requirePermission('inspections:write'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const projectId = req.params.projectId as string;
     const body = { ...req.body, projectId };
@@ -76,12 +108,17 @@ siteInspectionsRouter.post('/projects/:projectId/inspections', async (req: Reque
       return;
     }
 
-    const inspection = await service.create({
+    const inspection = await service.create((req as AuthRequest).organizationId as string, {
       ...parsed.data,
       date: parseDate(parsed.data.date),
     });
     res.status(201).json(inspection);
   } catch (error) {
+    if (error instanceof ProjectNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (handleInspectorError(error, res)) return;
     next(error);
   }
 });
@@ -90,7 +127,7 @@ siteInspectionsRouter.post('/projects/:projectId/inspections', async (req: Reque
 siteInspectionsRouter.get('/projects/:projectId/inspections', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const projectId = req.params.projectId as string;
-    const inspections = await service.findByProjectId(projectId);
+    const inspections = await service.findByProjectId((req as AuthRequest).organizationId as string, projectId);
     res.json(inspections);
   } catch (error) {
     next(error);
@@ -102,7 +139,7 @@ siteInspectionsRouter.get('/site-inspections', async (req: Request, res: Respons
   try {
     const { projectId, type, stage, status, includeDeleted } = req.query;
 
-    const inspections = await service.findAll({
+    const inspections = await service.findAll((req as AuthRequest).organizationId as string, {
       projectId: projectId as string | undefined,
       type: type as typeof inspectionTypes[number] | undefined,
       stage: stage as typeof inspectionStages[number] | undefined,
@@ -119,7 +156,7 @@ siteInspectionsRouter.get('/site-inspections', async (req: Request, res: Respons
 siteInspectionsRouter.get('/site-inspections/:id', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = req.params.id as string;
-    const inspection = await service.findById(id);
+    const inspection = await service.findById((req as AuthRequest).organizationId as string, id);
     res.json(inspection);
   } catch (error) {
     if (error instanceof SiteInspectionNotFoundError) {
@@ -152,13 +189,14 @@ siteInspectionsRouter.put('/site-inspections/:id', async (req: Request, res: Res
       signatureDate: parsed.data.signatureDate ? parseDate(parsed.data.signatureDate) : undefined,
     };
 
-    const inspection = await service.update(id, updateData);
+    const inspection = await service.update((req as AuthRequest).organizationId as string, id, updateData);
     res.json(inspection);
   } catch (error) {
     if (error instanceof SiteInspectionNotFoundError) {
       res.status(404).json({ error: error.message });
       return;
     }
+    if (handleInspectorError(error, res)) return;
     next(error);
   }
 });
@@ -167,7 +205,7 @@ siteInspectionsRouter.put('/site-inspections/:id', async (req: Request, res: Res
 siteInspectionsRouter.delete('/site-inspections/:id', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = req.params.id as string;
-    await service.softDelete(id);
+    await service.softDelete((req as AuthRequest).organizationId as string, id);
     res.status(204).send();
   } catch (error) {
     if (error instanceof SiteInspectionNotFoundError) {
@@ -182,7 +220,7 @@ siteInspectionsRouter.delete('/site-inspections/:id', async (req: Request, res:
 siteInspectionsRouter.post('/site-inspections/:id/restore', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const id = req.params.id as string;
-    const inspection = await service.restore(id);
+    const inspection = await service.restore((req as AuthRequest).organizationId as string, id);
     res.json(inspection);
   } catch (error) {
     if (error instanceof SiteInspectionNotFoundError) {
@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
 import { PrismaSiteMeasurementRepository } from '../repositories/prisma/site-measurement.js';
 import { SiteMeasurementService, SiteMeasurementNotFoundError } from '../services/site-measurement.js';
+import { requireMeasurementAccess } from '../middleware/tenant.js';
 
 const prisma = new PrismaClient();
 const repository = new PrismaSiteMeasurementRepository(prisma);
@@ -82,9 +83,27 @@ siteMeasurementsRouter.get(
   }
 );
 
+// GET /api/measurements/acceptable-ranges - Get acceptable ranges for all types
+// (registered before /measurements/:id so it is not taken as an ID)
+siteMeasurementsRouter.get(
+  '/measurements/acceptable-ranges',
+  (_req: Request, res: Response) => {
+    const ranges = {
+      MOISTURE_CONTENT: { max: 18, unit: 'PERCENT', description: '< 18%' },
+      SLOPE_FALL: { min: 10, unit: 'MM_PER_M', description: '≥ 1:100 (10mm/m)' },
+      DIMENSION: null,
+      CLEARANCE: null,
+      TEMPERATURE: null,
+      OTHER: null,
+    };
+    res.json(ranges);
+  }
+);
+
 // GET /api/measurements/:id - Get single measurement
 siteMeasurementsRouter.get(
   '/measurements/:id',
+  requireMeasurementAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -103,6 +122,7 @@ siteMeasurementsRouter.get(
 // PUT /api/measurements/:id - Update measurement
 siteMeasurementsRouter.put(
   '/measurements/:id',
+  requireMeasurementAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -137,6 +157,7 @@ siteMeasurementsRouter.put(
 // DELETE /api/measurements/:id - Delete measurement
 siteMeasurementsRouter.delete(
   '/measurements/:id',
+  requireMeasurementAccess,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const id = req.params.id as string;
@@ -151,19 +172,3 @@ siteMeasurementsRouter.delete(
     }
   }
 );
-
-// GET /api/measurements/acceptable-ranges - Get acceptable ranges for all types
-siteMeasurementsRouter.get(
-  '/measurements/acceptable-ranges',
-  (_req: Request, res: Response) => {
-    const ranges = {
-      MOISTURE_CONTENT: { max: 18, unit: 'PERCENT', description: '< 18%' },
-      SLOPE_FALL: { min: 10, unit: 'MM_PER_M', description: '≥ 1:100 (10mm/m)' },
-      DIMENSION: null,
-      CLEARANCE: null,
-      TEMPERATURE: null,
-      OTHER: null,
-    };
-    res.json(ranges);
-  }
-);
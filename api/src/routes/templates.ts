@@ -0,0 +1,314 @@
+/**
+ * Template Routes — Issue #156
+ *
+ * Report boilerplate templates with variables and version history.
+ * See: docs/design/010-report-templates.md
+ */
+
+import { Router, type Request, type Response, type NextFunction, type Router as RouterType } from 'express';
+import { z } from 'zod';
+import { PrismaClient, type ReportType, type TemplateCategory } from '@prisma/client';
+import { PrismaTemplateRepository } from '../repositories/prisma/template.js';
+import {
+  TemplateService,
+  TemplateNotFoundError,
+  TemplateVersionNotFoundError,
+  TemplateLockedError,
+  TemplateValidationError,
+  TEMPLATE_VARIABLES,
+} from '../services/template.js';
+import { ProjectNotFoundError } from '../services/project.js';
+import type { AuthRequest } from '../middleware/auth.js';
+import { requirePermission } from '../middleware/tenant.js';
+
+const prisma = new PrismaClient();
+const repository = new PrismaTemplateRepository(prisma);
+const service = new TemplateService(repository);
+
+export const templatesRouter: RouterType = Router();
+
+// Enums
+const templateCategories = ['SECTION', 'CLAUSE', 'NA_REASON', 'BLOCK'] as const;
+const reportTypes = ['COA', 'CCC_GAP', 'PPI', 'SAFE_SANITARY', 'TFA'] as const;
+
+// Validation schemas
+const CreateTemplateSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  category: z.enum(templateCategories),
+  reportType: z.enum(reportTypes).optional(),
+  section: z.string().min(1).optional(),
+  content: z.string().min(1, 'Content is required'),
+  locked: z.boolean().optional(),
+  changeNotes: z.string().optional(),
+});
+
+const UpdateTemplateSchema = z.object({
+  name: z.string().min(1).optional(),
+  reportType: z.enum(reportTypes).nullable().optional(),
+  section: z.string().min(1).nullable().optional(),
+  content: z.string().min(1).optional(),
+  changeNotes: z.string().optional(),
+});
+
+const RollbackSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+const CloneSchema = z.object({
+  name: z.string().min(1).optional(),
+});
+
+const RenderSchema = z.object({
+  projectId: z.string().uuid(),
+});
+
+const PreviewSchema = z.object({
+  content: z.string().optional(),
+});
+
+function handleTemplateError(error: unknown, res: Response, next: NextFunction): void {
+  if (
+    error instanceof TemplateNotFoundError ||
+    error instanceof TemplateVersionNotFoundError ||
+    error instanceof ProjectNotFoundError
+  ) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  if (error instanceof TemplateValidationError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  if (error instanceof TemplateLockedError) {
+    res.status(409).json({ error: error.message });
+    return;
+  }
+  next(error);
+}
+
+// GET /api/templates - List active templates (filter by category, reportType, section)
+templatesRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { category, reportType, section, includeInactive } = req.query;
+
+    const templates = await service.findAll((req as AuthRequest).organizationId as string, {
+      category: category as TemplateCategory | undefined,
+      reportType: reportType as ReportType | undefined,
+      section: section as string | undefined,
+      includeInactive: includeInactive === 'true',
+    });
+    res.json(templates);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/templates/categories - List template categories
+templatesRouter.get('/categories', (_req: Request, res: Response) => {
+  res.json(templateCategories);
+});
+
+// GET /api/templates/variables - List available {{variables}}
+templatesRouter.get('/variables', (_req: Request, res: Response) => {
+  res.json(TEMPLATE_VARIABLES);
+});
+
+// GET /api/templates/defaults/:reportType - Default section templates for a report type
+templatesRouter.get('/defaults/:reportType', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = z.enum(reportTypes).safeParse(req.params.reportType);
+
+    if (!parsed.success) {
+      res.status(400).json({ error: `Invalid report type: ${req.params.reportType}` });
+      return;
+    }
+
+    const templates = await service.findDefaults((req as AuthRequest).organizationId as string, parsed.data);
+    res.json(templates);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/templates - Create template (org admin)
+templatesRouter.post('/', requirePermission('templates:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = CreateTemplateSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const template = await service.create((req as AuthRequest).organizationId as string, {
+      ...parsed.data,
+      createdById: (req as AuthRequest).userId,
+    });
+    res.status(201).json(template);
+  } catch (error) {
+    handleTemplateError(error, res, next);
+  }
+});
+
+// GET /api/templates/:id - Get template
+templatesRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const template = await service.findById((req as AuthRequest).organizationId as string, id);
+    res.json(template);
+  } catch (error) {
+    handleTemplateError(error, res, next);
+  }
+});
+
+// PUT /api/templates/:id - Update template (content changes create a new version) (org admin)
+templatesRouter.put('/:id', requirePermission('templates:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const parsed = UpdateTemplateSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const template = await service.update((req as AuthRequest).organizationId as string, id, parsed.data, (req as AuthRequest).userId);
+    res.json(template);
+  } catch (error) {
+    handleTemplateError(error, res, next);
+  }
+});
+
+// DELETE /api/templates/:id - Deactivate template (org admin)
+templatesRouter.delete('/:id', requirePermission('templates:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    await service.deactivate((req as AuthRequest).organizationId as string, id);
+    res.status(204).send();
+  } catch (error) {
+    handleTemplateError(error, res, next);
+  }
+});
+
+// GET /api/templates/:id/versions - Version history (newest first)
+templatesRouter.get('/:id/versions', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const versions = await service.findVersions((req as AuthRequest).organizationId as string, id);
+    res.json(versions);
+  } catch (error) {
+    handleTemplateError(error, res, next);
+  }
+});
+
+// POST /api/templates/:id/rollback - Restore an earlier version as a new version (org admin)
+templatesRouter.post('/:id/rollback', requirePermission('templates:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const parsed = RollbackSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const template = await service.rollback((req as AuthRequest).organizationId as string, id, parsed.data.version, (req as AuthRequest).userId);
+    res.json(template);
+  } catch (error) {
+    handleTemplateError(error, res, next);
+  }
+});
+
+// POST /api/templates/:id/clone - Clone template (org admin)
+templatesRouter.post('/:id/clone', requirePermission('templates:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const parsed = CloneSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const template = await service.clone((req as AuthRequest).organizationId as string, id, parsed.data.name, (req as AuthRequest).userId);
+    res.status(201).json(template);
+  } catch (error) {
+    handleTemplateError(error, res, next);
+  }
+});
+
+// POST /api/templates/:id/lock - Lock from editing (org admin)
+templatesRouter.post('/:id/lock', requirePermission('templates:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const template = await service.lock((req as AuthRequest).organizationId as string, id);
+    res.json(template);
+  } catch (error) {
+    handleTemplateError(error, res, next);
+  }
+});
+
+// POST /api/templates/:id/unlock - Unlock for editing (org admin)
+templatesRouter.post('/:id/unlock', requirePermission('templates:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const template = await service.unlock((req as AuthRequest).organizationId as string, id);
+    res.json(template);
+  } catch (error) {
+    handleTemplateError(error, res, next);
+  }
+});
+
+// POST /api/templates/:id/render - Render with a project's data
+templatesRouter.post('/:id/render', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const parsed = RenderSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const result = await service.render((req as AuthRequest).organizationId as string, id, parsed.data.projectId);
+    res.json(result);
+  } catch (error) {
+    handleTemplateError(error, res, next);
+  }
+});
+
+// POST /api/templates/:id/preview - Render with sample data (optionally unsaved content)
+templatesRouter.post('/:id/preview', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const parsed = PreviewSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const result = await service.preview((req as AuthRequest).organizationId as string, id, parsed.data.content);
+    res.json(result);
+  } catch (error) {
+    handleTemplateError(error, res, next);
+  }
+});
@@ -0,0 +1,111 @@
+import { Router, type Request, type Response, type NextFunction, type Router as RouterType } from 'express';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { PrismaVoiceNoteRepository } from '../repositories/prisma/voice-note.js';
+import { VoiceNoteService, VoiceNoteNotFoundError, VoiceNoteFileError, VoiceNoteAccessError } from '../services/voice-note.js';
+import { createTranscriptionBackend } from '../services/transcription.js';
+import { hasPermission } from '../services/permissions.js';
+import { idempotent } from '../middleware/idempotency.js';
+import type { AuthRequest } from '../middleware/auth.js';
+
+const prisma = new PrismaClient();
+const repository = new PrismaVoiceNoteRepository(prisma);
+const service = new VoiceNoteService(repository, createTranscriptionBackend());
+
+export const voiceNotesRouter: RouterType = Router();
+
+// Validation schema
+const UploadVoiceNoteSchema = z.object({
+  base64Data: z.string().min(1, 'Base64 data is required'),
+  mimeType: z.string().optional(),
+});
+
+// POST /api/voice-notes - Upload and transcribe a voice note
+voiceNotesRouter.post('/', idempotent, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parsed = UploadVoiceNoteSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return;
+    }
+
+    const { organizationId, userId } = req as AuthRequest;
+    const { voiceNote, issues } = await service.upload(organizationId as string, parsed.data, userId);
+    res.status(201).json({ ...voiceNote, issues });
+  } catch (error) {
+    if (error instanceof VoiceNoteFileError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+});
+
+// GET /api/voice-notes/:id - Get voice note metadata and transcript
+voiceNotesRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const voiceNote = await service.findById((req as AuthRequest).organizationId as string, id);
+    res.json(voiceNote);
+  } catch (error) {
+    if (error instanceof VoiceNoteNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+});
+
+// GET /api/voice-notes/:id/audio - Play the original recording
+voiceNotesRouter.get('/:id/audio', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const voiceNote = await service.findById((req as AuthRequest).organizationId as string, id);
+
+    try {
+      await fs.access(voiceNote.path);
+    } catch {
+      res.status(404).json({ error: 'Voice note file not found on disk' });
+      return;
+    }
+
+    // sendFile handles range requests, which browsers need to seek
+    res.setHeader('Content-Type', voiceNote.mimeType);
+    res.setHeader('Content-Disposition', `inline; filename="${voiceNote.filename}"`);
+    res.sendFile(path.resolve(voiceNote.path), (err) => {
+      if (err && !res.headersSent) next(err);
+    });
+  } catch (error) {
+    if (error instanceof VoiceNoteNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+});
+
+// DELETE /api/voice-notes/:id - Delete voice note (findings keep their text)
+voiceNotesRouter.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const { organizationId, organizationRole, userId } = req as AuthRequest;
+    await service.delete(organizationId as string, id, userId, hasPermission(organizationRole, 'inspections:write:any'));
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof VoiceNoteNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (error instanceof VoiceNoteAccessError) {
+      res.status(403).json({ error: error.message });
+      return;
+    }
+    next(error);
+  }
+});
@@ -0,0 +1,248 @@
+/**
+ * API Token Service
+ *
+ * Named, scoped and revocable API tokens owned by a user. Tokens replace the
+ * shared SERVICE_API_KEY: each request made with a token acts as its owner,
+ * or, for AGENT tokens, as the phone-verified inspector the agent is talking
+ * to. Only a SHA-256 hash is stored; the token itself is returned once.
+ */
+
+import crypto from 'crypto';
+import type { ApiTokenScope } from '@prisma/client';
+import type { IApiTokenRepository, ApiTokenSummary } from '../repositories/interfaces/api-token.js';
+import type { IOrganizationRepository } from '../repositories/interfaces/organization.js';
+import { hasPermission } from './permissions.js';
+
+export class ApiTokenNotFoundError extends Error {
+  constructor(id: string) {
+    super(`API token not found: ${id}`);
+    this.name = 'ApiTokenNotFoundError';
+  }
+}
+
+export class ApiTokenValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiTokenValidationError';
+  }
+}
+
+/** The caller may not create a token with these scopes (403) */
+export class ApiTokenPermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiTokenPermissionError';
+  }
+}
+
+/** The token is unknown, revoked or expired (401) */
+export class ApiTokenAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiTokenAuthError';
+  }
+}
+
+/** The token is valid but may not make this request (403) */
+export class ApiTokenScopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiTokenScopeError';
+  }
+}
+
+export const API_TOKEN_PREFIX = 'aik_';
+
+/** Characters of the token kept in plain text so owners can tell tokens apart */
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+/** lastUsedAt is only written when older than this, to avoid a write per request */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Resource scopes for writes, matched against the request path in order.
+ * Paths that match nothing need FULL.
+ */
+const RESOURCE_SCOPES: Array<[RegExp, ApiTokenScope]> = [
+  [/^\/api\/projects\/[^/]+\/(inspections|photos)(\/|$)/, 'INSPECTIONS'],
+  [/^\/api\/projects\/[^/]+\/(reports|cost-estimate)(\/|$)/, 'REPORTS'],
+  [/^\/api\/inspections\/[^/]+\/report(\/|$)/, 'REPORTS'],
+  [
+    /^\/api\/(site-inspections|inspections|findings|photos|voice-notes|checklist-items|clause-reviews|measurements|defects|moisture-readings|comment-feedback)(\/|$)/,
+    'INSPECTIONS',
+  ],
+  [/^\/api\/(projects|properties|clients|building-history|documents)(\/|$)/, 'PROJECTS'],
+  [/^\/api\/(reports|comments|cost-estimates|cost-line-items)(\/|$)/, 'REPORTS'],
+];
+
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function isApiToken(value: string): boolean {
+  return value.startsWith(API_TOKEN_PREFIX);
+}
+
+/**
+ * The resource scope a request path falls under
+ */
+export function resourceScope(path: string): ApiTokenScope {
+  return RESOURCE_SCOPES.find(([pattern]) => pattern.test(path))?.[1] ?? 'FULL';
+}
+
+/**
+ * FULL allows everything; a resource scope allows reading and writing that
+ * resource; READ allows reading anything.
+ */
+export function scopesAllow(scopes: ApiTokenScope[], method: string, path: string): boolean {
+  if (scopes.includes('FULL')) return true;
+  if (READ_METHODS.has(method.toUpperCase()) && scopes.includes('READ')) return true;
+  const required = resourceScope(path);
+  return required !== 'FULL' && scopes.includes(required);
+}
+
+function normalizePhoneNumber(phone: string): string {
+  return `+${phone.replace(/\D/g, '')}`;
+}
+
+export interface CreateApiTokenRequest {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresAt?: Date;
+}
+
+export interface ApiTokenRequestContext {
+  method: string;
+  path: string;
+  /** X-Inspector-Phone: the inspector an AGENT token acts for */
+  inspectorPhone?: string;
+}
+
+export interface AuthenticatedApiToken {
+  /** The user the request acts as */
+  userId: string;
+  tokenId: string;
+  /** The token owner; differs from userId when an agent acts for an inspector */
+  ownerId: string;
+}
+
+export class ApiTokenService {
+  constructor(
+    private repository: IApiTokenRepository,
+    private organizationRepository: IOrganizationRepository
+  ) {}
+
+  /**
+   * Create a token. The returned token is not stored and cannot be shown again.
+   * AGENT tokens act for other members, so only organisation admins
+   * (organization:manage) may create them.
+   */
+  async create(
+    userId: string,
+    input: CreateApiTokenRequest,
+    now: Date = new Date()
+  ): Promise<{ token: string; apiToken: ApiTokenSummary }> {
+    if (input.expiresAt && input.expiresAt <= now) {
+      throw new ApiTokenValidationError('Expiry must be in the future');
+    }
+    if (input.scopes.includes('AGENT')) {
+      const memberships = await this.organizationRepository.findMembershipsForUser(userId);
+      if (!memberships.some((m) => hasPermission(m.role, 'organization:manage'))) {
+        throw new ApiTokenPermissionError('Permission required to create AGENT tokens: organization:manage');
+      }
+    }
+
+    const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const apiToken = await this.repository.create({
+      userId,
+      name: input.name,
+      prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      tokenHash: hashApiToken(token),
+      scopes: [...new Set(input.scopes)],
+      expiresAt: input.expiresAt,
+    });
+
+    return { token, apiToken };
+  }
+
+  async findForUser(userId: string): Promise<ApiTokenSummary[]> {
+    return this.repository.findByUserId(userId);
+  }
+
+  /**
+   * Revoke one of the user's tokens. Revoking twice keeps the first revocation time.
+   */
+  async revoke(userId: string, id: string, now: Date = new Date()): Promise<ApiTokenSummary> {
+    const apiToken = await this.repository.findById(id);
+    if (!apiToken || apiToken.userId !== userId) {
+      throw new ApiTokenNotFoundError(id);
+    }
+    if (apiToken.revokedAt) {
+      return apiToken;
+    }
+    return this.repository.revoke(id, now);
+  }
+
+  /**
+   * Resolve a token to the user a request acts as, checking expiry,
+   * revocation and scopes, and record that the token was used.
+   */
+  async authenticate(
+    token: string,
+    context: ApiTokenRequestContext,
+    now: Date = new Date()
+  ): Promise<AuthenticatedApiToken> {
+    const apiToken = await this.repository.findByHash(hashApiToken(token));
+    if (!apiToken || apiToken.revokedAt) {
+      throw new ApiTokenAuthError('Invalid or revoked API token');
+    }
+    if (apiToken.expiresAt && apiToken.expiresAt <= now) {
+      throw new ApiTokenAuthError('API token has expired');
+    }
+    if (!scopesAllow(apiToken.scopes, context.method, context.path)) {
+      throw new ApiTokenScopeError(
+        `API token lacks the ${resourceScope(context.path)} scope for ${context.method} ${context.path}`
+      );
+    }
+
+    const userId = context.inspectorPhone
+      ? await this.resolveInspector(apiToken.userId, apiToken.scopes, context.inspectorPhone)
+      : apiToken.userId;
+
+    if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+      await this.repository.touch(apiToken.id, now);
+    }
+
+    return { userId, tokenId: apiToken.id, ownerId: apiToken.userId };
+  }
+
+  /**
+   * An AGENT token may act for a phone-verified user who shares an
+   * organisation with the token owner.
+   */
+  private async resolveInspector(ownerId: string, scopes: ApiTokenScope[], phone: string): Promise<string> {
+    if (!scopes.includes('AGENT')) {
+      throw new ApiTokenScopeError('Only AGENT tokens may act for an inspector');
+    }
+
+    const inspectorId = await this.repository.findUserIdByVerifiedPhone(normalizePhoneNumber(phone));
+    if (!inspectorId) {
+      throw new ApiTokenScopeError(`No verified inspector for phone ${phone}`);
+    }
+    if (inspectorId === ownerId) {
+      return inspectorId;
+    }
+
+    const [ownerMemberships, inspectorMemberships] = await Promise.all([
+      this.organizationRepository.findMembershipsForUser(ownerId),
+      this.organizationRepository.findMembershipsForUser(inspectorId),
+    ]);
+    const ownerOrganizations = new Set(ownerMemberships.map((m) => m.organizationId));
+    if (!inspectorMemberships.some((m) => ownerOrganizations.has(m.organizationId))) {
+      throw new ApiTokenScopeError(`No verified inspector for phone ${phone}`);
+    }
+    return inspectorId;
+  }
+}
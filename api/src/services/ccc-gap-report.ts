@@ -0,0 +1,715 @@
+/**
+ * CCC Gap Analysis Report Service — Issue #153
+ *
+ * Assembles a CCC gap analysis report for a project from its defects,
+ * moisture readings, cost estimate, documents and photos.
+ * See: docs/design/012-ccc-gap-analysis.md
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import * as path from 'node:path';
+import Handlebars from 'handlebars';
+import type { DefectPriority, Report } from '@prisma/client';
+import type {
+  IProjectReportRepository,
+  CccGapReportData,
+} from '../repositories/interfaces/project-report.js';
+import type { DocumentService } from './document.js';
+import { ProjectNotFoundError } from './project.js';
+import { renderHtmlToPdf } from './pdf-renderer.js';
+import { renderDocx, type DocxBlock } from './docx-renderer.js';
+import { ReportGenerationError, type ReportFormat } from './report.js';
+import {
+  PHOTO_SOURCE_LABELS,
+  defaultPhotoSrc,
+  formatDate,
+  formatPhotoRefs,
+  siteValue,
+  type PhotoSrcResolver,
+} from './report-helpers.js';
+
+type DefectData = CccGapReportData['siteInspections'][number]['defects'][number];
+type MoistureReadingData = CccGapReportData['siteInspections'][number]['moistureReadings'][number];
+
+export const DEFECT_PRIORITIES: DefectPriority[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+const PRIORITY_LABELS: Record<DefectPriority, string> = {
+  CRITICAL: 'Critical',
+  HIGH: 'High',
+  MEDIUM: 'Medium',
+  LOW: 'Low',
+};
+
+const PRIORITY_GUIDANCE: Record<DefectPriority, string> = {
+  CRITICAL: 'Immediate action required (structural or safety)',
+  HIGH: 'Action required within months (durability)',
+  MEDIUM: 'Action required within the year (compliance)',
+  LOW: 'Action as convenient (maintenance)',
+};
+
+export interface CccDefectRow {
+  number: string;
+  location: string;
+  element: string;
+  clauseCode: string;
+  clauseTitle: string;
+  description: string;
+  cause: string;
+  remedialAction: string;
+  priority: string;
+  priorityClass: string;
+  photoRefs: string;
+}
+
+export interface CccExecutiveSummary {
+  defectCount: number;
+  breaches: Array<{ code: string; title: string; defectCount: number }>;
+  priorityCounts: Array<{ priority: string; count: number }>;
+  criticalCount: number;
+  /** Total excluding GST, formatted; null when there is no estimate */
+  estimatedCost: string | null;
+  paragraphs: string[];
+}
+
+export interface CccCostEstimate {
+  currency: string;
+  contingencyPercent: string;
+  lineItems: Array<{
+    itemNumber: number;
+    description: string;
+    defectNumber: string;
+    quantity: string;
+    unit: string;
+    rate: string;
+    total: string;
+  }>;
+  subtotal: string;
+  contingency: string;
+  totalExGst: string;
+  gst: string;
+  totalIncGst: string;
+  validUntil: string | null;
+  notes: string | null;
+}
+
+export interface CccMoistureRow {
+  location: string;
+  substrate: string;
+  reading: string;
+  depth: string;
+  equipment: string;
+  date: string;
+  defectNumber: string;
+  result: string;
+}
+
+export interface CccGapReportContext {
+  project: {
+    jobNumber: string;
+    activity: string;
+    address: string;
+    client: string;
+    council: string;
+  };
+  inspection: {
+    date: string;
+    weather: string;
+    inspectors: string[];
+  };
+  property: {
+    lotDp: string;
+    councilId: string;
+    bcNumber: string;
+    yearBuilt: string;
+    zones: { wind: string; earthquake: string; exposure: string };
+    buildingHistory: Array<{ type: string; reference: string; year: number; status: string }>;
+  };
+  methodology: {
+    description: string;
+    equipment: string[];
+    areasNotAccessed: string;
+    documentsReviewed: string[];
+  };
+  executiveSummary: CccExecutiveSummary;
+  defects: CccDefectRow[];
+  remedialScope: Array<{
+    priority: string;
+    guidance: string;
+    items: Array<{ number: string; clauseCode: string; action: string }>;
+  }>;
+  appendices: {
+    costEstimate: CccCostEstimate | null;
+    photos: Array<{ number: number; caption: string; source: string; src: string }>;
+    moistureReadings: CccMoistureRow[];
+  };
+  generatedDate: string;
+}
+
+export interface CccGapReadiness {
+  canFinalize: boolean;
+  blockers: string[];
+  issues: string[];
+}
+
+export interface CccGapReportServiceOptions {
+  templatePath?: string;
+  outputDir?: string;
+  /** Resolve a photo to an image src the renderers can load (file:// or presigned URL) */
+  resolvePhotoSrc?: PhotoSrcResolver;
+}
+
+const REPORT_TITLE = 'CCC Gap Analysis Report';
+
+export function formatCurrency(value: number | null | undefined): string {
+  return (value ?? 0).toLocaleString('en-NZ', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('en-NZ', { maximumFractionDigits: 2 });
+}
+
+/**
+ * Executive summary generated from defect data: Building Code clauses
+ * breached, defects by priority and the estimated remediation cost.
+ */
+export function generateExecutiveSummary(
+  defects: Array<{ priority: DefectPriority; clause: { code: string; title: string } | null }>,
+  totalExGst: number | null
+): CccExecutiveSummary {
+  const breaches = new Map<string, { code: string; title: string; defectCount: number }>();
+  for (const defect of defects) {
+    if (!defect.clause) continue;
+    const breach = breaches.get(defect.clause.code) ?? { ...defect.clause, defectCount: 0 };
+    breach.defectCount += 1;
+    breaches.set(defect.clause.code, breach);
+  }
+  const sortedBreaches = Array.from(breaches.values()).sort((a, b) =>
+    a.code.localeCompare(b.code, undefined, { numeric: true })
+  );
+
+  const priorityCounts = DEFECT_PRIORITIES.map((priority) => ({
+    priority: PRIORITY_LABELS[priority],
+    count: defects.filter((d) => d.priority === priority).length,
+  }));
+  const criticalCount = defects.filter((d) => d.priority === 'CRITICAL').length;
+  const estimatedCost = totalExGst !== null ? formatCurrency(totalExGst) : null;
+
+  const paragraphs: string[] = [];
+  if (defects.length === 0) {
+    paragraphs.push('This assessment identified no defects affecting compliance with the New Zealand Building Code.');
+  } else {
+    paragraphs.push(
+      `This assessment identified ${defects.length} defect${defects.length === 1 ? '' : 's'} affecting compliance with the New Zealand Building Code.`
+    );
+    if (sortedBreaches.length > 0) {
+      paragraphs.push(
+        `The defects represent breaches of Building Code clause${sortedBreaches.length === 1 ? '' : 's'} ${sortedBreaches.map((b) => b.code).join(', ')}.`
+      );
+    }
+    if (criticalCount > 0) {
+      paragraphs.push(
+        `${criticalCount} defect${criticalCount === 1 ? ' is' : 's are'} critical and require${criticalCount === 1 ? 's' : ''} immediate action.`
+      );
+    }
+  }
+  if (estimatedCost !== null) {
+    paragraphs.push(`The estimated remediation cost is $${estimatedCost} + GST (see Appendix A).`);
+  }
+
+  return {
+    defectCount: defects.length,
+    breaches: sortedBreaches,
+    priorityCounts,
+    criticalCount,
+    estimatedCost,
+    paragraphs,
+  };
+}
+
+export class CccGapReportService {
+  private templatePath: string;
+  private outputDir: string;
+  private resolvePhotoSrc: PhotoSrcResolver;
+
+  constructor(
+    private repository: IProjectReportRepository,
+    private documentService: DocumentService,
+    options: CccGapReportServiceOptions = {}
+  ) {
+    const projectRoot = path.resolve(process.cwd(), '..');
+    this.templatePath = options.templatePath || path.join(projectRoot, 'templates', 'reports', 'ccc-gap-report.html');
+    this.outputDir = options.outputDir || process.env.REPORT_DIR || path.join(projectRoot, 'data', 'reports');
+    this.resolvePhotoSrc = options.resolvePhotoSrc || defaultPhotoSrc;
+  }
+
+  /**
+   * Generate a CCC gap analysis report (PDF or DOCX). New reports start in DRAFT.
+   */
+  async generate(
+    projectId: string,
+    preparedById?: string,
+    format: ReportFormat = 'pdf'
+  ): Promise<Report> {
+    const context = await this.buildContext(projectId);
+
+    if (!existsSync(this.outputDir)) {
+      mkdirSync(this.outputDir, { recursive: true });
+    }
+
+    const baseName = `ccc-gap-${projectId}-${Date.now()}`;
+    const outputPath = path.join(this.outputDir, `${baseName}.${format}`);
+
+    if (format === 'docx') {
+      await renderDocx(this.buildDocxBlocks(context), outputPath, { headerTitle: REPORT_TITLE });
+    } else {
+      const html = this.compileTemplate()(context);
+
+      // Write HTML alongside the PDF for debugging
+      writeFileSync(path.join(this.outputDir, `${baseName}.html`), html);
+      await renderHtmlToPdf(html, outputPath, { headerTitle: REPORT_TITLE });
+    }
+
+    return this.repository.createReport({
+      projectId,
+      type: 'CCC_GAP',
+      format,
+      path: outputPath,
+      preparedById,
+    });
+  }
+
+  /**
+   * Render the report HTML (used for generation and preview).
+   */
+  async renderHtml(projectId: string): Promise<string> {
+    const context = await this.buildContext(projectId);
+    return this.compileTemplate()(context);
+  }
+
+  async buildContext(projectId: string): Promise<CccGapReportContext> {
+    const data = await this.loadProject(projectId);
+    return this.prepareContext(data);
+  }
+
+  /**
+   * Check whether the project's CCC gap report can be finalised.
+   * Blockers are outstanding documents and incomplete defects; issues are warnings.
+   */
+  async checkReadiness(projectId: string): Promise<CccGapReadiness> {
+    const data = await this.loadProject(projectId);
+    const { blockers } = await this.documentService.canFinalize(projectId);
+    const { errors, warnings } = this.validate(data);
+    const allBlockers = [...blockers, ...errors];
+    return { canFinalize: allBlockers.length === 0, blockers: allBlockers, issues: warnings };
+  }
+
+  /**
+   * Defects must link to a Building Code clause and critical/high defects
+   * must have a remedial action (errors). Missing photos and cost line
+   * items are warnings.
+   */
+  validate(data: CccGapReportData): { errors: string[]; warnings: string[] } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const defects = this.collectDefects(data);
+
+    for (const defect of defects) {
+      if (!defect.clauseId) {
+        errors.push(`Defect ${defect.defectNumber} is not linked to a Building Code clause`);
+      }
+      if ((defect.priority === 'CRITICAL' || defect.priority === 'HIGH') && !defect.remedialAction?.trim()) {
+        errors.push(`Defect ${defect.defectNumber} (${PRIORITY_LABELS[defect.priority]}) has no remedial action`);
+      }
+      if (defect.photoIds.length === 0) {
+        warnings.push(`Defect ${defect.defectNumber} has no photos`);
+      }
+      if (data.costEstimate && defect.costLineItems.length === 0) {
+        warnings.push(
+          defect.priority === 'CRITICAL'
+            ? `Critical defect ${defect.defectNumber} has no cost estimate`
+            : `Defect ${defect.defectNumber} has no cost line items`
+        );
+      }
+    }
+
+    if (defects.length > 0 && !data.costEstimate) {
+      warnings.push('Project has no cost estimate');
+    }
+
+    for (const reading of this.collectMoistureReadings(data)) {
+      if (!reading.photoId) {
+        warnings.push(`Moisture reading at ${reading.location} has no photo`);
+      }
+    }
+
+    if (data.siteInspections.length === 0) {
+      warnings.push('Project has no site inspections');
+    }
+
+    return { errors, warnings };
+  }
+
+  private compileTemplate(): HandlebarsTemplateDelegate<CccGapReportContext> {
+    if (!existsSync(this.templatePath)) {
+      throw new ReportGenerationError(`Template not found: ${this.templatePath}`);
+    }
+    return Handlebars.compile<CccGapReportContext>(readFileSync(this.templatePath, 'utf-8'));
+  }
+
+  /**
+   * Build the DOCX content, mirroring the sections of the HTML template.
+   */
+  private buildDocxBlocks(context: CccGapReportContext): DocxBlock[] {
+    const { project, inspection, property, methodology, executiveSummary, appendices } = context;
+
+    const blocks: DocxBlock[] = [
+      {
+        type: 'cover',
+        title: ['CCC GAP ANALYSIS', 'REPORT'],
+        subtitle: project.address,
+        details: [
+          ['Activity', project.activity],
+          ['Client', project.client],
+          ['Inspection Date', inspection.date],
+          ['Job Number', project.jobNumber],
+        ],
+      },
+      { type: 'heading', text: 'Executive Summary' },
+      ...executiveSummary.paragraphs.map((text): DocxBlock => ({ type: 'paragraph', text })),
+    ];
+
+    if (executiveSummary.breaches.length > 0) {
+      blocks.push(
+        { type: 'heading', text: 'Building Code Breaches', level: 2 },
+        {
+          type: 'bullets',
+          items: executiveSummary.breaches.map((b) => `${b.code} ${b.title} (${b.defectCount})`),
+        }
+      );
+    }
+
+    blocks.push(
+      { type: 'heading', text: 'Priority Summary', level: 2 },
+      {
+        type: 'fields',
+        rows: executiveSummary.priorityCounts.map((p): [string, string] => [p.priority, String(p.count)]),
+      },
+      { type: 'heading', text: '1. Introduction' },
+      {
+        type: 'fields',
+        rows: [
+          ['Job Number', project.jobNumber],
+          ['Property Address', project.address],
+          ['Client', project.client],
+          ['Territorial Authority', project.council],
+          ['Activity', project.activity],
+          ['Inspected By', inspection.inspectors.join(', ')],
+          ['Weather', inspection.weather],
+        ],
+      },
+      { type: 'heading', text: '2. General Information' },
+      {
+        type: 'fields',
+        rows: [
+          ['Legal Description', property.lotDp],
+          ['Council Property ID', property.councilId],
+          ['Building Consent', property.bcNumber],
+          ['Year Built', property.yearBuilt],
+          ['Wind Zone', property.zones.wind],
+          ['Earthquake Zone', property.zones.earthquake],
+          ['Exposure Zone', property.zones.exposure],
+        ],
+      }
+    );
+
+    if (property.buildingHistory.length > 0) {
+      blocks.push(
+        { type: 'heading', text: 'Building History', level: 2 },
+        {
+          type: 'fields',
+          rows: property.buildingHistory.map((h): [string, string] => [
+            `${h.type} (${h.year})`,
+            `${h.reference} — ${h.status}`,
+          ]),
+        }
+      );
+    }
+
+    blocks.push(
+      { type: 'heading', text: '3. Assessment Summary' },
+      { type: 'paragraph', text: methodology.description },
+      {
+        type: 'fields',
+        rows: [
+          ['Equipment', methodology.equipment.join(', ') || '-'],
+          ['Areas Not Accessed', methodology.areasNotAccessed],
+          ['Documents Reviewed', methodology.documentsReviewed.join('; ') || '-'],
+        ],
+      },
+      { type: 'heading', text: '4. Defect Schedule' }
+    );
+
+    if (context.defects.length > 0) {
+      blocks.push({
+        type: 'table',
+        header: ['ID', 'Location', 'Element', 'Clause', 'Description', 'Photos', 'Priority', 'Remedial Action'],
+        rows: context.defects.map((d) => [
+          d.number,
+          d.location,
+          d.element,
+          d.clauseCode,
+          d.cause ? `${d.description}\nCause: ${d.cause}` : d.description,
+          d.photoRefs,
+          d.priority,
+          d.remedialAction,
+        ]),
+        shadedRows: context.defects
+          .map((d, index) => (d.priorityClass === 'priority-critical' ? index : -1))
+          .filter((index) => index >= 0),
+      });
+    } else {
+      blocks.push({ type: 'paragraph', text: 'No defects were identified.' });
+    }
+
+    blocks.push({ type: 'heading', text: '5. Remedial Scope' });
+    if (context.remedialScope.length > 0) {
+      for (const group of context.remedialScope) {
+        blocks.push(
+          { type: 'heading', text: `${group.priority} — ${group.guidance}`, level: 2 },
+          { type: 'bullets', items: group.items.map((i) => `${i.number} (${i.clauseCode}): ${i.action}`) }
+        );
+      }
+    } else {
+      blocks.push({ type: 'paragraph', text: 'No remedial works are required.' });
+    }
+
+    blocks.push(
+      { type: 'heading', text: '6. Limitations' },
+      {
+        type: 'paragraph',
+        text: 'This report is based on a visual inspection of accessible areas and non-invasive moisture testing on the date of inspection. Concealed defects may exist. Cost estimates are indicative only and should be confirmed by a quantity surveyor or contractor.',
+      },
+      { type: 'heading', text: '7. Signatures' },
+      { type: 'paragraph', text: '\n\n______________________________\nPrepared by' },
+      { type: 'paragraph', text: '\n\n______________________________\nReviewed by' },
+      { type: 'paragraph', text: `Report generated ${context.generatedDate}`, italic: true }
+    );
+
+    const estimate = appendices.costEstimate;
+    if (estimate) {
+      blocks.push(
+        { type: 'pageBreak' },
+        { type: 'heading', text: 'Appendix A — Cost Estimate' },
+        {
+          type: 'table',
+          header: ['#', 'Description', 'Defect', 'Qty', 'Unit', 'Rate', 'Total'],
+          rows: estimate.lineItems.map((item) => [
+            String(item.itemNumber),
+            item.description,
+            item.defectNumber,
+            item.quantity,
+            item.unit,
+            `$${item.rate}`,
+            `$${item.total}`,
+          ]),
+        },
+        {
+          type: 'fields',
+          rows: [
+            ['Subtotal', `$${estimate.subtotal}`],
+            [`Contingency (${estimate.contingencyPercent})`, `$${estimate.contingency}`],
+            ['Total (excl GST)', `$${estimate.totalExGst}`],
+            ['GST', `$${estimate.gst}`],
+            ['Total (incl GST)', `$${estimate.totalIncGst}`],
+          ],
+        }
+      );
+      if (estimate.validUntil) {
+        blocks.push({ type: 'paragraph', text: `Estimate valid until ${estimate.validUntil}.`, italic: true });
+      }
+      if (estimate.notes) {
+        blocks.push({ type: 'paragraph', text: estimate.notes });
+      }
+    }
+
+    if (appendices.photos.length > 0) {
+      blocks.push(
+        { type: 'pageBreak' },
+        { type: 'heading', text: 'Appendix B — Photographs' },
+        ...appendices.photos.map((photo): DocxBlock => ({
+          type: 'image',
+          src: photo.src,
+          caption: `Photograph ${photo.number}: ${photo.caption} (${photo.source})`,
+        }))
+      );
+    }
+
+    if (appendices.moistureReadings.length > 0) {
+      blocks.push(
+        { type: 'pageBreak' },
+        { type: 'heading', text: 'Appendix C — Moisture Readings' },
+        {
+          type: 'table',
+          header: ['Location', 'Substrate', 'Reading', 'Depth', 'Equipment', 'Date', 'Defect', 'Result'],
+          rows: appendices.moistureReadings.map((r) => [
+            r.location, r.substrate, r.reading, r.depth, r.equipment, r.date, r.defectNumber, r.result,
+          ]),
+        }
+      );
+    }
+
+    return blocks;
+  }
+
+  private async loadProject(projectId: string): Promise<CccGapReportData> {
+    const data = await this.repository.loadCccGapData(projectId);
+    if (!data) {
+      throw new ProjectNotFoundError(projectId);
+    }
+    return data;
+  }
+
+  private collectDefects(data: CccGapReportData): DefectData[] {
+    return data.siteInspections.flatMap((inspection) => inspection.defects);
+  }
+
+  private collectMoistureReadings(data: CccGapReportData): MoistureReadingData[] {
+    return data.siteInspections.flatMap((inspection) => inspection.moistureReadings);
+  }
+
+  private async prepareContext(data: CccGapReportData): Promise<CccGapReportContext> {
+    const { property, client } = data;
+    const photoNumbers = new Map(data.photos.map((p) => [p.id, p.reportNumber]));
+    const receivedDocuments = data.documents.filter((d) => d.status === 'RECEIVED');
+    const defects = this.collectDefects(data);
+
+    const defectRows: CccDefectRow[] = defects.map((defect) => {
+      const numbers = defect.photoIds
+        .map((id) => photoNumbers.get(id))
+        .filter((n): n is number => n !== undefined)
+        .sort((a, b) => a - b);
+
+      return {
+        number: defect.defectNumber,
+        location: defect.location,
+        element: defect.buildingElement.charAt(0) + defect.buildingElement.slice(1).toLowerCase(),
+        clauseCode: defect.clause?.code || '-',
+        clauseTitle: defect.clause?.title || '',
+        description: defect.description,
+        cause: defect.cause || '',
+        remedialAction: defect.remedialAction || '',
+        priority: PRIORITY_LABELS[defect.priority],
+        priorityClass: `priority-${defect.priority.toLowerCase()}`,
+        photoRefs: formatPhotoRefs(Array.from(new Set(numbers))),
+      };
+    });
+
+    const remedialScope = DEFECT_PRIORITIES
+      .map((priority) => ({
+        priority: PRIORITY_LABELS[priority],
+        guidance: PRIORITY_GUIDANCE[priority],
+        items: defects
+          .filter((d) => d.priority === priority && d.remedialAction?.trim())
+          .map((d) => ({ number: d.defectNumber, clauseCode: d.clause?.code || '-', action: d.remedialAction as string })),
+      }))
+      .filter((group) => group.items.length > 0);
+
+    const estimate = data.costEstimate;
+    const costEstimate: CccCostEstimate | null = estimate
+      ? {
+          currency: estimate.currency,
+          contingencyPercent: `${formatNumber(estimate.contingencyRate * 100)}%`,
+          lineItems: estimate.lineItems.map((item) => ({
+            itemNumber: item.itemNumber,
+            description: item.description,
+            defectNumber: item.defect?.defectNumber || '',
+            quantity: formatNumber(item.quantity),
+            unit: item.unit,
+            rate: formatCurrency(item.rate),
+            total: formatCurrency(item.total),
+          })),
+          subtotal: formatCurrency(estimate.subtotal),
+          contingency: formatCurrency(estimate.contingency),
+          totalExGst: formatCurrency(estimate.totalExGst),
+          gst: formatCurrency(estimate.gst),
+          totalIncGst: formatCurrency(estimate.totalIncGst),
+          validUntil: estimate.validUntil ? formatDate(estimate.validUntil) : null,
+          notes: estimate.notes,
+        }
+      : null;
+
+    const moistureReadings: CccMoistureRow[] = this.collectMoistureReadings(data).map((r) => ({
+      location: r.location,
+      substrate: r.substrate,
+      reading: `${formatNumber(r.reading)}%`,
+      depth: r.depth !== null ? `${r.depth} mm` : '-',
+      equipment: r.equipmentUsed || '-',
+      date: formatDate(r.timestamp),
+      defectNumber: r.defect?.defectNumber || '',
+      result: r.measurement?.result ?? 'PENDING',
+    }));
+
+    const photos: CccGapReportContext['appendices']['photos'] = [];
+    for (const photo of data.photos) {
+      photos.push({
+        number: photo.reportNumber,
+        caption: photo.caption,
+        source: PHOTO_SOURCE_LABELS[photo.source] || photo.source,
+        src: await this.resolvePhotoSrc(photo),
+      });
+    }
+
+    const latestInspection = data.siteInspections[data.siteInspections.length - 1];
+    const inspectors = Array.from(new Set(data.siteInspections.map((i) => i.inspectorName)));
+    const address = [property.streetAddress, property.suburb, property.city]
+      .filter(Boolean)
+      .join(', ');
+
+    return {
+      project: {
+        jobNumber: data.jobNumber,
+        activity: data.activity,
+        address,
+        client: client.name,
+        council: property.territorialAuthority,
+      },
+      inspection: {
+        date: formatDate(latestInspection?.date),
+        weather: latestInspection?.weather || '-',
+        inspectors,
+      },
+      property: {
+        lotDp: property.lotDp || '-',
+        councilId: property.councilPropertyId || '-',
+        bcNumber: property.bcNumber || '-',
+        yearBuilt: property.yearBuilt ? String(property.yearBuilt) : 'Unknown',
+        zones: {
+          wind: siteValue(property.siteData, 'windZone'),
+          earthquake: siteValue(property.siteData, 'earthquakeZone'),
+          exposure: siteValue(property.siteData, 'exposureZone'),
+        },
+        buildingHistory: property.buildingHistory.map((h) => ({
+          type: h.type.replace(/_/g, ' '),
+          reference: h.reference,
+          year: h.year,
+          status: h.status,
+        })),
+      },
+      methodology: {
+        description: latestInspection?.methodology || 'Visual inspection of accessible areas with non-invasive moisture testing.',
+        equipment: latestInspection?.equipment || [],
+        areasNotAccessed: latestInspection?.areasNotAccessed || 'None recorded',
+        documentsReviewed: receivedDocuments.map((d) => d.description),
+      },
+      executiveSummary: generateExecutiveSummary(defects, estimate?.totalExGst ?? null),
+      defects: defectRows,
+      remedialScope,
+      appendices: {
+        costEstimate,
+        photos,
+        moistureReadings,
+      },
+      generatedDate: formatDate(new Date()),
+    };
+  }
+}
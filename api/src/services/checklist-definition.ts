@@ -0,0 +1,224 @@
+/**
+ * Checklist Definition Service
+ *
+ * Database-backed inspection checklists. Edits go to a draft; publishing
+ * freezes the draft as an immutable numbered version. Each inspection is
+ * pinned to the version it started on, so later edits never change the
+ * structure of an inspection already under way. The YAML files in
+ * config/checklists only seed definitions that do not exist yet.
+ */
+
+import type { ChecklistDefinition, ChecklistVersion, Prisma } from '@prisma/client';
+import type { IChecklistDefinitionRepository } from '../repositories/interfaces/checklist-definition.js';
+import {
+  normalizeChecklist,
+  checklistProblems,
+  type Checklist,
+  type RawChecklist,
+} from './checklist.js';
+
+export class ChecklistNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Checklist not found: ${key}`);
+    this.name = 'ChecklistNotFoundError';
+  }
+}
+
+export class ChecklistVersionNotFoundError extends Error {
+  constructor(key: string, version: number) {
+    super(`Checklist ${key} has no version ${version}`);
+    this.name = 'ChecklistVersionNotFoundError';
+  }
+}
+
+export class ChecklistValidationError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid checklist: ${problems.join('; ')}`);
+    this.name = 'ChecklistValidationError';
+  }
+}
+
+export class ChecklistConflictError extends Error {
+  constructor(key: string) {
+    super(`Checklist already exists: ${key}`);
+    this.name = 'ChecklistConflictError';
+  }
+}
+
+/** A published checklist version, ready for an inspection to use */
+export interface ResolvedChecklist {
+  versionId: string;
+  version: number;
+  checklist: Checklist;
+}
+
+export interface CreateChecklistRequest {
+  key: string;
+  content: RawChecklist;
+  /** Publish version 1 straight away instead of leaving a draft */
+  publish?: boolean;
+  changeNotes?: string;
+}
+
+/** The inspection fields that identify its checklist */
+export interface ChecklistReference {
+  checklistId: string;
+  checklistVersionId: string | null;
+}
+
+export class ChecklistDefinitionService {
+  constructor(private repository: IChecklistDefinitionRepository) {}
+
+  async findAll(includeInactive = false): Promise<ChecklistDefinition[]> {
+    return this.repository.findAll(includeInactive);
+  }
+
+  async findByKey(key: string): Promise<ChecklistDefinition> {
+    const definition = await this.repository.findByKey(key);
+    if (!definition) {
+      throw new ChecklistNotFoundError(key);
+    }
+    return definition;
+  }
+
+  async create(userId: string | undefined, input: CreateChecklistRequest): Promise<ChecklistDefinition> {
+    if (await this.repository.findByKey(input.key)) {
+      throw new ChecklistConflictError(input.key);
+    }
+    const checklist = this.validate(input.key, input.content);
+
+    const definition = await this.repository.create({
+      key: input.key,
+      name: checklist.name,
+      draft: input.content as Prisma.InputJsonValue,
+      createdById: userId,
+    });
+
+    if (!input.publish) return definition;
+    await this.publish(input.key, userId, input.changeNotes);
+    return this.findByKey(input.key);
+  }
+
+  /**
+   * Replace the draft. Published versions are never edited in place.
+   */
+  async saveDraft(key: string, content: RawChecklist): Promise<ChecklistDefinition> {
+    const definition = await this.findByKey(key);
+    this.validate(key, content);
+    return this.repository.update(definition.id, { draft: content as Prisma.InputJsonValue });
+  }
+
+  async discardDraft(key: string): Promise<ChecklistDefinition> {
+    const definition = await this.findByKey(key);
+    return this.repository.update(definition.id, { draft: null });
+  }
+
+  /**
+   * Freeze the draft as the next version. New inspections start on it;
+   * existing inspections keep the version they started on.
+   */
+  async publish(key: string, userId: string | undefined, changeNotes?: string): Promise<ChecklistVersion> {
+    const definition = await this.findByKey(key);
+    if (!definition.draft) {
+      throw new ChecklistValidationError(['No draft to publish']);
+    }
+
+    const version = definition.latestVersion + 1;
+    const checklist = this.validate(key, definition.draft as RawChecklist);
+    checklist.version = String(version);
+
+    return this.repository.publish(definition.id, {
+      version,
+      name: checklist.name,
+      content: checklist as unknown as Prisma.InputJsonValue,
+      changeNotes,
+      publishedById: userId,
+    });
+  }
+
+  async findVersions(key: string): Promise<ChecklistVersion[]> {
+    const definition = await this.findByKey(key);
+    return this.repository.findVersions(definition.id);
+  }
+
+  async findVersion(key: string, version: number): Promise<ChecklistVersion> {
+    const definition = await this.findByKey(key);
+    const found = await this.repository.findVersion(definition.id, version);
+    if (!found) {
+      throw new ChecklistVersionNotFoundError(key, version);
+    }
+    return found;
+  }
+
+  async deactivate(key: string): Promise<ChecklistDefinition> {
+    const definition = await this.findByKey(key);
+    return this.repository.update(definition.id, { active: false });
+  }
+
+  /**
+   * The latest published version of an active checklist, for a new inspection
+   */
+  async resolve(key: string): Promise<ResolvedChecklist> {
+    const definition = await this.repository.findByKey(key);
+    if (!definition || !definition.active || definition.latestVersion === 0) {
+      throw new ChecklistNotFoundError(key);
+    }
+    const version = await this.repository.findVersion(definition.id, definition.latestVersion);
+    if (!version) {
+      throw new ChecklistVersionNotFoundError(key, definition.latestVersion);
+    }
+    return { versionId: version.id, version: version.version, checklist: this.toChecklist(version) };
+  }
+
+  /**
+   * The checklist an inspection runs on: its pinned version, or the latest
+   * published version for inspections started before pinning. Null when the
+   * checklist no longer exists.
+   */
+  async forInspection(inspection: ChecklistReference): Promise<Checklist | null> {
+    if (inspection.checklistVersionId) {
+      const version = await this.repository.findVersionById(inspection.checklistVersionId);
+      if (version) return this.toChecklist(version);
+    }
+    return this.resolve(inspection.checklistId)
+      .then((resolved) => resolved.checklist)
+      .catch((error) => {
+        if (error instanceof ChecklistNotFoundError || error instanceof ChecklistVersionNotFoundError) {
+          return null;
+        }
+        throw error;
+      });
+  }
+
+  /**
+   * Create and publish version 1 of each seed checklist not already in the
+   * database. Existing definitions are left alone, edits included.
+   */
+  async seed(checklists: Checklist[]): Promise<string[]> {
+    const seeded: string[] = [];
+    for (const checklist of checklists) {
+      if (await this.repository.findByKey(checklist.id)) continue;
+      await this.create(undefined, {
+        key: checklist.id,
+        content: checklist,
+        publish: true,
+        changeNotes: 'Seeded from config/checklists',
+      });
+      seeded.push(checklist.id);
+    }
+    return seeded;
+  }
+
+  private validate(key: string, content: RawChecklist): Checklist {
+    const checklist = normalizeChecklist(key, content);
+    const problems = checklistProblems(checklist);
+    if (problems.length > 0) {
+      throw new ChecklistValidationError(problems);
+    }
+    return checklist;
+  }
+
+  private toChecklist(version: ChecklistVersion): Checklist {
+    return version.content as unknown as Checklist;
+  }
+}
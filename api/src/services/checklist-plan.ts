@@ -0,0 +1,178 @@
+/**
+ * Checklist Plan
+ *
+ * Resolves a checklist against the property being inspected: sections,
+ * subareas and items whose conditions do not match the property are dropped,
+ * so a slab-on-grade house has no subfloor section and only older houses get
+ * the lead paint and asbestos item. Facts come from the inspection's project
+ * (Property.construction, yearBuilt, ReportType) and can be overridden by
+ * what the inspector records on site in the inspection metadata.
+ */
+
+import type { Inspection, Project, Property } from '@prisma/client';
+import type { Checklist, ChecklistCondition, ChecklistItem, ChecklistSubarea } from './checklist.js';
+
+/** The property facts conditions are evaluated against; undefined when not known */
+export interface PropertyFacts {
+  construction: Record<string, unknown>;
+  yearBuilt?: number;
+  hasSubfloor?: boolean;
+  hasDeck?: boolean;
+  reportType?: string;
+}
+
+/** A project with the property it is for */
+export type ProjectWithProperty = Project & { property: Property };
+
+export interface SkippedSection {
+  id: string;
+  name: string;
+  reason: string;
+}
+
+export interface ChecklistPlan {
+  /** The checklist with everything that does not apply removed */
+  checklist: Checklist;
+  /** Sections and subareas left out, with the reason */
+  skipped: SkippedSection[];
+}
+
+/** Floor and foundation types that leave a crawl space under the floor */
+const SUBFLOOR_TYPES = ['SUSPENDED_TIMBER', 'MIXED', 'TIMBER_PILES', 'CONCRETE_PILES'];
+const SLAB_TYPES = ['CONCRETE_SLAB'];
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function asBoolean(value: unknown): boolean | undefined {
+  return typeof value === 'boolean' ? value : undefined;
+}
+
+/**
+ * Whether there is a subfloor: stated outright, or implied by the floor type,
+ * then the foundation type.
+ */
+function subfloorFrom(construction: Record<string, unknown>): boolean | undefined {
+  const stated = asBoolean(construction.hasSubfloor);
+  if (stated !== undefined) return stated;
+
+  for (const field of ['floorType', 'foundationType']) {
+    const value = construction[field];
+    if (typeof value !== 'string') continue;
+    if (SUBFLOOR_TYPES.includes(value)) return true;
+    if (SLAB_TYPES.includes(value)) return false;
+  }
+  return undefined;
+}
+
+/**
+ * Facts for an inspection. Metadata recorded on site (year_built,
+ * has_subfloor, has_deck, report_type, construction) wins over the project.
+ */
+export function inspectionFacts(inspection: Inspection, project: ProjectWithProperty | null): PropertyFacts {
+  const metadata = asRecord(inspection.metadata);
+  const construction = {
+    ...asRecord(project?.property.construction),
+    ...asRecord(metadata.construction),
+  };
+
+  const yearBuilt = typeof metadata.year_built === 'number'
+    ? metadata.year_built
+    : project?.property.yearBuilt ?? undefined;
+  const reportType = typeof metadata.report_type === 'string'
+    ? metadata.report_type
+    : project?.reportType;
+
+  return {
+    construction,
+    yearBuilt,
+    hasSubfloor: asBoolean(metadata.has_subfloor) ?? subfloorFrom(construction),
+    hasDeck: asBoolean(metadata.has_deck) ?? asBoolean(construction.hasDeck),
+    reportType,
+  };
+}
+
+/**
+ * Why a condition excludes the property, or null when it applies. Facts that
+ * are not known never exclude anything.
+ */
+export function conditionMismatch(condition: ChecklistCondition | undefined, facts: PropertyFacts): string | null {
+  if (!condition) return null;
+
+  for (const [field, accepted] of Object.entries(condition.construction || {})) {
+    const value = facts.construction[field];
+    if (typeof value === 'string' && !accepted.includes(value)) {
+      return `${field} is ${value}`;
+    }
+  }
+  if (facts.yearBuilt !== undefined) {
+    if (condition.built_before !== undefined && facts.yearBuilt >= condition.built_before) {
+      return `built in ${facts.yearBuilt}, not before ${condition.built_before}`;
+    }
+    if (condition.built_from !== undefined && facts.yearBuilt < condition.built_from) {
+      return `built in ${facts.yearBuilt}, before ${condition.built_from}`;
+    }
+  }
+  if (condition.has_subfloor !== undefined && facts.hasSubfloor !== undefined
+    && condition.has_subfloor !== facts.hasSubfloor) {
+    return facts.hasSubfloor ? 'has a subfloor' : 'no subfloor';
+  }
+  if (condition.has_deck !== undefined && facts.hasDeck !== undefined
+    && condition.has_deck !== facts.hasDeck) {
+    return facts.hasDeck ? 'has a deck' : 'no deck';
+  }
+  if (condition.report_type && facts.reportType && !condition.report_type.includes(facts.reportType)) {
+    return `${facts.reportType} report`;
+  }
+  return null;
+}
+
+/** Drop items whose conditions do not match, and any requirement on them */
+function applicableItems<T extends ChecklistItem | ChecklistSubarea>(section: T, facts: PropertyFacts): T {
+  const conditions = section.item_conditions || {};
+  const items = section.items.filter(item => conditionMismatch(conditions[item], facts) === null);
+  const resolved: T = { ...section, items };
+  delete resolved.when;
+  delete resolved.item_conditions;
+  if (section.required_items) {
+    resolved.required_items = section.required_items.filter(item => items.includes(item));
+  }
+  return resolved;
+}
+
+/**
+ * The checklist as it applies to this property.
+ */
+export function resolvePlan(checklist: Checklist, facts: PropertyFacts): ChecklistPlan {
+  const skipped: SkippedSection[] = [];
+  const sections: ChecklistItem[] = [];
+
+  for (const section of checklist.sections) {
+    const reason = conditionMismatch(section.when, facts);
+    if (reason) {
+      skipped.push({ id: section.id, name: section.name, reason });
+      continue;
+    }
+
+    const resolved = applicableItems(section, facts);
+    if (section.subareas) {
+      resolved.subareas = section.subareas.filter(subarea => {
+        const subareaReason = conditionMismatch(subarea.when, facts);
+        if (subareaReason) {
+          skipped.push({
+            id: `${section.id}.${subarea.id}`,
+            name: `${section.name} - ${subarea.name}`,
+            reason: subareaReason,
+          });
+        }
+        return subareaReason === null;
+      }).map(subarea => applicableItems(subarea, facts));
+    }
+    sections.push(resolved);
+  }
+
+  return { checklist: { ...checklist, sections }, skipped };
+}
@@ -0,0 +1,159 @@
+/**
+ * Checklist Validation
+ *
+ * Evaluates what a checklist requires before an inspection can be completed:
+ * required metadata fields, required sections and items, and minimum
+ * evidence (findings and photos) per section.
+ */
+
+import type { Inspection, Finding, Photo } from '@prisma/client';
+import type { Checklist, ChecklistItem, SectionRequirements } from './checklist.js';
+
+export type RequirementType = 'metadata' | 'section' | 'item' | 'evidence';
+
+export interface MissingRequirement {
+  type: RequirementType;
+  /** Metadata field, for type 'metadata' */
+  field?: string;
+  /** Section or "section.subarea" ID, for the other types */
+  sectionId?: string;
+  /** Checklist item, for type 'item' */
+  item?: string;
+  message: string;
+}
+
+export interface RequirementsResult {
+  satisfied: boolean;
+  missing: MissingRequirement[];
+}
+
+/** Findings as loaded by the inspection repository, photos included */
+export type FindingWithPhotos = Finding & { photos?: Photo[] };
+
+/**
+ * Thrown when completing an inspection whose checklist requirements are not met
+ */
+export class InspectionIncompleteError extends Error {
+  constructor(public missing: MissingRequirement[]) {
+    super(`Inspection cannot be completed: ${missing.length} requirement(s) outstanding`);
+    this.name = 'InspectionIncompleteError';
+  }
+}
+
+/** Required metadata that lives on the inspection itself rather than in its metadata JSON */
+const INSPECTION_FIELDS: Record<string, (inspection: Inspection) => unknown> = {
+  address: (inspection) => inspection.address,
+  client_name: (inspection) => inspection.clientName,
+  inspector_name: (inspection) => inspection.inspectorName,
+  date: (inspection) => inspection.createdAt,
+};
+
+function isPresent(value: unknown): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'string') return value.trim().length > 0;
+  return true;
+}
+
+/**
+ * A metadata value for the inspection: metadata JSON first, then inspection fields.
+ */
+export function metadataValue(inspection: Inspection, field: string): unknown {
+  const metadata = inspection.metadata;
+  if (metadata && typeof metadata === 'object' && !Array.isArray(metadata) && isPresent(metadata[field])) {
+    return metadata[field];
+  }
+  return INSPECTION_FIELDS[field]?.(inspection);
+}
+
+function humanize(field: string): string {
+  const words = field.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Check a section or subarea against the findings recorded in it. A parent
+ * section counts findings recorded against its subareas too.
+ */
+function checkSection(
+  sectionId: string,
+  sectionName: string,
+  requirements: SectionRequirements,
+  findings: FindingWithPhotos[]
+): MissingRequirement[] {
+  const missing: MissingRequirement[] = [];
+  const inSection = findings.filter(
+    (f) => f.section === sectionId || f.section.startsWith(`${sectionId}.`)
+  );
+
+  if (requirements.required && inSection.length === 0) {
+    missing.push({
+      type: 'section',
+      sectionId,
+      message: `${sectionName}: record at least one finding (a "no issues" note counts)`,
+    });
+  }
+
+  for (const item of requirements.required_items ?? []) {
+    if (!inSection.some((f) => f.item === item)) {
+      missing.push({
+        type: 'item',
+        sectionId,
+        item,
+        message: `${sectionName}: no finding recorded for "${item}"`,
+      });
+    }
+  }
+
+  const minFindings = requirements.evidence?.min_findings ?? 0;
+  if (inSection.length < minFindings) {
+    missing.push({
+      type: 'evidence',
+      sectionId,
+      message: `${sectionName}: ${minFindings} finding(s) required, ${inSection.length} recorded`,
+    });
+  }
+
+  const minPhotos = requirements.evidence?.min_photos ?? 0;
+  const photos = inSection.reduce((count, f) => count + (f.photos?.length ?? 0), 0);
+  if (photos < minPhotos) {
+    missing.push({
+      type: 'evidence',
+      sectionId,
+      message: `${sectionName}: ${minPhotos} photo(s) required, ${photos} attached`,
+    });
+  }
+
+  return missing;
+}
+
+/**
+ * Everything the checklist still requires of the inspection, in checklist order.
+ */
+export function validateInspection(
+  checklist: Checklist,
+  inspection: Inspection,
+  findings: FindingWithPhotos[]
+): RequirementsResult {
+  const missing: MissingRequirement[] = [];
+
+  for (const field of checklist.metadata?.required ?? []) {
+    if (!isPresent(metadataValue(inspection, field))) {
+      missing.push({ type: 'metadata', field, message: `${humanize(field)} is required` });
+    }
+  }
+
+  const visit = (section: ChecklistItem): void => {
+    missing.push(...checkSection(section.id, section.name, section, findings));
+    for (const subarea of section.subareas ?? []) {
+      missing.push(...checkSection(
+        `${section.id}.${subarea.id}`,
+        `${section.name} - ${subarea.name}`,
+        subarea,
+        findings
+      ));
+    }
+  };
+  checklist.sections.forEach(visit);
+
+  return { satisfied: missing.length === 0, missing };
+}
@@ -1,7 +1,9 @@
 /**
  * Checklist Service
  * 
- * Loads and manages inspection checklists from config files.
+ * Loads inspection checklists from config files. The YAML files only seed
+ * the checklist definitions in the database (see checklist-definition.ts);
+ * this module also holds the checklist shape and its validation.
  */
 
 import { readFileSync, readdirSync, existsSync } from 'node:fs';
@@ -12,22 +14,62 @@ import { parse as parseYaml } from 'yaml';
 // Types
 // ============================================================================
 
-export interface ChecklistItem {
+/** Minimum evidence recorded in a section (including its subareas) before completion */
+export interface SectionEvidence {
+  min_findings?: number;
+  min_photos?: number;
+}
+
+/**
+ * Property facts a section, subarea or item applies to. Every key given must
+ * match; a fact that is not known counts as a match, so nothing is skipped
+ * on missing data. See checklist-plan.ts.
+ */
+export interface ChecklistCondition {
+  /** Property.construction field -> accepted values, e.g. { foundationType: [TIMBER_PILES] } */
+  construction?: Record<string, string[]>;
+  /** Built before this year */
+  built_before?: number;
+  /** Built in or after this year */
+  built_from?: number;
+  has_subfloor?: boolean;
+  has_deck?: boolean;
+  report_type?: string[];
+}
+
+/** Completion requirements a section or subarea may declare */
+export interface SectionRequirements {
+  /** At least one finding must be recorded */
+  required?: boolean;
+  /** Items that must each be covered by a finding naming the item */
+  required_items?: string[];
+  evidence?: SectionEvidence;
+}
+
+export interface ChecklistItem extends SectionRequirements {
   id: string;
   name: string;
   prompt: string;
   items: string[];
   subareas?: ChecklistSubarea[];
   report_section?: number;
+  when?: ChecklistCondition;
+  /** Conditions for individual items, by item name */
+  item_conditions?: Record<string, ChecklistCondition>;
 }
 
-export interface ChecklistSubarea {
+export interface ChecklistSubarea extends SectionRequirements {
   id: string;
   name: string;
   prompt: string;
   items: string[];
+  when?: ChecklistCondition;
+  item_conditions?: Record<string, ChecklistCondition>;
 }
 
+/** A checklist item as written: a name, or a name with a condition */
+export type RawItem = string | { name: string; when: ChecklistCondition };
+
 export interface ChecklistMetadata {
   required: string[];
   optional: string[];
@@ -43,14 +85,197 @@ export interface Checklist {
   conclusions?: Record<string, string>;
 }
 
-/** Raw section shape from YAML before normalization */
-interface RawSection {
+/** Raw section shape from YAML or the authoring API before normalization */
+export interface RawSection extends SectionRequirements {
   id: string;
   name: string;
   prompt?: string;
-  items?: string[];
+  items?: RawItem[];
   subareas?: RawSection[];
   report_section?: number;
+  when?: ChecklistCondition;
+  item_conditions?: Record<string, ChecklistCondition>;
+}
+
+/** Raw checklist shape from YAML or the authoring API before normalization */
+export interface RawChecklist {
+  name?: string;
+  version?: string;
+  standard?: string;
+  metadata?: Partial<ChecklistMetadata>;
+  sections?: RawSection[];
+  conclusions?: Record<string, string>;
+}
+
+// ============================================================================
+// Normalization and Validation
+// ============================================================================
+
+function normalizeRequirements(section: RawSection): SectionRequirements {
+  const requirements: SectionRequirements = {};
+  if (section.required) requirements.required = true;
+  if (section.required_items?.length) requirements.required_items = section.required_items;
+  if (section.evidence) requirements.evidence = section.evidence;
+  return requirements;
+}
+
+/**
+ * Split items into names and per-item conditions. Conditions already split
+ * out (a normalized checklist fed back in) are kept.
+ */
+function normalizeItems(section: RawSection): Pick<ChecklistItem, 'items' | 'when' | 'item_conditions'> {
+  const items: string[] = [];
+  const conditions: Record<string, ChecklistCondition> = { ...section.item_conditions };
+  for (const item of section.items || []) {
+    if (typeof item === 'string') {
+      items.push(item);
+    } else {
+      items.push(item.name);
+      conditions[item.name] = item.when;
+    }
+  }
+
+  const normalized: Pick<ChecklistItem, 'items' | 'when' | 'item_conditions'> = { items };
+  if (section.when) normalized.when = section.when;
+  if (Object.keys(conditions).length > 0) normalized.item_conditions = conditions;
+  return normalized;
+}
+
+/**
+ * Fill in defaults so every section has a prompt and an items list
+ */
+export function normalizeChecklist(id: string, data: RawChecklist): Checklist {
+  return {
+    id,
+    name: data.name || id,
+    version: data.version || '1.0',
+    standard: data.standard,
+    metadata: data.metadata
+      ? { required: data.metadata.required || [], optional: data.metadata.optional || [] }
+      : undefined,
+    sections: (data.sections || []).map(section => ({
+      id: section.id,
+      name: section.name,
+      prompt: section.prompt || `Check ${section.name.toLowerCase()}.`,
+      ...normalizeItems(section),
+      ...normalizeRequirements(section),
+      subareas: section.subareas?.map((sub: RawSection) => ({
+        id: sub.id,
+        name: sub.name,
+        prompt: sub.prompt || `Check ${sub.name.toLowerCase()}.`,
+        ...normalizeItems(sub),
+        ...normalizeRequirements(sub),
+      })),
+      report_section: section.report_section,
+    })),
+    conclusions: data.conclusions,
+  };
+}
+
+/** Section IDs appear in finding sections as "section.subarea", so no dots */
+const SECTION_ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+function sectionProblems(section: ChecklistItem | ChecklistSubarea, label: string): string[] {
+  const problems: string[] = [];
+  if (!SECTION_ID_PATTERN.test(section.id)) {
+    problems.push(`${label}: id must be lower case letters, digits and underscores`);
+  }
+  if (new Set(section.items).size !== section.items.length) {
+    problems.push(`${label}: duplicate items`);
+  }
+  const unknown = (section.required_items || []).filter(item => !section.items.includes(item));
+  if (unknown.length > 0) {
+    problems.push(`${label}: required items not in items: ${unknown.join(', ')}`);
+  }
+  for (const [name, value] of Object.entries(section.evidence || {})) {
+    if (!Number.isInteger(value) || value < 0) {
+      problems.push(`${label}: evidence.${name} must be a whole number`);
+    }
+  }
+  if (section.when) {
+    problems.push(...conditionProblems(section.when, label));
+  }
+  for (const [item, condition] of Object.entries(section.item_conditions || {})) {
+    if (!section.items.includes(item)) {
+      problems.push(`${label}: condition for unknown item: ${item}`);
+    }
+    problems.push(...conditionProblems(condition, `${label} item "${item}"`));
+  }
+  return problems;
+}
+
+const CONDITION_KEYS = ['construction', 'built_before', 'built_from', 'has_subfloor', 'has_deck', 'report_type'];
+const REPORT_TYPES = ['COA', 'CCC_GAP', 'PPI', 'SAFE_SANITARY', 'TFA'];
+
+function conditionProblems(condition: ChecklistCondition, label: string): string[] {
+  const problems: string[] = [];
+  for (const key of Object.keys(condition)) {
+    if (!CONDITION_KEYS.includes(key)) {
+      problems.push(`${label}: unknown condition: ${key}`);
+    }
+  }
+  for (const key of ['built_before', 'built_from'] as const) {
+    const year = condition[key];
+    if (year !== undefined && (!Number.isInteger(year) || year < 1800)) {
+      problems.push(`${label}: ${key} must be a year`);
+    }
+  }
+  const unknown = (condition.report_type || []).filter(type => !REPORT_TYPES.includes(type));
+  if (unknown.length > 0) {
+    problems.push(`${label}: unknown report types: ${unknown.join(', ')}`);
+  }
+  return problems;
+}
+
+function duplicates(ids: string[]): string[] {
+  return [...new Set(ids.filter((id, i) => ids.indexOf(id) !== i))];
+}
+
+/**
+ * Structural problems with a checklist; empty when it is valid
+ */
+export function checklistProblems(checklist: Checklist): string[] {
+  const problems: string[] = [];
+  if (checklist.sections.length === 0) {
+    problems.push('Checklist has no sections');
+  }
+  for (const id of duplicates(checklist.sections.map(s => s.id))) {
+    problems.push(`Duplicate section id: ${id}`);
+  }
+  for (const section of checklist.sections) {
+    problems.push(...sectionProblems(section, `Section ${section.id}`));
+    const subareas = section.subareas || [];
+    for (const id of duplicates(subareas.map(s => s.id))) {
+      problems.push(`Section ${section.id}: duplicate subarea id: ${id}`);
+    }
+    for (const subarea of subareas) {
+      problems.push(...sectionProblems(subarea, `Section ${section.id}.${subarea.id}`));
+    }
+  }
+  return problems;
+}
+
+/**
+ * All sections, flattened with subareas as "section.subarea"
+ */
+export function flattenSections(checklist: Checklist): Array<{ id: string; name: string }> {
+  const sections: Array<{ id: string; name: string }> = [];
+  
+  for (const section of checklist.sections) {
+    sections.push({ id: section.id, name: section.name });
+    
+    // Add subareas if present
+    if (section.subareas) {
+      for (const subarea of section.subareas) {
+        sections.push({ 
+          id: `${section.id}.${subarea.id}`, 
+          name: `${section.name} - ${subarea.name}` 
+        });
+      }
+    }
+  }
+
+  return sections;
 }
 
 // ============================================================================
@@ -92,15 +317,12 @@ class ChecklistService {
         // Generate ID from filename (e.g., nz-ppi.yaml -> nz-ppi)
         const id = basename(file, '.yaml').replace('.yml', '');
         
-        const checklist: Checklist = {
-          id,
-          name: data.name || id,
-          version: data.version || '1.0',
-          standard: data.standard,
-          metadata: data.metadata,
-          sections: this.normalizeSections(data.sections || []),
-          conclusions: data.conclusions,
-        };
+        const checklist = normalizeChecklist(id, data);
+        const problems = checklistProblems(checklist);
+        if (problems.length > 0) {
+          console.error(`Invalid checklist ${file}: ${problems.join('; ')}`);
+          continue;
+        }
 
         this.checklists.set(id, checklist);
         console.error(`Loaded checklist: ${id} (${checklist.sections.length} sections)`);
@@ -112,25 +334,6 @@ class ChecklistService {
     this.loaded = true;
   }
 
-  /**
-   * Normalize sections to ensure consistent structure
-   */
-  private normalizeSections(sections: RawSection[]): ChecklistItem[] {
-    return sections.map(section => ({
-      id: section.id,
-      name: section.name,
-      prompt: section.prompt || `Check ${section.name.toLowerCase()}.`,
-      items: section.items || [],
-      subareas: section.subareas?.map((sub: RawSection) => ({
-        id: sub.id,
-        name: sub.name,
-        prompt: sub.prompt || `Check ${sub.name.toLowerCase()}.`,
-        items: sub.items || [],
-      })),
-      report_section: section.report_section,
-    }));
-  }
-
   /**
    * Get a checklist by ID
    */
@@ -186,25 +389,15 @@ class ChecklistService {
    */
   getAllSections(checklistId: string): Array<{ id: string; name: string }> {
     const checklist = this.getChecklist(checklistId);
-    if (!checklist) return [];
-
-    const sections: Array<{ id: string; name: string }> = [];
-    
-    for (const section of checklist.sections) {
-      sections.push({ id: section.id, name: section.name });
-      
-      // Add subareas if present
-      if (section.subareas) {
-        for (const subarea of section.subareas) {
-          sections.push({ 
-            id: `${section.id}.${subarea.id}`, 
-            name: `${section.name} - ${subarea.name}` 
-          });
-        }
-      }
-    }
+    return checklist ? flattenSections(checklist) : [];
+  }
 
-    return sections;
+  /**
+   * Get every loaded checklist, to seed the database
+   */
+  getAll(): Checklist[] {
+    this.loadChecklists();
+    return Array.from(this.checklists.values());
   }
 }
 
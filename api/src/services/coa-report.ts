@@ -0,0 +1,573 @@
+/**
+ * COA Report Generation Service — Issue #149
+ *
+ * Assembles a Certificate of Acceptance report for a project from its
+ * site inspections, clause reviews, documents and photos.
+ * See: docs/design/008-coa-report-generation.md
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import * as path from 'node:path';
+import Handlebars from 'handlebars';
+import type { Report, Document } from '@prisma/client';
+import type {
+  IProjectReportRepository,
+  ProjectReportData,
+} from '../repositories/interfaces/project-report.js';
+import type { DocumentService } from './document.js';
+import { ProjectNotFoundError } from './project.js';
+import { renderHtmlToPdf } from './pdf-renderer.js';
+import { renderDocx, type DocxBlock } from './docx-renderer.js';
+import { buildAppendixPdf, appendPdf } from './document-appendix.js';
+import { readDocumentFile } from './document-storage.js';
+import { ReportGenerationError, ReportNotFoundError, type ReportFormat } from './report.js';
+import {
+  PHOTO_SOURCE_LABELS,
+  defaultPhotoSrc,
+  formatDate,
+  formatPhotoRefs,
+  siteValue,
+  type PhotoSrcResolver,
+} from './report-helpers.js';
+
+type ClauseReviewData = ProjectReportData['siteInspections'][number]['clauseReviews'][number];
+
+export interface CoaClauseRow {
+  code: string;
+  title: string;
+  category: string;
+  applicability: 'Applicable' | 'N/A';
+  naReason: string | null;
+  photoRefs: string;
+  observations: string;
+  docsProvided: string[];
+  docsRequired: string;
+  complianceText: string;
+  remedialWorks: string;
+  rowClass: 'clause-applicable' | 'clause-na';
+}
+
+export interface CoaPhoto {
+  number: number;
+  caption: string;
+  source: string;
+  src: string;
+}
+
+export interface CoaAppendixDocument {
+  letter: string;
+  title: string;
+  documentType: string;
+  filename: string;
+  issuer: string | null;
+  issuedAt: string | null;
+  referenceNumber: string | null;
+}
+
+export interface CoaReportContext {
+  project: {
+    jobNumber: string;
+    activity: string;
+    address: string;
+    client: string;
+    council: string;
+  };
+  inspection: {
+    date: string;
+    weather: string;
+    inspectors: string[];
+  };
+  property: {
+    lotDp: string;
+    councilId: string;
+    bcNumber: string;
+    yearBuilt: string;
+    zones: { wind: string; earthquake: string; exposure: string };
+    buildingHistory: Array<{ type: string; reference: string; year: number; status: string }>;
+  };
+  methodology: {
+    description: string;
+    equipment: string[];
+    areasNotAccessed: string;
+    documentsReviewed: string[];
+  };
+  summary: {
+    applicable: number;
+    na: number;
+    remedialCount: number;
+    conclusion: string;
+  };
+  clauseReviews: CoaClauseRow[];
+  remedialItems: Array<{ item: number; code: string; description: string }>;
+  appendices: {
+    photos: CoaPhoto[];
+    documents: CoaAppendixDocument[];
+  };
+  generatedDate: string;
+}
+
+export interface CoaReadiness {
+  canFinalize: boolean;
+  blockers: string[];
+  issues: string[];
+}
+
+export interface CoaReportServiceOptions {
+  templatePath?: string;
+  outputDir?: string;
+  /** Resolve a photo to an image src the renderers can load (file:// or presigned URL) */
+  resolvePhotoSrc?: PhotoSrcResolver;
+  /** Read a stored document for the merged appendices */
+  readDocumentFile?: (key: string) => Promise<Buffer>;
+}
+
+export interface CoaGenerateOptions {
+  /** Append the merged document appendices to the PDF */
+  attachAppendices?: boolean;
+}
+
+const REPORT_TITLE = 'Certificate of Acceptance Report';
+
+export class CoaReportService {
+  private templatePath: string;
+  private outputDir: string;
+  private resolvePhotoSrc: PhotoSrcResolver;
+  private readDocumentFile: (key: string) => Promise<Buffer>;
+
+  constructor(
+    private repository: IProjectReportRepository,
+    private documentService: DocumentService,
+    options: CoaReportServiceOptions = {}
+  ) {
+    const projectRoot = path.resolve(process.cwd(), '..');
+    this.templatePath = options.templatePath || path.join(projectRoot, 'templates', 'reports', 'coa-report.html');
+    this.outputDir = options.outputDir || process.env.REPORT_DIR || path.join(projectRoot, 'data', 'reports');
+    this.resolvePhotoSrc = options.resolvePhotoSrc || defaultPhotoSrc;
+    this.readDocumentFile = options.readDocumentFile || readDocumentFile;
+  }
+
+  /**
+   * Generate a COA report (PDF or DOCX) for a project. New reports start in DRAFT.
+   * Document appendices can only be attached to PDFs.
+   */
+  async generate(
+    projectId: string,
+    preparedById?: string,
+    format: ReportFormat = 'pdf',
+    options: CoaGenerateOptions = {}
+  ): Promise<Report> {
+    const context = await this.buildContext(projectId);
+
+    if (!existsSync(this.outputDir)) {
+      mkdirSync(this.outputDir, { recursive: true });
+    }
+
+    const baseName = `coa-${projectId}-${Date.now()}`;
+    const outputPath = path.join(this.outputDir, `${baseName}.${format}`);
+
+    if (format === 'docx') {
+      await renderDocx(this.buildDocxBlocks(context), outputPath, { headerTitle: REPORT_TITLE });
+    } else {
+      const html = this.compileTemplate()(context);
+
+      // Write HTML alongside the PDF for debugging
+      writeFileSync(path.join(this.outputDir, `${baseName}.html`), html);
+      await renderHtmlToPdf(html, outputPath, { headerTitle: REPORT_TITLE });
+
+      if (options.attachAppendices) {
+        const documents = await this.documentService.findByProjectId(projectId);
+        const appendices = await buildAppendixPdf(documents, this.readDocumentFile);
+        writeFileSync(outputPath, await appendPdf(readFileSync(outputPath), appendices));
+      }
+    }
+
+    return this.repository.createReport({
+      projectId,
+      type: 'COA',
+      format,
+      path: outputPath,
+      preparedById,
+    });
+  }
+
+  /**
+   * Render the report HTML (used for generation and preview).
+   */
+  async renderHtml(projectId: string): Promise<string> {
+    const context = await this.buildContext(projectId);
+    return this.compileTemplate()(context);
+  }
+
+  async buildContext(projectId: string): Promise<CoaReportContext> {
+    const data = await this.loadProject(projectId);
+    return this.prepareContext(data);
+  }
+
+  /**
+   * Check whether the project's report can be finalised.
+   * Blockers come from outstanding documents; issues are content gaps.
+   */
+  async checkReadiness(projectId: string): Promise<CoaReadiness> {
+    const data = await this.loadProject(projectId);
+    const { canFinalize, blockers } = await this.documentService.canFinalize(projectId);
+    return { canFinalize, blockers, issues: this.validate(data) };
+  }
+
+  async findByProjectId(projectId: string): Promise<Report[]> {
+    await this.loadProject(projectId);
+    return this.repository.findReportsByProject(projectId);
+  }
+
+  async findById(id: string): Promise<Report> {
+    const report = await this.repository.findReportById(id);
+    if (!report) {
+      throw new ReportNotFoundError(id);
+    }
+    return report;
+  }
+
+  /**
+   * Content checks: applicable clauses need observations, N/A clauses need a
+   * reason and photos need captions.
+   */
+  validate(data: ProjectReportData): string[] {
+    const issues: string[] = [];
+
+    for (const review of this.collectClauseReviews(data)) {
+      if (review.applicability === 'APPLICABLE' && !review.observations?.trim()) {
+        issues.push(`Clause ${review.clause.code} missing observations`);
+      }
+      if (review.applicability === 'NA' && !review.naReason?.trim()) {
+        issues.push(`Clause ${review.clause.code} missing N/A reason`);
+      }
+    }
+
+    for (const photo of data.photos) {
+      if (!photo.caption?.trim()) {
+        issues.push(`Photo ${photo.reportNumber} missing caption`);
+      }
+    }
+
+    if (data.siteInspections.length === 0) {
+      issues.push('Project has no site inspections');
+    }
+
+    return issues;
+  }
+
+  private compileTemplate(): HandlebarsTemplateDelegate<CoaReportContext> {
+    if (!existsSync(this.templatePath)) {
+      throw new ReportGenerationError(`Template not found: ${this.templatePath}`);
+    }
+    return Handlebars.compile<CoaReportContext>(readFileSync(this.templatePath, 'utf-8'));
+  }
+
+  /**
+   * Build the DOCX content, mirroring the sections of the HTML template.
+   */
+  private buildDocxBlocks(context: CoaReportContext): DocxBlock[] {
+    const { project, inspection, property, methodology, summary, appendices } = context;
+
+    const blocks: DocxBlock[] = [
+      {
+        type: 'cover',
+        title: ['CERTIFICATE OF ACCEPTANCE', 'REPORT'],
+        subtitle: project.address,
+        details: [
+          ['Activity', project.activity],
+          ['Client', project.client],
+          ['Inspection Date', inspection.date],
+          ['Job Number', project.jobNumber],
+        ],
+      },
+      { type: 'heading', text: '1. Summary' },
+      {
+        type: 'fields',
+        rows: [
+          ['Job Number', project.jobNumber],
+          ['Property Address', project.address],
+          ['Client', project.client],
+          ['Territorial Authority', project.council],
+          ['Activity', project.activity],
+          ['Inspected By', inspection.inspectors.join(', ')],
+          ['Weather', inspection.weather],
+        ],
+      },
+      { type: 'paragraph', text: `${summary.applicable} clause(s) applicable, ${summary.na} not applicable.` },
+      { type: 'paragraph', text: summary.conclusion, bold: true },
+      { type: 'heading', text: '2. Property Description' },
+      {
+        type: 'fields',
+        rows: [
+          ['Legal Description', property.lotDp],
+          ['Council Property ID', property.councilId],
+          ['Building Consent', property.bcNumber],
+          ['Year Built', property.yearBuilt],
+          ['Wind Zone', property.zones.wind],
+          ['Earthquake Zone', property.zones.earthquake],
+          ['Exposure Zone', property.zones.exposure],
+        ],
+      },
+    ];
+
+    if (property.buildingHistory.length > 0) {
+      blocks.push(
+        { type: 'heading', text: 'Building History', level: 2 },
+        {
+          type: 'fields',
+          rows: property.buildingHistory.map((h): [string, string] => [
+            `${h.type} (${h.year})`,
+            `${h.reference} — ${h.status}`,
+          ]),
+        }
+      );
+    }
+
+    blocks.push(
+      { type: 'heading', text: '3. Methodology' },
+      { type: 'paragraph', text: methodology.description },
+      {
+        type: 'fields',
+        rows: [
+          ['Equipment', methodology.equipment.join(', ') || '-'],
+          ['Areas Not Accessed', methodology.areasNotAccessed],
+          ['Documents Reviewed', methodology.documentsReviewed.join('; ') || '-'],
+        ],
+      },
+      { type: 'heading', text: '4. Building Code Clause Review' },
+      {
+        type: 'table',
+        header: ['Clause', 'Applicability', 'Observations', 'Photos', 'Documents', 'Performance Requirement'],
+        rows: context.clauseReviews.map((row) => [
+          `${row.code}\n${row.title}`,
+          row.naReason ? `${row.applicability}\n${row.naReason}` : row.applicability,
+          row.docsRequired
+            ? `${row.observations}\nDocuments required: ${row.docsRequired}`
+            : row.observations,
+          row.photoRefs,
+          row.docsProvided.join(', '),
+          row.complianceText,
+        ]),
+        shadedRows: context.clauseReviews
+          .map((row, index) => (row.applicability === 'N/A' ? index : -1))
+          .filter((index) => index >= 0),
+      },
+      { type: 'heading', text: '5. Remedial Works' }
+    );
+
+    if (context.remedialItems.length > 0) {
+      blocks.push({
+        type: 'fields',
+        rows: context.remedialItems.map((r): [string, string] => [`${r.item}. Clause ${r.code}`, r.description]),
+      });
+    } else {
+      blocks.push({ type: 'paragraph', text: 'No remedial works are required.' });
+    }
+
+    blocks.push(
+      { type: 'heading', text: '6. Signatures' },
+      { type: 'paragraph', text: '\n\n______________________________\nPrepared by' },
+      { type: 'paragraph', text: '\n\n______________________________\nReviewed by' },
+      { type: 'paragraph', text: `Report generated ${context.generatedDate}`, italic: true }
+    );
+
+    if (appendices.photos.length > 0) {
+      blocks.push(
+        { type: 'pageBreak' },
+        { type: 'heading', text: 'Appendix A — Photographs' },
+        ...appendices.photos.map((photo): DocxBlock => ({
+          type: 'image',
+          src: photo.src,
+          caption: `Photograph ${photo.number}: ${photo.caption} (${photo.source})`,
+        }))
+      );
+    }
+
+    if (appendices.documents.length > 0) {
+      blocks.push(
+        { type: 'pageBreak' },
+        { type: 'heading', text: 'Document Appendices' },
+        {
+          type: 'fields',
+          rows: appendices.documents.map((d): [string, string] => {
+            const lines = [`${d.title} (${d.documentType})`];
+            if (d.issuer) lines.push(`Issued by ${d.issuer}${d.issuedAt ? ` on ${d.issuedAt}` : ''}`);
+            if (d.referenceNumber) lines.push(`Ref: ${d.referenceNumber}`);
+            return [`Appendix ${d.letter}`, lines.join('\n')];
+          }),
+        }
+      );
+    }
+
+    return blocks;
+  }
+
+  private async loadProject(projectId: string): Promise<ProjectReportData> {
+    const data = await this.repository.loadProjectData(projectId);
+    if (!data) {
+      throw new ProjectNotFoundError(projectId);
+    }
+    return data;
+  }
+
+  /**
+   * Clause reviews across all inspections; a later inspection's review of the
+   * same clause replaces an earlier one.
+   */
+  private collectClauseReviews(data: ProjectReportData): ClauseReviewData[] {
+    const byClause = new Map<string, ClauseReviewData>();
+    for (const inspection of data.siteInspections) {
+      for (const review of inspection.clauseReviews) {
+        byClause.set(review.clauseId, review);
+      }
+    }
+
+    return Array.from(byClause.values()).sort((a, b) =>
+      a.clause.category.localeCompare(b.clause.category) ||
+      a.clause.sortOrder - b.clause.sortOrder ||
+      a.clause.code.localeCompare(b.clause.code, undefined, { numeric: true })
+    );
+  }
+
+  private documentLabel(doc: Document): string {
+    return doc.appendixLetter ? `Appendix ${doc.appendixLetter}` : doc.filename;
+  }
+
+  private async prepareContext(data: ProjectReportData): Promise<CoaReportContext> {
+    const { property, client } = data;
+    const photoNumbers = new Map(data.photos.map((p) => [p.id, p.reportNumber]));
+    const documentsById = new Map(data.documents.map((d) => [d.id, d]));
+    const receivedDocuments = data.documents.filter((d) => d.status === 'RECEIVED');
+
+    const clauseReviews: CoaClauseRow[] = this.collectClauseReviews(data).map((review) => {
+      const code = review.clause.code;
+
+      // Photos referenced directly by the review, plus photos tagged with the clause
+      const numbers = new Set<number>();
+      for (const id of review.photoIds) {
+        const number = photoNumbers.get(id);
+        if (number !== undefined) numbers.add(number);
+      }
+      for (const photo of data.photos) {
+        if (photo.linkedClauses.includes(code)) numbers.add(photo.reportNumber);
+      }
+
+      // Documents referenced directly, plus received documents linked to the clause
+      const docs = new Set<string>();
+      for (const id of review.docIds) {
+        const doc = documentsById.get(id);
+        if (doc) docs.add(this.documentLabel(doc));
+      }
+      for (const doc of receivedDocuments) {
+        if (doc.linkedClauses.includes(code)) docs.add(this.documentLabel(doc));
+      }
+
+      const isNA = review.applicability === 'NA';
+      return {
+        code,
+        title: review.clause.title,
+        category: review.clause.category,
+        applicability: isNA ? 'N/A' : 'Applicable',
+        naReason: isNA ? review.naReason : null,
+        photoRefs: formatPhotoRefs(Array.from(numbers).sort((a, b) => a - b)),
+        observations: review.observations || '',
+        docsProvided: Array.from(docs).sort(),
+        docsRequired: review.docsRequired || '',
+        complianceText: review.clause.performanceText,
+        remedialWorks: review.remedialWorks || '',
+        rowClass: isNA ? 'clause-na' : 'clause-applicable',
+      };
+    });
+
+    const remedialItems = clauseReviews
+      .filter((row) => row.remedialWorks.trim() !== '')
+      .map((row, index) => ({ item: index + 1, code: row.code, description: row.remedialWorks }));
+
+    const applicable = clauseReviews.filter((row) => row.applicability === 'Applicable').length;
+    const na = clauseReviews.length - applicable;
+
+    const latestInspection = data.siteInspections[data.siteInspections.length - 1];
+    const inspectors = Array.from(new Set(data.siteInspections.map((i) => i.inspectorName)));
+
+    const photos: CoaPhoto[] = [];
+    for (const photo of data.photos) {
+      photos.push({
+        number: photo.reportNumber,
+        caption: photo.caption,
+        source: PHOTO_SOURCE_LABELS[photo.source] || photo.source,
+        src: await this.resolvePhotoSrc(photo),
+      });
+    }
+
+    const appendixDocuments: CoaAppendixDocument[] = data.documents
+      .filter((d) => d.appendixLetter && d.status === 'RECEIVED')
+      .map((d) => ({
+        letter: d.appendixLetter as string,
+        title: d.description,
+        documentType: d.documentType,
+        filename: d.filename,
+        issuer: d.issuer,
+        issuedAt: d.issuedAt ? formatDate(d.issuedAt) : null,
+        referenceNumber: d.referenceNumber,
+      }))
+      // B…Z before AA, AB…
+      .sort((a, b) => a.letter.length - b.letter.length || a.letter.localeCompare(b.letter));
+
+    const address = [property.streetAddress, property.suburb, property.city]
+      .filter(Boolean)
+      .join(', ');
+
+    return {
+      project: {
+        jobNumber: data.jobNumber,
+        activity: data.activity,
+        address,
+        client: client.name,
+        council: property.territorialAuthority,
+      },
+      inspection: {
+        date: formatDate(latestInspection?.date),
+        weather: latestInspection?.weather || '-',
+        inspectors,
+      },
+      property: {
+        lotDp: property.lotDp || '-',
+        councilId: property.councilPropertyId || '-',
+        bcNumber: property.bcNumber || '-',
+        yearBuilt: property.yearBuilt ? String(property.yearBuilt) : 'Unknown',
+        zones: {
+          wind: siteValue(property.siteData, 'windZone'),
+          earthquake: siteValue(property.siteData, 'earthquakeZone'),
+          exposure: siteValue(property.siteData, 'exposureZone'),
+        },
+        buildingHistory: property.buildingHistory.map((h) => ({
+          type: h.type.replace(/_/g, ' '),
+          reference: h.reference,
+          year: h.year,
+          status: h.status,
+        })),
+      },
+      methodology: {
+        description: latestInspection?.methodology || 'Visual inspection of accessible areas.',
+        equipment: latestInspection?.equipment || [],
+        areasNotAccessed: latestInspection?.areasNotAccessed || 'None recorded',
+        documentsReviewed: receivedDocuments.map((d) => d.description),
+      },
+      summary: {
+        applicable,
+        na,
+        remedialCount: remedialItems.length,
+        conclusion: remedialItems.length > 0
+          ? `${remedialItems.length} item(s) of remedial work are required before the building work can be considered to comply with the Building Code.`
+          : 'On reasonable grounds, the building work inspected complies with the applicable clauses of the Building Code.',
+      },
+      clauseReviews,
+      remedialItems,
+      appendices: {
+        photos,
+        documents: appendixDocuments,
+      },
+      generatedDate: formatDate(new Date()),
+    };
+  }
+}
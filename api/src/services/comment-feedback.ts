@@ -0,0 +1,109 @@
+/**
+ * Comment Feedback Service
+ *
+ * Records which comment-library suggestion an inspector kept for a finding,
+ * or how they reworded it, and summarises that feedback per organisation so
+ * the MCP server can rank suggestions and offer the organisation's own wording.
+ */
+
+import type { CommentFeedback, CommentFeedbackOutcome } from '@prisma/client';
+import type { ICommentFeedbackRepository } from '../repositories/interfaces/comment-feedback.js';
+
+/** Only the most recent feedback counts, so ranking follows current practice */
+export const FEEDBACK_WINDOW = 2000;
+
+/** Edited wordings returned in the summary, most used first */
+const MAX_EDITS = 200;
+
+export interface RecordCommentFeedbackRequest {
+  findingId?: string;
+  section?: string;
+  findingText: string;
+  commentKey?: string;
+  suggestedComment?: string;
+  /** What the inspector kept as matchedComment; omit when they rejected the suggestion */
+  finalComment?: string;
+  rank?: number;
+}
+
+export interface CommentKeyFeedback {
+  commentKey: string;
+  accepted: number;
+  edited: number;
+  rejected: number;
+}
+
+export interface CommentEditFeedback {
+  commentKey: string | null;
+  section: string | null;
+  text: string;
+  /** Finding texts the wording was used for, for similarity matching */
+  findingTexts: string[];
+  count: number;
+}
+
+export interface CommentFeedbackSummary {
+  comments: CommentKeyFeedback[];
+  edits: CommentEditFeedback[];
+}
+
+/**
+ * ACCEPTED when the suggestion was kept as is (ignoring surrounding whitespace),
+ * EDITED when it was reworded or written from scratch, REJECTED when nothing was kept.
+ */
+export function feedbackOutcome(suggestedComment?: string, finalComment?: string): CommentFeedbackOutcome {
+  const kept = finalComment?.trim();
+  if (!kept) return 'REJECTED';
+  return kept === suggestedComment?.trim() ? 'ACCEPTED' : 'EDITED';
+}
+
+export class CommentFeedbackService {
+  constructor(private repository: ICommentFeedbackRepository) {}
+
+  async record(
+    organizationId: string,
+    userId: string | undefined,
+    input: RecordCommentFeedbackRequest
+  ): Promise<CommentFeedback> {
+    return this.repository.create({
+      organizationId,
+      userId,
+      ...input,
+      finalComment: input.finalComment?.trim() || undefined,
+      outcome: feedbackOutcome(input.suggestedComment, input.finalComment),
+    });
+  }
+
+  async summarize(organizationId: string): Promise<CommentFeedbackSummary> {
+    const feedback = await this.repository.findRecentByOrganization(organizationId, FEEDBACK_WINDOW);
+
+    const comments = new Map<string, CommentKeyFeedback>();
+    const edits = new Map<string, CommentEditFeedback>();
+
+    for (const entry of feedback) {
+      if (entry.commentKey) {
+        const counts = comments.get(entry.commentKey)
+          ?? { commentKey: entry.commentKey, accepted: 0, edited: 0, rejected: 0 };
+        if (entry.outcome === 'ACCEPTED') counts.accepted++;
+        else if (entry.outcome === 'EDITED') counts.edited++;
+        else counts.rejected++;
+        comments.set(entry.commentKey, counts);
+      }
+
+      if (entry.outcome === 'EDITED' && entry.finalComment) {
+        const edit = edits.get(entry.finalComment)
+          ?? { commentKey: entry.commentKey, section: entry.section, text: entry.finalComment, findingTexts: [], count: 0 };
+        edit.count++;
+        if (!edit.findingTexts.includes(entry.findingText)) {
+          edit.findingTexts.push(entry.findingText);
+        }
+        edits.set(entry.finalComment, edit);
+      }
+    }
+
+    return {
+      comments: [...comments.values()],
+      edits: [...edits.values()].sort((a, b) => b.count - a.count).slice(0, MAX_EDITS),
+    };
+  }
+}
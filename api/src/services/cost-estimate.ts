@@ -0,0 +1,208 @@
+/**
+ * Cost Estimate Service — Issue #153
+ *
+ * Remediation cost estimates for CCC gap analysis reports: line items,
+ * contingency and GST. Totals are recalculated whenever line items change.
+ * See: docs/design/012-ccc-gap-analysis.md
+ */
+
+import type { CostLineItem } from '@prisma/client';
+import type {
+  ICostEstimateRepository,
+  CreateCostEstimateInput,
+  UpdateCostEstimateInput,
+  CostEstimateTotals,
+  CostEstimateWithLineItems,
+  CreateCostLineItemInput,
+  UpdateCostLineItemInput,
+} from '../repositories/interfaces/cost-estimate.js';
+import type { IProjectRepository } from '../repositories/interfaces/project.js';
+import type { IDefectRepository } from '../repositories/interfaces/defect.js';
+import { ProjectNotFoundError } from './project.js';
+import { DefectNotFoundError } from './defect.js';
+
+export class CostEstimateNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Cost estimate not found: ${id}`);
+    this.name = 'CostEstimateNotFoundError';
+  }
+}
+
+export class CostEstimateExistsError extends Error {
+  constructor(projectId: string) {
+    super(`Project ${projectId} already has a cost estimate`);
+    this.name = 'CostEstimateExistsError';
+  }
+}
+
+export class CostEstimateValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CostEstimateValidationError';
+  }
+}
+
+export class CostLineItemNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Cost line item not found: ${id}`);
+    this.name = 'CostLineItemNotFoundError';
+  }
+}
+
+export const GST_RATE = 0.15;
+export const MAX_CONTINGENCY_RATE = 0.3;
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function lineItemTotal(quantity: number, rate: number): number {
+  return roundCurrency(quantity * rate);
+}
+
+/**
+ * Subtotal of line items, plus contingency, plus GST.
+ */
+export function calculateTotals(
+  lineItems: Array<Pick<CostLineItem, 'total'>>,
+  contingencyRate: number
+): CostEstimateTotals {
+  const subtotal = roundCurrency(lineItems.reduce((sum, item) => sum + item.total, 0));
+  const contingency = roundCurrency(subtotal * contingencyRate);
+  const totalExGst = roundCurrency(subtotal + contingency);
+  const gst = roundCurrency(totalExGst * GST_RATE);
+  return {
+    subtotal,
+    contingency,
+    totalExGst,
+    gst,
+    totalIncGst: roundCurrency(totalExGst + gst),
+  };
+}
+
+function assertContingencyRate(rate: number | undefined): void {
+  if (rate !== undefined && (rate < 0 || rate > MAX_CONTINGENCY_RATE)) {
+    throw new CostEstimateValidationError(
+      `Contingency rate must be between 0 and ${MAX_CONTINGENCY_RATE * 100}%`
+    );
+  }
+}
+
+export class CostEstimateService {
+  constructor(
+    private repository: ICostEstimateRepository,
+    private projectRepository: IProjectRepository,
+    private defectRepository: IDefectRepository
+  ) {}
+
+  /**
+   * Create the project's cost estimate. A project has at most one estimate.
+   */
+  async create(organizationId: string, input: CreateCostEstimateInput): Promise<CostEstimateWithLineItems> {
+    const project = await this.projectRepository.findById(organizationId, input.projectId);
+    if (!project) {
+      throw new ProjectNotFoundError(input.projectId);
+    }
+    if (await this.repository.findByProjectId(input.projectId)) {
+      throw new CostEstimateExistsError(input.projectId);
+    }
+    assertContingencyRate(input.contingencyRate);
+
+    const estimate = await this.repository.create(input);
+    return this.repository.saveTotals(estimate.id, calculateTotals([], estimate.contingencyRate));
+  }
+
+  async findById(id: string): Promise<CostEstimateWithLineItems> {
+    const estimate = await this.repository.findById(id);
+    if (!estimate) {
+      throw new CostEstimateNotFoundError(id);
+    }
+    return estimate;
+  }
+
+  async findByProjectId(projectId: string): Promise<CostEstimateWithLineItems> {
+    const estimate = await this.repository.findByProjectId(projectId);
+    if (!estimate) {
+      throw new CostEstimateNotFoundError(`project ${projectId}`);
+    }
+    return estimate;
+  }
+
+  async update(id: string, input: UpdateCostEstimateInput): Promise<CostEstimateWithLineItems> {
+    await this.findById(id);
+    assertContingencyRate(input.contingencyRate);
+
+    const estimate = await this.repository.update(id, input);
+    return input.contingencyRate !== undefined ? this.recalculate(id) : estimate;
+  }
+
+  /**
+   * Recalculate and store totals from the current line items.
+   */
+  async recalculate(id: string): Promise<CostEstimateWithLineItems> {
+    const estimate = await this.findById(id);
+    return this.repository.saveTotals(id, calculateTotals(estimate.lineItems, estimate.contingencyRate));
+  }
+
+  // ============================================
+  // Line items
+  // ============================================
+
+  /**
+   * Add a line item; the total is quantity × rate and item numbers are sequential.
+   */
+  async addLineItem(
+    estimateId: string,
+    input: Omit<CreateCostLineItemInput, 'estimateId' | 'itemNumber' | 'total'>
+  ): Promise<CostEstimateWithLineItems> {
+    const estimate = await this.findById(estimateId);
+    if (input.defectId) {
+      await this.assertDefectExists(input.defectId);
+    }
+
+    const itemNumber = estimate.lineItems.reduce((max, item) => Math.max(max, item.itemNumber), 0) + 1;
+    await this.repository.createLineItem({
+      ...input,
+      estimateId,
+      itemNumber,
+      sortOrder: input.sortOrder ?? itemNumber,
+      total: lineItemTotal(input.quantity, input.rate),
+    });
+
+    return this.recalculate(estimateId);
+  }
+
+  async updateLineItem(id: string, input: Omit<UpdateCostLineItemInput, 'total'>): Promise<CostEstimateWithLineItems> {
+    const existing = await this.findLineItem(id);
+    if (input.defectId) {
+      await this.assertDefectExists(input.defectId);
+    }
+
+    await this.repository.updateLineItem(id, {
+      ...input,
+      total: lineItemTotal(input.quantity ?? existing.quantity, input.rate ?? existing.rate),
+    });
+
+    return this.recalculate(existing.estimateId);
+  }
+
+  async deleteLineItem(id: string): Promise<CostEstimateWithLineItems> {
+    const existing = await this.findLineItem(id);
+    await this.repository.deleteLineItem(id);
+    return this.recalculate(existing.estimateId);
+  }
+
+  private async findLineItem(id: string): Promise<CostLineItem> {
+    const item = await this.repository.findLineItemById(id);
+    if (!item) {
+      throw new CostLineItemNotFoundError(id);
+    }
+    return item;
+  }
+
+  private async assertDefectExists(defectId: string): Promise<void> {
+    if (!(await this.defectRepository.findById(defectId))) {
+      throw new DefectNotFoundError(defectId);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Defect Service — Issue #153
+ *
+ * Structured defect records for CCC gap analysis inspections.
+ * See: docs/design/012-ccc-gap-analysis.md
+ */
+
+import type {
+  IDefectRepository,
+  CreateDefectInput,
+  UpdateDefectInput,
+  DefectSearchParams,
+  DefectWithRelations,
+} from '../repositories/interfaces/defect.js';
+
+export class DefectNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Defect not found: ${id}`);
+    this.name = 'DefectNotFoundError';
+  }
+}
+
+export class DefectValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DefectValidationError';
+  }
+}
+
+/**
+ * Format a defect number: 1 → "D-001"
+ */
+export function formatDefectNumber(n: number): string {
+  return `D-${String(n).padStart(3, '0')}`;
+}
+
+function parseDefectNumber(defectNumber: string): number {
+  const match = /^D-(\d+)$/.exec(defectNumber);
+  return match ? Number(match[1]) : 0;
+}
+
+export class DefectService {
+  constructor(private repository: IDefectRepository) {}
+
+  /**
+   * Create a defect. Defect numbers are assigned sequentially per inspection.
+   */
+  async create(input: Omit<CreateDefectInput, 'defectNumber' | 'sortOrder'>): Promise<DefectWithRelations> {
+    const existing = await this.repository.findByInspectionId(input.inspectionId);
+    const next = existing.reduce((max, d) => Math.max(max, parseDefectNumber(d.defectNumber)), 0) + 1;
+    const sortOrder = existing.reduce((max, d) => Math.max(max, d.sortOrder), -1) + 1;
+
+    return this.repository.create({
+      ...input,
+      defectNumber: formatDefectNumber(next),
+      sortOrder,
+    });
+  }
+
+  async findById(id: string): Promise<DefectWithRelations> {
+    const defect = await this.repository.findById(id);
+    if (!defect) {
+      throw new DefectNotFoundError(id);
+    }
+    return defect;
+  }
+
+  async findByInspectionId(inspectionId: string, params?: DefectSearchParams): Promise<DefectWithRelations[]> {
+    return this.repository.findByInspectionId(inspectionId, params);
+  }
+
+  async update(id: string, input: UpdateDefectInput): Promise<DefectWithRelations> {
+    await this.findById(id);
+    return this.repository.update(id, input);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.findById(id);
+    await this.repository.delete(id);
+  }
+
+  /**
+   * Reorder an inspection's defects and renumber them D-001, D-002, … in the new order.
+   * Every defect in the inspection must be listed exactly once.
+   */
+  async reorder(inspectionId: string, defectIds: string[]): Promise<DefectWithRelations[]> {
+    const existing = await this.repository.findByInspectionId(inspectionId);
+    const existingIds = new Set(existing.map((d) => d.id));
+
+    if (
+      new Set(defectIds).size !== defectIds.length ||
+      defectIds.length !== existingIds.size ||
+      defectIds.some((id) => !existingIds.has(id))
+    ) {
+      throw new DefectValidationError('Reorder must list every defect in the inspection exactly once');
+    }
+
+    await this.repository.renumber(
+      inspectionId,
+      defectIds.map((id, index) => ({ id, sortOrder: index, defectNumber: formatDefectNumber(index + 1) }))
+    );
+
+    return this.repository.findByInspectionId(inspectionId);
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Document Appendices
+ *
+ * Received documents become report appendices, lettered from B (Appendix A is
+ * the inspection photographs) in the standard order: drawings, construction
+ * reports, electrical certificates, producer statements, warranties, then
+ * everything else; within a group by the project's document order. Letters
+ * are reassigned whenever documents are added, changed, removed or reordered.
+ *
+ * The merged appendix PDF has a cover page per appendix followed by the
+ * stored document's pages, ready to attach to a generated report.
+ */
+
+import { PDFDocument, StandardFonts, type PDFFont, type PDFImage, type PDFPage } from 'pdf-lib';
+import type { Document, DocumentType } from '@prisma/client';
+import { isStoredDocument, readDocumentFile } from './document-storage.js';
+
+export interface AppendixGroup {
+  title: string;
+  types: DocumentType[];
+}
+
+export const APPENDIX_GROUPS: AppendixGroup[] = [
+  { title: 'Drawings', types: ['DRAWING'] },
+  { title: 'Construction Reports', types: ['REPORT', 'FLOOD_TEST'] },
+  { title: 'Electrical Certificates', types: ['COC', 'ESC'] },
+  { title: 'Producer Statements', types: ['PS1', 'PS2', 'PS3', 'PS4'] },
+  { title: 'Warranties', types: ['WARRANTY'] },
+  { title: 'Other Documents', types: ['PROPERTY_FILE', 'INVOICE', 'OTHER'] },
+];
+
+/** Letters after the first 25 (B–Z) run AA, AB… to fit the two-character column */
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const SINGLE_LETTERS = LETTERS.length - 1;
+const MAX_APPENDICES = SINGLE_LETTERS + LETTERS.length * LETTERS.length;
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+
+type ReadFile = (key: string) => Promise<Buffer>;
+
+/** What follows an appendix cover: the document's pages, an image, or a note on the cover */
+type AppendixContents = { pages: PDFPage[] } | { image: PDFImage } | { note: string };
+
+/**
+ * The appendix letter for the n-th (zero-based) document appendix
+ */
+export function appendixLetter(index: number): string {
+  if (index < 0 || index >= MAX_APPENDICES) {
+    throw new RangeError(`No appendix letter for index ${index}`);
+  }
+  if (index < SINGLE_LETTERS) {
+    return LETTERS[index + 1];
+  }
+  const overflow = index - SINGLE_LETTERS;
+  return LETTERS[Math.floor(overflow / LETTERS.length)] + LETTERS[overflow % LETTERS.length];
+}
+
+export function appendixGroup(type: DocumentType): AppendixGroup {
+  return APPENDIX_GROUPS.find((group) => group.types.includes(type)) ?? APPENDIX_GROUPS[APPENDIX_GROUPS.length - 1];
+}
+
+/**
+ * Received documents in appendix order
+ */
+export function appendixOrder<T extends Pick<Document, 'documentType' | 'status' | 'sortOrder' | 'createdAt'>>(documents: T[]): T[] {
+  const groupIndex = (type: DocumentType) => APPENDIX_GROUPS.indexOf(appendixGroup(type));
+
+  return documents
+    .filter((doc) => doc.status === 'RECEIVED')
+    .sort((a, b) =>
+      groupIndex(a.documentType) - groupIndex(b.documentType) ||
+      a.sortOrder - b.sortOrder ||
+      a.createdAt.getTime() - b.createdAt.getTime()
+    );
+}
+
+/**
+ * The letter each document should have; documents that are not received
+ * (required, outstanding, N/A) have none.
+ */
+export function assignAppendixLetters(documents: Document[]): Map<string, string | null> {
+  const letters = new Map<string, string | null>(documents.map((doc) => [doc.id, null]));
+  appendixOrder(documents).forEach((doc, index) => letters.set(doc.id, appendixLetter(index)));
+  return letters;
+}
+
+/** Standard fonts only cover Latin-1: strip macrons and drop anything else */
+function printable(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '');
+}
+
+function wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of printable(text).split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, size) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function addCoverPage(pdf: PDFDocument, doc: Document, fonts: { regular: PDFFont; bold: PDFFont }, note?: string): void {
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const width = PAGE_WIDTH - MARGIN * 2;
+  let y = PAGE_HEIGHT / 2 + 120;
+
+  const centred = (text: string, size: number, font: PDFFont) => {
+    for (const line of wrap(text, font, size, width)) {
+      page.drawText(line, { x: (PAGE_WIDTH - font.widthOfTextAtSize(line, size)) / 2, y, size, font });
+      y -= size * 1.4;
+    }
+  };
+
+  centred(`APPENDIX ${doc.appendixLetter}`, 32, fonts.bold);
+  y -= 12;
+  centred(doc.description, 16, fonts.bold);
+  centred(appendixGroup(doc.documentType).title, 12, fonts.regular);
+  y -= 24;
+
+  const details: Array<[string, string | null]> = [
+    ['Document type', doc.documentType.replace(/_/g, ' ')],
+    ['Issued by', doc.issuer],
+    ['Date of issue', doc.issuedAt ? doc.issuedAt.toISOString().slice(0, 10) : null],
+    ['Reference', doc.referenceNumber],
+    ['File', doc.filename],
+  ];
+  for (const [label, value] of details) {
+    if (!value) continue;
+    centred(`${label}: ${value}`, 11, fonts.regular);
+  }
+
+  if (note) {
+    y -= 24;
+    centred(note, 11, fonts.bold);
+  }
+}
+
+function addImagePage(pdf: PDFDocument, image: PDFImage): void {
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const scaled = image.scaleToFit(PAGE_WIDTH - MARGIN * 2, PAGE_HEIGHT - MARGIN * 2);
+  page.drawImage(image, {
+    x: (PAGE_WIDTH - scaled.width) / 2,
+    y: (PAGE_HEIGHT - scaled.height) / 2,
+    width: scaled.width,
+    height: scaled.height,
+  });
+}
+
+/**
+ * Load the stored file's pages, or explain on the cover why they are missing
+ */
+async function loadContents(pdf: PDFDocument, doc: Document, readFile: ReadFile): Promise<AppendixContents> {
+  if (!isStoredDocument(doc.filePath)) {
+    return { note: 'Document not uploaded' };
+  }
+
+  try {
+    const buffer = await readFile(doc.filePath);
+    switch (doc.mimeType) {
+      case 'application/pdf': {
+        const source = await PDFDocument.load(buffer, { ignoreEncryption: true });
+        return { pages: await pdf.copyPages(source, source.getPageIndices()) };
+      }
+      case 'image/jpeg':
+        return { image: await pdf.embedJpg(buffer) };
+      case 'image/png':
+        return { image: await pdf.embedPng(buffer) };
+      default:
+        return { note: `Supplied separately as ${doc.filename}` };
+    }
+  } catch (error) {
+    console.error(`Could not merge document ${doc.id} into appendices:`, error);
+    return { note: 'This document could not be included; see the original file' };
+  }
+}
+
+/**
+ * Merge the received documents into one appendix PDF: a cover page per
+ * appendix followed by the document's pages. Documents without a letter are
+ * left out.
+ */
+export async function buildAppendixPdf(documents: Document[], readFile: ReadFile = readDocumentFile): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  for (const doc of appendixOrder(documents).filter((d) => d.appendixLetter)) {
+    const contents = await loadContents(pdf, doc, readFile);
+    addCoverPage(pdf, doc, fonts, 'note' in contents ? contents.note : undefined);
+
+    if ('pages' in contents) {
+      contents.pages.forEach((page) => pdf.addPage(page));
+    } else if ('image' in contents) {
+      addImagePage(pdf, contents.image);
+    }
+  }
+
+  if (pdf.getPageCount() === 0) {
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    page.drawText('No document appendices', { x: MARGIN, y: PAGE_HEIGHT - MARGIN, size: 14, font: fonts.bold });
+  }
+
+  return pdf.save();
+}
+
+/**
+ * Append the appendix pages to a rendered report
+ */
+export async function appendPdf(report: Uint8Array, appendix: Uint8Array): Promise<Uint8Array> {
+  const merged = await PDFDocument.load(report);
+  const source = await PDFDocument.load(appendix);
+  const pages = await merged.copyPages(source, source.getPageIndices());
+  pages.forEach((page) => merged.addPage(page));
+  return merged.save();
+}
@@ -0,0 +1,231 @@
+/**
+ * Document Classifier
+ *
+ * Rule-based detection of what an uploaded document is (PS1–PS4, COC, ESC,
+ * warranty, invoice…) from its text and filename, with the issuer, date and
+ * reference number pre-filled where the text states them. Results below
+ * CONFIRMATION_THRESHOLD are flagged so the office confirms them by hand.
+ */
+
+import type { DocumentType } from '@prisma/client';
+import { CLAUSE_LINKS } from './document.js';
+import { extractPdfText } from './pdf-text.js';
+
+export interface DocumentClassification {
+  documentType: DocumentType;
+  /** 0–1: how strongly the text points at this type over the others */
+  confidence: number;
+  needsConfirmation: boolean;
+  /** The rules that matched, for the office to see why */
+  signals: string[];
+  description?: string;
+  issuer?: string;
+  issuedAt?: Date;
+  referenceNumber?: string;
+  linkedClauses: string[];
+}
+
+interface Rule {
+  type: DocumentType;
+  pattern: RegExp;
+  weight: number;
+  signal: string;
+}
+
+/** Below this the office has to confirm the type */
+export const CONFIRMATION_THRESHOLD = 0.6;
+
+/** Score at which a type is considered certain */
+const CERTAIN_SCORE = 4;
+
+const TEXT_RULES: Rule[] = [
+  { type: 'PS1', pattern: /\bPS\s?1\b/i, weight: 3, signal: 'PS1' },
+  { type: 'PS1', pattern: /producer statement\W+(?:PS\s?\d\W+)?design\b(?!\s+review)/i, weight: 2, signal: 'producer statement - design' },
+  { type: 'PS2', pattern: /\bPS\s?2\b/i, weight: 3, signal: 'PS2' },
+  { type: 'PS2', pattern: /producer statement\W+(?:PS\s?\d\W+)?design review/i, weight: 2, signal: 'producer statement - design review' },
+  { type: 'PS3', pattern: /\bPS\s?3\b/i, weight: 3, signal: 'PS3' },
+  { type: 'PS3', pattern: /producer statement\W+(?:PS\s?\d\W+)?construction\b(?!\s+review)/i, weight: 2, signal: 'producer statement - construction' },
+  { type: 'PS4', pattern: /\bPS\s?4\b/i, weight: 3, signal: 'PS4' },
+  { type: 'PS4', pattern: /producer statement\W+(?:PS\s?\d\W+)?construction review/i, weight: 2, signal: 'producer statement - construction review' },
+  { type: 'COC', pattern: /certificate of compliance/i, weight: 3, signal: 'certificate of compliance' },
+  { type: 'COC', pattern: /prescribed electrical work|gasfitting/i, weight: 1, signal: 'prescribed electrical or gas work' },
+  { type: 'ESC', pattern: /electrical safety certificate/i, weight: 4, signal: 'electrical safety certificate' },
+  { type: 'ESC', pattern: /safe to connect/i, weight: 1, signal: 'safe to connect' },
+  { type: 'WARRANTY', pattern: /\bwarrant(?:y|ies)\b/i, weight: 2, signal: 'warranty' },
+  { type: 'WARRANTY', pattern: /\bguarantee\b/i, weight: 1, signal: 'guarantee' },
+  { type: 'INVOICE', pattern: /\btax invoice\b/i, weight: 3, signal: 'tax invoice' },
+  { type: 'INVOICE', pattern: /\b(?:invoice (?:no|number)|amount due|total due)\b/i, weight: 1, signal: 'invoice totals' },
+  { type: 'FLOOD_TEST', pattern: /\bflood test/i, weight: 3, signal: 'flood test' },
+  { type: 'FLOOD_TEST', pattern: /\bwater(?:tightness)? test\b/i, weight: 1, signal: 'water test' },
+  { type: 'DRAWING', pattern: /\bscale\s*1\s*:\s*\d+/i, weight: 2, signal: 'drawing scale' },
+  { type: 'DRAWING', pattern: /\b(?:drawing|sheet) (?:no|number|title)\b/i, weight: 2, signal: 'drawing title block' },
+  { type: 'PROPERTY_FILE', pattern: /\bproperty file\b/i, weight: 3, signal: 'property file' },
+  { type: 'PROPERTY_FILE', pattern: /land information memorandum|\bLIM\b/, weight: 2, signal: 'LIM' },
+  { type: 'REPORT', pattern: /\b(?:inspection|assessment|engineer'?s|condition) report\b/i, weight: 2, signal: 'report' },
+];
+
+/** Filenames are a weaker signal than content: never enough on their own */
+const FILENAME_RULES: Rule[] = [
+  { type: 'PS1', pattern: /(?:^|[^a-z0-9])ps[\s_-]?1(?![0-9])/i, weight: 2, signal: 'filename PS1' },
+  { type: 'PS2', pattern: /(?:^|[^a-z0-9])ps[\s_-]?2(?![0-9])/i, weight: 2, signal: 'filename PS2' },
+  { type: 'PS3', pattern: /(?:^|[^a-z0-9])ps[\s_-]?3(?![0-9])/i, weight: 2, signal: 'filename PS3' },
+  { type: 'PS4', pattern: /(?:^|[^a-z0-9])ps[\s_-]?4(?![0-9])/i, weight: 2, signal: 'filename PS4' },
+  { type: 'COC', pattern: /(?:^|[^a-z])coc(?![a-z])/i, weight: 2, signal: 'filename COC' },
+  { type: 'ESC', pattern: /(?:^|[^a-z])esc(?![a-z])/i, weight: 2, signal: 'filename ESC' },
+  { type: 'WARRANTY', pattern: /warrant/i, weight: 2, signal: 'filename warranty' },
+  { type: 'INVOICE', pattern: /invoice/i, weight: 2, signal: 'filename invoice' },
+  { type: 'FLOOD_TEST', pattern: /flood/i, weight: 2, signal: 'filename flood test' },
+  { type: 'DRAWING', pattern: /drawing|plans?(?![a-z])/i, weight: 2, signal: 'filename drawing' },
+  { type: 'PROPERTY_FILE', pattern: /property[\s_-]?file|(?:^|[^a-z])lim(?![a-z])/i, weight: 2, signal: 'filename property file' },
+];
+
+const DESCRIPTIONS: Partial<Record<DocumentType, string>> = {
+  PS1: 'Producer Statement PS1 - Design',
+  PS2: 'Producer Statement PS2 - Design Review',
+  PS3: 'Producer Statement PS3 - Construction',
+  PS4: 'Producer Statement PS4 - Construction Review',
+  COC: 'Certificate of Compliance',
+  ESC: 'Electrical Safety Certificate',
+  WARRANTY: 'Warranty',
+  INVOICE: 'Invoice',
+  FLOOD_TEST: 'Flood Test',
+  DRAWING: 'Drawing',
+  PROPERTY_FILE: 'Property File',
+  REPORT: 'Report',
+};
+
+/** Building work named in a document and the clauses it relates to */
+const WORK_CLAUSES: Array<{ pattern: RegExp; clauses: string[] }> = [
+  { pattern: /\b(?:structur\w*|foundations?|bracing|piles?|beams?)\b/i, clauses: ['B1'] },
+  { pattern: /\b(?:roof\w*|cladding|flashings?|weathertight\w*|joinery)\b/i, clauses: ['E2'] },
+  { pattern: /\b(?:waterproof\w*|membranes?|tanking|wet areas?|showers?)\b/i, clauses: ['E3'] },
+  { pattern: /\b(?:electrical|wiring|switchboards?)\b/i, clauses: ['G9'] },
+  { pattern: /\b(?:gas|gasfitting)\b/i, clauses: ['G11'] },
+  { pattern: /\b(?:plumbing|drainage|sanitary|wastewater|hot water)\b/i, clauses: ['G12', 'G13'] },
+  { pattern: /\b(?:insulation|thermal)\b/i, clauses: ['H1'] },
+];
+
+/** Types that cover whatever work they describe, rather than one trade */
+const WORK_DEPENDENT_TYPES: DocumentType[] = ['PS1', 'PS2', 'PS3', 'PS4', 'WARRANTY', 'FLOOD_TEST', 'REPORT'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DATE = String.raw`\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{4}-\d{2}-\d{2}|\d{1,2}(?:st|nd|rd|th)?\s+[A-Za-z]{3,9}\.?,?\s+\d{4}`;
+
+const ISSUER_PATTERNS = [
+  /(?:issued by|issuer|company name|name of (?:the )?(?:firm|company|building practitioner|electrical worker|gasfitter|author|contractor))\s*[:-]\s*(.+)/i,
+  /^([A-Z][\w&'. -]{2,60}\b(?:Ltd|Limited))\.?$/m,
+];
+
+const DATE_PATTERNS = [
+  new RegExp(String.raw`(?:date of issue|issue date|date issued|dated|date)\s*[:-]?\s*(${DATE})`, 'i'),
+  new RegExp(`(${DATE})`),
+];
+
+const REFERENCE_PATTERN = /(?:certificate|cert|reference|ref|coc|esc|statement|registration|licen[cs]e|job)\s*(?:no\.?|number|#)\s*[:-]?\s*([A-Z0-9][A-Z0-9/-]{2,})/i;
+
+function score(rules: Rule[], text: string, scores: Map<DocumentType, number>, signals: string[]): void {
+  for (const rule of rules) {
+    if (rule.pattern.test(text)) {
+      scores.set(rule.type, (scores.get(rule.type) || 0) + rule.weight);
+      signals.push(rule.signal);
+    }
+  }
+}
+
+/**
+ * Parse a NZ-style date: day first, two-digit years in this century, or
+ * written out ("12 March 2026"). Returns undefined for anything impossible.
+ */
+export function parseDocumentDate(value: string): Date | undefined {
+  let day: number;
+  let month: number;
+  let year: number;
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const numeric = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  const written = value.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([A-Za-z]{3,9})\.?,?\s+(\d{4})$/);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (numeric) {
+    [day, month, year] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+    if (year < 100) year += 2000;
+  } else if (written) {
+    day = Number(written[1]);
+    month = MONTHS.indexOf(written[2].slice(0, 3).toLowerCase()) + 1;
+    year = Number(written[3]);
+  } else {
+    return undefined;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date;
+}
+
+function firstMatch(patterns: RegExp[], text: string): string | undefined {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match[1].trim();
+  }
+  return undefined;
+}
+
+function suggestClauses(type: DocumentType, text: string): string[] {
+  if (WORK_DEPENDENT_TYPES.includes(type)) {
+    const clauses = WORK_CLAUSES
+      .filter((work) => work.pattern.test(text))
+      .flatMap((work) => work.clauses);
+    if (clauses.length > 0) return [...new Set(clauses)].sort();
+  }
+  return CLAUSE_LINKS[type] || [];
+}
+
+/**
+ * Classify a document from its text (empty for scans and non-PDFs) and
+ * filename.
+ */
+export function classifyDocument(text: string, filename: string): DocumentClassification {
+  const scores = new Map<DocumentType, number>();
+  const signals: string[] = [];
+
+  score(TEXT_RULES, text, scores, signals);
+  score(FILENAME_RULES, filename, scores, signals);
+
+  const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  const [best, second] = ranked;
+  const documentType = best ? best[0] : 'OTHER';
+
+  // Strength of the best match, discounted when another type comes close
+  const confidence = best
+    ? Math.min(1, best[1] / CERTAIN_SCORE) * (1 - (second ? second[1] / best[1] : 0) / 2)
+    : 0;
+
+  const issuer = firstMatch(ISSUER_PATTERNS, text);
+  const issuedAt = firstMatch(DATE_PATTERNS, text);
+  const referenceNumber = firstMatch([REFERENCE_PATTERN], text);
+  const description = DESCRIPTIONS[documentType];
+
+  return {
+    documentType,
+    confidence: Math.round(confidence * 100) / 100,
+    needsConfirmation: confidence < CONFIRMATION_THRESHOLD,
+    signals,
+    description: description && issuer ? `${description} (${issuer})` : description,
+    issuer,
+    issuedAt: issuedAt ? parseDocumentDate(issuedAt) : undefined,
+    referenceNumber: referenceNumber && /\d/.test(referenceNumber) ? referenceNumber : undefined,
+    linkedClauses: suggestClauses(documentType, text),
+  };
+}
+
+/**
+ * Classify an uploaded file, reading the text layer of PDFs
+ */
+export async function classifyUpload(buffer: Buffer, mimeType: string, filename: string): Promise<DocumentClassification> {
+  const text = mimeType === 'application/pdf' ? await extractPdfText(buffer) : '';
+  return classifyDocument(text, filename);
+}
@@ -0,0 +1,177 @@
+/**
+ * Document Storage
+ *
+ * Stores uploaded project documents (PS1–PS4, COC, warranties, drawings…)
+ * in R2 when it is configured and on the local filesystem otherwise, under
+ * the same key either way: documents/{projectId}/{uuid}.{ext}. Downloads are
+ * served to authenticated users; signed URLs let a browser or the report
+ * generator fetch a file without a session for a limited time.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  isR2Configured,
+  generateDocumentKey,
+  uploadToR2,
+  downloadFromR2,
+  getPresignedUrl,
+  deleteFromR2,
+} from './r2-storage.js';
+
+export class DocumentFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentFileError';
+  }
+}
+
+export const MAX_DOCUMENT_SIZE = 25 * 1024 * 1024; // 25MB
+
+/** Signed URLs (local and R2) are valid for one hour */
+export const SIGNED_URL_EXPIRY_SECONDS = 3600;
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/** Accepted document types: extension and the leading bytes of a valid file */
+const DOCUMENT_TYPES: Record<string, { ext: string; signature: number[] }> = {
+  'application/pdf': { ext: 'pdf', signature: [0x25, 0x50, 0x44, 0x46] }, // %PDF
+  'image/jpeg': { ext: 'jpg', signature: [0xff, 0xd8, 0xff] },
+  'image/png': { ext: 'png', signature: [0x89, 0x50, 0x4e, 0x47] },
+  [DOCX_MIME_TYPE]: { ext: 'docx', signature: [0x50, 0x4b, 0x03, 0x04] }, // Zip container
+};
+
+export const ALLOWED_DOCUMENT_TYPES = Object.keys(DOCUMENT_TYPES);
+
+/** Only keys this module created are ever read or deleted */
+const DOCUMENT_KEY_PATTERN = /^documents\/[^/]+\/[a-f0-9-]+\.[a-z]+$/;
+
+function uploadDir(): string {
+  return process.env.UPLOAD_DIR || './data/uploads';
+}
+
+function signingSecret(): string {
+  return process.env.DOWNLOAD_URL_SECRET || process.env.JWT_SECRET || 'development-secret-min-32-chars!!';
+}
+
+/**
+ * Check an upload against the allowed types and size. The content must match
+ * the declared type, so a renamed executable is not stored as a PDF.
+ */
+export function validateDocumentFile(buffer: Buffer, mimeType: string): void {
+  const type = DOCUMENT_TYPES[mimeType];
+  if (!type) {
+    throw new DocumentFileError('Invalid file type. Only PDF, JPEG, PNG and DOCX allowed.');
+  }
+  if (buffer.length === 0) {
+    throw new DocumentFileError('File is empty');
+  }
+  if (buffer.length > MAX_DOCUMENT_SIZE) {
+    throw new DocumentFileError(`File is larger than ${MAX_DOCUMENT_SIZE / (1024 * 1024)}MB`);
+  }
+  if (!type.signature.every((byte, i) => buffer[i] === byte)) {
+    throw new DocumentFileError(`File content is not a valid ${type.ext.toUpperCase()}`);
+  }
+}
+
+/** Whether a document's filePath points at a file this module stored */
+export function isStoredDocument(filePath: string): boolean {
+  return DOCUMENT_KEY_PATTERN.test(filePath);
+}
+
+function localPath(key: string): string {
+  if (!isStoredDocument(key)) {
+    throw new DocumentFileError(`Not a stored document: ${key}`);
+  }
+  return path.resolve(uploadDir(), key);
+}
+
+/**
+ * Validate and store a document, returning its storage key
+ */
+export async function storeDocumentFile(projectId: string, buffer: Buffer, mimeType: string): Promise<string> {
+  validateDocumentFile(buffer, mimeType);
+  const key = generateDocumentKey(projectId, DOCUMENT_TYPES[mimeType].ext);
+
+  if (isR2Configured()) {
+    await uploadToR2(key, buffer, mimeType);
+  } else {
+    const filePath = localPath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, buffer);
+  }
+  return key;
+}
+
+/**
+ * Read a stored document into memory
+ */
+export async function readDocumentFile(key: string): Promise<Buffer> {
+  if (isR2Configured()) {
+    return downloadFromR2(key);
+  }
+  return fs.readFile(localPath(key));
+}
+
+/**
+ * Absolute path of a locally stored document, or null when stored in R2
+ */
+export function localDocumentPath(key: string): string | null {
+  return isR2Configured() ? null : localPath(key);
+}
+
+/**
+ * Delete a stored document. Paths recorded before uploads existed are left
+ * alone, and a file that is already gone is not an error.
+ */
+export async function deleteDocumentFile(key: string): Promise<void> {
+  if (!isStoredDocument(key)) return;
+
+  if (isR2Configured()) {
+    await deleteFromR2(key);
+    return;
+  }
+  try {
+    await fs.unlink(localPath(key));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+}
+
+function signature(documentId: string, expires: number): string {
+  return createHmac('sha256', signingSecret())
+    .update(`${documentId}:${expires}`)
+    .digest('base64url');
+}
+
+/**
+ * Sign a local download link for a document
+ */
+export function signDocumentDownload(documentId: string, now = Date.now()): { expires: number; signature: string } {
+  const expires = Math.floor(now / 1000) + SIGNED_URL_EXPIRY_SECONDS;
+  return { expires, signature: signature(documentId, expires) };
+}
+
+/**
+ * Check a signed download link: the signature must match and not have expired
+ */
+export function verifyDocumentDownload(documentId: string, expires: number, given: string, now = Date.now()): boolean {
+  if (!Number.isInteger(expires) || expires < Math.floor(now / 1000)) return false;
+
+  const expected = Buffer.from(signature(documentId, expires));
+  const actual = Buffer.from(given);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * A URL the document can be fetched from without a session: a presigned R2
+ * URL, or a signed link to this API for local storage.
+ */
+export async function documentDownloadUrl(documentId: string, key: string, baseUrl: string): Promise<string> {
+  if (isR2Configured()) {
+    return getPresignedUrl(key);
+  }
+  const { expires, signature: sig } = signDocumentDownload(documentId);
+  return `${baseUrl}/api/document-files/${documentId}?expires=${expires}&signature=${sig}`;
+}
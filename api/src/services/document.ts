@@ -5,6 +5,8 @@ import type {
   UpdateDocumentInput,
   DocumentSearchParams,
 } from '../repositories/interfaces/document.js';
+import type { DocumentClassification } from './document-classifier.js';
+import { assignAppendixLetters } from './document-appendix.js';
 
 export class DocumentNotFoundError extends Error {
   constructor(id: string) {
@@ -20,11 +22,18 @@ export interface DocumentSummary {
   required: number;
   received: number;
   outstanding: number;
+  needsConfirmation: number;
   completionPercentage: number;
 }
 
+/** Fields given with an upload; anything left out comes from the classification */
+export type UploadDocumentInput = Omit<CreateDocumentInput, 'documentType' | 'description'> & {
+  documentType?: DocumentType;
+  description?: string;
+};
+
 // Auto-linking rules based on document type
-const CLAUSE_LINKS: Partial<Record<DocumentType, string[]>> = {
+export const CLAUSE_LINKS: Partial<Record<DocumentType, string[]>> = {
   PS3: ['B1', 'E2', 'E3', 'G12', 'G13'], // Producer Statement Construction
   COC: ['G9'], // Electrical Certificate
   ESC: ['G9'], // Electrical Safety Certificate
@@ -41,11 +50,49 @@ export class DocumentService {
       linkedClauses = CLAUSE_LINKS[input.documentType] || [];
     }
 
-    return this.repository.create({
+    const document = await this.repository.create({
       ...input,
       linkedClauses,
       status: input.status || 'RECEIVED', // Default to RECEIVED when uploading
     });
+    return this.withAppendixLetter(document);
+  }
+
+  /**
+   * Create a document for an uploaded file. What the uploader entered wins;
+   * the rest is pre-filled from the classification. A type the classifier
+   * was unsure of is flagged until someone confirms it.
+   */
+  async createFromUpload(input: UploadDocumentInput, classification: DocumentClassification): Promise<Document> {
+    const documentType = input.documentType ?? classification.documentType;
+
+    return this.create({
+      ...input,
+      documentType,
+      description: input.description
+        ?? classification.description
+        ?? input.filename.replace(/\.[^.]+$/, ''),
+      issuer: input.issuer ?? classification.issuer,
+      issuedAt: input.issuedAt ?? classification.issuedAt,
+      referenceNumber: input.referenceNumber ?? classification.referenceNumber,
+      // Suggested clauses only fit the classified type
+      linkedClauses: input.linkedClauses?.length || documentType !== classification.documentType
+        ? input.linkedClauses
+        : classification.linkedClauses,
+      classification: {
+        documentType: classification.documentType,
+        confidence: classification.confidence,
+        signals: classification.signals,
+      },
+      needsConfirmation: !input.documentType && classification.needsConfirmation,
+    });
+  }
+
+  /**
+   * Accept the detected classification, with any corrections
+   */
+  async confirmClassification(id: string, corrections: UpdateDocumentInput = {}): Promise<Document> {
+    return this.update(id, { ...corrections, needsConfirmation: false });
   }
 
   async findAll(params?: DocumentSearchParams): Promise<Document[]> {
@@ -66,12 +113,25 @@ export class DocumentService {
 
   async update(id: string, input: UpdateDocumentInput): Promise<Document> {
     await this.findById(id);
-    return this.repository.update(id, input);
+    const document = await this.repository.update(id, input);
+    return this.withAppendixLetter(document);
   }
 
   async delete(id: string): Promise<void> {
-    await this.findById(id);
+    const document = await this.findById(id);
     await this.repository.delete(id);
+    await this.reletter(document.projectId);
+  }
+
+  /**
+   * Attach a stored file to an existing document, such as a certificate
+   * photographed on site, and mark it received
+   */
+  async attachFile(
+    id: string,
+    file: Required<Pick<UpdateDocumentInput, 'filePath' | 'filename' | 'mimeType' | 'fileSize'>>
+  ): Promise<Document> {
+    return this.update(id, { ...file, status: 'RECEIVED' });
   }
 
   async markAsReceived(id: string): Promise<Document> {
@@ -95,7 +155,32 @@ export class DocumentService {
   }
 
   async reorder(projectId: string, documentIds: string[]): Promise<void> {
-    return this.repository.reorder(projectId, documentIds);
+    await this.repository.reorder(projectId, documentIds);
+    await this.reletter(projectId);
+  }
+
+  /**
+   * Reassign appendix letters by type and document order, writing only the
+   * letters that changed. Returns the project's documents with their letters.
+   */
+  async reletter(projectId: string): Promise<Document[]> {
+    const documents = await this.repository.findByProjectId(projectId);
+    const letters = assignAppendixLetters(documents);
+
+    const changed = new Map([...letters].filter(([id, letter]) =>
+      documents.find((doc) => doc.id === id)?.appendixLetter !== letter
+    ));
+    if (changed.size > 0) {
+      await this.repository.setAppendixLetters(changed);
+    }
+
+    return documents.map((doc) => ({ ...doc, appendixLetter: letters.get(doc.id) ?? null }));
+  }
+
+  /** Reletter the project after a change and return the document as relettered */
+  private async withAppendixLetter(document: Document): Promise<Document> {
+    const documents = await this.reletter(document.projectId);
+    return documents.find((doc) => doc.id === document.id) ?? document;
   }
 
   async getSummary(projectId: string): Promise<DocumentSummary> {
@@ -113,6 +198,7 @@ export class DocumentService {
       required: 0,
       received: 0,
       outstanding: 0,
+      needsConfirmation: 0,
       completionPercentage: 0,
     };
 
@@ -135,6 +221,10 @@ export class DocumentService {
       } else if (doc.status === 'RECEIVED') {
         summary.received++;
       }
+
+      if (doc.needsConfirmation) {
+        summary.needsConfirmation++;
+      }
     }
 
     // Calculate completion percentage
@@ -165,12 +255,16 @@ export class DocumentService {
   async canFinalize(projectId: string): Promise<{ canFinalize: boolean; blockers: string[] }> {
     const outstanding = await this.getOutstandingDocuments(projectId);
     const required = await this.getRequiredDocuments(projectId);
+    const unconfirmed = await this.repository.findAll({ projectId, needsConfirmation: true });
 
     const blockers: string[] = [];
 
     for (const doc of [...outstanding, ...required]) {
       blockers.push(`${doc.documentType}: ${doc.description} (${doc.status})`);
     }
+    for (const doc of unconfirmed) {
+      blockers.push(`${doc.documentType}: ${doc.description} (type not confirmed)`);
+    }
 
     return {
       canFinalize: blockers.length === 0,
@@ -0,0 +1,282 @@
+/**
+ * DOCX Renderer
+ * Renders report content to an editable Word document using the docx library.
+ * Report services describe their content as blocks; see docs/design/011-report-generation-export.md
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import sharp from 'sharp';
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  PageBreak,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+
+export type DocxBlock =
+  /** Cover page: title lines, subtitle and label/value details, followed by a page break */
+  | { type: 'cover'; title: string[]; subtitle: string; details: Array<[string, string]> }
+  | { type: 'heading'; text: string; level?: 1 | 2 | 3 }
+  | { type: 'paragraph'; text: string; bold?: boolean; italic?: boolean }
+  | { type: 'bullets'; items: string[] }
+  /** Two-column label/value table */
+  | { type: 'fields'; rows: Array<[string, string]> }
+  /** Table with a repeating header row; newlines in cells become separate paragraphs */
+  | { type: 'table'; header: string[]; rows: string[][]; shadedRows?: number[] }
+  /** Image loaded from a file path, file:// URL or http(s) URL */
+  | { type: 'image'; src: string; caption: string }
+  | { type: 'pageBreak' };
+
+export interface DocxRenderOptions {
+  /** Title shown in the running page header */
+  headerTitle: string;
+}
+
+const PRIMARY_COLOR = '1A365D';
+const MUTED_COLOR = '666666';
+const SHADED_FILL = 'F0F0F0';
+const IMAGE_MAX_WIDTH = 480;
+const IMAGE_MAX_HEIGHT = 360;
+
+const HEADING_LEVELS = {
+  1: HeadingLevel.HEADING_1,
+  2: HeadingLevel.HEADING_2,
+  3: HeadingLevel.HEADING_3,
+} as const;
+
+type DocxChild = Paragraph | Table;
+
+interface LoadedImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Load an image and re-encode it as a JPEG sized for an A4 page.
+ */
+async function loadImage(src: string): Promise<LoadedImage> {
+  let input: Buffer;
+  if (/^https?:\/\//i.test(src)) {
+    const response = await fetch(src);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    input = Buffer.from(await response.arrayBuffer());
+  } else {
+    input = await readFile(src.startsWith('file://') ? fileURLToPath(src) : src);
+  }
+
+  const { data, info } = await sharp(input)
+    .rotate()
+    .resize(IMAGE_MAX_WIDTH, IMAGE_MAX_HEIGHT, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 80 })
+    .toBuffer({ resolveWithObject: true });
+
+  return { data, width: info.width, height: info.height };
+}
+
+function textParagraphs(text: string, options: { bold?: boolean } = {}): Paragraph[] {
+  const lines = text.split('\n');
+  return lines.map((line) => new Paragraph({
+    children: [new TextRun({ text: line, bold: options.bold })],
+  }));
+}
+
+function cell(text: string, options: { header?: boolean; shaded?: boolean; width?: number } = {}): TableCell {
+  return new TableCell({
+    children: textParagraphs(text, { bold: options.header }),
+    width: options.width ? { size: options.width, type: WidthType.PERCENTAGE } : undefined,
+    shading: options.header || options.shaded
+      ? { type: ShadingType.CLEAR, color: 'auto', fill: options.header ? 'E2E8F0' : SHADED_FILL }
+      : undefined,
+  });
+}
+
+function renderCover(block: Extract<DocxBlock, { type: 'cover' }>): Paragraph[] {
+  return [
+    ...block.title.map((line) => new Paragraph({
+      heading: HeadingLevel.TITLE,
+      alignment: AlignmentType.CENTER,
+      spacing: { before: line === block.title[0] ? 2400 : 0 },
+      children: [new TextRun({ text: line, bold: true, color: PRIMARY_COLOR })],
+    })),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 400, after: 600 },
+      children: [new TextRun({ text: block.subtitle, size: 32 })],
+    }),
+    ...block.details.map(([label, value]) => new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [
+        new TextRun({ text: `${label}: `, bold: true }),
+        new TextRun({ text: value }),
+      ],
+    })),
+    new Paragraph({ children: [new PageBreak()] }),
+  ];
+}
+
+function renderTable(block: Extract<DocxBlock, { type: 'table' }>): Table {
+  const shaded = new Set(block.shadedRows ?? []);
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({
+        tableHeader: true,
+        children: block.header.map((text) => cell(text, { header: true })),
+      }),
+      ...block.rows.map((row, index) => new TableRow({
+        children: row.map((text) => cell(text, { shaded: shaded.has(index) })),
+      })),
+    ],
+  });
+}
+
+function renderFields(block: Extract<DocxBlock, { type: 'fields' }>): Table {
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: block.rows.map(([label, value]) => new TableRow({
+      children: [
+        cell(label, { shaded: true, width: 35 }),
+        cell(value, { width: 65 }),
+      ],
+    })),
+  });
+}
+
+async function renderImage(block: Extract<DocxBlock, { type: 'image' }>): Promise<Paragraph[]> {
+  const caption = new Paragraph({
+    alignment: AlignmentType.CENTER,
+    spacing: { after: 240 },
+    children: [new TextRun({ text: block.caption, italics: true, size: 18, color: MUTED_COLOR })],
+  });
+
+  try {
+    const image = await loadImage(block.src);
+    return [
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        keepNext: true,
+        children: [
+          new ImageRun({
+            type: 'jpg',
+            data: image.data,
+            transformation: { width: image.width, height: image.height },
+          }),
+        ],
+      }),
+      caption,
+    ];
+  } catch (error) {
+    // A missing photo should not prevent the rest of the document rendering
+    console.warn(`DOCX image unavailable (${block.src}):`, error instanceof Error ? error.message : error);
+    return [
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ text: '[Image unavailable]', color: MUTED_COLOR })],
+      }),
+      caption,
+    ];
+  }
+}
+
+async function renderBlock(block: DocxBlock): Promise<DocxChild[]> {
+  switch (block.type) {
+    case 'cover':
+      return renderCover(block);
+    case 'heading':
+      return [new Paragraph({
+        heading: HEADING_LEVELS[block.level ?? 1],
+        spacing: { before: 240, after: 120 },
+        children: [new TextRun({ text: block.text, color: PRIMARY_COLOR })],
+      })];
+    case 'paragraph':
+      return block.text.split('\n').map((line) => new Paragraph({
+        spacing: { after: 120 },
+        children: [new TextRun({ text: line, bold: block.bold, italics: block.italic })],
+      }));
+    case 'bullets':
+      return block.items.map((item) => new Paragraph({ text: item, bullet: { level: 0 } }));
+    case 'fields':
+      return [renderFields(block), new Paragraph({})];
+    case 'table':
+      return [renderTable(block), new Paragraph({})];
+    case 'image':
+      return renderImage(block);
+    case 'pageBreak':
+      return [new Paragraph({ children: [new PageBreak()] })];
+  }
+}
+
+/**
+ * Render content blocks to an A4 Word document.
+ */
+export async function renderDocx(
+  blocks: DocxBlock[],
+  outputPath: string,
+  options: DocxRenderOptions
+): Promise<void> {
+  const children: DocxChild[] = [];
+  for (const block of blocks) {
+    children.push(...(await renderBlock(block)));
+  }
+
+  const doc = new Document({
+    creator: 'AI Inspection',
+    title: options.headerTitle,
+    styles: {
+      default: {
+        document: { run: { font: 'Arial', size: 20 } },
+      },
+    },
+    sections: [
+      {
+        properties: {
+          page: {
+            size: { width: 11906, height: 16838 }, // A4 in twentieths of a point
+            margin: { top: 1134, right: 850, bottom: 1417, left: 850 },
+          },
+        },
+        headers: {
+          default: new Header({
+            children: [new Paragraph({
+              border: { bottom: { style: BorderStyle.SINGLE, size: 4, color: 'CCCCCC', space: 4 } },
+              children: [new TextRun({ text: options.headerTitle, size: 16, color: MUTED_COLOR })],
+            })],
+          }),
+        },
+        footers: {
+          default: new Footer({
+            children: [new Paragraph({
+              alignment: AlignmentType.RIGHT,
+              children: [
+                new TextRun({ text: 'Confidential    Page ', size: 16, color: MUTED_COLOR }),
+                new TextRun({ children: [PageNumber.CURRENT], size: 16, color: MUTED_COLOR }),
+                new TextRun({ text: ' of ', size: 16, color: MUTED_COLOR }),
+                new TextRun({ children: [PageNumber.TOTAL_PAGES], size: 16, color: MUTED_COLOR }),
+              ],
+            })],
+          }),
+        },
+        children,
+      },
+    ],
+  });
+
+  await writeFile(outputPath, await Packer.toBuffer(doc));
+}
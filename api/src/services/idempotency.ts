@@ -0,0 +1,118 @@
+/**
+ * Idempotency Keys
+ *
+ * Lets a client retry a create safely. The first request sent with a key
+ * claims it and its response is stored; a retry with the same key and the
+ * same request gets the stored response back instead of a second write.
+ * Keys belong to the caller and expire after IDEMPOTENCY_TTL_HOURS
+ * (default 24).
+ */
+
+import { createHash } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import type { IIdempotencyRepository } from '../repositories/interfaces/idempotency.js';
+
+export class IdempotencyKeyReuseError extends Error {
+  constructor(key: string) {
+    super(`Idempotency-Key ${key} was already used for a different request`);
+    this.name = 'IdempotencyKeyReuseError';
+  }
+}
+
+export class IdempotencyInProgressError extends Error {
+  constructor(key: string) {
+    super(`A request with Idempotency-Key ${key} is still in progress`);
+    this.name = 'IdempotencyInProgressError';
+  }
+}
+
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+/** Either the key is now held by this request, or the response to replay */
+export type IdempotencyClaim = { recordId: string } | { replay: StoredResponse };
+
+const DEFAULT_TTL_HOURS = 24;
+
+/** Expired records are cleared at most this often */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+function defaultTtlMs(): number {
+  return (Number(process.env.IDEMPOTENCY_TTL_HOURS) || DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+/**
+ * Fingerprint of a request, so a key reused for something else is caught
+ */
+export function requestHash(method: string, url: string, body: unknown): string {
+  return createHash('sha256')
+    .update(`${method.toUpperCase()} ${url}\n${JSON.stringify(body ?? null)}`)
+    .digest('hex');
+}
+
+export class IdempotencyService {
+  private lastPurge = 0;
+
+  constructor(
+    private repository: IIdempotencyRepository,
+    private ttlMs = defaultTtlMs()
+  ) {}
+
+  /**
+   * Claim a key for a request, or return the stored response when the same
+   * request has already completed with it
+   */
+  async begin(userId: string, key: string, hash: string, now = new Date()): Promise<IdempotencyClaim> {
+    await this.purgeExpired(now);
+    const expiresAt = new Date(now.getTime() + this.ttlMs);
+
+    // A second pass covers a record expiring or being released between calls
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const created = await this.repository.create({ userId, key, requestHash: hash, expiresAt });
+      if (created) {
+        return { recordId: created.id };
+      }
+
+      const existing = await this.repository.findByKey(userId, key);
+      if (!existing) continue;
+      if (existing.expiresAt <= now) {
+        await this.repository.delete(existing.id);
+        continue;
+      }
+      if (existing.requestHash !== hash) {
+        throw new IdempotencyKeyReuseError(key);
+      }
+      if (existing.statusCode === null) {
+        throw new IdempotencyInProgressError(key);
+      }
+      return { replay: { statusCode: existing.statusCode, body: existing.body } };
+    }
+
+    throw new IdempotencyInProgressError(key);
+  }
+
+  /**
+   * Store the response of the request holding the key
+   */
+  async complete(recordId: string, statusCode: number, body: unknown): Promise<void> {
+    // Round-trip through JSON so dates are stored as the client received them
+    const json = JSON.parse(JSON.stringify(body ?? {})) as Prisma.InputJsonValue;
+    await this.repository.complete(recordId, statusCode, json);
+  }
+
+  /**
+   * Give the key up without storing a response (server errors), so a retry
+   * runs the request again
+   */
+  async release(recordId: string): Promise<void> {
+    await this.repository.delete(recordId);
+  }
+
+  private async purgeExpired(now: Date): Promise<void> {
+    if (now.getTime() - this.lastPurge < PURGE_INTERVAL_MS) return;
+    this.lastPurge = now.getTime();
+    await this.repository.deleteExpired(now);
+  }
+}
@@ -2,5 +2,73 @@ export { InspectionService, InspectionNotFoundError } from './inspection.js';
 export { FindingService, FindingNotFoundError } from './finding.js';
 export { PhotoService, PhotoNotFoundError, InvalidBase64Error, type UploadPhotoInput } from './photo.js';
 export { ReportService, ReportNotFoundError, ReportGenerationError } from './report.js';
-export { NavigationService, InvalidSectionError } from './navigation.js';
+export {
+  ReportWorkflowService,
+  InvalidTransitionError,
+  TransitionConditionError,
+  ReviewCommentNotFoundError,
+  ReviewCommentStateError,
+  ReportVersionNotFoundError,
+} from './report-workflow.js';
+export { CoaReportService } from './coa-report.js';
+export {
+  CompanyService,
+  PersonnelService,
+  CompanyNotFoundError,
+  CompanyInUseError,
+  PersonnelNotFoundError,
+  PersonnelConflictError,
+  PersonnelCapabilityError,
+  CredentialNotFoundError,
+  CredentialValidationError,
+} from './personnel.js';
+export { DefectService, DefectNotFoundError, DefectValidationError } from './defect.js';
+export {
+  MoistureReadingService,
+  MoistureReadingNotFoundError,
+  MoistureReadingValidationError,
+} from './moisture-reading.js';
+export {
+  CostEstimateService,
+  CostEstimateNotFoundError,
+  CostEstimateExistsError,
+  CostEstimateValidationError,
+  CostLineItemNotFoundError,
+} from './cost-estimate.js';
+export { CccGapReportService } from './ccc-gap-report.js';
+export {
+  TemplateService,
+  TemplateNotFoundError,
+  TemplateVersionNotFoundError,
+  TemplateLockedError,
+  TemplateValidationError,
+} from './template.js';
+export {
+  OrganizationService,
+  OrganizationNotFoundError,
+  OrganizationAccessError,
+  MembershipNotFoundError,
+  MembershipConflictError,
+  MemberUserNotFoundError,
+} from './organization.js';
+export { SessionService, SessionAuthError, SessionNotFoundError } from './session.js';
+export {
+  ApiTokenService,
+  ApiTokenNotFoundError,
+  ApiTokenValidationError,
+  ApiTokenAuthError,
+  ApiTokenScopeError,
+} from './api-token.js';
+export { CommentFeedbackService, feedbackOutcome } from './comment-feedback.js';
+export { ROLE_PERMISSIONS, permissionsFor, hasPermission, type Permission } from './permissions.js';
+export { NavigationService, InvalidSectionError, SectionNotApplicableError } from './navigation.js';
+export { resolvePlan, inspectionFacts, conditionMismatch } from './checklist-plan.js';
 export { checklistService, ChecklistService } from './checklist.js';
+export {
+  ChecklistDefinitionService,
+  ChecklistNotFoundError,
+  ChecklistVersionNotFoundError,
+  ChecklistValidationError,
+  ChecklistConflictError,
+} from './checklist-definition.js';
+export { validateInspection, InspectionIncompleteError } from './checklist-validation.js';
@@ -4,6 +4,9 @@ import type {
   CreateInspectionInput,
   UpdateInspectionInput,
 } from '../repositories/interfaces/inspection.js';
+import type { ChecklistDefinitionService } from './checklist-definition.js';
+import { validateInspection, InspectionIncompleteError } from './checklist-validation.js';
+import { inspectionFacts, resolvePlan } from './checklist-plan.js';
 
 export class InspectionNotFoundError extends Error {
   constructor(id: string) {
@@ -13,10 +16,18 @@ export class InspectionNotFoundError extends Error {
 }
 
 export class InspectionService {
-  constructor(private repository: IInspectionRepository) {}
+  constructor(
+    private repository: IInspectionRepository,
+    private checklists: ChecklistDefinitionService
+  ) {}
 
+  /**
+   * Pins the inspection to the checklist's latest published version, so
+   * later checklist edits do not change it.
+   */
   async create(input: CreateInspectionInput): Promise<Inspection> {
-    return this.repository.create(input);
+    const { versionId } = await this.checklists.resolve(input.checklistId);
+    return this.repository.create({ ...input, checklistVersionId: versionId });
   }
 
   async findAll(): Promise<Inspection[]> {
@@ -33,10 +44,33 @@ export class InspectionService {
 
   async update(id: string, input: UpdateInspectionInput): Promise<Inspection> {
     // Verify exists first
-    await this.findById(id);
+    const inspection = await this.findById(id);
+
+    if (input.status === 'COMPLETED' && inspection.status !== 'COMPLETED') {
+      await this.assertRequirementsMet({ ...inspection, ...input } as Inspection);
+    }
+
     return this.repository.update(id, input);
   }
 
+  /**
+   * Completion is blocked until the checklist's required metadata, sections,
+   * items and evidence are all present. Sections and items that do not apply
+   * to the property are not required.
+   */
+  private async assertRequirementsMet(inspection: Inspection): Promise<void> {
+    const checklist = await this.checklists.forInspection(inspection);
+    if (!checklist) return;
+    const project = await this.repository.findProject(inspection.id);
+    const plan = resolvePlan(checklist, inspectionFacts(inspection, project ?? null));
+
+    const findings = await this.repository.findFindingsByInspection(inspection.id);
+    const { satisfied, missing } = validateInspection(plan.checklist, inspection, findings);
+    if (!satisfied) {
+      throw new InspectionIncompleteError(missing);
+    }
+  }
+
   async delete(id: string): Promise<void> {
     // Verify exists first
     await this.findById(id);
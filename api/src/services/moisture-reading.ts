@@ -0,0 +1,118 @@
+/**
+ * Moisture Reading Service — Issue #153
+ *
+ * Moisture content evidence for CCC gap analysis. Each reading is mirrored
+ * as a MOISTURE_CONTENT site measurement so it is evaluated against the
+ * acceptable range and appears alongside other measurements.
+ * See: docs/design/012-ccc-gap-analysis.md
+ */
+
+import type {
+  IMoistureReadingRepository,
+  CreateMoistureReadingInput,
+  UpdateMoistureReadingInput,
+  MoistureReadingWithRelations,
+} from '../repositories/interfaces/moisture-reading.js';
+import type { IDefectRepository } from '../repositories/interfaces/defect.js';
+import type { SiteMeasurementService } from './site-measurement.js';
+import { DefectNotFoundError } from './defect.js';
+
+export class MoistureReadingNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Moisture reading not found: ${id}`);
+    this.name = 'MoistureReadingNotFoundError';
+  }
+}
+
+export class MoistureReadingValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MoistureReadingValidationError';
+  }
+}
+
+function measurementLocation(location: string, substrate: string): string {
+  return `${location} (${substrate})`;
+}
+
+export class MoistureReadingService {
+  constructor(
+    private repository: IMoistureReadingRepository,
+    private defectRepository: IDefectRepository,
+    private measurementService: SiteMeasurementService
+  ) {}
+
+  async create(input: Omit<CreateMoistureReadingInput, 'measurementId'>): Promise<MoistureReadingWithRelations> {
+    const clauseId = input.defectId
+      ? await this.resolveDefectClause(input.defectId, input.inspectionId)
+      : null;
+
+    const measurement = await this.measurementService.create({
+      inspectionId: input.inspectionId,
+      type: 'MOISTURE_CONTENT',
+      location: measurementLocation(input.location, input.substrate),
+      value: input.reading,
+      unit: 'PERCENT',
+      linkedClauseId: clauseId ?? undefined,
+      notes: input.notes,
+    });
+
+    return this.repository.create({ ...input, measurementId: measurement.id });
+  }
+
+  async findById(id: string): Promise<MoistureReadingWithRelations> {
+    const reading = await this.repository.findById(id);
+    if (!reading) {
+      throw new MoistureReadingNotFoundError(id);
+    }
+    return reading;
+  }
+
+  async findByInspectionId(inspectionId: string): Promise<MoistureReadingWithRelations[]> {
+    return this.repository.findByInspectionId(inspectionId);
+  }
+
+  async update(
+    id: string,
+    input: Omit<UpdateMoistureReadingInput, 'measurementId'>
+  ): Promise<MoistureReadingWithRelations> {
+    const existing = await this.findById(id);
+
+    if (input.defectId) {
+      await this.resolveDefectClause(input.defectId, existing.inspectionId);
+    }
+
+    // Keep the mirrored measurement in step with the reading
+    if (existing.measurementId && (input.reading !== undefined || input.location || input.substrate)) {
+      await this.measurementService.update(existing.measurementId, {
+        value: input.reading,
+        location: measurementLocation(input.location ?? existing.location, input.substrate ?? existing.substrate),
+      });
+    }
+
+    return this.repository.update(id, input);
+  }
+
+  async delete(id: string): Promise<void> {
+    const existing = await this.findById(id);
+    await this.repository.delete(id);
+    if (existing.measurementId) {
+      await this.measurementService.delete(existing.measurementId);
+    }
+  }
+
+  /**
+   * Readings may only be linked to defects from the same inspection.
+   * Returns the defect's clause so the mirrored measurement can reference it.
+   */
+  private async resolveDefectClause(defectId: string, inspectionId: string): Promise<string | null> {
+    const defect = await this.defectRepository.findById(defectId);
+    if (!defect) {
+      throw new DefectNotFoundError(defectId);
+    }
+    if (defect.inspectionId !== inspectionId) {
+      throw new MoistureReadingValidationError(`Defect ${defect.defectNumber} belongs to a different inspection`);
+    }
+    return defect.clauseId;
+  }
+}
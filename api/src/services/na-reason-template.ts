@@ -1,5 +1,9 @@
 import type { NAReasonTemplate } from '@prisma/client';
-import type { INAReasonTemplateRepository } from '../repositories/interfaces/na-reason-template.js';
+import type {
+  INAReasonTemplateRepository,
+  CreateNAReasonTemplateInput,
+  UpdateNAReasonTemplateInput,
+} from '../repositories/interfaces/na-reason-template.js';
 
 export class NAReasonTemplateNotFoundError extends Error {
   constructor(id: string) {
@@ -22,4 +26,18 @@ export class NAReasonTemplateService {
     }
     return template;
   }
+
+  async create(input: CreateNAReasonTemplateInput): Promise<NAReasonTemplate> {
+    return this.repository.create(input);
+  }
+
+  async update(id: string, input: UpdateNAReasonTemplateInput): Promise<NAReasonTemplate> {
+    await this.findById(id);
+    return this.repository.update(id, input);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.findById(id);
+    await this.repository.delete(id);
+  }
 }
@@ -3,9 +3,12 @@
  * Handles inspection workflow navigation and status.
  */
 
-import type { Finding } from '@prisma/client';
+import type { Finding, Inspection } from '@prisma/client';
 import type { IInspectionRepository } from '../repositories/interfaces/inspection.js';
-import { checklistService, type Checklist, type ChecklistItem } from './checklist.js';
+import { flattenSections, type Checklist, type ChecklistItem } from './checklist.js';
+import type { ChecklistDefinitionService } from './checklist-definition.js';
+import { inspectionFacts, resolvePlan, type ChecklistPlan, type SkippedSection } from './checklist-plan.js';
+import { validateInspection, type MissingRequirement } from './checklist-validation.js';
 
 export class InspectionNotFoundError extends Error {
   constructor(id: string) {
@@ -21,6 +24,13 @@ export class InvalidSectionError extends Error {
   }
 }
 
+export class SectionNotApplicableError extends Error {
+  constructor(public section: SkippedSection) {
+    super(`Section '${section.name}' does not apply to this property (${section.reason})`);
+    this.name = 'SectionNotApplicableError';
+  }
+}
+
 export interface NavigationResult {
   inspectionId: string;
   previousSection: string;
@@ -60,6 +70,10 @@ export interface InspectionStatus {
   sections: SectionStatus[];
   totalFindings: number;
   canComplete: boolean;
+  /** Checklist requirements still outstanding; completion is blocked until empty */
+  missing: MissingRequirement[];
+  /** Sections left out because they do not apply to the property */
+  skipped: SkippedSection[];
 }
 
 export interface SuggestResult {
@@ -69,14 +83,20 @@ export interface SuggestResult {
     id: string;
     name: string;
     prompt?: string;
+    items?: string[];
   };
   remainingSections: number;
   canComplete: boolean;
+  missing: MissingRequirement[];
+  skipped: SkippedSection[];
   suggestion: string;
 }
 
 export class NavigationService {
-  constructor(private repository: IInspectionRepository) {}
+  constructor(
+    private repository: IInspectionRepository,
+    private checklists: ChecklistDefinitionService
+  ) {}
 
   /**
    * Navigate to a specific section.
@@ -88,13 +108,18 @@ export class NavigationService {
       throw new InspectionNotFoundError(inspectionId);
     }
 
-    // Validate section exists in checklist
-    const checklist = checklistService.getChecklist(inspection.checklistId);
-    if (!checklist) {
+    // Validate section exists in the property's plan
+    const plan = await this.loadPlan(inspection);
+    if (!plan) {
       throw new InvalidSectionError(sectionId, inspection.checklistId);
     }
 
-    const section = this.findSection(checklist, sectionId);
+    const skipped = plan.skipped.find((s) => s.id === sectionId || sectionId.startsWith(`${s.id}.`));
+    if (skipped) {
+      throw new SectionNotApplicableError(skipped);
+    }
+
+    const section = this.findSection(plan.checklist, sectionId);
     if (!section) {
       throw new InvalidSectionError(sectionId, inspection.checklistId);
     }
@@ -130,9 +155,10 @@ export class NavigationService {
     // Get findings
     const findings = await this.repository.findFindingsByInspection(inspectionId);
 
-    // Get checklist
-    const checklist = checklistService.getChecklist(inspection.checklistId);
-    const allSections = checklist ? checklistService.getAllSections(inspection.checklistId) : [];
+    // Get the checklist as it applies to this property
+    const plan = await this.loadPlan(inspection);
+    const checklist = plan?.checklist ?? null;
+    const allSections = checklist ? flattenSections(checklist) : [];
 
     // Count findings per section
     const findingsBySection = this.groupFindingsBySection(findings);
@@ -156,8 +182,10 @@ export class NavigationService {
 
     const currentFindingsCount = findingsBySection.get(inspection.currentSection) || 0;
 
-    // Can complete if at least 50% of sections visited
-    const canComplete = visitedSections >= Math.ceil(totalSections * 0.5);
+    const missing = checklist ? validateInspection(checklist, inspection, findings).missing : [];
+
+    // Can complete if at least 50% of sections visited and the checklist's requirements are met
+    const canComplete = visitedSections >= Math.ceil(totalSections * 0.5) && missing.length === 0;
 
     return {
       inspectionId,
@@ -180,6 +208,8 @@ export class NavigationService {
       sections: sectionStatuses,
       totalFindings: findings.length,
       canComplete,
+      missing,
+      skipped: plan?.skipped ?? [],
     };
   }
 
@@ -198,13 +228,14 @@ export class NavigationService {
     const findingsBySection = this.groupFindingsBySection(findings);
     const visitedSectionIds = new Set(findingsBySection.keys());
 
-    // Get checklist
-    const checklist = checklistService.getChecklist(inspection.checklistId);
-    const allSections = checklist ? checklistService.getAllSections(inspection.checklistId) : [];
+    // Get the checklist as it applies to this property
+    const plan = await this.loadPlan(inspection);
+    const checklist = plan?.checklist ?? null;
+    const allSections = checklist ? flattenSections(checklist) : [];
 
     // Find next unvisited section
     const currentIndex = allSections.findIndex((s) => s.id === inspection.currentSection);
-    let nextSection: { id: string; name: string; prompt?: string } | undefined;
+    let nextSection: SuggestResult['nextSection'];
 
     // Look for next unvisited section after current
     for (let i = currentIndex + 1; i < allSections.length; i++) {
@@ -215,6 +246,7 @@ export class NavigationService {
           id: section.id,
           name: section.name,
           prompt: sectionData?.prompt,
+          items: sectionData?.items,
         };
         break;
       }
@@ -230,6 +262,7 @@ export class NavigationService {
             id: section.id,
             name: section.name,
             prompt: sectionData?.prompt,
+            items: sectionData?.items,
           };
           break;
         }
@@ -237,17 +270,23 @@ export class NavigationService {
     }
 
     const remainingSections = allSections.filter((s) => !visitedSectionIds.has(s.id)).length;
-    const canComplete = visitedSectionIds.size >= Math.ceil(allSections.length * 0.5);
+    const missing = checklist ? validateInspection(checklist, inspection, findings).missing : [];
+    const canComplete = visitedSectionIds.size >= Math.ceil(allSections.length * 0.5) && missing.length === 0;
 
     // Generate suggestion text
     let suggestion: string;
-    if (remainingSections === 0) {
+    if (remainingSections === 0 && missing.length > 0) {
+      suggestion = `All sections have been visited, but ${missing.length} requirement(s) are outstanding before completing: ${missing.map((m) => m.message).join('; ')}.`;
+    } else if (remainingSections === 0) {
       suggestion = 'All sections have been visited. You can complete the inspection and generate a report.';
     } else if (canComplete) {
       suggestion = `You have visited ${visitedSectionIds.size} of ${allSections.length} sections. You can complete now or continue with ${remainingSections} remaining section(s).`;
     } else {
       suggestion = `Continue inspection. ${remainingSections} section(s) remaining. Visit at least ${Math.ceil(allSections.length * 0.5) - visitedSectionIds.size} more section(s) before completing.`;
     }
+    if (plan && plan.skipped.length > 0) {
+      suggestion += ` Not applicable to this property: ${plan.skipped.map((s) => `${s.name} (${s.reason})`).join(', ')}.`;
+    }
 
     return {
       inspectionId,
@@ -255,10 +294,23 @@ export class NavigationService {
       nextSection,
       remainingSections,
       canComplete,
+      missing,
+      skipped: plan?.skipped ?? [],
       suggestion,
     };
   }
 
+  /**
+   * The inspection's checklist resolved against its property, or null when
+   * the checklist no longer exists.
+   */
+  private async loadPlan(inspection: Inspection): Promise<ChecklistPlan | null> {
+    const checklist = await this.checklists.forInspection(inspection);
+    if (!checklist) return null;
+    const project = await this.repository.findProject(inspection.id);
+    return resolvePlan(checklist, inspectionFacts(inspection, project ?? null));
+  }
+
   /**
    * Find a section in checklist (handles nested subareas).
    */
@@ -0,0 +1,145 @@
+/**
+ * Organisation Service
+ *
+ * Organisations own projects, properties and clients. Every authenticated
+ * request is resolved to one organisation membership, and repositories
+ * filter by that organisation so other tenants' records are invisible.
+ */
+
+import type { Organization, OrganizationMembership, OrganizationRole } from '@prisma/client';
+import type {
+  IOrganizationRepository,
+  CreateOrganizationInput,
+  UpdateOrganizationInput,
+  MembershipWithUser,
+  MembershipWithOrganization,
+} from '../repositories/interfaces/organization.js';
+
+export class OrganizationNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Organisation not found: ${id}`);
+    this.name = 'OrganizationNotFoundError';
+  }
+}
+
+export class OrganizationAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrganizationAccessError';
+  }
+}
+
+export class MembershipNotFoundError extends Error {
+  constructor(userId: string) {
+    super(`Membership not found for user: ${userId}`);
+    this.name = 'MembershipNotFoundError';
+  }
+}
+
+export class MembershipConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MembershipConflictError';
+  }
+}
+
+export class MemberUserNotFoundError extends Error {
+  constructor(email: string) {
+    super(`No user registered with email: ${email}`);
+    this.name = 'MemberUserNotFoundError';
+  }
+}
+
+export class OrganizationService {
+  constructor(private repository: IOrganizationRepository) {}
+
+  async create(input: CreateOrganizationInput, userId: string): Promise<Organization> {
+    return this.repository.create(input, userId);
+  }
+
+  async findById(id: string): Promise<Organization> {
+    const organization = await this.repository.findById(id);
+    if (!organization) {
+      throw new OrganizationNotFoundError(id);
+    }
+    return organization;
+  }
+
+  async findForUser(userId: string): Promise<MembershipWithOrganization[]> {
+    return this.repository.findMembershipsForUser(userId);
+  }
+
+  async update(id: string, input: UpdateOrganizationInput): Promise<Organization> {
+    await this.findById(id);
+    return this.repository.update(id, input);
+  }
+
+  /**
+   * Resolve the organisation a request acts in. An explicit organisation must
+   * be one the user belongs to; otherwise the user's first membership is used.
+   */
+  async resolveMembership(userId: string, organizationId?: string): Promise<OrganizationMembership> {
+    if (organizationId) {
+      const membership = await this.repository.findMembership(organizationId, userId);
+      if (!membership) {
+        throw new OrganizationAccessError(`Not a member of organisation ${organizationId}`);
+      }
+      return membership;
+    }
+
+    const [first] = await this.repository.findMembershipsForUser(userId);
+    if (!first) {
+      throw new OrganizationAccessError('User does not belong to an organisation');
+    }
+    return first;
+  }
+
+  // ============================================
+  // Members
+  // ============================================
+
+  async findMembers(organizationId: string): Promise<MembershipWithUser[]> {
+    return this.repository.findMembers(organizationId);
+  }
+
+  async addMember(organizationId: string, email: string, role: OrganizationRole): Promise<MembershipWithUser> {
+    const userId = await this.repository.findUserIdByEmail(email);
+    if (!userId) {
+      throw new MemberUserNotFoundError(email);
+    }
+    if (await this.repository.findMembership(organizationId, userId)) {
+      throw new MembershipConflictError(`${email} is already a member of this organisation`);
+    }
+    return this.repository.addMember(organizationId, userId, role);
+  }
+
+  async updateMemberRole(organizationId: string, userId: string, role: OrganizationRole): Promise<MembershipWithUser> {
+    const membership = await this.findMembership(organizationId, userId);
+    if (membership.role === 'ORG_ADMIN' && role !== 'ORG_ADMIN') {
+      await this.assertNotLastAdmin(organizationId);
+    }
+    return this.repository.updateMemberRole(organizationId, userId, role);
+  }
+
+  async removeMember(organizationId: string, userId: string): Promise<void> {
+    const membership = await this.findMembership(organizationId, userId);
+    if (membership.role === 'ORG_ADMIN') {
+      await this.assertNotLastAdmin(organizationId);
+    }
+    await this.repository.removeMember(organizationId, userId);
+  }
+
+  private async findMembership(organizationId: string, userId: string): Promise<OrganizationMembership> {
+    const membership = await this.repository.findMembership(organizationId, userId);
+    if (!membership) {
+      throw new MembershipNotFoundError(userId);
+    }
+    return membership;
+  }
+
+  private async assertNotLastAdmin(organizationId: string): Promise<void> {
+    if ((await this.repository.countAdmins(organizationId)) <= 1) {
+      throw new MembershipConflictError('An organisation must keep at least one admin');
+    }
+  }
+}
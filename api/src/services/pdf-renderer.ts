@@ -0,0 +1,63 @@
+/**
+ * PDF Renderer
+ * Shared Puppeteer HTML-to-PDF rendering for generated reports.
+ */
+
+import puppeteer from 'puppeteer';
+
+export interface PdfRenderOptions {
+  /** Title shown in the running page header */
+  headerTitle: string;
+}
+
+/**
+ * Render HTML to an A4 PDF file using Puppeteer.
+ */
+export async function renderHtmlToPdf(
+  html: string,
+  outputPath: string,
+  options: PdfRenderOptions
+): Promise<void> {
+  const browser = await puppeteer.launch({
+    headless: true,
+    args: ['--no-sandbox', '--disable-setuid-sandbox'],
+  });
+
+  try {
+    const page = await browser.newPage();
+
+    // Set content and wait for images
+    await page.setContent(html, {
+      waitUntil: 'networkidle0',
+      timeout: 30000,
+    });
+
+    // Generate PDF
+    await page.pdf({
+      path: outputPath,
+      format: 'A4',
+      printBackground: true,
+      margin: {
+        top: '20mm',
+        right: '15mm',
+        bottom: '25mm',
+        left: '15mm',
+      },
+      displayHeaderFooter: true,
+      headerTemplate: `
+        <div style="font-size: 9px; width: 100%; padding: 0 15mm; display: flex; justify-content: space-between;">
+          <span>${options.headerTitle}</span>
+          <span></span>
+        </div>
+      `,
+      footerTemplate: `
+        <div style="font-size: 9px; width: 100%; padding: 0 15mm; display: flex; justify-content: space-between;">
+          <span>Confidential</span>
+          <span>Page <span class="pageNumber"></span> of <span class="totalPages"></span></span>
+        </div>
+      `,
+    });
+  } finally {
+    await browser.close();
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * PDF Text Extraction
+ *
+ * Pulls the text layer out of uploaded PDFs so documents can be classified.
+ * Scanned PDFs have no text layer and come back empty; they are classified
+ * from the filename alone.
+ */
+
+import { getDocument, VerbosityLevel } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+/** Certificates put everything that matters on the first pages */
+const MAX_PAGES = 5;
+
+interface TextItem {
+  str: string;
+  hasEOL?: boolean;
+}
+
+/**
+ * Text of the first pages of a PDF, one line per text line. Returns an empty
+ * string when the PDF cannot be read (encrypted, corrupt).
+ */
+export async function extractPdfText(buffer: Buffer, maxPages = MAX_PAGES): Promise<string> {
+  const task = getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    useSystemFonts: false,
+    verbosity: VerbosityLevel.ERRORS,
+  });
+
+  try {
+    const pdf = await task.promise;
+    const pages: string[] = [];
+
+    for (let number = 1; number <= Math.min(pdf.numPages, maxPages); number++) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      pages.push((content.items as TextItem[])
+        .map((item) => item.str + (item.hasEOL ? '\n' : ''))
+        .join(''));
+    }
+    return pages.join('\n');
+  } catch {
+    return '';
+  } finally {
+    await task.destroy();
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Organisation Permissions
+ *
+ * The permission table for organisation roles. Routes check permissions,
+ * never roles, so changing what a role may do only touches this table.
+ * See: docs/api/README.md#roles-and-permissions
+ */
+
+import type { OrganizationRole } from '@prisma/client';
+
+export const PERMISSIONS = [
+  'projects:write',
+  'projects:delete',
+  'projects:review',
+  'properties:write',
+  'clients:write',
+  'personnel:manage',
+  'inspections:write',
+  'inspections:write:any',
+  'reports:write',
+  'reports:review',
+  'reports:revert',
+  'templates:manage',
+  'organization:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * - inspections:write lets a role create inspections and edit the ones
+ *   assigned to its own personnel record; inspections:write:any lifts the
+ *   ownership check.
+ * - projects:review is needed to move a project to REVIEW or COMPLETED.
+ * - reports:write submits reports for review and resolves review comments;
+ *   reports:review adds, edits and dismisses them.
+ * - personnel:manage covers companies, personnel and their credentials.
+ * - templates:manage covers the organisation's report templates.
+ */
+export const ROLE_PERMISSIONS: Record<OrganizationRole, readonly Permission[]> = {
+  INSPECTOR: ['projects:write', 'properties:write', 'inspections:write', 'reports:write'],
+  REVIEWER: [
+    'projects:write',
+    'projects:review',
+    'properties:write',
+    'inspections:write',
+    'inspections:write:any',
+    'reports:write',
+    'reports:review',
+  ],
+  OFFICE_ADMIN: ['projects:write', 'projects:delete', 'properties:write', 'clients:write', 'personnel:manage'],
+  ORG_ADMIN: PERMISSIONS,
+};
+
+export function permissionsFor(role: OrganizationRole | undefined): Permission[] {
+  return role ? [...ROLE_PERMISSIONS[role]] : [];
+}
+
+export function hasPermission(role: OrganizationRole | undefined, permission: Permission): boolean {
+  return role !== undefined && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/** Whether every permission of role is also granted to limit */
+export function roleWithin(role: OrganizationRole, limit: OrganizationRole): boolean {
+  return ROLE_PERMISSIONS[role].every((permission) => hasPermission(limit, permission));
+}
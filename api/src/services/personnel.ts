@@ -0,0 +1,646 @@
+/**
+ * Personnel & Credentials Service — Issue #155
+ *
+ * Companies, personnel, credentials, the role capability matrix and
+ * signature blocks for reports.
+ * See: docs/design/009-personnel-credentials.md
+ */
+
+import type {
+  Company,
+  Personnel,
+  Credential,
+  CredentialType,
+  PersonnelRole,
+  Report,
+  ReportType,
+} from '@prisma/client';
+import type {
+  ICompanyRepository,
+  IPersonnelRepository,
+  CreateCompanyInput,
+  UpdateCompanyInput,
+  CreatePersonnelInput,
+  UpdatePersonnelInput,
+  PersonnelSearchParams,
+  PersonnelWithCredentials,
+  CreateCredentialInput,
+  UpdateCredentialInput,
+  CredentialWithPersonnel,
+} from '../repositories/interfaces/personnel.js';
+
+export class CompanyNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Company not found: ${id}`);
+    this.name = 'CompanyNotFoundError';
+  }
+}
+
+export class CompanyInUseError extends Error {
+  constructor(id: string, count: number) {
+    super(`Company ${id} still has ${count} personnel record(s)`);
+    this.name = 'CompanyInUseError';
+  }
+}
+
+export class PersonnelNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Personnel not found: ${id}`);
+    this.name = 'PersonnelNotFoundError';
+  }
+}
+
+export class PersonnelConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PersonnelConflictError';
+  }
+}
+
+export class PersonnelCapabilityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PersonnelCapabilityError';
+  }
+}
+
+export class CredentialNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Credential not found: ${id}`);
+    this.name = 'CredentialNotFoundError';
+  }
+}
+
+export class CredentialValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialValidationError';
+  }
+}
+
+// ============================================
+// Capability matrix
+// ============================================
+
+export interface RoleCapabilities {
+  canAuthor: boolean;
+  canReview: boolean;
+  canInspect: boolean;
+  canApprove: boolean;
+}
+
+export const ROLE_CAPABILITIES: Record<PersonnelRole, RoleCapabilities> = {
+  REGISTERED_BUILDING_SURVEYOR: { canAuthor: true, canReview: true, canInspect: true, canApprove: true },
+  BUILDING_SURVEYOR: { canAuthor: true, canReview: false, canInspect: true, canApprove: false },
+  INSPECTOR: { canAuthor: false, canReview: false, canInspect: true, canApprove: false },
+  ADMIN: { canAuthor: false, canReview: false, canInspect: false, canApprove: false },
+};
+
+export type SigningCapacity = 'author' | 'reviewer';
+
+/**
+ * Roles that may sign each report type. Auckland Council requires a
+ * Registered Building Surveyor for COA assessments.
+ */
+export const SIGNING_MATRIX: Record<ReportType, Record<SigningCapacity, PersonnelRole[]>> = {
+  COA: {
+    author: ['REGISTERED_BUILDING_SURVEYOR'],
+    reviewer: ['REGISTERED_BUILDING_SURVEYOR'],
+  },
+  CCC_GAP: {
+    author: ['REGISTERED_BUILDING_SURVEYOR', 'BUILDING_SURVEYOR'],
+    reviewer: ['REGISTERED_BUILDING_SURVEYOR'],
+  },
+  PPI: {
+    author: ['REGISTERED_BUILDING_SURVEYOR', 'BUILDING_SURVEYOR'],
+    reviewer: ['REGISTERED_BUILDING_SURVEYOR'],
+  },
+  SAFE_SANITARY: {
+    author: ['REGISTERED_BUILDING_SURVEYOR', 'BUILDING_SURVEYOR'],
+    reviewer: ['REGISTERED_BUILDING_SURVEYOR'],
+  },
+  TFA: {
+    author: ['REGISTERED_BUILDING_SURVEYOR', 'BUILDING_SURVEYOR'],
+    reviewer: ['REGISTERED_BUILDING_SURVEYOR'],
+  },
+};
+
+const ROLE_LEVEL: Record<PersonnelRole, number> = {
+  REGISTERED_BUILDING_SURVEYOR: 3,
+  BUILDING_SURVEYOR: 2,
+  INSPECTOR: 1,
+  ADMIN: 0,
+};
+
+const ROLE_LABELS: Record<PersonnelRole, string> = {
+  REGISTERED_BUILDING_SURVEYOR: 'Registered Building Surveyor',
+  BUILDING_SURVEYOR: 'Building Surveyor',
+  INSPECTOR: 'Inspector',
+  ADMIN: 'Admin',
+};
+
+// ============================================
+// Credential formatting and validation
+// ============================================
+
+const CREDENTIAL_PRIORITY: Record<CredentialType, number> = {
+  NZIBS: 1,
+  ENG_NZ: 2,
+  LBP: 3,
+  ACADEMIC: 4,
+  OTHER: 5,
+};
+
+const LBP_LICENSE_PATTERN = /^BP\d{6}$/;
+
+export function validateLBPLicense(licenseNumber: string): boolean {
+  return LBP_LICENSE_PATTERN.test(licenseNumber);
+}
+
+function isExpired(credential: Pick<Credential, 'expiryDate'>, now: Date): boolean {
+  return credential.expiryDate !== null && credential.expiryDate.getTime() < now.getTime();
+}
+
+/**
+ * Format credentials for reports: registration, then memberships by
+ * priority, then academic qualifications. Expired credentials are omitted.
+ */
+export function formatCredentials(credentials: Credential[], now: Date = new Date()): string {
+  const current = credentials.filter((c) => !isExpired(c, now));
+  const parts: string[] = [];
+
+  const registration = current.find((c) => c.registration);
+  if (registration?.registration) {
+    parts.push(registration.registration);
+  }
+
+  const memberships = current
+    .filter((c) => c.membershipCode)
+    .sort((a, b) => CREDENTIAL_PRIORITY[a.type] - CREDENTIAL_PRIORITY[b.type])
+    .map((c) => c.membershipCode as string);
+  parts.push(...memberships);
+
+  const qualifications = current
+    .filter((c) => c.type === 'ACADEMIC')
+    .flatMap((c) => c.qualifications);
+  parts.push(...qualifications);
+
+  return Array.from(new Set(parts)).join(', ');
+}
+
+/**
+ * Type-specific credential rules. Returns an error message or null.
+ */
+function validateCredential(input: {
+  type: CredentialType;
+  membershipCode?: string | null;
+  registration?: string | null;
+  licenseNumber?: string | null;
+  qualifications?: string[];
+  issuedDate?: Date | null;
+  expiryDate?: Date | null;
+}): string | null {
+  if (input.type === 'LBP') {
+    if (!input.licenseNumber) {
+      return 'LBP credentials require a license number';
+    }
+    if (!validateLBPLicense(input.licenseNumber)) {
+      return `Invalid LBP license number "${input.licenseNumber}" (expected BP followed by 6 digits)`;
+    }
+  }
+  if ((input.type === 'NZIBS' || input.type === 'ENG_NZ') && !input.membershipCode && !input.registration) {
+    return `${input.type} credentials require a membership code or registration`;
+  }
+  if (input.type === 'ACADEMIC' && (!input.qualifications || input.qualifications.length === 0)) {
+    return 'Academic credentials require at least one qualification';
+  }
+  if (input.issuedDate && input.expiryDate && input.expiryDate < input.issuedDate) {
+    return 'Expiry date must be after issued date';
+  }
+  return null;
+}
+
+// ============================================
+// Expiry alerts
+// ============================================
+
+export const DEFAULT_EXPIRY_THRESHOLDS = [90, 60, 30];
+
+export type ExpiryAlertLevel = 'INFO' | 'WARNING' | 'URGENT' | 'EXPIRED';
+
+export interface ExpiringCredential extends CredentialWithPersonnel {
+  daysUntilExpiry: number;
+  /** Smallest threshold (in days) the credential falls within; 0 when expired */
+  threshold: number;
+  level: ExpiryAlertLevel;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Signature blocks
+// ============================================
+
+export interface SignatureParty {
+  personnelId: string;
+  name: string;
+  role: PersonnelRole;
+  credentials: string;
+  company: string;
+  /** Lines as rendered under the signature line */
+  lines: string[];
+}
+
+export interface AssignmentIssue {
+  field: 'preparedById' | 'reviewedById';
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface SignatureBlock {
+  author: SignatureParty | null;
+  reviewer: SignatureParty | null;
+  issues: AssignmentIssue[];
+}
+
+export class CompanyService {
+  constructor(private repository: ICompanyRepository) {}
+
+  async create(organizationId: string, input: CreateCompanyInput): Promise<Company> {
+    return this.repository.create(organizationId, input);
+  }
+
+  async findAll(organizationId: string): Promise<Company[]> {
+    return this.repository.findAll(organizationId);
+  }
+
+  async findById(organizationId: string, id: string): Promise<Company> {
+    const company = await this.repository.findById(organizationId, id);
+    if (!company) {
+      throw new CompanyNotFoundError(id);
+    }
+    return company;
+  }
+
+  async update(organizationId: string, id: string, input: UpdateCompanyInput): Promise<Company> {
+    await this.findById(organizationId, id);
+    return this.repository.update(organizationId, id, input);
+  }
+
+  /**
+   * Delete a company. Companies with personnel cannot be deleted;
+   * deactivate the personnel instead.
+   */
+  async delete(organizationId: string, id: string): Promise<void> {
+    await this.findById(organizationId, id);
+    const count = await this.repository.countPersonnel(id);
+    if (count > 0) {
+      throw new CompanyInUseError(id, count);
+    }
+    await this.repository.delete(organizationId, id);
+  }
+}
+
+export class PersonnelService {
+  constructor(
+    private repository: IPersonnelRepository,
+    private companyRepository: ICompanyRepository
+  ) {}
+
+  async create(organizationId: string, input: CreatePersonnelInput): Promise<PersonnelWithCredentials> {
+    await this.assertCompanyExists(organizationId, input.companyId);
+    await this.assertUnique(input);
+    return this.repository.create(input);
+  }
+
+  async findAll(organizationId: string, params?: PersonnelSearchParams): Promise<PersonnelWithCredentials[]> {
+    return this.repository.findAll(organizationId, params);
+  }
+
+  async findById(organizationId: string, id: string): Promise<PersonnelWithCredentials> {
+    const personnel = await this.repository.findById(organizationId, id);
+    if (!personnel) {
+      throw new PersonnelNotFoundError(id);
+    }
+    return personnel;
+  }
+
+  async findByUserId(userId: string): Promise<PersonnelWithCredentials | null> {
+    return this.repository.findByUserId(userId);
+  }
+
+  async update(organizationId: string, id: string, input: UpdatePersonnelInput): Promise<Personnel> {
+    await this.findById(organizationId, id);
+    if (input.companyId) {
+      await this.assertCompanyExists(organizationId, input.companyId);
+    }
+    await this.assertUnique(input, id);
+    return this.repository.update(organizationId, id, input);
+  }
+
+  /**
+   * Soft delete: personnel stay linked to past inspections and reports.
+   */
+  async deactivate(organizationId: string, id: string): Promise<Personnel> {
+    await this.findById(organizationId, id);
+    return this.repository.update(organizationId, id, { active: false });
+  }
+
+  async getCredentialsString(organizationId: string, id: string): Promise<string> {
+    const personnel = await this.findById(organizationId, id);
+    return formatCredentials(personnel.credentials);
+  }
+
+  /**
+   * Role capabilities and the report types the person may sign.
+   */
+  async getCapabilities(organizationId: string, id: string): Promise<RoleCapabilities & {
+    role: PersonnelRole;
+    active: boolean;
+    signs: Record<SigningCapacity, ReportType[]>;
+  }> {
+    const personnel = await this.findById(organizationId, id);
+    const reportTypes = Object.keys(SIGNING_MATRIX) as ReportType[];
+    return {
+      role: personnel.role,
+      active: personnel.active,
+      ...ROLE_CAPABILITIES[personnel.role],
+      signs: {
+        author: reportTypes.filter((t) => SIGNING_MATRIX[t].author.includes(personnel.role)),
+        reviewer: reportTypes.filter((t) => SIGNING_MATRIX[t].reviewer.includes(personnel.role)),
+      },
+    };
+  }
+
+  /**
+   * Active personnel who may sign a report (of a given type) as author or reviewer.
+   */
+  async findSigners(
+    organizationId: string,
+    capacity: SigningCapacity,
+    reportType?: ReportType
+  ): Promise<PersonnelWithCredentials[]> {
+    const roles = reportType
+      ? SIGNING_MATRIX[reportType][capacity]
+      : (Object.keys(ROLE_CAPABILITIES) as PersonnelRole[]).filter((role) =>
+          capacity === 'author' ? ROLE_CAPABILITIES[role].canAuthor : ROLE_CAPABILITIES[role].canReview
+        );
+    return this.repository.findAll(organizationId, { role: roles, active: true });
+  }
+
+  /**
+   * Check whether a person may sign a report type in the given capacity.
+   * Returns a list of problems; empty when allowed.
+   */
+  async checkSigning(
+    organizationId: string,
+    id: string,
+    capacity: SigningCapacity,
+    reportType?: ReportType
+  ): Promise<string[]> {
+    const personnel = await this.findById(organizationId, id);
+    return this.signingIssues(personnel, capacity, reportType ?? null)
+      .filter((issue) => issue.severity === 'error')
+      .map((issue) => issue.message);
+  }
+
+  /**
+   * Resolve an inspector for a site inspection; must be active and able to inspect.
+   */
+  async assertCanInspect(organizationId: string, id: string): Promise<PersonnelWithCredentials> {
+    const personnel = await this.findById(organizationId, id);
+    if (!personnel.active) {
+      throw new PersonnelCapabilityError(`${personnel.name} is inactive`);
+    }
+    if (!ROLE_CAPABILITIES[personnel.role].canInspect) {
+      throw new PersonnelCapabilityError(`${ROLE_LABELS[personnel.role]} cannot carry out inspections`);
+    }
+    return personnel;
+  }
+
+  // ============================================
+  // Credentials
+  // ============================================
+
+  async addCredential(
+    organizationId: string,
+    personnelId: string,
+    input: Omit<CreateCredentialInput, 'personnelId'>
+  ): Promise<Credential> {
+    await this.findById(organizationId, personnelId);
+    const error = validateCredential(input);
+    if (error) {
+      throw new CredentialValidationError(error);
+    }
+    return this.repository.createCredential({ ...input, personnelId });
+  }
+
+  async findCredential(organizationId: string, id: string): Promise<Credential> {
+    const credential = await this.repository.findCredentialById(organizationId, id);
+    if (!credential) {
+      throw new CredentialNotFoundError(id);
+    }
+    return credential;
+  }
+
+  async updateCredential(organizationId: string, id: string, input: UpdateCredentialInput): Promise<Credential> {
+    const existing = await this.findCredential(organizationId, id);
+    const error = validateCredential({
+      type: input.type ?? existing.type,
+      membershipCode: input.membershipCode !== undefined ? input.membershipCode : existing.membershipCode,
+      registration: input.registration !== undefined ? input.registration : existing.registration,
+      licenseNumber: input.licenseNumber !== undefined ? input.licenseNumber : existing.licenseNumber,
+      qualifications: input.qualifications ?? existing.qualifications,
+      issuedDate: input.issuedDate !== undefined ? input.issuedDate : existing.issuedDate,
+      expiryDate: input.expiryDate !== undefined ? input.expiryDate : existing.expiryDate,
+    });
+    if (error) {
+      throw new CredentialValidationError(error);
+    }
+    return this.repository.updateCredential(organizationId, id, input);
+  }
+
+  async deleteCredential(organizationId: string, id: string): Promise<void> {
+    await this.findCredential(organizationId, id);
+    await this.repository.deleteCredential(organizationId, id);
+  }
+
+  /**
+   * Credentials of active personnel expiring within the largest threshold,
+   * including those already expired, with an alert level per threshold.
+   */
+  async getExpiringCredentials(
+    organizationId: string,
+    thresholds: number[] = DEFAULT_EXPIRY_THRESHOLDS,
+    now: Date = new Date()
+  ): Promise<ExpiringCredential[]> {
+    const sorted = Array.from(new Set(thresholds)).sort((a, b) => a - b);
+    const maxDays = sorted[sorted.length - 1] ?? 0;
+    const credentials = await this.repository.findExpiringCredentials(
+      organizationId,
+      new Date(now.getTime() + maxDays * DAY_MS)
+    );
+
+    return credentials.map((credential) => {
+      const daysUntilExpiry = Math.ceil(((credential.expiryDate as Date).getTime() - now.getTime()) / DAY_MS);
+      if (daysUntilExpiry < 0) {
+        return { ...credential, daysUntilExpiry, threshold: 0, level: 'EXPIRED' };
+      }
+
+      const index = sorted.findIndex((days) => daysUntilExpiry <= days);
+      const level: ExpiryAlertLevel = index === 0 ? 'URGENT' : index === 1 ? 'WARNING' : 'INFO';
+      return { ...credential, daysUntilExpiry, threshold: sorted[index] as number, level };
+    });
+  }
+
+  // ============================================
+  // Report integration
+  // ============================================
+
+  /**
+   * Signature party for a user, or null when the user has no personnel record.
+   */
+  async getSignatureParty(userId: string, label: string): Promise<SignatureParty | null> {
+    const personnel = await this.repository.findByUserId(userId);
+    return personnel ? this.toSignatureParty(personnel, label) : null;
+  }
+
+  /**
+   * Signature block for a report's author and reviewer, with any
+   * capability problems for the report type.
+   */
+  async getSignatureBlock(report: Report): Promise<SignatureBlock> {
+    const author = report.preparedById ? await this.repository.findByUserId(report.preparedById) : null;
+    const reviewer = report.reviewedById ? await this.repository.findByUserId(report.reviewedById) : null;
+
+    return {
+      author: author ? this.toSignatureParty(author, 'Report prepared by:') : null,
+      reviewer: reviewer ? this.toSignatureParty(reviewer, 'Peer reviewed by:') : null,
+      issues: this.assignmentIssues(report, author, reviewer),
+    };
+  }
+
+  /**
+   * Validate that the report's author and reviewer may sign it.
+   */
+  async validateReportAssignment(report: Report): Promise<AssignmentIssue[]> {
+    const { issues } = await this.getSignatureBlock(report);
+    return issues;
+  }
+
+  private assignmentIssues(
+    report: Report,
+    author: PersonnelWithCredentials | null,
+    reviewer: PersonnelWithCredentials | null
+  ): AssignmentIssue[] {
+    const issues: AssignmentIssue[] = [];
+
+    if (report.preparedById) {
+      if (!author) {
+        issues.push({ field: 'preparedById', message: 'Author has no personnel record', severity: 'error' });
+      } else {
+        issues.push(...this.signingIssues(author, 'author', report.type).map((i) => ({ ...i, field: 'preparedById' as const })));
+      }
+    }
+
+    if (report.reviewedById) {
+      if (!reviewer) {
+        issues.push({ field: 'reviewedById', message: 'Reviewer has no personnel record', severity: 'error' });
+      } else {
+        issues.push(...this.signingIssues(reviewer, 'reviewer', report.type).map((i) => ({ ...i, field: 'reviewedById' as const })));
+        if (author && ROLE_LEVEL[reviewer.role] < ROLE_LEVEL[author.role]) {
+          issues.push({
+            field: 'reviewedById',
+            message: 'Reviewer should have higher credentials than author',
+            severity: 'warning',
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  private signingIssues(
+    personnel: PersonnelWithCredentials,
+    capacity: SigningCapacity,
+    reportType: ReportType | null
+  ): Array<Omit<AssignmentIssue, 'field'>> {
+    const issues: Array<Omit<AssignmentIssue, 'field'>> = [];
+    const roleLabel = ROLE_LABELS[personnel.role];
+
+    if (!personnel.active) {
+      issues.push({ message: `${personnel.name} is inactive`, severity: 'error' });
+    }
+
+    if (reportType) {
+      if (!SIGNING_MATRIX[reportType][capacity].includes(personnel.role)) {
+        issues.push({
+          message: `${roleLabel} cannot sign ${reportType} reports as ${capacity}`,
+          severity: 'error',
+        });
+      }
+    } else {
+      const capabilities = ROLE_CAPABILITIES[personnel.role];
+      if (capacity === 'author' ? !capabilities.canAuthor : !capabilities.canReview) {
+        issues.push({ message: `${roleLabel} cannot ${capacity === 'author' ? 'author' : 'review'} reports`, severity: 'error' });
+      }
+    }
+
+    const now = new Date();
+    for (const credential of personnel.credentials) {
+      if (credential.type !== 'ACADEMIC' && isExpired(credential, now)) {
+        issues.push({
+          message: `${personnel.name}'s ${credential.type} credential expired on ${(credential.expiryDate as Date).toISOString().slice(0, 10)}`,
+          severity: 'warning',
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  private toSignatureParty(personnel: PersonnelWithCredentials, label: string): SignatureParty {
+    const credentials = formatCredentials(personnel.credentials);
+    return {
+      personnelId: personnel.id,
+      name: personnel.name,
+      role: personnel.role,
+      credentials,
+      company: personnel.company.name,
+      lines: [
+        label,
+        '_________________________',
+        personnel.name,
+        ...(credentials ? [credentials] : []),
+        'For and on behalf of',
+        personnel.company.name,
+      ],
+    };
+  }
+
+  /**
+   * Email is unique, and a user account links to at most one personnel record.
+   */
+  private async assertUnique(input: { email?: string; userId?: string | null }, excludeId?: string): Promise<void> {
+    if (input.email) {
+      const existing = await this.repository.findByEmail(input.email);
+      if (existing && existing.id !== excludeId) {
+        throw new PersonnelConflictError(`Personnel with email ${input.email} already exists`);
+      }
+    }
+    if (input.userId) {
+      const existing = await this.repository.findByUserId(input.userId);
+      if (existing && existing.id !== excludeId) {
+        throw new PersonnelConflictError(`User ${input.userId} is already linked to ${existing.name}`);
+      }
+    }
+  }
+
+  private async assertCompanyExists(organizationId: string, companyId: string): Promise<void> {
+    const company = await this.companyRepository.findById(organizationId, companyId);
+    if (!company) {
+      throw new CompanyNotFoundError(companyId);
+    }
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Photo Annotations
+ *
+ * Inspectors mark up photos (circle a crack, arrow a missing flashing, label
+ * an element) before they go into a report. Shapes are stored as vectors on
+ * the photo so they stay editable, and rendered onto a copy of the image for
+ * reports; the original is never changed.
+ *
+ * Coordinates are fractions (0–1) of the image width and height, so the same
+ * shapes fit the original, the thumbnail and the on-screen image.
+ */
+
+import sharp from 'sharp';
+
+/** Red shows up against timber, cladding and membranes alike */
+export const DEFAULT_ANNOTATION_COLOR = '#e11d48';
+
+export interface EllipseAnnotation {
+  type: 'ellipse';
+  /** Bounding box */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string;
+}
+
+export interface RectangleAnnotation {
+  type: 'rectangle';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string;
+}
+
+export interface ArrowAnnotation {
+  type: 'arrow';
+  /** Tail */
+  x1: number;
+  y1: number;
+  /** Head */
+  x2: number;
+  y2: number;
+  color?: string;
+}
+
+export interface LabelAnnotation {
+  type: 'label';
+  /** Top-left of the text */
+  x: number;
+  y: number;
+  text: string;
+  color?: string;
+}
+
+export type PhotoAnnotation = EllipseAnnotation | RectangleAnnotation | ArrowAnnotation | LabelAnnotation;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function arrowHead(x1: number, y1: number, x2: number, y2: number, size: number): string {
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  const spread = Math.PI / 7;
+  const point = (theta: number) =>
+    `${(x2 - size * Math.cos(theta)).toFixed(1)},${(y2 - size * Math.sin(theta)).toFixed(1)}`;
+  return `${x2.toFixed(1)},${y2.toFixed(1)} ${point(angle - spread)} ${point(angle + spread)}`;
+}
+
+/**
+ * The annotations as an SVG the size of the image. Stroke and text sizes
+ * scale with the image so markup reads the same on a phone photo and a scan.
+ */
+export function annotationSvg(annotations: PhotoAnnotation[], width: number, height: number): string {
+  const unit = Math.min(width, height);
+  const stroke = Math.max(3, Math.round(unit * 0.006));
+  const fontSize = Math.max(14, Math.round(unit * 0.04));
+
+  const elements = annotations.map((shape) => {
+    const color = escapeXml(shape.color ?? DEFAULT_ANNOTATION_COLOR);
+    switch (shape.type) {
+      case 'ellipse':
+        return `<ellipse cx="${((shape.x + shape.width / 2) * width).toFixed(1)}" cy="${((shape.y + shape.height / 2) * height).toFixed(1)}" ` +
+          `rx="${(shape.width / 2 * width).toFixed(1)}" ry="${(shape.height / 2 * height).toFixed(1)}" ` +
+          `fill="none" stroke="${color}" stroke-width="${stroke}"/>`;
+      case 'rectangle':
+        return `<rect x="${(shape.x * width).toFixed(1)}" y="${(shape.y * height).toFixed(1)}" ` +
+          `width="${(shape.width * width).toFixed(1)}" height="${(shape.height * height).toFixed(1)}" ` +
+          `fill="none" stroke="${color}" stroke-width="${stroke}"/>`;
+      case 'arrow': {
+        const [x1, y1, x2, y2] = [shape.x1 * width, shape.y1 * height, shape.x2 * width, shape.y2 * height];
+        return `<line x1="${x1.toFixed(1)}" y1="${y1.toFixed(1)}" x2="${x2.toFixed(1)}" y2="${y2.toFixed(1)}" ` +
+          `stroke="${color}" stroke-width="${stroke}" stroke-linecap="round"/>` +
+          `<polygon points="${arrowHead(x1, y1, x2, y2, stroke * 5)}" fill="${color}"/>`;
+      }
+      case 'label':
+        // White outline keeps the text legible on busy backgrounds
+        return `<text x="${(shape.x * width).toFixed(1)}" y="${(shape.y * height).toFixed(1)}" ` +
+          `dominant-baseline="hanging" font-family="sans-serif" font-weight="bold" font-size="${fontSize}" ` +
+          `fill="${color}" stroke="#ffffff" stroke-width="${Math.max(2, Math.round(fontSize / 8))}" paint-order="stroke">` +
+          `${escapeXml(shape.text)}</text>`;
+    }
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${elements.join('')}</svg>`;
+}
+
+/**
+ * Draw the annotations onto a copy of the photo
+ */
+export async function renderAnnotatedPhoto(original: Buffer, annotations: PhotoAnnotation[]): Promise<Buffer> {
+  // Stored photos are re-encoded without EXIF, so they display as their pixels lie
+  const image = sharp(original);
+  const { width, height } = await image.metadata();
+  if (!width || !height) {
+    throw new Error('Cannot read photo dimensions');
+  }
+
+  return image
+    .composite([{ input: Buffer.from(annotationSvg(annotations, width, height)), top: 0, left: 0 }])
+    .jpeg({ quality: 85 })
+    .toBuffer();
+}
@@ -0,0 +1,67 @@
+/**
+ * Photo Fingerprints
+ *
+ * Photos forwarded over WhatsApp often arrive twice. Each upload gets two
+ * fingerprints: a SHA-256 of the file, which catches the same file sent
+ * again, and a perceptual difference hash, which survives the re-compression
+ * and resizing messaging apps apply and catches the same picture in a
+ * different file.
+ */
+
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+
+/**
+ * Differing bits (of 64) up to which two photos are treated as the same
+ * picture. Re-compressed forwards land at 0–3; separate shots of the same
+ * spot are usually well above 10.
+ */
+export const NEAR_DUPLICATE_DISTANCE = 6;
+
+export interface PhotoFingerprint {
+  /** SHA-256 of the uploaded bytes (hex) */
+  contentHash: string;
+  /** 64-bit difference hash (16 hex characters) */
+  perceptualHash: string;
+}
+
+/**
+ * Difference hash: shrink to 9×8 greyscale and record, for each row, whether
+ * each pixel is brighter than its right-hand neighbour.
+ */
+export async function perceptualHash(buffer: Buffer): Promise<string> {
+  const pixels = await sharp(buffer)
+    .rotate()
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = 0n;
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      hash = (hash << 1n) | (pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1n : 0n);
+    }
+  }
+  return hash.toString(16).padStart(16, '0');
+}
+
+export async function photoFingerprint(buffer: Buffer): Promise<PhotoFingerprint> {
+  return {
+    contentHash: createHash('sha256').update(buffer).digest('hex'),
+    perceptualHash: await perceptualHash(buffer),
+  };
+}
+
+/**
+ * Number of differing bits between two perceptual hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
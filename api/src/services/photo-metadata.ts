@@ -0,0 +1,172 @@
+/**
+ * Photo Metadata
+ *
+ * Reads the EXIF block of uploaded photos (capture time, GPS position,
+ * orientation, camera) before the image is re-encoded, and checks the photo
+ * against the inspection it is filed under: a photo taken far from the
+ * property, or on a different day to the site inspection, was probably
+ * forwarded into the wrong project.
+ */
+
+import sharp from 'sharp';
+import exifReader from 'exif-reader';
+import type { PhotoSource } from '@prisma/client';
+import type { PhotoUploadContext } from '../repositories/prisma/project-photo.js';
+
+/** Phones report positions to within tens of metres; sections rarely span more */
+export const LOCATION_WARNING_METRES = 250;
+
+/** Cameras without an offset tag record local time, which for us is New Zealand */
+const LOCAL_TIME_ZONE = 'Pacific/Auckland';
+
+const EARTH_RADIUS_METRES = 6_371_000;
+
+export interface PhotoLocation {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+}
+
+export interface PhotoMetadata {
+  takenAt?: Date;
+  location?: PhotoLocation;
+  /** EXIF orientation (1–8) of the original; uploads are rotated upright */
+  orientation?: number;
+  /** Make and model, e.g. "Apple iPhone 14 Pro" */
+  camera?: string;
+}
+
+/**
+ * UTC offset in minutes of a time zone at an instant
+ */
+function zoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const name = new Intl.DateTimeFormat('en-NZ', { timeZone, timeZoneName: 'longOffset' })
+    .formatToParts(instant)
+    .find((part) => part.type === 'timeZoneName')?.value ?? 'GMT';
+  const match = name.match(/GMT([+-])(\d{2}):(\d{2})/);
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+/**
+ * EXIF date-times are wall-clock times; exif-reader returns them as if they
+ * were UTC. Shift by the recorded offset ("+13:00"), or by New Zealand time
+ * when the camera did not record one.
+ */
+export function exifCaptureTime(wallClock: Date, offset?: string): Date {
+  const match = offset?.match(/^([+-])(\d{2}):(\d{2})$/);
+  if (match) {
+    const minutes = (Number(match[2]) * 60 + Number(match[3])) * (match[1] === '-' ? -1 : 1);
+    return new Date(wallClock.getTime() - minutes * 60_000);
+  }
+
+  // Resolve the offset twice so times either side of a daylight saving change land correctly
+  const guess = new Date(wallClock.getTime() - zoneOffsetMinutes(wallClock, LOCAL_TIME_ZONE) * 60_000);
+  return new Date(wallClock.getTime() - zoneOffsetMinutes(guess, LOCAL_TIME_ZONE) * 60_000);
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) of an instant in New Zealand
+ */
+export function localDay(instant: Date): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: LOCAL_TIME_ZONE }).format(instant);
+}
+
+function toDegrees(dms: number[] | undefined, ref: string | undefined, negative: string): number | undefined {
+  if (!dms || dms.length !== 3 || dms.some((part) => !Number.isFinite(part))) return undefined;
+  const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  return Math.round((ref?.toUpperCase() === negative ? -degrees : degrees) * 1e6) / 1e6;
+}
+
+/**
+ * Read capture time, position, orientation and camera from an image. Photos
+ * without EXIF (screenshots, images re-saved by messaging apps) return only
+ * what sharp can see.
+ */
+export async function readPhotoMetadata(buffer: Buffer): Promise<PhotoMetadata> {
+  const { exif, orientation } = await sharp(buffer).metadata();
+  const metadata: PhotoMetadata = { orientation };
+  if (!exif) return metadata;
+
+  let tags: ReturnType<typeof exifReader>;
+  try {
+    tags = exifReader(exif);
+  } catch {
+    return metadata;
+  }
+
+  const taken = tags.Photo?.DateTimeOriginal ?? tags.Image?.DateTime;
+  if (taken instanceof Date && !Number.isNaN(taken.getTime())) {
+    metadata.takenAt = exifCaptureTime(taken, tags.Photo?.OffsetTimeOriginal);
+  }
+
+  const gps = tags.GPSInfo;
+  const latitude = toDegrees(gps?.GPSLatitude, gps?.GPSLatitudeRef, 'S');
+  const longitude = toDegrees(gps?.GPSLongitude, gps?.GPSLongitudeRef, 'W');
+  // 0,0 is what some apps write when they had no fix
+  if (latitude !== undefined && longitude !== undefined && (latitude !== 0 || longitude !== 0)) {
+    metadata.location = { latitude, longitude };
+    if (typeof gps?.GPSAltitude === 'number' && Number.isFinite(gps.GPSAltitude)) {
+      metadata.location.altitude = gps.GPSAltitudeRef === 1 ? -gps.GPSAltitude : gps.GPSAltitude;
+    }
+  }
+
+  const make = tags.Image?.Make?.trim();
+  const model = tags.Image?.Model?.trim();
+  if (model) {
+    // Most models already start with the make ("Canon EOS R6"); Apple's don't
+    metadata.camera = make && !model.toLowerCase().startsWith(make.toLowerCase()) ? `${make} ${model}` : model;
+  } else if (make) {
+    metadata.camera = make;
+  }
+
+  return metadata;
+}
+
+/**
+ * Great-circle distance between two points in metres
+ */
+export function distanceMetres(a: PhotoLocation, b: PhotoLocation): number {
+  const rad = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = rad(b.latitude - a.latitude);
+  const dLon = rad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(a.latitude)) * Math.cos(rad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METRES * Math.asin(Math.sqrt(h));
+}
+
+function formatDistance(metres: number): string {
+  return metres < 1000 ? `${Math.round(metres)} m` : `${(metres / 1000).toFixed(1)} km`;
+}
+
+/**
+ * Warnings for a site photo that looks like it belongs elsewhere. Owner and
+ * contractor photos are usually taken on other days, so only their position
+ * is checked.
+ */
+export function photoWarnings(
+  metadata: PhotoMetadata,
+  context: PhotoUploadContext,
+  source: PhotoSource = 'SITE'
+): string[] {
+  const warnings: string[] = [];
+  const { property } = context;
+
+  if (metadata.location && property?.latitude != null && property.longitude != null) {
+    const distance = distanceMetres(metadata.location, { latitude: property.latitude, longitude: property.longitude });
+    if (distance > LOCATION_WARNING_METRES) {
+      warnings.push(`Photo location is ${formatDistance(distance)} from the property`);
+    }
+  }
+
+  if (source === 'SITE' && metadata.takenAt && context.inspectionDates.length > 0) {
+    const taken = localDay(metadata.takenAt);
+    const days = [...new Set(context.inspectionDates.map(localDay))].sort();
+    if (!days.includes(taken)) {
+      warnings.push(`Photo was taken on ${taken}, not on the inspection date (${days.join(', ')})`);
+    }
+  }
+
+  return warnings;
+}
@@ -1,9 +1,16 @@
-import type { ProjectPhoto } from '@prisma/client';
+import { Prisma, type ProjectPhoto } from '@prisma/client';
 import type {
   IProjectPhotoRepository,
   CreateProjectPhotoInput,
   UpdateProjectPhotoInput,
+  ProjectPhotoSearchParams,
 } from '../repositories/prisma/project-photo.js';
+import { photoWarnings, type PhotoMetadata } from './photo-metadata.js';
+import type { PhotoAnnotation } from './photo-annotation.js';
+import { hammingDistance, NEAR_DUPLICATE_DISTANCE } from './photo-hash.js';
+
+/** Caption given to photos uploaded without one */
+const DEFAULT_CAPTION = 'Photo';
 
 export class ProjectPhotoNotFoundError extends Error {
   constructor(id: string) {
@@ -12,6 +19,29 @@ export class ProjectPhotoNotFoundError extends Error {
   }
 }
 
+export class DuplicatePhotoError extends Error {
+  constructor(public readonly existing: Pick<ProjectPhoto, 'id' | 'reportNumber'>) {
+    super(`This photo has already been uploaded as photo ${existing.reportNumber}`);
+    this.name = 'DuplicatePhotoError';
+  }
+}
+
+export class PhotoMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PhotoMergeError';
+  }
+}
+
+/**
+ * Captions of both photos, without repeating one or keeping the placeholder
+ */
+function mergeCaptions(kept: string, removed: string): string {
+  const captions = [...new Set([kept, removed].map((caption) => caption.trim()))]
+    .filter((caption) => caption && caption !== DEFAULT_CAPTION);
+  return captions.join('; ') || kept;
+}
+
 export class ProjectPhotoService {
   constructor(private repository: IProjectPhotoRepository) {}
 
@@ -19,6 +49,65 @@ export class ProjectPhotoService {
     return this.repository.create(input);
   }
 
+  /**
+   * Refuse a file the project already has
+   */
+  async assertNotDuplicate(projectId: string, contentHash: string): Promise<void> {
+    const existing = await this.repository.findByContentHash(projectId, contentHash);
+    if (existing) {
+      throw new DuplicatePhotoError(existing);
+    }
+  }
+
+  /**
+   * Create a photo from an upload, filling capture time, position and camera
+   * from its EXIF and recording anything that suggests it belongs to another
+   * property or day. A photo that looks like one already in the project is
+   * flagged against it for review.
+   */
+  async createFromUpload(
+    input: Omit<CreateProjectPhotoInput, 'takenAt' | 'location' | 'camera' | 'warnings' | 'possibleDuplicateOfId'>,
+    metadata: PhotoMetadata
+  ): Promise<ProjectPhoto> {
+    if (input.contentHash) {
+      await this.assertNotDuplicate(input.projectId, input.contentHash);
+    }
+    const context = await this.repository.findUploadContext(input.projectId, input.inspectionId);
+
+    try {
+      return await this.repository.create({
+        ...input,
+        takenAt: metadata.takenAt,
+        location: metadata.location ? { ...metadata.location } : undefined,
+        camera: metadata.camera,
+        warnings: photoWarnings(metadata, context, input.source),
+        possibleDuplicateOfId: input.perceptualHash
+          ? await this.findLookalike(input.projectId, input.perceptualHash)
+          : undefined,
+      });
+    } catch (error) {
+      // Unique (projectId, contentHash): a concurrent upload of the same file won
+      if (input.contentHash && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        await this.assertNotDuplicate(input.projectId, input.contentHash);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The closest existing photo within the near-duplicate distance
+   */
+  private async findLookalike(projectId: string, perceptualHash: string): Promise<string | undefined> {
+    let closest: { id: string; distance: number } | undefined;
+    for (const photo of await this.repository.findPerceptualHashes(projectId)) {
+      const distance = hammingDistance(perceptualHash, photo.perceptualHash);
+      if (distance <= NEAR_DUPLICATE_DISTANCE && (!closest || distance < closest.distance)) {
+        closest = { id: photo.id, distance };
+      }
+    }
+    return closest?.id;
+  }
+
   async findById(id: string): Promise<ProjectPhoto> {
     const photo = await this.repository.findById(id);
     if (!photo) {
@@ -27,8 +116,8 @@ export class ProjectPhotoService {
     return photo;
   }
 
-  async findByProjectId(projectId: string): Promise<ProjectPhoto[]> {
-    return this.repository.findByProjectId(projectId);
+  async findByProjectId(projectId: string, params?: ProjectPhotoSearchParams): Promise<ProjectPhoto[]> {
+    return this.repository.findByProjectId(projectId, params);
   }
 
   async update(id: string, input: UpdateProjectPhotoInput): Promise<ProjectPhoto> {
@@ -39,6 +128,56 @@ export class ProjectPhotoService {
     return this.repository.update(id, input);
   }
 
+  /**
+   * Replace a photo's annotations and the rendered copy that goes in reports.
+   * No annotations clears both, so reports use the original again.
+   */
+  async saveAnnotations(id: string, annotations: PhotoAnnotation[], annotatedPath: string | null): Promise<ProjectPhoto> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      throw new ProjectPhotoNotFoundError(id);
+    }
+    return this.repository.update(id, annotations.length > 0
+      ? { annotations: annotations.map((shape) => ({ ...shape })), annotatedPath }
+      : { annotations: null, annotatedPath: null });
+  }
+
+  /**
+   * Merge a duplicate into the photo it repeats. The kept photo gains the
+   * duplicate's clause links and caption (and capture details it lacks), and
+   * checklist items, clause reviews, defects and moisture readings that cited
+   * the duplicate cite the kept photo instead. Returns the kept photo and the
+   * removed one, whose files the caller deletes.
+   */
+  async mergeDuplicate(id: string, intoId: string): Promise<{ photo: ProjectPhoto; removed: ProjectPhoto }> {
+    const removed = await this.findById(id);
+    const kept = await this.findById(intoId);
+    if (removed.id === kept.id) {
+      throw new PhotoMergeError('Cannot merge a photo into itself');
+    }
+    if (removed.projectId !== kept.projectId) {
+      throw new PhotoMergeError('Photos belong to different projects');
+    }
+
+    const photo = await this.repository.merge(kept.id, removed.id, {
+      caption: mergeCaptions(kept.caption, removed.caption),
+      linkedClauses: [...new Set([...kept.linkedClauses, ...removed.linkedClauses])],
+      takenAt: kept.takenAt ?? removed.takenAt ?? undefined,
+      location: (kept.location ?? removed.location ?? undefined) as Prisma.InputJsonValue | undefined,
+      camera: kept.camera ?? removed.camera ?? undefined,
+      ...(kept.possibleDuplicateOfId === removed.id && { possibleDuplicateOfId: null }),
+    });
+    return { photo, removed };
+  }
+
+  /**
+   * Reviewed: the photo only looked like another one
+   */
+  async dismissDuplicate(id: string): Promise<ProjectPhoto> {
+    await this.findById(id);
+    return this.repository.update(id, { possibleDuplicateOfId: null });
+  }
+
   async delete(id: string): Promise<void> {
     const existing = await this.repository.findById(id);
     if (!existing) {
@@ -36,90 +36,111 @@ export class ClientNotFoundError extends Error {
 }
 
 export class ProjectService {
-  constructor(private repository: IProjectRepository) {}
-
-  async create(input: CreateProjectInput): Promise<Project> {
+  constructor(
+    private repository: IProjectRepository,
+    private propertyRepository: IPropertyRepository,
+    private clientRepository: IClientRepository
+  ) {}
+
+  async create(organizationId: string, input: CreateProjectInput): Promise<Project> {
+    await this.assertRelationsInOrganization(organizationId, input);
     const jobNumber = input.jobNumber || await this.repository.generateJobNumber();
-    return this.repository.create({ ...input, jobNumber });
+    return this.repository.create(organizationId, { ...input, jobNumber });
   }
 
-  async findAll(params?: ProjectSearchParams): Promise<Project[]> {
-    return this.repository.findAll(params);
+  async findAll(organizationId: string, params?: ProjectSearchParams): Promise<Project[]> {
+    return this.repository.findAll(organizationId, params);
   }
 
-  async findById(id: string): Promise<Project> {
-    const project = await this.repository.findById(id);
+  async findById(organizationId: string, id: string): Promise<Project> {
+    const project = await this.repository.findById(organizationId, id);
     if (!project) {
       throw new ProjectNotFoundError(id);
     }
     return project;
   }
 
-  async findByJobNumber(jobNumber: string): Promise<Project> {
-    const project = await this.repository.findByJobNumber(jobNumber);
+  async findByJobNumber(organizationId: string, jobNumber: string): Promise<Project> {
+    const project = await this.repository.findByJobNumber(organizationId, jobNumber);
     if (!project) {
       throw new ProjectNotFoundError(jobNumber);
     }
     return project;
   }
 
-  async update(id: string, input: UpdateProjectInput): Promise<Project> {
-    await this.findById(id);
-    return this.repository.update(id, input);
+  async update(organizationId: string, id: string, input: UpdateProjectInput): Promise<Project> {
+    await this.findById(organizationId, id);
+    await this.assertRelationsInOrganization(organizationId, input);
+    return this.repository.update(organizationId, id, input);
+  }
+
+  async delete(organizationId: string, id: string): Promise<void> {
+    await this.findById(organizationId, id);
+    await this.repository.delete(organizationId, id);
   }
 
-  async delete(id: string): Promise<void> {
-    await this.findById(id);
-    await this.repository.delete(id);
+  /**
+   * A project may only reference a property and client from its own organisation.
+   */
+  private async assertRelationsInOrganization(
+    organizationId: string,
+    input: { propertyId?: string; clientId?: string }
+  ): Promise<void> {
+    if (input.propertyId && !(await this.propertyRepository.findById(organizationId, input.propertyId))) {
+      throw new PropertyNotFoundError(input.propertyId);
+    }
+    if (input.clientId && !(await this.clientRepository.findById(organizationId, input.clientId))) {
+      throw new ClientNotFoundError(input.clientId);
+    }
   }
 }
 
 export class PropertyService {
   constructor(private repository: IPropertyRepository) {}
 
-  async create(input: CreatePropertyInput): Promise<Property> {
-    return this.repository.create(input);
+  async create(organizationId: string, input: CreatePropertyInput): Promise<Property> {
+    return this.repository.create(organizationId, input);
   }
 
-  async findAll(params?: PropertySearchParams): Promise<Property[]> {
-    return this.repository.findAll(params);
+  async findAll(organizationId: string, params?: PropertySearchParams): Promise<Property[]> {
+    return this.repository.findAll(organizationId, params);
   }
 
-  async findById(id: string): Promise<Property> {
-    const property = await this.repository.findById(id);
+  async findById(organizationId: string, id: string): Promise<Property> {
+    const property = await this.repository.findById(organizationId, id);
     if (!property) {
       throw new PropertyNotFoundError(id);
     }
     return property;
   }
 
-  async update(id: string, input: UpdatePropertyInput): Promise<Property> {
-    await this.findById(id);
-    return this.repository.update(id, input);
+  async update(organizationId: string, id: string, input: UpdatePropertyInput): Promise<Property> {
+    await this.findById(organizationId, id);
+    return this.repository.update(organizationId, id, input);
   }
 }
 
 export class ClientService {
   constructor(private repository: IClientRepository) {}
 
-  async create(input: CreateClientInput): Promise<Client> {
-    return this.repository.create(input);
+  async create(organizationId: string, input: CreateClientInput): Promise<Client> {
+    return this.repository.create(organizationId, input);
   }
 
-  async findAll(params?: ClientSearchParams): Promise<Client[]> {
-    return this.repository.findAll(params);
+  async findAll(organizationId: string, params?: ClientSearchParams): Promise<Client[]> {
+    return this.repository.findAll(organizationId, params);
   }
 
-  async findById(id: string): Promise<Client> {
-    const client = await this.repository.findById(id);
+  async findById(organizationId: string, id: string): Promise<Client> {
+    const client = await this.repository.findById(organizationId, id);
     if (!client) {
       throw new ClientNotFoundError(id);
     }
     return client;
   }
 
-  async update(id: string, input: UpdateClientInput): Promise<Client> {
-    await this.findById(id);
-    return this.repository.update(id, input);
+  async update(organizationId: string, id: string, input: UpdateClientInput): Promise<Client> {
+    await this.findById(organizationId, id);
+    return this.repository.update(organizationId, id, input);
   }
 }
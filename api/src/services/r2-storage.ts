@@ -61,6 +61,24 @@ export function generateThumbnailKey(projectId: string, _filename: string): stri
   return `thumbnails/${projectId}/${uuid}.jpg`;
 }
 
+/**
+ * Generate a storage key for an annotated copy of a photo
+ * Format: annotated/{projectId}/{uuid}.jpg
+ */
+export function generateAnnotatedKey(projectId: string): string {
+  const uuid = crypto.randomUUID();
+  return `annotated/${projectId}/${uuid}.jpg`;
+}
+
+/**
+ * Generate a storage key for a project document
+ * Format: documents/{projectId}/{uuid}.{ext}
+ */
+export function generateDocumentKey(projectId: string, ext: string): string {
+  const uuid = crypto.randomUUID();
+  return `documents/${projectId}/${uuid}.${ext}`;
+}
+
 /**
  * Upload a file to R2
  */
@@ -97,6 +115,24 @@ export async function getPresignedUrl(key: string): Promise<string> {
   });
 }
 
+/**
+ * Download a file from R2 into memory
+ */
+export async function downloadFromR2(key: string): Promise<Buffer> {
+  const client = getR2Client();
+
+  const command = new GetObjectCommand({
+    Bucket: R2_BUCKET_NAME,
+    Key: key,
+  });
+
+  const response = await client.send(command);
+  if (!response.Body) {
+    throw new Error(`Empty response body for ${key}`);
+  }
+  return Buffer.from(await response.Body.transformToByteArray());
+}
+
 /**
  * Delete a file from R2
  */
@@ -0,0 +1,45 @@
+/**
+ * Formatting helpers shared by project-level report generators (COA, CCC gap analysis).
+ */
+
+import * as path from 'node:path';
+import type { ProjectPhoto } from '@prisma/client';
+
+export type PhotoSrcResolver = (photo: ProjectPhoto) => Promise<string>;
+
+export const PHOTO_SOURCE_LABELS: Record<string, string> = {
+  SITE: 'Site',
+  OWNER: 'Owner provided',
+  CONTRACTOR: 'Contractor provided',
+};
+
+export function formatDate(date: Date | null | undefined): string {
+  if (!date) return '-';
+  return new Date(date).toLocaleDateString('en-NZ', {
+    day: '2-digit',
+    month: 'long',
+    year: 'numeric',
+  });
+}
+
+export function formatPhotoRefs(numbers: number[]): string {
+  if (numbers.length === 0) return '';
+  const label = numbers.length === 1 ? 'Photograph' : 'Photographs';
+  return `${label} ${numbers.join(', ')}`;
+}
+
+/**
+ * Read a value from Property.siteData (wind zone, exposure zone, …)
+ */
+export function siteValue(siteData: unknown, key: string): string {
+  if (siteData && typeof siteData === 'object' && key in siteData) {
+    const value = (siteData as Record<string, unknown>)[key];
+    if (value !== null && value !== undefined && value !== '') return String(value);
+  }
+  return '-';
+}
+
+export function defaultPhotoSrc(photo: ProjectPhoto): Promise<string> {
+  const uploadDir = process.env.UPLOAD_DIR || './data/uploads';
+  return Promise.resolve(`file://${path.resolve(uploadDir, photo.annotatedPath ?? photo.filePath)}`);
+}
@@ -0,0 +1,413 @@
+/**
+ * Report Workflow Service — Issue #157
+ *
+ * Report lifecycle state machine with versions, review comments and audit trail.
+ * See: docs/design/016-report-workflow.md
+ */
+
+import type {
+  Report,
+  ReportStatus,
+  ReportVersion,
+  ReviewComment,
+  ReportAuditLog,
+  AuditAction,
+  CommentPriority,
+  Prisma,
+} from '@prisma/client';
+import type {
+  IReportWorkflowRepository,
+  CreateReportVersionInput,
+  ReviewCommentSearchParams,
+} from '../repositories/interfaces/report-workflow.js';
+import { ReportNotFoundError } from './report.js';
+
+export class InvalidTransitionError extends Error {
+  constructor(action: WorkflowAction, status: ReportStatus) {
+    super(`Invalid action "${action}" for status "${status}"`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export class TransitionConditionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransitionConditionError';
+  }
+}
+
+export class ReviewCommentNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Review comment not found: ${id}`);
+    this.name = 'ReviewCommentNotFoundError';
+  }
+}
+
+export class ReviewCommentStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReviewCommentStateError';
+  }
+}
+
+export class ReportVersionNotFoundError extends Error {
+  constructor(reportId: string, version: string) {
+    super(`Version ${version} not found for report: ${reportId}`);
+    this.name = 'ReportVersionNotFoundError';
+  }
+}
+
+export type WorkflowAction =
+  | 'submit'
+  | 'approve'
+  | 'requestChanges'
+  | 'resubmit'
+  | 'finalize'
+  | 'submitToCouncil'
+  | 'revert';
+
+/**
+ * Request context recorded against audit log entries.
+ */
+export interface AuditContext {
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface TransitionOptions {
+  description?: string;
+  reason?: string;
+}
+
+interface TransitionContext {
+  report: Report;
+  openComments: ReviewComment[];
+  userId: string;
+  options: TransitionOptions;
+}
+
+interface StateTransition {
+  from: ReportStatus;
+  to: ReportStatus;
+  action: WorkflowAction;
+  auditAction: AuditAction;
+  createsVersion: boolean;
+  /** Returns an error message when the transition is not allowed */
+  condition?: (ctx: TransitionContext) => string | null;
+}
+
+export const STATE_TRANSITIONS: StateTransition[] = [
+  {
+    from: 'DRAFT',
+    to: 'IN_REVIEW',
+    action: 'submit',
+    auditAction: 'SUBMITTED_FOR_REVIEW',
+    createsVersion: true,
+    condition: ({ report }) => (report.path ? null : 'Report has no generated content'),
+  },
+  {
+    from: 'IN_REVIEW',
+    to: 'APPROVED',
+    action: 'approve',
+    auditAction: 'APPROVED',
+    createsVersion: false,
+    condition: ({ report, openComments, userId }) => {
+      if (report.preparedById && report.preparedById === userId) {
+        return 'Cannot approve own report';
+      }
+      if (openComments.some((c) => c.priority === 'MUST_FIX')) {
+        return 'Must-fix comments still open';
+      }
+      return null;
+    },
+  },
+  {
+    from: 'IN_REVIEW',
+    to: 'REVISION',
+    action: 'requestChanges',
+    auditAction: 'CHANGES_REQUESTED',
+    createsVersion: false,
+    condition: ({ openComments }) =>
+      openComments.length > 0 ? null : 'Add at least one review comment before requesting changes',
+  },
+  {
+    from: 'REVISION',
+    to: 'IN_REVIEW',
+    action: 'resubmit',
+    auditAction: 'SUBMITTED_FOR_REVIEW',
+    createsVersion: true,
+  },
+  {
+    from: 'APPROVED',
+    to: 'FINALIZED',
+    action: 'finalize',
+    auditAction: 'FINALIZED',
+    createsVersion: false,
+    condition: ({ report }) => (report.path ? null : 'Report file has not been generated'),
+  },
+  {
+    from: 'FINALIZED',
+    to: 'SUBMITTED',
+    action: 'submitToCouncil',
+    auditAction: 'SUBMITTED',
+    createsVersion: false,
+  },
+  {
+    from: 'FINALIZED',
+    to: 'REVISION',
+    action: 'revert',
+    auditAction: 'REVERTED',
+    createsVersion: false,
+    condition: ({ options }) => (options.reason?.trim() ? null : 'A reason is required to revert a finalized report'),
+  },
+];
+
+/**
+ * Statuses in which the report content may still change.
+ */
+export const EDITABLE_STATUSES: ReportStatus[] = ['DRAFT', 'REVISION'];
+
+/**
+ * Returns reasons a report cannot be finalized (e.g. outstanding documents).
+ */
+export type FinalizeCheck = (report: Report) => Promise<string[]>;
+
+export class ReportWorkflowService {
+  constructor(
+    private repository: IReportWorkflowRepository,
+    private finalizeCheck?: FinalizeCheck
+  ) {}
+
+  async findReport(id: string): Promise<Report> {
+    const report = await this.repository.findReportById(id);
+    if (!report) {
+      throw new ReportNotFoundError(id);
+    }
+    return report;
+  }
+
+  /**
+   * Actions available from the report's current status.
+   */
+  async getAvailableActions(id: string): Promise<WorkflowAction[]> {
+    const report = await this.findReport(id);
+    return STATE_TRANSITIONS
+      .filter((t) => t.from === report.status)
+      .map((t) => t.action);
+  }
+
+  /**
+   * Apply a workflow action, validating the transition and its conditions.
+   * Submitting (and resubmitting) auto-increments the report version.
+   */
+  async transition(
+    id: string,
+    action: WorkflowAction,
+    ctx: AuditContext,
+    options: TransitionOptions = {}
+  ): Promise<Report> {
+    const report = await this.findReport(id);
+
+    const transition = STATE_TRANSITIONS.find(
+      (t) => t.from === report.status && t.action === action
+    );
+    if (!transition) {
+      throw new InvalidTransitionError(action, report.status);
+    }
+
+    const openComments = await this.repository.findComments(id, { status: 'OPEN' });
+    const error = transition.condition?.({ report, openComments, userId: ctx.userId, options });
+    if (error) {
+      throw new TransitionConditionError(error);
+    }
+
+    if (action === 'finalize' && this.finalizeCheck) {
+      const blockers = await this.finalizeCheck(report);
+      if (blockers.length > 0) {
+        throw new TransitionConditionError(`Cannot finalize report: ${blockers.join('; ')}`);
+      }
+    }
+
+    let version: CreateReportVersionInput | undefined;
+    if (transition.createsVersion) {
+      const latest = await this.repository.findLatestVersion(id);
+      const versionNumber = (latest?.versionNumber ?? -1) + 1;
+      version = {
+        reportId: id,
+        versionNumber,
+        createdById: ctx.userId,
+        pdfPath: report.path,
+        description: options.description
+          ?? (versionNumber === 0 ? 'Initial draft' : 'Review comments addressed'),
+      };
+    }
+    const versionNumber = version?.versionNumber;
+
+    const updated = await this.repository.updateStatus(id, {
+      status: transition.to,
+      version: versionNumber,
+      reviewedById: action === 'approve' || action === 'requestChanges' ? ctx.userId : undefined,
+    }, version);
+
+    const details: Record<string, string | number> = {};
+    if (versionNumber !== undefined) details.version = `R${versionNumber}`;
+    if (options.reason) details.reason = options.reason;
+
+    await this.audit(id, transition.auditAction, ctx, {
+      fromStatus: report.status,
+      toStatus: transition.to,
+      details: Object.keys(details).length > 0 ? details : undefined,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Record report creation in the audit trail.
+   */
+  async recordCreated(id: string, ctx: AuditContext): Promise<void> {
+    await this.audit(id, 'CREATED', ctx, { toStatus: 'DRAFT' });
+  }
+
+  // ============================================
+  // Versions
+  // ============================================
+
+  async getVersions(id: string): Promise<ReportVersion[]> {
+    await this.findReport(id);
+    return this.repository.findVersions(id);
+  }
+
+  /**
+   * Get a version by label ("R1") or number ("1").
+   */
+  async getVersion(id: string, version: string): Promise<ReportVersion> {
+    await this.findReport(id);
+    const versionNumber = Number.parseInt(version.replace(/^R/i, ''), 10);
+    if (Number.isNaN(versionNumber)) {
+      throw new ReportVersionNotFoundError(id, version);
+    }
+
+    const found = await this.repository.findVersion(id, versionNumber);
+    if (!found) {
+      throw new ReportVersionNotFoundError(id, version);
+    }
+    return found;
+  }
+
+  // ============================================
+  // Review comments
+  // ============================================
+
+  async addComment(
+    id: string,
+    ctx: AuditContext,
+    data: { content: string; priority: CommentPriority; sectionId?: string; clauseId?: string }
+  ): Promise<ReviewComment> {
+    const report = await this.findReport(id);
+    if (report.status !== 'IN_REVIEW') {
+      throw new ReviewCommentStateError('Can only comment on reports in review');
+    }
+
+    const comment = await this.repository.createComment({
+      ...data,
+      reportId: id,
+      authorId: ctx.userId,
+    });
+
+    await this.audit(id, 'COMMENT_ADDED', ctx, {
+      details: { commentId: comment.id, priority: data.priority },
+    });
+
+    return comment;
+  }
+
+  async getComments(id: string, params?: ReviewCommentSearchParams): Promise<ReviewComment[]> {
+    await this.findReport(id);
+    return this.repository.findComments(id, params);
+  }
+
+  async findComment(commentId: string): Promise<ReviewComment> {
+    const comment = await this.repository.findCommentById(commentId);
+    if (!comment) {
+      throw new ReviewCommentNotFoundError(commentId);
+    }
+    return comment;
+  }
+
+  async updateComment(
+    commentId: string,
+    data: { content?: string; priority?: CommentPriority; sectionId?: string | null; clauseId?: string | null }
+  ): Promise<ReviewComment> {
+    const comment = await this.findComment(commentId);
+    if (comment.status !== 'OPEN') {
+      throw new ReviewCommentStateError(`Comment is already ${comment.status.toLowerCase()}`);
+    }
+    return this.repository.updateComment(commentId, data);
+  }
+
+  async resolveComment(commentId: string, ctx: AuditContext, resolution: string): Promise<ReviewComment> {
+    return this.closeComment(commentId, ctx, 'ADDRESSED', resolution);
+  }
+
+  async dismissComment(commentId: string, ctx: AuditContext, resolution?: string): Promise<ReviewComment> {
+    return this.closeComment(commentId, ctx, 'DISMISSED', resolution);
+  }
+
+  // ============================================
+  // Audit trail
+  // ============================================
+
+  async getAuditTrail(id: string): Promise<ReportAuditLog[]> {
+    await this.findReport(id);
+    return this.repository.findAuditLogs(id);
+  }
+
+  private async closeComment(
+    commentId: string,
+    ctx: AuditContext,
+    status: 'ADDRESSED' | 'DISMISSED',
+    resolution?: string
+  ): Promise<ReviewComment> {
+    const comment = await this.findComment(commentId);
+    if (comment.status !== 'OPEN') {
+      throw new ReviewCommentStateError(`Comment is already ${comment.status.toLowerCase()}`);
+    }
+
+    const updated = await this.repository.updateComment(commentId, {
+      status,
+      resolvedById: ctx.userId,
+      resolvedAt: new Date(),
+      resolution,
+    });
+
+    const details: Record<string, string> = { commentId };
+    if (resolution) details.resolution = resolution;
+
+    await this.audit(
+      comment.reportId,
+      status === 'ADDRESSED' ? 'COMMENT_RESOLVED' : 'COMMENT_DISMISSED',
+      ctx,
+      { details }
+    );
+
+    return updated;
+  }
+
+  private async audit(
+    reportId: string,
+    action: AuditAction,
+    ctx: AuditContext,
+    extra: { fromStatus?: ReportStatus; toStatus?: ReportStatus; details?: Prisma.InputJsonValue } = {}
+  ): Promise<void> {
+    await this.repository.createAuditLog({
+      reportId,
+      action,
+      userId: ctx.userId,
+      ipAddress: ctx.ipAddress,
+      userAgent: ctx.userAgent,
+      ...extra,
+    });
+  }
+}
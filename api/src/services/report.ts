@@ -1,14 +1,16 @@
 /**
  * Report Generation Service
- * Generates PDF inspection reports using Puppeteer.
+ * Generates inspection reports as PDF (Puppeteer, see pdf-renderer.ts)
+ * or DOCX (see docx-renderer.ts).
  */
 
-import puppeteer from 'puppeteer';
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
 import * as path from 'node:path';
 import Handlebars from 'handlebars';
 import type { Report, Inspection, Finding, Photo } from '@prisma/client';
 import type { IInspectionRepository, CreateReportInput } from '../repositories/interfaces/inspection.js';
+import { renderHtmlToPdf } from './pdf-renderer.js';
+import { renderDocx, type DocxBlock } from './docx-renderer.js';
 
 export class ReportNotFoundError extends Error {
   constructor(id: string) {
@@ -31,6 +33,17 @@ export class ReportGenerationError extends Error {
   }
 }
 
+export const REPORT_FORMATS = ['pdf', 'docx'] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+const REPORT_TITLE = 'Pre-Purchase Inspection Report';
+
 // Types for report data
 interface ReportFinding {
   id: string;
@@ -48,6 +61,29 @@ interface ReportSection {
   conclusionClass: string;
 }
 
+interface ReportPhoto {
+  caption: string;
+  path: string;
+}
+
+interface ReportTemplateData {
+  job_number: string;
+  address: string;
+  client_name: string;
+  inspector_name: string;
+  date: string;
+  weather: string;
+  property_type: string;
+  year_built: number | string;
+  bedrooms: number | string;
+  bathrooms: number | string;
+  executive_summary: string;
+  urgent_findings: ReportFinding[] | null;
+  major_findings: ReportFinding[] | null;
+  sections: ReportSection[];
+  photos: ReportPhoto[];
+}
+
 // Register Handlebars helpers
 Handlebars.registerHelper('add', (a: number, b: number) => a + b);
 
@@ -66,9 +102,14 @@ export class ReportService {
   }
 
   /**
-   * Generate a PDF report for an inspection.
+   * Generate a PDF or DOCX report for an inspection.
+   * New reports start in DRAFT; see ReportWorkflowService for the lifecycle.
    */
-  async generate(inspectionId: string): Promise<Report> {
+  async generate(
+    inspectionId: string,
+    preparedById?: string,
+    format: ReportFormat = 'pdf'
+  ): Promise<Report> {
     // Get inspection with findings and photos
     const inspection = await this.repository.findById(inspectionId);
     if (!inspection) {
@@ -90,28 +131,31 @@ export class ReportService {
       mkdirSync(this.outputDir, { recursive: true });
     }
 
-    // Load and compile template
-    if (!existsSync(this.templatePath)) {
-      throw new ReportGenerationError(`Template not found: ${this.templatePath}`);
-    }
-    const templateHtml = readFileSync(this.templatePath, 'utf-8');
-    const template = Handlebars.compile(templateHtml);
-
     // Prepare template data
     const templateData = this.prepareTemplateData(inspection, findings, photos);
+    const outputPath = path.join(this.outputDir, `${inspectionId}.${format}`);
 
-    // Render HTML
-    const html = template(templateData);
-
-    // Generate PDF
-    const outputPath = path.join(this.outputDir, `${inspectionId}.pdf`);
-    await this.renderPdf(html, outputPath, inspectionId);
+    if (format === 'docx') {
+      await renderDocx(this.buildDocxBlocks(templateData), outputPath, { headerTitle: REPORT_TITLE });
+    } else {
+      // Load and compile template
+      if (!existsSync(this.templatePath)) {
+        throw new ReportGenerationError(`Template not found: ${this.templatePath}`);
+      }
+      const templateHtml = readFileSync(this.templatePath, 'utf-8');
+      const template = Handlebars.compile(templateHtml);
+
+      // Render HTML, then PDF
+      const html = template(templateData);
+      await this.renderPdf(html, outputPath, inspectionId);
+    }
 
     // Save report to database
     const reportInput: CreateReportInput = {
       inspectionId,
-      format: 'pdf',
+      format,
       path: outputPath,
+      preparedById,
     };
 
     return this.repository.createReport(reportInput);
@@ -162,7 +206,7 @@ export class ReportService {
     inspection: Inspection,
     findings: Finding[],
     photos: Photo[]
-  ): Record<string, unknown> {
+  ): ReportTemplateData {
     // Format date
     const date = inspection.completedAt
       ? new Date(inspection.completedAt).toLocaleDateString('en-NZ', {
@@ -216,7 +260,6 @@ export class ReportService {
 
     // Prepare photos with captions
     const photosWithCaptions = photos.map((photo, index) => ({
-      ...photo,
       caption: `Inspection photo ${index + 1}`,
       path: photo.path.startsWith('/') ? `file://${photo.path}` : photo.path,
     }));
@@ -249,6 +292,119 @@ export class ReportService {
     };
   }
 
+  /**
+   * Build the DOCX content, mirroring the sections of the HTML template.
+   */
+  private buildDocxBlocks(data: ReportTemplateData): DocxBlock[] {
+    const blocks: DocxBlock[] = [
+      {
+        type: 'cover',
+        title: ['PRE-PURCHASE', 'INSPECTION REPORT'],
+        subtitle: data.address,
+        details: [
+          ['Client', data.client_name],
+          ['Date', data.date],
+          ['Inspector', data.inspector_name],
+          ['Job #', data.job_number],
+        ],
+      },
+      { type: 'heading', text: '1. Report Information' },
+      {
+        type: 'fields',
+        rows: [
+          ['Job Number', data.job_number],
+          ['Property Address', data.address],
+          ['Client Name', data.client_name],
+          ['Inspection Date', data.date],
+          ['Inspector', data.inspector_name],
+          ['Weather Conditions', data.weather],
+        ],
+      },
+      { type: 'heading', text: '2. Building Description' },
+      {
+        type: 'fields',
+        rows: [
+          ['Property Type', data.property_type],
+          ['Year Built', String(data.year_built)],
+          ['Bedrooms', String(data.bedrooms)],
+          ['Bathrooms', String(data.bathrooms)],
+        ],
+      },
+      { type: 'heading', text: '3. Summary of Inspection' },
+      { type: 'heading', text: 'Executive Summary', level: 2 },
+      { type: 'paragraph', text: data.executive_summary },
+    ];
+
+    if (data.urgent_findings) {
+      blocks.push(
+        { type: 'heading', text: 'Items Requiring Immediate Attention', level: 2 },
+        { type: 'bullets', items: data.urgent_findings.map((f) => `${f.section}: ${f.text}`) }
+      );
+    }
+    if (data.major_findings) {
+      blocks.push(
+        { type: 'heading', text: 'Items Requiring Attention', level: 2 },
+        { type: 'bullets', items: data.major_findings.map((f) => `${f.section}: ${f.text}`) }
+      );
+    }
+
+    data.sections.forEach((section, index) => {
+      blocks.push({ type: 'heading', text: `${index + 4}. ${section.name}` });
+      if (section.findings.length > 0) {
+        blocks.push({
+          type: 'table',
+          header: ['Finding', 'Severity'],
+          rows: section.findings.map((f) => [
+            f.matchedComment ? `${f.text}\n${f.matchedComment}` : f.text,
+            f.severity.toUpperCase(),
+          ]),
+        });
+      } else {
+        blocks.push({ type: 'paragraph', text: 'No defects or issues observed in this area.', italic: true });
+      }
+      blocks.push({ type: 'paragraph', text: `Conclusion: ${section.conclusion}`, bold: true });
+    });
+
+    blocks.push(
+      { type: 'heading', text: 'Limitations & Disclaimer' },
+      { type: 'heading', text: 'Scope of Inspection', level: 3 },
+      {
+        type: 'paragraph',
+        text: 'This report is a visual inspection only and is limited to those areas that were readily accessible and visible at the time of inspection. The inspection does not include areas that are concealed, inaccessible, or require specialist testing.',
+      },
+      { type: 'heading', text: 'Exclusions', level: 3 },
+      {
+        type: 'paragraph',
+        text: 'This inspection does not cover: structural engineering assessments, geotechnical reports, pest inspections, asbestos testing, electrical compliance certificates, plumbing compliance certificates, or any specialist trade assessments unless specifically stated.',
+      },
+      { type: 'heading', text: 'Recommendations', level: 3 },
+      {
+        type: 'paragraph',
+        text: 'Where defects or potential issues have been identified, we recommend obtaining quotes from qualified tradespeople before settlement. This report is for the exclusive use of the named client and may not be relied upon by third parties.',
+      },
+      { type: 'heading', text: 'Inspector Certification' },
+      {
+        type: 'paragraph',
+        text: 'I certify that this inspection was carried out in accordance with NZS 4306:2005 and represents my professional assessment of the property at the time of inspection.',
+      },
+      { type: 'paragraph', text: `${data.inspector_name}\nDate: ${data.date}` }
+    );
+
+    if (data.photos.length > 0) {
+      blocks.push(
+        { type: 'pageBreak' },
+        { type: 'heading', text: 'Appendix: Inspection Photographs' },
+        ...data.photos.map((photo, index): DocxBlock => ({
+          type: 'image',
+          src: photo.path,
+          caption: `Photo ${index + 1}: ${photo.caption}`,
+        }))
+      );
+    }
+
+    return blocks;
+  }
+
   /**
    * Format section ID to display name.
    */
@@ -349,47 +505,6 @@ export class ReportService {
     const tempHtmlPath = path.join(this.outputDir, `${inspectionId}.html`);
     writeFileSync(tempHtmlPath, html);
 
-    const browser = await puppeteer.launch({
-      headless: true,
-      args: ['--no-sandbox', '--disable-setuid-sandbox'],
-    });
-
-    try {
-      const page = await browser.newPage();
-
-      // Set content and wait for images
-      await page.setContent(html, {
-        waitUntil: 'networkidle0',
-        timeout: 30000,
-      });
-
-      // Generate PDF
-      await page.pdf({
-        path: outputPath,
-        format: 'A4',
-        printBackground: true,
-        margin: {
-          top: '20mm',
-          right: '15mm',
-          bottom: '25mm',
-          left: '15mm',
-        },
-        displayHeaderFooter: true,
-        headerTemplate: `
-          <div style="font-size: 9px; width: 100%; padding: 0 15mm; display: flex; justify-content: space-between;">
-            <span>Pre-Purchase Inspection Report</span>
-            <span></span>
-          </div>
-        `,
-        footerTemplate: `
-          <div style="font-size: 9px; width: 100%; padding: 0 15mm; display: flex; justify-content: space-between;">
-            <span>Confidential</span>
-            <span>Page <span class="pageNumber"></span> of <span class="totalPages"></span></span>
-          </div>
-        `,
-      });
-    } finally {
-      await browser.close();
-    }
+    await renderHtmlToPdf(html, outputPath, { headerTitle: REPORT_TITLE });
   }
 }
@@ -0,0 +1,219 @@
+/**
+ * Session Service
+ *
+ * Server-side login sessions. Each login creates a session holding a
+ * refresh token; short-lived access tokens name their session, so revoking
+ * the session ends them too. Refresh tokens rotate on every use, and
+ * presenting an already-rotated token revokes the session as stolen.
+ *
+ * Browser tabs refresh concurrently with the same token, so a token
+ * presented again within REFRESH_GRACE_MS gets the result of its first use
+ * rather than counting as reuse.
+ */
+
+import crypto from 'crypto';
+import type { Session } from '@prisma/client';
+import type { ISessionRepository } from '../repositories/interfaces/session.js';
+
+export class SessionAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionAuthError';
+  }
+}
+
+export class SessionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Session not found: ${id}`);
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // 15 minutes
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days since last refresh
+export const REFRESH_GRACE_MS = 30 * 1000;
+
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+export function hashRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function generateRefreshToken(): string {
+  return crypto.randomBytes(48).toString('base64url');
+}
+
+const DEVICES: Array<[RegExp, string]> = [
+  [/iPad/, 'iPad'],
+  [/iPhone/, 'iPhone'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+// Order matters: Edge and Chrome user agents also mention Chrome and Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+/**
+ * A short device description for the sessions list: "iPad, Safari"
+ */
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) return 'Unknown device';
+  const device = DEVICES.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return [device, browser].filter(Boolean).join(', ') || 'Unknown device';
+}
+
+function isActive(session: Session, now: Date): boolean {
+  return !session.revokedAt && session.expiresAt > now;
+}
+
+interface RefreshResult {
+  session: Session;
+  refreshToken: string;
+}
+
+export class SessionService {
+  /** Refreshes started in the last REFRESH_GRACE_MS, by the hash of the token presented */
+  private recentRefreshes = new Map<string, { result: Promise<RefreshResult>; startedAt: number }>();
+
+  constructor(private repository: ISessionRepository) {}
+
+  /**
+   * Start a session at login. The refresh token is only returned here and on refresh.
+   */
+  async create(
+    userId: string,
+    client: SessionClient,
+    now: Date = new Date()
+  ): Promise<{ session: Session; refreshToken: string }> {
+    const refreshToken = generateRefreshToken();
+    const session = await this.repository.create({
+      userId,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+    });
+    return { session, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new one, extending the session.
+   * Concurrent and repeated refreshes with one token share a single rotation.
+   */
+  async refresh(refreshToken: string, now: Date = new Date()): Promise<RefreshResult> {
+    const hash = hashRefreshToken(refreshToken);
+    for (const [key, { startedAt }] of this.recentRefreshes) {
+      if (now.getTime() - startedAt >= REFRESH_GRACE_MS) this.recentRefreshes.delete(key);
+    }
+
+    const recent = this.recentRefreshes.get(hash);
+    if (recent) return recent.result;
+
+    const result = this.rotate(hash, now);
+    this.recentRefreshes.set(hash, { result, startedAt: now.getTime() });
+    // Only successful rotations are shared
+    result.catch(() => this.recentRefreshes.delete(hash));
+    return result;
+  }
+
+  private async rotate(hash: string, now: Date): Promise<RefreshResult> {
+    const session = await this.repository.findByRefreshTokenHash(hash);
+
+    if (!session) {
+      // A rotated token being replayed: someone else holds the current one.
+      // Within the grace window it is a concurrent refresh handled elsewhere.
+      const reused = await this.repository.findByPreviousRefreshTokenHash(hash);
+      if (reused && now.getTime() - reused.lastUsedAt.getTime() >= REFRESH_GRACE_MS) {
+        await this.repository.revoke(reused.id, now);
+      }
+      throw new SessionAuthError('Invalid refresh token');
+    }
+    if (!isActive(session, now)) {
+      throw new SessionAuthError('Session has ended');
+    }
+
+    const next = generateRefreshToken();
+    const rotated = await this.repository.rotate(session.id, {
+      refreshTokenHash: hashRefreshToken(next),
+      previousRefreshTokenHash: hash,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+    });
+    if (!rotated) {
+      throw new SessionAuthError('Invalid refresh token');
+    }
+    return { session: rotated, refreshToken: next };
+  }
+
+  /**
+   * The session an access token names must still be active and belong to its user.
+   */
+  async assertActive(sessionId: string, userId: string, now: Date = new Date()): Promise<Session> {
+    const session = await this.repository.findById(sessionId);
+    if (!session || session.userId !== userId || !isActive(session, now)) {
+      throw new SessionAuthError('Session has ended');
+    }
+    return session;
+  }
+
+  async findForUser(userId: string, currentSessionId?: string, now: Date = new Date()): Promise<SessionSummary[]> {
+    const sessions = await this.repository.findActiveByUserId(userId, now);
+    return sessions.map((session) => ({
+      id: session.id,
+      device: describeUserAgent(session.userAgent),
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  async revoke(userId: string, sessionId: string, now: Date = new Date()): Promise<void> {
+    const session = await this.repository.findById(sessionId);
+    if (!session || session.userId !== userId) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    await this.repository.revoke(sessionId, now);
+  }
+
+  /**
+   * End a session from its refresh token (logout). Unknown tokens are ignored.
+   */
+  async revokeByRefreshToken(refreshToken: string, now: Date = new Date()): Promise<void> {
+    const session = await this.repository.findByRefreshTokenHash(hashRefreshToken(refreshToken));
+    if (session) {
+      await this.repository.revoke(session.id, now);
+    }
+  }
+
+  /**
+   * End every session for the user, e.g. after a password reset.
+   */
+  async revokeAll(userId: string, now: Date = new Date()): Promise<number> {
+    return this.repository.revokeAllForUser(userId, now);
+  }
+}
@@ -5,6 +5,9 @@ import type {
   UpdateSiteInspectionInput,
   SiteInspectionSearchParams,
 } from '../repositories/interfaces/site-inspection.js';
+import type { IProjectRepository } from '../repositories/interfaces/project.js';
+import type { PersonnelService } from './personnel.js';
+import { ProjectNotFoundError } from './project.js';
 
 export class SiteInspectionNotFoundError extends Error {
   constructor(id: string) {
@@ -20,57 +23,93 @@ export class SiteInspectionDeletedError extends Error {
   }
 }
 
+export class InspectorRequiredError extends Error {
+  constructor() {
+    super('Either inspectorId or inspectorName is required');
+    this.name = 'InspectorRequiredError';
+  }
+}
+
 export class SiteInspectionService {
-  constructor(private repository: ISiteInspectionRepository) {}
+  constructor(
+    private repository: ISiteInspectionRepository,
+    private projectRepository: IProjectRepository,
+    private personnelService?: PersonnelService
+  ) {}
 
-  async create(input: CreateSiteInspectionInput): Promise<SiteInspection> {
-    return this.repository.create(input);
+  async create(organizationId: string, input: CreateSiteInspectionInput): Promise<SiteInspection> {
+    if (!(await this.projectRepository.findById(organizationId, input.projectId))) {
+      throw new ProjectNotFoundError(input.projectId);
+    }
+    const inspector = input.inspectorId ? await this.resolveInspector(organizationId, input.inspectorId) : null;
+    const inspectorName = input.inspectorName || inspector?.name;
+    if (!inspectorName) {
+      throw new InspectorRequiredError();
+    }
+    return this.repository.create({ ...input, inspectorName });
   }
 
-  async findAll(params?: SiteInspectionSearchParams): Promise<SiteInspection[]> {
-    return this.repository.findAll(params);
+  async findAll(organizationId: string, params?: SiteInspectionSearchParams): Promise<SiteInspection[]> {
+    return this.repository.findAll(organizationId, params);
   }
 
-  async findById(id: string): Promise<SiteInspection> {
-    const inspection = await this.repository.findById(id);
+  async findById(organizationId: string, id: string): Promise<SiteInspection> {
+    const inspection = await this.repository.findById(organizationId, id);
     if (!inspection) {
       throw new SiteInspectionNotFoundError(id);
     }
     return inspection;
   }
 
-  async findByProjectId(projectId: string): Promise<SiteInspection[]> {
-    return this.repository.findByProjectId(projectId);
+  async findByProjectId(organizationId: string, projectId: string): Promise<SiteInspection[]> {
+    return this.repository.findByProjectId(organizationId, projectId);
   }
 
-  async update(id: string, input: UpdateSiteInspectionInput): Promise<SiteInspection> {
-    await this.findById(id);
-    return this.repository.update(id, input);
+  async update(organizationId: string, id: string, input: UpdateSiteInspectionInput): Promise<SiteInspection> {
+    await this.findById(organizationId, id);
+    if (input.inspectorId) {
+      const inspector = await this.resolveInspector(organizationId, input.inspectorId);
+      return this.repository.update(organizationId, id, {
+        ...input,
+        inspectorName: input.inspectorName || inspector.name,
+      });
+    }
+    return this.repository.update(organizationId, id, input);
+  }
+
+  /**
+   * Inspectors must be active personnel of the organisation whose role allows inspecting.
+   */
+  private async resolveInspector(organizationId: string, inspectorId: string): Promise<{ name: string }> {
+    if (!this.personnelService) {
+      throw new Error('Personnel lookup is not configured');
+    }
+    return this.personnelService.assertCanInspect(organizationId, inspectorId);
   }
 
-  async softDelete(id: string): Promise<SiteInspection> {
-    await this.findById(id);
-    return this.repository.softDelete(id);
+  async softDelete(organizationId: string, id: string): Promise<SiteInspection> {
+    await this.findById(organizationId, id);
+    return this.repository.softDelete(organizationId, id);
   }
 
-  async restore(id: string): Promise<SiteInspection> {
+  async restore(organizationId: string, id: string): Promise<SiteInspection> {
     // For restore, we need to find including deleted
-    const inspection = await this.repository.findById(id, true);
+    const inspection = await this.repository.findById(organizationId, id, true);
     if (!inspection) {
       throw new SiteInspectionNotFoundError(id);
     }
     if (!inspection.deletedAt) {
       throw new Error(`Site inspection ${id} is not deleted`);
     }
-    return this.repository.restore(id);
+    return this.repository.restore(organizationId, id);
   }
 
-  async complete(id: string): Promise<SiteInspection> {
-    return this.update(id, { status: 'COMPLETED' });
+  async complete(organizationId: string, id: string): Promise<SiteInspection> {
+    return this.update(organizationId, id, { status: 'COMPLETED' });
   }
 
-  async navigate(id: string, section: string, clauseId?: string): Promise<SiteInspection> {
-    return this.update(id, {
+  async navigate(organizationId: string, id: string, section: string, clauseId?: string): Promise<SiteInspection> {
+    return this.update(organizationId, id, {
       currentSection: section,
       currentClauseId: clauseId,
       status: 'IN_PROGRESS',
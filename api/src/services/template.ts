@@ -0,0 +1,389 @@
+/**
+ * Template Service — Issue #156
+ *
+ * Database-backed report boilerplate with {{variable}} placeholders resolved
+ * against project, property, client and inspection data. Every content change
+ * is recorded as a new version so templates can be rolled back.
+ * See: docs/design/010-report-templates.md
+ */
+
+import type { ReportType, Template, TemplateVersion } from '@prisma/client';
+import type {
+  ITemplateRepository,
+  CreateTemplateInput,
+  TemplateSearchParams,
+  TemplateVariableData,
+} from '../repositories/interfaces/template.js';
+import { ProjectNotFoundError } from './project.js';
+import { formatDate } from './report-helpers.js';
+
+export class TemplateNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Template not found: ${id}`);
+    this.name = 'TemplateNotFoundError';
+  }
+}
+
+export class TemplateVersionNotFoundError extends Error {
+  constructor(templateId: string, version: number) {
+    super(`Template ${templateId} has no version ${version}`);
+    this.name = 'TemplateVersionNotFoundError';
+  }
+}
+
+export class TemplateLockedError extends Error {
+  constructor(name: string) {
+    super(`Template is locked: ${name}`);
+    this.name = 'TemplateLockedError';
+  }
+}
+
+export class TemplateValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateValidationError';
+  }
+}
+
+export const REPORT_TYPE_LABELS: Record<ReportType, string> = {
+  COA: 'Certificate of Acceptance',
+  CCC_GAP: 'CCC Gap Analysis',
+  PPI: 'Pre-Purchase Inspection',
+  SAFE_SANITARY: 'Safe & Sanitary',
+  TFA: 'Technical Feasibility Assessment',
+};
+
+interface VariableDefinition {
+  description: string;
+  example: string;
+  resolve: (data: TemplateVariableData) => string | null | undefined;
+}
+
+const VARIABLES: Record<string, VariableDefinition> = {
+  'project.jobNumber': {
+    description: 'Job number',
+    example: 'J-2026-001',
+    resolve: (d) => d.jobNumber,
+  },
+  'project.address': {
+    description: 'Property address',
+    example: '12 Kauri Road, Titirangi, Auckland',
+    resolve: (d) => [d.property.streetAddress, d.property.suburb, d.property.city].filter(Boolean).join(', '),
+  },
+  'project.activity': {
+    description: 'Building work being assessed',
+    example: 'Unconsented deck and bathroom',
+    resolve: (d) => d.activity,
+  },
+  'project.reportType': {
+    description: 'Report type',
+    example: 'Certificate of Acceptance',
+    resolve: (d) => REPORT_TYPE_LABELS[d.reportType],
+  },
+  'property.lotDp': {
+    description: 'Legal description',
+    example: 'Lot 1 DP 12345',
+    resolve: (d) => d.property.lotDp,
+  },
+  'property.councilPropertyId': {
+    description: 'Council property ID',
+    example: '12345678',
+    resolve: (d) => d.property.councilPropertyId,
+  },
+  'property.territorialAuthority': {
+    description: 'Territorial authority',
+    example: 'AKL',
+    resolve: (d) => d.property.territorialAuthority,
+  },
+  'property.bcNumber': {
+    description: 'Building consent number',
+    example: 'BC/2004/1234',
+    resolve: (d) => d.property.bcNumber,
+  },
+  'property.yearBuilt': {
+    description: 'Year built',
+    example: '1985',
+    resolve: (d) => (d.property.yearBuilt ? String(d.property.yearBuilt) : null),
+  },
+  'client.name': {
+    description: 'Client name',
+    example: 'Jane Smith',
+    resolve: (d) => d.client.name,
+  },
+  'client.contactPerson': {
+    description: 'Client contact person',
+    example: 'John Smith',
+    resolve: (d) => d.client.contactPerson,
+  },
+  'client.address': {
+    description: 'Client postal address',
+    example: 'PO Box 123, Auckland',
+    resolve: (d) => d.client.address,
+  },
+  'client.email': {
+    description: 'Client email',
+    example: 'jane@example.com',
+    resolve: (d) => d.client.email,
+  },
+  'client.phone': {
+    description: 'Client phone',
+    example: '09 123 4567',
+    resolve: (d) => d.client.phone,
+  },
+  'inspection.date': {
+    description: 'Date of the most recent site inspection',
+    example: '01 February 2026',
+    resolve: (d) => (d.siteInspections[0] ? formatDate(d.siteInspections[0].date) : null),
+  },
+  'inspection.inspectorName': {
+    description: 'Inspector on the most recent site inspection',
+    example: 'Alex Surveyor',
+    resolve: (d) => d.siteInspections[0]?.inspectorName,
+  },
+  'inspection.weather': {
+    description: 'Weather during the most recent site inspection',
+    example: 'Fine',
+    resolve: (d) => d.siteInspections[0]?.weather,
+  },
+};
+
+export const TEMPLATE_VARIABLES = Object.entries(VARIABLES).map(([name, { description, example }]) => ({
+  name,
+  description,
+  example,
+}));
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}\s]+)\s*\}\}/g;
+
+/**
+ * Variables referenced by content, in order of first appearance.
+ */
+export function extractVariables(content: string): string[] {
+  const variables: string[] = [];
+  for (const match of content.matchAll(VARIABLE_PATTERN)) {
+    const name = match[1] as string;
+    if (!variables.includes(name)) {
+      variables.push(name);
+    }
+  }
+  return variables;
+}
+
+export interface RenderResult {
+  content: string;
+  warnings: string[];
+}
+
+/** Own keys only, so inherited names such as "constructor" are not variables */
+function isVariable(name: string): boolean {
+  return Object.hasOwn(VARIABLES, name);
+}
+
+function valueOf(values: Record<string, string | null | undefined>, name: string): string | null | undefined {
+  return isVariable(name) && Object.hasOwn(values, name) ? values[name] : undefined;
+}
+
+/**
+ * Substitute {{variable}} placeholders. Unknown or empty variables are left
+ * in place and reported as warnings so the author can see what is missing.
+ */
+export function renderContent(content: string, values: Record<string, string | null | undefined>): RenderResult {
+  const warnings: string[] = [];
+
+  for (const name of extractVariables(content)) {
+    if (!isVariable(name)) {
+      warnings.push(`Unknown variable: "${name}"`);
+    } else if (!valueOf(values, name)) {
+      warnings.push(`Variable "${name}" has no value`);
+    }
+  }
+
+  const rendered = content.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    valueOf(values, name) || placeholder
+  );
+
+  return { content: rendered, warnings };
+}
+
+function resolveVariables(data: TemplateVariableData): Record<string, string | null | undefined> {
+  return Object.fromEntries(
+    Object.entries(VARIABLES).map(([name, definition]) => [name, definition.resolve(data)])
+  );
+}
+
+const SAMPLE_VALUES = Object.fromEntries(TEMPLATE_VARIABLES.map((v) => [v.name, v.example]));
+
+export class TemplateService {
+  constructor(private repository: ITemplateRepository) {}
+
+  async create(organizationId: string, input: Omit<CreateTemplateInput, 'variables'>): Promise<Template> {
+    return this.repository.create(organizationId, { ...input, variables: this.validateContent(input.content) });
+  }
+
+  async findById(organizationId: string, id: string): Promise<Template> {
+    const template = await this.repository.findById(organizationId, id);
+    if (!template) {
+      throw new TemplateNotFoundError(id);
+    }
+    return template;
+  }
+
+  async findAll(organizationId: string, params?: TemplateSearchParams): Promise<Template[]> {
+    return this.repository.findAll(organizationId, params);
+  }
+
+  /**
+   * Active section templates for a report type, one per section. Templates
+   * specific to the report type take precedence over those for all types.
+   */
+  async findDefaults(organizationId: string, reportType: ReportType): Promise<Template[]> {
+    const templates = await this.repository.findAll(organizationId, { category: 'SECTION' });
+    const bySection = new Map<string, Template>();
+
+    for (const template of templates) {
+      if (!template.section || (template.reportType && template.reportType !== reportType)) continue;
+      const current = bySection.get(template.section);
+      if (!current || (!current.reportType && template.reportType)) {
+        bySection.set(template.section, template);
+      }
+    }
+
+    return Array.from(bySection.values());
+  }
+
+  /**
+   * Update a template. Content changes create a new version; metadata
+   * changes are applied in place. Locked templates cannot be edited.
+   */
+  async update(
+    organizationId: string,
+    id: string,
+    input: {
+      name?: string;
+      reportType?: ReportType | null;
+      section?: string | null;
+      content?: string;
+      changeNotes?: string;
+    },
+    userId?: string
+  ): Promise<Template> {
+    const existing = await this.findEditable(organizationId, id);
+    const { content, changeNotes, ...metadata } = input;
+
+    if (Object.keys(metadata).length > 0) {
+      await this.repository.update(organizationId, id, metadata);
+    }
+
+    if (content !== undefined && content !== existing.content) {
+      return this.repository.saveVersion(organizationId, id, {
+        version: existing.version + 1,
+        content,
+        variables: this.validateContent(content),
+        changeNotes,
+        createdById: userId,
+      });
+    }
+
+    return this.findById(organizationId, id);
+  }
+
+  /**
+   * Templates are deactivated rather than deleted so version history is kept.
+   */
+  async deactivate(organizationId: string, id: string): Promise<void> {
+    await this.findEditable(organizationId, id);
+    await this.repository.update(organizationId, id, { active: false });
+  }
+
+  async lock(organizationId: string, id: string): Promise<Template> {
+    await this.findById(organizationId, id);
+    return this.repository.update(organizationId, id, { locked: true });
+  }
+
+  async unlock(organizationId: string, id: string): Promise<Template> {
+    await this.findById(organizationId, id);
+    return this.repository.update(organizationId, id, { locked: false });
+  }
+
+  async findVersions(organizationId: string, id: string): Promise<TemplateVersion[]> {
+    await this.findById(organizationId, id);
+    return this.repository.findVersions(id);
+  }
+
+  /**
+   * Restore an earlier version's content as a new version.
+   */
+  async rollback(organizationId: string, id: string, version: number, userId?: string): Promise<Template> {
+    const existing = await this.findEditable(organizationId, id);
+    const target = await this.repository.findVersion(id, version);
+    if (!target) {
+      throw new TemplateVersionNotFoundError(id, version);
+    }
+
+    return this.repository.saveVersion(organizationId, id, {
+      version: existing.version + 1,
+      content: target.content,
+      variables: target.variables,
+      changeNotes: `Rolled back to version ${version}`,
+      createdById: userId,
+    });
+  }
+
+  /**
+   * Copy a template as a new, unlocked template starting at version 1.
+   */
+  async clone(organizationId: string, id: string, name: string | undefined, userId?: string): Promise<Template> {
+    const source = await this.findById(organizationId, id);
+
+    return this.repository.create(organizationId, {
+      name: name || `${source.name} (copy)`,
+      category: source.category,
+      reportType: source.reportType ?? undefined,
+      section: source.section ?? undefined,
+      content: source.content,
+      variables: source.variables,
+      createdById: userId,
+      changeNotes: `Cloned from ${source.name} v${source.version}`,
+    });
+  }
+
+  /**
+   * Render a template against the data of a project in the caller's organisation.
+   */
+  async render(organizationId: string, id: string, projectId: string): Promise<RenderResult> {
+    const template = await this.findById(organizationId, id);
+    const data = await this.repository.loadVariableData(organizationId, projectId);
+    if (!data) {
+      throw new ProjectNotFoundError(projectId);
+    }
+    return renderContent(template.content, resolveVariables(data));
+  }
+
+  /**
+   * Render a template (or unsaved content) with sample data.
+   */
+  async preview(organizationId: string, id: string, content?: string): Promise<RenderResult> {
+    const template = await this.findById(organizationId, id);
+    return renderContent(content ?? template.content, SAMPLE_VALUES);
+  }
+
+  private async findEditable(organizationId: string, id: string): Promise<Template> {
+    const template = await this.findById(organizationId, id);
+    if (template.locked) {
+      throw new TemplateLockedError(template.name);
+    }
+    return template;
+  }
+
+  /**
+   * Every variable must be known; returns the extracted variable list.
+   */
+  private validateContent(content: string): string[] {
+    const variables = extractVariables(content);
+    const unknown = variables.filter((name) => !isVariable(name));
+    if (unknown.length > 0) {
+      throw new TemplateValidationError(`Unknown template variables: ${unknown.join(', ')}`);
+    }
+    return variables;
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Speech-to-Text
+ *
+ * Transcribes inspectors' voice notes without the recording leaving the
+ * server. The backend is chosen by TRANSCRIPTION_BACKEND:
+ *
+ * - command: runs TRANSCRIPTION_COMMAND (e.g. a whisper.cpp wrapper) with the
+ *   audio file's path appended and reads the transcript from stdout. The
+ *   command is responsible for decoding OGG/Opus and M4A.
+ * - stub: returns TRANSCRIPTION_STUB_TEXT, for tests and local development.
+ * - none: no transcription; recordings are still stored.
+ *
+ * When TRANSCRIPTION_BACKEND is unset, the command backend is used if a
+ * command is configured and none otherwise.
+ */
+
+import { execFile } from 'node:child_process';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+export class TranscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptionError';
+  }
+}
+
+export interface TranscriptionBackend {
+  /** Recorded against each transcript so results can be traced to a model */
+  readonly name: string;
+  transcribe(audio: Buffer, extension: string): Promise<string>;
+}
+
+/** Long voice notes on CPU-only hosts can take a while */
+const DEFAULT_COMMAND_TIMEOUT_MS = 120_000;
+
+/**
+ * Runs a local speech-to-text program on a temporary copy of the recording
+ */
+export class CommandTranscriptionBackend implements TranscriptionBackend {
+  readonly name: string;
+
+  constructor(
+    private command: string,
+    private args: string[] = [],
+    private timeoutMs = DEFAULT_COMMAND_TIMEOUT_MS
+  ) {
+    this.name = `command:${path.basename(command)}`;
+  }
+
+  async transcribe(audio: Buffer, extension: string): Promise<string> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'voice-note-'));
+    const audioPath = path.join(dir, `recording.${extension}`);
+
+    try {
+      await fs.writeFile(audioPath, audio);
+      const stdout = await new Promise<string>((resolve, reject) => {
+        execFile(
+          this.command,
+          [...this.args, audioPath],
+          { timeout: this.timeoutMs, maxBuffer: 1024 * 1024 },
+          (error, out, stderr) => {
+            if (error) {
+              reject(new TranscriptionError(`${this.name} failed: ${stderr.trim() || error.message}`));
+              return;
+            }
+            resolve(out);
+          }
+        );
+      });
+      return stdout.trim();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Returns a fixed transcript, whatever the recording
+ */
+export class StubTranscriptionBackend implements TranscriptionBackend {
+  readonly name = 'stub';
+
+  constructor(private text = '') {}
+
+  async transcribe(): Promise<string> {
+    return this.text;
+  }
+}
+
+/**
+ * The backend configured in the environment, or null when transcription is off
+ */
+export function createTranscriptionBackend(env: NodeJS.ProcessEnv = process.env): TranscriptionBackend | null {
+  const command = env.TRANSCRIPTION_COMMAND?.trim();
+  const backend = env.TRANSCRIPTION_BACKEND || (command ? 'command' : 'none');
+
+  switch (backend) {
+    case 'command': {
+      if (!command) {
+        throw new TranscriptionError('TRANSCRIPTION_COMMAND must be set for the command backend');
+      }
+      const [program, ...args] = command.split(/\s+/);
+      const timeout = Number(env.TRANSCRIPTION_TIMEOUT_MS) || DEFAULT_COMMAND_TIMEOUT_MS;
+      return new CommandTranscriptionBackend(program as string, args, timeout);
+    }
+    case 'stub':
+      return new StubTranscriptionBackend(env.TRANSCRIPTION_STUB_TEXT);
+    case 'none':
+      return null;
+    default:
+      throw new TranscriptionError(`Unknown TRANSCRIPTION_BACKEND: ${backend}`);
+  }
+}
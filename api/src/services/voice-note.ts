@@ -0,0 +1,263 @@
+/**
+ * Voice Notes
+ *
+ * Stores the original recording of a dictated finding (WhatsApp sends
+ * OGG/Opus; iPhones forward M4A), transcribes it and splits a note that
+ * covers several issues into one text per issue. The recording is kept so
+ * the finding can be checked against what the inspector actually said.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+import type { VoiceNote } from '@prisma/client';
+import type { IVoiceNoteRepository } from '../repositories/interfaces/voice-note.js';
+import type { TranscriptionBackend } from './transcription.js';
+
+export class VoiceNoteNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Voice note not found: ${id}`);
+    this.name = 'VoiceNoteNotFoundError';
+  }
+}
+
+export class VoiceNoteAccessError extends Error {
+  constructor() {
+    super('You can only delete voice notes you recorded');
+    this.name = 'VoiceNoteAccessError';
+  }
+}
+
+export class VoiceNoteFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VoiceNoteFileError';
+  }
+}
+
+/** Fits the 10MB JSON body limit once base64 encoded (minutes of Opus audio) */
+export const MAX_VOICE_NOTE_SIZE = 7 * 1024 * 1024;
+
+interface AudioType {
+  mimeType: string;
+  ext: string;
+  matches: (buffer: Buffer) => boolean;
+}
+
+const OGG: AudioType = {
+  mimeType: 'audio/ogg',
+  ext: 'ogg',
+  matches: (buffer) => buffer.subarray(0, 4).toString('latin1') === 'OggS',
+};
+
+const M4A: AudioType = {
+  mimeType: 'audio/mp4',
+  ext: 'm4a',
+  matches: (buffer) => buffer.subarray(4, 8).toString('latin1') === 'ftyp',
+};
+
+/** Declared MIME types (without parameters) and the container they must hold */
+const AUDIO_TYPES: Record<string, AudioType> = {
+  'audio/ogg': OGG,
+  'audio/opus': OGG,
+  'application/ogg': OGG,
+  'audio/mp4': M4A,
+  'audio/m4a': M4A,
+  'audio/x-m4a': M4A,
+  'audio/aac': M4A,
+};
+
+export interface UploadVoiceNoteInput {
+  base64Data: string;
+  /** Detected from the content when omitted */
+  mimeType?: string;
+}
+
+export interface TranscribedVoiceNote {
+  voiceNote: VoiceNote;
+  /** One text per issue dictated; empty when nothing was transcribed */
+  issues: string[];
+}
+
+/**
+ * Decode and check an upload, returning the audio and its container
+ */
+export function decodeVoiceNote(input: UploadVoiceNoteInput): { buffer: Buffer; type: AudioType } {
+  let base64Data = input.base64Data;
+  let declared = input.mimeType;
+
+  // Handle data URL format (e.g., "data:audio/ogg; codecs=opus;base64,...")
+  const dataUrl = base64Data.match(/^data:([^,]*?);base64,(.+)$/s);
+  if (dataUrl) {
+    declared = declared || dataUrl[1];
+    base64Data = dataUrl[2] as string;
+  }
+
+  if (!/^[A-Za-z0-9+/\s]*={0,2}\s*$/.test(base64Data)) {
+    throw new VoiceNoteFileError('Invalid base64 data');
+  }
+  const buffer = Buffer.from(base64Data, 'base64');
+  if (buffer.length === 0) {
+    throw new VoiceNoteFileError('Recording is empty');
+  }
+  if (buffer.length > MAX_VOICE_NOTE_SIZE) {
+    throw new VoiceNoteFileError(`Recording is larger than ${MAX_VOICE_NOTE_SIZE / (1024 * 1024)}MB`);
+  }
+
+  if (!declared) {
+    const detected = [OGG, M4A].find((type) => type.matches(buffer));
+    if (!detected) {
+      throw new VoiceNoteFileError('Unrecognised audio format. Only OGG/Opus and M4A allowed.');
+    }
+    return { buffer, type: detected };
+  }
+
+  // "audio/ogg; codecs=opus" → "audio/ogg"
+  const type = AUDIO_TYPES[declared.split(';')[0]!.trim().toLowerCase()];
+  if (!type) {
+    throw new VoiceNoteFileError('Invalid audio type. Only OGG/Opus and M4A allowed.');
+  }
+  if (!type.matches(buffer)) {
+    throw new VoiceNoteFileError(`Recording content is not valid ${type.ext.toUpperCase()} audio`);
+  }
+  return { buffer, type };
+}
+
+// ============================================================================
+// Splitting multi-issue notes
+// ============================================================================
+
+const ORDINAL = String.raw`(?:second(?:ly)?|third(?:ly)?|fourth(?:ly)?|fifth(?:ly)?|finally|lastly|number (?:two|three|four|five|\d+))`;
+
+/** Words that start a new issue at the start of a sentence */
+const ISSUE_MARKER = new RegExp(
+  String.raw`^(?:and\s+)?(?:first(?:ly)?|${ORDINAL}|number one|next|also|another|(?:one )?more thing|the other thing)\b`,
+  'i'
+);
+
+/** Ordinals are clear enough to start a new issue after a comma too */
+const ORDINAL_AFTER_COMMA = new RegExp(String.raw`,\s*(?=(?:and\s+)?${ORDINAL}\b)`, 'i');
+
+/** What follows a marker before the issue itself: "issue is", "thing,", ":" */
+const MARKER_FILLER = /^[\s,:-]*(?:(?:issue|thing|item|point|problem|defect|finding)\b)?(?:\s+(?:is|was)\b)?[\s,:-]*/i;
+
+/** "Three things on the deck." - announces the list rather than being an issue */
+const COUNT_PREAMBLE = /^(?:(?:there (?:are|were|is)|i(?:'ve| have)(?: got)?|got)\s+)?(?:two|three|four|five|\d+|a few|a couple(?: of)?|couple of|several|some) (?:things|issues|items|points|problems|defects)\b/i;
+
+function tidy(text: string): string {
+  const trimmed = text.trim().replace(/[\s.,;:!?-]+$/, '');
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+}
+
+/**
+ * Split a transcript into one text per issue. A sentence starting with
+ * "first", "second", "next", "also", "another"… starts a new issue; other
+ * sentences belong to the issue before them. A note with no such markers is
+ * one issue.
+ */
+export function splitIssues(transcript: string): string[] {
+  const text = transcript.replace(/\s+/g, ' ').trim();
+  if (!text) return [];
+
+  const pieces = text
+    .split(/(?<=[.!?;])\s+/)
+    .flatMap((sentence) => sentence.split(ORDINAL_AFTER_COMMA));
+
+  const groups: Array<{ marked: boolean; parts: string[] }> = [];
+  for (const piece of pieces) {
+    const marker = piece.match(ISSUE_MARKER);
+    if (marker || groups.length === 0) {
+      const rest = marker ? piece.slice(marker[0].length).replace(MARKER_FILLER, '') : piece;
+      groups.push({ marked: Boolean(marker), parts: [rest] });
+    } else {
+      groups[groups.length - 1]!.parts.push(piece);
+    }
+  }
+
+  const first = groups[0]!;
+  if (groups.length > 1 && !first.marked && COUNT_PREAMBLE.test(first.parts.join(' '))) {
+    groups.shift();
+  }
+
+  return groups
+    .map((group) => tidy(group.parts.join(' ')))
+    .filter((issue) => issue.length > 0);
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+export class VoiceNoteService {
+  private voiceNoteDir: string;
+
+  constructor(
+    private repository: IVoiceNoteRepository,
+    private transcriber: TranscriptionBackend | null,
+    voiceNoteDir?: string
+  ) {
+    this.voiceNoteDir = voiceNoteDir || process.env.VOICE_NOTE_DIR || './uploads/voice-notes';
+  }
+
+  /**
+   * Store a recording and transcribe it. A failed transcription is logged and
+   * leaves the transcript empty; the recording is kept either way.
+   */
+  async upload(organizationId: string, input: UploadVoiceNoteInput, uploadedById?: string): Promise<TranscribedVoiceNote> {
+    const { buffer, type } = decodeVoiceNote(input);
+
+    const filename = `${crypto.randomUUID()}.${type.ext}`;
+    await fs.mkdir(this.voiceNoteDir, { recursive: true });
+    const filePath = path.join(this.voiceNoteDir, filename);
+    await fs.writeFile(filePath, buffer);
+
+    let transcript: string | undefined;
+    if (this.transcriber) {
+      try {
+        transcript = (await this.transcriber.transcribe(buffer, type.ext)).trim() || undefined;
+      } catch (err) {
+        console.warn(`Failed to transcribe voice note ${filename}`, err);
+      }
+    }
+
+    const voiceNote = await this.repository.create(organizationId, {
+      filename,
+      path: filePath,
+      mimeType: type.mimeType,
+      fileSize: buffer.length,
+      transcript,
+      transcriber: transcript ? this.transcriber?.name : undefined,
+      uploadedById,
+    });
+
+    return { voiceNote, issues: transcript ? splitIssues(transcript) : [] };
+  }
+
+  async findById(organizationId: string, id: string): Promise<VoiceNote> {
+    const voiceNote = await this.repository.findById(organizationId, id);
+    if (!voiceNote) {
+      throw new VoiceNoteNotFoundError(id);
+    }
+    return voiceNote;
+  }
+
+  /**
+   * Delete a recording. Only its uploader may, unless canDeleteAny is set
+   * (the caller may edit any inspection in the organisation).
+   */
+  async delete(organizationId: string, id: string, userId: string | undefined, canDeleteAny: boolean): Promise<void> {
+    const voiceNote = await this.findById(organizationId, id);
+    if (!canDeleteAny && (!userId || voiceNote.uploadedById !== userId)) {
+      throw new VoiceNoteAccessError();
+    }
+
+    try {
+      await fs.unlink(voiceNote.path);
+    } catch (err) {
+      // Log but don't fail if file doesn't exist
+      console.warn(`Failed to delete voice note file: ${voiceNote.path}`, err);
+    }
+
+    await this.repository.delete(id);
+  }
+}
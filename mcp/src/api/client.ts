@@ -5,6 +5,8 @@
  * Configurable via API_URL environment variable.
  */
 
+import { createHash } from 'crypto';
+
 const API_URL = process.env.API_URL || 'http://localhost:3000';
 
 export interface ApiError {
@@ -19,13 +21,25 @@ export interface ApiResponse<T> {
   status: number;
 }
 
+/**
+ * Derive an Idempotency-Key from the inbound message ID, so a retried
+ * message repeats each write with the same key and the API replays the
+ * first response. `parts` tell apart the writes made for one message.
+ */
+export function idempotencyKey(messageId: string | undefined, ...parts: Array<string | number>): string | undefined {
+  if (!messageId) return undefined;
+  return createHash('sha256').update([messageId, ...parts].join(':')).digest('hex');
+}
+
 /**
  * Make an HTTP request to the API.
+ * Sends the Idempotency-Key header when a key is given.
  */
 async function request<T>(
   method: string,
   path: string,
-  body?: unknown
+  body?: unknown,
+  idempotencyKey?: string
 ): Promise<ApiResponse<T>> {
   const url = `${API_URL}${path}`;
   
@@ -34,6 +48,7 @@ async function request<T>(
       method,
       headers: {
         'Content-Type': 'application/json',
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
       },
       body: body ? JSON.stringify(body) : undefined,
     });
@@ -208,8 +223,8 @@ export interface Finding {
 }
 
 export const findingsApi = {
-  create: (inspectionId: string, input: CreateFindingInput) =>
-    request<Finding>('POST', `/api/inspections/${inspectionId}/findings`, input),
+  create: (inspectionId: string, input: CreateFindingInput, idempotencyKey?: string) =>
+    request<Finding>('POST', `/api/inspections/${inspectionId}/findings`, input, idempotencyKey),
   
   list: (inspectionId: string) =>
     request<Finding[]>('GET', `/api/inspections/${inspectionId}/findings`),
@@ -234,8 +249,8 @@ export interface Photo {
 }
 
 export const photosApi = {
-  upload: (findingId: string, input: UploadPhotoInput) =>
-    request<Photo>('POST', `/api/findings/${findingId}/photos`, input),
+  upload: (findingId: string, input: UploadPhotoInput, idempotencyKey?: string) =>
+    request<Photo>('POST', `/api/findings/${findingId}/photos`, input, idempotencyKey),
 };
 
 // ============================================================================
@@ -1,10 +1,12 @@
 /**
  * API Client Tests — Issue #379
  *
- * Tests for service-to-service authentication with SERVICE_API_KEY.
+ * Tests for service-to-service authentication with SERVICE_API_KEY and the
+ * headers sent with each request.
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 
 describe('API Client', () => {
   const originalEnv = process.env;
@@ -149,4 +151,86 @@ describe('API Client', () => {
       );
     });
   });
+
+  describe('Idempotency-Key header', () => {
+    it('should send the same key for the same message and write', async () => {
+      process.env.API_URL = 'http://localhost:3000';
+
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 201,
+        json: () => Promise.resolve({ id: 'find-1' }),
+      });
+      global.fetch = mockFetch;
+
+      const { findingsApi, idempotencyKey } = await import('../api/client.js');
+      const input = { section: 'exterior', text: 'Cracked tile' };
+      await findingsApi.create('insp-1', input, idempotencyKey('wamid.ABC', 'finding', 0));
+      await findingsApi.create('insp-1', input, idempotencyKey('wamid.ABC', 'finding', 0));
+
+      const keys = mockFetch.mock.calls.map((call) => (call[1]?.headers as Record<string, string>)['Idempotency-Key']);
+      expect(keys[0]).toMatch(/^[0-9a-f]{64}$/);
+      expect(keys[1]).toBe(keys[0]);
+      expect(idempotencyKey('wamid.ABC', 'finding', 1)).not.toBe(keys[0]);
+    });
+
+    it('should not send a key without a message ID', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 201,
+        json: () => Promise.resolve({ id: 'find-1' }),
+      });
+      global.fetch = mockFetch;
+
+      const { findingsApi, idempotencyKey } = await import('../api/client.js');
+      await findingsApi.create('insp-1', { section: 'exterior', text: 'Cracked tile' }, idempotencyKey(undefined, 'finding', 0));
+
+      const headers = mockFetch.mock.calls[0][1]?.headers as Record<string, string>;
+      expect(headers['Idempotency-Key']).toBeUndefined();
+    });
+  });
+
+  describe('X-Inspector-Phone header', () => {
+    const headersOf = (mockFetch: ReturnType<typeof vi.fn>, call: number) =>
+      mockFetch.mock.calls[call][1]?.headers as Record<string, string>;
+
+    it('should send the inspector\'s phone only inside asInspector', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ id: '123' }),
+      });
+      global.fetch = mockFetch;
+
+      const { inspectionApi, asInspector } = await import('../api/client.js');
+      await Promise.all([
+        asInspector('+64211111111', () => inspectionApi.get('insp-1')),
+        asInspector('+64222222222', () => inspectionApi.get('insp-2')),
+      ]);
+      await inspectionApi.get('insp-3');
+
+      expect(headersOf(mockFetch, 0)['X-Inspector-Phone']).toBe('+64211111111');
+      expect(headersOf(mockFetch, 1)['X-Inspector-Phone']).toBe('+64222222222');
+      expect(headersOf(mockFetch, 2)['X-Inspector-Phone']).toBeUndefined();
+    });
+
+    it('should pass a tool\'s sender_phone to its API calls', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ currentSection: 'interior' }),
+      });
+      global.fetch = mockFetch;
+
+      const server = { tool: vi.fn() };
+      const { registerTools } = await import('../tools/index.js');
+      registerTools(server as unknown as McpServer);
+
+      const [, , schema, handler] = server.tool.mock.calls.find(([name]) => name === 'inspection_navigate')!;
+      expect(schema).toHaveProperty('sender_phone');
+      await handler({ inspection_id: 'insp-1', section: 'interior', sender_phone: '+64211111111' }, {});
+
+      expect(headersOf(mockFetch, 0)['X-Inspector-Phone']).toBe('+64211111111');
+    });
+  });
 });
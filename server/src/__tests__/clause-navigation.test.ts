@@ -0,0 +1,225 @@
+/**
+ * Clause Navigation Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { BuildingCodeClause, ClauseReview } from '../api/client.js';
+import { registerClauseNavigationTools } from '../tools/clause-navigation.js';
+import {
+  isReviewed,
+  nextUnreviewedClause,
+  remainingByCategory,
+  clausePrompt,
+} from '../services/clause-navigation.js';
+
+const clause = (code: string, sortOrder: number): BuildingCodeClause => ({
+  id: `clause-${code}`,
+  code,
+  title: `Title ${code}`,
+  category: code[0],
+  performanceText: `Performance ${code}`,
+  typicalEvidence: [],
+  sortOrder,
+});
+
+const review = (code: string, fields: Partial<ClauseReview>): ClauseReview => ({
+  id: `review-${code}`,
+  inspectionId: 'insp-1',
+  clauseId: `clause-${code}`,
+  applicability: 'APPLICABLE',
+  photoIds: [],
+  docIds: [],
+  clause: { id: `clause-${code}`, code, title: '', category: code[0], performanceText: '', typicalEvidence: [] },
+  createdAt: '',
+  updatedAt: '',
+  ...fields,
+});
+
+const clauses = [clause('B1', 1), clause('B2', 2), clause('E1', 1), clause('E2', 2), clause('E3', 3), clause('G12', 12)];
+
+describe('isReviewed', () => {
+  it('should count N/A clauses and clauses with observations', () => {
+    expect(isReviewed(undefined)).toBe(false);
+    expect(isReviewed(review('B1', {}))).toBe(false);
+    expect(isReviewed(review('B1', { observations: '  ' }))).toBe(false);
+    expect(isReviewed(review('B1', { observations: 'Piles sighted' }))).toBe(true);
+    expect(isReviewed(review('B1', { applicability: 'NA', naReason: 'No structure altered' }))).toBe(true);
+  });
+});
+
+describe('nextUnreviewedClause', () => {
+  it('should start at the first clause', () => {
+    expect(nextUnreviewedClause(clauses, [])).toEqual({ clause: clauses[0], skipped: [], wrapped: false });
+  });
+
+  it('should skip reviewed clauses after the current one', () => {
+    const reviews = [
+      review('B2', { applicability: 'NA' }),
+      review('E1', { observations: 'Surface water directed away' }),
+      review('E2', {}),
+    ];
+
+    const next = nextUnreviewedClause(clauses, reviews, 'clause-B1');
+
+    expect(next?.clause.code).toBe('E2');
+    expect(next?.skipped).toEqual(['B2', 'E1']);
+    expect(next?.wrapped).toBe(false);
+  });
+
+  it('should come back round to clauses passed over earlier', () => {
+    const reviews = [review('E3', { applicability: 'NA' }), review('G12', { observations: 'OK' })];
+
+    const next = nextUnreviewedClause(clauses, reviews, 'clause-E2');
+
+    expect(next?.clause.code).toBe('B1');
+    expect(next?.wrapped).toBe(true);
+  });
+
+  it('should return null when every clause is reviewed', () => {
+    const reviews = clauses.map((c) => review(c.code, { applicability: 'NA' }));
+
+    expect(nextUnreviewedClause(clauses, reviews, 'clause-B1')).toBeNull();
+  });
+});
+
+describe('remainingByCategory', () => {
+  it('should list the clauses left in each category', () => {
+    const remaining = remainingByCategory(clauses, [
+      review('B1', { observations: 'Foundations sound' }),
+      review('E2', { applicability: 'NA' }),
+    ]);
+
+    expect(remaining).toEqual({
+      B: { name: 'Stability', total: 2, remaining: 1, clauses: ['B2'] },
+      E: { name: 'Moisture', total: 3, remaining: 2, clauses: ['E1', 'E3'] },
+      G: { name: 'Services and Facilities', total: 1, remaining: 1, clauses: ['G12'] },
+    });
+  });
+});
+
+describe('clausePrompt', () => {
+  it('should read back the code, title and performance text', () => {
+    expect(clausePrompt(clauses[3])).toBe('E2 Title E2: Performance E2');
+  });
+});
+
+describe('clause navigation tools', () => {
+  const INSPECTION_ID = '6f1c2a7e-3b4d-4e5f-8a9b-0c1d2e3f4a5b';
+
+  /** API responses keyed by "METHOD path"; anything else is a 404 */
+  let routes: Record<string, { status: number; body: unknown }>;
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  const reply = (body: unknown, status = 200) => ({ status, body });
+
+  type ToolResult = { content: { text: string }[]; isError?: boolean };
+
+  async function callTool(name: string, args: Record<string, unknown>) {
+    const server = { tool: vi.fn() };
+    registerClauseNavigationTools(server as unknown as McpServer);
+    const [, , , handler] = server.tool.mock.calls.find(([toolName]) => toolName === name)!;
+    const result = await handler(args, {}) as ToolResult;
+    return { isError: result.isError, body: JSON.parse(result.content[0].text) };
+  }
+
+  const updateCalls = () => mockFetch.mock.calls
+    .filter(([, init]) => init.method === 'PUT')
+    .map(([, init]) => JSON.parse(init.body));
+
+  beforeEach(() => {
+    routes = {
+      [`GET /api/site-inspections/${INSPECTION_ID}`]: reply({ id: INSPECTION_ID, type: 'CLAUSE_REVIEW', currentClauseId: 'clause-B1' }),
+      'GET /api/building-code/clauses?topLevel=true': reply(clauses),
+      [`GET /api/site-inspections/${INSPECTION_ID}/clause-reviews`]: reply([review('B1', { observations: 'Foundations sound' })]),
+      'GET /api/building-code/clauses/E2': reply(clauses[3]),
+      [`PUT /api/site-inspections/${INSPECTION_ID}`]: reply({ id: INSPECTION_ID }),
+    };
+    mockFetch = vi.fn(async (url: string, init: { method: string }) => {
+      const { pathname, search } = new URL(url);
+      const route = routes[`${init.method} ${pathname}${search}`] ?? reply({ error: 'Not found' }, 404);
+      return { ok: route.status < 400, status: route.status, json: () => Promise.resolve(route.body) };
+    });
+    global.fetch = mockFetch as unknown as typeof fetch;
+  });
+
+  describe('site_inspection_next_clause', () => {
+    it('should move to the next unreviewed clause', async () => {
+      const { isError, body } = await callTool('site_inspection_next_clause', { inspection_id: INSPECTION_ID });
+
+      expect(isError).toBeUndefined();
+      expect(body.clause.code).toBe('B2');
+      expect(body.remaining.total).toBe(5);
+      expect(updateCalls()).toEqual([{ currentSection: 'B', currentClauseId: 'clause-B2', status: 'IN_PROGRESS' }]);
+    });
+
+    it('should reject an inspection that is not a clause review', async () => {
+      routes[`GET /api/site-inspections/${INSPECTION_ID}`] = reply({ id: INSPECTION_ID, type: 'SIMPLE' });
+
+      const { isError, body } = await callTool('site_inspection_next_clause', { inspection_id: INSPECTION_ID });
+
+      expect(isError).toBe(true);
+      expect(body.error).toBe('Clause navigation is only for Clause Review inspections');
+      expect(updateCalls()).toEqual([]);
+    });
+
+    it('should report when every clause is reviewed', async () => {
+      routes[`GET /api/site-inspections/${INSPECTION_ID}/clause-reviews`] =
+        reply(clauses.map((c) => review(c.code, { applicability: 'NA' })));
+
+      const { isError, body } = await callTool('site_inspection_next_clause', { inspection_id: INSPECTION_ID });
+
+      expect(isError).toBeUndefined();
+      expect(body.remaining).toEqual({ total: 0 });
+      expect(body.message).toMatch(/^All 6 clauses reviewed/);
+      expect(updateCalls()).toEqual([]);
+    });
+
+    it('should fail when the inspection position cannot be saved', async () => {
+      routes[`PUT /api/site-inspections/${INSPECTION_ID}`] = reply({ error: 'Database unavailable' }, 500);
+
+      const { isError, body } = await callTool('site_inspection_next_clause', { inspection_id: INSPECTION_ID });
+
+      expect(isError).toBe(true);
+      expect(body).toEqual({ error: 'Failed to update inspection position', details: { error: 'Database unavailable' } });
+    });
+  });
+
+  describe('site_inspection_goto_clause', () => {
+    it('should move to a clause by code', async () => {
+      const { isError, body } = await callTool('site_inspection_goto_clause', { inspection_id: INSPECTION_ID, clause: ' e2 ' });
+
+      expect(isError).toBeUndefined();
+      expect(body.clause.code).toBe('E2');
+      expect(body.message).toBe('Moved to E2 Title E2.');
+      expect(updateCalls()).toEqual([{ currentSection: 'E', currentClauseId: 'clause-E2', status: 'IN_PROGRESS' }]);
+    });
+
+    it('should reject an inspection that is not a clause review', async () => {
+      routes[`GET /api/site-inspections/${INSPECTION_ID}`] = reply({ id: INSPECTION_ID, type: 'SIMPLE' });
+
+      const { isError, body } = await callTool('site_inspection_goto_clause', { inspection_id: INSPECTION_ID, clause: 'E2' });
+
+      expect(isError).toBe(true);
+      expect(body.error).toBe('Clause navigation is only for Clause Review inspections');
+      expect(updateCalls()).toEqual([]);
+    });
+
+    it('should reject an unknown clause code', async () => {
+      const { isError, body } = await callTool('site_inspection_goto_clause', { inspection_id: INSPECTION_ID, clause: 'z9' });
+
+      expect(isError).toBe(true);
+      expect(body.error).toBe('Building Code clause not found: Z9');
+      expect(updateCalls()).toEqual([]);
+    });
+
+    it('should fail when the inspection position cannot be saved', async () => {
+      routes[`PUT /api/site-inspections/${INSPECTION_ID}`] = reply({ error: 'Database unavailable' }, 500);
+
+      const { isError, body } = await callTool('site_inspection_goto_clause', { inspection_id: INSPECTION_ID, clause: 'E2' });
+
+      expect(isError).toBe(true);
+      expect(body).toEqual({ error: 'Failed to update inspection position', details: { error: 'Database unavailable' } });
+    });
+  });
+});
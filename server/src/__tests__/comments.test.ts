@@ -3,7 +3,8 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { CommentLibraryService } from '../services/comments.js';
+import { CommentLibraryService, type CommentFeedbackSummary } from '../services/comments.js';
+import { analyze, stem } from '../services/comment-similarity.js';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 
@@ -73,6 +74,60 @@ describe('CommentLibraryService', () => {
     });
   });
 
+  describe('suggest()', () => {
+    it('should match stemmed words and NZ synonyms alike', () => {
+      const rusting = service.suggest('gutter is rusting');
+      const rusty = service.suggest('rusty spouting');
+      expect(rusting[0].key).toBe('exterior.gutters.rust');
+      expect(rusty[0].key).toBe('exterior.gutters.rust');
+    });
+
+    it('should rank several suggestions best first', () => {
+      const suggestions = service.suggest('weatherboards cracked', { limit: 3 });
+      expect(suggestions).toHaveLength(3);
+      expect(suggestions[0].key).toBe('exterior.cladding.crack');
+      expect(suggestions[0].confidence).toBe('exact');
+      expect(suggestions[0].score).toBeGreaterThan(suggestions[1].score);
+    });
+
+    it('should prefer comments in the given section', () => {
+      const suggestions = service.suggest('crack', { section: 'Interior' });
+      expect(suggestions[0].key).toBe('interior.general.wall_crack');
+    });
+
+    it('should return nothing for unrelated text', () => {
+      expect(service.suggest('The quick brown fox jumps over the lazy dog')).toEqual([]);
+    });
+
+    it('should demote comments the organisation rejects', () => {
+      const feedback: CommentFeedbackSummary = {
+        comments: [
+          { commentKey: 'exterior.cladding.crack', accepted: 0, edited: 0, rejected: 8 },
+          { commentKey: 'interior.general.wall_crack', accepted: 8, edited: 0, rejected: 0 },
+        ],
+        edits: [],
+      };
+      const suggestions = service.suggest('weatherboards cracked', { feedback });
+      expect(suggestions[0].key).toBe('interior.general.wall_crack');
+    });
+
+    it('should suggest wording the organisation wrote for similar findings', () => {
+      const text = 'Hairline crack in weatherboard near window. Seal with flexible filler and repaint.';
+      const feedback: CommentFeedbackSummary = {
+        comments: [],
+        edits: [{
+          commentKey: 'exterior.cladding.crack',
+          section: 'exterior',
+          text,
+          findingTexts: ['hairline crack in weatherboards'],
+          count: 4,
+        }],
+      };
+      const suggestions = service.suggest('hairline cracking to weatherboards', { feedback });
+      expect(suggestions[0]).toMatchObject({ comment: text, source: 'organization' });
+    });
+  });
+
   describe('getConclusion()', () => {
     it('should return good conclusion', () => {
       const conclusion = service.getConclusion('good');
@@ -111,3 +166,16 @@ describe('CommentLibraryService', () => {
     });
   });
 });
+
+describe('comment similarity', () => {
+  it('should stem inflections to a shared root', () => {
+    expect(stem('rusting')).toBe(stem('rusty'));
+    expect(stem('tiles')).toBe(stem('tile'));
+    expect(stem('moss')).toBe('moss');
+  });
+
+  it('should fold synonyms and drop stop words', () => {
+    expect(analyze('rusty spouting').sort()).toEqual(analyze('gutter is rusting').sort());
+    expect(analyze('the weatherboards')).toEqual(analyze('cladding'));
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Document Tools Tests
+ *
+ * The outstanding documents, receive document and finalisation blocker tools
+ * against a mocked API.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ProjectDocument } from '../api/client.js';
+import { registerDocumentTools } from '../tools/document.js';
+
+const INSPECTION_ID = '6f1c2a7e-3b4d-4e5f-8a9b-0c1d2e3f4a5b';
+const PROJECT_ID = 'proj-1';
+
+const doc = (id: string, fields: Partial<ProjectDocument>): ProjectDocument => ({
+  id,
+  projectId: PROJECT_ID,
+  filePath: '',
+  filename: '',
+  documentType: 'PS3',
+  description: `Document ${id}`,
+  status: 'REQUIRED',
+  verified: false,
+  linkedClauses: [],
+  needsConfirmation: false,
+  sortOrder: 0,
+  createdAt: '',
+  updatedAt: '',
+  ...fields,
+});
+
+const documents = [
+  doc('doc-ps3', { documentType: 'PS3', description: 'Plumbing producer statement' }),
+  doc('doc-coc', { documentType: 'COC', description: 'Electrical certificate', status: 'OUTSTANDING' }),
+  doc('doc-ps1', { documentType: 'PS1', description: 'Design statement', status: 'RECEIVED' }),
+  doc('doc-ps4', { documentType: 'PS4', description: 'Review statement', status: 'RECEIVED', verified: true }),
+];
+
+describe('document tools', () => {
+  /** API responses keyed by "METHOD path"; anything else is a 404 */
+  let routes: Record<string, { status: number; body: unknown }>;
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  const reply = (body: unknown, status = 200) => ({ status, body });
+
+  type ToolResult = { content: { text: string }[]; isError?: boolean };
+
+  async function callTool(name: string, args: Record<string, unknown>) {
+    const server = { tool: vi.fn() };
+    registerDocumentTools(server as unknown as McpServer);
+    const [, , , handler] = server.tool.mock.calls.find(([toolName]) => toolName === name)!;
+    const result = await handler(args, {}) as ToolResult;
+    return { isError: result.isError, body: JSON.parse(result.content[0].text) };
+  }
+
+  const requested = () => mockFetch.mock.calls.map(([url, init]) => `${init.method} ${new URL(url).pathname}`);
+
+  beforeEach(() => {
+    routes = {
+      [`GET /api/site-inspections/${INSPECTION_ID}`]: reply({ id: INSPECTION_ID, projectId: PROJECT_ID }),
+      [`GET /api/projects/${PROJECT_ID}/documents`]: reply(documents),
+      [`GET /api/projects/${PROJECT_ID}/documents/can-finalize`]: reply({
+        canFinalize: false,
+        blockers: ['PS3: Plumbing producer statement (REQUIRED)', 'COC: Electrical certificate (OUTSTANDING)'],
+      }),
+      'POST /api/documents/doc-ps3/status/RECEIVED': reply({ ...documents[0], status: 'RECEIVED' }),
+      'POST /api/documents/doc-ps3/file/base64': reply({ ...documents[0], status: 'RECEIVED', appendixLetter: 'C' }),
+      'POST /api/documents/doc-ps3/verify': reply({ ...documents[0], status: 'RECEIVED', verified: true }),
+    };
+    mockFetch = vi.fn(async (url: string, init: { method: string }) => {
+      const route = routes[`${init.method} ${new URL(url).pathname}`] ?? reply({ error: 'Not found' }, 404);
+      return { ok: route.status < 400, status: route.status, json: () => Promise.resolve(route.body) };
+    });
+    global.fetch = mockFetch as unknown as typeof fetch;
+  });
+
+  describe('site_inspection_outstanding_documents', () => {
+    it('should list outstanding and unverified documents', async () => {
+      const { isError, body } = await callTool('site_inspection_outstanding_documents', { inspection_id: INSPECTION_ID });
+
+      expect(isError).toBeUndefined();
+      expect(body.outstanding.map((d: { document_id: string }) => d.document_id)).toEqual(['doc-ps3', 'doc-coc']);
+      expect(body.received_not_verified.map((d: { document_id: string }) => d.document_id)).toEqual(['doc-ps1']);
+      expect(body.message).toBe(
+        '2 documents outstanding: PS3 (Plumbing producer statement), COC (Electrical certificate)'
+      );
+    });
+
+    it('should pass on an API error listing documents', async () => {
+      routes[`GET /api/projects/${PROJECT_ID}/documents`] = reply({ error: 'Project not found' }, 404);
+
+      const { isError, body } = await callTool('site_inspection_outstanding_documents', { inspection_id: INSPECTION_ID });
+
+      expect(isError).toBe(true);
+      expect(body).toEqual({ error: 'Project not found', project_id: PROJECT_ID });
+    });
+
+    it('should report an unknown inspection', async () => {
+      delete routes[`GET /api/site-inspections/${INSPECTION_ID}`];
+
+      const { isError, body } = await callTool('site_inspection_outstanding_documents', { inspection_id: INSPECTION_ID });
+
+      expect(isError).toBe(true);
+      expect(body).toEqual({ error: 'Inspection not found', inspection_id: INSPECTION_ID });
+    });
+  });
+
+  describe('site_inspection_receive_document', () => {
+    it('should mark the outstanding document of a type received and verified', async () => {
+      const { isError, body } = await callTool('site_inspection_receive_document', {
+        inspection_id: INSPECTION_ID,
+        document_type: ' ps3 ',
+        verified: true,
+      });
+
+      expect(isError).toBeUndefined();
+      expect(body).toMatchObject({
+        document_id: 'doc-ps3',
+        status: 'RECEIVED',
+        verified: true,
+        file_attached: false,
+        remaining_blockers: 2,
+        message: 'PS3 (Plumbing producer statement) received and verified.',
+      });
+      expect(requested()).toContain('POST /api/documents/doc-ps3/status/RECEIVED');
+    });
+
+    it('should attach a photo as the document file', async () => {
+      const { body } = await callTool('site_inspection_receive_document', {
+        inspection_id: INSPECTION_ID,
+        document_id: 'doc-ps3',
+        photo: { data: 'aGVsbG8=', filename: 'ps3.jpg' },
+      });
+
+      expect(body.file_attached).toBe(true);
+      expect(body.message).toBe('PS3 (Plumbing producer statement) received as Appendix C.');
+      expect(requested()).toContain('POST /api/documents/doc-ps3/file/base64');
+      expect(requested()).not.toContain('POST /api/documents/doc-ps3/status/RECEIVED');
+    });
+
+    it('should list the outstanding documents when the type matches none', async () => {
+      const { isError, body } = await callTool('site_inspection_receive_document', {
+        inspection_id: INSPECTION_ID,
+        document_type: 'PS2',
+      });
+
+      expect(isError).toBe(true);
+      expect(body.error).toBe('No outstanding PS2 document');
+      expect(body.candidates.map((d: { document_id: string }) => d.document_id)).toEqual(['doc-ps3', 'doc-coc']);
+    });
+
+    it('should report a document that was received but could not be verified', async () => {
+      routes['POST /api/documents/doc-ps3/verify'] = reply({ error: 'Forbidden' }, 403);
+
+      const { isError, body } = await callTool('site_inspection_receive_document', {
+        inspection_id: INSPECTION_ID,
+        document_id: 'doc-ps3',
+        verified: true,
+      });
+
+      expect(isError).toBe(true);
+      expect(body).toMatchObject({
+        document_id: 'doc-ps3',
+        status: 'RECEIVED',
+        verified: false,
+        verify_error: { error: 'Forbidden' },
+        message: 'PS3 (Plumbing producer statement) received. It could not be verified and is still unverified.',
+      });
+    });
+
+    it('should pass on an API error marking the document received', async () => {
+      routes['POST /api/documents/doc-ps3/status/RECEIVED'] = reply({ error: 'Database unavailable' }, 500);
+
+      const { isError, body } = await callTool('site_inspection_receive_document', {
+        inspection_id: INSPECTION_ID,
+        document_id: 'doc-ps3',
+      });
+
+      expect(isError).toBe(true);
+      expect(body).toEqual({ error: 'Failed to mark document received', details: { error: 'Database unavailable' } });
+    });
+  });
+
+  describe('site_inspection_finalisation_blockers', () => {
+    it('should list the documents blocking finalisation', async () => {
+      const { isError, body } = await callTool('site_inspection_finalisation_blockers', { inspection_id: INSPECTION_ID });
+
+      expect(isError).toBeUndefined();
+      expect(body).toEqual({
+        project_id: PROJECT_ID,
+        can_finalize: false,
+        blockers: ['PS3: Plumbing producer statement (REQUIRED)', 'COC: Electrical certificate (OUTSTANDING)'],
+        message: '2 items blocking finalisation.',
+      });
+    });
+
+    it('should say when nothing is blocking finalisation', async () => {
+      routes[`GET /api/projects/${PROJECT_ID}/documents/can-finalize`] = reply({ canFinalize: true, blockers: [] });
+
+      const { body } = await callTool('site_inspection_finalisation_blockers', { inspection_id: INSPECTION_ID });
+
+      expect(body.message).toBe('Nothing is blocking finalisation.');
+    });
+
+    it('should pass on an API error checking finalisation', async () => {
+      routes[`GET /api/projects/${PROJECT_ID}/documents/can-finalize`] = reply({ error: 'Forbidden' }, 403);
+
+      const { isError, body } = await callTool('site_inspection_finalisation_blockers', { inspection_id: INSPECTION_ID });
+
+      expect(isError).toBe(true);
+      expect(body).toEqual({ error: 'Forbidden', project_id: PROJECT_ID });
+    });
+  });
+});
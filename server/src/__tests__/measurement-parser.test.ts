@@ -0,0 +1,117 @@
+/**
+ * Measurement Parser Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseMeasurement,
+  spokenNumbersToDigits,
+  formatMeasurement,
+} from '../services/measurement-parser.js';
+
+describe('spokenNumbersToDigits', () => {
+  it('should convert dictated numbers', () => {
+    expect(spokenNumbersToDigits('twenty two percent')).toBe('22 percent');
+    expect(spokenNumbersToDigits('one hundred and fifty mil')).toBe('150 mil');
+    expect(spokenNumbersToDigits('eighteen point five')).toBe('18.5');
+    expect(spokenNumbersToDigits('twenty-one degrees')).toBe('21 degrees');
+  });
+
+  it('should leave other words alone', () => {
+    expect(spokenNumbersToDigits('bottom plate, someone said')).toBe('bottom plate, someone said');
+  });
+});
+
+describe('parseMeasurement', () => {
+  it('should read a moisture reading with its location', () => {
+    expect(parseMeasurement('moisture 22% at bathroom bottom plate')).toEqual({
+      type: 'MOISTURE_CONTENT',
+      value: 22,
+      unit: 'PERCENT',
+      location: 'bathroom bottom plate',
+      clause: undefined,
+    });
+  });
+
+  it('should read a dictated reading and a named clause', () => {
+    expect(parseMeasurement('Moisture twenty two point five percent in ensuite wall lining, clause E3')).toEqual({
+      type: 'MOISTURE_CONTENT',
+      value: 22.5,
+      unit: 'PERCENT',
+      location: 'ensuite wall lining',
+      clause: 'E3',
+    });
+  });
+
+  it('should convert falls to mm per metre', () => {
+    expect(parseMeasurement('deck fall 1:80 (E2)')).toMatchObject({
+      type: 'SLOPE_FALL',
+      value: 12.5,
+      unit: 'MM_PER_M',
+      location: 'deck',
+      clause: 'E2',
+    });
+    expect(parseMeasurement('shower floor fall one in fifty')).toMatchObject({ value: 20, unit: 'MM_PER_M' });
+    expect(parseMeasurement('gutter slope 0.5%')).toMatchObject({ value: 5, unit: 'MM_PER_M' });
+    expect(parseMeasurement('fall 15 mm per metre on the balcony')).toMatchObject({
+      value: 15,
+      unit: 'MM_PER_M',
+      location: 'the balcony',
+    });
+  });
+
+  it('should read clearances and dimensions in their units', () => {
+    expect(parseMeasurement('clearance 150mm cladding to ground, E2')).toEqual({
+      type: 'CLEARANCE',
+      value: 150,
+      unit: 'MM',
+      location: 'cladding to ground',
+      clause: 'E2',
+    });
+    expect(parseMeasurement('stair width 0.9 m')).toMatchObject({ type: 'DIMENSION', value: 0.9, unit: 'M' });
+    expect(parseMeasurement('ceiling height 240 cm in lounge')).toMatchObject({ unit: 'CM', location: 'ceiling in lounge' });
+  });
+
+  it('should read temperatures', () => {
+    expect(parseMeasurement('hot water temp 55 degrees at kitchen tap')).toMatchObject({
+      type: 'TEMPERATURE',
+      value: 55,
+      unit: 'CELSIUS',
+      location: 'hot water at kitchen tap',
+    });
+  });
+
+  it('should infer the type from the unit or fill the unit from the type', () => {
+    expect(parseMeasurement('28% bedroom 2 sill')).toMatchObject({ type: 'MOISTURE_CONTENT', value: 28 });
+    expect(parseMeasurement('bedroom 2, moisture 19')).toMatchObject({
+      type: 'MOISTURE_CONTENT',
+      value: 19,
+      unit: 'PERCENT',
+      location: 'bedroom 2',
+    });
+    expect(parseMeasurement('31 at bedroom sill', 'MOISTURE_CONTENT')).toMatchObject({
+      value: 31,
+      unit: 'PERCENT',
+      location: 'bedroom sill',
+    });
+  });
+
+  it('should keep clause-like room names in the location', () => {
+    expect(parseMeasurement('moisture 24% at unit B2 window sill')).toMatchObject({
+      location: 'unit B2 window sill',
+      clause: undefined,
+    });
+  });
+
+  it('should return null when there is no reading', () => {
+    expect(parseMeasurement('moisture at bathroom bottom plate')).toBeNull();
+    expect(parseMeasurement('reading 42 at the front door')).toBeNull();
+  });
+});
+
+describe('formatMeasurement', () => {
+  it('should read back value and unit', () => {
+    expect(formatMeasurement('MOISTURE_CONTENT', 22, 'PERCENT')).toBe('Moisture 22%');
+    expect(formatMeasurement('SLOPE_FALL', 12.5, 'MM_PER_M')).toBe('Fall 12.5 mm/m');
+  });
+});
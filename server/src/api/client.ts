@@ -4,15 +4,33 @@
  * Thin HTTP client that calls the inspection API.
  * Configurable via environment variables:
  * - API_URL: Backend API base URL
- * - SERVICE_API_KEY: API key for service-to-service authentication
+ * - SERVICE_API_KEY: personal API token (created with POST /api/auth/tokens)
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import type { CommentFeedbackSummary } from '../services/comments.js';
+
 const API_URL = process.env.API_URL || 'http://localhost:3000';
 const SERVICE_API_KEY = process.env.SERVICE_API_KEY;
 
+const inspectorPhone = new AsyncLocalStorage<string>();
+
 export interface ApiError {
   error: string;
   details?: Record<string, string[]>;
+  /** Outstanding checklist requirements when completing an inspection is refused */
+  missing?: MissingRequirement[];
+  /** Photo the project already holds when an upload is refused as a duplicate */
+  duplicateOf?: { id: string; reportNumber: number };
+}
+
+export interface MissingRequirement {
+  type: 'metadata' | 'section' | 'item' | 'evidence';
+  field?: string;
+  sectionId?: string;
+  item?: string;
+  message: string;
 }
 
 export interface ApiResponse<T> {
@@ -22,14 +40,36 @@ export interface ApiResponse<T> {
   status: number;
 }
 
+/**
+ * Derive an Idempotency-Key from the inbound message ID, so a retried
+ * WhatsApp message repeats each write with the same key and the API replays
+ * the first response. `parts` tell apart the writes made for one message
+ * (e.g. 'finding', 0 and 'photo', 0, 1).
+ */
+export function idempotencyKey(messageId: string | undefined, ...parts: Array<string | number>): string | undefined {
+  if (!messageId) return undefined;
+  return createHash('sha256').update([messageId, ...parts].join(':')).digest('hex');
+}
+
+/**
+ * Run `fn` for the inspector who sent the inbound message. Requests made
+ * inside send their phone number as X-Inspector-Phone, so an AGENT token's
+ * actions are recorded against that inspector rather than the token owner.
+ */
+export function asInspector<T>(phone: string | undefined, fn: () => Promise<T>): Promise<T> {
+  return phone ? inspectorPhone.run(phone, fn) : fn();
+}
+
 /**
  * Make an HTTP request to the API.
- * Includes SERVICE_API_KEY header if configured.
+ * Sends SERVICE_API_KEY as X-API-Key if configured, X-Inspector-Phone inside
+ * asInspector, and the Idempotency-Key header when a key is given.
  */
 async function request<T>(
   method: string,
   path: string,
-  body?: unknown
+  body?: unknown,
+  idempotencyKey?: string
 ): Promise<ApiResponse<T>> {
   const url = `${API_URL}${path}`;
   
@@ -41,6 +81,15 @@ async function request<T>(
   if (SERVICE_API_KEY) {
     headers['X-API-Key'] = SERVICE_API_KEY;
   }
+
+  const phone = inspectorPhone.getStore();
+  if (phone) {
+    headers['X-Inspector-Phone'] = phone;
+  }
+
+  if (idempotencyKey) {
+    headers['Idempotency-Key'] = idempotencyKey;
+  }
   
   try {
     const response = await fetch(url, {
@@ -92,6 +141,7 @@ export interface CreateInspectionInput {
   clientName: string;
   inspectorName?: string;
   checklistId: string;
+  projectId?: string;
   currentSection: string;
   metadata?: Record<string, unknown>;
 }
@@ -102,6 +152,7 @@ export interface Inspection {
   clientName: string;
   inspectorName?: string;
   checklistId: string;
+  checklistVersionId?: string;
   status: string;
   currentSection: string;
   metadata?: Record<string, unknown>;
@@ -113,6 +164,7 @@ export interface Inspection {
 export interface UpdateInspectionInput {
   status?: string;
   currentSection?: string;
+  metadata?: Record<string, unknown>;
   completedAt?: string;
 }
 
@@ -127,6 +179,46 @@ export const inspectionApi = {
     request<Inspection>('PUT', `/api/inspections/${id}`, input),
 };
 
+// ============================================================================
+// Checklists API
+// ============================================================================
+
+export interface ChecklistSection {
+  id: string;
+  name: string;
+  prompt: string;
+  items: string[];
+  subareas?: Array<Omit<ChecklistSection, 'subareas'>>;
+}
+
+export interface ChecklistDefinition {
+  id: string;
+  key: string;
+  name: string;
+  latestVersion: number;
+  active: boolean;
+}
+
+/** The latest published version of a checklist */
+export interface ResolvedChecklist {
+  versionId: string;
+  version: number;
+  checklist: {
+    id: string;
+    name: string;
+    version: string;
+    sections: ChecklistSection[];
+  };
+}
+
+export const checklistsApi = {
+  list: () =>
+    request<ChecklistDefinition[]>('GET', '/api/checklists'),
+
+  get: (key: string) =>
+    request<ResolvedChecklist>('GET', `/api/checklists/${encodeURIComponent(key)}`),
+};
+
 // ============================================================================
 // Navigation API
 // ============================================================================
@@ -170,6 +262,15 @@ export interface InspectionStatus {
   }>;
   totalFindings: number;
   canComplete: boolean;
+  missing: MissingRequirement[];
+  skipped: SkippedSection[];
+}
+
+/** A checklist section left out because it does not apply to the property */
+export interface SkippedSection {
+  id: string;
+  name: string;
+  reason: string;
 }
 
 export interface SuggestResult {
@@ -179,9 +280,12 @@ export interface SuggestResult {
     id: string;
     name: string;
     prompt?: string;
+    items?: string[];
   };
   remainingSections: number;
   canComplete: boolean;
+  missing: MissingRequirement[];
+  skipped: SkippedSection[];
   suggestion: string;
 }
 
@@ -258,6 +362,8 @@ export interface CreateChecklistItemInput {
   decision: 'PASS' | 'FAIL' | 'NA';
   notes?: string;
   photoIds?: string[];
+  /** Voice note the item was transcribed from */
+  voiceNoteId?: string;
 }
 
 export interface ChecklistItem {
@@ -268,6 +374,7 @@ export interface ChecklistItem {
   decision: string;
   notes?: string;
   photoIds: string[];
+  voiceNoteId?: string;
   sortOrder: number;
   createdAt: string;
   updatedAt: string;
@@ -284,8 +391,8 @@ export interface ChecklistSummary {
 }
 
 export const checklistItemApi = {
-  create: (inspectionId: string, input: CreateChecklistItemInput) =>
-    request<ChecklistItem>('POST', `/api/site-inspections/${inspectionId}/checklist-items`, input),
+  create: (inspectionId: string, input: CreateChecklistItemInput, idempotencyKey?: string) =>
+    request<ChecklistItem>('POST', `/api/site-inspections/${inspectionId}/checklist-items`, input, idempotencyKey),
   
   list: (inspectionId: string) =>
     request<ChecklistItem[]>('GET', `/api/site-inspections/${inspectionId}/checklist-items`),
@@ -308,6 +415,8 @@ export interface CreateClauseReviewInput {
   observations?: string;
   photoIds?: string[];
   docIds?: string[];
+  /** Voice note the observations were transcribed from */
+  voiceNoteId?: string;
 }
 
 export interface ClauseReview {
@@ -319,6 +428,7 @@ export interface ClauseReview {
   observations?: string;
   photoIds: string[];
   docIds: string[];
+  voiceNoteId?: string;
   remedialWorks?: string;
   clause: {
     id: string;
@@ -343,8 +453,8 @@ export interface ClauseReviewSummary {
 }
 
 export const clauseReviewApi = {
-  create: (inspectionId: string, input: CreateClauseReviewInput) =>
-    request<ClauseReview>('POST', `/api/site-inspections/${inspectionId}/clause-reviews`, input),
+  create: (inspectionId: string, input: CreateClauseReviewInput, idempotencyKey?: string) =>
+    request<ClauseReview>('POST', `/api/site-inspections/${inspectionId}/clause-reviews`, input, idempotencyKey),
   
   list: (inspectionId: string) =>
     request<ClauseReview[]>('GET', `/api/site-inspections/${inspectionId}/clause-reviews`),
@@ -384,6 +494,9 @@ export const buildingCodeApi = {
   listClauses: (category?: string) =>
     request<BuildingCodeClause[]>('GET', `/api/building-code/clauses${category ? `?category=${category}` : ''}`),
   
+  listTopLevel: () =>
+    request<BuildingCodeClause[]>('GET', `/api/building-code/clauses?topLevel=true`),
+  
   getClause: (code: string) =>
     request<BuildingCodeClause>('GET', `/api/building-code/clauses/${code}`),
   
@@ -400,6 +513,10 @@ export interface CreateFindingInput {
   text: string;
   severity?: 'INFO' | 'MINOR' | 'MAJOR' | 'URGENT';
   matchedComment?: string;
+  /** Checklist item the finding covers */
+  item?: string;
+  /** Voice note the finding was transcribed from */
+  voiceNoteId?: string;
 }
 
 export interface Finding {
@@ -409,16 +526,50 @@ export interface Finding {
   text: string;
   severity: string;
   matchedComment?: string;
+  item?: string;
+  voiceNoteId?: string;
   createdAt: string;
   updatedAt: string;
 }
 
 export const findingsApi = {
-  create: (inspectionId: string, input: CreateFindingInput) =>
-    request<Finding>('POST', `/api/inspections/${inspectionId}/findings`, input),
+  create: (inspectionId: string, input: CreateFindingInput, idempotencyKey?: string) =>
+    request<Finding>('POST', `/api/inspections/${inspectionId}/findings`, input, idempotencyKey),
   
   list: (inspectionId: string) =>
     request<Finding[]>('GET', `/api/inspections/${inspectionId}/findings`),
+
+  update: (id: string, input: Partial<Omit<CreateFindingInput, 'section'>>) =>
+    request<Finding>('PUT', `/api/findings/${id}`, input),
+};
+
+// ============================================================================
+// Comment Feedback API
+// ============================================================================
+
+export interface RecordCommentFeedbackInput {
+  findingId?: string;
+  section?: string;
+  findingText: string;
+  commentKey?: string;
+  suggestedComment?: string;
+  finalComment?: string;
+  rank?: number;
+}
+
+export interface CommentFeedback extends RecordCommentFeedbackInput {
+  id: string;
+  organizationId: string;
+  outcome: 'ACCEPTED' | 'EDITED' | 'REJECTED';
+  createdAt: string;
+}
+
+export const commentFeedbackApi = {
+  record: (input: RecordCommentFeedbackInput) =>
+    request<CommentFeedback>('POST', `/api/comment-feedback`, input),
+
+  summary: () =>
+    request<CommentFeedbackSummary>('GET', `/api/comment-feedback/summary`),
 };
 
 // ============================================================================
@@ -440,8 +591,38 @@ export interface Photo {
 }
 
 export const photosApi = {
-  upload: (findingId: string, input: UploadPhotoInput) =>
-    request<Photo>('POST', `/api/findings/${findingId}/photos`, input),
+  upload: (findingId: string, input: UploadPhotoInput, idempotencyKey?: string) =>
+    request<Photo>('POST', `/api/findings/${findingId}/photos`, input, idempotencyKey),
+};
+
+// ============================================================================
+// Voice Notes API
+// ============================================================================
+
+export interface UploadVoiceNoteInput {
+  /** Base64 OGG/Opus or M4A audio, or a data URL */
+  base64Data: string;
+  mimeType?: string;
+}
+
+export interface VoiceNote {
+  id: string;
+  filename: string;
+  mimeType: string;
+  fileSize: number;
+  transcript?: string;
+  transcriber?: string;
+  createdAt: string;
+}
+
+export interface TranscribedVoiceNote extends VoiceNote {
+  /** One text per issue dictated; empty when nothing was transcribed */
+  issues: string[];
+}
+
+export const voiceNotesApi = {
+  upload: (input: UploadVoiceNoteInput, idempotencyKey?: string) =>
+    request<TranscribedVoiceNote>('POST', `/api/voice-notes`, input, idempotencyKey),
 };
 
 // ============================================================================
@@ -465,10 +646,18 @@ export interface ProjectPhoto {
   reportNumber: number;
   filePath: string;
   thumbnailPath?: string;
+  annotatedPath?: string;  // Copy with annotations drawn on, used in reports
   mimeType: string;
   fileSize: number;
   caption: string;
   source: string;
+  takenAt?: string;
+  location?: { latitude: number; longitude: number; altitude?: number };
+  camera?: string;
+  warnings: string[];  // Upload checks: GPS far from the property, taken on another day
+  contentHash?: string;
+  perceptualHash?: string;
+  possibleDuplicateOfId?: string;  // Lookalike photo flagged for review
   linkedClauses: string[];
   sortOrder: number;
   createdAt: string;
@@ -476,8 +665,8 @@ export interface ProjectPhoto {
 }
 
 export const projectPhotosApi = {
-  uploadBase64: (projectId: string, input: CreateProjectPhotoInput) =>
-    request<ProjectPhoto>('POST', `/api/projects/${projectId}/photos/base64`, input),
+  uploadBase64: (projectId: string, input: CreateProjectPhotoInput, idempotencyKey?: string) =>
+    request<ProjectPhoto>('POST', `/api/projects/${projectId}/photos/base64`, input, idempotencyKey),
   
   list: (projectId: string) =>
     request<ProjectPhoto[]>('GET', `/api/projects/${projectId}/photos`),
@@ -492,6 +681,211 @@ export const projectPhotosApi = {
     request<void>('DELETE', `/api/photos/${id}`),
 };
 
+// ============================================================================
+// Defects API (CCC gap analysis, #153)
+// ============================================================================
+
+export type BuildingElement =
+  | 'ROOF' | 'WALL' | 'WINDOW' | 'DECK' | 'SUBFLOOR' | 'INTERIOR' | 'SERVICES' | 'STRUCTURE' | 'OTHER';
+
+export type DefectPriority = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+
+export interface CreateDefectInput {
+  location: string;
+  buildingElement: BuildingElement;
+  clauseId?: string;
+  description: string;
+  cause?: string;
+  remedialAction?: string;
+  priority: DefectPriority;
+  photoIds?: string[];
+}
+
+export interface Defect {
+  id: string;
+  inspectionId: string;
+  defectNumber: string;
+  location: string;
+  buildingElement: BuildingElement;
+  clauseId?: string;
+  clause?: { id: string; code: string; title: string };
+  description: string;
+  cause?: string;
+  remedialAction?: string;
+  priority: DefectPriority;
+  photoIds: string[];
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const defectApi = {
+  create: (inspectionId: string, input: CreateDefectInput) =>
+    request<Defect>('POST', `/api/site-inspections/${inspectionId}/defects`, input),
+  
+  list: (inspectionId: string) =>
+    request<Defect[]>('GET', `/api/site-inspections/${inspectionId}/defects`),
+  
+  get: (id: string) =>
+    request<Defect>('GET', `/api/defects/${id}`),
+  
+  update: (id: string, input: Partial<CreateDefectInput>) =>
+    request<Defect>('PUT', `/api/defects/${id}`, input),
+};
+
+// ============================================================================
+// Moisture Readings API (CCC gap analysis, #153)
+// ============================================================================
+
+export interface CreateMoistureReadingInput {
+  defectId?: string;
+  location: string;
+  substrate: string;
+  reading: number;
+  depth?: number;
+  equipmentUsed?: string;
+  notes?: string;
+  photoId?: string;
+}
+
+export interface MoistureReading {
+  id: string;
+  inspectionId: string;
+  defectId?: string;
+  defect?: { id: string; defectNumber: string };
+  measurement?: { id: string; result: 'PASS' | 'FAIL' | 'PENDING' };
+  location: string;
+  substrate: string;
+  reading: number;
+  depth?: number;
+  equipmentUsed?: string;
+  timestamp: string;
+  notes?: string;
+  photoId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const moistureReadingApi = {
+  create: (inspectionId: string, input: CreateMoistureReadingInput) =>
+    request<MoistureReading>('POST', `/api/site-inspections/${inspectionId}/moisture-readings`, input),
+  
+  list: (inspectionId: string) =>
+    request<MoistureReading[]>('GET', `/api/site-inspections/${inspectionId}/moisture-readings`),
+};
+
+// ============================================================================
+// Site Measurements API
+// ============================================================================
+
+export type MeasurementType =
+  'MOISTURE_CONTENT' | 'SLOPE_FALL' | 'DIMENSION' | 'CLEARANCE' | 'TEMPERATURE' | 'OTHER';
+
+export type MeasurementUnit = 'PERCENT' | 'MM_PER_M' | 'MM' | 'CM' | 'M' | 'CELSIUS';
+
+export interface CreateSiteMeasurementInput {
+  type: MeasurementType;
+  location: string;
+  value: number;
+  unit: MeasurementUnit;
+  linkedClauseId?: string;
+  notes?: string;
+}
+
+export interface SiteMeasurement {
+  id: string;
+  inspectionId: string;
+  type: MeasurementType;
+  location: string;
+  value: number;
+  unit: MeasurementUnit;
+  result: 'PASS' | 'FAIL' | 'PENDING';
+  linkedClauseId?: string;
+  linkedClause?: { id: string; code: string; title: string } | null;
+  notes?: string;
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AcceptableRange {
+  min?: number;
+  max?: number;
+  unit: MeasurementUnit;
+  description: string;
+}
+
+export const siteMeasurementApi = {
+  create: (inspectionId: string, input: CreateSiteMeasurementInput) =>
+    request<SiteMeasurement>('POST', `/api/site-inspections/${inspectionId}/measurements`, input),
+  
+  list: (inspectionId: string) =>
+    request<SiteMeasurement[]>('GET', `/api/site-inspections/${inspectionId}/measurements`),
+  
+  acceptableRanges: () =>
+    request<Record<MeasurementType, AcceptableRange | null>>('GET', `/api/measurements/acceptable-ranges`),
+};
+
+// ============================================================================
+// Documents API
+// ============================================================================
+
+export type DocumentStatus = 'REQUIRED' | 'RECEIVED' | 'OUTSTANDING' | 'NA';
+
+export interface ProjectDocument {
+  id: string;
+  projectId: string;
+  appendixLetter?: string;
+  filePath: string;
+  filename: string;
+  mimeType?: string;
+  documentType: string;
+  description: string;
+  issuer?: string;
+  issuedAt?: string;
+  referenceNumber?: string;
+  status: DocumentStatus;
+  verified: boolean;
+  linkedClauses: string[];
+  needsConfirmation: boolean;
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AttachDocumentFileInput {
+  data: string;  // Base64, optionally as a data URL
+  filename?: string;
+  mimeType?: string;
+}
+
+export interface FinalizeCheck {
+  canFinalize: boolean;
+  blockers: string[];
+}
+
+export const documentsApi = {
+  list: (projectId: string, params?: { status?: DocumentStatus; documentType?: string }) => {
+    const query = new URLSearchParams(params as Record<string, string> | undefined).toString();
+    return request<ProjectDocument[]>('GET', `/api/projects/${projectId}/documents${query ? `?${query}` : ''}`);
+  },
+  
+  get: (id: string) =>
+    request<ProjectDocument>('GET', `/api/documents/${id}`),
+  
+  setStatus: (id: string, status: DocumentStatus) =>
+    request<ProjectDocument>('POST', `/api/documents/${id}/status/${status}`),
+  
+  verify: (id: string) =>
+    request<ProjectDocument>('POST', `/api/documents/${id}/verify`),
+  
+  attachFile: (id: string, input: AttachDocumentFileInput) =>
+    request<ProjectDocument>('POST', `/api/documents/${id}/file/base64`, input),
+  
+  canFinalize: (projectId: string) =>
+    request<FinalizeCheck>('GET', `/api/projects/${projectId}/documents/can-finalize`),
+};
+
 // ============================================================================
 // Reports API
 // ============================================================================
@@ -101,6 +101,13 @@ class ChecklistService {
     this.loaded = true;
   }
 
+  /**
+   * Item names; conditional items ({ name, when }) are resolved per property by the API
+   */
+  private itemNames(items: Array<string | { name: string }> | undefined): string[] {
+    return (items || []).map(item => (typeof item === 'string' ? item : item.name));
+  }
+
   /**
    * Normalize sections to ensure consistent structure
    */
@@ -109,12 +116,12 @@ class ChecklistService {
       id: section.id,
       name: section.name,
       prompt: section.prompt || `Check ${section.name.toLowerCase()}.`,
-      items: section.items || [],
+      items: this.itemNames(section.items),
       subareas: section.subareas?.map((sub: any) => ({
         id: sub.id,
         name: sub.name,
         prompt: sub.prompt || `Check ${sub.name.toLowerCase()}.`,
-        items: sub.items || [],
+        items: this.itemNames(sub.items),
       })),
       report_section: section.report_section,
     }));
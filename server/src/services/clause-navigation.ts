@@ -0,0 +1,113 @@
+/**
+ * Clause Navigation
+ *
+ * Walks a clause-review inspection through the Building Code clause by
+ * clause (B1 → B2 → … → H1). A clause counts as reviewed once it is marked
+ * NA or has observations, and is skipped on the way to the next one.
+ */
+
+import type { BuildingCodeClause, ClauseReview } from '../api/client.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CategoryProgress {
+  name: string;
+  total: number;
+  remaining: number;
+  /** Codes still to review, in walking order */
+  clauses: string[];
+}
+
+export interface NextClause {
+  clause: BuildingCodeClause;
+  /** Reviewed clauses passed over on the way */
+  skipped: string[];
+  /** The walk went past the last clause and came back round to the start */
+  wrapped: boolean;
+}
+
+/** Building Code clause categories */
+export const CLAUSE_CATEGORY_NAMES: Record<string, string> = {
+  B: 'Stability',
+  C: 'Protection from Fire',
+  D: 'Access',
+  E: 'Moisture',
+  F: 'Safety of Users',
+  G: 'Services and Facilities',
+  H: 'Energy Efficiency',
+};
+
+// ============================================================================
+// Navigation
+// ============================================================================
+
+export function isReviewed(review: Pick<ClauseReview, 'applicability' | 'observations'> | undefined): boolean {
+  if (!review) return false;
+  return review.applicability === 'NA' || Boolean(review.observations?.trim());
+}
+
+function reviewsByClause(reviews: ClauseReview[]): Map<string, ClauseReview> {
+  return new Map(reviews.map((review) => [review.clauseId, review]));
+}
+
+/**
+ * The first unreviewed clause after the current one, wrapping round to pick
+ * up any passed over earlier. Clauses must be in walking order (category,
+ * then sortOrder, as the API lists them). Null when every clause is reviewed.
+ */
+export function nextUnreviewedClause(
+  clauses: BuildingCodeClause[],
+  reviews: ClauseReview[],
+  currentClauseId?: string
+): NextClause | null {
+  const byClause = reviewsByClause(reviews);
+  const current = clauses.findIndex((clause) => clause.id === currentClauseId);
+  const skipped: string[] = [];
+
+  for (let step = 1; step <= clauses.length; step++) {
+    const index = (current + step) % clauses.length;
+    const clause = clauses[index];
+    if (!isReviewed(byClause.get(clause.id))) {
+      return { clause, skipped, wrapped: current >= 0 && index <= current };
+    }
+    skipped.push(clause.code);
+  }
+
+  return null;
+}
+
+/**
+ * Unreviewed clauses per category, in walking order
+ */
+export function remainingByCategory(
+  clauses: BuildingCodeClause[],
+  reviews: ClauseReview[]
+): Record<string, CategoryProgress> {
+  const byClause = reviewsByClause(reviews);
+  const progress: Record<string, CategoryProgress> = {};
+
+  for (const clause of clauses) {
+    const category = progress[clause.category] ??= {
+      name: CLAUSE_CATEGORY_NAMES[clause.category] ?? clause.category,
+      total: 0,
+      remaining: 0,
+      clauses: [],
+    };
+    category.total++;
+    if (!isReviewed(byClause.get(clause.id))) {
+      category.remaining++;
+      category.clauses.push(clause.code);
+    }
+  }
+
+  return progress;
+}
+
+/**
+ * What to check for a clause, read back to the inspector
+ */
+export function clausePrompt(clause: Pick<BuildingCodeClause, 'code' | 'title' | 'performanceText'>): string {
+  return `${clause.code} ${clause.title}: ${clause.performanceText}`;
+}
@@ -0,0 +1,210 @@
+/**
+ * Comment Similarity
+ *
+ * Text analysis for ranking comment-library suggestions without an external
+ * model: tokenising, light suffix stemming, NZ building synonyms and a
+ * TF-IDF index compared by cosine similarity.
+ */
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'by', 'for', 'from', 'has',
+  'have', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'some', 'that', 'the',
+  'there', 'this', 'to', 'very', 'was', 'were', 'with',
+]);
+
+/**
+ * Words inspectors use interchangeably, NZ terms first. Each group collapses
+ * to its first word after stemming, so "rusty spouting" and "gutter is
+ * rusting" analyse to the same terms.
+ */
+const SYNONYM_GROUPS: string[][] = [
+  ['gutter', 'guttering', 'spouting', 'spout', 'eavestrough'],
+  ['downpipe', 'downspout'],
+  ['cladding', 'weatherboard', 'weatherboards', 'siding'],
+  ['rust', 'corrosion', 'corroded', 'corroding', 'oxidised'],
+  ['mould', 'mold', 'mildew'],
+  ['moisture', 'damp', 'dampness', 'wet'],
+  ['crack', 'split', 'fracture'],
+  ['leak', 'drip', 'seep'],
+  ['pool', 'pond', 'puddle'],
+  ['blocked', 'clogged', 'choked'],
+  ['rot', 'rotten', 'decay', 'decayed'],
+  ['lean', 'tilt', 'bow'],
+  ['joinery', 'window', 'windows'],
+  ['flashing', 'flashings'],
+  ['deck', 'decking'],
+  ['borer', 'woodworm'],
+];
+
+// Longest first; "es" only after sibilants so "tiles" keeps its stem
+const SUFFIXES: Array<[string, (base: string) => boolean]> = [
+  ['ings', () => true],
+  ['ing', () => true],
+  ['ied', () => true],
+  ['ies', () => true],
+  ['es', (base) => /(s|x|z|ch|sh)$/.test(base)],
+  ['ed', () => true],
+  ['ly', () => true],
+  ['y', () => true],
+  ['s', (base) => !base.endsWith('s')],
+];
+
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Strip common English suffixes: rusting, rusted and rusty all become "rust".
+ * Stems need not be words; they only have to agree with each other.
+ */
+export function stem(word: string): string {
+  let base = word;
+  for (const [suffix, applies] of SUFFIXES) {
+    if (!word.endsWith(suffix)) continue;
+    const candidate = word.slice(0, -suffix.length);
+    if (candidate.length >= MIN_STEM_LENGTH && applies(candidate)) {
+      base = candidate;
+      break;
+    }
+  }
+
+  // spotting -> spott -> spot; keep ll/ss/zz as in "wall", "moss"
+  if (base !== word && /([^lsz])\1$/.test(base)) {
+    base = base.slice(0, -1);
+  }
+  // damage/damaged and tile/tiles must agree
+  if (base.length > MIN_STEM_LENGTH && base.endsWith('e')) {
+    base = base.slice(0, -1);
+  }
+  return base;
+}
+
+const SYNONYMS = new Map<string, string>();
+for (const group of SYNONYM_GROUPS) {
+  const canonical = stem(group[0]);
+  for (const word of group) {
+    SYNONYMS.set(stem(word), canonical);
+  }
+}
+
+/**
+ * Text to index terms: lower-cased words, minus stop words, stemmed and
+ * folded onto their synonym group.
+ */
+export function analyze(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((word) => !STOP_WORDS.has(word))
+    .map((word) => {
+      const stemmed = stem(word);
+      return SYNONYMS.get(stemmed) ?? stemmed;
+    });
+}
+
+// ============================================================================
+// TF-IDF Index
+// ============================================================================
+
+export type TermVector = Map<string, number>;
+
+/**
+ * Cosine similarity of two weighted term vectors, 0 to 1.
+ */
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [term, weight] of a) {
+    normA += weight * weight;
+    const other = b.get(term);
+    if (other) dot += weight * other;
+  }
+  for (const weight of b.values()) {
+    normB += weight * weight;
+  }
+  return dot === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+interface IndexedDocument<T> {
+  item: T;
+  terms: string[];
+  vector: TermVector;
+}
+
+/**
+ * An in-memory TF-IDF index. Add documents, then search; the index
+ * re-weights itself on the first search after a change.
+ */
+export class TfIdfIndex<T> {
+  private documents: IndexedDocument<T>[] = [];
+  private documentFrequency = new Map<string, number>();
+  private stale = false;
+
+  /**
+   * Index an item under one or more texts. Texts are repeated by weight,
+   * so weight 2 counts each term twice.
+   */
+  add(item: T, texts: Array<{ text: string; weight?: number }>): void {
+    const terms: string[] = [];
+    for (const { text, weight = 1 } of texts) {
+      const analyzed = analyze(text);
+      for (let i = 0; i < weight; i++) terms.push(...analyzed);
+    }
+    this.documents.push({ item, terms, vector: new Map() });
+    for (const term of new Set(terms)) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+    }
+    this.stale = true;
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * Weight text against this index's document frequencies. Terms the index
+   * has never seen get the highest weight.
+   */
+  vectorize(text: string | string[]): TermVector {
+    return this.weigh(Array.isArray(text) ? text.flatMap(analyze) : analyze(text));
+  }
+
+  /**
+   * Items ranked by similarity to the query, best first, excluding non-matches.
+   */
+  search(query: string): Array<{ item: T; score: number }> {
+    this.reweigh();
+    const vector = this.vectorize(query);
+    if (vector.size === 0) return [];
+
+    return this.documents
+      .map((doc) => ({ item: doc.item, score: cosineSimilarity(vector, doc.vector) }))
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private idf(term: string): number {
+    const df = this.documentFrequency.get(term) ?? 0;
+    return Math.log((1 + this.documents.length) / (1 + df)) + 1;
+  }
+
+  private weigh(terms: string[]): TermVector {
+    const vector: TermVector = new Map();
+    for (const term of terms) {
+      vector.set(term, (vector.get(term) ?? 0) + 1);
+    }
+    for (const [term, tf] of vector) {
+      vector.set(term, (1 + Math.log(tf)) * this.idf(term));
+    }
+    return vector;
+  }
+
+  private reweigh(): void {
+    if (!this.stale) return;
+    for (const doc of this.documents) {
+      doc.vector = this.weigh(doc.terms);
+    }
+    this.stale = false;
+  }
+}
@@ -5,12 +5,14 @@
  * - Loads defaults.yaml
  * - Loads custom.yaml if exists (overrides defaults)
  * - Matches keywords in finding text to boilerplate
+ * - Suggests ranked comments by similarity, learning from inspector feedback
  */
 
 import { readFileSync, existsSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { parse as parseYaml } from 'yaml';
+import { TfIdfIndex, cosineSimilarity } from './comment-similarity.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -41,12 +43,60 @@ export interface MatchResult {
   confidence: 'exact' | 'partial' | 'none';
 }
 
+export interface CommentSuggestion {
+  comment: string;
+  section: string;
+  /** Full library path, e.g. "exterior.roof.rust_minor"; null for wording an organisation wrote from scratch */
+  key: string | null;
+  /** Similarity to the finding after feedback, 0 to 1 */
+  score: number;
+  confidence: 'exact' | 'partial';
+  /** An organisation's own wording learned from edits, or the shared library */
+  source: 'library' | 'organization';
+}
+
+/**
+ * Per-organisation feedback, as returned by GET /api/comment-feedback/summary
+ */
+export interface CommentFeedbackSummary {
+  comments: Array<{ commentKey: string; accepted: number; edited: number; rejected: number }>;
+  edits: Array<{
+    commentKey: string | null;
+    section: string | null;
+    text: string;
+    findingTexts: string[];
+    count: number;
+  }>;
+}
+
+export interface SuggestOptions {
+  /** Section context; its comments are preferred */
+  section?: string;
+  /** Maximum suggestions (default 3) */
+  limit?: number;
+  feedback?: CommentFeedbackSummary;
+}
+
+interface IndexedComment {
+  key: string;
+  section: string;
+  text: string;
+}
+
+/** Suggestions scoring below this are dropped */
+const MIN_SUGGESTION_SCORE = 0.1;
+/** Score from which a suggestion counts as an exact match */
+const EXACT_SUGGESTION_SCORE = 0.45;
+/** Multiplier for comments in the requested section */
+const SECTION_BOOST = 1.5;
+
 // ============================================================================
 // Comment Library Service
 // ============================================================================
 
 class CommentLibraryService {
   private library: CommentLibrary = {};
+  private index: TfIdfIndex<IndexedComment> | null = null;
   private configDir: string;
   private loaded = false;
 
@@ -162,6 +212,113 @@ class CommentLibraryService {
     return bestMatch;
   }
 
+  /**
+   * Rank comments by similarity to the finding text, best first.
+   *
+   * Unlike match(), this stems words and folds synonyms ("rusty spouting"
+   * finds the gutter rust comment) and returns several candidates. With an
+   * organisation's feedback, comments its inspectors keep rank higher, ones
+   * they reject rank lower, and wording they wrote themselves is suggested
+   * alongside the library.
+   */
+  suggest(text: string, options: SuggestOptions = {}): CommentSuggestion[] {
+    this.load();
+    const index = this.getIndex();
+    const sectionKey = options.section ? this.normalizeSectionKey(options.section) : undefined;
+    const acceptance = new Map(
+      (options.feedback?.comments ?? []).map((c) => [c.commentKey, this.acceptanceBoost(c)])
+    );
+
+    const suggestions: CommentSuggestion[] = index.search(text).map(({ item, score }) => ({
+      comment: item.text,
+      section: item.section,
+      key: item.key,
+      score: score * (acceptance.get(item.key) ?? 1),
+      confidence: 'partial',
+      source: 'library',
+    }));
+
+    // The organisation's own wording, matched on the findings it was written for
+    const query = index.vectorize(text);
+    for (const edit of options.feedback?.edits ?? []) {
+      const similarity = cosineSimilarity(query, index.vectorize([edit.text, ...edit.findingTexts]));
+      if (similarity === 0) continue;
+      suggestions.push({
+        comment: edit.text,
+        section: edit.section ?? edit.commentKey?.split('.')[0] ?? '',
+        key: edit.commentKey,
+        // Reused wording earns trust, up to the weight of a strong acceptance record
+        score: similarity * Math.min(1 + Math.log(edit.count) / 4, 1.5),
+        confidence: 'partial',
+        source: 'organization',
+      });
+    }
+
+    const seen = new Set<string>();
+    return suggestions
+      .map((s) => ({ ...s, score: sectionKey && s.section === sectionKey ? s.score * SECTION_BOOST : s.score }))
+      .filter((s) => s.score >= MIN_SUGGESTION_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .filter((s) => !seen.has(s.comment) && seen.add(s.comment))
+      .slice(0, options.limit ?? 3)
+      .map((s) => ({
+        ...s,
+        score: Math.round(Math.min(s.score, 1) * 1000) / 1000,
+        confidence: s.score >= EXACT_SUGGESTION_SCORE ? 'exact' : 'partial',
+      }));
+  }
+
+  /**
+   * Score multiplier from acceptance history: 1.5 for always kept, 0.5 for
+   * always rejected, with two neutral votes so a single response moves little.
+   */
+  private acceptanceBoost(counts: { accepted: number; edited: number; rejected: number }): number {
+    const kept = counts.accepted + counts.edited / 2;
+    const total = counts.accepted + counts.edited + counts.rejected;
+    return 0.5 + (kept + 1) / (total + 2);
+  }
+
+  /**
+   * Build the similarity index over every library comment. Keywords and the
+   * section path carry more weight than the comment wording.
+   */
+  private getIndex(): TfIdfIndex<IndexedComment> {
+    if (this.index) return this.index;
+
+    const index = new TfIdfIndex<IndexedComment>();
+    const visit = (node: CommentSection, path: string[]): void => {
+      for (const [key, value] of Object.entries(node)) {
+        if (!value || typeof value !== 'object') continue;
+        const keyPath = [...path, key];
+
+        if ('text' in value && typeof value.text === 'string') {
+          const entry = value as CommentEntry;
+          index.add(
+            { key: keyPath.join('.'), section: keyPath[0], text: entry.text },
+            [
+              // Keywords often repeat a word ("cracked tile", "broken tile"); count it once
+              { text: [...new Set((entry.match ?? []).join(' ').split(/\s+/))].join(' '), weight: 2 },
+              { text: keyPath.join(' ').replace(/_/g, ' ') },
+              { text: entry.text },
+            ]
+          );
+        } else {
+          visit(value as CommentSection, keyPath);
+        }
+      }
+    };
+
+    for (const [sectionKey, sectionData] of Object.entries(this.library)) {
+      if (sectionKey === 'version' || sectionKey === 'conclusions') continue;
+      if (sectionData && typeof sectionData === 'object') {
+        visit(sectionData as CommentSection, [sectionKey]);
+      }
+    }
+
+    this.index = index;
+    return index;
+  }
+
   /**
    * Search a section for matching comments.
    */
@@ -254,6 +411,7 @@ class CommentLibraryService {
   reload(): void {
     this.loaded = false;
     this.library = {};
+    this.index = null;
     this.load();
   }
 }
@@ -8,4 +8,16 @@ export { checklistService, ChecklistService } from './checklist.js';
 export type { Checklist, ChecklistItem, ChecklistSubarea } from './checklist.js';
 
 export { commentLibrary, CommentLibraryService } from './comments.js';
-export type { MatchResult } from './comments.js';
+export type { MatchResult, CommentSuggestion, CommentFeedbackSummary, SuggestOptions } from './comments.js';
+
+export { parseMeasurement, spokenNumbersToDigits, formatMeasurement } from './measurement-parser.js';
+export type { ParsedMeasurement } from './measurement-parser.js';
+
+export {
+  CLAUSE_CATEGORY_NAMES,
+  isReviewed,
+  nextUnreviewedClause,
+  remainingByCategory,
+  clausePrompt,
+} from './clause-navigation.js';
+export type { CategoryProgress, NextClause } from './clause-navigation.js';
@@ -0,0 +1,263 @@
+/**
+ * Measurement Parser
+ *
+ * Reads a site measurement from the way an inspector types or dictates it
+ * over WhatsApp ("moisture 22% at bathroom bottom plate", "deck fall one in
+ * eighty, clause E2") and returns the type, value, unit, location and clause
+ * the measurements API expects.
+ */
+
+import type { MeasurementType, MeasurementUnit } from '../api/client.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ParsedMeasurement {
+  type: MeasurementType;
+  value: number;
+  unit: MeasurementUnit;
+  /** What is left of the phrase once the reading is taken out, if anything */
+  location?: string;
+  /** Building Code clause code named in the phrase, e.g. "E3" */
+  clause?: string;
+}
+
+// ============================================================================
+// Spoken numbers
+// ============================================================================
+
+const SMALL_NUMBERS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+const NUMBER_WORD = `(?:${Object.keys(SMALL_NUMBERS).join('|')}|hundred)`;
+
+const SPOKEN_NUMBER = new RegExp(
+  `\\b${NUMBER_WORD}(?:(?:[\\s-]+and)?[\\s-]+${NUMBER_WORD}|[\\s-]+point(?:[\\s-]+${NUMBER_WORD})+)*\\b`,
+  'gi'
+);
+
+function spokenValue(phrase: string): string {
+  const words = phrase.toLowerCase().split(/[\s-]+/).filter((word) => word !== 'and');
+  let whole = 0;
+  let decimals = '';
+  let afterPoint = false;
+
+  for (const word of words) {
+    if (word === 'point') {
+      afterPoint = true;
+    } else if (afterPoint) {
+      decimals += String(SMALL_NUMBERS[word] ?? '');
+    } else if (word === 'hundred') {
+      whole = (whole || 1) * 100;
+    } else {
+      whole += SMALL_NUMBERS[word];
+    }
+  }
+
+  return decimals ? `${whole}.${decimals}` : String(whole);
+}
+
+/**
+ * Replace spelled-out numbers ("twenty two point five") with digits
+ */
+export function spokenNumbersToDigits(text: string): string {
+  return text.replace(SPOKEN_NUMBER, spokenValue);
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/** Keywords that name the measurement, checked in order */
+const TYPE_KEYWORDS: Array<[MeasurementType, RegExp]> = [
+  ['MOISTURE_CONTENT', /\b(?:moisture(?: content| reading)?|mc|wme)\b/i],
+  ['SLOPE_FALL', /\b(?:fall|slope|gradient)\b/i],
+  ['CLEARANCE', /\b(?:clearance|gap)\b/i],
+  ['TEMPERATURE', /\b(?:temp|temperature)\b/i],
+  ['DIMENSION', /\b(?:width|height|length|depth|thickness|span|wide|high|long|deep|thick)\b/i],
+];
+
+/** Spoken and written units, longest first so "mm per metre" wins over "mm" */
+const UNIT_PATTERNS: Array<[RegExp, 'PERCENT' | 'MM_PER_M' | 'MM' | 'CM' | 'M' | 'DEGREES']> = [
+  [/^(?:%|per\s*cent)$/i, 'PERCENT'],
+  [/^mm\s*(?:\/|per)\s*m(?:et(?:re|er))?$/i, 'MM_PER_M'],
+  [/^(?:mm|mils?|millimet(?:re|er)s?)$/i, 'MM'],
+  [/^(?:cm|centimet(?:re|er)s?)$/i, 'CM'],
+  [/^(?:m|met(?:re|er)s?)$/i, 'M'],
+  [/^(?:°\s*c?|degrees?(?:\s*c(?:elsius)?)?)$/i, 'DEGREES'],
+];
+
+const UNIT_TEXT =
+  '%|per\\s*cent|mm\\s*(?:\\/|per)\\s*m(?:et(?:re|er))?|mm|mils?|millimet(?:re|er)s?|' +
+  'cm|centimet(?:re|er)s?|m|met(?:re|er)s?|°\\s*c?|degrees?(?:\\s*c(?:elsius)?)?';
+
+const VALUE_WITH_UNIT = new RegExp(`(-?\\d+(?:\\.\\d+)?)\\s*(${UNIT_TEXT})(?=[\\s,.;:)]|$)`, 'i');
+
+const BARE_VALUE = /(-?\d+(?:\.\d+)?)(?=[\s,.;:)]|$)/g;
+
+/** Falls given as a ratio: "1:80", "1 in 80" */
+const RATIO = /\b1\s*(?::|in)\s*(\d+(?:\.\d+)?)\b/i;
+
+/** Clause codes only count when named as one, so "bedroom B2" stays a location */
+const CLAUSE_PATTERNS = [
+  /\b(?:clause|against|under|re)\s+([A-H]\d{1,2})\b/i,
+  /\(([A-H]\d{1,2})\)/i,
+  /[,;]\s*([A-H]\d{1,2})\s*$/i,
+];
+
+/** Unit when the inspector gives only a number */
+const DEFAULT_UNITS: Partial<Record<MeasurementType, MeasurementUnit>> = {
+  MOISTURE_CONTENT: 'PERCENT',
+  SLOPE_FALL: 'MM_PER_M',
+  CLEARANCE: 'MM',
+  DIMENSION: 'MM',
+  TEMPERATURE: 'CELSIUS',
+};
+
+/** Type when the inspector gives only a unit */
+const UNIT_TYPES: Record<string, MeasurementType> = {
+  PERCENT: 'MOISTURE_CONTENT',
+  MM_PER_M: 'SLOPE_FALL',
+  DEGREES: 'TEMPERATURE',
+  MM: 'DIMENSION',
+  CM: 'DIMENSION',
+  M: 'DIMENSION',
+};
+
+/** Words left in front of or behind the location once the reading is removed */
+const FILLER = /^(?:[\s,.;:-]|\b(?:at|in|on|of|is|was|reads|reading|measured|taken)\b)+|(?:[\s,.;:-]|\b(?:at|in|on|of)\b)+$/gi;
+
+/** The text with a match blanked out, keeping the words either side apart */
+function cut(text: string, match: RegExpMatchArray): string {
+  const at = match.index ?? text.indexOf(match[0]);
+  return `${text.slice(0, at)} ${text.slice(at + match[0].length)}`;
+}
+
+function matchUnit(text: string | undefined): (typeof UNIT_PATTERNS)[number][1] | undefined {
+  if (!text) return undefined;
+  return UNIT_PATTERNS.find(([pattern]) => pattern.test(text.trim()))?.[1];
+}
+
+/**
+ * Parse a measurement phrase. Returns null when no value can be found, or
+ * neither the type nor the unit can be worked out.
+ */
+export function parseMeasurement(text: string, typeHint?: MeasurementType): ParsedMeasurement | null {
+  let remaining = spokenNumbersToDigits(text);
+
+  let clause: string | undefined;
+  for (const pattern of CLAUSE_PATTERNS) {
+    const match = remaining.match(pattern);
+    if (match) {
+      clause = match[1].toUpperCase();
+      remaining = cut(remaining, match);
+      break;
+    }
+  }
+
+  let type = typeHint;
+  let keywordAt = 0;
+  for (const [keywordType, pattern] of TYPE_KEYWORDS) {
+    const match = remaining.match(pattern);
+    if (match) {
+      type = type ?? keywordType;
+      keywordAt = match.index ?? 0;
+      remaining = cut(remaining, match);
+      break;
+    }
+  }
+
+  let value: number;
+  let unit: MeasurementUnit;
+
+  const ratio = remaining.match(RATIO);
+  if (ratio && (!type || type === 'SLOPE_FALL')) {
+    const run = parseFloat(ratio[1]);
+    if (run <= 0) return null;
+    type = 'SLOPE_FALL';
+    value = 1000 / run;
+    unit = 'MM_PER_M';
+    remaining = cut(remaining, ratio);
+  } else {
+    // A number with a unit wins; otherwise the first one after the keyword,
+    // so "bedroom 2, moisture 19" reads 19
+    const bare = [...remaining.matchAll(BARE_VALUE)];
+    const reading = remaining.match(VALUE_WITH_UNIT)
+      ?? bare.find((match) => (match.index ?? 0) >= keywordAt)
+      ?? bare[0];
+    if (!reading) return null;
+    remaining = cut(remaining, reading);
+
+    const number = parseFloat(reading[1]);
+    const spokenUnit = matchUnit(reading[2]);
+    type = type ?? (spokenUnit ? UNIT_TYPES[spokenUnit] : undefined);
+    if (!type) return null;
+
+    if (type === 'SLOPE_FALL' && spokenUnit === 'PERCENT') {
+      // A 1% grade falls 10 mm per metre
+      value = number * 10;
+      unit = 'MM_PER_M';
+    } else if (type === 'SLOPE_FALL' && spokenUnit === 'DEGREES') {
+      value = Math.tan((number * Math.PI) / 180) * 1000;
+      unit = 'MM_PER_M';
+    } else if (type === 'MOISTURE_CONTENT') {
+      value = number;
+      unit = 'PERCENT';
+    } else if (spokenUnit === 'DEGREES') {
+      value = number;
+      unit = 'CELSIUS';
+    } else if (spokenUnit) {
+      value = number;
+      unit = spokenUnit;
+    } else {
+      const fallback = DEFAULT_UNITS[type];
+      if (!fallback) return null;
+      value = number;
+      unit = fallback;
+    }
+  }
+
+  const location = remaining.replace(/\s+/g, ' ').replace(FILLER, '').trim();
+
+  return {
+    type,
+    value: Math.round(value * 100) / 100,
+    unit,
+    location: location || undefined,
+    clause,
+  };
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+const UNIT_SYMBOLS: Record<MeasurementUnit, string> = {
+  PERCENT: '%',
+  MM_PER_M: ' mm/m',
+  MM: ' mm',
+  CM: ' cm',
+  M: ' m',
+  CELSIUS: ' °C',
+};
+
+const TYPE_LABELS: Record<MeasurementType, string> = {
+  MOISTURE_CONTENT: 'Moisture',
+  SLOPE_FALL: 'Fall',
+  DIMENSION: 'Dimension',
+  CLEARANCE: 'Clearance',
+  TEMPERATURE: 'Temperature',
+  OTHER: 'Measurement',
+};
+
+/**
+ * A reading as it reads back to the inspector, e.g. "Moisture 22%"
+ */
+export function formatMeasurement(type: MeasurementType, value: number, unit: MeasurementUnit): string {
+  return `${TYPE_LABELS[type]} ${value}${UNIT_SYMBOLS[unit]}`;
+}
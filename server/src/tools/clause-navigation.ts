@@ -0,0 +1,216 @@
+/**
+ * Clause Navigation Tools
+ *
+ * MCP tools for walking a clause-review (COA/CCC) inspection clause by
+ * clause, or jumping straight to a clause by code ("go to E2").
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  siteInspectionApi,
+  clauseReviewApi,
+  buildingCodeApi,
+  type ApiError,
+  type BuildingCodeClause,
+  type ClauseReview,
+} from "../api/client.js";
+import {
+  CLAUSE_CATEGORY_NAMES,
+  nextUnreviewedClause,
+  remainingByCategory,
+  clausePrompt,
+} from "../services/clause-navigation.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function errorResult(error: string, details?: ApiError | string) {
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({ error, details }, null, 2),
+    }],
+    isError: true,
+  };
+}
+
+interface ReviewProgress {
+  clauses: BuildingCodeClause[];
+  reviews: ClauseReview[];
+}
+
+/**
+ * Top-level clauses in walking order and the reviews recorded so far
+ */
+async function loadProgress(inspectionId: string): Promise<ReviewProgress | ApiError> {
+  const [clausesResult, reviewsResult] = await Promise.all([
+    buildingCodeApi.listTopLevel(),
+    clauseReviewApi.list(inspectionId),
+  ]);
+  if (!clausesResult.ok || !clausesResult.data) {
+    return clausesResult.error ?? { error: "Failed to load Building Code clauses" };
+  }
+  if (!reviewsResult.ok || !reviewsResult.data) {
+    return reviewsResult.error ?? { error: "Failed to load clause reviews" };
+  }
+  return { clauses: clausesResult.data, reviews: reviewsResult.data };
+}
+
+/**
+ * Move the inspection to a clause and describe it for the inspector
+ */
+async function moveToClause(
+  inspectionId: string,
+  clause: BuildingCodeClause,
+  progress: ReviewProgress,
+  message: string,
+  extra: Record<string, unknown> = {}
+) {
+  const updateResult = await siteInspectionApi.update(inspectionId, {
+    currentSection: clause.category,
+    currentClauseId: clause.id,
+    status: 'IN_PROGRESS',
+  });
+  if (!updateResult.ok) {
+    return errorResult("Failed to update inspection position", updateResult.error);
+  }
+
+  const review = progress.reviews.find((r) => r.clauseId === clause.id);
+  const remaining = remainingByCategory(progress.clauses, progress.reviews);
+
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        inspection_id: inspectionId,
+        clause: {
+          id: clause.id,
+          code: clause.code,
+          title: clause.title,
+          category: clause.category,
+          category_name: CLAUSE_CATEGORY_NAMES[clause.category] ?? clause.category,
+        },
+        prompt: `Check ${clausePrompt(clause)}`,
+        typical_evidence: clause.typicalEvidence,
+        existing_review: review ? {
+          review_id: review.id,
+          applicability: review.applicability,
+          na_reason: review.naReason,
+          observations: review.observations,
+        } : undefined,
+        ...extra,
+        remaining: {
+          total: Object.values(remaining).reduce((sum, category) => sum + category.remaining, 0),
+          by_category: remaining,
+        },
+        message,
+      }, null, 2),
+    }],
+  };
+}
+
+// ============================================================================
+// Tool Registration
+// ============================================================================
+
+export function registerClauseNavigationTools(server: McpServer): void {
+  // -------------------------------------------------------------------------
+  // site_inspection_next_clause - Move to the next unreviewed clause
+  // -------------------------------------------------------------------------
+  server.tool(
+    "site_inspection_next_clause",
+    "Move a clause-review inspection to the next Building Code clause still to review, " +
+      "skipping clauses already marked N/A or with observations",
+    {
+      inspection_id: z.string().uuid().describe("ID of the site inspection"),
+    },
+    async ({ inspection_id }) => {
+      try {
+        const inspResult = await siteInspectionApi.get(inspection_id);
+        if (!inspResult.ok || !inspResult.data) {
+          return errorResult("Inspection not found", inspResult.error);
+        }
+        const inspection = inspResult.data;
+        if (inspection.type !== 'CLAUSE_REVIEW') {
+          return errorResult("Clause navigation is only for Clause Review inspections");
+        }
+
+        const progress = await loadProgress(inspection_id);
+        if ('error' in progress) {
+          return errorResult(progress.error);
+        }
+
+        const next = nextUnreviewedClause(progress.clauses, progress.reviews, inspection.currentClauseId);
+        if (!next) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                inspection_id,
+                remaining: { total: 0 },
+                message: `All ${progress.clauses.length} clauses reviewed. Check the summary with site_inspection_status before completing.`,
+              }, null, 2),
+            }],
+          };
+        }
+
+        const { clause, skipped, wrapped } = next;
+        const message = wrapped
+          ? `Back to ${clause.code} ${clause.title}, which was passed over earlier.`
+          : `Next: ${clause.code} ${clause.title}.`;
+
+        return moveToClause(inspection_id, clause, progress, message, skipped.length > 0 ? { skipped } : {});
+      } catch (error) {
+        return errorResult("Failed to move to next clause", error instanceof Error ? error.message : String(error));
+      }
+    }
+  );
+
+  // -------------------------------------------------------------------------
+  // site_inspection_goto_clause - Jump to a clause by code
+  // -------------------------------------------------------------------------
+  server.tool(
+    "site_inspection_goto_clause",
+    "Move a clause-review inspection to a Building Code clause by code (e.g. 'go to E2')",
+    {
+      inspection_id: z.string().uuid().describe("ID of the site inspection"),
+      clause: z.string().describe("Building Code clause code (e.g. 'E2')"),
+    },
+    async ({ inspection_id, clause }) => {
+      try {
+        const inspResult = await siteInspectionApi.get(inspection_id);
+        if (!inspResult.ok || !inspResult.data) {
+          return errorResult("Inspection not found", inspResult.error);
+        }
+        if (inspResult.data.type !== 'CLAUSE_REVIEW') {
+          return errorResult("Clause navigation is only for Clause Review inspections");
+        }
+
+        const code = clause.trim().toUpperCase();
+        const clauseResult = await buildingCodeApi.getClause(code);
+        if (!clauseResult.ok || !clauseResult.data) {
+          return errorResult(`Building Code clause not found: ${code}`);
+        }
+
+        const progress = await loadProgress(inspection_id);
+        if ('error' in progress) {
+          return errorResult(progress.error);
+        }
+
+        const target = clauseResult.data;
+        const review = progress.reviews.find((r) => r.clauseId === target.id);
+        const message = review?.applicability === 'NA'
+          ? `Moved to ${target.code} ${target.title} (already marked N/A).`
+          : review?.observations
+            ? `Moved to ${target.code} ${target.title} (observations already recorded).`
+            : `Moved to ${target.code} ${target.title}.`;
+
+        return moveToClause(inspection_id, target, progress, message);
+      } catch (error) {
+        return errorResult("Failed to move to clause", error instanceof Error ? error.message : String(error));
+      }
+    }
+  );
+}
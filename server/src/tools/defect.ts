@@ -0,0 +1,288 @@
+/**
+ * Defect Tools
+ * 
+ * MCP tools for capturing CCC gap analysis defects and moisture readings
+ * during a site inspection (#153).
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  siteInspectionApi,
+  buildingCodeApi,
+  projectPhotosApi,
+  defectApi,
+  moistureReadingApi,
+  type BuildingElement,
+  type DefectPriority,
+} from "../api/client.js";
+
+// ============================================================================
+// Tool Registration
+// ============================================================================
+
+export function registerDefectTools(server: McpServer): void {
+  // -------------------------------------------------------------------------
+  // site_inspection_add_defect - Record a defect against a Building Code clause
+  // -------------------------------------------------------------------------
+  server.tool(
+    "site_inspection_add_defect",
+    "Record a defect for a CCC gap analysis site inspection, linked to a Building Code clause",
+    {
+      inspection_id: z.string().uuid().describe("ID of the site inspection"),
+      location: z.string().describe("Where the defect is (e.g. 'North elevation above window W3')"),
+      element: z.enum(["roof", "wall", "window", "deck", "subfloor", "interior", "services", "structure", "other"])
+        .describe("Building element affected"),
+      clause: z.string().optional().describe("Building Code clause code breached (e.g. 'E2')"),
+      description: z.string().describe("Description of the defect"),
+      cause: z.string().optional().describe("Likely cause"),
+      remedial_action: z.string().optional().describe("Recommended remedial action"),
+      priority: z.enum(["critical", "high", "medium", "low"]).describe("Remediation priority"),
+      photo_ids: z.array(z.string().uuid()).optional().describe("Existing photo IDs to attach"),
+      // Inline photos (for WhatsApp capture)
+      photos: z.array(z.object({
+        data: z.string().describe("Base64 encoded photo data"),
+        caption: z.string().optional().describe("Photo caption (defaults to description)"),
+      })).optional().describe("Inline photos to upload and attach"),
+    },
+    async ({ inspection_id, location, element, clause, description, cause, remedial_action, priority, photo_ids, photos }) => {
+      try {
+        const inspResult = await siteInspectionApi.get(inspection_id);
+        if (!inspResult.ok || !inspResult.data) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: "Inspection not found",
+                inspection_id,
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        const inspection = inspResult.data;
+
+        // Resolve clause code to clause ID
+        let clauseId: string | undefined;
+        let clauseCode: string | undefined;
+        if (clause) {
+          const clauseResult = await buildingCodeApi.getClause(clause.toUpperCase());
+          if (!clauseResult.ok || !clauseResult.data) {
+            return {
+              content: [{
+                type: "text" as const,
+                text: JSON.stringify({
+                  error: `Building Code clause not found: ${clause}`,
+                }, null, 2),
+              }],
+              isError: true,
+            };
+          }
+          clauseId = clauseResult.data.id;
+          clauseCode = clauseResult.data.code;
+        }
+
+        // Upload inline photos if provided
+        const uploadedPhotoIds: string[] = photo_ids ? [...photo_ids] : [];
+        if (photos && photos.length > 0) {
+          for (const photo of photos) {
+            const uploadResult = await projectPhotosApi.uploadBase64(inspection.projectId, {
+              data: photo.data,
+              caption: photo.caption || description,
+              source: 'SITE',
+              inspectionId: inspection_id,
+              linkedClauses: clauseCode ? [clauseCode] : [],
+            });
+            if (uploadResult.ok && uploadResult.data) {
+              uploadedPhotoIds.push(uploadResult.data.id);
+            } else if (uploadResult.error?.duplicateOf) {
+              // Already uploaded - link the existing photo instead
+              uploadedPhotoIds.push(uploadResult.error.duplicateOf.id);
+            }
+          }
+        }
+
+        const result = await defectApi.create(inspection_id, {
+          location,
+          buildingElement: element.toUpperCase() as BuildingElement,
+          clauseId,
+          description,
+          cause,
+          remedialAction: remedial_action,
+          priority: priority.toUpperCase() as DefectPriority,
+          photoIds: uploadedPhotoIds.length > 0 ? uploadedPhotoIds : undefined,
+        });
+
+        if (!result.ok || !result.data) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: "Failed to create defect",
+                details: result.error,
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        const defect = result.data;
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              defect_id: defect.id,
+              defect_number: defect.defectNumber,
+              clause_code: defect.clause?.code,
+              priority: defect.priority,
+              photos_attached: defect.photoIds.length,
+              message: `Defect ${defect.defectNumber} recorded${defect.clause ? ` against ${defect.clause.code}` : ''} (${defect.priority})`,
+            }, null, 2),
+          }],
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              error: "Failed to add defect",
+              details: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // -------------------------------------------------------------------------
+  // site_inspection_add_moisture - Record a moisture reading
+  // -------------------------------------------------------------------------
+  server.tool(
+    "site_inspection_add_moisture",
+    "Record a moisture content reading for a site inspection, optionally linked to a defect",
+    {
+      inspection_id: z.string().uuid().describe("ID of the site inspection"),
+      location: z.string().describe("Where the reading was taken (e.g. 'Wall lining, NE bedroom')"),
+      substrate: z.string().describe("Material tested (e.g. 'Plasterboard', 'Timber framing')"),
+      reading: z.number().min(0).max(100).describe("Moisture content (%)"),
+      depth: z.number().int().positive().optional().describe("Probe depth (mm)"),
+      equipment: z.string().optional().describe("Meter used"),
+      defect_id: z.string().uuid().optional().describe("Defect this reading supports"),
+      notes: z.string().optional().describe("Notes"),
+    },
+    async ({ inspection_id, location, substrate, reading, depth, equipment, defect_id, notes }) => {
+      try {
+        const result = await moistureReadingApi.create(inspection_id, {
+          defectId: defect_id,
+          location,
+          substrate,
+          reading,
+          depth,
+          equipmentUsed: equipment,
+          notes,
+        });
+
+        if (!result.ok || !result.data) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: "Failed to record moisture reading",
+                details: result.error,
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        const moisture = result.data;
+        const outcome = moisture.measurement?.result ?? 'PENDING';
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              reading_id: moisture.id,
+              reading: moisture.reading,
+              result: outcome,
+              defect_number: moisture.defect?.defectNumber,
+              message: `Moisture ${moisture.reading}% at ${moisture.location}: ${outcome}`,
+            }, null, 2),
+          }],
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              error: "Failed to add moisture reading",
+              details: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // -------------------------------------------------------------------------
+  // site_inspection_list_defects - Summarise recorded defects
+  // -------------------------------------------------------------------------
+  server.tool(
+    "site_inspection_list_defects",
+    "List the defects recorded for a site inspection",
+    {
+      inspection_id: z.string().uuid().describe("ID of the site inspection"),
+    },
+    async ({ inspection_id }) => {
+      try {
+        const result = await defectApi.list(inspection_id);
+
+        if (!result.ok || !result.data) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: result.error?.error || "Failed to list defects",
+                inspection_id,
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              inspection_id,
+              count: result.data.length,
+              defects: result.data.map((d) => ({
+                defect_number: d.defectNumber,
+                location: d.location,
+                clause_code: d.clause?.code,
+                priority: d.priority,
+                description: d.description,
+                has_remedial_action: Boolean(d.remedialAction),
+              })),
+            }, null, 2),
+          }],
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              error: "Failed to list defects",
+              details: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
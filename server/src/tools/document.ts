@@ -0,0 +1,319 @@
+/**
+ * Document Tools
+ *
+ * MCP tools for tracking project documents (PS1–PS4, COC, warranties…)
+ * during a site visit: what is still outstanding, recording a certificate
+ * sighted on site, and what is blocking finalisation.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  siteInspectionApi,
+  documentsApi,
+  type ProjectDocument,
+} from "../api/client.js";
+
+const NOT_RECEIVED = ['REQUIRED', 'OUTSTANDING'];
+
+function describeDocument(doc: ProjectDocument) {
+  return {
+    document_id: doc.id,
+    type: doc.documentType,
+    description: doc.description,
+    status: doc.status,
+    verified: doc.verified,
+    appendix: doc.appendixLetter,
+  };
+}
+
+// ============================================================================
+// Tool Registration
+// ============================================================================
+
+export function registerDocumentTools(server: McpServer): void {
+  // -------------------------------------------------------------------------
+  // site_inspection_outstanding_documents - Documents still to obtain
+  // -------------------------------------------------------------------------
+  server.tool(
+    "site_inspection_outstanding_documents",
+    "List the documents (PS1–PS4, COC, warranties…) still outstanding for the inspection's project",
+    {
+      inspection_id: z.string().uuid().describe("ID of the site inspection"),
+    },
+    async ({ inspection_id }) => {
+      try {
+        const inspResult = await siteInspectionApi.get(inspection_id);
+        if (!inspResult.ok || !inspResult.data) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: "Inspection not found",
+                inspection_id,
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        const projectId = inspResult.data.projectId;
+        const result = await documentsApi.list(projectId);
+        if (!result.ok || !result.data) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: result.error?.error || "Failed to list documents",
+                project_id: projectId,
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        const outstanding = result.data.filter((d) => NOT_RECEIVED.includes(d.status));
+        const unverified = result.data.filter((d) => d.status === 'RECEIVED' && !d.verified);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              project_id: projectId,
+              outstanding: outstanding.map(describeDocument),
+              received_not_verified: unverified.map(describeDocument),
+              message: outstanding.length === 0
+                ? "No documents outstanding."
+                : `${outstanding.length} document${outstanding.length === 1 ? '' : 's'} outstanding: ` +
+                  outstanding.map((d) => `${d.documentType} (${d.description})`).join(', '),
+            }, null, 2),
+          }],
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              error: "Failed to list outstanding documents",
+              details: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // -------------------------------------------------------------------------
+  // site_inspection_receive_document - Record a document sighted on site
+  // -------------------------------------------------------------------------
+  server.tool(
+    "site_inspection_receive_document",
+    "Mark a project document as received (optionally verified), attaching a photo of the certificate as its file",
+    {
+      inspection_id: z.string().uuid().describe("ID of the site inspection"),
+      document_id: z.string().uuid().optional().describe("Document to mark received"),
+      document_type: z.string().optional()
+        .describe("Document type (e.g. 'PS3', 'COC') when the ID isn't known; must match one outstanding document"),
+      photo: z.object({
+        data: z.string().describe("Base64 encoded photo or PDF of the document"),
+        filename: z.string().optional().describe("Original filename"),
+        mime_type: z.string().optional().describe("MIME type (default: image/jpeg)"),
+      }).optional().describe("Photo of the certificate, stored as the document file"),
+      verified: z.boolean().optional().describe("Whether the inspector has checked the original (default: false)"),
+    },
+    async ({ inspection_id, document_id, document_type, photo, verified }) => {
+      try {
+        const inspResult = await siteInspectionApi.get(inspection_id);
+        if (!inspResult.ok || !inspResult.data) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: "Inspection not found",
+                inspection_id,
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        const projectId = inspResult.data.projectId;
+        const listResult = await documentsApi.list(projectId);
+        if (!listResult.ok || !listResult.data) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: listResult.error?.error || "Failed to list documents",
+                project_id: projectId,
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        // Resolve the document: by ID, or the one outstanding document of the type
+        const candidates = document_id
+          ? listResult.data.filter((d) => d.id === document_id)
+          : listResult.data.filter((d) =>
+            NOT_RECEIVED.includes(d.status) &&
+            d.documentType.toUpperCase() === document_type?.trim().toUpperCase());
+
+        if (candidates.length !== 1) {
+          const outstanding = listResult.data.filter((d) => NOT_RECEIVED.includes(d.status));
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: !document_id && !document_type
+                  ? "Give document_id or document_type"
+                  : candidates.length === 0
+                    ? `No ${document_id ? 'such document in this project' : `outstanding ${document_type} document`}`
+                    : `${candidates.length} outstanding ${document_type} documents; give document_id`,
+                candidates: (candidates.length > 1 ? candidates : outstanding).map(describeDocument),
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        const target = candidates[0];
+
+        // Attaching a file marks the document received
+        const received = photo
+          ? await documentsApi.attachFile(target.id, {
+            data: photo.data,
+            filename: photo.filename,
+            mimeType: photo.mime_type,
+          })
+          : await documentsApi.setStatus(target.id, 'RECEIVED');
+
+        if (!received.ok || !received.data) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: photo ? "Failed to attach document file" : "Failed to mark document received",
+                details: received.error,
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        // The document stays received if verifying it fails; report that
+        let document = received.data;
+        let verifyError: unknown;
+        if (verified) {
+          const verifyResult = await documentsApi.verify(target.id);
+          if (verifyResult.ok && verifyResult.data) {
+            document = verifyResult.data;
+          } else {
+            verifyError = verifyResult.error ?? `Verify failed with status ${verifyResult.status}`;
+          }
+        }
+
+        const finalizeResult = await documentsApi.canFinalize(projectId);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              ...describeDocument(document),
+              file_attached: Boolean(photo),
+              remaining_blockers: finalizeResult.data?.blockers.length,
+              ...(verifyError !== undefined && { verify_error: verifyError }),
+              message: `${document.documentType} (${document.description}) received` +
+                `${document.verified ? ' and verified' : ''}` +
+                `${document.appendixLetter ? ` as Appendix ${document.appendixLetter}` : ''}.` +
+                `${verifyError !== undefined ? ' It could not be verified and is still unverified.' : ''}`,
+            }, null, 2),
+          }],
+          ...(verifyError !== undefined && { isError: true }),
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              error: "Failed to record document",
+              details: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // -------------------------------------------------------------------------
+  // site_inspection_finalisation_blockers - What is blocking finalisation
+  // -------------------------------------------------------------------------
+  server.tool(
+    "site_inspection_finalisation_blockers",
+    "List the documents still blocking finalisation of the inspection's project",
+    {
+      inspection_id: z.string().uuid().describe("ID of the site inspection"),
+    },
+    async ({ inspection_id }) => {
+      try {
+        const inspResult = await siteInspectionApi.get(inspection_id);
+        if (!inspResult.ok || !inspResult.data) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: "Inspection not found",
+                inspection_id,
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        const projectId = inspResult.data.projectId;
+        const result = await documentsApi.canFinalize(projectId);
+        if (!result.ok || !result.data) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: result.error?.error || "Failed to check finalisation",
+                project_id: projectId,
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        const { canFinalize, blockers } = result.data;
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              project_id: projectId,
+              can_finalize: canFinalize,
+              blockers,
+              message: canFinalize
+                ? "Nothing is blocking finalisation."
+                : `${blockers.length} item${blockers.length === 1 ? '' : 's'} blocking finalisation.`,
+            }, null, 2),
+          }],
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              error: "Failed to check finalisation",
+              details: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
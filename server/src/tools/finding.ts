@@ -14,8 +14,95 @@ import {
   checklistItemApi,
   clauseReviewApi,
   projectPhotosApi,
+  commentFeedbackApi,
+  voiceNotesApi,
+  idempotencyKey,
+  type ApiError,
+  type ApiResponse,
+  type ChecklistItem,
+  type Finding,
+  type TranscribedVoiceNote,
 } from "../api/client.js";
-import { commentLibrary } from "../services/comments.js";
+import { commentLibrary, type CommentSuggestion } from "../services/comments.js";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const voiceNoteSchema = z.object({
+  data: z.string().describe("Base64 encoded OGG/Opus or M4A audio (WhatsApp voice note)"),
+  mime_type: z.string().optional().describe("MIME type (detected from the audio when omitted)"),
+}).optional().describe(
+  "Voice note to keep with the finding and transcribe; a note covering several issues is split into one per issue"
+);
+
+const messageIdSchema = z.string().optional().describe(
+  "ID of the inbound message (e.g. the WhatsApp message ID); a redelivered message with the same ID is recorded once"
+);
+
+/** Recorded when a voice note could not be transcribed, so the audio is still filed */
+const UNTRANSCRIBED_TEXT = "Voice note (not transcribed)";
+
+/**
+ * Texts to record: the typed text when given, otherwise one per issue
+ * dictated in the voice note
+ */
+function findingTexts(text: string | undefined, voiceNote: TranscribedVoiceNote | undefined): string[] {
+  if (text?.trim()) return [text];
+  if (voiceNote && voiceNote.issues.length > 0) return voiceNote.issues;
+  return [UNTRANSCRIBED_TEXT];
+}
+
+async function uploadVoiceNote(
+  voiceNote: { data: string; mime_type?: string },
+  messageId?: string
+): Promise<ApiResponse<TranscribedVoiceNote>> {
+  return voiceNotesApi.upload({
+    base64Data: voiceNote.data,
+    mimeType: voiceNote.mime_type,
+  }, idempotencyKey(messageId, 'voice-note'));
+}
+
+function voiceNoteFailure(error?: ApiError) {
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        error: error?.error || "Failed to store voice note",
+        details: error,
+      }, null, 2),
+    }],
+    isError: true,
+  };
+}
+
+function describeFinding(finding: Finding, suggestions: CommentSuggestion[], section: string): Record<string, unknown> {
+  const response: Record<string, unknown> = {
+    finding_id: finding.id,
+    section: finding.section,
+    severity: finding.severity.toLowerCase(),
+    text: finding.text,
+    message: `Finding recorded in ${section}.`,
+  };
+
+  // Include matched comment and alternatives if found
+  const bestSuggestion = suggestions[0];
+  if (bestSuggestion) {
+    response.matched_comment = bestSuggestion.comment;
+    response.match_confidence = bestSuggestion.confidence;
+    response.comment_suggestions = suggestions.map((suggestion, i) => ({
+      rank: i + 1,
+      key: suggestion.key,
+      comment: suggestion.comment,
+      score: suggestion.score,
+      source: suggestion.source,
+    }));
+    response.message = `Finding recorded in ${section}. Matched boilerplate comment available; ` +
+      `confirm or edit it with inspection_choose_comment.`;
+  }
+
+  return response;
+}
 
 // ============================================================================
 // Tool Registration
@@ -27,11 +114,13 @@ export function registerFindingTools(server: McpServer): void {
   // -------------------------------------------------------------------------
   server.tool(
     "inspection_add_finding",
-    "Record a finding or issue during the inspection with optional photos",
+    "Record a finding or issue during the inspection with optional photos, typed or as a voice note",
     {
       inspection_id: z.string().uuid().describe("ID of the active inspection"),
       section: z.string().optional().describe("Section ID (defaults to current section)"),
-      text: z.string().describe("Inspector's note or description of the finding"),
+      text: z.string().optional()
+        .describe("Inspector's note or description of the finding (required unless a voice note is given)"),
+      voice_note: voiceNoteSchema,
       photos: z.array(z.object({
         data: z.string().describe("Base64 encoded photo data"),
         filename: z.string().optional().describe("Original filename"),
@@ -39,9 +128,24 @@ export function registerFindingTools(server: McpServer): void {
       })).optional().describe("Photos to attach to this finding"),
       severity: z.enum(["info", "minor", "major", "urgent"]).optional()
         .describe("Severity level (default: info)"),
+      item: z.string().optional()
+        .describe("Checklist item this finding covers, exactly as listed in the section's items"),
+      message_id: messageIdSchema,
     },
-    async ({ inspection_id, section, text, photos, severity }) => {
+    async ({ inspection_id, section, text, voice_note, photos, severity, item, message_id }) => {
       try {
+        if (!text?.trim() && !voice_note) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: "Give the finding as text or a voice note",
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
         // Get inspection to determine current section if not specified
         let findingSection = section;
         
@@ -62,8 +166,19 @@ export function registerFindingTools(server: McpServer): void {
           findingSection = inspectionResult.data.currentSection;
         }
 
-        // Match against comment library
-        const matchResult = commentLibrary.match(text, findingSection);
+        // Store and transcribe the voice note; each issue dictated becomes a finding
+        let voiceNote: TranscribedVoiceNote | undefined;
+        if (voice_note) {
+          const voiceResult = await uploadVoiceNote(voice_note, message_id);
+          if (!voiceResult.ok || !voiceResult.data) {
+            return voiceNoteFailure(voiceResult.error);
+          }
+          voiceNote = voiceResult.data;
+        }
+        const texts = findingTexts(text, voiceNote);
+
+        // Rank comment library suggestions, using the organisation's feedback when available
+        const feedbackResult = await commentFeedbackApi.summary();
 
         // Map severity to API enum
         const severityMap: Record<string, 'INFO' | 'MINOR' | 'MAJOR' | 'URGENT'> = {
@@ -73,37 +188,48 @@ export function registerFindingTools(server: McpServer): void {
           'urgent': 'URGENT',
         };
 
-        // Create finding via API
-        const findingResult = await findingsApi.create(inspection_id, {
-          section: findingSection,
-          text,
-          severity: severityMap[severity || 'info'],
-          matchedComment: matchResult.matched ? matchResult.comment : undefined,
-        });
+        const recorded: Array<{ finding: Finding; suggestions: CommentSuggestion[] }> = [];
+        for (const findingText of texts) {
+          const suggestions = commentLibrary.suggest(findingText, {
+            section: findingSection,
+            feedback: feedbackResult.ok ? feedbackResult.data : undefined,
+          });
 
-        if (!findingResult.ok || !findingResult.data) {
-          return {
-            content: [{
-              type: "text" as const,
-              text: JSON.stringify({
-                error: findingResult.error?.error || "Failed to create finding",
-                details: findingResult.error,
-              }, null, 2),
-            }],
-            isError: true,
-          };
-        }
+          // Create finding via API
+          const findingResult = await findingsApi.create(inspection_id, {
+            section: findingSection,
+            text: findingText,
+            severity: severityMap[severity || 'info'],
+            matchedComment: suggestions[0]?.comment,
+            item,
+            voiceNoteId: voiceNote?.id,
+          }, idempotencyKey(message_id, 'finding', recorded.length));
 
-        const finding = findingResult.data;
+          if (!findingResult.ok || !findingResult.data) {
+            return {
+              content: [{
+                type: "text" as const,
+                text: JSON.stringify({
+                  error: findingResult.error?.error || "Failed to create finding",
+                  details: findingResult.error,
+                  recorded_finding_ids: recorded.length > 0 ? recorded.map((r) => r.finding.id) : undefined,
+                }, null, 2),
+              }],
+              isError: true,
+            };
+          }
+
+          recorded.push({ finding: findingResult.data, suggestions });
+        }
 
-        // Upload photos if provided
+        // Upload photos if provided (to the first finding when a voice note was split)
         const uploadedPhotos: Array<{ id: string; filename: string }> = [];
         if (photos && photos.length > 0) {
-          for (const photo of photos) {
-            const photoResult = await photosApi.upload(finding.id, {
+          for (const [index, photo] of photos.entries()) {
+            const photoResult = await photosApi.upload(recorded[0].finding.id, {
               base64Data: photo.data,
               mimeType: photo.mime_type,
-            });
+            }, idempotencyKey(message_id, 'photo', index));
 
             if (photoResult.ok && photoResult.data) {
               uploadedPhotos.push({
@@ -115,20 +241,22 @@ export function registerFindingTools(server: McpServer): void {
         }
 
         // Build response
-        const response: Record<string, unknown> = {
-          finding_id: finding.id,
-          section: finding.section,
-          severity: finding.severity.toLowerCase(),
-          text: finding.text,
-          photos_stored: uploadedPhotos.length,
-          message: `Finding recorded in ${findingSection}.`,
-        };
+        const response: Record<string, unknown> = recorded.length === 1
+          ? describeFinding(recorded[0].finding, recorded[0].suggestions, findingSection)
+          : {
+            findings: recorded.map((r) => describeFinding(r.finding, r.suggestions, findingSection)),
+            message: `${recorded.length} findings recorded in ${findingSection} from the voice note. ` +
+              `Confirm or edit their comments with inspection_choose_comment.`,
+          };
+        response.photos_stored = uploadedPhotos.length;
 
-        // Include matched comment if found
-        if (matchResult.matched && matchResult.comment) {
-          response.matched_comment = matchResult.comment;
-          response.match_confidence = matchResult.confidence;
-          response.message = `Finding recorded in ${findingSection}. Matched boilerplate comment available.`;
+        if (voiceNote) {
+          response.voice_note_id = voiceNote.id;
+          response.transcript = voiceNote.transcript ?? null;
+          if (!voiceNote.transcript && !text?.trim()) {
+            response.message = `Voice note stored in ${findingSection} but could not be transcribed. ` +
+              `Ask the inspector to type the finding, then update its text.`;
+          }
         }
 
         // Include photo details if any
@@ -157,6 +285,92 @@ export function registerFindingTools(server: McpServer): void {
     }
   );
 
+  // -------------------------------------------------------------------------
+  // inspection_choose_comment - Record which suggested comment was kept
+  // -------------------------------------------------------------------------
+  server.tool(
+    "inspection_choose_comment",
+    "Keep, edit or reject the boilerplate comment suggested for a finding. Feedback improves future suggestions for the organisation.",
+    {
+      inspection_id: z.string().uuid().describe("ID of the inspection"),
+      finding_id: z.string().uuid().describe("ID of the finding"),
+      rank: z.number().int().positive().optional()
+        .describe("Rank of the chosen suggestion from comment_suggestions (omit if none fitted)"),
+      suggestion_key: z.string().optional().describe("Key of the chosen suggestion from comment_suggestions"),
+      suggested_comment: z.string().optional().describe("The suggested comment as offered"),
+      comment: z.string().optional()
+        .describe("The comment to keep: the suggestion as is, the inspector's edit, or omit to reject"),
+    },
+    async ({ inspection_id, finding_id, rank, suggestion_key, suggested_comment, comment }) => {
+      try {
+        const findingsResult = await findingsApi.list(inspection_id);
+        const finding = findingsResult.data?.find((f) => f.id === finding_id);
+        if (!finding) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: findingsResult.error?.error || "Finding not found",
+                finding_id,
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        if (comment?.trim()) {
+          const updateResult = await findingsApi.update(finding_id, { matchedComment: comment.trim() });
+          if (!updateResult.ok) {
+            return {
+              content: [{
+                type: "text" as const,
+                text: JSON.stringify({
+                  error: updateResult.error?.error || "Failed to update finding",
+                  details: updateResult.error,
+                }, null, 2),
+              }],
+              isError: true,
+            };
+          }
+        }
+
+        const feedbackResult = await commentFeedbackApi.record({
+          findingId: finding_id,
+          section: finding.section,
+          findingText: finding.text,
+          commentKey: suggestion_key,
+          suggestedComment: suggested_comment,
+          finalComment: comment,
+          rank,
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              finding_id,
+              matched_comment: comment?.trim() || finding.matchedComment || null,
+              outcome: feedbackResult.data?.outcome.toLowerCase(),
+              feedback_recorded: feedbackResult.ok,
+              message: comment?.trim() ? "Comment saved for finding." : "Suggestion rejected.",
+            }, null, 2),
+          }],
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              error: "Failed to choose comment",
+              details: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          }],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // -------------------------------------------------------------------------
   // site_inspection_add_finding - Add finding to site inspection
   // -------------------------------------------------------------------------
@@ -176,14 +390,18 @@ export function registerFindingTools(server: McpServer): void {
       na_reason: z.string().optional().describe("Reason for N/A (Clause Review mode)"),
       // Common
       notes: z.string().optional().describe("Notes or observations"),
+      voice_note: voiceNoteSchema,
       photo_ids: z.array(z.string().uuid()).optional().describe("Existing photo IDs to attach"),
       // Inline photos (for WhatsApp capture)
       photos: z.array(z.object({
         data: z.string().describe("Base64 encoded photo data"),
         caption: z.string().optional().describe("Photo caption (defaults to notes)"),
       })).optional().describe("Inline photos to upload and attach"),
+      message_id: messageIdSchema,
     },
-    async ({ inspection_id, category, item, decision, clause_id, applicability, notes, na_reason, photo_ids, photos }) => {
+    async ({
+      inspection_id, category, item, decision, clause_id, applicability, notes, voice_note, na_reason, photo_ids, photos, message_id,
+    }) => {
       try {
         // Get inspection to determine type
         const inspResult = await siteInspectionApi.get(inspection_id);
@@ -205,16 +423,19 @@ export function registerFindingTools(server: McpServer): void {
         // Upload inline photos if provided
         const uploadedPhotoIds: string[] = photo_ids ? [...photo_ids] : [];
         if (photos && photos.length > 0) {
-          for (const photo of photos) {
+          for (const [index, photo] of photos.entries()) {
             const uploadResult = await projectPhotosApi.uploadBase64(inspection.projectId, {
               data: photo.data,
               caption: photo.caption || notes || 'Photo',
               source: 'SITE',
               inspectionId: inspection_id,
               linkedClauses: clause_id ? [clause_id] : [],
-            });
+            }, idempotencyKey(message_id, 'photo', index));
             if (uploadResult.ok && uploadResult.data) {
               uploadedPhotoIds.push(uploadResult.data.id);
+            } else if (uploadResult.error?.duplicateOf) {
+              // Already uploaded - link the existing photo instead
+              uploadedPhotoIds.push(uploadResult.error.duplicateOf.id);
             }
           }
         }
@@ -234,38 +455,65 @@ export function registerFindingTools(server: McpServer): void {
             };
           }
 
-          const result = await checklistItemApi.create(inspection_id, {
-            category,
-            item,
-            decision,
-            notes,
-            photoIds: uploadedPhotoIds.length > 0 ? uploadedPhotoIds : undefined,
-          });
+          // Store and transcribe the voice note; each issue dictated becomes an item
+          let voiceNote: TranscribedVoiceNote | undefined;
+          if (voice_note) {
+            const voiceResult = await uploadVoiceNote(voice_note, message_id);
+            if (!voiceResult.ok || !voiceResult.data) {
+              return voiceNoteFailure(voiceResult.error);
+            }
+            voiceNote = voiceResult.data;
+          }
+          const itemNotes = voiceNote ? findingTexts(notes, voiceNote) : [notes];
 
-          if (!result.ok || !result.data) {
-            return {
-              content: [{
-                type: "text" as const,
-                text: JSON.stringify({
-                  error: "Failed to create checklist item",
-                  details: result.error,
-                }, null, 2),
-              }],
-              isError: true,
-            };
+          const created: ChecklistItem[] = [];
+          for (const itemNote of itemNotes) {
+            const result = await checklistItemApi.create(inspection_id, {
+              category,
+              item,
+              decision,
+              notes: itemNote,
+              // Photos go with the first item when a voice note was split
+              photoIds: created.length === 0 && uploadedPhotoIds.length > 0 ? uploadedPhotoIds : undefined,
+              voiceNoteId: voiceNote?.id,
+            }, idempotencyKey(message_id, 'checklist-item', created.length));
+
+            if (!result.ok || !result.data) {
+              return {
+                content: [{
+                  type: "text" as const,
+                  text: JSON.stringify({
+                    error: "Failed to create checklist item",
+                    details: result.error,
+                    recorded_item_ids: created.length > 0 ? created.map((c) => c.id) : undefined,
+                  }, null, 2),
+                }],
+                isError: true,
+              };
+            }
+
+            created.push(result.data);
           }
 
+          const describeItem = (checklistItem: ChecklistItem) => ({
+            item_id: checklistItem.id,
+            category: checklistItem.category,
+            item: checklistItem.item,
+            decision: checklistItem.decision,
+            notes: checklistItem.notes,
+            photos_attached: checklistItem.photoIds?.length || 0,
+          });
+
           return {
             content: [{
               type: "text" as const,
               text: JSON.stringify({
-                item_id: result.data.id,
-                category: result.data.category,
-                item: result.data.item,
-                decision: result.data.decision,
-                notes: result.data.notes,
-                photos_attached: result.data.photoIds?.length || 0,
-                message: `Checklist item recorded: ${item} - ${decision}`,
+                ...(created.length === 1 ? describeItem(created[0]) : { items: created.map(describeItem) }),
+                voice_note_id: voiceNote?.id,
+                transcript: voiceNote ? voiceNote.transcript ?? null : undefined,
+                message: created.length === 1
+                  ? `Checklist item recorded: ${item} - ${decision}`
+                  : `${created.length} checklist items recorded from the voice note: ${item} - ${decision}`,
               }, null, 2),
             }],
           };
@@ -284,13 +532,27 @@ export function registerFindingTools(server: McpServer): void {
             };
           }
 
+          // Store and transcribe the voice note; the issues dictated become the observations
+          let voiceNote: TranscribedVoiceNote | undefined;
+          if (voice_note) {
+            const voiceResult = await uploadVoiceNote(voice_note, message_id);
+            if (!voiceResult.ok || !voiceResult.data) {
+              return voiceNoteFailure(voiceResult.error);
+            }
+            voiceNote = voiceResult.data;
+          }
+          const observations = voiceNote ? findingTexts(notes, voiceNote) : undefined;
+
           const result = await clauseReviewApi.create(inspection_id, {
             clauseId: clause_id,
             applicability: applicability || 'APPLICABLE',
             naReason: na_reason,
-            observations: notes,
+            observations: !observations
+              ? notes
+              : observations.length === 1 ? observations[0] : observations.map((o) => `- ${o}`).join('\n'),
             photoIds: uploadedPhotoIds.length > 0 ? uploadedPhotoIds : undefined,
-          });
+            voiceNoteId: voiceNote?.id,
+          }, idempotencyKey(message_id, 'clause-review'));
 
           if (!result.ok || !result.data) {
             return {
@@ -315,6 +577,8 @@ export function registerFindingTools(server: McpServer): void {
                 applicability: result.data.applicability,
                 observations: result.data.observations,
                 photos_attached: result.data.photoIds?.length || 0,
+                voice_note_id: voiceNote?.id,
+                transcript: voiceNote ? voiceNote.transcript ?? null : undefined,
                 message: `Clause ${result.data.clause.code} reviewed: ${result.data.applicability}`,
               }, null, 2),
             }],
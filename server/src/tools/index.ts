@@ -1,14 +1,38 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { z } from "zod";
+import { McpServer, type ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z, type ZodRawShape } from "zod";
 import { registerInspectionTools } from "./inspection.js";
 import { registerFindingTools } from "./finding.js";
 import { registerReportTools } from "./report.js";
-import { navigationApi } from "../api/client.js";
+import { registerDefectTools } from "./defect.js";
+import { registerMeasurementTools } from "./measurement.js";
+import { registerClauseNavigationTools } from "./clause-navigation.js";
+import { registerDocumentTools } from "./document.js";
+import { navigationApi, asInspector } from "../api/client.js";
+
+const senderPhoneSchema = z.string().optional().describe(
+  "Phone number of the inspector who sent the inbound message (e.g. +64211234567); the action is recorded against them"
+);
+
+/**
+ * Give every tool a sender_phone parameter and make its API calls as that
+ * inspector.
+ */
+function actingForSender(server: McpServer): McpServer {
+  const tool = (name: string, description: string, schema: ZodRawShape, cb: ToolCallback<ZodRawShape>) =>
+    server.tool(name, description, { ...schema, sender_phone: senderPhoneSchema }, (args, extra) =>
+      asInspector(args.sender_phone as string | undefined, async () => cb(args, extra))
+    );
+  return new Proxy(server, {
+    get: (target, property, receiver) => (property === "tool" ? tool : Reflect.get(target, property, receiver)),
+  });
+}
 
 /**
  * Register all MCP tools with the server.
  */
-export function registerTools(server: McpServer): void {
+export function registerTools(mcpServer: McpServer): void {
+  const server = actingForSender(mcpServer);
+
   // Register inspection_start and inspection_status tools
   registerInspectionTools(server);
 
@@ -18,6 +42,19 @@ export function registerTools(server: McpServer): void {
   // Register inspection_complete and inspection_get_report tools
   registerReportTools(server);
 
+  // Register site_inspection_add_defect, site_inspection_add_moisture and site_inspection_list_defects tools
+  registerDefectTools(server);
+
+  // Register site_inspection_add_measurement and site_inspection_list_measurements tools
+  registerMeasurementTools(server);
+
+  // Register site_inspection_next_clause and site_inspection_goto_clause tools
+  registerClauseNavigationTools(server);
+
+  // Register site_inspection_outstanding_documents, site_inspection_receive_document
+  // and site_inspection_finalisation_blockers tools
+  registerDocumentTools(server);
+
   // -------------------------------------------------------------------------
   // inspection_navigate - Navigate to a section via API
   // -------------------------------------------------------------------------
@@ -117,9 +154,18 @@ export function registerTools(server: McpServer): void {
             id: suggest.nextSection.id,
             name: suggest.nextSection.name,
             prompt: suggest.nextSection.prompt,
+            items: suggest.nextSection.items,
           };
         }
 
+        if (suggest.skipped?.length) {
+          response.not_applicable = suggest.skipped.map((s) => ({
+            id: s.id,
+            name: s.name,
+            reason: s.reason,
+          }));
+        }
+
         return {
           content: [{
             type: "text" as const,
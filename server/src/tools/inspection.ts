@@ -14,8 +14,8 @@ import {
   checklistItemApi,
   clauseReviewApi,
   buildingCodeApi,
+  checklistsApi,
 } from "../api/client.js";
-import { checklistService } from "../services/checklist.js";
 
 // ============================================================================
 // Tool Registration
@@ -33,27 +33,32 @@ export function registerInspectionTools(server: McpServer): void {
       client_name: z.string().describe("Name of the client"),
       inspector_name: z.string().optional().describe("Name of the inspector"),
       checklist: z.string().optional().describe("Checklist ID (default: 'nz-ppi')"),
+      project_id: z.string().uuid().optional().describe("Project whose property decides which checklist sections apply"),
       metadata: z.object({
+        job_number: z.string().optional().describe("Office job number"),
+        weather: z.string().optional().describe("Weather conditions at time of inspection"),
         property_type: z.string().optional().describe("Type of property"),
         bedrooms: z.number().optional().describe("Number of bedrooms"),
         bathrooms: z.number().optional().describe("Number of bathrooms"),
         year_built: z.number().optional().describe("Year the property was built"),
+        has_subfloor: z.boolean().optional().describe("Suspended floor with a subfloor space"),
+        has_deck: z.boolean().optional().describe("Property has a deck or balcony"),
       }).optional().describe("Additional property metadata"),
     },
-    async ({ address, client_name, inspector_name, checklist, metadata }) => {
+    async ({ address, client_name, inspector_name, checklist, project_id, metadata }) => {
       try {
-        // Determine checklist to use
+        // Determine checklist to use (latest published version)
         const checklistId = checklist || 'nz-ppi';
-        const checklistData = checklistService.getChecklist(checklistId);
-        
-        if (!checklistData) {
-          const available = checklistService.getAvailableChecklists();
+        const checklistResult = await checklistsApi.get(checklistId);
+
+        if (!checklistResult.ok || !checklistResult.data) {
+          const available = await checklistsApi.list();
           return {
             content: [{
               type: "text" as const,
               text: JSON.stringify({
                 error: `Checklist '${checklistId}' not found`,
-                available_checklists: available,
+                available_checklists: available.data?.map((c) => c.key) ?? [],
               }, null, 2),
             }],
             isError: true,
@@ -61,7 +66,8 @@ export function registerInspectionTools(server: McpServer): void {
         }
 
         // Get first section
-        const firstSection = checklistService.getFirstSection(checklistId);
+        const checklistData = checklistResult.data.checklist;
+        const firstSection = checklistData.sections[0];
         if (!firstSection) {
           return {
             content: [{
@@ -80,6 +86,7 @@ export function registerInspectionTools(server: McpServer): void {
           clientName: client_name,
           inspectorName: inspector_name,
           checklistId,
+          projectId: project_id,
           currentSection: firstSection.id,
           metadata,
         });
@@ -106,6 +113,7 @@ export function registerInspectionTools(server: McpServer): void {
           address: inspection.address,
           client_name: inspection.clientName,
           checklist: checklistId,
+          checklist_version: checklistResult.data.version,
           first_section: {
             id: firstSection.id,
             name: firstSection.name,
@@ -189,6 +197,7 @@ export function registerInspectionTools(server: McpServer): void {
           progress: status.progress,
           total_findings: status.totalFindings,
           can_complete: status.canComplete,
+          missing: status.missing.map(m => m.message),
         };
 
         return {
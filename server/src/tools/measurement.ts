@@ -0,0 +1,222 @@
+/**
+ * Measurement Tools
+ *
+ * MCP tools for recording site measurements (moisture, falls, clearances)
+ * from the inspector's own phrasing, evaluated against the API's acceptable
+ * ranges.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import {
+  buildingCodeApi,
+  siteMeasurementApi,
+  type MeasurementType,
+  type MeasurementUnit,
+} from "../api/client.js";
+import { parseMeasurement, formatMeasurement } from "../services/measurement-parser.js";
+
+const MEASUREMENT_TYPES = [
+  "MOISTURE_CONTENT", "SLOPE_FALL", "DIMENSION", "CLEARANCE", "TEMPERATURE", "OTHER",
+] as const;
+
+const MEASUREMENT_UNITS = ["PERCENT", "MM_PER_M", "MM", "CM", "M", "CELSIUS"] as const;
+
+// ============================================================================
+// Tool Registration
+// ============================================================================
+
+export function registerMeasurementTools(server: McpServer): void {
+  // -------------------------------------------------------------------------
+  // site_inspection_add_measurement - Record a measurement from natural phrasing
+  // -------------------------------------------------------------------------
+  server.tool(
+    "site_inspection_add_measurement",
+    "Record a site measurement from the inspector's phrasing (e.g. 'moisture 22% at bathroom bottom plate', " +
+      "'deck fall 1:80, clause E2') and report whether it passes",
+    {
+      inspection_id: z.string().uuid().describe("ID of the site inspection"),
+      text: z.string().describe("The measurement as typed or dictated, including where it was taken"),
+      type: z.enum(MEASUREMENT_TYPES).optional().describe("Measurement type, if the phrasing doesn't make it clear"),
+      value: z.number().optional().describe("Value, overriding the one read from the text"),
+      unit: z.enum(MEASUREMENT_UNITS).optional().describe("Unit, overriding the one read from the text"),
+      location: z.string().optional().describe("Where it was taken, overriding the text"),
+      clause: z.string().optional().describe("Building Code clause code (e.g. 'E3')"),
+      notes: z.string().optional().describe("Notes"),
+    },
+    async ({ inspection_id, text, type, value, unit, location, clause, notes }) => {
+      try {
+        const parsed = parseMeasurement(text, type);
+        const measurementType: MeasurementType | undefined = type ?? parsed?.type;
+        const measurementValue = value ?? parsed?.value;
+        const measurementUnit: MeasurementUnit | undefined = unit ?? parsed?.unit;
+        const measurementLocation = location ?? parsed?.location;
+
+        if (!measurementType || measurementValue === undefined || !measurementUnit) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: `Could not read a measurement from "${text}"`,
+                hint: "Give the type, value and unit, e.g. 'moisture 22% at bathroom bottom plate'",
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        if (!measurementLocation) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: "Where was this measurement taken?",
+                reading: formatMeasurement(measurementType, measurementValue, measurementUnit),
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        // Resolve clause code to clause ID
+        const clauseCode = clause ?? parsed?.clause;
+        let clauseId: string | undefined;
+        if (clauseCode) {
+          const clauseResult = await buildingCodeApi.getClause(clauseCode.toUpperCase());
+          if (!clauseResult.ok || !clauseResult.data) {
+            return {
+              content: [{
+                type: "text" as const,
+                text: JSON.stringify({
+                  error: `Building Code clause not found: ${clauseCode}`,
+                }, null, 2),
+              }],
+              isError: true,
+            };
+          }
+          clauseId = clauseResult.data.id;
+        }
+
+        const result = await siteMeasurementApi.create(inspection_id, {
+          type: measurementType,
+          location: measurementLocation,
+          value: measurementValue,
+          unit: measurementUnit,
+          linkedClauseId: clauseId,
+          notes,
+        });
+
+        if (!result.ok || !result.data) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: "Failed to record measurement",
+                details: result.error,
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        const measurement = result.data;
+        const ranges = await siteMeasurementApi.acceptableRanges();
+        const acceptable = ranges.ok ? ranges.data?.[measurement.type]?.description : undefined;
+        const reading = formatMeasurement(measurement.type, measurement.value, measurement.unit);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              measurement_id: measurement.id,
+              type: measurement.type,
+              value: measurement.value,
+              unit: measurement.unit,
+              location: measurement.location,
+              clause_code: measurement.linkedClause?.code,
+              result: measurement.result,
+              acceptable,
+              message: `${reading} at ${measurement.location}: ${measurement.result}` +
+                (acceptable ? ` (acceptable ${acceptable})` : ''),
+            }, null, 2),
+          }],
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              error: "Failed to add measurement",
+              details: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // -------------------------------------------------------------------------
+  // site_inspection_list_measurements - Summarise recorded measurements
+  // -------------------------------------------------------------------------
+  server.tool(
+    "site_inspection_list_measurements",
+    "List the measurements recorded for a site inspection with their PASS/FAIL results",
+    {
+      inspection_id: z.string().uuid().describe("ID of the site inspection"),
+      type: z.enum(MEASUREMENT_TYPES).optional().describe("Only list this type of measurement"),
+    },
+    async ({ inspection_id, type }) => {
+      try {
+        const result = await siteMeasurementApi.list(inspection_id);
+
+        if (!result.ok || !result.data) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                error: result.error?.error || "Failed to list measurements",
+                inspection_id,
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        const measurements = type ? result.data.filter((m) => m.type === type) : result.data;
+        const count = (outcome: string) => measurements.filter((m) => m.result === outcome).length;
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              inspection_id,
+              count: measurements.length,
+              passed: count('PASS'),
+              failed: count('FAIL'),
+              pending: count('PENDING'),
+              measurements: measurements.map((m) => ({
+                measurement_id: m.id,
+                reading: formatMeasurement(m.type, m.value, m.unit),
+                location: m.location,
+                clause_code: m.linkedClause?.code,
+                result: m.result,
+              })),
+            }, null, 2),
+          }],
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              error: "Failed to list measurements",
+              details: error instanceof Error ? error.message : String(error),
+            }, null, 2),
+          }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
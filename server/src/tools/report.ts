@@ -24,7 +24,7 @@ export function registerReportTools(server: McpServer): void {
       summary_notes: z.string().optional().describe("Overall summary or additional notes"),
       weather: z.string().optional().describe("Weather conditions at time of inspection"),
     },
-    async ({ inspection_id, summary_notes }) => {
+    async ({ inspection_id, summary_notes, weather }) => {
       try {
         // Get inspection status first
         const statusResult = await navigationApi.getStatus(inspection_id);
@@ -57,19 +57,32 @@ export function registerReportTools(server: McpServer): void {
           };
         }
 
-        // Update inspection to completed
+        // Record weather with the inspection metadata; checklists may require it
+        let metadata: Record<string, unknown> | undefined;
+        if (weather) {
+          const inspectionResult = await inspectionApi.get(inspection_id);
+          metadata = { ...inspectionResult.data?.metadata, weather };
+        }
+
+        // Update inspection to completed; the API refuses while checklist requirements are missing
         const updateResult = await inspectionApi.update(inspection_id, {
           status: 'COMPLETED',
           completedAt: new Date().toISOString(),
+          metadata,
         });
 
         if (!updateResult.ok) {
+          const missing = updateResult.error?.missing;
           return {
             content: [{
               type: "text" as const,
               text: JSON.stringify({
                 error: updateResult.error?.error || "Failed to complete inspection",
                 inspection_id,
+                ...(missing && {
+                  missing: missing.map(m => m.message),
+                  hint: "Record the missing items, then call inspection_complete again.",
+                }),
               }, null, 2),
             }],
             isError: true,
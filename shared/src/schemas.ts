@@ -33,6 +33,7 @@ export const FindingSchema = z.object({
   text: z.string().min(1),
   severity: SeveritySchema,
   matchedComment: z.string().optional(),
+  voiceNoteId: z.string().uuid().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
   photos: z.array(PhotoSchema).optional(),
@@ -72,6 +73,7 @@ export const FindingResponseSchema = z.object({
   text: z.string(),
   severity: SeveritySchema,
   matchedComment: z.string().nullable(),
+  voiceNoteId: z.string().uuid().nullable(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
   photos: z.array(PhotoResponseSchema),
@@ -44,6 +44,7 @@ export interface Finding {
   text: string;
   severity: Severity;
   matchedComment?: string;
+  voiceNoteId?: string;
   createdAt: Date;
   updatedAt: Date;
   photos?: Photo[];
@@ -83,6 +84,8 @@ export interface FindingResponse {
   text: string;
   severity: Severity;
   matchedComment: string | null;
+  /** Voice note the finding was transcribed from */
+  voiceNoteId: string | null;
   createdAt: string;
   updatedAt: string;
   photos: PhotoResponse[];
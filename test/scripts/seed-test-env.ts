@@ -21,7 +21,12 @@ const prisma = new PrismaClient();
 const TEST_EMAIL = 'test@example.com';
 const DEFAULT_TEST_PASSWORD = 'testpassword123'; // Only used if TEST_PASSWORD not set
 
-async function seedTestUser(): Promise<void> {
+const TEST_ORGANIZATION = 'Test Organisation';
+
+/**
+ * Returns the test user's organisation ID, creating it on first run
+ */
+async function seedTestUser(): Promise<string> {
   const password = process.env.TEST_PASSWORD || DEFAULT_TEST_PASSWORD;
   const passwordHash = await bcrypt.hash(password, 12);
 
@@ -37,9 +42,26 @@ async function seedTestUser(): Promise<void> {
   });
 
   console.log(`✅ Test user ready: ${TEST_EMAIL} (id: ${user.id})`);
+
+  const membership = await prisma.organizationMembership.findFirst({
+    where: { userId: user.id },
+    orderBy: { createdAt: 'asc' },
+  });
+  if (membership) {
+    return membership.organizationId;
+  }
+
+  const organization = await prisma.organization.create({
+    data: {
+      name: TEST_ORGANIZATION,
+      memberships: { create: { userId: user.id, role: 'ORG_ADMIN' } },
+    },
+  });
+  console.log(`✅ Test organisation created: ${organization.name} (id: ${organization.id})`);
+  return organization.id;
 }
 
-async function seedTestProject(): Promise<void> {
+async function seedTestProject(organizationId: string): Promise<void> {
   // Check if test project exists by job number
   const testJobNumber = 'TEST-001';
   const existing = await prisma.project.findUnique({
@@ -53,7 +75,7 @@ async function seedTestProject(): Promise<void> {
 
   // Create test client
   let client = await prisma.client.findFirst({
-    where: { name: 'Test Client' },
+    where: { name: 'Test Client', organizationId },
   });
 
   if (!client) {
@@ -62,6 +84,7 @@ async function seedTestProject(): Promise<void> {
         name: 'Test Client',
         email: 'testclient@example.com',
         phone: '021-555-0123',
+        organizationId,
       },
     });
     console.log(`✅ Test client created: ${client.name} (id: ${client.id})`);
@@ -71,7 +94,7 @@ async function seedTestProject(): Promise<void> {
 
   // Create test property
   let property = await prisma.property.findFirst({
-    where: { streetAddress: '123 Test Street' },
+    where: { streetAddress: '123 Test Street', organizationId },
   });
 
   if (!property) {
@@ -82,6 +105,7 @@ async function seedTestProject(): Promise<void> {
         city: 'Auckland',
         postcode: '1010',
         territorialAuthority: 'AKL',
+        organizationId,
       },
     });
     console.log(`✅ Test property created: ${property.streetAddress} (id: ${property.id})`);
@@ -98,6 +122,7 @@ async function seedTestProject(): Promise<void> {
       status: 'DRAFT',
       propertyId: property.id,
       clientId: client.id,
+      organizationId,
     },
   });
 
@@ -109,8 +134,8 @@ async function main(): Promise<void> {
   console.log('🌱 Seeding test environment...');
   console.log('');
 
-  await seedTestUser();
-  await seedTestProject();
+  const organizationId = await seedTestUser();
+  await seedTestProject(organizationId);
 
   console.log('');
   console.log('✅ Test environment seeding complete!');
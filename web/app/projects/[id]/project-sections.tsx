@@ -3,6 +3,7 @@
 import { useState, useCallback } from 'react';
 import { CollapsibleSection } from '@/components/collapsible-section';
 import { PhotoGrid, Photo } from '@/components/photo-grid';
+import type { PhotoAnnotation } from '@/components/photo-lightbox';
 import { ClauseReviewSection } from './clause-review-section';
 import { DocumentUpload } from '@/components/document-upload';
 import { DocumentList, Document } from '@/components/document-list';
@@ -300,6 +301,57 @@ function PhotosSection({
     []
   );
 
+  const handleSaveAnnotations = useCallback(
+    async (photoId: string, annotations: PhotoAnnotation[]): Promise<void> => {
+      const res = await fetch(`${API_URL}/api/photos/${photoId}/annotations`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ annotations }),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to save annotations (${res.status})`);
+      }
+    },
+    []
+  );
+
+  const handleMergeDuplicate = useCallback(
+    async (photoId: string, intoId: string): Promise<Photo[]> => {
+      const res = await fetch(`${API_URL}/api/photos/${photoId}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ intoId }),
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to merge photos (${res.status})`);
+      }
+      // Merging renumbers the remaining photos
+      const list = await fetch(`${API_URL}/api/projects/${projectId}/photos`, {
+        credentials: 'include',
+      });
+      if (!list.ok) {
+        throw new Error(`Failed to reload photos (${list.status})`);
+      }
+      return list.json();
+    },
+    [projectId]
+  );
+
+  const handleDismissDuplicate = useCallback(
+    async (photoId: string): Promise<void> => {
+      const res = await fetch(`${API_URL}/api/photos/${photoId}/not-duplicate`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      if (!res.ok) {
+        throw new Error(`Failed to dismiss duplicate (${res.status})`);
+      }
+    },
+    []
+  );
+
   return (
     <CollapsibleSection
       id="photos"
@@ -311,6 +363,9 @@ function PhotosSection({
         onReorder={handleReorder}
         onUpdateCaption={handleUpdateCaption}
         onDelete={handleDelete}
+        onSaveAnnotations={handleSaveAnnotations}
+        onMergeDuplicate={handleMergeDuplicate}
+        onDismissDuplicate={handleDismissDuplicate}
       />
     </CollapsibleSection>
   );
@@ -1,5 +1,6 @@
 import { Finding, api } from '@/lib/api';
 import { SeverityBadge } from './status-badge';
+import { VoiceNotePlayer } from './voice-note-player';
 
 interface FindingCardProps {
   finding: Finding;
@@ -45,6 +46,10 @@ export function FindingCard({ finding, onEdit }: FindingCardProps): React.ReactE
         </div>
       </div>
 
+      {finding.voiceNoteId && (
+        <VoiceNotePlayer voiceNoteId={finding.voiceNoteId} />
+      )}
+
       {finding.photos.length > 0 && (
         <div className="mt-3 flex gap-2 overflow-x-auto">
           {finding.photos.map((photo) => (
@@ -12,6 +12,9 @@ interface Photo {
   thumbnailPath: string | null;
   source: string;
   linkedClauses: string[];
+  takenAt?: string | null;
+  warnings?: string[];
+  possibleDuplicateOfId?: string | null;
 }
 
 interface PhotoCardProps {
@@ -21,6 +24,10 @@ interface PhotoCardProps {
   onView: () => void;
   onCaptionSave: (caption: string) => Promise<void>;
   onDelete: () => void;
+  /** Lookalike photo this one was flagged against at upload */
+  duplicateOf?: Pick<Photo, 'id' | 'reportNumber'>;
+  onMergeDuplicate?: () => void;
+  onDismissDuplicate?: () => void;
 }
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
@@ -37,6 +44,9 @@ export function PhotoCard({
   onView,
   onCaptionSave,
   onDelete,
+  duplicateOf,
+  onMergeDuplicate,
+  onDismissDuplicate,
 }: PhotoCardProps): React.ReactElement {
   const [isEditing, setIsEditing] = useState(false);
   const [caption, setCaption] = useState(photo.caption);
@@ -104,7 +114,7 @@ export function PhotoCard({
       ref={setNodeRef}
       style={style}
       className={`group relative bg-white border border-gray-200 rounded-lg overflow-hidden ${
-        isDragging ? 'shadow-lg ring-2 ring-blue-500' : ''
+        isDragging ? 'shadow-lg ring-2 ring-blue-500' : duplicateOf ? 'ring-2 ring-amber-400' : ''
       }`}
     >
       {/* Drag handle */}
@@ -165,7 +175,47 @@ export function PhotoCard({
 
       {/* Caption */}
       <div className="p-2 border-t border-gray-100">
-        <div className="text-xs text-gray-500 mb-1">#{photo.reportNumber}</div>
+        <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+          <span>
+            #{photo.reportNumber}
+            {photo.takenAt && ` · ${new Date(photo.takenAt).toLocaleDateString('en-NZ')}`}
+          </span>
+          {/* Upload warnings: GPS far from the property, taken on another day */}
+          {photo.warnings && photo.warnings.length > 0 && (
+            <span
+              className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 font-medium"
+              title={photo.warnings.join('\n')}
+            >
+              Check
+            </span>
+          )}
+        </div>
+        {duplicateOf && (
+          <div className="mb-1 text-xs text-amber-800">
+            <p>Possible duplicate of #{duplicateOf.reportNumber}</p>
+            <div className="flex gap-2 mt-1">
+              {onMergeDuplicate && (
+                <button
+                  type="button"
+                  onClick={onMergeDuplicate}
+                  className="px-1.5 py-0.5 rounded bg-amber-100 hover:bg-amber-200 font-medium"
+                  title={`Merge into #${duplicateOf.reportNumber}, keeping both captions and clause links`}
+                >
+                  Merge
+                </button>
+              )}
+              {onDismissDuplicate && (
+                <button
+                  type="button"
+                  onClick={onDismissDuplicate}
+                  className="px-1.5 py-0.5 rounded hover:bg-amber-100"
+                >
+                  Keep both
+                </button>
+              )}
+            </div>
+          </div>
+        )}
         {isEditing ? (
           <input
             ref={inputRef}
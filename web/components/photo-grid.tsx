@@ -17,7 +17,7 @@ import {
   rectSortingStrategy,
 } from '@dnd-kit/sortable';
 import { PhotoCard } from './photo-card';
-import { PhotoLightbox } from './photo-lightbox';
+import { PhotoLightbox, type PhotoAnnotation } from './photo-lightbox';
 import { ConfirmDialog } from './confirm-dialog';
 
 export interface Photo {
@@ -28,6 +28,10 @@ export interface Photo {
   thumbnailPath: string | null;
   source: string;
   linkedClauses: string[];
+  takenAt?: string | null;
+  warnings?: string[];
+  annotations?: PhotoAnnotation[] | null;
+  possibleDuplicateOfId?: string | null;
 }
 
 interface PhotoGridProps {
@@ -35,6 +39,10 @@ interface PhotoGridProps {
   onReorder: (photoIds: string[]) => Promise<void>;
   onUpdateCaption: (photoId: string, caption: string) => Promise<void>;
   onDelete: (photoId: string) => Promise<void>;
+  onSaveAnnotations?: (photoId: string, annotations: PhotoAnnotation[]) => Promise<void>;
+  /** Merge a duplicate into another photo; resolves with the renumbered photos */
+  onMergeDuplicate?: (photoId: string, intoId: string) => Promise<Photo[]>;
+  onDismissDuplicate?: (photoId: string) => Promise<void>;
   isLoading?: boolean;
 }
 
@@ -60,6 +68,9 @@ export function PhotoGrid({
   onReorder,
   onUpdateCaption,
   onDelete,
+  onSaveAnnotations,
+  onMergeDuplicate,
+  onDismissDuplicate,
   isLoading = false,
 }: PhotoGridProps): React.ReactElement {
   const [photos, setPhotos] = useState(initialPhotos);
@@ -120,6 +131,50 @@ export function PhotoGrid({
     [onUpdateCaption]
   );
 
+  const handleSaveAnnotations = useCallback(
+    async (photoId: string, annotations: PhotoAnnotation[]): Promise<void> => {
+      if (!onSaveAnnotations) return;
+      await onSaveAnnotations(photoId, annotations);
+      const update = (p: Photo): Photo => (p.id === photoId ? { ...p, annotations } : p);
+      setPhotos((prev) => prev.map(update));
+      setLightboxPhoto((prev) => (prev ? update(prev) : prev));
+    },
+    [onSaveAnnotations]
+  );
+
+  const handleMergeDuplicate = useCallback(
+    async (photoId: string, intoId: string): Promise<void> => {
+      if (!onMergeDuplicate) return;
+      setIsSaving(true);
+      try {
+        setPhotos(await onMergeDuplicate(photoId, intoId));
+      } catch (error) {
+        console.error('Failed to merge photos:', error);
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [onMergeDuplicate]
+  );
+
+  const handleDismissDuplicate = useCallback(
+    async (photoId: string): Promise<void> => {
+      if (!onDismissDuplicate) return;
+      setIsSaving(true);
+      try {
+        await onDismissDuplicate(photoId);
+        setPhotos((prev) =>
+          prev.map((p) => (p.id === photoId ? { ...p, possibleDuplicateOfId: null } : p))
+        );
+      } catch (error) {
+        console.error('Failed to dismiss duplicate:', error);
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [onDismissDuplicate]
+  );
+
   const handleDeleteConfirm = useCallback(async (): Promise<void> => {
     if (!deletePhoto) return;
 
@@ -154,8 +209,21 @@ export function PhotoGrid({
     );
   }
 
+  const photosById = new Map(photos.map((p) => [p.id, p]));
+  const flaggedCount = photos.filter(
+    (p) => p.possibleDuplicateOfId && photosById.has(p.possibleDuplicateOfId)
+  ).length;
+
   return (
     <>
+      {/* Near-duplicates flagged at upload, e.g. the same photo forwarded twice */}
+      {flaggedCount > 0 && (
+        <div className="mb-4 px-3 py-2 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-800">
+          {flaggedCount === 1 ? '1 photo looks like' : `${flaggedCount} photos look like`} a
+          duplicate. Merge to keep one copy with both captions and clause links, or keep both.
+        </div>
+      )}
+
       <DndContext
         sensors={sensors}
         collisionDetection={closestCenter}
@@ -176,6 +244,17 @@ export function PhotoGrid({
                 onView={() => setLightboxPhoto(photo)}
                 onCaptionSave={(caption) => handleCaptionSave(photo.id, caption)}
                 onDelete={() => setDeletePhoto(photo)}
+                duplicateOf={
+                  photo.possibleDuplicateOfId ? photosById.get(photo.possibleDuplicateOfId) : undefined
+                }
+                onMergeDuplicate={
+                  onMergeDuplicate && photo.possibleDuplicateOfId
+                    ? () => handleMergeDuplicate(photo.id, photo.possibleDuplicateOfId as string)
+                    : undefined
+                }
+                onDismissDuplicate={
+                  onDismissDuplicate ? () => handleDismissDuplicate(photo.id) : undefined
+                }
               />
             ))}
           </div>
@@ -188,6 +267,7 @@ export function PhotoGrid({
         photos={photos}
         onClose={() => setLightboxPhoto(null)}
         onNavigate={setLightboxPhoto}
+        onSaveAnnotations={onSaveAnnotations ? handleSaveAnnotations : undefined}
       />
 
       {/* Delete confirmation */}
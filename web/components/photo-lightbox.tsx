@@ -1,6 +1,18 @@
 'use client';
 
-import { useEffect, useCallback } from 'react';
+import { useEffect, useCallback, useRef, useState } from 'react';
+
+/**
+ * Vector markup on a photo. Coordinates are fractions (0–1) of the image
+ * width and height; the API renders the same shapes onto the report copy.
+ */
+export type PhotoAnnotation =
+  | { type: 'ellipse'; x: number; y: number; width: number; height: number; color?: string }
+  | { type: 'rectangle'; x: number; y: number; width: number; height: number; color?: string }
+  | { type: 'arrow'; x1: number; y1: number; x2: number; y2: number; color?: string }
+  | { type: 'label'; x: number; y: number; text: string; color?: string };
+
+type AnnotationTool = PhotoAnnotation['type'];
 
 interface Photo {
   id: string;
@@ -10,6 +22,7 @@ interface Photo {
   thumbnailPath: string | null;
   source: string;
   linkedClauses: string[];
+  annotations?: PhotoAnnotation[] | null;
 }
 
 interface PhotoLightboxProps {
@@ -17,21 +30,160 @@ interface PhotoLightboxProps {
   photos: Photo[];
   onClose: () => void;
   onNavigate: (photo: Photo) => void;
+  /** Enables the annotation editor */
+  onSaveAnnotations?: (photoId: string, annotations: PhotoAnnotation[]) => Promise<void>;
+}
+
+interface Point {
+  x: number;
+  y: number;
 }
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
 
+const TOOLS: { tool: AnnotationTool; label: string }[] = [
+  { tool: 'ellipse', label: 'Circle' },
+  { tool: 'arrow', label: 'Arrow' },
+  { tool: 'rectangle', label: 'Box' },
+  { tool: 'label', label: 'Label' },
+];
+
+const COLORS = ['#e11d48', '#facc15', '#2563eb', '#ffffff'];
+
+/** Drags shorter than this (fraction of the image) are treated as stray clicks */
+const MIN_SHAPE_SIZE = 0.01;
+
+function shapeFromDrag(tool: AnnotationTool, start: Point, end: Point, color: string): PhotoAnnotation | null {
+  if (Math.abs(end.x - start.x) < MIN_SHAPE_SIZE && Math.abs(end.y - start.y) < MIN_SHAPE_SIZE) {
+    return null;
+  }
+  switch (tool) {
+    case 'arrow':
+      return { type: 'arrow', x1: start.x, y1: start.y, x2: end.x, y2: end.y, color };
+    case 'ellipse':
+    case 'rectangle':
+      return {
+        type: tool,
+        x: Math.min(start.x, end.x),
+        y: Math.min(start.y, end.y),
+        width: Math.abs(end.x - start.x),
+        height: Math.abs(end.y - start.y),
+        color,
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Annotations drawn over the on-screen image, sized in screen pixels so
+ * strokes and text keep their proportions.
+ */
+function AnnotationShapes({
+  annotations,
+  width,
+  height,
+}: {
+  annotations: PhotoAnnotation[];
+  width: number;
+  height: number;
+}): React.ReactElement {
+  const stroke = Math.max(2, Math.round(Math.min(width, height) * 0.006));
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) * 0.04));
+
+  return (
+    <>
+      {annotations.map((shape, index) => {
+        const color = shape.color ?? COLORS[0];
+        switch (shape.type) {
+          case 'ellipse':
+            return (
+              <ellipse
+                key={index}
+                cx={(shape.x + shape.width / 2) * width}
+                cy={(shape.y + shape.height / 2) * height}
+                rx={(shape.width / 2) * width}
+                ry={(shape.height / 2) * height}
+                fill="none"
+                stroke={color}
+                strokeWidth={stroke}
+              />
+            );
+          case 'rectangle':
+            return (
+              <rect
+                key={index}
+                x={shape.x * width}
+                y={shape.y * height}
+                width={shape.width * width}
+                height={shape.height * height}
+                fill="none"
+                stroke={color}
+                strokeWidth={stroke}
+              />
+            );
+          case 'arrow': {
+            const [x1, y1, x2, y2] = [shape.x1 * width, shape.y1 * height, shape.x2 * width, shape.y2 * height];
+            const angle = Math.atan2(y2 - y1, x2 - x1);
+            const size = stroke * 5;
+            const head = [angle - Math.PI / 7, angle + Math.PI / 7]
+              .map((theta) => `${x2 - size * Math.cos(theta)},${y2 - size * Math.sin(theta)}`)
+              .join(' ');
+            return (
+              <g key={index}>
+                <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={color} strokeWidth={stroke} strokeLinecap="round" />
+                <polygon points={`${x2},${y2} ${head}`} fill={color} />
+              </g>
+            );
+          }
+          case 'label':
+            return (
+              <text
+                key={index}
+                x={shape.x * width}
+                y={shape.y * height}
+                dominantBaseline="hanging"
+                fontFamily="sans-serif"
+                fontWeight="bold"
+                fontSize={fontSize}
+                fill={color}
+                stroke="#ffffff"
+                strokeWidth={Math.max(2, Math.round(fontSize / 8))}
+                paintOrder="stroke"
+              >
+                {shape.text}
+              </text>
+            );
+        }
+      })}
+    </>
+  );
+}
+
 /**
  * Photo Lightbox Component — Issue #187
- * 
- * Full-screen image viewer with navigation.
+ *
+ * Full-screen image viewer with navigation and an annotation editor for
+ * circling, arrowing and labelling defects before they go into a report.
  */
 export function PhotoLightbox({
   photo,
   photos,
   onClose,
   onNavigate,
+  onSaveAnnotations,
 }: PhotoLightboxProps): React.ReactElement | null {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
+  const [isAnnotating, setIsAnnotating] = useState(false);
+  const [draft, setDraft] = useState<PhotoAnnotation[]>([]);
+  const [tool, setTool] = useState<AnnotationTool>('ellipse');
+  const [color, setColor] = useState(COLORS[0]);
+  const [labelText, setLabelText] = useState('');
+  const [drag, setDrag] = useState<{ start: Point; end: Point } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
   const currentIndex = photo ? photos.findIndex((p) => p.id === photo.id) : -1;
   const hasPrev = currentIndex > 0;
   const hasNext = currentIndex < photos.length - 1;
@@ -48,11 +200,26 @@ export function PhotoLightbox({
     }
   }, [hasNext, currentIndex, photos, onNavigate]);
 
-  // Keyboard navigation
+  const stopAnnotating = useCallback((): void => {
+    setIsAnnotating(false);
+    setDrag(null);
+    setSaveError(null);
+  }, []);
+
+  // Leave the editor when switching photos
+  useEffect(() => {
+    stopAnnotating();
+  }, [photo?.id, stopAnnotating]);
+
+  // Keyboard navigation; while annotating, Escape leaves the editor and arrows do nothing
   useEffect(() => {
     if (!photo) return;
 
     const handleKeyDown = (e: KeyboardEvent): void => {
+      if (isAnnotating) {
+        if (e.key === 'Escape') stopAnnotating();
+        return;
+      }
       switch (e.key) {
         case 'Escape':
           onClose();
@@ -68,7 +235,7 @@ export function PhotoLightbox({
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [photo, onClose, handlePrev, handleNext]);
+  }, [photo, isAnnotating, onClose, handlePrev, handleNext, stopAnnotating]);
 
   // Prevent body scroll when open
   useEffect(() => {
@@ -82,16 +249,94 @@ export function PhotoLightbox({
     };
   }, [photo]);
 
+  // Keep the overlay the size of the displayed image
+  const measureImage = useCallback((): void => {
+    if (imageRef.current) {
+      setImageSize({ width: imageRef.current.clientWidth, height: imageRef.current.clientHeight });
+    }
+  }, []);
+
+  useEffect(() => {
+    window.addEventListener('resize', measureImage);
+    return () => window.removeEventListener('resize', measureImage);
+  }, [measureImage]);
+
   if (!photo) return null;
 
   const imageUrl = photo.filePath.startsWith('http')
     ? photo.filePath
     : `${API_URL}${photo.filePath}`;
 
+  const pointFromEvent = (e: React.PointerEvent<SVGSVGElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>): void => {
+    const point = pointFromEvent(e);
+    if (tool === 'label') {
+      if (labelText.trim()) {
+        setDraft((prev) => [...prev, { type: 'label', x: point.x, y: point.y, text: labelText.trim(), color }]);
+      }
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ start: point, end: point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>): void => {
+    if (drag) {
+      setDrag({ ...drag, end: pointFromEvent(e) });
+    }
+  };
+
+  const handlePointerUp = (): void => {
+    if (!drag) return;
+    const shape = shapeFromDrag(tool, drag.start, drag.end, color);
+    if (shape) {
+      setDraft((prev) => [...prev, shape]);
+    }
+    setDrag(null);
+  };
+
+  const startAnnotating = (): void => {
+    setDraft(photo.annotations ?? []);
+    setIsAnnotating(true);
+  };
+
+  const handleSave = async (): Promise<void> => {
+    if (!onSaveAnnotations) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSaveAnnotations(photo.id, draft);
+      stopAnnotating();
+    } catch (error) {
+      console.error('Failed to save annotations:', error);
+      setSaveError('Could not save annotations. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const dragShape = drag ? shapeFromDrag(tool, drag.start, drag.end, color) : null;
+  const shownAnnotations = isAnnotating
+    ? [...draft, ...(dragShape ? [dragShape] : [])]
+    : photo.annotations ?? [];
+
+  const toolbarButton = (active: boolean): string =>
+    `px-3 py-1.5 rounded text-sm transition-colors ${
+      active ? 'bg-white text-gray-900' : 'bg-white/10 text-white hover:bg-white/20'
+    }`;
+
   return (
     <div
       className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center"
-      onClick={onClose}
+      onClick={isAnnotating ? undefined : onClose}
     >
       {/* Close button */}
       <button
@@ -106,7 +351,7 @@ export function PhotoLightbox({
       </button>
 
       {/* Previous button */}
-      {hasPrev && (
+      {hasPrev && !isAnnotating && (
         <button
           type="button"
           onClick={(e) => {
@@ -123,7 +368,7 @@ export function PhotoLightbox({
       )}
 
       {/* Next button */}
-      {hasNext && (
+      {hasNext && !isAnnotating && (
         <button
           type="button"
           onClick={(e) => {
@@ -144,11 +389,84 @@ export function PhotoLightbox({
         className="max-w-[90vw] max-h-[85vh] flex flex-col items-center"
         onClick={(e) => e.stopPropagation()}
       >
-        <img
-          src={imageUrl}
-          alt={photo.caption}
-          className="max-w-full max-h-[75vh] object-contain"
-        />
+        {/* Annotation toolbar */}
+        {isAnnotating && (
+          <div className="mb-3 flex flex-wrap items-center justify-center gap-2">
+            {TOOLS.map(({ tool: value, label }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setTool(value)}
+                className={toolbarButton(tool === value)}
+                aria-pressed={tool === value}
+              >
+                {label}
+              </button>
+            ))}
+            {tool === 'label' && (
+              <input
+                type="text"
+                value={labelText}
+                onChange={(e) => setLabelText(e.target.value)}
+                maxLength={100}
+                placeholder="Label text, then click the photo"
+                className="px-2 py-1.5 rounded text-sm text-gray-900 w-64"
+              />
+            )}
+            <div className="flex items-center gap-1 ml-2">
+              {COLORS.map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setColor(value)}
+                  className={`w-6 h-6 rounded-full border-2 ${color === value ? 'border-white' : 'border-transparent'}`}
+                  style={{ backgroundColor: value }}
+                  aria-label={`Colour ${value}`}
+                  aria-pressed={color === value}
+                />
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setDraft((prev) => prev.slice(0, -1))}
+              disabled={draft.length === 0}
+              className={`${toolbarButton(false)} ml-2 disabled:opacity-40`}
+            >
+              Undo
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft([])}
+              disabled={draft.length === 0}
+              className={`${toolbarButton(false)} disabled:opacity-40`}
+            >
+              Clear
+            </button>
+          </div>
+        )}
+
+        <div className="relative">
+          <img
+            ref={imageRef}
+            src={imageUrl}
+            alt={photo.caption}
+            onLoad={measureImage}
+            className="block max-w-full max-h-[75vh] object-contain select-none"
+            draggable={false}
+          />
+          {imageSize.width > 0 && (
+            <svg
+              className={`absolute inset-0 w-full h-full ${isAnnotating ? 'cursor-crosshair touch-none' : 'pointer-events-none'}`}
+              viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+              onPointerDown={isAnnotating ? handlePointerDown : undefined}
+              onPointerMove={isAnnotating ? handlePointerMove : undefined}
+              onPointerUp={isAnnotating ? handlePointerUp : undefined}
+            >
+              <AnnotationShapes annotations={shownAnnotations} width={imageSize.width} height={imageSize.height} />
+            </svg>
+          )}
+        </div>
+
         <div className="mt-4 text-center text-white">
           <p className="text-lg">
             #{photo.reportNumber}: {photo.caption}
@@ -156,6 +474,31 @@ export function PhotoLightbox({
           <p className="text-sm text-white/60 mt-1">
             {currentIndex + 1} of {photos.length} • Source: {photo.source}
           </p>
+
+          {onSaveAnnotations && (
+            <div className="mt-3 flex items-center justify-center gap-2">
+              {isAnnotating ? (
+                <>
+                  <button type="button" onClick={stopAnnotating} className={toolbarButton(false)}>
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    className="px-3 py-1.5 rounded text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {isSaving ? 'Saving...' : 'Save annotations'}
+                  </button>
+                </>
+              ) : (
+                <button type="button" onClick={startAnnotating} className={toolbarButton(false)}>
+                  {photo.annotations?.length ? 'Edit annotations' : 'Annotate'}
+                </button>
+              )}
+            </div>
+          )}
+          {saveError && <p className="text-sm text-red-300 mt-2">{saveError}</p>}
         </div>
       </div>
     </div>
@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useApi } from '@/lib/use-api';
+
+interface VoiceNotePlayerProps {
+  voiceNoteId: string;
+}
+
+/**
+ * Plays the original recording of a dictated finding. The audio route needs
+ * the session token, so the recording is fetched on demand and played from a
+ * blob URL rather than pointed at directly.
+ */
+export function VoiceNotePlayer({ voiceNoteId }: VoiceNotePlayerProps): React.ReactElement {
+  const api = useApi();
+  const [src, setSrc] = useState<string | null>(null);
+  const [status, setStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+
+  useEffect(() => {
+    return () => {
+      if (src) URL.revokeObjectURL(src);
+    };
+  }, [src]);
+
+  const load = async () => {
+    setStatus('loading');
+    try {
+      const audio = await api.voiceNotes.getAudio(voiceNoteId);
+      setSrc(URL.createObjectURL(audio));
+      setStatus('idle');
+    } catch {
+      setStatus('error');
+    }
+  };
+
+  if (src) {
+    return (
+      <audio
+        controls
+        autoPlay
+        src={src}
+        className="mt-3 w-full h-8"
+        aria-label="Original voice note"
+      />
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={load}
+      disabled={status === 'loading'}
+      className="mt-3 text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-500"
+    >
+      {status === 'loading'
+        ? 'Loading voice note...'
+        : status === 'error'
+          ? 'Voice note unavailable. Try again'
+          : 'Play original voice note'}
+    </button>
+  );
+}
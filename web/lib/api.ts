@@ -89,6 +89,32 @@ async function request<T>(endpoint: string, options: RequestOptions = {}): Promi
   return response.json();
 }
 
+/**
+ * Fetch a file the browser cannot load from a plain URL because the API
+ * needs the Authorization header (e.g. audio played from a blob URL).
+ */
+async function requestBlob(endpoint: string, options: RequestOptions = {}): Promise<Blob> {
+  const { headers = {}, token } = options;
+
+  const response = await fetch(`${API_URL}${endpoint}`, {
+    headers: {
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...headers,
+    },
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiError(
+      data.message || `API error: ${response.status}`,
+      response.status,
+      data
+    );
+  }
+
+  return response.blob();
+}
+
 // ============================================================================
 // API Factory - Creates authenticated API client
 // ============================================================================
@@ -156,6 +182,12 @@ export function createApiClient(token?: string) {
       getUrl: (photoId: string): string =>
         `${API_URL}/api/photos/${photoId}`,
     },
+
+    // Voice notes
+    voiceNotes: {
+      getAudio: (voiceNoteId: string): Promise<Blob> =>
+        requestBlob(`/api/voice-notes/${voiceNoteId}/audio`, opts()),
+    },
   };
 }
 
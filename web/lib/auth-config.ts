@@ -2,7 +2,8 @@
  * NextAuth Configuration — Issue #181, #339
  *
  * Handles authentication via API credentials provider.
- * Stores API token in JWT for authenticated API calls.
+ * Stores API token in JWT for authenticated API calls, and refreshes it
+ * with the API refresh token shortly before it expires.
  */
 
 import type { NextAuthConfig, Session, User } from 'next-auth';
@@ -11,13 +12,49 @@ import Credentials from 'next-auth/providers/credentials';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
 
+// Refresh this long before the API token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
 // Extended types for API token
 interface ExtendedUser extends User {
   apiToken?: string;
+  refreshToken?: string;
+  apiTokenExpires?: number;
 }
 
 interface ExtendedJWT extends JWT {
   apiToken?: string;
+  refreshToken?: string;
+  apiTokenExpires?: number;
+}
+
+/**
+ * Exchange the refresh token for a new API token. Refresh tokens rotate,
+ * so the new refresh token replaces the old one. On failure the API token
+ * is dropped and API calls return 401 until the user logs in again.
+ */
+async function refreshApiToken(token: ExtendedJWT): Promise<ExtendedJWT> {
+  try {
+    const response = await fetch(`${API_URL}/api/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken: token.refreshToken }),
+    });
+
+    if (!response.ok) {
+      return { ...token, apiToken: undefined, refreshToken: undefined };
+    }
+
+    const data = await response.json();
+    return {
+      ...token,
+      apiToken: data.token,
+      refreshToken: data.refreshToken,
+      apiTokenExpires: Date.now() + data.expiresIn * 1000,
+    };
+  } catch {
+    return { ...token, apiToken: undefined, refreshToken: undefined };
+  }
 }
 
 interface ExtendedSession extends Session {
@@ -32,7 +69,7 @@ export const authConfig: NextAuthConfig = {
         email: { label: 'Email', type: 'email' },
         password: { label: 'Password', type: 'password' },
       },
-      async authorize(credentials): Promise<ExtendedUser | null> {
+      async authorize(credentials, request): Promise<ExtendedUser | null> {
         if (!credentials?.email || !credentials?.password) {
           return null;
         }
@@ -41,7 +78,11 @@ export const authConfig: NextAuthConfig = {
           // Call API to validate credentials
           const response = await fetch(`${API_URL}/api/auth/login`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: {
+              'Content-Type': 'application/json',
+              // Name the user's browser in the API sessions list, not this server
+              'User-Agent': request.headers.get('user-agent') ?? 'AI Inspection Web',
+            },
             body: JSON.stringify({
               email: credentials.email,
               password: credentials.password,
@@ -59,6 +100,8 @@ export const authConfig: NextAuthConfig = {
               id: data.user.id,
               email: data.user.email,
               apiToken: data.token, // Store API token for authenticated requests
+              refreshToken: data.refreshToken,
+              apiTokenExpires: Date.now() + data.expiresIn * 1000,
             };
           }
 
@@ -74,7 +117,7 @@ export const authConfig: NextAuthConfig = {
   },
   session: {
     strategy: 'jwt',
-    maxAge: 24 * 60 * 60, // 24 hours — matches API token expiry
+    maxAge: 30 * 24 * 60 * 60, // 30 days — matches API session expiry
   },
   callbacks: {
     authorized({ auth, request: { nextUrl } }) {
@@ -98,14 +141,22 @@ export const authConfig: NextAuthConfig = {
 
       return true;
     },
-    jwt({ token, user }): ExtendedJWT {
+    async jwt({ token, user }): Promise<ExtendedJWT> {
+      const extToken = token as ExtendedJWT;
       if (user) {
         const extUser = user as ExtendedUser;
-        token.id = extUser.id;
-        token.email = extUser.email;
-        token.apiToken = extUser.apiToken; // Persist API token in JWT
+        extToken.id = extUser.id;
+        extToken.email = extUser.email;
+        extToken.apiToken = extUser.apiToken; // Persist API token in JWT
+        extToken.refreshToken = extUser.refreshToken;
+        extToken.apiTokenExpires = extUser.apiTokenExpires;
+        return extToken;
+      }
+
+      if (extToken.refreshToken && Date.now() > (extToken.apiTokenExpires ?? 0) - REFRESH_MARGIN_MS) {
+        return refreshApiToken(extToken);
       }
-      return token as ExtendedJWT;
+      return extToken;
     },
     session({ session, token }): ExtendedSession {
       const extToken = token as ExtendedJWT;